@@ -1,5 +1,9 @@
 import { CronJob } from "cron";
 import https from "https";
+import { RecurringTransactionService } from "../services/RecurringTransactionService";
+import { TrashService } from "../services/TrashService";
+import { SessionService } from "../services/SessionService";
+import { LoginThrottleService } from "../services/LoginThrottleService";
 
 const job = new CronJob("*/14 * * * *", function () {
   const apiUrl = process.env.API_URL;
@@ -20,6 +24,56 @@ const job = new CronJob("*/14 * * * *", function () {
   });
 });
 
+// Post transactions for recurring rules at the top of every hour. Posting is
+// idempotent, so occurrences missed while the server was down are caught up here.
+export const recurringTransactionJob = new CronJob("0 * * * *", async function () {
+  try {
+    const postedCount = await new RecurringTransactionService().postDueTransactions();
+    if (postedCount > 0) {
+      console.log(`Posted ${postedCount} recurring transaction(s)`);
+    }
+  } catch (error) {
+    console.error("Error while posting recurring transactions", error);
+  }
+});
+
+// Permanently remove what has been in the trash past its retention window, daily at 3 AM
+export const trashPurgeJob = new CronJob("0 3 * * *", async function () {
+  try {
+    const purged = await new TrashService().purgeExpired();
+    const purgedCount = Object.values(purged).reduce((sum, count) => sum + count, 0);
+    if (purgedCount > 0) {
+      console.log(`Purged ${purgedCount} item(s) from the trash`);
+    }
+  } catch (error) {
+    console.error("Error while purging the trash", error);
+  }
+});
+
+// Delete sessions and refresh tokens past their expiry, daily at 4 AM
+export const sessionCleanupJob = new CronJob("0 4 * * *", async function () {
+  try {
+    const deletedCount = await new SessionService().purgeExpired();
+    if (deletedCount > 0) {
+      console.log(`Deleted ${deletedCount} expired session(s)`);
+    }
+  } catch (error) {
+    console.error("Error while deleting expired sessions", error);
+  }
+});
+
+// Forget failed logins that are no longer counted, every hour
+export const loginFailureCleanupJob = new CronJob("0 * * * *", async function () {
+  try {
+    const deletedCount = await new LoginThrottleService().purgeStale();
+    if (deletedCount > 0) {
+      console.log(`Deleted ${deletedCount} stale login failure record(s)`);
+    }
+  } catch (error) {
+    console.error("Error while deleting stale login failures", error);
+  }
+});
+
 export default job;
 
 // CRON JOB EXPLANATION:
@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import { AuditLogService } from '../services/AuditLogService';
+import { ApiResponse, AuditEntityType, AuditLogQueryParams } from '../types';
+
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['transaction', 'budget', 'category', 'wallet', 'reminder'];
+
+export class AuditLogController {
+  private auditLogService: AuditLogService;
+
+  constructor() {
+    this.auditLogService = new AuditLogService();
+  }
+
+  // GET /api/wallets/:id/audit-log - Get the change history of a wallet
+  getWalletAuditLog = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const query = req.query as AuditLogQueryParams;
+      const validationError = this.validateQuery(query);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const { page, limit } = this.parsePagination(query);
+      const result = await this.auditLogService.getWalletAuditLog(
+        req.params.id,
+        userId,
+        page,
+        limit,
+        query.entity_type as AuditEntityType | undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/admin/users/:id/audit-log - Get the changes a user made (admin only)
+  getUserAuditLog = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = req.query as AuditLogQueryParams;
+      const validationError = this.validateQuery(query);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const { page, limit } = this.parsePagination(query);
+      const result = await this.auditLogService.getUserAuditLog(
+        req.params.id,
+        page,
+        limit,
+        query.entity_type as AuditEntityType | undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private validateQuery(query: AuditLogQueryParams): string | null {
+    if (query.entity_type !== undefined && !AUDIT_ENTITY_TYPES.includes(query.entity_type as AuditEntityType)) {
+      return `Entity type must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  private parsePagination(query: AuditLogQueryParams): { page: number; limit: number } {
+    return {
+      page: Math.max(1, parseInt(query.page || '1') || 1),
+      limit: Math.min(100, Math.max(1, parseInt(query.limit || '20') || 20))
+    };
+  }
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Wallet not found'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_RESOURCE_FORBIDDEN':
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'AUTH_RESOURCE_FORBIDDEN',
+            message: 'Only the owners of a wallet can see its history'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Audit log controller error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
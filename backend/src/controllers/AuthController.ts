@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../services/AuthService';
 import { UserService } from '../services/UserService';
-import { RegisterRequest, LoginRequest, ApiResponse, UpdateUserRequest } from '../types';
+import { RegisterRequest, LoginRequest, ApiResponse, UpdateUserRequest, SessionClient } from '../types';
+import { isCurrencyCode } from '../utils/currency';
 
 export class AuthController {
   private authService: AuthService;
@@ -54,7 +55,7 @@ export class AuthController {
         return;
       }
 
-      const result = await this.authService.register(registerData);
+      const result = await this.authService.register(registerData, this.getClient(req));
 
       res.status(201).json({
         success: true,
@@ -81,7 +82,34 @@ export class AuthController {
         return;
       }
 
-      const result = await this.authService.login(loginData);
+      const result = await this.authService.login(loginData, this.getClient(req));
+
+      res.status(200).json({
+        success: true,
+        data: result
+      } as ApiResponse);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  };
+
+  // POST /api/auth/login/2fa - Finish a login with a two-factor or recovery code
+  loginTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { challengeToken, code } = req.body;
+
+      if (typeof challengeToken !== 'string' || !challengeToken || typeof code !== 'string' || !code.trim()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Challenge token and code are required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await this.authService.completeTwoFactorLogin(challengeToken, code, this.getClient(req));
 
       res.status(200).json({
         success: true,
@@ -94,20 +122,20 @@ export class AuthController {
 
   refresh = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { token } = req.body;
+      const { refreshToken } = req.body;
 
-      if (!token) {
+      if (typeof refreshToken !== 'string' || !refreshToken) {
         res.status(400).json({
           success: false,
           error: {
             code: 'VALIDATION_FAILED',
-            message: 'Token is required'
+            message: 'Refresh token is required'
           }
         } as ApiResponse);
         return;
       }
 
-      const result = await this.authService.refreshToken(token);
+      const result = await this.authService.refreshToken(refreshToken, this.getClient(req));
 
       res.status(200).json({
         success: true,
@@ -118,6 +146,58 @@ export class AuthController {
     }
   };
 
+  // POST /api/auth/logout - End the session of a refresh token
+  logout = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+
+      if (typeof refreshToken !== 'string' || !refreshToken) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Refresh token is required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      await this.authService.logout(refreshToken);
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Logged out successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  };
+
+  // POST /api/auth/logout-all - End every session of the current user
+  logoutAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_MISSING',
+            message: 'Authentication required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      await this.authService.logoutEverywhere(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Logged out of all sessions' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  };
+
   me = async (req: Request, res: Response): Promise<void> => {
     try {
       if (!req.user) {
@@ -188,6 +268,18 @@ export class AuthController {
         }
       }
 
+      // Validate base currency if provided
+      if (updateData.base_currency !== undefined && !isCurrencyCode(updateData.base_currency)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Base currency must be a 3-letter code such as PHP'
+          }
+        } as ApiResponse);
+        return;
+      }
+
       const updatedUser = await this.userService.updateUser(req.user.userId, updateData);
 
       res.status(200).json({
@@ -251,7 +343,7 @@ export class AuthController {
         return;
       }
 
-      await this.authService.changePassword(req.user.userId, currentPassword, newPassword);
+      await this.authService.changePassword(req.user.userId, currentPassword, newPassword, req.user.sessionId);
 
       res.status(200).json({
         success: true,
@@ -262,6 +354,133 @@ export class AuthController {
     }
   };
 
+  // POST /api/auth/forgot-password - Email a password reset link
+  forgotPassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { email } = req.body;
+
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (typeof email !== 'string' || !emailRegex.test(email)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'A valid email is required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      await this.authService.requestPasswordReset(email);
+
+      // Same answer whether or not the address has an account
+      res.status(200).json({
+        success: true,
+        data: { message: 'If an account uses this email, a reset link is on its way' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  };
+
+  // POST /api/auth/reset-password - Set a new password using a reset link
+  resetPassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { token, newPassword, confirmPassword } = req.body;
+
+      if (typeof token !== 'string' || !token || !newPassword || !confirmPassword) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Token, new password, and confirmation are required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      if (newPassword !== confirmPassword) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_PASSWORD_MISMATCH',
+            message: 'New password confirmation does not match'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      await this.authService.resetPassword(token, newPassword);
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Password reset successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  };
+
+  // POST /api/auth/verify-email - Confirm the email address using a verification link
+  verifyEmail = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { token } = req.body;
+
+      if (typeof token !== 'string' || !token) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Token is required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      await this.authService.verifyEmail(token);
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Email verified successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  };
+
+  // POST /api/auth/resend-verification - Email a new verification link
+  resendVerification = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_MISSING',
+            message: 'Authentication required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      await this.authService.requestEmailVerification(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Verification email sent' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleAuthError(error, res);
+    }
+  };
+
+  // The device a login comes from, shown in the list of sessions
+  private getClient(req: Request): SessionClient {
+    return {
+      user_agent: req.get('user-agent') || null,
+      ip_address: req.ip || null
+    };
+  }
+
   private handleAuthError(error: any, res: Response): void {
     const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
 
@@ -316,6 +535,26 @@ export class AuthController {
         } as ApiResponse);
         break;
 
+      case 'AUTH_ACCOUNT_LOCKED':
+        res.status(423).json({
+          success: false,
+          error: {
+            code: 'AUTH_ACCOUNT_LOCKED',
+            message: 'This account is locked after too many failed login attempts. Try again in 15 minutes or ask an administrator to unlock it'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_LOGIN_THROTTLED':
+        res.status(429).json({
+          success: false,
+          error: {
+            code: 'AUTH_LOGIN_THROTTLED',
+            message: 'Too many failed login attempts. Please wait a moment and try again'
+          }
+        } as ApiResponse);
+        break;
+
       case 'USER_CREATION_FAILED':
         res.status(500).json({
           success: false,
@@ -346,6 +585,36 @@ export class AuthController {
         } as ApiResponse);
         break;
 
+      case 'AUTH_TOKEN_REVOKED':
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_REVOKED',
+            message: 'This session has ended. Please log in again'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_CHALLENGE_INVALID':
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_CHALLENGE_INVALID',
+            message: 'This sign-in attempt has expired. Please log in again'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_TWO_FACTOR_CODE_INVALID':
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TWO_FACTOR_CODE_INVALID',
+            message: 'The code is incorrect or was already used'
+          }
+        } as ApiResponse);
+        break;
+
       case 'USER_NOT_FOUND':
         res.status(404).json({
           success: false,
@@ -366,6 +635,26 @@ export class AuthController {
         } as ApiResponse);
         break;
 
+      case 'AUTH_LINK_INVALID':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'AUTH_LINK_INVALID',
+            message: 'This link is invalid, has expired, or has already been used'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_EMAIL_ALREADY_VERIFIED':
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'AUTH_EMAIL_ALREADY_VERIFIED',
+            message: 'Your email is already verified'
+          }
+        } as ApiResponse);
+        break;
+
       default:
         console.error('Auth error:', error);
         res.status(500).json({
@@ -143,6 +143,18 @@ export class BudgetController {
         return;
       }
 
+      // Validate category ID if provided
+      if (budgetData.category_id !== undefined && budgetData.category_id !== null && typeof budgetData.category_id !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Category ID must be a string'
+          }
+        } as ApiResponse);
+        return;
+      }
+
       // Validate month format
       const monthRegex = /^\d{4}-\d{2}$/;
       if (!monthRegex.test(budgetData.month)) {
@@ -368,7 +380,17 @@ export class BudgetController {
           success: false,
           error: {
             code: 'BUDGET_ALREADY_EXISTS',
-            message: 'Budget already exists for this wallet and month'
+            message: 'Budget already exists for this wallet, category and month'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_BUDGET_CATEGORY':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_BUDGET_CATEGORY',
+            message: 'Category budgets can only be set for expense categories'
           }
         } as ApiResponse);
         break;
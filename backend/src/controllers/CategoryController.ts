@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { CategoryService } from '../services/CategoryService';
-import { ApiResponse, CreateCategoryRequest, UpdateCategoryRequest } from '../types';
+import { ApiResponse, CreateCategoryRequest, UpdateCategoryRequest, CategorySuggestionQuery } from '../types';
 
 export class CategoryController {
   private categoryService: CategoryService;
@@ -329,6 +329,51 @@ export class CategoryController {
     }
   };
 
+  // GET /api/categories/suggestions - Suggest categories for a transaction title
+  getCategorySuggestions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const { title, type, wallet_id } = req.query;
+
+      if (typeof title !== 'string' || !title.trim()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Title is required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const query: CategorySuggestionQuery = {
+        title: title.trim().slice(0, 255),
+        type: type === 'Income' || type === 'Expense' ? type : undefined,
+        wallet_id: typeof wallet_id === 'string' && wallet_id ? wallet_id : undefined
+      };
+
+      const suggestions = await this.categoryService.suggestCategories(userId, query);
+
+      res.status(200).json({
+        success: true,
+        data: suggestions
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
   private handleError(error: any, res: Response): void {
     const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
 
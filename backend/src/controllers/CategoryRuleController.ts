@@ -0,0 +1,446 @@
+import { Request, Response } from 'express';
+import { CategoryRuleService } from '../services/CategoryRuleService';
+import {
+  ApiResponse,
+  CreateCategoryRuleRequest,
+  UpdateCategoryRuleRequest,
+  ApplyCategoryRulesRequest
+} from '../types';
+
+const MATCH_TYPES = ['contains', 'regex'];
+
+export class CategoryRuleController {
+  private categoryRuleService: CategoryRuleService;
+
+  constructor() {
+    this.categoryRuleService = new CategoryRuleService();
+  }
+
+  // GET /api/category-rules - Get user's category rules
+  getUserRules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rules = await this.categoryRuleService.getUserRules(userId);
+
+      res.status(200).json({
+        success: true,
+        data: rules
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/category-rules/:id - Get specific category rule
+  getRuleById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rule = await this.categoryRuleService.getRuleById(id, userId);
+
+      if (!rule) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Category rule not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: rule
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/category-rules - Create new category rule
+  createRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const ruleData: CreateCategoryRuleRequest = req.body;
+
+      // Validate required fields
+      if (!ruleData.name || typeof ruleData.name !== 'string' || !ruleData.name.trim() || !ruleData.category_id) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Name and category_id are required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const validationError = this.validateRuleFields(ruleData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rule = await this.categoryRuleService.createRule(userId, ruleData);
+
+      res.status(201).json({
+        success: true,
+        data: rule
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // PUT /api/category-rules/:id - Update category rule
+  updateRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const ruleData: UpdateCategoryRuleRequest = req.body;
+
+      if (ruleData.name !== undefined && (typeof ruleData.name !== 'string' || !ruleData.name.trim())) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Name cannot be empty'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const validationError = this.validateRuleFields(ruleData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rule = await this.categoryRuleService.updateRule(id, userId, ruleData);
+
+      if (!rule) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Category rule not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: rule
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // DELETE /api/category-rules/:id - Delete category rule
+  deleteRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const success = await this.categoryRuleService.deleteRule(id, userId);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Category rule not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Category rule deleted successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/category-rules/apply/preview - Show what running the rules would change
+  previewApply = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const applyData: ApplyCategoryRulesRequest = req.body || {};
+
+      const validationError = this.validateApplyRequest(applyData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const changes = await this.categoryRuleService.previewApply(userId, applyData);
+
+      res.status(200).json({
+        success: true,
+        data: changes
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/category-rules/apply - Categorize uncategorized transactions with the rules
+  applyRules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const applyData: ApplyCategoryRulesRequest = req.body || {};
+
+      const validationError = this.validateApplyRequest(applyData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await this.categoryRuleService.applyRules(userId, applyData);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private validateRuleFields(data: UpdateCategoryRuleRequest): string | null {
+    if (data.name !== undefined && data.name.trim().length > 255) {
+      return 'Name must be 255 characters or less';
+    }
+
+    if (data.title_pattern !== undefined && data.title_pattern !== null) {
+      if (typeof data.title_pattern !== 'string' || data.title_pattern.trim().length > 255) {
+        return 'Title pattern must be a string of 255 characters or less';
+      }
+    }
+
+    if (data.match_type !== undefined && !MATCH_TYPES.includes(data.match_type)) {
+      return 'Match type must be either contains or regex';
+    }
+
+    for (const field of ['min_amount', 'max_amount'] as const) {
+      const value = data[field];
+      if (value !== undefined && value !== null && (typeof value !== 'number' || value < 0 || value > 999999999.99)) {
+        return `The ${field} must be a non-negative number`;
+      }
+    }
+
+    if (data.type !== undefined && data.type !== 'Income' && data.type !== 'Expense') {
+      return 'Type must be either Income or Expense';
+    }
+
+    if (data.priority !== undefined && !Number.isInteger(data.priority)) {
+      return 'Priority must be a whole number';
+    }
+
+    if (data.is_active !== undefined && typeof data.is_active !== 'boolean') {
+      return 'is_active must be a boolean';
+    }
+
+    return null;
+  }
+
+  private validateApplyRequest(data: ApplyCategoryRulesRequest): string | null {
+    if (data.wallet_id !== undefined && typeof data.wallet_id !== 'string') {
+      return 'Wallet must be a wallet id';
+    }
+
+    if (data.transaction_ids !== undefined) {
+      if (!Array.isArray(data.transaction_ids) || data.transaction_ids.some(id => typeof id !== 'string')) {
+        return 'transaction_ids must be a list of transaction ids';
+      }
+    }
+
+    return null;
+  }
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Category rule or wallet not found'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_RESOURCE_FORBIDDEN':
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'AUTH_RESOURCE_FORBIDDEN',
+            message: 'Access to this resource is forbidden'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_RULE_TYPE_MISMATCH':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_RULE_TYPE_MISMATCH',
+            message: 'The rule type must match the type of its category'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_EMPTY_RULE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_EMPTY_RULE',
+            message: 'A rule needs a title pattern or an amount range'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_RULE_PATTERN':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_RULE_PATTERN',
+            message: 'Title pattern must be a valid regular expression of at most 100 characters, without backreferences or lookarounds'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_AMOUNT_RANGE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_AMOUNT_RANGE',
+            message: 'Minimum amount must not be greater than maximum amount'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Category rule controller error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
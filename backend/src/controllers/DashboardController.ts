@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { DashboardService } from '../services/DashboardService';
 import { ExportService } from '../services/ExportService';
 import { ApiResponse } from '../types';
+import { MAX_TAGS_PER_TRANSACTION, normalizeTagNames, parseTagQuery } from '../utils/tags';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -66,16 +67,30 @@ export class DashboardController {
         type,
         start_date,
         end_date,
+        tags,
         page = '1',
         limit = '10'
       } = req.query;
 
+      const tagFilter = this.parseTags(tags);
+      if (!tagFilter) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Tags must be a list of at most ${MAX_TAGS_PER_TRANSACTION} names`
+          }
+        } as ApiResponse);
+        return;
+      }
+
       const report = await this.dashboardService.getTransactionReport(userId, {
         wallet_id: wallet_id as string,
         category_id: category_id as string,
         type: type as 'Income' | 'Expense',
         start_date: start_date as string,
         end_date: end_date as string,
+        tags: tagFilter,
         page: parseInt(page as string),
         limit: parseInt(limit as string)
       });
@@ -114,14 +129,28 @@ export class DashboardController {
         wallet_id,
         type,
         start_date,
-        end_date
+        end_date,
+        tags
       } = req.query;
 
+      const tagFilter = this.parseTags(tags);
+      if (!tagFilter) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Tags must be a list of at most ${MAX_TAGS_PER_TRANSACTION} names`
+          }
+        } as ApiResponse);
+        return;
+      }
+
       const breakdown = await this.dashboardService.getCategoryBreakdown(userId, {
         wallet_id: wallet_id as string,
         type: type as 'Income' | 'Expense',
         start_date: start_date as string,
-        end_date: end_date as string
+        end_date: end_date as string,
+        tags: tagFilter
       });
 
       res.json({
@@ -140,6 +169,61 @@ export class DashboardController {
     }
   }
 
+  async getTagBreakdown(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'User not authenticated'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const {
+        wallet_id,
+        type,
+        start_date,
+        end_date
+      } = req.query;
+
+      const breakdown = await this.dashboardService.getTagBreakdown(userId, {
+        wallet_id: wallet_id as string,
+        type: type as 'Income' | 'Expense',
+        start_date: start_date as string,
+        end_date: end_date as string
+      });
+
+      res.json({
+        success: true,
+        data: breakdown
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Access denied to wallet') {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'AUTH_RESOURCE_FORBIDDEN',
+            message: 'Access to this wallet is forbidden'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      console.error('Error getting tag breakdown:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to get tag breakdown'
+        }
+      } as ApiResponse);
+    }
+  }
+
   async getTrends(req: Request, res: Response): Promise<void> {
     try {
       const userId = req.user?.userId;
@@ -182,6 +266,69 @@ export class DashboardController {
     }
   }
 
+  async getForecast(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'User not authenticated'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const {
+        wallet_id,
+        days = '30'
+      } = req.query;
+
+      const forecastDays = Number(days);
+      if (!Number.isInteger(forecastDays) || forecastDays < 1 || forecastDays > 365) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Days must be a whole number between 1 and 365'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const forecast = await this.dashboardService.getCashFlowForecast(userId, {
+        wallet_id: wallet_id as string,
+        days: forecastDays
+      });
+
+      res.json({
+        success: true,
+        data: forecast
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Access denied to wallet') {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'AUTH_RESOURCE_FORBIDDEN',
+            message: 'Access to this wallet is forbidden'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      console.error('Error getting forecast:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to get forecast'
+        }
+      } as ApiResponse);
+    }
+  }
+
   async exportTransactions(req: Request, res: Response): Promise<void> {
     try {
       const userId = req.user?.userId;
@@ -203,6 +350,7 @@ export class DashboardController {
         type,
         start_date,
         end_date,
+        tags,
         filename
       } = req.body;
 
@@ -217,6 +365,18 @@ export class DashboardController {
         return;
       }
 
+      const tagFilter = this.parseTags(tags);
+      if (!tagFilter) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Tags must be a list of at most ${MAX_TAGS_PER_TRANSACTION} names`
+          }
+        } as ApiResponse);
+        return;
+      }
+
       // Get transaction data
       const report = await this.dashboardService.getTransactionReport(userId, {
         wallet_id: wallet_id as string,
@@ -224,6 +384,7 @@ export class DashboardController {
         type: type as 'Income' | 'Expense',
         start_date: start_date as string,
         end_date: end_date as string,
+        tags: tagFilter,
         page: 1,
         limit: 10000 // Get all transactions for export
       });
@@ -302,14 +463,28 @@ export class DashboardController {
         type,
         start_date,
         end_date,
+        tags,
         filename
       } = req.body;
 
+      const tagFilter = this.parseTags(tags);
+      if (!tagFilter) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Tags must be a list of at most ${MAX_TAGS_PER_TRANSACTION} names`
+          }
+        } as ApiResponse);
+        return;
+      }
+
       const breakdown = await this.dashboardService.getCategoryBreakdown(userId, {
         wallet_id: wallet_id as string,
         type: type as 'Income' | 'Expense',
         start_date: start_date as string,
-        end_date: end_date as string
+        end_date: end_date as string,
+        tags: tagFilter
       });
 
       const filePath = await this.exportService.exportCategoryBreakdownToCSV(
@@ -491,4 +666,9 @@ export class DashboardController {
       } as ApiResponse);
     }
   }
+
+  // Tags come as a comma-separated query parameter, or as a list in export request bodies
+  private parseTags(value: unknown): string[] | null {
+    return Array.isArray(value) ? normalizeTagNames(value) : parseTagQuery(value);
+  }
 }
\ No newline at end of file
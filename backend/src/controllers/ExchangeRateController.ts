@@ -0,0 +1,280 @@
+import { Request, Response } from 'express';
+import { ExchangeRateService } from '../services/ExchangeRateService';
+import { ApiResponse, CreateExchangeRateRequest, ExchangeRateImportRequest } from '../types';
+import { buildExchangeRateRow } from '../utils/exchangeRateImport';
+
+export class ExchangeRateController {
+  private exchangeRateService: ExchangeRateService;
+
+  constructor() {
+    this.exchangeRateService = new ExchangeRateService();
+  }
+
+  // GET /api/exchange-rates - Get user's exchange rates
+  getUserRates = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rates = await this.exchangeRateService.getUserRates(userId);
+
+      res.status(200).json({
+        success: true,
+        data: rates
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/exchange-rates - Add or replace a rate
+  createRate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rateData: CreateExchangeRateRequest = req.body;
+
+      const validationError = this.validateRate(rateData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rate = await this.exchangeRateService.saveRate(userId, rateData);
+
+      res.status(201).json({
+        success: true,
+        data: rate
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/exchange-rates/import/preview - Parse an uploaded rate file without saving it
+  previewImport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const importData: ExchangeRateImportRequest = req.body;
+
+      const validationError = this.validateImportRequest(importData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const preview = await this.exchangeRateService.previewImport(importData);
+
+      res.status(200).json({
+        success: true,
+        data: preview
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/exchange-rates/import - Import an uploaded rate file
+  importRates = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const importData: ExchangeRateImportRequest = req.body;
+
+      const validationError = this.validateImportRequest(importData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      // A failed import is still reported as a result so the row errors reach the client
+      const result = await this.exchangeRateService.importRates(userId, importData);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // DELETE /api/exchange-rates/:id - Delete a rate
+  deleteRate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const success = await this.exchangeRateService.deleteRate(id, userId);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Exchange rate not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Exchange rate deleted successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private validateRate(data: CreateExchangeRateRequest): string | null {
+    if (typeof data.rate_date !== 'string' || typeof data.from_currency !== 'string' || typeof data.to_currency !== 'string') {
+      return 'Date, from_currency and to_currency are required';
+    }
+
+    if (typeof data.rate !== 'number') {
+      return 'Rate must be a number';
+    }
+
+    const row = buildExchangeRateRow(1, data.rate_date, data.from_currency, data.to_currency, data.rate);
+    return 'error' in row ? row.error : null;
+  }
+
+  private validateImportRequest(data: ExchangeRateImportRequest): string | null {
+    if (!data.content || typeof data.content !== 'string' || !data.content.trim()) {
+      return 'File contents are required';
+    }
+
+    if (data.has_header !== undefined && typeof data.has_header !== 'boolean') {
+      return 'has_header must be a boolean';
+    }
+
+    return null;
+  }
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Exchange rate not found'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_EXCHANGE_RATE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Invalid exchange rate'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_EMPTY_IMPORT_FILE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_EMPTY_IMPORT_FILE',
+            message: 'The uploaded file has no rates'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_IMPORT_TOO_LARGE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_IMPORT_TOO_LARGE',
+            message: 'The uploaded file has too many rows. Split it into smaller files.'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Exchange rate controller error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
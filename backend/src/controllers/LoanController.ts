@@ -0,0 +1,581 @@
+import { Request, Response } from 'express';
+import { LoanService } from '../services/LoanService';
+import { ApiResponse, CreateLoanRequest, UpdateLoanRequest, CreateLoanPaymentRequest } from '../types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_AMOUNT = 9999999999.99;
+
+export class LoanController {
+  private loanService: LoanService;
+
+  constructor() {
+    this.loanService = new LoanService();
+  }
+
+  // GET /api/loans - Get user's loans with their balances
+  getUserLoans = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const loans = await this.loanService.getUserLoans(userId);
+
+      res.status(200).json({
+        success: true,
+        data: loans
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/loans/:id - Get a loan with its balance and payoff date
+  getLoanById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const summary = await this.loanService.getLoanSummary(id, userId);
+
+      if (!summary) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Loan not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: summary
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/loans/:id/schedule - Get the loan's amortization schedule
+  getSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const extraMonthly = this.parseAmountQuery(req.query.extra_monthly);
+      if (extraMonthly === null) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Extra monthly payment must be a non-negative number'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const schedule = await this.loanService.getSchedule(id, userId, { extra_monthly: extraMonthly });
+
+      res.status(200).json({
+        success: true,
+        data: schedule
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/loans/:id/simulate - Compare paying off the balance with and without extra payments
+  simulateExtraPayments = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const extraMonthly = this.parseAmountQuery(req.query.extra_monthly);
+      const lumpSum = this.parseAmountQuery(req.query.lump_sum);
+      if (extraMonthly === null || lumpSum === null) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Extra payments must be non-negative numbers'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const simulation = await this.loanService.simulateExtraPayments(id, userId, extraMonthly, lumpSum);
+
+      res.status(200).json({
+        success: true,
+        data: simulation
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/loans - Create new loan
+  createLoan = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const loanData: CreateLoanRequest = req.body;
+
+      const validationError = this.validateCreateLoanRequest(loanData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const summary = await this.loanService.createLoan(userId, loanData);
+
+      res.status(201).json({
+        success: true,
+        data: summary
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // PUT /api/loans/:id - Update loan
+  updateLoan = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const loanData: UpdateLoanRequest = req.body;
+
+      const validationError = this.validateUpdateLoanRequest(loanData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const summary = await this.loanService.updateLoan(id, userId, loanData);
+
+      res.status(200).json({
+        success: true,
+        data: summary
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // DELETE /api/loans/:id - Delete loan
+  deleteLoan = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const success = await this.loanService.deleteLoan(id, userId);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Loan not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Loan deleted successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/loans/:id/payments - Get payments with their principal and interest portions
+  getPayments = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const payments = await this.loanService.getPayments(id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: payments
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/loans/:id/payments - Record a payment or link an existing expense
+  addPayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const paymentData: CreateLoanPaymentRequest = req.body;
+
+      const validationError = this.validatePaymentRequest(paymentData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const payments = await this.loanService.addPayment(id, userId, paymentData);
+
+      res.status(201).json({
+        success: true,
+        data: payments
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // DELETE /api/loans/:id/payments/:paymentId - Unlink a payment, keeping its transaction
+  removePayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, paymentId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const payments = await this.loanService.removePayment(id, paymentId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: payments
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // Optional amount from the query string; null when it is not a non-negative number
+  private parseAmountQuery(value: unknown): number | null {
+    if (value === undefined || value === '') {
+      return 0;
+    }
+
+    const amount = Number(value);
+    if (typeof value !== 'string' || isNaN(amount) || amount < 0 || amount > MAX_AMOUNT) {
+      return null;
+    }
+
+    return amount;
+  }
+
+  private validateCreateLoanRequest(data: CreateLoanRequest): string | null {
+    if (!data.wallet_id || typeof data.wallet_id !== 'string') {
+      return 'Wallet ID is required';
+    }
+
+    if (!data.name || data.principal === undefined || data.annual_rate === undefined
+      || data.term_months === undefined || !data.start_date) {
+      return 'Name, principal, interest rate, term and start date are required';
+    }
+
+    if (data.create_reminder !== undefined && typeof data.create_reminder !== 'boolean') {
+      return 'Create reminder must be true or false';
+    }
+
+    return this.validateUpdateLoanRequest(data);
+  }
+
+  private validateUpdateLoanRequest(data: UpdateLoanRequest): string | null {
+    if (data.name !== undefined) {
+      if (typeof data.name !== 'string' || !data.name.trim()) {
+        return 'Loan name cannot be empty';
+      }
+
+      if (data.name.trim().length > 255) {
+        return 'Loan name must be 255 characters or less';
+      }
+    }
+
+    if (data.principal !== undefined) {
+      if (typeof data.principal !== 'number' || data.principal <= 0) {
+        return 'Principal must be a positive number';
+      }
+
+      if (data.principal > MAX_AMOUNT) {
+        return 'Principal is too large';
+      }
+    }
+
+    if (data.annual_rate !== undefined && typeof data.annual_rate !== 'number') {
+      return 'Interest rate must be a number';
+    }
+
+    if (data.term_months !== undefined && typeof data.term_months !== 'number') {
+      return 'Term must be a number of months';
+    }
+
+    if (data.start_date !== undefined && (typeof data.start_date !== 'string' || !DATE_PATTERN.test(data.start_date))) {
+      return 'Start date must be in YYYY-MM-DD format';
+    }
+
+    return null;
+  }
+
+  private validatePaymentRequest(data: CreateLoanPaymentRequest): string | null {
+    if (data.transaction_id !== undefined) {
+      if (!data.transaction_id || typeof data.transaction_id !== 'string') {
+        return 'Transaction ID must be a string';
+      }
+
+      return null;
+    }
+
+    if (typeof data.amount !== 'number' || data.amount <= 0) {
+      return 'Either a transaction ID or a positive amount is required';
+    }
+
+    if (data.amount > MAX_AMOUNT) {
+      return 'Amount is too large';
+    }
+
+    if (data.payment_date !== undefined && (typeof data.payment_date !== 'string' || !DATE_PATTERN.test(data.payment_date))) {
+      return 'Payment date must be in YYYY-MM-DD format';
+    }
+
+    if (data.category_id !== undefined && data.category_id !== null && typeof data.category_id !== 'string') {
+      return 'Category ID must be a string';
+    }
+
+    return null;
+  }
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Loan, payment or wallet not found'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_RESOURCE_FORBIDDEN':
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'AUTH_RESOURCE_FORBIDDEN',
+            message: 'Access to this resource is forbidden'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_LOAN_PRINCIPAL':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_LOAN_PRINCIPAL',
+            message: 'Principal must be a positive number'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_LOAN_RATE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_LOAN_RATE',
+            message: 'Interest rate must be between 0 and 100 percent'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_LOAN_TERM':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_LOAN_TERM',
+            message: 'Term must be a whole number of months between 1 and 600'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_DATE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_DATE',
+            message: 'Invalid loan or payment date'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_LOAN_PAYMENT':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_LOAN_PAYMENT',
+            message: 'Only expenses can be recorded as loan payments'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_LOAN_CURRENCY_MISMATCH':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_LOAN_CURRENCY_MISMATCH',
+            message: 'Payments must be in the currency of the loan wallet'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'LOAN_PAYMENT_ALREADY_LINKED':
+        res.status(422).json({
+          success: false,
+          error: {
+            code: 'LOAN_PAYMENT_ALREADY_LINKED',
+            message: 'This transaction is already recorded as a loan payment'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Loan controller error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
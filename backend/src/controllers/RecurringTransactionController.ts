@@ -0,0 +1,368 @@
+import { Request, Response } from 'express';
+import { RecurringTransactionService } from '../services/RecurringTransactionService';
+import { ApiResponse, CreateRecurringTransactionRequest, UpdateRecurringTransactionRequest } from '../types';
+
+const RECURRENCE_OPTIONS = ['once', 'daily', 'weekly', 'monthly', 'custom'];
+
+export class RecurringTransactionController {
+  private recurringTransactionService: RecurringTransactionService;
+
+  constructor() {
+    this.recurringTransactionService = new RecurringTransactionService();
+  }
+
+  // GET /api/recurring-transactions - Get user's recurring transaction rules
+  getUserRecurringTransactions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rules = await this.recurringTransactionService.getUserRecurringTransactions(userId);
+
+      res.status(200).json({
+        success: true,
+        data: rules
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/recurring-transactions/:id - Get specific recurring transaction rule
+  getRecurringTransactionById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rule = await this.recurringTransactionService.getRecurringTransactionById(id, userId);
+
+      if (!rule) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Recurring transaction not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: rule
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/recurring-transactions/:id/transactions - Get transactions posted by a rule
+  getGeneratedTransactions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const transactions = await this.recurringTransactionService.getGeneratedTransactions(id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: transactions
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/recurring-transactions - Create new recurring transaction rule
+  createRecurringTransaction = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const ruleData: CreateRecurringTransactionRequest = req.body;
+
+      // Validate required fields
+      if (!ruleData.title || !ruleData.title.trim() || !ruleData.amount || !ruleData.type || !ruleData.wallet_id || !ruleData.start_date) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Title, amount, type, wallet_id and start_date are required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const validationError = this.validateRuleFields(ruleData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rule = await this.recurringTransactionService.createRecurringTransaction(userId, ruleData);
+
+      res.status(201).json({
+        success: true,
+        data: rule
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // PUT /api/recurring-transactions/:id - Update recurring transaction rule
+  updateRecurringTransaction = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const ruleData: UpdateRecurringTransactionRequest = req.body;
+
+      if (ruleData.title !== undefined && (!ruleData.title || !ruleData.title.trim())) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Title cannot be empty'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const validationError = this.validateRuleFields(ruleData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const rule = await this.recurringTransactionService.updateRecurringTransaction(id, userId, ruleData);
+
+      if (!rule) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Recurring transaction not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: rule
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // DELETE /api/recurring-transactions/:id - Delete recurring transaction rule
+  deleteRecurringTransaction = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const success = await this.recurringTransactionService.deleteRecurringTransaction(id, userId);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Recurring transaction not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Recurring transaction deleted successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private validateRuleFields(data: UpdateRecurringTransactionRequest): string | null {
+    if (data.title !== undefined && data.title.trim().length > 255) {
+      return 'Title must be 255 characters or less';
+    }
+
+    if (data.amount !== undefined && (typeof data.amount !== 'number' || data.amount <= 0)) {
+      return 'Amount must be a positive number';
+    }
+
+    if (data.type !== undefined && data.type !== 'Income' && data.type !== 'Expense') {
+      return 'Type must be either Income or Expense';
+    }
+
+    if (data.recurrence && !RECURRENCE_OPTIONS.includes(data.recurrence)) {
+      return 'Recurrence must be one of: once, daily, weekly, monthly, custom';
+    }
+
+    return null;
+  }
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Recurring transaction or wallet not found'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_RESOURCE_FORBIDDEN':
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'AUTH_RESOURCE_FORBIDDEN',
+            message: 'Access to this resource is forbidden'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_AMOUNT':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_AMOUNT',
+            message: 'Amount must be a positive number'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_DATE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_DATE',
+            message: 'Invalid start date format'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_RECURRENCE_INTERVAL':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_RECURRENCE_INTERVAL',
+            message: 'Recurrence interval must be a positive number for custom recurrence'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_DURATION_END':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_DURATION_END',
+            message: 'Invalid duration end date format'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_DURATION_END_BEFORE_START_DATE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_DURATION_END_BEFORE_START_DATE',
+            message: 'Duration end date must be after start date'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Recurring transaction controller error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
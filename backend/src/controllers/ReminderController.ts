@@ -1,6 +1,13 @@
 import { Request, Response } from 'express';
 import { ReminderService } from '../services/ReminderService';
-import { ApiResponse, CreateReminderRequest, UpdateReminderRequest, ReminderQueryParams } from '../types';
+import {
+  ApiResponse,
+  CreateReminderRequest,
+  UpdateReminderRequest,
+  ReminderQueryParams,
+  SettleReminderOccurrenceRequest
+} from '../types';
+import { fromDateKey, parseDateInput } from '../utils/dates';
 
 export class ReminderController {
   private reminderService: ReminderService;
@@ -451,12 +458,14 @@ export class ReminderController {
       }
 
       const occurrences = await this.reminderService.getAllUpcomingOccurrences(reminder, maxOccurrences);
+      const settlements = await this.reminderService.getReminderSettlements(id, userId);
 
       res.status(200).json({
         success: true,
         data: {
           reminder,
-          occurrences
+          occurrences,
+          settlements
         }
       } as ApiResponse);
     } catch (error) {
@@ -519,8 +528,8 @@ export class ReminderController {
 
       let checkDate = new Date();
       if (req.query.date) {
-        checkDate = new Date(req.query.date as string);
-        if (isNaN(checkDate.getTime())) {
+        const parsedDate = parseDateInput(req.query.date);
+        if (!parsedDate) {
           res.status(400).json({
             success: false,
             error: {
@@ -530,6 +539,7 @@ export class ReminderController {
           } as ApiResponse);
           return;
         }
+        checkDate = fromDateKey(parsedDate);
       }
 
       const dueReminders = await this.reminderService.getDueReminders(userId, checkDate);
@@ -543,6 +553,113 @@ export class ReminderController {
     }
   };
 
+  // POST /api/reminders/:id/occurrences/:date/settle - Mark an occurrence paid and record its transaction
+  settleOccurrence = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, date } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const settleData: SettleReminderOccurrenceRequest = req.body || {};
+      if (settleData.amount !== undefined && (typeof settleData.amount !== 'number' || isNaN(settleData.amount))) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Amount must be a number'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await this.reminderService.settleOccurrence(id, userId, date, settleData);
+
+      res.status(201).json({
+        success: true,
+        data: result
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/reminders/:id/occurrences/:date/skip - Skip an occurrence without recording a transaction
+  skipOccurrence = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, date } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const settlement = await this.reminderService.skipOccurrence(id, userId, date);
+
+      res.status(201).json({
+        success: true,
+        data: settlement
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/reminders/settlements - Get paid and skipped occurrences for the user's reminders
+  getSettlements = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const startDate = req.query.start_date ? parseDateInput(req.query.start_date) : undefined;
+      const endDate = req.query.end_date ? parseDateInput(req.query.end_date) : undefined;
+      if (startDate === null || endDate === null) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Invalid date format'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const settlements = await this.reminderService.getUserSettlements(userId, startDate, endDate);
+
+      res.status(200).json({
+        success: true,
+        data: settlements
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
   private handleError(error: any, res: Response): void {
     const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
 
@@ -607,6 +724,46 @@ export class ReminderController {
         } as ApiResponse);
         break;
 
+      case 'VALIDATION_INVALID_OCCURRENCE_DATE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_OCCURRENCE_DATE',
+            message: 'The date is not an occurrence of this reminder'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_WALLET_REQUIRED':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_WALLET_REQUIRED',
+            message: 'A wallet is required to record this reminder\'s transaction'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_RESOURCE_FORBIDDEN':
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'AUTH_RESOURCE_FORBIDDEN',
+            message: 'Access to this category is forbidden'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'REMINDER_OCCURRENCE_ALREADY_SETTLED':
+        res.status(422).json({
+          success: false,
+          error: {
+            code: 'REMINDER_OCCURRENCE_ALREADY_SETTLED',
+            message: 'This occurrence has already been paid or skipped'
+          }
+        } as ApiResponse);
+        break;
+
       default:
         console.error('Reminder controller error:', error);
         res.status(500).json({
@@ -0,0 +1,275 @@
+import { Request, Response } from 'express';
+import { SavedSearchService } from '../services/SavedSearchService';
+import { ApiResponse, CreateSavedSearchRequest, UpdateSavedSearchRequest } from '../types';
+import { MAX_SEARCH_LENGTH } from '../utils/transactionSearch';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TRANSACTION_TYPES = ['Income', 'Expense', 'Transfer'];
+
+export class SavedSearchController {
+  private savedSearchService: SavedSearchService;
+
+  constructor() {
+    this.savedSearchService = new SavedSearchService();
+  }
+
+  // GET /api/saved-searches - Get user's saved searches
+  getUserSearches = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const searches = await this.savedSearchService.getUserSearches(userId);
+
+      res.status(200).json({
+        success: true,
+        data: searches
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/saved-searches - Save a search
+  createSearch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const searchData: CreateSavedSearchRequest = req.body;
+
+      const validationError = this.validateCreateSearchRequest(searchData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const search = await this.savedSearchService.createSearch(userId, searchData);
+
+      res.status(201).json({
+        success: true,
+        data: search
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // PUT /api/saved-searches/:id - Update saved search
+  updateSearch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const searchData: UpdateSavedSearchRequest = req.body;
+
+      const validationError = this.validateUpdateSearchRequest(searchData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const search = await this.savedSearchService.updateSearch(id, userId, searchData);
+
+      res.status(200).json({
+        success: true,
+        data: search
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // DELETE /api/saved-searches/:id - Delete saved search
+  deleteSearch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const success = await this.savedSearchService.deleteSearch(id, userId);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Saved search not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Saved search deleted successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private validateCreateSearchRequest(data: CreateSavedSearchRequest): string | null {
+    if (!data.name) {
+      return 'Search name is required';
+    }
+
+    return this.validateUpdateSearchRequest(data);
+  }
+
+  private validateUpdateSearchRequest(data: UpdateSavedSearchRequest): string | null {
+    if (data.name !== undefined) {
+      if (typeof data.name !== 'string' || !data.name.trim()) {
+        return 'Search name cannot be empty';
+      }
+
+      if (data.name.trim().length > 100) {
+        return 'Search name must be 100 characters or less';
+      }
+    }
+
+    if (data.query !== undefined && data.query !== null) {
+      if (typeof data.query !== 'string') {
+        return 'Search query must be a string';
+      }
+
+      if (data.query.trim().length > MAX_SEARCH_LENGTH) {
+        return `Search query must be ${MAX_SEARCH_LENGTH} characters or less`;
+      }
+    }
+
+    if (data.wallet_id !== undefined && data.wallet_id !== null && typeof data.wallet_id !== 'string') {
+      return 'Wallet ID must be a string';
+    }
+
+    if (data.category_id !== undefined && data.category_id !== null && typeof data.category_id !== 'string') {
+      return 'Category ID must be a string';
+    }
+
+    if (data.type !== undefined && data.type !== null && !TRANSACTION_TYPES.includes(data.type)) {
+      return 'Type must be Income, Expense or Transfer';
+    }
+
+    if (data.start_date && (typeof data.start_date !== 'string' || !DATE_PATTERN.test(data.start_date))) {
+      return 'Start date must be in YYYY-MM-DD format';
+    }
+
+    if (data.end_date && (typeof data.end_date !== 'string' || !DATE_PATTERN.test(data.end_date))) {
+      return 'End date must be in YYYY-MM-DD format';
+    }
+
+    if (data.tags !== undefined && data.tags !== null && typeof data.tags !== 'string') {
+      return 'Tags must be a comma-separated string';
+    }
+
+    return null;
+  }
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Saved search, wallet or category not found'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'SAVED_SEARCH_ALREADY_EXISTS':
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'SAVED_SEARCH_ALREADY_EXISTS',
+            message: 'You already have a saved search with this name'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_TAGS':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_TAGS',
+            message: 'Invalid tags'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_DATE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_DATE',
+            message: 'Invalid date range'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Saved search controller error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
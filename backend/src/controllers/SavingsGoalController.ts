@@ -0,0 +1,328 @@
+import { Request, Response } from 'express';
+import { SavingsGoalService } from '../services/SavingsGoalService';
+import { ApiResponse, CreateSavingsGoalRequest, UpdateSavingsGoalRequest } from '../types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class SavingsGoalController {
+  private savingsGoalService: SavingsGoalService;
+
+  constructor() {
+    this.savingsGoalService = new SavingsGoalService();
+  }
+
+  // GET /api/savings-goals - Get user's goals with their progress
+  getUserGoals = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const goals = await this.savingsGoalService.getUserGoals(userId);
+
+      res.status(200).json({
+        success: true,
+        data: goals
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/savings-goals/:id - Get a goal with its progress
+  getGoalById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const progress = await this.savingsGoalService.getGoalProgress(id, userId);
+
+      if (!progress) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Savings goal not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: progress
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/savings-goals/:id/contributions - Get the transactions counted towards a goal
+  getGoalContributions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const contributions = await this.savingsGoalService.getGoalContributions(id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: contributions
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/savings-goals - Create new goal
+  createGoal = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const goalData: CreateSavingsGoalRequest = req.body;
+
+      const validationError = this.validateCreateGoalRequest(goalData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const progress = await this.savingsGoalService.createGoal(userId, goalData);
+
+      res.status(201).json({
+        success: true,
+        data: progress
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // PUT /api/savings-goals/:id - Update goal
+  updateGoal = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const goalData: UpdateSavingsGoalRequest = req.body;
+
+      const validationError = this.validateUpdateGoalRequest(goalData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const progress = await this.savingsGoalService.updateGoal(id, userId, goalData);
+
+      res.status(200).json({
+        success: true,
+        data: progress
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // DELETE /api/savings-goals/:id - Delete goal
+  deleteGoal = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const success = await this.savingsGoalService.deleteGoal(id, userId);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Savings goal not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Savings goal deleted successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private validateCreateGoalRequest(data: CreateSavingsGoalRequest): string | null {
+    if (!data.wallet_id || typeof data.wallet_id !== 'string') {
+      return 'Wallet ID is required';
+    }
+
+    if (!data.name || data.target_amount === undefined || !data.target_date) {
+      return 'Name, target amount and target date are required';
+    }
+
+    return this.validateUpdateGoalRequest(data);
+  }
+
+  private validateUpdateGoalRequest(data: UpdateSavingsGoalRequest): string | null {
+    if (data.name !== undefined) {
+      if (typeof data.name !== 'string' || !data.name.trim()) {
+        return 'Goal name cannot be empty';
+      }
+
+      if (data.name.trim().length > 255) {
+        return 'Goal name must be 255 characters or less';
+      }
+    }
+
+    if (data.target_amount !== undefined) {
+      if (typeof data.target_amount !== 'number' || data.target_amount <= 0) {
+        return 'Target amount must be a positive number';
+      }
+
+      if (data.target_amount > 9999999999.99) {
+        return 'Target amount is too large';
+      }
+    }
+
+    if (data.target_date !== undefined && (typeof data.target_date !== 'string' || !DATE_PATTERN.test(data.target_date))) {
+      return 'Target date must be in YYYY-MM-DD format';
+    }
+
+    if (data.start_date !== undefined && (typeof data.start_date !== 'string' || !DATE_PATTERN.test(data.start_date))) {
+      return 'Start date must be in YYYY-MM-DD format';
+    }
+
+    return null;
+  }
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Savings goal or wallet not found'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_GOAL_TARGET':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_GOAL_TARGET',
+            message: 'Target amount must be a positive number'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_GOAL_DATES':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_GOAL_DATES',
+            message: 'The target date must be after the start date'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_DATE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_DATE',
+            message: 'Invalid goal date'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Savings goal controller error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
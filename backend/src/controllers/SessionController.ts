@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import { SessionService } from '../services/SessionService';
+import { ApiResponse } from '../types';
+
+export class SessionController {
+  private sessionService: SessionService;
+
+  constructor() {
+    this.sessionService = new SessionService();
+  }
+
+  // GET /api/auth/sessions - List the devices the current user is logged in on
+  getSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_MISSING',
+            message: 'Authentication required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const sessions = await this.sessionService.listSessions(req.user.userId, req.user.sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: sessions
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // DELETE /api/auth/sessions/:id - Log out one of the current user's sessions
+  revokeSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_MISSING',
+            message: 'Authentication required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(req.params.id)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Invalid session ID'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      await this.sessionService.revokeSession(req.user.userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Session logged out successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Session not found'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Session error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import { SettingsService } from '../services/SettingsService';
+import { ApiResponse, SecuritySettings } from '../types';
+
+export class SettingsController {
+  private settingsService: SettingsService;
+
+  constructor() {
+    this.settingsService = new SettingsService();
+  }
+
+  // GET /api/admin/settings/security - Get the security settings
+  getSecuritySettings = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const settings = await this.settingsService.getSecuritySettings();
+
+      res.status(200).json({
+        success: true,
+        data: settings
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // PUT /api/admin/settings/security - Update the security settings
+  updateSecuritySettings = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_MISSING',
+            message: 'Authentication required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const update: Partial<SecuritySettings> = req.body;
+
+      if (update.require_admin_two_factor !== undefined && typeof update.require_admin_two_factor !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'require_admin_two_factor must be true or false'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const settings = await this.settingsService.updateSecuritySettings(
+        { require_admin_two_factor: update.require_admin_two_factor },
+        req.user.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: settings
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'SETTINGS_TWO_FACTOR_NOT_ENABLED':
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'SETTINGS_TWO_FACTOR_NOT_ENABLED',
+            message: 'Turn on two-factor authentication for your own account first'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Settings error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
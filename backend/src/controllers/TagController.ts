@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import { TagService } from '../services/TagService';
+import { ApiResponse, UpdateTagRequest } from '../types';
+import { MAX_TAG_LENGTH, normalizeTagName } from '../utils/tags';
+
+export class TagController {
+  private tagService: TagService;
+
+  constructor() {
+    this.tagService = new TagService();
+  }
+
+  // GET /api/tags - Get user's tags with how many transactions carry each
+  getUserTags = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const tags = await this.tagService.getUserTags(userId);
+
+      res.status(200).json({
+        success: true,
+        data: tags
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // PUT /api/tags/:id - Rename tag
+  renameTag = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const tagData: UpdateTagRequest = req.body;
+
+      const validationError = this.validateUpdateTagRequest(tagData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const tag = await this.tagService.renameTag(id, userId, tagData);
+
+      res.status(200).json({
+        success: true,
+        data: tag
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // DELETE /api/tags/:id - Delete tag
+  deleteTag = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const success = await this.tagService.deleteTag(id, userId);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Tag not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Tag deleted successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private validateUpdateTagRequest(data: UpdateTagRequest): string | null {
+    if (typeof data.name !== 'string' || !normalizeTagName(data.name)) {
+      return 'Tag name is required';
+    }
+
+    if (normalizeTagName(data.name).length > MAX_TAG_LENGTH) {
+      return `Tag name must be ${MAX_TAG_LENGTH} characters or less`;
+    }
+
+    return null;
+  }
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Tag not found'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'TAG_ALREADY_EXISTS':
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'TAG_ALREADY_EXISTS',
+            message: 'You already have a tag with this name'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Tag controller error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,230 @@
+import { Request, Response } from 'express';
+import { TransactionAttachmentService } from '../services/TransactionAttachmentService';
+import { ApiResponse, CreateAttachmentRequest } from '../types';
+import { MAX_ATTACHMENT_SIZE, MAX_ATTACHMENTS_PER_TRANSACTION } from '../utils/attachments';
+
+export class TransactionAttachmentController {
+  private attachmentService: TransactionAttachmentService;
+
+  constructor() {
+    this.attachmentService = new TransactionAttachmentService();
+  }
+
+  // GET /api/transactions/:id/attachments - List a transaction's attachments
+  getAttachments = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const attachments = await this.attachmentService.getAttachments(id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: attachments
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/transactions/:id/attachments - Attach a receipt image or PDF
+  addAttachment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const attachmentData: CreateAttachmentRequest = req.body;
+
+      const validationError = this.validateCreateAttachmentRequest(attachmentData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const attachment = await this.attachmentService.addAttachment(id, userId, attachmentData);
+
+      res.status(201).json({
+        success: true,
+        data: attachment
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // GET /api/transactions/:id/attachments/:attachmentId - Download an attachment
+  getAttachmentFile = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, attachmentId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const { attachment, content } = await this.attachmentService.getAttachmentFile(id, attachmentId, userId);
+
+      // Shown inline so receipts open in the browser; the type was checked on upload
+      res.setHeader('Content-Type', attachment.content_type);
+      res.setHeader('Content-Length', content.length);
+      res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.status(200).send(content);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // DELETE /api/transactions/:id/attachments/:attachmentId - Delete an attachment
+  deleteAttachment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, attachmentId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const success = await this.attachmentService.deleteAttachment(id, attachmentId, userId);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Attachment not found'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Attachment deleted successfully' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private validateCreateAttachmentRequest(data: CreateAttachmentRequest): string | null {
+    if (!data.file_name || typeof data.file_name !== 'string' || !data.file_name.trim()) {
+      return 'File name is required';
+    }
+
+    if (!data.content || typeof data.content !== 'string') {
+      return 'File contents are required';
+    }
+
+    return null;
+  }
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Transaction or attachment not found'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_ATTACHMENT':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_ATTACHMENT',
+            message: 'File contents must be base64 encoded'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'ATTACHMENT_TYPE_NOT_ALLOWED':
+        res.status(415).json({
+          success: false,
+          error: {
+            code: 'ATTACHMENT_TYPE_NOT_ALLOWED',
+            message: 'Only JPEG, PNG, GIF and WebP images and PDF files can be attached'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'ATTACHMENT_TOO_LARGE':
+        res.status(413).json({
+          success: false,
+          error: {
+            code: 'ATTACHMENT_TOO_LARGE',
+            message: `Attachments must be ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB or smaller`
+          }
+        } as ApiResponse);
+        break;
+
+      case 'ATTACHMENT_LIMIT_REACHED':
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'ATTACHMENT_LIMIT_REACHED',
+            message: `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Transaction attachment controller error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
@@ -1,6 +1,30 @@
 import { Request, Response } from 'express';
-import { TransactionService } from '../services/TransactionService';
-import { ApiResponse, CreateTransactionRequest, UpdateTransactionRequest, TransactionQueryParams } from '../types';
+import { TransactionService, MAX_BULK_TRANSACTIONS } from '../services/TransactionService';
+import { TransactionFilters } from '../repositories/TransactionRepository';
+import {
+  ApiResponse,
+  CreateTransactionRequest,
+  UpdateTransactionRequest,
+  TransactionSplitRequest,
+  CreateTransferRequest,
+  TransactionImportRequest,
+  TransactionQueryParams,
+  BulkTransactionSelection,
+  BulkTransactionChanges,
+  BulkUpdateTransactionsRequest,
+  BulkDeleteTransactionsRequest
+} from '../types';
+import { isCurrencyCode } from '../utils/currency';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_TRANSACTION, normalizeTagNames, parseTagQuery } from '../utils/tags';
+import { MAX_SEARCH_LENGTH, isEmptySearch, parseSearchQuery } from '../utils/transactionSearch';
+import { parseDateInput } from '../utils/dates';
+
+const IMPORT_DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+const IMPORT_DECIMAL_SEPARATORS = ['.', ','];
+const IMPORT_FILE_FORMATS = ['csv', 'ofx', 'qif'];
+const MAX_SPLIT_LINES = 50;
+// Ids are checked up front so a malformed one is a 400 rather than a database error
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export class TransactionController {
   private transactionService: TransactionService;
@@ -30,10 +54,35 @@ export class TransactionController {
         type,
         start_date,
         end_date,
+        tags,
+        q,
         page = '1',
         limit = '10'
       } = req.query as TransactionQueryParams;
 
+      const tagFilter = parseTagQuery(tags);
+      if (!tagFilter) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Tags must be a comma-separated list of at most ${MAX_TAGS_PER_TRANSACTION} names`
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      if (q !== undefined && (typeof q !== 'string' || q.length > MAX_SEARCH_LENGTH)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Search must be ${MAX_SEARCH_LENGTH} characters or less`
+          }
+        } as ApiResponse);
+        return;
+      }
+
       // Parse and validate pagination parameters
       const pageNum = Math.max(1, parseInt(page) || 1);
       const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 10));
@@ -42,9 +91,14 @@ export class TransactionController {
       const filters: any = {};
       if (wallet_id) filters.wallet_id = wallet_id;
       if (category_id) filters.category_id = category_id;
-      if (type && (type === 'Income' || type === 'Expense')) filters.type = type;
-      if (start_date) filters.start_date = new Date(start_date);
-      if (end_date) filters.end_date = new Date(end_date);
+      if (type && (type === 'Income' || type === 'Expense' || type === 'Transfer')) filters.type = type;
+      const startDate = parseDateInput(start_date);
+      if (startDate) filters.start_date = startDate;
+      const endDate = parseDateInput(end_date);
+      if (endDate) filters.end_date = endDate;
+      if (tagFilter.length > 0) filters.tags = tagFilter;
+      const search = parseSearchQuery(q || '');
+      if (!isEmptySearch(search)) filters.search = search;
 
       const result = await this.transactionService.getUserTransactions(
         userId,
@@ -142,6 +196,127 @@ export class TransactionController {
     }
   };
 
+  // POST /api/transactions/transfers - Move money between two wallets
+  createTransfer = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const transferData: CreateTransferRequest = req.body;
+
+      const validationError = this.validateCreateTransferRequest(transferData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const transfer = await this.transactionService.createTransfer(userId, transferData);
+
+      res.status(201).json({
+        success: true,
+        data: transfer
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/transactions/import/preview - Parse an uploaded file and flag likely duplicates
+  previewImport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const importData: TransactionImportRequest = req.body;
+
+      const validationError = this.validateImportRequest(importData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const preview = await this.transactionService.previewImport(userId, importData);
+
+      res.status(200).json({
+        success: true,
+        data: preview
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/transactions/import - Import an uploaded file into a wallet
+  importTransactions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const importData: TransactionImportRequest = req.body;
+
+      const validationError = this.validateImportRequest(importData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      // A failed import is still reported as a result so the row errors reach the client
+      const result = await this.transactionService.importTransactions(userId, importData);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
   // PUT /api/transactions/:id - Update transaction
   updateTransaction = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -235,6 +410,90 @@ export class TransactionController {
     }
   };
 
+  // POST /api/transactions/bulk/update - Change the category, wallet or type of several transactions
+  bulkUpdateTransactions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const requestData: BulkUpdateTransactionsRequest = req.body || {};
+
+      const validationError = this.validateBulkSelection(requestData) || this.validateBulkChanges(requestData.changes);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await this.transactionService.bulkUpdateTransactions(
+        userId,
+        this.buildBulkTarget(requestData),
+        requestData.changes
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/transactions/bulk/delete - Delete several transactions
+  bulkDeleteTransactions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const requestData: BulkDeleteTransactionsRequest = req.body || {};
+
+      const validationError = this.validateBulkSelection(requestData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: validationError
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await this.transactionService.bulkDeleteTransactions(userId, this.buildBulkTarget(requestData));
+
+      res.status(200).json({
+        success: true,
+        data: result
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
   // GET /api/transactions/summary - Get transaction summary
   getTransactionSummary = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -255,9 +514,34 @@ export class TransactionController {
         category_id,
         type,
         start_date,
-        end_date
+        end_date,
+        tags,
+        q
       } = req.query as TransactionQueryParams;
 
+      const tagFilter = parseTagQuery(tags);
+      if (!tagFilter) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Tags must be a comma-separated list of at most ${MAX_TAGS_PER_TRANSACTION} names`
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      if (q !== undefined && (typeof q !== 'string' || q.length > MAX_SEARCH_LENGTH)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Search must be ${MAX_SEARCH_LENGTH} characters or less`
+          }
+        } as ApiResponse);
+        return;
+      }
+
       const { wallet_ids } = req.query as { wallet_ids?: string };
 
       // Build filters similar to getUserTransactions
@@ -265,8 +549,13 @@ export class TransactionController {
       if (wallet_id) filters.wallet_id = wallet_id;
       if (category_id) filters.category_id = category_id;
       if (type && (type === 'Income' || type === 'Expense')) filters.type = type;
-      if (start_date) filters.start_date = new Date(start_date);
-      if (end_date) filters.end_date = new Date(end_date);
+      const startDate = parseDateInput(start_date);
+      if (startDate) filters.start_date = startDate;
+      const endDate = parseDateInput(end_date);
+      if (endDate) filters.end_date = endDate;
+      if (tagFilter.length > 0) filters.tags = tagFilter;
+      const search = parseSearchQuery(q || '');
+      if (!isEmptySearch(search)) filters.search = search;
 
       // Handle legacy wallet_ids parameter for backward compatibility
       if (wallet_ids) {
@@ -299,6 +588,10 @@ export class TransactionController {
       return 'Transaction title must be 255 characters or less';
     }
 
+    if (data.notes !== undefined && data.notes !== null && (typeof data.notes !== 'string' || data.notes.trim().length > 1000)) {
+      return 'Notes must be 1000 characters or less';
+    }
+
     if (typeof data.amount !== 'number' || data.amount <= 0) {
       return 'Transaction amount must be a positive number';
     }
@@ -311,6 +604,104 @@ export class TransactionController {
       return 'Transaction type must be either Income or Expense';
     }
 
+    if (data.transaction_date !== undefined && !parseDateInput(data.transaction_date)) {
+      return 'Transaction date must be a valid date';
+    }
+
+    if (data.currency !== undefined && !isCurrencyCode(data.currency)) {
+      return 'Currency must be a 3-letter code such as PHP';
+    }
+
+    if (data.savings_goal_id !== undefined && data.savings_goal_id !== null && typeof data.savings_goal_id !== 'string') {
+      return 'Savings goal ID must be a string';
+    }
+
+    if (data.tags !== undefined && !normalizeTagNames(data.tags)) {
+      return `Tags must be a list of at most ${MAX_TAGS_PER_TRANSACTION} names of ${MAX_TAG_LENGTH} characters or less`;
+    }
+
+    if (data.splits !== undefined) {
+      const splitError = this.validateSplits(data.splits, data.category_id);
+      if (splitError) {
+        return splitError;
+      }
+    }
+
+    return null;
+  }
+
+  private validateCreateTransferRequest(data: CreateTransferRequest): string | null {
+    if (!data.from_wallet_id || typeof data.from_wallet_id !== 'string') {
+      return 'Source wallet is required';
+    }
+
+    if (!data.to_wallet_id || typeof data.to_wallet_id !== 'string') {
+      return 'Destination wallet is required';
+    }
+
+    if (data.title !== undefined && (typeof data.title !== 'string' || data.title.trim().length > 255)) {
+      return 'Transfer title must be 255 characters or less';
+    }
+
+    if (data.notes !== undefined && data.notes !== null && (typeof data.notes !== 'string' || data.notes.trim().length > 1000)) {
+      return 'Notes must be 1000 characters or less';
+    }
+
+    if (typeof data.amount !== 'number' || data.amount <= 0) {
+      return 'Transfer amount must be a positive number';
+    }
+
+    if (data.amount > 999999999.99) {
+      return 'Transfer amount is too large';
+    }
+
+    if (data.transaction_date !== undefined && !parseDateInput(data.transaction_date)) {
+      return 'Transaction date must be a valid date';
+    }
+
+    return null;
+  }
+
+  private validateImportRequest(data: TransactionImportRequest): string | null {
+    if (!data.wallet_id || typeof data.wallet_id !== 'string') {
+      return 'Wallet is required';
+    }
+
+    if (!data.content || typeof data.content !== 'string' || !data.content.trim()) {
+      return 'File contents are required';
+    }
+
+    if (data.format !== undefined && !IMPORT_FILE_FORMATS.includes(data.format)) {
+      return `File format must be one of ${IMPORT_FILE_FORMATS.join(', ')}`;
+    }
+
+    // OFX and QIF files describe their own fields
+    if (!data.format || data.format === 'csv') {
+      if (!data.mapping || typeof data.mapping !== 'object') {
+        return 'Column mapping is required';
+      }
+
+      const isColumnIndex = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+      if (!isColumnIndex(data.mapping.date) || !isColumnIndex(data.mapping.description)) {
+        return 'Date and description columns are required';
+      }
+
+      for (const column of ['amount', 'debit', 'credit'] as const) {
+        if (data.mapping[column] !== undefined && !isColumnIndex(data.mapping[column])) {
+          return `The ${column} column must be a column index`;
+        }
+      }
+    }
+
+    if (data.date_format !== undefined && !IMPORT_DATE_FORMATS.includes(data.date_format)) {
+      return `Date format must be one of ${IMPORT_DATE_FORMATS.join(', ')}`;
+    }
+
+    if (data.decimal_separator !== undefined && !IMPORT_DECIMAL_SEPARATORS.includes(data.decimal_separator)) {
+      return 'Decimal separator must be "." or ","';
+    }
+
     return null;
   }
 
@@ -325,6 +716,10 @@ export class TransactionController {
       }
     }
 
+    if (data.notes !== undefined && data.notes !== null && (typeof data.notes !== 'string' || data.notes.trim().length > 1000)) {
+      return 'Notes must be 1000 characters or less';
+    }
+
     if (data.amount !== undefined) {
       if (typeof data.amount !== 'number' || data.amount <= 0) {
         return 'Transaction amount must be a positive number';
@@ -339,9 +734,176 @@ export class TransactionController {
       return 'Transaction type must be either Income or Expense';
     }
 
+    if (data.transaction_date !== undefined && !parseDateInput(data.transaction_date)) {
+      return 'Transaction date must be a valid date';
+    }
+
+    if (data.currency !== undefined && data.currency !== null && !isCurrencyCode(data.currency)) {
+      return 'Currency must be a 3-letter code such as PHP';
+    }
+
+    if (data.savings_goal_id !== undefined && data.savings_goal_id !== null && typeof data.savings_goal_id !== 'string') {
+      return 'Savings goal ID must be a string';
+    }
+
+    if (data.tags !== undefined && !normalizeTagNames(data.tags)) {
+      return `Tags must be a list of at most ${MAX_TAGS_PER_TRANSACTION} names of ${MAX_TAG_LENGTH} characters or less`;
+    }
+
+    if (data.splits !== undefined && data.splits !== null) {
+      const splitError = this.validateSplits(data.splits, data.category_id);
+      if (splitError) {
+        return splitError;
+      }
+    }
+
+    return null;
+  }
+
+  // An empty list is allowed and means the transaction is not split
+  private validateSplits(splits: TransactionSplitRequest[], categoryId?: string | null): string | null {
+    if (!Array.isArray(splits)) {
+      return 'Splits must be a list of lines';
+    }
+
+    if (splits.length === 0) {
+      return null;
+    }
+
+    if (splits.length < 2) {
+      return 'A split transaction needs at least two lines';
+    }
+
+    if (splits.length > MAX_SPLIT_LINES) {
+      return `A transaction can be split into at most ${MAX_SPLIT_LINES} lines`;
+    }
+
+    if (categoryId) {
+      return 'A split transaction is categorized by its lines and cannot have its own category';
+    }
+
+    for (const split of splits) {
+      if (!split || typeof split !== 'object') {
+        return 'Each split line must be an object';
+      }
+
+      if (typeof split.amount !== 'number' || split.amount <= 0) {
+        return 'Split amounts must be positive numbers';
+      }
+
+      if (split.category_id !== undefined && split.category_id !== null && typeof split.category_id !== 'string') {
+        return 'Split category must be a category id';
+      }
+
+      if (split.memo !== undefined && split.memo !== null && (typeof split.memo !== 'string' || split.memo.trim().length > 255)) {
+        return 'Split memo must be 255 characters or less';
+      }
+    }
+
+    return null;
+  }
+
+  // Exactly one of a list of ids or a list filter selects the transactions
+  private validateBulkSelection(data: BulkTransactionSelection): string | null {
+    if ((data.ids === undefined) === (data.filter === undefined)) {
+      return 'Select transactions with either a list of ids or a filter';
+    }
+
+    if (data.ids !== undefined) {
+      if (!Array.isArray(data.ids) || data.ids.length === 0) {
+        return 'Transaction ids must be a non-empty list';
+      }
+
+      if (data.ids.length > MAX_BULK_TRANSACTIONS) {
+        return `At most ${MAX_BULK_TRANSACTIONS} transactions can be changed at a time`;
+      }
+
+      if (data.ids.some(id => typeof id !== 'string' || !UUID_PATTERN.test(id))) {
+        return 'Transaction ids must be valid ids';
+      }
+
+      return null;
+    }
+
+    const filter = data.filter;
+    if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+      return 'Filter must be an object';
+    }
+
+    if ((filter.wallet_id !== undefined && (typeof filter.wallet_id !== 'string' || !UUID_PATTERN.test(filter.wallet_id))) ||
+      (filter.category_id !== undefined && (typeof filter.category_id !== 'string' || !UUID_PATTERN.test(filter.category_id)))) {
+      return 'Filter wallet and category must be ids';
+    }
+
+    if (filter.type !== undefined && filter.type !== 'Income' && filter.type !== 'Expense' && filter.type !== 'Transfer') {
+      return 'Filter type must be Income, Expense or Transfer';
+    }
+
+    if (filter.start_date !== undefined && !parseDateInput(filter.start_date)) {
+      return 'Filter start date must be a valid date';
+    }
+
+    if (filter.end_date !== undefined && !parseDateInput(filter.end_date)) {
+      return 'Filter end date must be a valid date';
+    }
+
+    if (!parseTagQuery(filter.tags)) {
+      return `Tags must be a comma-separated list of at most ${MAX_TAGS_PER_TRANSACTION} names`;
+    }
+
+    if (filter.q !== undefined && (typeof filter.q !== 'string' || filter.q.length > MAX_SEARCH_LENGTH)) {
+      return `Search must be ${MAX_SEARCH_LENGTH} characters or less`;
+    }
+
+    return null;
+  }
+
+  private validateBulkChanges(changes: BulkTransactionChanges): string | null {
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      return 'Changes must be an object';
+    }
+
+    if (changes.category_id === undefined && changes.wallet_id === undefined && changes.type === undefined) {
+      return 'Choose a category, wallet or type to change';
+    }
+
+    if (changes.category_id !== undefined && changes.category_id !== null &&
+      (typeof changes.category_id !== 'string' || !UUID_PATTERN.test(changes.category_id))) {
+      return 'Category ID must be a valid id';
+    }
+
+    if (changes.wallet_id !== undefined && (typeof changes.wallet_id !== 'string' || !UUID_PATTERN.test(changes.wallet_id))) {
+      return 'Wallet ID must be a valid id';
+    }
+
+    if (changes.type !== undefined && changes.type !== 'Income' && changes.type !== 'Expense') {
+      return 'Transaction type must be either Income or Expense';
+    }
+
     return null;
   }
 
+  // A filter selects the same transactions the list shows for it
+  private buildBulkTarget(data: BulkTransactionSelection): { ids: string[] } | { filters: Omit<TransactionFilters, 'user_id'> } {
+    if (data.ids) {
+      return { ids: data.ids };
+    }
+
+    const { wallet_id, category_id, type, start_date, end_date, tags, q } = data.filter || {};
+    const filters: Omit<TransactionFilters, 'user_id'> = {};
+    if (wallet_id) filters.wallet_id = wallet_id;
+    if (category_id) filters.category_id = category_id;
+    if (type) filters.type = type;
+    if (start_date) filters.start_date = parseDateInput(start_date)!;
+    if (end_date) filters.end_date = parseDateInput(end_date)!;
+    const tagFilter = parseTagQuery(tags) || [];
+    if (tagFilter.length > 0) filters.tags = tagFilter;
+    const search = parseSearchQuery(q || '');
+    if (!isEmptySearch(search)) filters.search = search;
+
+    return { filters };
+  }
+
   private handleError(error: any, res: Response): void {
     const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
 
@@ -366,6 +928,136 @@ export class TransactionController {
         } as ApiResponse);
         break;
 
+      case 'VALIDATION_INVALID_DATE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_DATE',
+            message: 'Invalid transaction date'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_SAME_WALLET_TRANSFER':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_SAME_WALLET_TRANSFER',
+            message: 'A transfer must be between two different wallets'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_TRANSFER_UPDATE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_TRANSFER_UPDATE',
+            message: 'The type, category, currency, splits and savings goal of a transfer cannot be changed'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_TRANSFER_CURRENCY_MISMATCH':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_TRANSFER_CURRENCY_MISMATCH',
+            message: 'Transfers can only move money between wallets in the same currency'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_GOAL_CURRENCY_MISMATCH':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_GOAL_CURRENCY_MISMATCH',
+            message: 'A savings goal only collects amounts in the currency of its wallet'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_IMPORT_MAPPING':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_IMPORT_MAPPING',
+            message: 'Map either an amount column or debit and credit columns'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_IMPORT_FILE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_IMPORT_FILE',
+            message: 'The file does not match the selected format'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_EMPTY_IMPORT_FILE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_EMPTY_IMPORT_FILE',
+            message: 'The uploaded file has no transactions'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_IMPORT_TOO_LARGE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_IMPORT_TOO_LARGE',
+            message: 'The uploaded file has too many rows. Split it into smaller files.'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_SPLIT_TOTAL_MISMATCH':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_SPLIT_TOTAL_MISMATCH',
+            message: 'Split amounts must add up to the transaction amount'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_SPLIT_WITH_CATEGORY':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_SPLIT_WITH_CATEGORY',
+            message: 'Remove the splits before giving the transaction a single category'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_INVALID_TAGS':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_INVALID_TAGS',
+            message: `Tags must be a list of at most ${MAX_TAGS_PER_TRANSACTION} names of ${MAX_TAG_LENGTH} characters or less`
+          }
+        } as ApiResponse);
+        break;
+
+      case 'VALIDATION_BULK_TOO_LARGE':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_BULK_TOO_LARGE',
+            message: `The filter matches more than ${MAX_BULK_TRANSACTIONS} transactions. Narrow it down and try again.`
+          }
+        } as ApiResponse);
+        break;
+
       case 'VALIDATION_NO_DEFAULT_WALLET':
         res.status(422).json({
           success: false,
@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import { TrashService } from '../services/TrashService';
+import { ApiResponse, TrashItemType } from '../types';
+
+const TRASH_ITEM_TYPES: TrashItemType[] = ['transaction', 'category', 'wallet', 'budget', 'reminder'];
+
+export class TrashController {
+  private trashService: TrashService;
+
+  constructor() {
+    this.trashService = new TrashService();
+  }
+
+  // GET /api/trash - Get the items in the user's trash
+  getTrash = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const items = await this.trashService.getTrash(userId);
+
+      res.status(200).json({
+        success: true,
+        data: items
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/trash/:type/:id/restore - Restore an item from the trash
+  restoreItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_INVALID',
+            message: 'Invalid authentication token'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const { type, id } = req.params;
+      if (!TRASH_ITEM_TYPES.includes(type as TrashItemType)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Type must be one of: ${TRASH_ITEM_TYPES.join(', ')}`
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const item = await this.trashService.restoreItem(type as TrashItemType, id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: item
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'RESOURCE_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RESOURCE_NOT_FOUND',
+            message: 'Item not found in the trash'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'TRASH_PARENT_DELETED':
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'TRASH_PARENT_DELETED',
+            message: 'Restore the wallet or category this item belongs to first'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'TRASH_RESTORE_CONFLICT':
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'TRASH_RESTORE_CONFLICT',
+            message: 'An item with the same name or month already exists'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Trash controller error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,259 @@
+import { Request, Response } from 'express';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { ApiResponse } from '../types';
+
+export class TwoFactorController {
+  private twoFactorService: TwoFactorService;
+
+  constructor() {
+    this.twoFactorService = new TwoFactorService();
+  }
+
+  // GET /api/auth/2fa - Get the two-factor status of the current user
+  getStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_MISSING',
+            message: 'Authentication required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const status = await this.twoFactorService.getStatus(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: status
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/auth/2fa/setup - Create a secret for the authenticator app
+  setup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_MISSING',
+            message: 'Authentication required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const setup = await this.twoFactorService.beginSetup(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: setup
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/auth/2fa/enable - Confirm a code from the app and turn two-factor on
+  enable = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_MISSING',
+            message: 'Authentication required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const { code } = req.body;
+      if (typeof code !== 'string' || !code.trim()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Code is required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const recoveryCodes = await this.twoFactorService.enable(req.user.userId, code);
+
+      res.status(200).json({
+        success: true,
+        data: { recoveryCodes }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/auth/2fa/disable - Turn two-factor off
+  disable = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_MISSING',
+            message: 'Authentication required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const { password, code } = req.body;
+      if (typeof password !== 'string' || !password || typeof code !== 'string' || !code.trim()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Password and code are required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      await this.twoFactorService.disable(req.user.userId, password, code);
+
+      res.status(200).json({
+        success: true,
+        data: { message: 'Two-factor authentication turned off' }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  // POST /api/auth/2fa/recovery-codes - Replace the recovery codes
+  regenerateRecoveryCodes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_MISSING',
+            message: 'Authentication required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const { code } = req.body;
+      if (typeof code !== 'string' || !code.trim()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Code is required'
+          }
+        } as ApiResponse);
+        return;
+      }
+
+      const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(req.user.userId, code);
+
+      res.status(200).json({
+        success: true,
+        data: { recoveryCodes }
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private handleError(error: any, res: Response): void {
+    const errorMessage = error.message || 'INTERNAL_SERVER_ERROR';
+
+    switch (errorMessage) {
+      case 'USER_NOT_FOUND':
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_TWO_FACTOR_ALREADY_ENABLED':
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'AUTH_TWO_FACTOR_ALREADY_ENABLED',
+            message: 'Two-factor authentication is already on'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_TWO_FACTOR_NOT_SET_UP':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'AUTH_TWO_FACTOR_NOT_SET_UP',
+            message: 'Start the two-factor setup first'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_TWO_FACTOR_NOT_ENABLED':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'AUTH_TWO_FACTOR_NOT_ENABLED',
+            message: 'Two-factor authentication is not on'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_TWO_FACTOR_CODE_INVALID':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'AUTH_TWO_FACTOR_CODE_INVALID',
+            message: 'The code is incorrect or was already used'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_INVALID_CURRENT_PASSWORD':
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'AUTH_INVALID_CURRENT_PASSWORD',
+            message: 'Current password is incorrect'
+          }
+        } as ApiResponse);
+        break;
+
+      case 'AUTH_TWO_FACTOR_REQUIRED':
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'AUTH_TWO_FACTOR_REQUIRED',
+            message: 'Two-factor authentication is required for your role and cannot be turned off'
+          }
+        } as ApiResponse);
+        break;
+
+      default:
+        console.error('Two-factor error:', error);
+        res.status(500).json({
+          success: false,
+          error: {
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'An unexpected error occurred'
+          }
+        } as ApiResponse);
+        break;
+    }
+  }
+}
\ No newline at end of file
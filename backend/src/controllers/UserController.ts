@@ -208,6 +208,60 @@ export class UserController {
         }
     }
 
+    // POST /api/admin/users/:id/logout - Log a user out of every session
+    forceLogout = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+
+            const endedSessions = await this.userService.forceLogout(id);
+
+            res.status(200).json({
+                success: true,
+                data: { ended_sessions: endedSessions }
+            } as ApiResponse);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    // POST /api/admin/users/:id/unlock - Lift a lockout from failed logins
+    unlockUser = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({
+                    success: false,
+                    error: {
+                        code: 'AUTH_TOKEN_MISSING',
+                        message: 'Authentication required'
+                    }
+                } as ApiResponse);
+                return;
+            }
+
+            const { id } = req.params;
+
+            const user = await this.userService.unlockUser(id, req.user.userId);
+
+            if (!user) {
+                res.status(404).json({
+                    success: false,
+                    error: {
+                        code: 'RESOURCE_NOT_FOUND',
+                        message: 'User not found'
+                    }
+                } as ApiResponse);
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: user
+            } as ApiResponse);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
     // PUT /api/admin/users/:id/wallet-limit - Update user wallet limit
     updateWalletLimit = async (req: Request, res: Response): Promise<void> => {
         try {
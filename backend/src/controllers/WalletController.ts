@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { WalletService } from '../services/WalletService';
 import { ApiResponse, CreateWalletRequest, UpdateWalletRequest } from '../types';
+import { isCurrencyCode } from '../utils/currency';
 
 export class WalletController {
   private walletService: WalletService;
@@ -115,6 +116,18 @@ export class WalletController {
         return;
       }
 
+      // Validate currency if provided
+      if (walletData.currency !== undefined && !isCurrencyCode(walletData.currency)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Currency must be a 3-letter code such as PHP'
+          }
+        } as ApiResponse);
+        return;
+      }
+
       const wallet = await this.walletService.createWallet(userId, walletData);
 
       res.status(201).json({
@@ -170,6 +183,18 @@ export class WalletController {
         }
       }
 
+      // Validate currency if provided
+      if (walletData.currency !== undefined && !isCurrencyCode(walletData.currency)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Currency must be a 3-letter code such as PHP'
+          }
+        } as ApiResponse);
+        return;
+      }
+
       const wallet = await this.walletService.updateWallet(id, userId, walletData);
 
       if (!wallet) {
@@ -341,6 +366,16 @@ export class WalletController {
         } as ApiResponse);
         break;
 
+      case 'VALIDATION_WALLET_HAS_TRANSACTIONS':
+        res.status(422).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_WALLET_HAS_TRANSACTIONS',
+            message: 'The currency of a wallet with transactions cannot be changed'
+          }
+        } as ApiResponse);
+        break;
+
       default:
         console.error('Wallet controller error:', error);
         res.status(500).json({
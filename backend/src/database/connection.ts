@@ -1,6 +1,12 @@
 import knex, { Knex } from 'knex';
+import { types } from 'pg';
 const knexConfig = require('../../knexfile');
 
+// Keep DATE columns as their YYYY-MM-DD text. Parsed into Dates they land on local
+// midnight, which turns into the day before once serialized as UTC east of Greenwich
+const DATE_OID = 1082;
+types.setTypeParser(DATE_OID, (value: string) => value);
+
 const environment = process.env.NODE_ENV || 'development';
 const config = knexConfig[environment as keyof typeof knexConfig];
 
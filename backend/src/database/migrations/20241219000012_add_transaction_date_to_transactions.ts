@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    table.date('transaction_date').nullable();
+  });
+
+  // Backfill existing rows from the day they were recorded
+  await knex.raw('UPDATE transactions_2_0 SET transaction_date = created_at::date WHERE transaction_date IS NULL');
+
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    table.date('transaction_date').notNullable().defaultTo(knex.raw('CURRENT_DATE')).alter();
+
+    // Indexes for date filtering, reports and budgets
+    table.index(['transaction_date']);
+    table.index(['user_id', 'transaction_date']);
+    table.index(['wallet_id', 'transaction_date']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('transactions_2_0', (table) => {
+    table.dropIndex(['transaction_date']);
+    table.dropIndex(['user_id', 'transaction_date']);
+    table.dropIndex(['wallet_id', 'transaction_date']);
+    table.dropColumn('transaction_date');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('budgets', (table) => {
+    table.dropUnique(['wallet_id', 'month']);
+    table.uuid('category_id').nullable().references('id').inTable('categories').onDelete('CASCADE');
+
+    // Index for category budget lookups
+    table.index(['category_id']);
+  });
+
+  // One wallet-level budget per month, plus at most one budget per category per month
+  await knex.raw('CREATE UNIQUE INDEX budgets_wallet_month_unique ON budgets (wallet_id, month) WHERE category_id IS NULL');
+  await knex.raw('CREATE UNIQUE INDEX budgets_wallet_month_category_unique ON budgets (wallet_id, month, category_id) WHERE category_id IS NOT NULL');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS budgets_wallet_month_category_unique');
+  await knex.raw('DROP INDEX IF EXISTS budgets_wallet_month_unique');
+  await knex('budgets').whereNotNull('category_id').del();
+
+  return knex.schema.alterTable('budgets', (table) => {
+    table.dropIndex(['category_id']);
+    table.dropColumn('category_id');
+    table.unique(['wallet_id', 'month']);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Allow 'Transfer' as a transaction type alongside Income and Expense
+  await knex.raw('ALTER TABLE transactions_2_0 DROP CONSTRAINT IF EXISTS transactions_2_0_type_check');
+  await knex.raw("ALTER TABLE transactions_2_0 ADD CONSTRAINT transactions_2_0_type_check CHECK (type IN ('Income', 'Expense', 'Transfer'))");
+
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    // Both legs of a transfer share the same transfer_id
+    table.uuid('transfer_id').nullable();
+    table.enum('transfer_direction', ['Outgoing', 'Incoming']).nullable();
+
+    // Index for looking up the paired leg
+    table.index(['transfer_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex('transactions_2_0').where({ type: 'Transfer' }).del();
+
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    table.dropIndex(['transfer_id']);
+    table.dropColumn('transfer_id');
+    table.dropColumn('transfer_direction');
+  });
+
+  await knex.raw('ALTER TABLE transactions_2_0 DROP CONSTRAINT IF EXISTS transactions_2_0_type_check');
+  await knex.raw("ALTER TABLE transactions_2_0 ADD CONSTRAINT transactions_2_0_type_check CHECK (type IN ('Income', 'Expense'))");
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('recurring_transactions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.uuid('wallet_id').notNullable().references('id').inTable('wallets').onDelete('CASCADE');
+    table.uuid('category_id').nullable().references('id').inTable('categories').onDelete('SET NULL');
+    table.string('title', 255).notNullable();
+    table.decimal('amount', 10, 2).notNullable();
+    table.enum('type', ['Income', 'Expense']).notNullable();
+    table.date('start_date').notNullable();
+    table.enum('recurrence', ['once', 'daily', 'weekly', 'monthly', 'custom']).notNullable().defaultTo('once');
+    table.integer('recurrence_interval').nullable(); // Days for custom recurrence
+    table.date('duration_end').nullable();
+    table.date('last_posted_date').nullable(); // Most recent occurrence turned into a transaction
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.timestamps(true, true);
+
+    // Indexes for performance
+    table.index(['user_id']);
+    table.index(['wallet_id']);
+    table.index(['is_active', 'start_date']);
+  });
+
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    table.uuid('recurring_transaction_id').nullable().references('id').inTable('recurring_transactions').onDelete('SET NULL');
+    table.date('recurrence_date').nullable(); // Occurrence of the rule this transaction was posted for
+
+    // One transaction per rule occurrence, so reposting is a no-op
+    table.unique(['recurring_transaction_id', 'recurrence_date']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    table.dropUnique(['recurring_transaction_id', 'recurrence_date']);
+    table.dropColumn('recurring_transaction_id');
+    table.dropColumn('recurrence_date');
+  });
+
+  return knex.schema.dropTableIfExists('recurring_transactions');
+}
\ No newline at end of file
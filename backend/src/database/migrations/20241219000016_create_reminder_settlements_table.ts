@@ -0,0 +1,20 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('reminder_settlements', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('reminder_id').notNullable().references('id').inTable('reminders').onDelete('CASCADE');
+    table.date('occurrence_date').notNullable();
+    table.enum('status', ['paid', 'skipped']).notNullable();
+    table.uuid('transaction_id').nullable().references('id').inTable('transactions_2_0').onDelete('SET NULL'); // Transaction recorded when paid
+    table.uuid('settled_by').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.timestamps(true, true);
+
+    // Each occurrence of a reminder can only be settled once
+    table.unique(['reminder_id', 'occurrence_date']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTableIfExists('reminder_settlements');
+}
\ No newline at end of file
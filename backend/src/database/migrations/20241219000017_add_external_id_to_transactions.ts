@@ -0,0 +1,17 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('transactions_2_0', (table) => {
+    table.string('external_id', 255).nullable(); // Bank transaction id (OFX FITID) from imported statements
+
+    // Re-importing an overlapping statement must never create the same bank transaction twice
+    table.unique(['wallet_id', 'external_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('transactions_2_0', (table) => {
+    table.dropUnique(['wallet_id', 'external_id']);
+    table.dropColumn('external_id');
+  });
+}
\ No newline at end of file
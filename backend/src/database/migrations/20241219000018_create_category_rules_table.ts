@@ -0,0 +1,27 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.createTable('category_rules', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.uuid('wallet_id').nullable().references('id').inTable('wallets').onDelete('CASCADE'); // Null for rules that apply to all of the user's wallets
+    table.uuid('category_id').notNullable().references('id').inTable('categories').onDelete('CASCADE');
+    table.string('name', 255).notNullable();
+    table.string('title_pattern', 255).nullable();
+    table.enum('match_type', ['contains', 'regex']).notNullable().defaultTo('contains');
+    table.decimal('min_amount', 10, 2).nullable();
+    table.decimal('max_amount', 10, 2).nullable();
+    table.enum('type', ['Income', 'Expense']).notNullable();
+    table.integer('priority').notNullable().defaultTo(0); // Higher priority rules are tried first
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.timestamps(true, true);
+
+    // Indexes for performance
+    table.index(['user_id']);
+    table.index(['wallet_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.dropTableIfExists('category_rules');
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    // Split transactions carry their categories on the split lines instead
+    table.boolean('is_split').notNullable().defaultTo(false);
+  });
+
+  await knex.schema.createTable('transaction_splits', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('transaction_id').notNullable().references('id').inTable('transactions_2_0').onDelete('CASCADE');
+    table.uuid('category_id').nullable().references('id').inTable('categories').onDelete('SET NULL');
+    table.decimal('amount', 10, 2).notNullable();
+    table.string('memo', 255).nullable();
+    table.integer('position').notNullable().defaultTo(0); // Order of the lines within the transaction
+    table.timestamps(true, true);
+
+    table.index(['transaction_id']);
+    table.index(['category_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('transaction_splits');
+
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    table.dropColumn('is_split');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('users', (table) => {
+    // Currency the dashboard totals are converted into
+    table.string('base_currency', 3).notNullable().defaultTo('PHP');
+  });
+
+  await knex.schema.alterTable('wallets', (table) => {
+    table.string('currency', 3).notNullable().defaultTo('PHP');
+  });
+
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    // Only set when the amount is in another currency than its wallet
+    table.string('currency', 3).nullable();
+  });
+
+  await knex.schema.createTable('exchange_rates', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('from_currency', 3).notNullable();
+    table.string('to_currency', 3).notNullable();
+    table.decimal('rate', 18, 8).notNullable(); // Units of to_currency for one unit of from_currency
+    table.date('rate_date').notNullable();
+    table.timestamps(true, true);
+
+    table.unique(['user_id', 'from_currency', 'to_currency', 'rate_date']);
+    table.index(['user_id', 'rate_date']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('exchange_rates');
+
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    table.dropColumn('currency');
+  });
+
+  await knex.schema.alterTable('wallets', (table) => {
+    table.dropColumn('currency');
+  });
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('base_currency');
+  });
+}
\ No newline at end of file
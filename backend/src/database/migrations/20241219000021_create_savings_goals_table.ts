@@ -0,0 +1,33 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('savings_goals', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.uuid('wallet_id').notNullable().references('id').inTable('wallets').onDelete('CASCADE'); // Transfers in and out of this wallet count as contributions
+    table.string('name', 255).notNullable();
+    table.decimal('target_amount', 12, 2).notNullable();
+    table.date('start_date').notNullable(); // Transfers before this date are not counted
+    table.date('target_date').notNullable();
+    table.timestamps(true, true);
+
+    // Indexes for performance
+    table.index(['user_id']);
+    table.index(['wallet_id']);
+  });
+
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    // Income and expenses tagged with a goal count as contributions and withdrawals
+    table.uuid('savings_goal_id').nullable().references('id').inTable('savings_goals').onDelete('SET NULL');
+    table.index(['savings_goal_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    table.dropIndex(['savings_goal_id']);
+    table.dropColumn('savings_goal_id');
+  });
+
+  await knex.schema.dropTableIfExists('savings_goals');
+}
\ No newline at end of file
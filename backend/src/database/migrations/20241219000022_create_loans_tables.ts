@@ -0,0 +1,38 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('loans', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.uuid('wallet_id').notNullable().references('id').inTable('wallets').onDelete('CASCADE'); // Wallet the payments are made from
+    table.uuid('reminder_id').nullable().references('id').inTable('reminders').onDelete('SET NULL'); // Monthly payment reminder, if one was created
+    table.string('name', 255).notNullable();
+    table.decimal('principal', 12, 2).notNullable();
+    table.decimal('annual_rate', 7, 4).notNullable(); // APR as a percentage
+    table.integer('term_months').notNullable();
+    table.date('start_date').notNullable(); // The first payment is due one month later
+    table.timestamps(true, true);
+
+    // Indexes for performance
+    table.index(['user_id']);
+    table.index(['reminder_id']);
+  });
+
+  await knex.schema.createTable('loan_payments', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('loan_id').notNullable().references('id').inTable('loans').onDelete('CASCADE');
+    table.uuid('transaction_id').notNullable().references('id').inTable('transactions_2_0').onDelete('CASCADE');
+    table.decimal('principal_amount', 12, 2).notNullable().defaultTo(0);
+    table.decimal('interest_amount', 12, 2).notNullable().defaultTo(0);
+    table.timestamps(true, true);
+
+    // A transaction can only pay off one loan
+    table.unique(['transaction_id']);
+    table.index(['loan_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('loan_payments');
+  await knex.schema.dropTableIfExists('loans');
+}
\ No newline at end of file
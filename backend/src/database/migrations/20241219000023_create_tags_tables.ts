@@ -0,0 +1,25 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('tags', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('name', 50).notNullable(); // Stored trimmed and lowercased
+    table.timestamps(true, true);
+
+    table.unique(['user_id', 'name']);
+  });
+
+  await knex.schema.createTable('transaction_tags', (table) => {
+    table.uuid('transaction_id').notNullable().references('id').inTable('transactions_2_0').onDelete('CASCADE');
+    table.uuid('tag_id').notNullable().references('id').inTable('tags').onDelete('CASCADE');
+
+    table.primary(['transaction_id', 'tag_id']);
+    table.index(['tag_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('transaction_tags');
+  await knex.schema.dropTableIfExists('tags');
+}
\ No newline at end of file
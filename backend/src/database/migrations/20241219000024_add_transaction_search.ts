@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Trigram indexes keep substring (ILIKE) searches fast on large histories
+  await knex.raw('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+  await knex.raw('CREATE INDEX transactions_2_0_title_trgm_idx ON transactions_2_0 USING gin (title gin_trgm_ops)');
+
+  await knex.schema.createTable('saved_searches', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('name', 100).notNullable();
+    table.string('query', 200).nullable(); // Free-text search, including amount expressions such as >100
+    table.uuid('wallet_id').nullable().references('id').inTable('wallets').onDelete('SET NULL');
+    table.uuid('category_id').nullable().references('id').inTable('categories').onDelete('SET NULL');
+    table.enum('type', ['Income', 'Expense', 'Transfer']).nullable();
+    table.date('start_date').nullable();
+    table.date('end_date').nullable();
+    table.string('tags', 255).nullable(); // Comma-separated, as in the transactions query
+    table.timestamps(true, true);
+
+    table.unique(['user_id', 'name']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('saved_searches');
+  await knex.raw('DROP INDEX IF EXISTS transactions_2_0_title_trgm_idx');
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    table.text('notes').nullable();
+  });
+
+  // Notes are part of the free-text search, like titles
+  await knex.raw('CREATE INDEX transactions_2_0_notes_trgm_idx ON transactions_2_0 USING gin (notes gin_trgm_ops)');
+
+  await knex.schema.createTable('transaction_attachments', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('transaction_id').notNullable().references('id').inTable('transactions_2_0').onDelete('CASCADE');
+    table.uuid('uploaded_by').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('file_name', 255).notNullable();
+    table.string('content_type', 100).notNullable();
+    table.integer('size').notNullable(); // Bytes
+    table.string('storage_key', 255).notNullable().unique(); // Where the file storage keeps the contents
+    table.timestamps(true, true);
+
+    table.index(['transaction_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('transaction_attachments');
+  await knex.raw('DROP INDEX IF EXISTS transactions_2_0_notes_trgm_idx');
+
+  await knex.schema.alterTable('transactions_2_0', (table) => {
+    table.dropColumn('notes');
+  });
+}
\ No newline at end of file
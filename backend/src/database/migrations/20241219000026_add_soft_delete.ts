@@ -0,0 +1,38 @@
+import { Knex } from 'knex';
+
+// Deleting one of these moves it to the trash, where it can be restored until it is purged
+const SOFT_DELETE_TABLES = ['wallets', 'categories', 'transactions_2_0', 'budgets', 'reminders'];
+
+export async function up(knex: Knex): Promise<void> {
+  for (const tableName of SOFT_DELETE_TABLES) {
+    await knex.schema.alterTable(tableName, (table) => {
+      table.timestamp('deleted_at').nullable();
+      table.index(['deleted_at']);
+    });
+  }
+
+  // A budget in the trash must not stop a new one for the same month
+  await knex.raw('DROP INDEX IF EXISTS budgets_wallet_month_category_unique');
+  await knex.raw('DROP INDEX IF EXISTS budgets_wallet_month_unique');
+  await knex.raw('CREATE UNIQUE INDEX budgets_wallet_month_unique ON budgets (wallet_id, month) WHERE category_id IS NULL AND deleted_at IS NULL');
+  await knex.raw('CREATE UNIQUE INDEX budgets_wallet_month_category_unique ON budgets (wallet_id, month, category_id) WHERE category_id IS NOT NULL AND deleted_at IS NULL');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  // Whatever is still in the trash is gone for good
+  for (const tableName of SOFT_DELETE_TABLES.slice().reverse()) {
+    await knex(tableName).whereNotNull('deleted_at').del();
+  }
+
+  await knex.raw('DROP INDEX IF EXISTS budgets_wallet_month_category_unique');
+  await knex.raw('DROP INDEX IF EXISTS budgets_wallet_month_unique');
+  await knex.raw('CREATE UNIQUE INDEX budgets_wallet_month_unique ON budgets (wallet_id, month) WHERE category_id IS NULL');
+  await knex.raw('CREATE UNIQUE INDEX budgets_wallet_month_category_unique ON budgets (wallet_id, month, category_id) WHERE category_id IS NOT NULL');
+
+  for (const tableName of SOFT_DELETE_TABLES) {
+    await knex.schema.alterTable(tableName, (table) => {
+      table.dropIndex(['deleted_at']);
+      table.dropColumn('deleted_at');
+    });
+  }
+}
\ No newline at end of file
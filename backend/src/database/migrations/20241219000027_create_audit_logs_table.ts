@@ -0,0 +1,24 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('audit_logs', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('actor_id').nullable().references('id').inTable('users').onDelete('SET NULL');
+    // No foreign keys on the entity: the history outlives what it describes
+    table.uuid('wallet_id').nullable();
+    table.string('entity_type', 20).notNullable(); // transaction, budget, category, wallet or reminder
+    table.uuid('entity_id').notNullable();
+    table.string('action', 20).notNullable(); // create, update, delete or restore
+    table.jsonb('before').nullable();
+    table.jsonb('after').nullable();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+    table.index(['wallet_id', 'created_at']);
+    table.index(['actor_id', 'created_at']);
+    table.index(['entity_type', 'entity_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('audit_logs');
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('users', (table) => {
+    table.timestamp('email_verified_at').nullable();
+  });
+
+  // Single-use links sent by email; only a hash of the token is stored
+  await knex.schema.createTable('user_tokens', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.enum('purpose', ['password_reset', 'email_verification']).notNullable();
+    table.string('token_hash', 64).notNullable().unique(); // SHA-256 hex digest
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('used_at').nullable();
+    table.timestamps(true, true);
+
+    table.index(['user_id', 'purpose']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('user_tokens');
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('email_verified_at');
+  });
+}
\ No newline at end of file
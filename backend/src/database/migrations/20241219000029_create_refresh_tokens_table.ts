@@ -0,0 +1,21 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('refresh_tokens', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.uuid('family_id').notNullable(); // Shared by every token rotated from the same login
+    table.string('token_hash', 64).notNullable().unique(); // SHA-256 hex digest
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('revoked_at').nullable(); // Set once the token is rotated or its session ends
+    table.timestamps(true, true);
+
+    table.index(['user_id']);
+    table.index(['family_id']);
+    table.index(['expires_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('refresh_tokens');
+}
\ No newline at end of file
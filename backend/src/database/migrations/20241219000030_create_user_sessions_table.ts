@@ -0,0 +1,40 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('user_sessions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('user_agent', 512).nullable();
+    table.string('ip_address', 45).nullable(); // Long enough for IPv6
+    table.timestamp('last_seen_at').notNullable().defaultTo(knex.fn.now()); // Last time its tokens were refreshed
+    table.timestamp('expires_at').notNullable(); // When its newest refresh token expires
+    table.timestamp('revoked_at').nullable();
+    table.timestamps(true, true);
+
+    table.index(['user_id']);
+    table.index(['expires_at']);
+  });
+
+  // Every refresh token family so far becomes a session, without device details
+  await knex.raw(`
+    INSERT INTO user_sessions (id, user_id, last_seen_at, expires_at, revoked_at, created_at, updated_at)
+    SELECT family_id, user_id, MAX(created_at), MAX(expires_at),
+      CASE WHEN BOOL_AND(revoked_at IS NOT NULL) THEN MAX(revoked_at) END,
+      MIN(created_at), MAX(updated_at)
+    FROM refresh_tokens
+    GROUP BY family_id, user_id
+  `);
+
+  // A refresh token family is the chain of tokens of one session
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.foreign('family_id').references('id').inTable('user_sessions').onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.dropForeign(['family_id']);
+  });
+
+  await knex.schema.dropTableIfExists('user_sessions');
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('users', (table) => {
+    table.string('two_factor_secret', 64).nullable(); // Base32 TOTP secret, set while enrolling and kept once enabled
+    table.timestamp('two_factor_enabled_at').nullable(); // Null until the first code from the app is confirmed
+    table.integer('two_factor_last_step').nullable(); // Period of the last accepted code, so a code works only once
+  });
+
+  await knex.schema.createTable('user_recovery_codes', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('code_hash', 64).notNullable(); // SHA-256 of the code; the code itself is shown once
+    table.timestamp('used_at').nullable();
+    table.timestamps(true, true);
+
+    table.unique(['user_id', 'code_hash']);
+  });
+
+  // Settings an admin can change at runtime
+  await knex.schema.createTable('app_settings', (table) => {
+    table.string('key', 100).primary();
+    table.jsonb('value').notNullable();
+    table.uuid('updated_by').nullable().references('id').inTable('users').onDelete('SET NULL');
+    table.timestamps(true, true);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('app_settings');
+  await knex.schema.dropTableIfExists('user_recovery_codes');
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('two_factor_last_step');
+    table.dropColumn('two_factor_enabled_at');
+    table.dropColumn('two_factor_secret');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('users', (table) => {
+    table.timestamp('locked_until').nullable(); // Set after too many failed logins; an admin can clear it early
+  });
+
+  // Recent failed logins, counted per account and per IP address
+  await knex.schema.createTable('login_failures', (table) => {
+    table.string('scope', 10).notNullable(); // account or ip
+    table.string('key', 64).notNullable(); // User id for an account, the address for an IP
+    table.integer('failed_count').notNullable().defaultTo(0);
+    table.timestamp('last_failed_at').notNullable();
+    table.timestamp('retry_after').nullable(); // No attempts are checked before this
+    table.timestamp('locked_until').nullable(); // Only used for IP addresses
+    table.timestamps(true, true);
+
+    table.primary(['scope', 'key']);
+    table.index(['last_failed_at']);
+  });
+
+  await knex.schema.createTable('security_events', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('event_type', 30).notNullable(); // account_locked, account_unlocked, ip_locked or access_violation
+    table.uuid('user_id').nullable().references('id').inTable('users').onDelete('SET NULL');
+    table.string('ip_address', 45).nullable();
+    table.jsonb('details').nullable();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+    table.index(['user_id', 'created_at']);
+    table.index(['event_type', 'created_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('security_events');
+  await knex.schema.dropTableIfExists('login_failures');
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('locked_until');
+  });
+}
\ No newline at end of file
@@ -4,7 +4,7 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { checkDatabaseConnection, getDatabaseInfo } from './utils/neon';
 import routes from './routes';
-import job from './config/cron';
+import job, { recurringTransactionJob, trashPurgeJob, sessionCleanupJob, loginFailureCleanupJob } from './config/cron';
 
 // Load environment variables
 dotenv.config();
@@ -12,6 +12,21 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Which proxies may report the client address in X-Forwarded-For: a hop count, true, or
+// Express's named subnets and addresses. Login lockouts are counted per client address, so
+// behind a load balancer this must be set, or every client shares the balancer's address.
+const getTrustProxySetting = (value: string | undefined): boolean | number | string => {
+  if (!value) {
+    return 'loopback';
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+app.set('trust proxy', getTrustProxySetting(process.env.TRUST_PROXY));
+
 // Middleware
 app.use(helmet());
 
@@ -40,6 +55,10 @@ app.use(cors({
   },
   credentials: true
 }));
+// Transaction imports carry whole statement files, so they get a larger body limit
+app.use('/api/transactions/import', express.json({ limit: '5mb' }));
+// Attachments are sent base64 encoded, which adds a third to the 5 MB file limit
+app.use('/api/transactions/:id/attachments', express.json({ limit: '7mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -94,6 +113,23 @@ if (require.main === module) {
       console.log('⏰ Cron job started - sending health checks every 14 minutes');
     }
 
+    // Post recurring transactions hourly, catching up on anything missed while down
+    recurringTransactionJob.start();
+    recurringTransactionJob.fireOnTick();
+    console.log('🔁 Recurring transaction job started');
+
+    // Purge expired trash daily
+    trashPurgeJob.start();
+    console.log('🗑️ Trash purge job started');
+
+    // Delete expired sessions daily
+    sessionCleanupJob.start();
+    console.log('🔑 Session cleanup job started');
+
+    // Forget old failed logins hourly
+    loginFailureCleanupJob.start();
+    console.log('🔒 Login failure cleanup job started');
+
     // Check database connection
     const isConnected = await checkDatabaseConnection();
     if (isConnected) {
@@ -0,0 +1,25 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Mailer, MailMessage } from './Mailer';
+
+// Writes each email to a file in the outbox directory and logs it, for development and tests
+export class LocalMailer implements Mailer {
+  private outboxDir: string;
+
+  constructor(outboxDir: string) {
+    this.outboxDir = path.resolve(outboxDir);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.txt`;
+    const contents = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+    await fs.writeFile(path.join(this.outboxDir, fileName), contents);
+
+    if (process.env.NODE_ENV !== 'test') {
+      console.log(`📧 Email to ${message.to}: ${message.subject} (saved to ${fileName})`);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,14 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Sends the emails the app needs (password resets, address verification).
+ * Services only build the message, so the transport can be swapped
+ * (local outbox, SMTP, a mail API) without touching them.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,26 @@
+import path from 'path';
+import { Mailer } from './Mailer';
+import { LocalMailer } from './LocalMailer';
+
+export type { Mailer, MailMessage } from './Mailer';
+export { LocalMailer } from './LocalMailer';
+
+let mailer: Mailer | null = null;
+
+// The transport is picked by MAIL_DRIVER on first use
+export function getMailer(): Mailer {
+  if (!mailer) {
+    const driver = process.env.MAIL_DRIVER || 'local';
+
+    switch (driver) {
+      case 'local':
+        mailer = new LocalMailer(process.env.MAIL_OUTBOX_PATH || path.join(process.cwd(), 'mail-outbox'));
+        break;
+
+      default:
+        throw new Error(`Unknown mail driver: ${driver}`);
+    }
+  }
+
+  return mailer;
+}
\ No newline at end of file
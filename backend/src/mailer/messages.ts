@@ -0,0 +1,39 @@
+import { MailMessage } from './Mailer';
+
+const frontendUrl = (): string => (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+export function passwordResetMessage(to: string, username: string, token: string, expiresInMinutes: number): MailMessage {
+  const link = `${frontendUrl()}/auth/reset-password?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Reset your Cashly password',
+    text: [
+      `Hi ${username},`,
+      '',
+      'Someone asked to reset the password of your Cashly account. Open this link to choose a new one:',
+      '',
+      link,
+      '',
+      `The link can be used once and expires in ${expiresInMinutes} minutes. If you did not ask for this, you can ignore this email.`
+    ].join('\n')
+  };
+}
+
+export function emailVerificationMessage(to: string, username: string, token: string, expiresInHours: number): MailMessage {
+  const link = `${frontendUrl()}/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Verify your Cashly email address',
+    text: [
+      `Hi ${username},`,
+      '',
+      'Please confirm that this is your email address by opening this link:',
+      '',
+      link,
+      '',
+      `The link expires in ${expiresInHours} hours.`
+    ].join('\n')
+  };
+}
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/AuthService';
+import { SessionService } from '../services/SessionService';
+import { TwoFactorService } from '../services/TwoFactorService';
 import { JWTPayload, ApiResponse } from '../types';
 
 // Extend Express Request interface to include user
@@ -13,13 +15,17 @@ declare global {
 
 export class AuthMiddleware {
   private authService: AuthService;
+  private sessionService: SessionService;
+  private twoFactorService: TwoFactorService;
 
   constructor() {
     this.authService = new AuthService();
+    this.sessionService = new SessionService();
+    this.twoFactorService = new TwoFactorService();
   }
 
   // JWT token validation middleware
-  authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const authHeader = req.headers.authorization;
 
@@ -50,6 +56,12 @@ export class AuthMiddleware {
       }
 
       const payload = this.authService.verifyToken(token);
+
+      // Access tokens of a session that was logged out stop working before they expire
+      if (payload.sessionId && await this.sessionService.isSessionRevoked(payload.sessionId)) {
+        throw new Error('AUTH_TOKEN_REVOKED');
+      }
+
       req.user = payload;
       next();
     } catch (error) {
@@ -140,7 +152,7 @@ export class AuthMiddleware {
   };
 
   // Validate admin permissions with detailed logging
-  validateAdminAccess = (req: Request, res: Response, next: NextFunction): void => {
+  validateAdminAccess = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       console.warn('Unauthorized access attempt to admin endpoint:', req.path);
       res.status(401).json({
@@ -165,6 +177,23 @@ export class AuthMiddleware {
       return;
     }
 
+    // Admins may be required to turn on two-factor authentication first
+    try {
+      if (await this.twoFactorService.isMissingRequiredTwoFactor(req.user.userId, req.user.role)) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'AUTH_TWO_FACTOR_REQUIRED',
+            message: 'Turn on two-factor authentication in your profile to use admin features'
+          }
+        } as ApiResponse);
+        return;
+      }
+    } catch (error) {
+      this.handleAuthError(error, res);
+      return;
+    }
+
     // Log admin actions for audit trail
     console.log(`Admin ${req.user.userId} accessing: ${req.method} ${req.path}`);
     next();
@@ -194,6 +223,16 @@ export class AuthMiddleware {
         } as ApiResponse);
         break;
 
+      case 'AUTH_TOKEN_REVOKED':
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTH_TOKEN_REVOKED',
+            message: 'This session has ended. Please log in again'
+          }
+        } as ApiResponse);
+        break;
+
       default:
         console.error('Auth middleware error:', error);
         res.status(500).json({
@@ -5,4 +5,4 @@ export {
   validateAdminAccess, 
   preventSelfAdminModification 
 } from './authMiddleware';
-export { adminRateLimit, generalRateLimit } from './rateLimitMiddleware';
\ No newline at end of file
+export { adminRateLimit, generalRateLimit, emailLinkRateLimit, twoFactorRateLimit } from './rateLimitMiddleware';
\ No newline at end of file
@@ -93,4 +93,6 @@ export class RateLimitMiddleware {
 
 // Create rate limiters for different use cases
 export const adminRateLimit = new RateLimitMiddleware(15 * 60 * 1000, 50); // 50 requests per 15 minutes for admin
-export const generalRateLimit = new RateLimitMiddleware(15 * 60 * 1000, 100); // 100 requests per 15 minutes for general use
\ No newline at end of file
+export const generalRateLimit = new RateLimitMiddleware(15 * 60 * 1000, 100); // 100 requests per 15 minutes for general use
+export const emailLinkRateLimit = new RateLimitMiddleware(15 * 60 * 1000, 20); // 20 requests per 15 minutes for endpoints that send or check email links
+export const twoFactorRateLimit = new RateLimitMiddleware(15 * 60 * 1000, 20); // 20 requests per 15 minutes for endpoints that check two-factor codes
\ No newline at end of file
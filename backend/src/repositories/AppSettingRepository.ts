@@ -0,0 +1,21 @@
+import { BaseRepository } from './BaseRepository';
+import { AppSetting } from '../types';
+
+export class AppSettingRepository extends BaseRepository<AppSetting> {
+  constructor() {
+    super('app_settings');
+  }
+
+  async getValue<V>(key: string): Promise<V | undefined> {
+    const result = await this.db(this.tableName).where({ key }).first('value');
+    return result ? result.value as V : undefined;
+  }
+
+  async setValue(key: string, value: unknown, updatedBy: string | null): Promise<void> {
+    const now = new Date();
+    await this.db(this.tableName)
+      .insert({ key, value: JSON.stringify(value), updated_by: updatedBy, created_at: now, updated_at: now })
+      .onConflict('key')
+      .merge(['value', 'updated_by', 'updated_at']);
+  }
+}
\ No newline at end of file
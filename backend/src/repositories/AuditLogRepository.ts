@@ -0,0 +1,79 @@
+import { Knex } from 'knex';
+import { BaseRepository } from './BaseRepository';
+import { AuditLogEntry, AuditEntityType } from '../types';
+
+export interface AuditLogFilters {
+  wallet_id?: string;
+  actor_id?: string;
+  entity_type?: AuditEntityType;
+}
+
+// The log is append-only: entries are written with the change and never edited or removed
+export class AuditLogRepository extends BaseRepository<AuditLogEntry> {
+  constructor() {
+    super('audit_logs');
+  }
+
+  async createMany(entries: Omit<AuditLogEntry, 'id' | 'created_at'>[], trx?: Knex.Transaction): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await (trx || this.db)(this.tableName).insert(entries.map(entry => ({
+      ...entry,
+      before: entry.before ? JSON.stringify(entry.before) : null,
+      after: entry.after ? JSON.stringify(entry.after) : null
+    })));
+  }
+
+  async update(): Promise<AuditLogEntry | null> {
+    throw new Error('AUDIT_LOG_APPEND_ONLY');
+  }
+
+  async delete(): Promise<boolean> {
+    throw new Error('AUDIT_LOG_APPEND_ONLY');
+  }
+
+  // Newest first, with the username of whoever made each change
+  async findWithFilters(page: number, limit: number, filters: AuditLogFilters): Promise<{ data: AuditLogEntry[]; total: number; page: number; limit: number }> {
+    const [data, totalResult] = await Promise.all([
+      this.filteredQuery(filters)
+        .leftJoin('users', 'users.id', `${this.tableName}.actor_id`)
+        .orderBy(`${this.tableName}.created_at`, 'desc')
+        .limit(limit)
+        .offset((page - 1) * limit)
+        .select(`${this.tableName}.*`, 'users.username as actor_username'),
+      this.filteredQuery(filters).count('* as count').first()
+    ]);
+
+    return {
+      data,
+      total: parseInt(totalResult?.count as string) || 0,
+      page,
+      limit
+    };
+  }
+
+  private filteredQuery(filters: AuditLogFilters): Knex.QueryBuilder {
+    let query = this.db(this.tableName);
+
+    // A change that moved something out of the wallet belongs to its history too
+    if (filters.wallet_id) {
+      const walletId = filters.wallet_id;
+      query = query.where(function() {
+        this.where('audit_logs.wallet_id', walletId)
+          .orWhereRaw("audit_logs.before->>'wallet_id' = ?", [walletId]);
+      });
+    }
+
+    if (filters.actor_id) {
+      query = query.where('audit_logs.actor_id', filters.actor_id);
+    }
+
+    if (filters.entity_type) {
+      query = query.where('audit_logs.entity_type', filters.entity_type);
+    }
+
+    return query;
+  }
+}
\ No newline at end of file
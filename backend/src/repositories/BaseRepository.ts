@@ -4,20 +4,44 @@ import db from '../database/connection';
 export abstract class BaseRepository<T> {
   protected db: Knex;
   protected tableName: string;
+  // Soft-deleted rows keep a deleted_at timestamp and sit in the trash until they are purged
+  protected softDelete: boolean;
 
-  constructor(tableName: string) {
+  constructor(tableName: string, softDelete: boolean = false) {
     this.db = db;
     this.tableName = tableName;
+    this.softDelete = softDelete;
+  }
+
+  // Run writes to several tables, possibly through several repositories, in one database transaction
+  async transaction<R>(callback: (trx: Knex.Transaction) => Promise<R>): Promise<R> {
+    return this.db.transaction(callback);
+  }
+
+  // Query the table, leaving out soft-deleted rows
+  protected query(trx?: Knex.Transaction) {
+    const query = (trx || this.db)(this.tableName);
+    return this.softDelete ? query.whereNull(`${this.tableName}.deleted_at`) : query;
+  }
+
+  // Query only the soft-deleted rows
+  protected trashQuery() {
+    return this.db(this.tableName).whereNotNull(`${this.tableName}.deleted_at`);
+  }
+
+  // Wallets in the trash, for rows that belong to a wallet but are not trashed with it
+  protected trashedWalletIds() {
+    return this.db('wallets').whereNotNull('deleted_at').select('id');
   }
 
   // Generic CRUD operations
   async findById(id: string): Promise<T | null> {
-    const result = await this.db(this.tableName).where({ id }).first();
+    const result = await this.query().where({ id }).first();
     return result || null;
   }
 
   async findAll(filters?: Partial<T>): Promise<T[]> {
-    let query = this.db(this.tableName);
+    let query = this.query();
     
     if (filters) {
       query = query.where(filters);
@@ -34,7 +58,7 @@ export abstract class BaseRepository<T> {
   }
 
   async update(id: string, data: Partial<Omit<T, 'id' | 'created_at'>>): Promise<T | null> {
-    const [result] = await this.db(this.tableName)
+    const [result] = await this.query()
       .where({ id })
       .update({ ...data, updated_at: new Date() })
       .returning('*');
@@ -42,12 +66,41 @@ export abstract class BaseRepository<T> {
   }
 
   async delete(id: string): Promise<boolean> {
+    if (this.softDelete) {
+      const trashedRows = await this.query().where({ id }).update({ deleted_at: new Date() });
+      return trashedRows > 0;
+    }
+
     const deletedRows = await this.db(this.tableName).where({ id }).del();
     return deletedRows > 0;
   }
 
+  // Remove a row for good, whether or not it is in the trash
+  async forceDelete(id: string): Promise<boolean> {
+    const deletedRows = await this.db(this.tableName).where({ id }).del();
+    return deletedRows > 0;
+  }
+
+  async findDeletedById(id: string): Promise<T | null> {
+    const result = await this.trashQuery().where({ id }).first();
+    return result || null;
+  }
+
+  async restore(id: string): Promise<T | null> {
+    const [result] = await this.trashQuery()
+      .where({ id })
+      .update({ deleted_at: null, updated_at: new Date() })
+      .returning('*');
+    return result || null;
+  }
+
+  // Permanently remove rows that went into the trash before the cutoff
+  async purgeDeletedBefore(cutoff: Date): Promise<number> {
+    return this.trashQuery().where(`${this.tableName}.deleted_at`, '<', cutoff).del();
+  }
+
   async exists(id: string): Promise<boolean> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id })
       .select('id')
       .first();
@@ -55,7 +108,7 @@ export abstract class BaseRepository<T> {
   }
 
   async count(filters?: Partial<T>): Promise<number> {
-    let query = this.db(this.tableName);
+    let query = this.query();
     
     if (filters) {
       query = query.where(filters);
@@ -74,8 +127,8 @@ export abstract class BaseRepository<T> {
   ): Promise<{ data: T[]; total: number; page: number; limit: number }> {
     const offset = (page - 1) * limit;
     
-    let query = this.db(this.tableName);
-    let countQuery = this.db(this.tableName);
+    let query = this.query();
+    let countQuery = this.query();
     
     if (filters) {
       query = query.where(filters);
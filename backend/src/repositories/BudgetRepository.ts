@@ -3,40 +3,54 @@ import { Budget } from '../types';
 
 export class BudgetRepository extends BaseRepository<Budget> {
   constructor() {
-    super('budgets');
+    super('budgets', true);
   }
 
   async findByWalletId(walletId: string): Promise<Budget[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ wallet_id: walletId })
       .orderBy('month', 'desc')
       .select('*');
   }
 
-  async findByWalletAndMonth(walletId: string, month: string): Promise<Budget | null> {
-    const result = await this.db(this.tableName)
-      .where({ wallet_id: walletId, month })
-      .first();
+  async findByWalletAndMonth(walletId: string, month: string, categoryId: string | null = null): Promise<Budget | null> {
+    let query = this.query().where({ wallet_id: walletId, month });
+
+    if (categoryId) {
+      query = query.where({ category_id: categoryId });
+    } else {
+      query = query.whereNull('category_id');
+    }
+
+    const result = await query.first();
     return result || null;
   }
 
+  async findAllByWalletAndMonth(walletId: string, month: string): Promise<Budget[]> {
+    return this.query()
+      .where({ wallet_id: walletId, month })
+      .orderByRaw('category_id IS NOT NULL')
+      .select('*');
+  }
+
   async findCurrentMonthBudget(walletId: string): Promise<Budget | null> {
     const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
     return this.findByWalletAndMonth(walletId, currentMonth);
   }
 
   async findBudgetsByUserId(userId: string): Promise<Budget[]> {
-    return this.db(this.tableName)
+    return this.query()
       .join('wallets', 'budgets.wallet_id', 'wallets.id')
       .where('wallets.user_id', userId)
+      .whereNull('wallets.deleted_at')
       .select('budgets.*')
       .orderBy('budgets.month', 'desc');
   }
 
   async deleteBudgetsByWalletId(walletId: string): Promise<number> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ wallet_id: walletId })
-      .del();
+      .update({ deleted_at: new Date() });
   }
 
   // Enhanced security methods for data isolation
@@ -45,7 +59,7 @@ export class BudgetRepository extends BaseRepository<Budget> {
       return null;
     }
 
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id })
       .whereIn('wallet_id', accessibleWalletIds)
       .first();
@@ -57,7 +71,7 @@ export class BudgetRepository extends BaseRepository<Budget> {
       return null;
     }
 
-    const [result] = await this.db(this.tableName)
+    const [result] = await this.query()
       .where({ id })
       .whereIn('wallet_id', accessibleWalletIds)
       .update({ ...data, updated_at: new Date() })
@@ -70,11 +84,22 @@ export class BudgetRepository extends BaseRepository<Budget> {
       return false;
     }
 
-    const deletedRows = await this.db(this.tableName)
+    const trashedRows = await this.query()
       .where({ id })
       .whereIn('wallet_id', accessibleWalletIds)
-      .del();
-    return deletedRows > 0;
+      .update({ deleted_at: new Date() });
+    return trashedRows > 0;
+  }
+
+  async findTrashedInWallets(walletIds: string[]): Promise<Budget[]> {
+    if (walletIds.length === 0) {
+      return [];
+    }
+
+    return this.trashQuery()
+      .whereIn('wallet_id', walletIds)
+      .orderBy('deleted_at', 'desc')
+      .select('*');
   }
 
   async findUserAccessibleBudgets(accessibleWalletIds: string[]): Promise<Budget[]> {
@@ -82,7 +107,7 @@ export class BudgetRepository extends BaseRepository<Budget> {
       return [];
     }
 
-    return this.db(this.tableName)
+    return this.query()
       .whereIn('wallet_id', accessibleWalletIds)
       .orderBy('month', 'desc')
       .select('*');
@@ -1,41 +1,42 @@
+import { Knex } from 'knex';
 import { BaseRepository } from './BaseRepository';
 import { Category } from '../types';
 
 export class CategoryRepository extends BaseRepository<Category> {
   constructor() {
-    super('categories');
+    super('categories', true);
   }
 
   async findByUserId(userId: string): Promise<Category[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ user_id: userId })
       .orderBy('name', 'asc')
       .select('*');
   }
 
   async findByUserIdAndType(userId: string, type: 'Income' | 'Expense'): Promise<Category[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ user_id: userId, type })
       .orderBy('name', 'asc')
       .select('*');
   }
 
   async findByWalletId(walletId: string): Promise<Category[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ wallet_id: walletId })
       .orderBy('name', 'asc')
       .select('*');
   }
 
   async findUserCategory(categoryId: string, userId: string): Promise<Category | null> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id: categoryId, user_id: userId })
       .first();
     return result || null;
   }
 
   async findByNameAndUser(name: string, userId: string, walletId?: string | null): Promise<Category | null> {
-    let query = this.db(this.tableName)
+    let query = this.query()
       .where({ name: name.trim(), user_id: userId });
     
     if (walletId !== undefined) {
@@ -47,24 +48,23 @@ export class CategoryRepository extends BaseRepository<Category> {
   }
 
   async countUserCategories(userId: string): Promise<number> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ user_id: userId })
       .count('* as count')
       .first();
     return parseInt(result?.count as string) || 0;
   }
 
+  // Transactions in the category, including split transactions with a line in it
   async hasTransactions(categoryId: string): Promise<boolean> {
-    const result = await this.db('transactions_2_0')
-      .where({ category_id: categoryId })
+    const result = await this.transactionsInCategory(categoryId)
       .select('id')
       .first();
     return !!result;
   }
 
   async countTransactions(categoryId: string): Promise<number> {
-    const result = await this.db('transactions_2_0')
-      .where({ category_id: categoryId })
+    const result = await this.transactionsInCategory(categoryId)
       .count('* as count')
       .first();
     return parseInt(result?.count as string) || 0;
@@ -72,36 +72,43 @@ export class CategoryRepository extends BaseRepository<Category> {
 
   async markTransactionsAsUncategorized(categoryId: string): Promise<number> {
     const updatedRows = await this.db('transactions_2_0')
+      .whereNull('deleted_at')
       .where({ category_id: categoryId })
       .update({ category_id: null, updated_at: new Date() });
     return updatedRows;
   }
 
+  // Transactions in a trashed category keep the link but read as uncategorized
   async getUncategorizedTransactions(userId: string): Promise<any[]> {
     return this.db('transactions_2_0')
-      .where({ user_id: userId, category_id: null })
-      .orderBy('created_at', 'desc')
-      .select('*');
+      .leftJoin('categories', 'categories.id', 'transactions_2_0.category_id')
+      .whereNull('transactions_2_0.deleted_at')
+      .where({ 'transactions_2_0.user_id': userId, 'transactions_2_0.is_split': false })
+      .where(function() {
+        this.whereNull('transactions_2_0.category_id').orWhereNotNull('categories.deleted_at');
+      })
+      .orderBy('transactions_2_0.created_at', 'desc')
+      .select('transactions_2_0.*');
   }
 
   async findByIds(categoryIds: string[]): Promise<Category[]> {
     if (categoryIds.length === 0) return [];
     
-    return this.db(this.tableName)
+    return this.query()
       .whereIn('id', categoryIds)
       .select('*');
   }
 
   // Enhanced security methods for data isolation
   async findByIdWithOwnershipValidation(id: string, userId: string): Promise<Category | null> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id, user_id: userId })
       .first();
     return result || null;
   }
 
   async findByIdWithWalletAccess(id: string, userId: string, accessibleWalletIds: string[]): Promise<Category | null> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id })
       .where(function() {
         this.where({ user_id: userId, wallet_id: null })
@@ -118,7 +125,7 @@ export class CategoryRepository extends BaseRepository<Category> {
   }
 
   async updateWithOwnershipValidation(id: string, userId: string, data: Partial<Category>): Promise<Category | null> {
-    const [result] = await this.db(this.tableName)
+    const [result] = await this.query()
       .where({ id, user_id: userId })
       .update({ ...data, updated_at: new Date() })
       .returning('*');
@@ -126,14 +133,21 @@ export class CategoryRepository extends BaseRepository<Category> {
   }
 
   async deleteWithOwnershipValidation(id: string, userId: string): Promise<boolean> {
-    const deletedRows = await this.db(this.tableName)
+    const trashedRows = await this.query()
       .where({ id, user_id: userId })
-      .del();
-    return deletedRows > 0;
+      .update({ deleted_at: new Date() });
+    return trashedRows > 0;
+  }
+
+  async findTrashedByUserId(userId: string): Promise<Category[]> {
+    return this.trashQuery()
+      .where({ user_id: userId })
+      .orderBy('deleted_at', 'desc')
+      .select('*');
   }
 
   async findUserAccessibleCategories(userId: string, accessibleWalletIds: string[]): Promise<Category[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where(function() {
         this.where({ user_id: userId, wallet_id: null })
           .orWhere(function() {
@@ -147,4 +161,14 @@ export class CategoryRepository extends BaseRepository<Category> {
       .orderBy('name', 'asc')
       .select('*');
   }
+
+  // Transactions outside the trash with the category, or with a split line in it
+  private transactionsInCategory(categoryId: string): Knex.QueryBuilder {
+    const splitTransactionIds = this.db('transaction_splits').where({ category_id: categoryId }).select('transaction_id');
+    return this.db('transactions_2_0')
+      .whereNull('deleted_at')
+      .where((builder) => {
+        builder.where({ category_id: categoryId }).orWhereIn('id', splitTransactionIds);
+      });
+  }
 }
\ No newline at end of file
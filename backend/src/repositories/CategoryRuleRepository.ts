@@ -0,0 +1,42 @@
+import { BaseRepository } from './BaseRepository';
+import { CategoryRule } from '../types';
+
+export class CategoryRuleRepository extends BaseRepository<CategoryRule> {
+  constructor() {
+    super('category_rules');
+  }
+
+  // The user's own rules plus wallet rules shared through family wallets
+  async findUserAccessibleRules(userId: string, familyWalletIds: string[] = []): Promise<CategoryRule[]> {
+    let query = this.db(this.tableName)
+      .where({ user_id: userId });
+
+    if (familyWalletIds.length > 0) {
+      query = query.orWhereIn('wallet_id', familyWalletIds);
+    }
+
+    return query
+      .orderBy('priority', 'desc')
+      .orderBy('created_at', 'asc')
+      .select('*');
+  }
+
+  /**
+   * Active rules that can categorize the user's transactions in the given
+   * wallets: the user's global rules and every rule scoped to those wallets.
+   * Highest priority first, older rules first on ties.
+   */
+  async findApplicableRules(userId: string, walletIds: string[]): Promise<CategoryRule[]> {
+    return this.db(this.tableName)
+      .where({ is_active: true })
+      .where(function() {
+        this.where({ user_id: userId, wallet_id: null });
+        if (walletIds.length > 0) {
+          this.orWhereIn('wallet_id', walletIds);
+        }
+      })
+      .orderBy('priority', 'desc')
+      .orderBy('created_at', 'asc')
+      .select('*');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { BaseRepository } from './BaseRepository';
+import { ExchangeRate } from '../types';
+
+export class ExchangeRateRepository extends BaseRepository<ExchangeRate> {
+  constructor() {
+    super('exchange_rates');
+  }
+
+  async findByUserId(userId: string): Promise<ExchangeRate[]> {
+    return this.db(this.tableName)
+      .where({ user_id: userId })
+      .orderBy('rate_date', 'desc')
+      .orderBy('from_currency', 'asc')
+      .orderBy('to_currency', 'asc')
+      .select('*');
+  }
+
+  // A rate entered again for the same pair and day replaces the earlier one
+  async upsertMany(rates: Omit<ExchangeRate, 'id' | 'created_at'>[]): Promise<ExchangeRate[]> {
+    if (rates.length === 0) {
+      return [];
+    }
+
+    return this.db(this.tableName)
+      .insert(rates)
+      .onConflict(['user_id', 'from_currency', 'to_currency', 'rate_date'])
+      .merge(['rate', 'updated_at'])
+      .returning('*');
+  }
+}
\ No newline at end of file
@@ -10,8 +10,12 @@ export class FamilyWalletMemberRepository extends BaseRepository<FamilyWalletMem
     return this.db(this.tableName).where({ wallet_id: walletId }).select('*');
   }
 
+  // Memberships of wallets in the trash are left out, so the wallets drop out of every listing
   async findByUserId(userId: string): Promise<FamilyWalletMember[]> {
-    return this.db(this.tableName).where({ user_id: userId }).select('*');
+    return this.db(this.tableName)
+      .where(`${this.tableName}.user_id`, userId)
+      .whereNotIn(`${this.tableName}.wallet_id`, this.trashedWalletIds())
+      .select('*');
   }
 
   async findMembership(walletId: string, userId: string): Promise<FamilyWalletMember | null> {
@@ -0,0 +1,51 @@
+import { BaseRepository } from './BaseRepository';
+import { LoanPayment, LoanPaymentDetail } from '../types';
+
+export class LoanPaymentRepository extends BaseRepository<LoanPayment> {
+  constructor() {
+    super('loan_payments');
+  }
+
+  // Payments with their transactions, in the order they were made; payments in the trash are left out
+  async findDetailsByLoanId(loanId: string): Promise<LoanPaymentDetail[]> {
+    return this.db(this.tableName)
+      .join('transactions_2_0', 'loan_payments.transaction_id', 'transactions_2_0.id')
+      .where('loan_payments.loan_id', loanId)
+      .whereNull('transactions_2_0.deleted_at')
+      .orderBy('transactions_2_0.transaction_date', 'asc')
+      .orderBy('transactions_2_0.created_at', 'asc')
+      .select(
+        'loan_payments.*',
+        'transactions_2_0.title',
+        'transactions_2_0.amount',
+        'transactions_2_0.transaction_date'
+      );
+  }
+
+  async findByTransactionId(transactionId: string): Promise<LoanPayment | null> {
+    const result = await this.db(this.tableName)
+      .where({ transaction_id: transactionId })
+      .first();
+    return result || null;
+  }
+
+  async updateAllocations(
+    allocations: { id: string; principal_amount: number; interest_amount: number }[]
+  ): Promise<void> {
+    if (allocations.length === 0) {
+      return;
+    }
+
+    await this.db.transaction(async (trx) => {
+      for (const allocation of allocations) {
+        await trx(this.tableName)
+          .where({ id: allocation.id })
+          .update({
+            principal_amount: allocation.principal_amount,
+            interest_amount: allocation.interest_amount,
+            updated_at: new Date()
+          });
+      }
+    });
+  }
+}
\ No newline at end of file
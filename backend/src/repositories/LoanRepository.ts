@@ -0,0 +1,24 @@
+import { BaseRepository } from './BaseRepository';
+import { Loan } from '../types';
+
+export class LoanRepository extends BaseRepository<Loan> {
+  constructor() {
+    super('loans');
+  }
+
+  async findByUserId(userId: string): Promise<Loan[]> {
+    return this.db(this.tableName)
+      .where({ user_id: userId })
+      .whereNotIn('wallet_id', this.trashedWalletIds())
+      .orderBy('start_date', 'asc')
+      .orderBy('created_at', 'asc')
+      .select('*');
+  }
+
+  async findByReminderId(reminderId: string): Promise<Loan | null> {
+    const result = await this.db(this.tableName)
+      .where({ reminder_id: reminderId })
+      .first();
+    return result || null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { BaseRepository } from './BaseRepository';
+import { LoginFailure, LoginFailureScope } from '../types';
+
+export class LoginFailureRepository extends BaseRepository<LoginFailure> {
+  constructor() {
+    super('login_failures');
+  }
+
+  async find(scope: LoginFailureScope, key: string): Promise<LoginFailure | null> {
+    const result = await this.db(this.tableName).where({ scope, key }).first();
+    return result || null;
+  }
+
+  // Count a failure in one statement, starting over when the last one is older than windowStart
+  async increment(scope: LoginFailureScope, key: string, windowStart: Date): Promise<LoginFailure> {
+    const now = new Date();
+    const [result] = await this.db(this.tableName)
+      .insert({ scope, key, failed_count: 1, last_failed_at: now, created_at: now, updated_at: now })
+      .onConflict(['scope', 'key'])
+      .merge({
+        failed_count: this.db.raw(
+          `CASE WHEN ${this.tableName}.last_failed_at < ? THEN 1 ELSE ${this.tableName}.failed_count + 1 END`,
+          [windowStart]
+        ),
+        last_failed_at: now,
+        updated_at: now
+      })
+      .returning('*');
+    return result;
+  }
+
+  async updateEntry(scope: LoginFailureScope, key: string, data: Partial<Pick<LoginFailure, 'failed_count' | 'retry_after' | 'locked_until'>>): Promise<void> {
+    await this.db(this.tableName)
+      .where({ scope, key })
+      .update({ ...data, updated_at: new Date() });
+  }
+
+  async clear(scope: LoginFailureScope, key: string): Promise<void> {
+    await this.db(this.tableName).where({ scope, key }).delete();
+  }
+
+  // Entries with no recent failure and no lock still running
+  async deleteStaleBefore(date: Date): Promise<number> {
+    return this.db(this.tableName)
+      .where('last_failed_at', '<', date)
+      .where(builder => builder.whereNull('locked_until').orWhere('locked_until', '<', new Date()))
+      .delete();
+  }
+}
\ No newline at end of file
@@ -202,6 +202,7 @@ export class MigrationRepository extends BaseRepository<MigrationStatus> {
         title, 
         amount, 
         created_at,
+        transaction_date,
         created_by,
         is_migrated,
         legacy_id
@@ -217,6 +218,7 @@ export class MigrationRepository extends BaseRepository<MigrationStatus> {
         COALESCE(title, 'Migrated Transaction') AS title,
         ABS(amount) AS amount,
         created_at,
+        created_at::date AS transaction_date,
         ?::uuid AS created_by,
         true AS is_migrated,
         COALESCE(id::text, user_id::text || '_' || created_at::text) AS legacy_id
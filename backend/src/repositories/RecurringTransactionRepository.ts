@@ -0,0 +1,42 @@
+import { BaseRepository } from './BaseRepository';
+import { RecurringTransaction } from '../types';
+
+export class RecurringTransactionRepository extends BaseRepository<RecurringTransaction> {
+  constructor() {
+    super('recurring_transactions');
+  }
+
+  async findUserAccessibleRules(userId: string, familyWalletIds: string[] = []): Promise<RecurringTransaction[]> {
+    const query = this.db(this.tableName)
+      .where(function() {
+        this.where({ user_id: userId });
+        if (familyWalletIds.length > 0) {
+          this.orWhereIn('wallet_id', familyWalletIds);
+        }
+      })
+      .whereNotIn('wallet_id', this.trashedWalletIds());
+
+    return query.orderBy('start_date', 'asc').select('*');
+  }
+
+  async findByWalletId(walletId: string): Promise<RecurringTransaction[]> {
+    return this.db(this.tableName)
+      .where({ wallet_id: walletId })
+      .orderBy('start_date', 'asc')
+      .select('*');
+  }
+
+  // Active rules whose first occurrence is on or before the given date
+  async findActiveStartedBy(date: string): Promise<RecurringTransaction[]> {
+    return this.db(this.tableName)
+      .where({ is_active: true })
+      .where('start_date', '<=', date)
+      // Rules of a wallet in the trash wait until the wallet is restored
+      .whereNotIn('wallet_id', this.trashedWalletIds())
+      .select('*');
+  }
+
+  async updateLastPostedDate(id: string, lastPostedDate: string): Promise<RecurringTransaction | null> {
+    return this.update(id, { last_posted_date: lastPostedDate });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { BaseRepository } from './BaseRepository';
+import { RefreshToken } from '../types';
+
+export class RefreshTokenRepository extends BaseRepository<RefreshToken> {
+  constructor() {
+    super('refresh_tokens');
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    const result = await this.db(this.tableName).where({ token_hash: tokenHash }).first();
+    return result || null;
+  }
+
+  /**
+   * Revoke a token that is still active and return it. The check and the
+   * update are one statement, so two requests cannot both rotate the same token.
+   */
+  async revokeIfActive(id: string): Promise<RefreshToken | null> {
+    const now = new Date();
+    const [result] = await this.db(this.tableName)
+      .where({ id })
+      .whereNull('revoked_at')
+      .update({ revoked_at: now, updated_at: now })
+      .returning('*');
+    return result || null;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    const now = new Date();
+    await this.db(this.tableName)
+      .where({ family_id: familyId })
+      .whereNull('revoked_at')
+      .update({ revoked_at: now, updated_at: now });
+  }
+
+  async revokeFamilies(familyIds: string[]): Promise<void> {
+    if (familyIds.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    await this.db(this.tableName)
+      .whereIn('family_id', familyIds)
+      .whereNull('revoked_at')
+      .update({ revoked_at: now, updated_at: now });
+  }
+
+  // Expired tokens are refused anyway, so they are not needed to spot reuse
+  async deleteExpiredBefore(date: Date): Promise<number> {
+    return this.db(this.tableName).where('expires_at', '<', date).delete();
+  }
+}
\ No newline at end of file
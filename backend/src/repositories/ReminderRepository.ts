@@ -3,25 +3,25 @@ import { Reminder } from '../types';
 
 export class ReminderRepository extends BaseRepository<Reminder> {
   constructor() {
-    super('reminders');
+    super('reminders', true);
   }
 
   async findByUserId(userId: string): Promise<Reminder[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ user_id: userId })
       .orderBy('due_date', 'asc')
       .select('*');
   }
 
   async findByWalletId(walletId: string): Promise<Reminder[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ wallet_id: walletId })
       .orderBy('due_date', 'asc')
       .select('*');
   }
 
   async findActiveReminders(userId: string): Promise<Reminder[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ user_id: userId, is_active: true })
       .orderBy('due_date', 'asc')
       .select('*');
@@ -32,7 +32,7 @@ export class ReminderRepository extends BaseRepository<Reminder> {
     const futureDate = new Date();
     futureDate.setDate(today.getDate() + days);
 
-    return this.db(this.tableName)
+    return this.query()
       .where({ user_id: userId, is_active: true })
       .whereBetween('due_date', [today, futureDate])
       .orderBy('due_date', 'asc')
@@ -42,7 +42,7 @@ export class ReminderRepository extends BaseRepository<Reminder> {
   async findOverdueReminders(userId: string): Promise<Reminder[]> {
     const today = new Date();
     
-    return this.db(this.tableName)
+    return this.query()
       .where({ user_id: userId, is_active: true })
       .where('due_date', '<', today)
       .orderBy('due_date', 'asc')
@@ -50,7 +50,7 @@ export class ReminderRepository extends BaseRepository<Reminder> {
   }
 
   async findByType(userId: string, type: 'Payment' | 'Receivable'): Promise<Reminder[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ user_id: userId, type })
       .orderBy('due_date', 'asc')
       .select('*');
@@ -65,26 +65,27 @@ export class ReminderRepository extends BaseRepository<Reminder> {
   }
 
   async findUserAccessibleReminders(userId: string, familyWalletIds: string[] = []): Promise<Reminder[]> {
-    let query = this.db(this.tableName)
-      .where({ user_id: userId });
-
-    if (familyWalletIds.length > 0) {
-      query = query.orWhereIn('wallet_id', familyWalletIds);
-    }
-
-    return query.orderBy('due_date', 'asc').select('*');
+    return this.query()
+      .where(function() {
+        this.where({ user_id: userId });
+        if (familyWalletIds.length > 0) {
+          this.orWhereIn('wallet_id', familyWalletIds);
+        }
+      })
+      .orderBy('due_date', 'asc')
+      .select('*');
   }
 
   // Enhanced security methods for data isolation
   async findByIdWithOwnershipValidation(id: string, userId: string): Promise<Reminder | null> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id, user_id: userId })
       .first();
     return result || null;
   }
 
   async findByIdWithAccess(id: string, userId: string, accessibleWalletIds: string[]): Promise<Reminder | null> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id })
       .where(function() {
         this.where({ user_id: userId })
@@ -101,7 +102,7 @@ export class ReminderRepository extends BaseRepository<Reminder> {
   }
 
   async updateWithOwnershipValidation(id: string, userId: string, data: Partial<Reminder>): Promise<Reminder | null> {
-    const [result] = await this.db(this.tableName)
+    const [result] = await this.query()
       .where({ id, user_id: userId })
       .update({ ...data, updated_at: new Date() })
       .returning('*');
@@ -109,14 +110,21 @@ export class ReminderRepository extends BaseRepository<Reminder> {
   }
 
   async deleteWithOwnershipValidation(id: string, userId: string): Promise<boolean> {
-    const deletedRows = await this.db(this.tableName)
+    const trashedRows = await this.query()
       .where({ id, user_id: userId })
-      .del();
-    return deletedRows > 0;
+      .update({ deleted_at: new Date() });
+    return trashedRows > 0;
+  }
+
+  async findTrashedByUserId(userId: string): Promise<Reminder[]> {
+    return this.trashQuery()
+      .where({ user_id: userId })
+      .orderBy('deleted_at', 'desc')
+      .select('*');
   }
 
   async findAccessibleReminders(userId: string, accessibleWalletIds: string[]): Promise<Reminder[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where(function() {
         this.where({ user_id: userId })
           .orWhere(function() {
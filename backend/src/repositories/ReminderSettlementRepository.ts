@@ -0,0 +1,75 @@
+import { BaseRepository } from './BaseRepository';
+import { ReminderSettlement, Transaction } from '../types';
+
+export class ReminderSettlementRepository extends BaseRepository<ReminderSettlement> {
+  constructor() {
+    super('reminder_settlements');
+  }
+
+  async findByReminderId(reminderId: string): Promise<ReminderSettlement[]> {
+    return this.db(this.tableName)
+      .where({ reminder_id: reminderId })
+      .orderBy('occurrence_date', 'asc')
+      .select('*');
+  }
+
+  async findByReminderIds(reminderIds: string[], startDate?: string, endDate?: string): Promise<ReminderSettlement[]> {
+    if (reminderIds.length === 0) {
+      return [];
+    }
+
+    let query = this.db(this.tableName).whereIn('reminder_id', reminderIds);
+
+    if (startDate) {
+      query = query.where('occurrence_date', '>=', startDate);
+    }
+
+    if (endDate) {
+      query = query.where('occurrence_date', '<=', endDate);
+    }
+
+    return query.orderBy('occurrence_date', 'asc').select('*');
+  }
+
+  // Returns null if the occurrence has already been settled
+  async createIfUnsettled(settlement: ReminderSettlement): Promise<ReminderSettlement | null> {
+    const [result] = await this.db(this.tableName)
+      .insert(settlement)
+      .onConflict(['reminder_id', 'occurrence_date'])
+      .ignore()
+      .returning('*');
+    return result || null;
+  }
+
+  /**
+   * Mark an occurrence paid and record its transaction atomically.
+   * Returns null (and records nothing) if the occurrence has already been settled.
+   */
+  async createPaid(
+    settlement: ReminderSettlement,
+    transaction: Transaction
+  ): Promise<{ settlement: ReminderSettlement; transaction: Transaction } | null> {
+    return this.db.transaction(async (trx) => {
+      const [claimed] = await trx(this.tableName)
+        .insert(settlement)
+        .onConflict(['reminder_id', 'occurrence_date'])
+        .ignore()
+        .returning('*');
+
+      if (!claimed) {
+        return null;
+      }
+
+      const [createdTransaction] = await trx('transactions_2_0')
+        .insert(transaction)
+        .returning('*');
+
+      const [paidSettlement] = await trx(this.tableName)
+        .where({ id: claimed.id })
+        .update({ transaction_id: createdTransaction.id, updated_at: new Date() })
+        .returning('*');
+
+      return { settlement: paidSettlement, transaction: createdTransaction };
+    });
+  }
+}
\ No newline at end of file
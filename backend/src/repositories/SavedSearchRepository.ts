@@ -0,0 +1,22 @@
+import { BaseRepository } from './BaseRepository';
+import { SavedSearch } from '../types';
+
+export class SavedSearchRepository extends BaseRepository<SavedSearch> {
+  constructor() {
+    super('saved_searches');
+  }
+
+  async findByUserId(userId: string): Promise<SavedSearch[]> {
+    return this.db(this.tableName)
+      .where({ user_id: userId })
+      .orderBy('name', 'asc')
+      .select('*');
+  }
+
+  async findByUserAndName(userId: string, name: string): Promise<SavedSearch | null> {
+    const result = await this.db(this.tableName)
+      .where({ user_id: userId, name })
+      .first();
+    return result || null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { BaseRepository } from './BaseRepository';
+import { SavingsGoal } from '../types';
+
+export class SavingsGoalRepository extends BaseRepository<SavingsGoal> {
+  constructor() {
+    super('savings_goals');
+  }
+
+  async findByUserId(userId: string): Promise<SavingsGoal[]> {
+    return this.db(this.tableName)
+      .where({ user_id: userId })
+      .whereNotIn('wallet_id', this.trashedWalletIds())
+      .orderBy('target_date', 'asc')
+      .orderBy('created_at', 'asc')
+      .select('*');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { BaseRepository } from './BaseRepository';
+import { SecurityEvent } from '../types';
+
+// Like the audit log, the security log is append-only
+export class SecurityEventRepository extends BaseRepository<SecurityEvent> {
+  constructor() {
+    super('security_events');
+  }
+
+  async create(data: Omit<SecurityEvent, 'id' | 'created_at'>): Promise<SecurityEvent> {
+    const [result] = await this.db(this.tableName)
+      .insert({
+        ...data,
+        details: data.details ? JSON.stringify(data.details) : null
+      })
+      .returning('*');
+    return result;
+  }
+
+  async update(): Promise<SecurityEvent | null> {
+    throw new Error('SECURITY_LOG_APPEND_ONLY');
+  }
+
+  async delete(): Promise<boolean> {
+    throw new Error('SECURITY_LOG_APPEND_ONLY');
+  }
+}
\ No newline at end of file
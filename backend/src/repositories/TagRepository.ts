@@ -0,0 +1,70 @@
+import { BaseRepository } from './BaseRepository';
+import { Tag, TagWithUsage } from '../types';
+
+export class TagRepository extends BaseRepository<Tag> {
+  constructor() {
+    super('tags');
+  }
+
+  async findByUserId(userId: string): Promise<TagWithUsage[]> {
+    const tags: (Tag & { transaction_count: string })[] = await this.db(this.tableName)
+      .leftJoin('transaction_tags', 'tags.id', 'transaction_tags.tag_id')
+      // Transactions in the trash do not count as uses
+      .leftJoin('transactions_2_0', function() {
+        this.on('transactions_2_0.id', '=', 'transaction_tags.transaction_id').andOnNull('transactions_2_0.deleted_at');
+      })
+      .where('tags.user_id', userId)
+      .groupBy('tags.id')
+      .orderBy('tags.name', 'asc')
+      .select('tags.*')
+      .count('transactions_2_0.id as transaction_count');
+
+    return tags.map(tag => ({ ...tag, transaction_count: parseInt(tag.transaction_count) || 0 }));
+  }
+
+  async findByUserAndName(userId: string, name: string): Promise<Tag | null> {
+    const result = await this.db(this.tableName)
+      .where({ user_id: userId, name })
+      .first();
+    return result || null;
+  }
+
+  // Tags are created on first use, so this never fails on a name the user already has
+  async findOrCreateByNames(userId: string, names: string[]): Promise<Tag[]> {
+    if (names.length === 0) {
+      return [];
+    }
+
+    await this.db(this.tableName)
+      .insert(names.map(name => ({ user_id: userId, name })))
+      .onConflict(['user_id', 'name'])
+      .ignore();
+
+    return this.db(this.tableName)
+      .where({ user_id: userId })
+      .whereIn('name', names)
+      .select('*');
+  }
+
+  // Replace every tag on a transaction
+  async setTransactionTags(transactionId: string, tagIds: string[]): Promise<void> {
+    await this.db.transaction(async (trx) => {
+      await trx('transaction_tags').where({ transaction_id: transactionId }).del();
+      if (tagIds.length > 0) {
+        await trx('transaction_tags').insert(tagIds.map(tagId => ({ transaction_id: transactionId, tag_id: tagId })));
+      }
+    });
+  }
+
+  async findNamesByTransactionIds(transactionIds: string[]): Promise<{ transaction_id: string; name: string }[]> {
+    if (transactionIds.length === 0) {
+      return [];
+    }
+
+    return this.db('transaction_tags')
+      .join(this.tableName, 'tags.id', 'transaction_tags.tag_id')
+      .whereIn('transaction_tags.transaction_id', transactionIds)
+      .orderBy('tags.name', 'asc')
+      .select('transaction_tags.transaction_id', 'tags.name');
+  }
+}
\ No newline at end of file
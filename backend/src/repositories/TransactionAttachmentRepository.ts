@@ -0,0 +1,23 @@
+import { BaseRepository } from './BaseRepository';
+import { TransactionAttachment } from '../types';
+
+export class TransactionAttachmentRepository extends BaseRepository<TransactionAttachment> {
+  constructor() {
+    super('transaction_attachments');
+  }
+
+  async findByTransactionId(transactionId: string): Promise<TransactionAttachment[]> {
+    return this.findByTransactionIds([transactionId]);
+  }
+
+  async findByTransactionIds(transactionIds: string[]): Promise<TransactionAttachment[]> {
+    if (transactionIds.length === 0) {
+      return [];
+    }
+
+    return this.db(this.tableName)
+      .whereIn('transaction_id', transactionIds)
+      .orderBy('created_at', 'asc')
+      .select('*');
+  }
+}
\ No newline at end of file
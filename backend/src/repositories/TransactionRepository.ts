@@ -1,37 +1,340 @@
+import { Knex } from 'knex';
 import { BaseRepository } from './BaseRepository';
-import { Transaction } from '../types';
+import { Transaction, TransactionSplit } from '../types';
+import { TransactionSearch, isEmptySearch, toLikePattern } from '../utils/transactionSearch';
 
 export interface TransactionFilters {
   user_id?: string;
   wallet_id?: string;
   category_id?: string;
-  type?: 'Income' | 'Expense';
-  start_date?: Date;
-  end_date?: Date;
+  type?: 'Income' | 'Expense' | 'Transfer';
+  start_date?: string; // YYYY-MM-DD
+  end_date?: string; // YYYY-MM-DD
+  tags?: string[]; // Tag names, all of which must be on the transaction
+  search?: TransactionSearch;
 }
 
 export class TransactionRepository extends BaseRepository<Transaction> {
   constructor() {
-    super('transactions_2_0');
+    super('transactions_2_0', true);
   }
 
   async findByUserId(userId: string): Promise<Transaction[]> {
-    return this.db(this.tableName).where({ user_id: userId }).select('*');
+    return this.query().where({ user_id: userId }).select('*');
   }
 
   async findByWalletId(walletId: string): Promise<Transaction[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ wallet_id: walletId })
+      .orderBy('transaction_date', 'desc')
       .orderBy('created_at', 'desc')
       .select('*');
   }
 
+  async findByTransferId(transferId: string): Promise<Transaction[]> {
+    return this.query()
+      .where({ transfer_id: transferId })
+      .orderBy('transfer_direction', 'desc') // Outgoing leg first
+      .select('*');
+  }
+
+  async findByIds(ids: string[]): Promise<Transaction[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return this.query().whereIn('id', ids).select('*');
+  }
+
+  // Both legs of each of the given transfers
+  async findByTransferIds(transferIds: string[]): Promise<Transaction[]> {
+    if (transferIds.length === 0) {
+      return [];
+    }
+
+    return this.query().whereIn('transfer_id', transferIds).select('*');
+  }
+
+  async createTransfer(outgoing: Transaction, incoming: Transaction): Promise<Transaction[]> {
+    return this.db.transaction(async (trx) => {
+      return trx(this.tableName)
+        .insert([outgoing, incoming])
+        .returning('*');
+    });
+  }
+
+  async updateTransfer(
+    transferId: string,
+    sharedData: Partial<Transaction>,
+    walletIds: { outgoing?: string; incoming?: string } = {}
+  ): Promise<Transaction[]> {
+    return this.db.transaction(async (trx) => {
+      const updatedAt = new Date();
+
+      const outgoing = await trx(this.tableName)
+        .where({ transfer_id: transferId, transfer_direction: 'Outgoing' })
+        .update({
+          ...sharedData,
+          ...(walletIds.outgoing ? { wallet_id: walletIds.outgoing } : {}),
+          updated_at: updatedAt
+        })
+        .returning('*');
+
+      const incoming = await trx(this.tableName)
+        .where({ transfer_id: transferId, transfer_direction: 'Incoming' })
+        .update({
+          ...sharedData,
+          ...(walletIds.incoming ? { wallet_id: walletIds.incoming } : {}),
+          updated_at: updatedAt
+        })
+        .returning('*');
+
+      return [...outgoing, ...incoming];
+    });
+  }
+
+  async createWithSplits(transaction: Transaction, splits: TransactionSplit[]): Promise<Transaction> {
+    return this.db.transaction(async (trx) => {
+      const [created] = await trx(this.tableName)
+        .insert(transaction)
+        .returning('*');
+
+      if (splits.length > 0) {
+        await trx('transaction_splits').insert(splits);
+      }
+
+      return created;
+    });
+  }
+
+  /**
+   * Update a transaction and, when `splits` is given, replace its split lines
+   * in the same database transaction. Pass an empty array to remove the split.
+   */
+  async updateWithSplits(
+    id: string,
+    data: Partial<Transaction>,
+    splits?: TransactionSplit[]
+  ): Promise<Transaction | null> {
+    return this.db.transaction(async (trx) => {
+      const [updated] = await trx(this.tableName)
+        .where({ id })
+        .update({ ...data, updated_at: new Date() })
+        .returning('*');
+
+      if (updated && splits) {
+        await trx('transaction_splits').where({ transaction_id: id }).del();
+        if (splits.length > 0) {
+          await trx('transaction_splits').insert(splits);
+        }
+      }
+
+      return updated || null;
+    });
+  }
+
+  async findByRecurringTransactionId(recurringTransactionId: string): Promise<Transaction[]> {
+    return this.query()
+      .where({ recurring_transaction_id: recurringTransactionId })
+      .orderBy('transaction_date', 'desc')
+      .select('*');
+  }
+
+  // Transactions in the trash count too, so importing a file again does not bring them back
+  async findByExternalIds(walletId: string, externalIds: string[]): Promise<Transaction[]> {
+    if (externalIds.length === 0) {
+      return [];
+    }
+
+    return this.db(this.tableName)
+      .where({ wallet_id: walletId })
+      .whereIn('external_id', externalIds)
+      .select('*');
+  }
+
+  // Insert every transaction or none of them. Rows whose bank id (external_id)
+  // already exists in the wallet are skipped rather than failing the batch.
+  async createMany(transactions: Transaction[], outerTrx?: Knex.Transaction): Promise<Transaction[]> {
+    if (transactions.length === 0) {
+      return [];
+    }
+
+    return (outerTrx || this.db).transaction(async (trx) => {
+      const created: Transaction[] = [];
+      for (let i = 0; i < transactions.length; i += 500) {
+        const rows = await trx(this.tableName)
+          .insert(transactions.slice(i, i + 500))
+          .onConflict(['wallet_id', 'external_id'])
+          .ignore()
+          .returning('*');
+        created.push(...rows);
+      }
+      return created;
+    });
+  }
+
+  // Returns null when a transaction was already posted for this rule occurrence
+  async createForRecurrence(data: Transaction, trx?: Knex.Transaction): Promise<Transaction | null> {
+    const [result] = await (trx || this.db)(this.tableName)
+      .insert(data)
+      .onConflict(['recurring_transaction_id', 'recurrence_date'])
+      .ignore()
+      .returning('*');
+    return result || null;
+  }
+
+  async deleteByTransferId(transferId: string): Promise<boolean> {
+    const trashedRows = await this.query()
+      .where({ transfer_id: transferId })
+      .update({ deleted_at: new Date() });
+    return trashedRows > 0;
+  }
+
+  async findTrashedTransferLegs(transferId: string, deletedAt: Date): Promise<Transaction[]> {
+    return this.trashQuery()
+      .where({ transfer_id: transferId, deleted_at: deletedAt })
+      .select('*');
+  }
+
+  // Both legs went into the trash together, so they come back together
+  async restoreTransfer(transferId: string, deletedAt: Date): Promise<Transaction[]> {
+    return this.trashQuery()
+      .where({ transfer_id: transferId, deleted_at: deletedAt })
+      .update({ deleted_at: null, updated_at: new Date() })
+      .returning('*');
+  }
+
+  async findTrashedInWallets(walletIds: string[]): Promise<Transaction[]> {
+    if (walletIds.length === 0) {
+      return [];
+    }
+
+    return this.trashQuery()
+      .whereIn('wallet_id', walletIds)
+      .orderBy('deleted_at', 'desc')
+      .select('*');
+  }
+
+  async findIdsDeletedBefore(cutoff: Date): Promise<string[]> {
+    const rows = await this.trashQuery().where('deleted_at', '<', cutoff).select('id');
+    return rows.map((row: { id: string }) => row.id);
+  }
+
+  // Apply several updates in one database transaction, so either all of them are saved or none.
+  // Returns the updated rows.
+  async updateMany(updates: { id: string; data: Partial<Transaction> }[], outerTrx?: Knex.Transaction): Promise<Transaction[]> {
+    return (outerTrx || this.db).transaction(async (trx) => {
+      const updatedAt = new Date();
+      const updated: Transaction[] = [];
+
+      for (const update of updates) {
+        const rows = await trx(this.tableName)
+          .where({ id: update.id })
+          .update({ ...update.data, updated_at: updatedAt })
+          .returning('*');
+        updated.push(...rows);
+      }
+
+      return updated;
+    });
+  }
+
+  // One statement, so the rows go into the trash together with the same timestamp
+  async deleteMany(ids: string[], trx?: Knex.Transaction): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    return this.query(trx).whereIn('id', ids).update({ deleted_at: new Date() });
+  }
+
+  // The user's own transactions without a category; transfers never get one and splits are categorized per line.
+  // A transaction in a trashed category counts as uncategorized until the category is restored
+  async findUncategorized(userId: string, walletId?: string): Promise<Transaction[]> {
+    let query = this.query()
+      .leftJoin('categories', 'categories.id', `${this.tableName}.category_id`)
+      .where({ [`${this.tableName}.user_id`]: userId, [`${this.tableName}.is_split`]: false })
+      .whereNot({ [`${this.tableName}.type`]: 'Transfer' })
+      .where(function() {
+        this.whereNull('transactions_2_0.category_id').orWhereNotNull('categories.deleted_at');
+      });
+
+    if (walletId) {
+      query = query.where({ [`${this.tableName}.wallet_id`]: walletId });
+    }
+
+    return query.orderBy(`${this.tableName}.transaction_date`, 'desc').select(`${this.tableName}.*`);
+  }
+
+  /**
+   * Set the category of several transactions in one database transaction and
+   * return the updated rows. Transactions categorized in the meantime are left alone;
+   * ones whose category is in the trash count as uncategorized.
+   */
+  async assignCategories(assignments: { id: string; category_id: string }[], outerTrx?: Knex.Transaction): Promise<Transaction[]> {
+    return (outerTrx || this.db).transaction(async (trx) => {
+      const updatedAt = new Date();
+      const updated: Transaction[] = [];
+
+      for (const assignment of assignments) {
+        const rows = await trx(this.tableName)
+          .where({ id: assignment.id, is_split: false })
+          .where(function() {
+            this.whereNull('category_id')
+              .orWhereIn('category_id', trx('categories').whereNotNull('deleted_at').select('id'));
+          })
+          .update({ category_id: assignment.category_id, updated_at: updatedAt })
+          .returning('*');
+        updated.push(...rows);
+      }
+
+      return updated;
+    });
+  }
+
+  // The user's most recent categorized titles, used to train category suggestions
+  async findCategorizedTitles(
+    userId: string,
+    walletIds: string[],
+    limit: number = 2000
+  ): Promise<Pick<Transaction, 'title' | 'category_id' | 'type'>[]> {
+    if (walletIds.length === 0) {
+      return [];
+    }
+
+    return this.query()
+      .where({ user_id: userId })
+      .whereIn('wallet_id', walletIds)
+      .whereNotNull('category_id')
+      .whereNot({ type: 'Transfer' })
+      .orderBy('transaction_date', 'desc')
+      .limit(limit)
+      .select('title', 'category_id', 'type');
+  }
+
   async findByCategoryId(categoryId: string): Promise<Transaction[]> {
-    return this.db(this.tableName).where({ category_id: categoryId }).select('*');
+    return this.query().where({ category_id: categoryId }).select('*');
+  }
+
+  // Transfers in and out of the goal's wallet since the goal started, plus transactions tagged with the goal
+  async findSavingsGoalContributions(goalId: string, walletId: string, startDate: string): Promise<Transaction[]> {
+    return this.query()
+      .where((query) => {
+        query
+          .where({ savings_goal_id: goalId })
+          .orWhere((builder) => {
+            builder
+              .where({ wallet_id: walletId, type: 'Transfer' })
+              .where('transaction_date', '>=', startDate);
+          });
+      })
+      .orderBy('transaction_date', 'desc')
+      .orderBy('created_at', 'desc')
+      .select('*');
   }
 
   async findWithFilters(filters: TransactionFilters): Promise<Transaction[]> {
-    let query = this.db(this.tableName);
+    let query = this.query();
 
     if (filters.user_id) {
       query = query.where({ user_id: filters.user_id });
@@ -50,14 +353,25 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     }
 
     if (filters.start_date) {
-      query = query.where('created_at', '>=', filters.start_date);
+      query = query.where('transaction_date', '>=', filters.start_date);
     }
 
     if (filters.end_date) {
-      query = query.where('created_at', '<=', filters.end_date);
+      query = query.where('transaction_date', '<=', filters.end_date);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      query = this.whereHasAllTags(query, filters.tags);
     }
 
-    return query.orderBy('created_at', 'desc').select('*');
+    if (filters.search && !isEmptySearch(filters.search)) {
+      query = this.whereMatchesSearch(query, filters.search);
+    }
+
+    return query
+      .orderBy('transaction_date', 'desc')
+      .orderBy('created_at', 'desc')
+      .select('*');
   }
 
   async findWithPaginationAndFilters(
@@ -67,8 +381,8 @@ export class TransactionRepository extends BaseRepository<Transaction> {
   ): Promise<{ data: Transaction[]; total: number; page: number; limit: number }> {
     const offset = (page - 1) * limit;
     
-    let query = this.db(this.tableName);
-    let countQuery = this.db(this.tableName);
+    let query = this.query();
+    let countQuery = this.query();
     
     // Apply filters to both queries
     const applyFilters = (q: any) => {
@@ -76,8 +390,10 @@ export class TransactionRepository extends BaseRepository<Transaction> {
       if (filters.wallet_id) q = q.where({ wallet_id: filters.wallet_id });
       if (filters.category_id) q = q.where({ category_id: filters.category_id });
       if (filters.type) q = q.where({ type: filters.type });
-      if (filters.start_date) q = q.where('created_at', '>=', filters.start_date);
-      if (filters.end_date) q = q.where('created_at', '<=', filters.end_date);
+      if (filters.start_date) q = q.where('transaction_date', '>=', filters.start_date);
+      if (filters.end_date) q = q.where('transaction_date', '<=', filters.end_date);
+      if (filters.tags && filters.tags.length > 0) q = this.whereHasAllTags(q, filters.tags);
+      if (filters.search && !isEmptySearch(filters.search)) q = this.whereMatchesSearch(q, filters.search);
       return q;
     };
 
@@ -85,7 +401,12 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     countQuery = applyFilters(countQuery);
     
     const [data, totalResult] = await Promise.all([
-      query.select('*').orderBy('created_at', 'desc').limit(limit).offset(offset),
+      query
+        .select('*')
+        .orderBy('transaction_date', 'desc')
+        .orderBy('created_at', 'desc')
+        .limit(limit)
+        .offset(offset),
       countQuery.count('* as count').first()
     ]);
     
@@ -103,13 +424,13 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     const startDate = new Date(`${month}-01`);
     const endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0);
 
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({
         user_id: userId,
         wallet_id: walletId,
         type: type
       })
-      .whereBetween('created_at', [startDate, endDate])
+      .whereBetween('transaction_date', [startDate, endDate])
       .sum('amount as total')
       .first();
 
@@ -124,8 +445,8 @@ export class TransactionRepository extends BaseRepository<Transaction> {
   ): Promise<{ data: Transaction[]; total: number; page: number; limit: number }> {
     const offset = (page - 1) * limit;
     
-    let query = this.db(this.tableName);
-    let countQuery = this.db(this.tableName);
+    let query = this.query();
+    let countQuery = this.query();
     
     // Apply filters to both queries
     const applyFilters = (q: any) => {
@@ -134,8 +455,10 @@ export class TransactionRepository extends BaseRepository<Transaction> {
       else if (walletIds.length > 0) q = q.whereIn('wallet_id', walletIds);
       if (filters.category_id) q = q.where({ category_id: filters.category_id });
       if (filters.type) q = q.where({ type: filters.type });
-      if (filters.start_date) q = q.where('created_at', '>=', filters.start_date);
-      if (filters.end_date) q = q.where('created_at', '<=', filters.end_date);
+      if (filters.start_date) q = q.where('transaction_date', '>=', filters.start_date);
+      if (filters.end_date) q = q.where('transaction_date', '<=', filters.end_date);
+      if (filters.tags && filters.tags.length > 0) q = this.whereHasAllTags(q, filters.tags);
+      if (filters.search && !isEmptySearch(filters.search)) q = this.whereMatchesSearch(q, filters.search);
       return q;
     };
 
@@ -143,7 +466,12 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     countQuery = applyFilters(countQuery);
     
     const [data, totalResult] = await Promise.all([
-      query.select('*').orderBy('created_at', 'desc').limit(limit).offset(offset),
+      query
+        .select('*')
+        .orderBy('transaction_date', 'desc')
+        .orderBy('created_at', 'desc')
+        .limit(limit)
+        .offset(offset),
       countQuery.count('* as count').first()
     ]);
     
@@ -158,9 +486,9 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     endDate: Date,
     additionalFilters?: Partial<TransactionFilters>
   ): Promise<Transaction[]> {
-    let query = this.db(this.tableName)
+    let query = this.query()
       .where({ wallet_id: walletId })
-      .whereBetween('created_at', [startDate, endDate]);
+      .whereBetween('transaction_date', [startDate, endDate]);
 
     if (additionalFilters?.type) {
       query = query.where({ type: additionalFilters.type });
@@ -170,7 +498,10 @@ export class TransactionRepository extends BaseRepository<Transaction> {
       query = query.where({ category_id: additionalFilters.category_id });
     }
 
-    return query.orderBy('created_at', 'desc').select('*');
+    return query
+      .orderBy('transaction_date', 'desc')
+      .orderBy('created_at', 'desc')
+      .select('*');
   }
 
   async getSummaryByDateRange(
@@ -179,9 +510,9 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     endDate: Date,
     walletIds?: string[]
   ): Promise<{ income: number; expense: number }> {
-    let query = this.db(this.tableName)
+    let query = this.query()
       .where({ user_id: userId })
-      .whereBetween('created_at', [startDate, endDate]);
+      .whereBetween('transaction_date', [startDate, endDate]);
 
     if (walletIds && walletIds.length > 0) {
       query = query.whereIn('wallet_id', walletIds);
@@ -205,7 +536,7 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     filters: TransactionFilters,
     walletIds: string[]
   ): Promise<{ income: number; expense: number }> {
-    let query = this.db(this.tableName);
+    let query = this.query();
 
     if (filters.user_id) {
       query = query.where({ user_id: filters.user_id });
@@ -226,11 +557,19 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     }
 
     if (filters.start_date) {
-      query = query.where('created_at', '>=', filters.start_date);
+      query = query.where('transaction_date', '>=', filters.start_date);
     }
 
     if (filters.end_date) {
-      query = query.where('created_at', '<=', filters.end_date);
+      query = query.where('transaction_date', '<=', filters.end_date);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      query = this.whereHasAllTags(query, filters.tags);
+    }
+
+    if (filters.search && !isEmptySearch(filters.search)) {
+      query = this.whereMatchesSearch(query, filters.search);
     }
 
     const results = await query
@@ -251,7 +590,7 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     filters: TransactionFilters,
     walletIds: string[]
   ): Promise<Transaction[]> {
-    let query = this.db(this.tableName);
+    let query = this.query();
 
     if (filters.user_id) {
       query = query.where({ user_id: filters.user_id });
@@ -272,19 +611,73 @@ export class TransactionRepository extends BaseRepository<Transaction> {
     }
 
     if (filters.start_date) {
-      query = query.where('created_at', '>=', filters.start_date);
+      query = query.where('transaction_date', '>=', filters.start_date);
     }
 
     if (filters.end_date) {
-      query = query.where('created_at', '<=', filters.end_date);
+      query = query.where('transaction_date', '<=', filters.end_date);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      query = this.whereHasAllTags(query, filters.tags);
+    }
+
+    if (filters.search && !isEmptySearch(filters.search)) {
+      query = this.whereMatchesSearch(query, filters.search);
+    }
+
+    return query
+      .orderBy('transaction_date', 'desc')
+      .orderBy('created_at', 'desc')
+      .select('*');
+  }
+
+  // Keep transactions that carry every one of the given tag names
+  private whereHasAllTags(query: Knex.QueryBuilder, tags: string[]): Knex.QueryBuilder {
+    return query.whereIn(`${this.tableName}.id`, this.db('transaction_tags')
+      .join('tags', 'tags.id', 'transaction_tags.tag_id')
+      .whereIn('tags.name', tags)
+      .groupBy('transaction_tags.transaction_id')
+      .havingRaw('count(distinct tags.name) = ?', [tags.length])
+      .select('transaction_tags.transaction_id'));
+  }
+
+  /**
+   * Keep transactions where every search word appears in the title, the notes,
+   * the name of the category (or of a split line's category), the wallet name
+   * or a tag name, and the amount satisfies every amount expression.
+   */
+  private whereMatchesSearch(query: Knex.QueryBuilder, search: TransactionSearch): Knex.QueryBuilder {
+    for (const term of search.terms) {
+      const pattern = toLikePattern(term);
+      query = query.where((builder: Knex.QueryBuilder) => {
+        builder
+          .where(`${this.tableName}.title`, 'ilike', pattern)
+          .orWhere(`${this.tableName}.notes`, 'ilike', pattern)
+          .orWhereIn(`${this.tableName}.category_id`, this.db('categories').whereNull('deleted_at').where('name', 'ilike', pattern).select('id'))
+          .orWhereIn(`${this.tableName}.wallet_id`, this.db('wallets').whereNull('deleted_at').where('name', 'ilike', pattern).select('id'))
+          .orWhereIn(`${this.tableName}.id`, this.db('transaction_splits')
+            .join('categories', 'categories.id', 'transaction_splits.category_id')
+            .whereNull('categories.deleted_at')
+            .where('categories.name', 'ilike', pattern)
+            .select('transaction_splits.transaction_id'))
+          .orWhereIn(`${this.tableName}.id`, this.db('transaction_tags')
+            .join('tags', 'tags.id', 'transaction_tags.tag_id')
+            .where('tags.name', 'ilike', pattern)
+            .select('transaction_tags.transaction_id'));
+      });
+    }
+
+    for (const condition of search.amounts) {
+      query = query.where(`${this.tableName}.amount`, condition.operator, condition.amount);
     }
 
-    return query.orderBy('created_at', 'desc').select('*');
+    return query;
   }
 
   // Enhanced security methods for data isolation
   async findByIdWithOwnershipValidation(id: string, userId: string): Promise<Transaction | null> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id, user_id: userId })
       .first();
     return result || null;
@@ -295,7 +688,7 @@ export class TransactionRepository extends BaseRepository<Transaction> {
       return null;
     }
 
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id })
       .whereIn('wallet_id', accessibleWalletIds)
       .first();
@@ -303,7 +696,7 @@ export class TransactionRepository extends BaseRepository<Transaction> {
   }
 
   async updateWithOwnershipValidation(id: string, userId: string, data: Partial<Transaction>): Promise<Transaction | null> {
-    const [result] = await this.db(this.tableName)
+    const [result] = await this.query()
       .where({ id, user_id: userId })
       .update({ ...data, updated_at: new Date() })
       .returning('*');
@@ -311,10 +704,10 @@ export class TransactionRepository extends BaseRepository<Transaction> {
   }
 
   async deleteWithOwnershipValidation(id: string, userId: string): Promise<boolean> {
-    const deletedRows = await this.db(this.tableName)
+    const trashedRows = await this.query()
       .where({ id, user_id: userId })
-      .del();
-    return deletedRows > 0;
+      .update({ deleted_at: new Date() });
+    return trashedRows > 0;
   }
 
   async countByUserAndWallets(userId: string, walletIds: string[]): Promise<number> {
@@ -322,7 +715,7 @@ export class TransactionRepository extends BaseRepository<Transaction> {
       return 0;
     }
 
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ user_id: userId })
       .whereIn('wallet_id', walletIds)
       .count('* as count')
@@ -0,0 +1,26 @@
+import { BaseRepository } from './BaseRepository';
+import { TransactionSplit } from '../types';
+
+export class TransactionSplitRepository extends BaseRepository<TransactionSplit> {
+  constructor() {
+    super('transaction_splits');
+  }
+
+  async findByTransactionId(transactionId: string): Promise<TransactionSplit[]> {
+    return this.db(this.tableName)
+      .where({ transaction_id: transactionId })
+      .orderBy('position', 'asc')
+      .select('*');
+  }
+
+  async findByTransactionIds(transactionIds: string[]): Promise<TransactionSplit[]> {
+    if (transactionIds.length === 0) {
+      return [];
+    }
+
+    return this.db(this.tableName)
+      .whereIn('transaction_id', transactionIds)
+      .orderBy('position', 'asc')
+      .select('*');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { BaseRepository } from './BaseRepository';
+import { UserRecoveryCode } from '../types';
+
+export class UserRecoveryCodeRepository extends BaseRepository<UserRecoveryCode> {
+  constructor() {
+    super('user_recovery_codes');
+  }
+
+  // Replace every code of the user with a new set
+  async replaceForUser(userId: string, codeHashes: string[]): Promise<void> {
+    await this.db.transaction(async (trx) => {
+      await trx(this.tableName).where({ user_id: userId }).delete();
+      await trx(this.tableName).insert(codeHashes.map(codeHash => ({ user_id: userId, code_hash: codeHash })));
+    });
+  }
+
+  async deleteForUser(userId: string): Promise<void> {
+    await this.db(this.tableName).where({ user_id: userId }).delete();
+  }
+
+  // Mark an unused code as used; the check and the update are one statement
+  async consume(userId: string, codeHash: string): Promise<boolean> {
+    const now = new Date();
+    const updated = await this.db(this.tableName)
+      .where({ user_id: userId, code_hash: codeHash })
+      .whereNull('used_at')
+      .update({ used_at: now, updated_at: now });
+    return updated > 0;
+  }
+
+  async countUnused(userId: string): Promise<number> {
+    return this.count({ user_id: userId, used_at: null });
+  }
+}
\ No newline at end of file
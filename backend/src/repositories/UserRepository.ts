@@ -28,6 +28,18 @@ export class UserRepository extends BaseRepository<User> {
     return this.update(userId, { wallet_limit: walletLimit });
   }
 
+  /**
+   * Record the period of an accepted two-factor code. Fails when that code or
+   * a later one was already used, so a code cannot be replayed.
+   */
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const updated = await this.db(this.tableName)
+      .where({ id: userId })
+      .where(builder => builder.whereNull('two_factor_last_step').orWhere('two_factor_last_step', '<', step))
+      .update({ two_factor_last_step: step });
+    return updated > 0;
+  }
+
   async findAdmins(): Promise<User[]> {
     return this.db(this.tableName).where({ role: 'admin' }).select('*');
   }
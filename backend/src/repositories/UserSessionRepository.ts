@@ -0,0 +1,47 @@
+import { BaseRepository } from './BaseRepository';
+import { UserSession } from '../types';
+
+export class UserSessionRepository extends BaseRepository<UserSession> {
+  constructor() {
+    super('user_sessions');
+  }
+
+  // Sessions that can still be refreshed, most recently used first
+  async findActiveByUserId(userId: string): Promise<UserSession[]> {
+    return this.db(this.tableName)
+      .where({ user_id: userId })
+      .whereNull('revoked_at')
+      .where('expires_at', '>', new Date())
+      .orderBy('last_seen_at', 'desc')
+      .select('*');
+  }
+
+  async revoke(id: string): Promise<void> {
+    const now = new Date();
+    await this.db(this.tableName)
+      .where({ id })
+      .whereNull('revoked_at')
+      .update({ revoked_at: now, updated_at: now });
+  }
+
+  // Revoke every session of the user and return their ids, optionally keeping one
+  async revokeAllForUser(userId: string, exceptId?: string): Promise<string[]> {
+    const now = new Date();
+    let query = this.db(this.tableName)
+      .where({ user_id: userId })
+      .whereNull('revoked_at');
+
+    if (exceptId) {
+      query = query.whereNot({ id: exceptId });
+    }
+
+    const rows: { id: string }[] = await query
+      .update({ revoked_at: now, updated_at: now })
+      .returning('id');
+    return rows.map(row => row.id);
+  }
+
+  async deleteExpiredBefore(date: Date): Promise<number> {
+    return this.db(this.tableName).where('expires_at', '<', date).delete();
+  }
+}
\ No newline at end of file
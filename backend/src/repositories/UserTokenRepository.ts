@@ -0,0 +1,32 @@
+import { BaseRepository } from './BaseRepository';
+import { UserToken, UserTokenPurpose } from '../types';
+
+export class UserTokenRepository extends BaseRepository<UserToken> {
+  constructor() {
+    super('user_tokens');
+  }
+
+  /**
+   * Mark an unused, unexpired token as used and return it. The check and
+   * the update are one statement, so a token can only ever be used once.
+   */
+  async consume(purpose: UserTokenPurpose, tokenHash: string): Promise<UserToken | null> {
+    const now = new Date();
+    const [result] = await this.db(this.tableName)
+      .where({ purpose, token_hash: tokenHash })
+      .whereNull('used_at')
+      .where('expires_at', '>', now)
+      .update({ used_at: now, updated_at: now })
+      .returning('*');
+    return result || null;
+  }
+
+  // Sending a new link makes the older ones stop working
+  async invalidateForUser(userId: string, purpose: UserTokenPurpose): Promise<void> {
+    const now = new Date();
+    await this.db(this.tableName)
+      .where({ user_id: userId, purpose })
+      .whereNull('used_at')
+      .update({ used_at: now, updated_at: now });
+  }
+}
\ No newline at end of file
@@ -1,17 +1,20 @@
 import { BaseRepository } from './BaseRepository';
 import { Wallet } from '../types';
 
+// Rows recorded in a wallet, which go into the trash and come back with it
+const WALLET_CONTENT_TABLES = ['transactions_2_0', 'budgets', 'reminders', 'categories'];
+
 export class WalletRepository extends BaseRepository<Wallet> {
   constructor() {
-    super('wallets');
+    super('wallets', true);
   }
 
   async findByUserId(userId: string): Promise<Wallet[]> {
-    return this.db(this.tableName).where({ user_id: userId }).select('*');
+    return this.query().where({ user_id: userId }).select('*');
   }
 
   async findDefaultWallet(userId: string): Promise<Wallet | null> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ user_id: userId, is_default: true })
       .first();
     return result || null;
@@ -33,7 +36,7 @@ export class WalletRepository extends BaseRepository<Wallet> {
   }
 
   async countUserWallets(userId: string): Promise<number> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ user_id: userId })
       .count('* as count')
       .first();
@@ -41,27 +44,35 @@ export class WalletRepository extends BaseRepository<Wallet> {
   }
 
   async findFamilyWallets(userId: string): Promise<Wallet[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ user_id: userId, is_family: true })
       .select('*');
   }
 
+  async findByIds(walletIds: string[]): Promise<Wallet[]> {
+    if (walletIds.length === 0) return [];
+
+    return this.query()
+      .whereIn('id', walletIds)
+      .select('*');
+  }
+
   async findPersonalWallets(userId: string): Promise<Wallet[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where({ user_id: userId, is_family: false })
       .select('*');
   }
 
   // Enhanced security methods for data isolation
   async findByIdWithOwnershipValidation(id: string, userId: string): Promise<Wallet | null> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id, user_id: userId })
       .first();
     return result || null;
   }
 
   async findByIdWithAccess(id: string, userId: string, familyWalletIds: string[]): Promise<Wallet | null> {
-    const result = await this.db(this.tableName)
+    const result = await this.query()
       .where({ id })
       .where(function() {
         this.where({ user_id: userId })
@@ -78,7 +89,7 @@ export class WalletRepository extends BaseRepository<Wallet> {
   }
 
   async updateWithOwnershipValidation(id: string, userId: string, data: Partial<Wallet>): Promise<Wallet | null> {
-    const [result] = await this.db(this.tableName)
+    const [result] = await this.query()
       .where({ id, user_id: userId })
       .update({ ...data, updated_at: new Date() })
       .returning('*');
@@ -86,14 +97,69 @@ export class WalletRepository extends BaseRepository<Wallet> {
   }
 
   async deleteWithOwnershipValidation(id: string, userId: string): Promise<boolean> {
-    const deletedRows = await this.db(this.tableName)
+    const trashedRows = await this.query()
       .where({ id, user_id: userId })
-      .del();
-    return deletedRows > 0;
+      .update({ deleted_at: new Date() });
+    return trashedRows > 0;
+  }
+
+  /**
+   * Move a wallet to the trash with everything recorded in it. All rows get
+   * the same timestamp, which is how restoring the wallet finds them again.
+   */
+  async trashWithContents(walletId: string): Promise<boolean> {
+    return this.db.transaction(async (trx) => {
+      const deletedAt = new Date();
+
+      for (const table of WALLET_CONTENT_TABLES) {
+        await trx(table)
+          .where({ wallet_id: walletId })
+          .whereNull('deleted_at')
+          .update({ deleted_at: deletedAt });
+      }
+
+      const trashedRows = await trx(this.tableName)
+        .where({ id: walletId })
+        .whereNull('deleted_at')
+        .update({ deleted_at: deletedAt });
+      return trashedRows > 0;
+    });
+  }
+
+  // Rows trashed on their own before the wallet stay in the trash
+  async restoreWithContents(walletId: string): Promise<Wallet | null> {
+    return this.db.transaction(async (trx) => {
+      const wallet = await trx(this.tableName)
+        .where({ id: walletId })
+        .whereNotNull('deleted_at')
+        .first();
+      if (!wallet) {
+        return null;
+      }
+
+      for (const table of WALLET_CONTENT_TABLES) {
+        await trx(table)
+          .where({ wallet_id: walletId, deleted_at: wallet.deleted_at })
+          .update({ deleted_at: null });
+      }
+
+      const [restored] = await trx(this.tableName)
+        .where({ id: walletId })
+        .update({ deleted_at: null, updated_at: new Date() })
+        .returning('*');
+      return restored || null;
+    });
+  }
+
+  async findTrashedByUserId(userId: string): Promise<Wallet[]> {
+    return this.trashQuery()
+      .where({ user_id: userId })
+      .orderBy('deleted_at', 'desc')
+      .select('*');
   }
 
   async findUserAccessibleWallets(userId: string, familyWalletIds: string[]): Promise<Wallet[]> {
-    return this.db(this.tableName)
+    return this.query()
       .where(function() {
         this.where({ user_id: userId })
           .orWhere(function() {
@@ -7,6 +7,17 @@ export { BudgetRepository } from './BudgetRepository';
 export { ReminderRepository } from './ReminderRepository';
 export { FamilyWalletMemberRepository } from './FamilyWalletMemberRepository';
 export { InvitationRepository } from './InvitationRepository';
+export { RecurringTransactionRepository } from './RecurringTransactionRepository';
+export { ReminderSettlementRepository } from './ReminderSettlementRepository';
+export { CategoryRuleRepository } from './CategoryRuleRepository';
+export { TransactionSplitRepository } from './TransactionSplitRepository';
+export { ExchangeRateRepository } from './ExchangeRateRepository';
+export { SavingsGoalRepository } from './SavingsGoalRepository';
+export { LoanRepository } from './LoanRepository';
+export { LoanPaymentRepository } from './LoanPaymentRepository';
+export { TagRepository } from './TagRepository';
+export { SavedSearchRepository } from './SavedSearchRepository';
+export { TransactionAttachmentRepository } from './TransactionAttachmentRepository';
 
 // Import classes for instances
 import { UserRepository } from './UserRepository';
@@ -17,6 +28,17 @@ import { BudgetRepository } from './BudgetRepository';
 import { ReminderRepository } from './ReminderRepository';
 import { FamilyWalletMemberRepository } from './FamilyWalletMemberRepository';
 import { InvitationRepository } from './InvitationRepository';
+import { RecurringTransactionRepository } from './RecurringTransactionRepository';
+import { ReminderSettlementRepository } from './ReminderSettlementRepository';
+import { CategoryRuleRepository } from './CategoryRuleRepository';
+import { TransactionSplitRepository } from './TransactionSplitRepository';
+import { ExchangeRateRepository } from './ExchangeRateRepository';
+import { SavingsGoalRepository } from './SavingsGoalRepository';
+import { LoanRepository } from './LoanRepository';
+import { LoanPaymentRepository } from './LoanPaymentRepository';
+import { TagRepository } from './TagRepository';
+import { SavedSearchRepository } from './SavedSearchRepository';
+import { TransactionAttachmentRepository } from './TransactionAttachmentRepository';
 
 // Repository instances for easy import
 export const userRepository = new UserRepository();
@@ -26,4 +48,15 @@ export const transactionRepository = new TransactionRepository();
 export const budgetRepository = new BudgetRepository();
 export const reminderRepository = new ReminderRepository();
 export const familyWalletMemberRepository = new FamilyWalletMemberRepository();
-export const invitationRepository = new InvitationRepository();
\ No newline at end of file
+export const invitationRepository = new InvitationRepository();
+export const recurringTransactionRepository = new RecurringTransactionRepository();
+export const reminderSettlementRepository = new ReminderSettlementRepository();
+export const categoryRuleRepository = new CategoryRuleRepository();
+export const transactionSplitRepository = new TransactionSplitRepository();
+export const exchangeRateRepository = new ExchangeRateRepository();
+export const savingsGoalRepository = new SavingsGoalRepository();
+export const loanRepository = new LoanRepository();
+export const loanPaymentRepository = new LoanPaymentRepository();
+export const tagRepository = new TagRepository();
+export const savedSearchRepository = new SavedSearchRepository();
+export const transactionAttachmentRepository = new TransactionAttachmentRepository();
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/UserController';
 import { MigrationController } from '../controllers/MigrationController';
+import { AuditLogController } from '../controllers/AuditLogController';
+import { SettingsController } from '../controllers/SettingsController';
 import { 
   authenticate, 
   validateAdminAccess, 
@@ -11,6 +13,8 @@ import { adminRateLimit } from '../middleware/rateLimitMiddleware';
 const router = Router();
 const userController = new UserController();
 const migrationController = new MigrationController();
+const auditLogController = new AuditLogController();
+const settingsController = new SettingsController();
 
 // Apply rate limiting, authentication and enhanced admin authorization to all admin routes
 router.use(adminRateLimit.limit);
@@ -21,13 +25,20 @@ router.use(validateAdminAccess);
 router.get('/users', userController.getAllUsers);
 router.get('/users/:id', userController.getUserById);
 router.post('/users', userController.createUser);
+router.get('/users/:id/audit-log', auditLogController.getUserAuditLog);
 
 // Routes that modify user data with additional protection
 router.put('/users/:id', preventSelfAdminModification, userController.updateUser);
 router.put('/users/:id/password', userController.resetPassword);
+router.post('/users/:id/logout', userController.forceLogout);
+router.post('/users/:id/unlock', userController.unlockUser);
 router.put('/users/:id/wallet-limit', userController.updateWalletLimit);
 router.delete('/users/:id', userController.deleteUser);
 
+// Settings routes
+router.get('/settings/security', settingsController.getSecuritySettings);
+router.put('/settings/security', settingsController.updateSecuritySettings);
+
 // Migration routes
 router.post('/migrate', migrationController.migrateLegacyData);
 router.post('/migrate/from-old-table', migrationController.migrateFromOldTable);
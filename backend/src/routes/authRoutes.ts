@@ -1,9 +1,14 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/AuthController';
+import { SessionController } from '../controllers/SessionController';
+import { TwoFactorController } from '../controllers/TwoFactorController';
 import { authenticate } from '../middleware/authMiddleware';
+import { emailLinkRateLimit, twoFactorRateLimit } from '../middleware/rateLimitMiddleware';
 
 const router = Router();
 const authController = new AuthController();
+const sessionController = new SessionController();
+const twoFactorController = new TwoFactorController();
 
 // POST /api/auth/register - Register a new user
 router.post('/register', authController.register);
@@ -11,9 +16,39 @@ router.post('/register', authController.register);
 // POST /api/auth/login - Login user
 router.post('/login', authController.login);
 
-// POST /api/auth/refresh - Refresh JWT token
+// POST /api/auth/login/2fa - Finish a login with a two-factor code
+router.post('/login/2fa', twoFactorRateLimit.limit, authController.loginTwoFactor);
+
+// POST /api/auth/refresh - Trade a refresh token for new tokens
 router.post('/refresh', authController.refresh);
 
+// POST /api/auth/logout - End the current session
+router.post('/logout', authController.logout);
+
+// POST /api/auth/logout-all - End every session of the current user
+router.post('/logout-all', authenticate, authController.logoutAll);
+
+// GET /api/auth/sessions - List the current user's active sessions
+router.get('/sessions', authenticate, sessionController.getSessions);
+
+// DELETE /api/auth/sessions/:id - Log out one session
+router.delete('/sessions/:id', authenticate, sessionController.revokeSession);
+
+// GET /api/auth/2fa - Get the two-factor status
+router.get('/2fa', authenticate, twoFactorController.getStatus);
+
+// POST /api/auth/2fa/setup - Start enrolling an authenticator app
+router.post('/2fa/setup', authenticate, twoFactorController.setup);
+
+// POST /api/auth/2fa/enable - Confirm the app and turn two-factor on
+router.post('/2fa/enable', authenticate, twoFactorRateLimit.limit, twoFactorController.enable);
+
+// POST /api/auth/2fa/disable - Turn two-factor off
+router.post('/2fa/disable', authenticate, twoFactorRateLimit.limit, twoFactorController.disable);
+
+// POST /api/auth/2fa/recovery-codes - Replace the recovery codes
+router.post('/2fa/recovery-codes', authenticate, twoFactorRateLimit.limit, twoFactorController.regenerateRecoveryCodes);
+
 // GET /api/auth/me - Get current user
 router.get('/me', authenticate, authController.me);
 
@@ -23,4 +58,16 @@ router.put('/profile', authenticate, authController.updateProfile);
 // PUT /api/auth/change-password - Change user password
 router.put('/change-password', authenticate, authController.changePassword);
 
+// POST /api/auth/forgot-password - Email a password reset link
+router.post('/forgot-password', emailLinkRateLimit.limit, authController.forgotPassword);
+
+// POST /api/auth/reset-password - Reset password using the emailed link
+router.post('/reset-password', emailLinkRateLimit.limit, authController.resetPassword);
+
+// POST /api/auth/verify-email - Verify email using the emailed link
+router.post('/verify-email', emailLinkRateLimit.limit, authController.verifyEmail);
+
+// POST /api/auth/resend-verification - Send a new verification email
+router.post('/resend-verification', authenticate, emailLinkRateLimit.limit, authController.resendVerification);
+
 export default router;
@@ -15,6 +15,9 @@ router.get('/', categoryController.getUserCategories);
 // GET /api/categories/uncategorized/transactions - Get uncategorized transactions (must be before /:id route)
 router.get('/uncategorized/transactions', categoryController.getUncategorizedTransactions);
 
+// GET /api/categories/suggestions - Suggest categories for a title from the user's history (must be before /:id route)
+router.get('/suggestions', categoryController.getCategorySuggestions);
+
 // GET /api/categories/:id - Get specific category
 router.get('/:id', validateCategoryAccess(), categoryController.getCategoryById);
 
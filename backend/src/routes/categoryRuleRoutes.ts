@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { CategoryRuleController } from '../controllers/CategoryRuleController';
+import { authenticate } from '../middleware/authMiddleware';
+import { generalRateLimit } from '../middleware/rateLimitMiddleware';
+
+const router = Router();
+const categoryRuleController = new CategoryRuleController();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// Apply rate limiting
+router.use(generalRateLimit.limit);
+
+// GET /api/category-rules - Get user's category rules
+router.get('/', categoryRuleController.getUserRules);
+
+// POST /api/category-rules/apply/preview - Preview rules over uncategorized transactions (must be before /:id routes)
+router.post('/apply/preview', categoryRuleController.previewApply);
+
+// POST /api/category-rules/apply - Run rules over uncategorized transactions
+router.post('/apply', categoryRuleController.applyRules);
+
+// GET /api/category-rules/:id - Get specific rule
+router.get('/:id', categoryRuleController.getRuleById);
+
+// POST /api/category-rules - Create new rule
+router.post('/', categoryRuleController.createRule);
+
+// PUT /api/category-rules/:id - Update rule
+router.put('/:id', categoryRuleController.updateRule);
+
+// DELETE /api/category-rules/:id - Delete rule
+router.delete('/:id', categoryRuleController.deleteRule);
+
+export default router;
\ No newline at end of file
@@ -18,9 +18,15 @@ router.get('/reports/transactions', validateUserDataAccess(), (req, res) => dash
 // GET /api/dashboard/reports/category-breakdown - Get category breakdown report
 router.get('/reports/category-breakdown', validateUserDataAccess(), (req, res) => dashboardController.getCategoryBreakdown(req, res));
 
+// GET /api/dashboard/reports/tag-breakdown - Get tag breakdown report
+router.get('/reports/tag-breakdown', validateUserDataAccess(), (req, res) => dashboardController.getTagBreakdown(req, res));
+
 // GET /api/dashboard/reports/trends - Get spending trends report
 router.get('/reports/trends', validateUserDataAccess(), (req, res) => dashboardController.getTrends(req, res));
 
+// GET /api/dashboard/forecast - Get projected wallet balances for the coming days
+router.get('/forecast', validateUserDataAccess(), (req, res) => dashboardController.getForecast(req, res));
+
 // POST /api/dashboard/export/transactions - Export transactions to CSV or PDF
 router.post('/export/transactions', validateUserDataAccess(), (req, res) => dashboardController.exportTransactions(req, res));
 
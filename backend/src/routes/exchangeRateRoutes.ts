@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { ExchangeRateController } from '../controllers/ExchangeRateController';
+import { authenticate } from '../middleware/authMiddleware';
+import { generalRateLimit } from '../middleware/rateLimitMiddleware';
+
+const router = Router();
+const exchangeRateController = new ExchangeRateController();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// Apply rate limiting
+router.use(generalRateLimit.limit);
+
+// GET /api/exchange-rates - Get user's exchange rates
+router.get('/', exchangeRateController.getUserRates);
+
+// POST /api/exchange-rates/import/preview - Parse an uploaded rate file without saving it
+router.post('/import/preview', exchangeRateController.previewImport);
+
+// POST /api/exchange-rates/import - Import an uploaded rate file
+router.post('/import', exchangeRateController.importRates);
+
+// POST /api/exchange-rates - Add or replace a rate
+router.post('/', exchangeRateController.createRate);
+
+// DELETE /api/exchange-rates/:id - Delete a rate
+router.delete('/:id', exchangeRateController.deleteRate);
+
+export default router;
\ No newline at end of file
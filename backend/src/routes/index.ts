@@ -6,7 +6,15 @@ import categoryRoutes from './categoryRoutes';
 import transactionRoutes from './transactionRoutes';
 import budgetRoutes from './budgetRoutes';
 import reminderRoutes from './reminderRoutes';
+import recurringTransactionRoutes from './recurringTransactionRoutes';
+import categoryRuleRoutes from './categoryRuleRoutes';
 import dashboardRoutes from './dashboardRoutes';
+import exchangeRateRoutes from './exchangeRateRoutes';
+import savingsGoalRoutes from './savingsGoalRoutes';
+import loanRoutes from './loanRoutes';
+import tagRoutes from './tagRoutes';
+import savedSearchRoutes from './savedSearchRoutes';
+import trashRoutes from './trashRoutes';
 import { familyWalletRoutes } from './familyWalletRoutes';
 
 const router = Router();
@@ -32,9 +40,33 @@ router.use('/budgets', budgetRoutes);
 // Mount reminder routes
 router.use('/reminders', reminderRoutes);
 
+// Mount recurring transaction routes
+router.use('/recurring-transactions', recurringTransactionRoutes);
+
+// Mount category rule routes
+router.use('/category-rules', categoryRuleRoutes);
+
 // Mount dashboard routes
 router.use('/dashboard', dashboardRoutes);
 
+// Mount exchange rate routes
+router.use('/exchange-rates', exchangeRateRoutes);
+
+// Mount savings goal routes
+router.use('/savings-goals', savingsGoalRoutes);
+
+// Mount loan routes
+router.use('/loans', loanRoutes);
+
+// Mount tag routes
+router.use('/tags', tagRoutes);
+
+// Mount saved search routes
+router.use('/saved-searches', savedSearchRoutes);
+
+// Mount trash routes
+router.use('/trash', trashRoutes);
+
 // Mount family wallet routes
 router.use('/family-wallets', familyWalletRoutes);
 
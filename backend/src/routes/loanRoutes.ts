@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { LoanController } from '../controllers/LoanController';
+import { authenticate } from '../middleware/authMiddleware';
+import { generalRateLimit } from '../middleware/rateLimitMiddleware';
+
+const router = Router();
+const loanController = new LoanController();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// Apply rate limiting
+router.use(generalRateLimit.limit);
+
+// GET /api/loans - Get user's loans with their balances
+router.get('/', loanController.getUserLoans);
+
+// GET /api/loans/:id - Get a loan with its balance and payoff date
+router.get('/:id', loanController.getLoanById);
+
+// GET /api/loans/:id/schedule - Get the loan's amortization schedule
+router.get('/:id/schedule', loanController.getSchedule);
+
+// GET /api/loans/:id/simulate - Compare paying off the balance with and without extra payments
+router.get('/:id/simulate', loanController.simulateExtraPayments);
+
+// POST /api/loans - Create new loan
+router.post('/', loanController.createLoan);
+
+// PUT /api/loans/:id - Update loan
+router.put('/:id', loanController.updateLoan);
+
+// DELETE /api/loans/:id - Delete loan
+router.delete('/:id', loanController.deleteLoan);
+
+// GET /api/loans/:id/payments - Get payments with their principal and interest portions
+router.get('/:id/payments', loanController.getPayments);
+
+// POST /api/loans/:id/payments - Record a payment or link an existing expense
+router.post('/:id/payments', loanController.addPayment);
+
+// DELETE /api/loans/:id/payments/:paymentId - Unlink a payment, keeping its transaction
+router.delete('/:id/payments/:paymentId', loanController.removePayment);
+
+export default router;
\ No newline at end of file
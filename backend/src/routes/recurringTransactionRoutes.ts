@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { RecurringTransactionController } from '../controllers/RecurringTransactionController';
+import { authenticate } from '../middleware/authMiddleware';
+import { generalRateLimit } from '../middleware/rateLimitMiddleware';
+
+const router = Router();
+const recurringTransactionController = new RecurringTransactionController();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// Apply rate limiting
+router.use(generalRateLimit.limit);
+
+// GET /api/recurring-transactions - Get user's recurring transaction rules
+router.get('/', recurringTransactionController.getUserRecurringTransactions);
+
+// GET /api/recurring-transactions/:id - Get specific rule
+router.get('/:id', recurringTransactionController.getRecurringTransactionById);
+
+// GET /api/recurring-transactions/:id/transactions - Get transactions posted by a rule
+router.get('/:id/transactions', recurringTransactionController.getGeneratedTransactions);
+
+// POST /api/recurring-transactions - Create new rule
+router.post('/', recurringTransactionController.createRecurringTransaction);
+
+// PUT /api/recurring-transactions/:id - Update rule
+router.put('/:id', recurringTransactionController.updateRecurringTransaction);
+
+// DELETE /api/recurring-transactions/:id - Delete rule
+router.delete('/:id', recurringTransactionController.deleteRecurringTransaction);
+
+export default router;
\ No newline at end of file
@@ -21,12 +21,21 @@ router.get('/schedule', reminderController.getRemindersSchedule);
 // GET /api/reminders/due - Get reminders that are due today or on a specific date
 router.get('/due', reminderController.getDueReminders);
 
+// GET /api/reminders/settlements - Get paid and skipped occurrences
+router.get('/settlements', reminderController.getSettlements);
+
 // GET /api/reminders/:id - Get specific reminder
 router.get('/:id', validateReminderAccess(), reminderController.getReminderById);
 
 // GET /api/reminders/:id/occurrences - Get upcoming occurrences for a reminder
 router.get('/:id/occurrences', validateReminderAccess(), reminderController.getReminderOccurrences);
 
+// POST /api/reminders/:id/occurrences/:date/settle - Mark an occurrence paid and record its transaction
+router.post('/:id/occurrences/:date/settle', validateReminderAccess(), reminderController.settleOccurrence);
+
+// POST /api/reminders/:id/occurrences/:date/skip - Skip an occurrence
+router.post('/:id/occurrences/:date/skip', validateReminderAccess(), reminderController.skipOccurrence);
+
 // POST /api/reminders - Create new reminder
 router.post('/', reminderController.createReminder);
 
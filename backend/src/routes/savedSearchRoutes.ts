@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { SavedSearchController } from '../controllers/SavedSearchController';
+import { authenticate } from '../middleware/authMiddleware';
+import { generalRateLimit } from '../middleware/rateLimitMiddleware';
+
+const router = Router();
+const savedSearchController = new SavedSearchController();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// Apply rate limiting
+router.use(generalRateLimit.limit);
+
+// GET /api/saved-searches - Get user's saved searches
+router.get('/', savedSearchController.getUserSearches);
+
+// POST /api/saved-searches - Save a search
+router.post('/', savedSearchController.createSearch);
+
+// PUT /api/saved-searches/:id - Update saved search
+router.put('/:id', savedSearchController.updateSearch);
+
+// DELETE /api/saved-searches/:id - Delete saved search
+router.delete('/:id', savedSearchController.deleteSearch);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { SavingsGoalController } from '../controllers/SavingsGoalController';
+import { authenticate } from '../middleware/authMiddleware';
+import { generalRateLimit } from '../middleware/rateLimitMiddleware';
+
+const router = Router();
+const savingsGoalController = new SavingsGoalController();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// Apply rate limiting
+router.use(generalRateLimit.limit);
+
+// GET /api/savings-goals - Get user's goals with their progress
+router.get('/', savingsGoalController.getUserGoals);
+
+// GET /api/savings-goals/:id - Get a goal with its progress
+router.get('/:id', savingsGoalController.getGoalById);
+
+// GET /api/savings-goals/:id/contributions - Get the transactions counted towards a goal
+router.get('/:id/contributions', savingsGoalController.getGoalContributions);
+
+// POST /api/savings-goals - Create new goal
+router.post('/', savingsGoalController.createGoal);
+
+// PUT /api/savings-goals/:id - Update goal
+router.put('/:id', savingsGoalController.updateGoal);
+
+// DELETE /api/savings-goals/:id - Delete goal
+router.delete('/:id', savingsGoalController.deleteGoal);
+
+export default router;
\ No newline at end of file
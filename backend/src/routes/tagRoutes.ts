@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { TagController } from '../controllers/TagController';
+import { authenticate } from '../middleware/authMiddleware';
+import { generalRateLimit } from '../middleware/rateLimitMiddleware';
+
+const router = Router();
+const tagController = new TagController();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// Apply rate limiting
+router.use(generalRateLimit.limit);
+
+// GET /api/tags - Get user's tags with how many transactions carry each
+router.get('/', tagController.getUserTags);
+
+// PUT /api/tags/:id - Rename tag
+router.put('/:id', tagController.renameTag);
+
+// DELETE /api/tags/:id - Delete tag
+router.delete('/:id', tagController.deleteTag);
+
+export default router;
\ No newline at end of file
@@ -1,11 +1,13 @@
 import { Router } from 'express';
 import { TransactionController } from '../controllers/TransactionController';
+import { TransactionAttachmentController } from '../controllers/TransactionAttachmentController';
 import { authenticate } from '../middleware/authMiddleware';
 import { generalRateLimit } from '../middleware/rateLimitMiddleware';
 import { validateTransactionAccess, validateUserDataAccess } from '../middleware/ownershipMiddleware';
 
 const router = Router();
 const transactionController = new TransactionController();
+const attachmentController = new TransactionAttachmentController();
 
 // Apply authentication middleware to all routes
 router.use(authenticate);
@@ -25,10 +27,37 @@ router.get('/:id', validateTransactionAccess(), transactionController.getTransac
 // POST /api/transactions - Create new transaction
 router.post('/', transactionController.createTransaction);
 
+// POST /api/transactions/transfers - Transfer money between two wallets
+router.post('/transfers', transactionController.createTransfer);
+
+// POST /api/transactions/import/preview - Parse an uploaded file without saving it
+router.post('/import/preview', transactionController.previewImport);
+
+// POST /api/transactions/import - Import an uploaded file into a wallet
+router.post('/import', transactionController.importTransactions);
+
+// POST /api/transactions/bulk/update - Change the category, wallet or type of several transactions
+router.post('/bulk/update', transactionController.bulkUpdateTransactions);
+
+// POST /api/transactions/bulk/delete - Delete several transactions
+router.post('/bulk/delete', transactionController.bulkDeleteTransactions);
+
 // PUT /api/transactions/:id - Update transaction
 router.put('/:id', validateTransactionAccess(), transactionController.updateTransaction);
 
 // DELETE /api/transactions/:id - Delete transaction
 router.delete('/:id', validateTransactionAccess(), transactionController.deleteTransaction);
 
+// GET /api/transactions/:id/attachments - List a transaction's attachments
+router.get('/:id/attachments', attachmentController.getAttachments);
+
+// POST /api/transactions/:id/attachments - Attach a receipt image or PDF
+router.post('/:id/attachments', attachmentController.addAttachment);
+
+// GET /api/transactions/:id/attachments/:attachmentId - Download an attachment
+router.get('/:id/attachments/:attachmentId', attachmentController.getAttachmentFile);
+
+// DELETE /api/transactions/:id/attachments/:attachmentId - Delete an attachment
+router.delete('/:id/attachments/:attachmentId', attachmentController.deleteAttachment);
+
 export default router;
\ No newline at end of file
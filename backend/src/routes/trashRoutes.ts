@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { TrashController } from '../controllers/TrashController';
+import { authenticate } from '../middleware/authMiddleware';
+import { generalRateLimit } from '../middleware/rateLimitMiddleware';
+
+const router = Router();
+const trashController = new TrashController();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// Apply rate limiting
+router.use(generalRateLimit.limit);
+
+// GET /api/trash - Get the items in the user's trash
+router.get('/', trashController.getTrash);
+
+// POST /api/trash/:type/:id/restore - Restore an item from the trash
+router.post('/:type/:id/restore', trashController.restoreItem);
+
+export default router;
\ No newline at end of file
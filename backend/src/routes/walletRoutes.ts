@@ -1,10 +1,12 @@
 import { Router } from 'express';
 import { WalletController } from '../controllers/WalletController';
+import { AuditLogController } from '../controllers/AuditLogController';
 import { authenticate } from '../middleware/authMiddleware';
 import { validateWalletAccess } from '../middleware/ownershipMiddleware';
 
 const router = Router();
 const walletController = new WalletController();
+const auditLogController = new AuditLogController();
 
 // Apply authentication middleware to all wallet routes
 router.use(authenticate);
@@ -18,6 +20,9 @@ router.get('/default', walletController.getDefaultWallet);
 // GET /api/wallets/:id - Get specific wallet
 router.get('/:id', validateWalletAccess(), walletController.getWalletById);
 
+// GET /api/wallets/:id/audit-log - Get the change history of a wallet (owners only)
+router.get('/:id/audit-log', validateWalletAccess(), auditLogController.getWalletAuditLog);
+
 // POST /api/wallets - Create new wallet
 router.post('/', walletController.createWallet);
 
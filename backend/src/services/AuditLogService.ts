@@ -0,0 +1,115 @@
+import { Knex } from 'knex';
+import { AuditLogRepository } from '../repositories/AuditLogRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
+import { AuditAction, AuditEntityType, AuditLogListResponse } from '../types';
+
+// A snapshot of the entity on either side of a change
+export interface AuditChange {
+  before: object | null;
+  after: object | null;
+}
+
+// Read-only details attached to transactions when they are returned, not part of the row
+const DERIVED_FIELDS = ['attachments'];
+
+export class AuditLogService {
+  private auditLogRepository: AuditLogRepository;
+  private walletRepository: WalletRepository;
+  private familyWalletMemberRepository: FamilyWalletMemberRepository;
+
+  constructor() {
+    this.auditLogRepository = new AuditLogRepository();
+    this.walletRepository = new WalletRepository();
+    this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+  }
+
+  async record(actorId: string, entityType: AuditEntityType, action: AuditAction, before: object | null, after: object | null): Promise<void> {
+    await this.recordMany(actorId, entityType, action, [{ before, after }]);
+  }
+
+  /**
+   * Append one entry per change. Given the database transaction that saves
+   * the changes, the entries are written in it and a failed write rolls the
+   * changes back. Otherwise the changes are already saved when this runs, so
+   * a failed write is logged instead of failing the request. The actor is
+   * null for changes the app makes on its own, like posted recurring
+   * transactions.
+   */
+  async recordMany(
+    actorId: string | null,
+    entityType: AuditEntityType,
+    action: AuditAction,
+    changes: AuditChange[],
+    trx?: Knex.Transaction
+  ): Promise<void> {
+    const entries = changes.map(({ before, after }) => {
+      const entity = (after || before) as { id: string; wallet_id?: string | null };
+      return {
+        actor_id: actorId,
+        wallet_id: entityType === 'wallet' ? entity.id : entity.wallet_id || null,
+        entity_type: entityType,
+        entity_id: entity.id,
+        action,
+        before: this.toSnapshot(before),
+        after: this.toSnapshot(after)
+      };
+    });
+
+    if (trx) {
+      await this.auditLogRepository.createMany(entries, trx);
+      return;
+    }
+
+    try {
+      await this.auditLogRepository.createMany(entries);
+    } catch (error) {
+      console.error('Failed to write audit log entries', error);
+    }
+  }
+
+  // Only the owners of a wallet see who changed what in it
+  async getWalletAuditLog(walletId: string, userId: string, page: number, limit: number, entityType?: AuditEntityType): Promise<AuditLogListResponse> {
+    const wallet = await this.walletRepository.findById(walletId);
+    if (!wallet) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    const isOwner = wallet.user_id === userId || await this.familyWalletMemberRepository.isWalletOwner(walletId, userId);
+    if (!isOwner) {
+      throw new Error('AUTH_RESOURCE_FORBIDDEN');
+    }
+
+    return this.findEntries(page, limit, { wallet_id: walletId, entity_type: entityType });
+  }
+
+  // Everything a user changed, for admins
+  async getUserAuditLog(actorId: string, page: number, limit: number, entityType?: AuditEntityType): Promise<AuditLogListResponse> {
+    return this.findEntries(page, limit, { actor_id: actorId, entity_type: entityType });
+  }
+
+  private async findEntries(
+    page: number,
+    limit: number,
+    filters: { wallet_id?: string; actor_id?: string; entity_type?: AuditEntityType }
+  ): Promise<AuditLogListResponse> {
+    const result = await this.auditLogRepository.findWithFilters(page, limit, filters);
+    return {
+      entries: result.data,
+      total: result.total,
+      page: result.page,
+      limit: result.limit,
+      totalPages: Math.ceil(result.total / limit)
+    };
+  }
+
+  private toSnapshot(entity: object | null): Record<string, unknown> | null {
+    if (!entity) {
+      return null;
+    }
+
+    const snapshot: Record<string, unknown> = { ...entity };
+    DERIVED_FIELDS.forEach(field => delete snapshot[field]);
+    return snapshot;
+  }
+}
\ No newline at end of file
@@ -1,23 +1,58 @@
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import { UserRepository } from '../repositories/UserRepository';
-import { User, RegisterRequest, LoginRequest, AuthResponse, JWTPayload } from '../types';
+import { UserTokenRepository } from '../repositories/UserTokenRepository';
+import { RefreshTokenRepository } from '../repositories/RefreshTokenRepository';
+import { SessionService } from './SessionService';
+import { TwoFactorService } from './TwoFactorService';
+import { LoginThrottleService } from './LoginThrottleService';
+import {
+  User,
+  RegisterRequest,
+  LoginRequest,
+  AuthResponse,
+  LoginResponse,
+  JWTPayload,
+  UserTokenPurpose,
+  TokenPair,
+  SessionClient
+} from '../types';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { getMailer } from '../mailer';
+import { emailVerificationMessage, passwordResetMessage } from '../mailer/messages';
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
 
 export class AuthService {
   private userRepository: UserRepository;
+  private userTokenRepository: UserTokenRepository;
+  private refreshTokenRepository: RefreshTokenRepository;
+  private sessionService: SessionService;
+  private twoFactorService: TwoFactorService;
+  private loginThrottleService: LoginThrottleService;
   private jwtSecret: string;
   private jwtExpiration: string;
+  private refreshTokenTtlDays: number;
   private saltRounds: number;
 
   constructor() {
     this.userRepository = new UserRepository();
+    this.userTokenRepository = new UserTokenRepository();
+    this.refreshTokenRepository = new RefreshTokenRepository();
+    this.sessionService = new SessionService();
+    this.twoFactorService = new TwoFactorService();
+    this.loginThrottleService = new LoginThrottleService();
     this.jwtSecret = process.env.JWT_SECRET || 'fallback-secret-key';
-    this.jwtExpiration = process.env.JWT_EXPIRATION || '24h';
+    this.jwtExpiration = process.env.JWT_EXPIRATION || '15m';
+    this.refreshTokenTtlDays = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
     this.saltRounds = parseInt(process.env.BCRYPT_ROUNDS || '10');
   }
 
-  async register(registerData: RegisterRequest): Promise<AuthResponse> {
+  async register(registerData: RegisterRequest, client: SessionClient = {}): Promise<AuthResponse> {
     const { username, email, password, confirmPassword } = registerData;
 
     // Validate password confirmation
@@ -57,59 +92,88 @@ export class AuthService {
       throw new Error('USER_CREATION_FAILED');
     }
 
-    // Generate JWT token
-    const token = this.generateToken(createdUser);
+    // A failed email should not undo the registration; the user can ask for another link
+    try {
+      await this.sendVerificationEmail(createdUser);
+    } catch (error) {
+      console.error('Failed to send verification email', error);
+    }
 
-    return {
-      user: {
-        id: createdUser.id,
-        username: createdUser.username,
-        email: createdUser.email,
-        role: createdUser.role,
-        wallet_limit: createdUser.wallet_limit
-      },
-      token
-    };
+    // Start a new session
+    const tokens = await this.startSession(createdUser, client);
+
+    return this.toAuthResponse(createdUser, tokens);
   }
 
-  async login(loginData: LoginRequest): Promise<AuthResponse> {
+  async login(loginData: LoginRequest, client: SessionClient = {}): Promise<LoginResponse> {
     const { emailOrUsername, password } = loginData;
 
+    await this.loginThrottleService.assertIpAllowed(client.ip_address);
+
     // Find user by email or username
     const user = await this.userRepository.findByEmailOrUsername(emailOrUsername);
     if (!user) {
+      await this.loginThrottleService.recordFailure(client.ip_address);
       throw new Error('AUTH_INVALID_CREDENTIALS');
     }
 
+    await this.loginThrottleService.assertAccountAllowed(user);
+
     // Verify password
     const isPasswordValid = await bcrypt.compare(password, user.password_hash);
     if (!isPasswordValid) {
+      await this.loginThrottleService.recordFailure(client.ip_address, user);
       throw new Error('AUTH_INVALID_CREDENTIALS');
     }
 
-    // Generate JWT token
-    const token = this.generateToken(user);
+    // With two-factor authentication on, the session starts once a code is given
+    if (user.two_factor_enabled_at) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: this.generateChallengeToken(user)
+      };
+    }
 
-    return {
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        role: user.role,
-        wallet_limit: user.wallet_limit
-      },
-      token
-    };
+    // Start a new session
+    await this.loginThrottleService.clearAccountFailures(user.id);
+    const tokens = await this.startSession(user, client);
+
+    return this.toAuthResponse(user, tokens);
+  }
+
+  // Second step of a login: a code from the authenticator app or a recovery code
+  async completeTwoFactorLogin(challengeToken: string, code: string, client: SessionClient = {}): Promise<AuthResponse> {
+    const userId = this.verifyChallengeToken(challengeToken);
+
+    const user = await this.userRepository.findById(userId);
+    if (!user || !user.two_factor_enabled_at) {
+      throw new Error('AUTH_CHALLENGE_INVALID');
+    }
+
+    // Wrong codes count toward the same lockout as wrong passwords
+    await this.loginThrottleService.assertIpAllowed(client.ip_address);
+    await this.loginThrottleService.assertAccountAllowed(user);
+
+    if (!await this.twoFactorService.verifyCode(user, code)) {
+      await this.loginThrottleService.recordFailure(client.ip_address, user);
+      throw new Error('AUTH_TWO_FACTOR_CODE_INVALID');
+    }
+
+    await this.loginThrottleService.clearAccountFailures(user.id);
+    const tokens = await this.startSession(user, client);
+
+    return this.toAuthResponse(user, tokens);
   }
 
-  generateToken(user: User): string {
-    const payload = {
+  generateToken(user: User, sessionId?: string): string {
+    const payload: JWTPayload = {
       userId: user.id,
       email: user.email,
-      role: user.role
+      role: user.role,
+      ...(sessionId ? { sessionId } : {})
     };
 
-    return jwt.sign(payload, this.jwtSecret, { expiresIn: '24h' });
+    return jwt.sign(payload, this.jwtSecret, { expiresIn: this.jwtExpiration } as SignOptions);
   }
 
   verifyToken(token: string): JWTPayload {
@@ -125,33 +189,51 @@ export class AuthService {
     }
   }
 
-  async refreshToken(token: string): Promise<{ token: string }> {
-    try {
-      // Verify the token (even if expired, we can still decode it)
-      const decoded = jwt.decode(token) as JWTPayload;
-      
-      if (!decoded || !decoded.userId) {
-        throw new Error('AUTH_TOKEN_INVALID');
-      }
+  /**
+   * Trade a refresh token for a new access token and refresh token. Each
+   * refresh token works once: presenting one that was already used means it
+   * was copied, so every token from that login is revoked.
+   */
+  async refreshToken(refreshToken: string, client: SessionClient = {}): Promise<TokenPair> {
+    const stored = await this.refreshTokenRepository.findByHash(this.hashToken(refreshToken));
+    if (!stored) {
+      throw new Error('AUTH_TOKEN_INVALID');
+    }
 
-      // Get fresh user data
-      const user = await this.userRepository.findById(decoded.userId);
-      if (!user) {
-        throw new Error('USER_NOT_FOUND');
-      }
+    if (stored.expires_at <= new Date()) {
+      throw new Error('AUTH_TOKEN_EXPIRED');
+    }
 
-      // Generate new token
-      const newToken = this.generateToken(user);
+    const claimed = stored.revoked_at ? null : await this.refreshTokenRepository.revokeIfActive(stored.id);
+    if (!claimed) {
+      await this.sessionService.endSession(stored.family_id);
+      throw new Error('AUTH_TOKEN_REVOKED');
+    }
 
-      return { token: newToken };
-    } catch (error) {
-      if (error instanceof Error && error.message === 'USER_NOT_FOUND') {
-        throw error;
-      }
-      throw new Error('AUTH_TOKEN_INVALID');
+    const user = await this.userRepository.findById(stored.user_id);
+    if (!user) {
+      throw new Error('USER_NOT_FOUND');
+    }
+
+    const expiresAt = this.refreshTokenExpiry();
+    await this.sessionService.touchSession(stored.family_id, client, expiresAt);
+
+    return this.issueTokens(user, stored.family_id, expiresAt);
+  }
+
+  // End the session the refresh token belongs to; unknown tokens are ignored
+  async logout(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokenRepository.findByHash(this.hashToken(refreshToken));
+    if (stored) {
+      await this.sessionService.endSession(stored.family_id);
     }
   }
 
+  // End every session of the user
+  async logoutEverywhere(userId: string): Promise<void> {
+    await this.sessionService.endAllSessions(userId);
+  }
+
   async getCurrentUser(userId: string): Promise<Omit<User, 'password_hash'>> {
     const user = await this.userRepository.findById(userId);
     if (!user) {
@@ -164,12 +246,15 @@ export class AuthService {
       email: user.email,
       role: user.role,
       wallet_limit: user.wallet_limit,
+      base_currency: user.base_currency || DEFAULT_CURRENCY,
+      email_verified_at: user.email_verified_at || null,
+      two_factor_enabled_at: user.two_factor_enabled_at || null,
       created_at: user.created_at,
       updated_at: user.updated_at
     };
   }
 
-  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+  async changePassword(userId: string, currentPassword: string, newPassword: string, currentSessionId?: string): Promise<void> {
     // Get user
     const user = await this.userRepository.findById(userId);
     if (!user) {
@@ -193,6 +278,157 @@ export class AuthService {
       password_hash: newPasswordHash,
       updated_at: new Date()
     });
+
+    // Log out other devices, but not the one that made the change
+    await this.sessionService.endAllSessions(userId, currentSessionId);
+  }
+
+  /**
+   * Email a password reset link. Unknown addresses are ignored without an
+   * error, so the endpoint does not reveal who has an account.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const token = await this.issueToken(user.id, 'password_reset', PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+    await getMailer().send(passwordResetMessage(user.email, user.username, token, PASSWORD_RESET_TTL_MINUTES));
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    // Check the password first so a weak one does not use up the link
+    this.validatePasswordStrength(newPassword);
+
+    const userToken = await this.userTokenRepository.consume('password_reset', this.hashToken(token));
+    if (!userToken) {
+      throw new Error('AUTH_LINK_INVALID');
+    }
+
+    const user = await this.userRepository.findById(userToken.user_id);
+    if (!user) {
+      throw new Error('AUTH_LINK_INVALID');
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, this.saltRounds);
+
+    // Following the link proves the user can read mail sent to the address
+    await this.userRepository.update(user.id, {
+      password_hash: passwordHash,
+      email_verified_at: user.email_verified_at || new Date()
+    });
+
+    // Whoever knew the old password should not stay logged in
+    await this.sessionService.endAllSessions(user.id);
+  }
+
+  async requestEmailVerification(userId: string): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new Error('USER_NOT_FOUND');
+    }
+
+    if (user.email_verified_at) {
+      throw new Error('AUTH_EMAIL_ALREADY_VERIFIED');
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const userToken = await this.userTokenRepository.consume('email_verification', this.hashToken(token));
+    if (!userToken) {
+      throw new Error('AUTH_LINK_INVALID');
+    }
+
+    await this.userRepository.update(userToken.user_id, { email_verified_at: new Date() });
+  }
+
+  // A login starts a new session, whose id is the family of all its refresh tokens
+  private async startSession(user: User, client: SessionClient): Promise<TokenPair> {
+    const expiresAt = this.refreshTokenExpiry();
+    const session = await this.sessionService.startSession(user.id, client, expiresAt);
+    return this.issueTokens(user, session.id, expiresAt);
+  }
+
+  private async issueTokens(user: User, sessionId: string, expiresAt: Date): Promise<TokenPair> {
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    await this.refreshTokenRepository.create({
+      user_id: user.id,
+      family_id: sessionId,
+      token_hash: this.hashToken(refreshToken),
+      expires_at: expiresAt,
+      revoked_at: null
+    });
+
+    return {
+      token: this.generateToken(user, sessionId),
+      refreshToken
+    };
+  }
+
+  private toAuthResponse(user: User, tokens: TokenPair): AuthResponse {
+    return {
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        wallet_limit: user.wallet_limit,
+        base_currency: user.base_currency || DEFAULT_CURRENCY,
+        email_verified_at: user.email_verified_at || null,
+        two_factor_enabled_at: user.two_factor_enabled_at || null
+      },
+      ...tokens
+    };
+  }
+
+  private refreshTokenExpiry(): Date {
+    return new Date(Date.now() + this.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+
+  private async sendVerificationEmail(user: User): Promise<void> {
+    const token = await this.issueToken(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+    await getMailer().send(emailVerificationMessage(user.email, user.username, token, EMAIL_VERIFICATION_TTL_HOURS));
+  }
+
+  // Create a random single-use token, replacing any earlier one for the same purpose
+  private async issueToken(userId: string, purpose: UserTokenPurpose, ttlMs: number): Promise<string> {
+    await this.userTokenRepository.invalidateForUser(userId, purpose);
+
+    const token = crypto.randomBytes(32).toString('hex');
+    await this.userTokenRepository.create({
+      user_id: userId,
+      purpose,
+      token_hash: this.hashToken(token),
+      expires_at: new Date(Date.now() + ttlMs),
+      used_at: null
+    });
+
+    return token;
+  }
+
+  // Challenge tokens use their own key, so they can never pass as access tokens
+  private generateChallengeToken(user: User): string {
+    return jwt.sign({ userId: user.id }, this.challengeSecret(), { expiresIn: TWO_FACTOR_CHALLENGE_TTL } as SignOptions);
+  }
+
+  private verifyChallengeToken(challengeToken: string): string {
+    try {
+      const payload = jwt.verify(challengeToken, this.challengeSecret()) as { userId: string };
+      return payload.userId;
+    } catch (error) {
+      throw new Error('AUTH_CHALLENGE_INVALID');
+    }
+  }
+
+  private challengeSecret(): string {
+    return `${this.jwtSecret}:two-factor-challenge`;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
   }
 
   private validatePasswordStrength(password: string): void {
@@ -2,20 +2,34 @@ import { v4 as uuidv4 } from 'uuid';
 import { BudgetRepository } from '../repositories/BudgetRepository';
 import { WalletRepository } from '../repositories/WalletRepository';
 import { TransactionRepository } from '../repositories/TransactionRepository';
+import { CategoryRepository } from '../repositories/CategoryRepository';
 import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
-import { Budget, CreateBudgetRequest, UpdateBudgetRequest, BudgetStatus } from '../types';
+import { TransactionSplitRepository } from '../repositories/TransactionSplitRepository';
+import { ExchangeRateRepository } from '../repositories/ExchangeRateRepository';
+import { AuditLogService } from './AuditLogService';
+import { Budget, Category, CreateBudgetRequest, UpdateBudgetRequest, BudgetStatus } from '../types';
+import { toCategoryLines, splitTransactionIds } from '../utils/transactionSplits';
+import { DEFAULT_CURRENCY, buildRateTable, convertAmount } from '../utils/currency';
 
 export class BudgetService {
   private budgetRepository: BudgetRepository;
   private walletRepository: WalletRepository;
   private transactionRepository: TransactionRepository;
+  private categoryRepository: CategoryRepository;
   private familyWalletMemberRepository: FamilyWalletMemberRepository;
+  private transactionSplitRepository: TransactionSplitRepository;
+  private exchangeRateRepository: ExchangeRateRepository;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.budgetRepository = new BudgetRepository();
     this.walletRepository = new WalletRepository();
     this.transactionRepository = new TransactionRepository();
+    this.categoryRepository = new CategoryRepository();
     this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+    this.transactionSplitRepository = new TransactionSplitRepository();
+    this.exchangeRateRepository = new ExchangeRateRepository();
+    this.auditLogService = new AuditLogService();
   }
 
   async getUserBudgets(userId: string): Promise<Budget[]> {
@@ -75,10 +89,25 @@ export class BudgetService {
       throw new Error('VALIDATION_INVALID_MONTH_FORMAT');
     }
 
-    // Check if budget already exists for this wallet and month
+    // Validate category if this is a category budget
+    const categoryId = budgetData.category_id || null;
+    if (categoryId) {
+      const category = await this.categoryRepository.findById(categoryId);
+      if (!category || !this.isCategoryUsableInWallet(category, userId, budgetData.wallet_id)) {
+        throw new Error('RESOURCE_NOT_FOUND');
+      }
+
+      // Only expense categories accumulate spending
+      if (category.type !== 'Expense') {
+        throw new Error('VALIDATION_INVALID_BUDGET_CATEGORY');
+      }
+    }
+
+    // Check if budget already exists for this wallet, category and month
     const existingBudget = await this.budgetRepository.findByWalletAndMonth(
       budgetData.wallet_id,
-      budgetData.month
+      budgetData.month,
+      categoryId
     );
     if (existingBudget) {
       throw new Error('BUDGET_ALREADY_EXISTS');
@@ -92,13 +121,16 @@ export class BudgetService {
     const newBudget: Budget = {
       id: uuidv4(),
       wallet_id: budgetData.wallet_id,
+      category_id: categoryId,
       month: budgetData.month,
       limit: budgetData.limit,
       created_at: new Date(),
       updated_at: new Date()
     };
 
-    return this.budgetRepository.create(newBudget);
+    const created = await this.budgetRepository.create(newBudget);
+    await this.auditLogService.record(userId, 'budget', 'create', null, created);
+    return created;
   }
 
   async updateBudget(budgetId: string, userId: string, budgetData: UpdateBudgetRequest): Promise<Budget | null> {
@@ -118,7 +150,11 @@ export class BudgetService {
       updated_at: new Date()
     };
 
-    return this.budgetRepository.update(budgetId, updateData);
+    const updated = await this.budgetRepository.update(budgetId, updateData);
+    if (updated) {
+      await this.auditLogService.record(userId, 'budget', 'update', existingBudget, updated);
+    }
+    return updated;
   }
 
   async deleteBudget(budgetId: string, userId: string): Promise<boolean> {
@@ -128,7 +164,11 @@ export class BudgetService {
       throw new Error('RESOURCE_NOT_FOUND');
     }
 
-    return this.budgetRepository.delete(budgetId);
+    const deleted = await this.budgetRepository.delete(budgetId);
+    if (deleted) {
+      await this.auditLogService.record(userId, 'budget', 'delete', existingBudget, null);
+    }
+    return deleted;
   }
 
   async getBudgetStatus(budgetId: string, userId: string): Promise<BudgetStatus | null> {
@@ -138,8 +178,8 @@ export class BudgetService {
       return null;
     }
 
-    // Calculate total spent for the budget month
-    const totalSpent = await this.calculateMonthlySpent(budget.wallet_id, budget.month);
+    // Calculate total spent for the budget month (only the budget's category, if any)
+    const { totalSpent, missingRateCurrencies } = await this.calculateMonthlySpent(budget, userId);
 
     // Calculate remaining and percentage
     const remaining = budget.limit - totalSpent;
@@ -162,7 +202,8 @@ export class BudgetService {
       total_spent: totalSpent,
       remaining,
       percentage_used: Math.round(percentageUsed * 100) / 100, // Round to 2 decimal places
-      status
+      status,
+      missing_rate_currencies: missingRateCurrencies
     };
   }
 
@@ -183,7 +224,17 @@ export class BudgetService {
     return this.getBudgetStatus(budget.id, userId);
   }
 
-  private async calculateMonthlySpent(walletId: string, month: string): Promise<number> {
+  /**
+   * Expenses of the budget month in the wallet's currency, converted at the
+   * user's rate on each transaction date. Amounts in a currency with no rate
+   * count as zero and the currency is reported as missing.
+   */
+  private async calculateMonthlySpent(
+    budget: Budget,
+    userId: string
+  ): Promise<{ totalSpent: number; missingRateCurrencies: string[] }> {
+    const { wallet_id: walletId, month, category_id: categoryId } = budget;
+
     // Parse month to get start and end dates
     const [year, monthNum] = month.split('-').map(Number);
     const startDate = new Date(year, monthNum - 1, 1); // Month is 0-indexed
@@ -197,11 +248,33 @@ export class BudgetService {
       { type: 'Expense' }
     );
 
+    // Category budgets only count lines in the category, including the lines of split transactions
+    const splits = categoryId
+      ? await this.transactionSplitRepository.findByTransactionIds(splitTransactionIds(transactions))
+      : [];
+    const lines = toCategoryLines(transactions, splits)
+      .filter(line => !categoryId || line.category_id === categoryId);
+
+    const wallet = await this.walletRepository.findById(walletId);
+    const walletCurrency = wallet?.currency || DEFAULT_CURRENCY;
+    const rates = buildRateTable(await this.exchangeRateRepository.findByUserId(userId));
+    const missingRates = new Set<string>();
+
     // Sum up the amounts
-    return transactions.reduce((total, transaction) => {
-      const amount = typeof transaction.amount === 'string' ? parseFloat(transaction.amount) : transaction.amount;
-      return total + (amount || 0);
+    const totalSpent = lines.reduce((total, line) => {
+      const currency = line.transaction.currency || walletCurrency;
+      const converted = convertAmount(rates, line.amount, currency, walletCurrency, line.transaction.transaction_date);
+      if (converted === null) {
+        missingRates.add(currency);
+        return total;
+      }
+      return total + converted;
     }, 0);
+
+    return {
+      totalSpent: Math.round(totalSpent * 100) / 100,
+      missingRateCurrencies: Array.from(missingRates).sort()
+    };
   }
 
   async validateBudgetOwnership(budgetId: string, userId: string): Promise<boolean> {
@@ -229,6 +302,15 @@ export class BudgetService {
     return false;
   }
 
+  private isCategoryUsableInWallet(category: Category, userId: string, walletId: string): boolean {
+    // Personal categories belong to the user, family categories to the wallet
+    if (category.wallet_id === null) {
+      return category.user_id === userId;
+    }
+
+    return category.wallet_id === walletId;
+  }
+
   private async getFamilyWalletIds(userId: string): Promise<string[]> {
     const memberships = await this.familyWalletMemberRepository.findByUserId(userId);
     return memberships.map(membership => membership.wallet_id);
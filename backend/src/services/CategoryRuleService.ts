@@ -0,0 +1,282 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CategoryRuleRepository } from '../repositories/CategoryRuleRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+import { CategoryRepository } from '../repositories/CategoryRepository';
+import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
+import { AuditLogService } from './AuditLogService';
+import {
+  Category,
+  CategoryRule,
+  CreateCategoryRuleRequest,
+  UpdateCategoryRuleRequest,
+  ApplyCategoryRulesRequest,
+  CategoryRuleChange,
+  CategoryRuleApplyResult
+} from '../types';
+import { findMatchingRule, isValidRulePattern } from '../utils/categoryRules';
+
+export class CategoryRuleService {
+  private categoryRuleRepository: CategoryRuleRepository;
+  private transactionRepository: TransactionRepository;
+  private walletRepository: WalletRepository;
+  private categoryRepository: CategoryRepository;
+  private familyWalletMemberRepository: FamilyWalletMemberRepository;
+  private auditLogService: AuditLogService;
+
+  constructor() {
+    this.categoryRuleRepository = new CategoryRuleRepository();
+    this.transactionRepository = new TransactionRepository();
+    this.walletRepository = new WalletRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+    this.auditLogService = new AuditLogService();
+  }
+
+  async getUserRules(userId: string): Promise<CategoryRule[]> {
+    const memberships = await this.familyWalletMemberRepository.findByUserId(userId);
+    return this.categoryRuleRepository.findUserAccessibleRules(userId, memberships.map(m => m.wallet_id));
+  }
+
+  async getRuleById(ruleId: string, userId: string): Promise<CategoryRule | null> {
+    const rule = await this.categoryRuleRepository.findById(ruleId);
+    if (!rule) {
+      return null;
+    }
+
+    // Owners can see their rules; wallet rules are shared with the wallet's members
+    if (rule.user_id === userId) {
+      return rule;
+    }
+
+    const hasAccess = rule.wallet_id ? await this.hasWalletAccess(userId, rule.wallet_id) : false;
+    return hasAccess ? rule : null;
+  }
+
+  async createRule(userId: string, ruleData: CreateCategoryRuleRequest): Promise<CategoryRule> {
+    const walletId = ruleData.wallet_id || null;
+    if (walletId) {
+      const hasWalletAccess = await this.hasWalletAccess(userId, walletId);
+      if (!hasWalletAccess) {
+        throw new Error('RESOURCE_NOT_FOUND');
+      }
+    }
+
+    const category = await this.getRuleCategory(ruleData.category_id, userId, walletId);
+    if (!category) {
+      throw new Error('AUTH_RESOURCE_FORBIDDEN');
+    }
+
+    const newRule: CategoryRule = {
+      id: uuidv4(),
+      user_id: userId,
+      wallet_id: walletId,
+      category_id: category.id,
+      name: ruleData.name.trim(),
+      title_pattern: ruleData.title_pattern?.trim() || null,
+      match_type: ruleData.match_type || 'contains',
+      min_amount: ruleData.min_amount ?? null,
+      max_amount: ruleData.max_amount ?? null,
+      type: ruleData.type || category.type,
+      priority: ruleData.priority ?? 0,
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    this.validateRuleConditions(newRule, category);
+
+    return this.categoryRuleRepository.create(newRule);
+  }
+
+  async updateRule(
+    ruleId: string,
+    userId: string,
+    ruleData: UpdateCategoryRuleRequest
+  ): Promise<CategoryRule | null> {
+    const existingRule = await this.getRuleById(ruleId, userId);
+    if (!existingRule) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    const categoryId = ruleData.category_id || existingRule.category_id;
+    const category = ruleData.category_id
+      ? await this.getRuleCategory(ruleData.category_id, userId, existingRule.wallet_id)
+      : await this.categoryRepository.findById(categoryId);
+    if (!category) {
+      throw new Error('AUTH_RESOURCE_FORBIDDEN');
+    }
+
+    const updateData: Partial<CategoryRule> = {
+      ...ruleData,
+      name: ruleData.name?.trim(),
+      title_pattern: ruleData.title_pattern !== undefined ? ruleData.title_pattern?.trim() || null : undefined,
+      updated_at: new Date()
+    };
+
+    // Clean up undefined values
+    Object.keys(updateData).forEach(key => {
+      if (updateData[key as keyof CategoryRule] === undefined) {
+        delete updateData[key as keyof CategoryRule];
+      }
+    });
+
+    // Validate the rule as it will be after the update
+    this.validateRuleConditions({ ...existingRule, ...updateData }, category);
+
+    return this.categoryRuleRepository.update(ruleId, updateData);
+  }
+
+  async deleteRule(ruleId: string, userId: string): Promise<boolean> {
+    const existingRule = await this.getRuleById(ruleId, userId);
+    if (!existingRule) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    // Transactions categorized by the rule keep their category
+    return this.categoryRuleRepository.delete(ruleId);
+  }
+
+  // Show which uncategorized transactions the rules would categorize, without saving
+  async previewApply(userId: string, applyData: ApplyCategoryRulesRequest): Promise<CategoryRuleChange[]> {
+    return this.findRuleChanges(userId, applyData.wallet_id);
+  }
+
+  /**
+   * Categorize the user's uncategorized transactions with the first matching
+   * rule. When `transaction_ids` is given, only those changes are applied, so
+   * a client can confirm a subset of a preview.
+   */
+  async applyRules(userId: string, applyData: ApplyCategoryRulesRequest): Promise<CategoryRuleApplyResult> {
+    let changes = await this.findRuleChanges(userId, applyData.wallet_id);
+
+    if (applyData.transaction_ids) {
+      const selectedIds = new Set(applyData.transaction_ids);
+      changes = changes.filter(change => selectedIds.has(change.transaction_id));
+    }
+
+    const before = new Map((await this.transactionRepository.findByIds(changes.map(change => change.transaction_id)))
+      .map(transaction => [transaction.id, transaction]));
+    const updated = await this.transactionRepository.transaction(async (trx) => {
+      const rows = await this.transactionRepository.assignCategories(
+        changes.map(change => ({ id: change.transaction_id, category_id: change.category_id })),
+        trx
+      );
+      await this.auditLogService.recordMany(userId, 'transaction', 'update', rows.map(after => ({
+        before: before.get(after.id) || null,
+        after
+      })), trx);
+      return rows;
+    });
+
+    return { updated_count: updated.length, changes };
+  }
+
+  private async findRuleChanges(userId: string, walletId?: string): Promise<CategoryRuleChange[]> {
+    if (walletId) {
+      const hasWalletAccess = await this.hasWalletAccess(userId, walletId);
+      if (!hasWalletAccess) {
+        throw new Error('AUTH_RESOURCE_FORBIDDEN');
+      }
+    }
+
+    // Skip transactions left behind in wallets the user no longer has access to
+    const accessibleWalletIds = await this.getAccessibleWalletIds(userId);
+    const transactions = (await this.transactionRepository.findUncategorized(userId, walletId))
+      .filter(transaction => accessibleWalletIds.includes(transaction.wallet_id));
+
+    if (transactions.length === 0) {
+      return [];
+    }
+
+    const walletIds = [...new Set(transactions.map(transaction => transaction.wallet_id))];
+    const rules = await this.categoryRuleRepository.findApplicableRules(userId, walletIds);
+
+    const changes: CategoryRuleChange[] = [];
+    for (const transaction of transactions) {
+      const rule = findMatchingRule(rules, transaction);
+      if (rule) {
+        changes.push({
+          transaction_id: transaction.id,
+          wallet_id: transaction.wallet_id,
+          title: transaction.title,
+          amount: transaction.amount,
+          type: transaction.type as 'Income' | 'Expense',
+          transaction_date: transaction.transaction_date,
+          category_id: rule.category_id,
+          rule_id: rule.id
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  private validateRuleConditions(rule: CategoryRule, category: Category): void {
+    if (rule.type !== category.type) {
+      throw new Error('VALIDATION_RULE_TYPE_MISMATCH');
+    }
+
+    if (!rule.title_pattern && rule.min_amount === null && rule.max_amount === null) {
+      throw new Error('VALIDATION_EMPTY_RULE');
+    }
+
+    if (rule.title_pattern && rule.match_type === 'regex' && !isValidRulePattern(rule.title_pattern)) {
+      throw new Error('VALIDATION_INVALID_RULE_PATTERN');
+    }
+
+    if (rule.min_amount !== null && rule.max_amount !== null && Number(rule.min_amount) > Number(rule.max_amount)) {
+      throw new Error('VALIDATION_INVALID_AMOUNT_RANGE');
+    }
+  }
+
+  /**
+   * Global rules may only use the owner's personal categories. Wallet rules
+   * categorize every member's transactions, so in family wallets they may only
+   * use the wallet's own categories.
+   */
+  private async getRuleCategory(categoryId: string, userId: string, walletId: string | null): Promise<Category | null> {
+    const category = await this.categoryRepository.findById(categoryId);
+    if (!category) {
+      return null;
+    }
+
+    const isPersonal = category.user_id === userId && category.wallet_id === null;
+    if (!walletId) {
+      return isPersonal ? category : null;
+    }
+
+    if (category.wallet_id === walletId) {
+      return category;
+    }
+
+    const wallet = await this.walletRepository.findById(walletId);
+    return wallet && !wallet.is_family && isPersonal ? category : null;
+  }
+
+  private async hasWalletAccess(userId: string, walletId: string): Promise<boolean> {
+    const wallet = await this.walletRepository.findById(walletId);
+    if (!wallet) {
+      return false;
+    }
+
+    // User owns the wallet
+    if (wallet.user_id === userId) {
+      return true;
+    }
+
+    // Check family wallet membership
+    if (wallet.is_family) {
+      const membership = await this.familyWalletMemberRepository.findMembership(walletId, userId);
+      return membership !== null;
+    }
+
+    return false;
+  }
+
+  private async getAccessibleWalletIds(userId: string): Promise<string[]> {
+    const ownWallets = await this.walletRepository.findByUserId(userId);
+    const memberships = await this.familyWalletMemberRepository.findByUserId(userId);
+    return [...new Set([...ownWallets.map(w => w.id), ...memberships.map(m => m.wallet_id)])];
+  }
+}
\ No newline at end of file
@@ -2,17 +2,33 @@ import { v4 as uuidv4 } from 'uuid';
 import { CategoryRepository } from '../repositories/CategoryRepository';
 import { WalletRepository } from '../repositories/WalletRepository';
 import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
-import { Category, CreateCategoryRequest, UpdateCategoryRequest } from '../types';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { DataIsolationService } from './DataIsolationService';
+import { AuditLogService } from './AuditLogService';
+import {
+  Category,
+  CreateCategoryRequest,
+  UpdateCategoryRequest,
+  CategorySuggestionQuery,
+  CategorySuggestion
+} from '../types';
+import { buildCategoryModel, rankCategories } from '../utils/categorySuggestions';
 
 export class CategoryService {
   private categoryRepository: CategoryRepository;
   private walletRepository: WalletRepository;
   private familyWalletMemberRepository: FamilyWalletMemberRepository;
+  private transactionRepository: TransactionRepository;
+  private dataIsolationService: DataIsolationService;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.categoryRepository = new CategoryRepository();
     this.walletRepository = new WalletRepository();
     this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+    this.transactionRepository = new TransactionRepository();
+    this.dataIsolationService = new DataIsolationService();
+    this.auditLogService = new AuditLogService();
   }
 
   async getUserCategories(userId: string, type?: 'Income' | 'Expense'): Promise<Category[]> {
@@ -91,7 +107,9 @@ export class CategoryService {
       updated_at: new Date()
     };
 
-    return this.categoryRepository.create(newCategory);
+    const created = await this.categoryRepository.create(newCategory);
+    await this.auditLogService.record(userId, 'category', 'create', null, created);
+    return created;
   }
 
   async updateCategory(categoryId: string, userId: string, categoryData: UpdateCategoryRequest): Promise<Category | null> {
@@ -129,7 +147,11 @@ export class CategoryService {
       updateData.name = updateData.name.trim();
     }
 
-    return this.categoryRepository.update(categoryId, updateData);
+    const updated = await this.categoryRepository.update(categoryId, updateData);
+    if (updated) {
+      await this.auditLogService.record(userId, 'category', 'update', existingCategory, updated);
+    }
+    return updated;
   }
 
   async deleteCategory(categoryId: string, userId: string, forceDelete: boolean = false): Promise<boolean> {
@@ -147,9 +169,14 @@ export class CategoryService {
       throw new Error('CATEGORY_HAS_TRANSACTIONS');
     }
 
-    // If forceDelete is true or no transactions exist, proceed with deletion
-    // The database constraint will automatically set category_id to NULL for associated transactions
-    return this.categoryRepository.delete(categoryId);
+    // If forceDelete is true or no transactions exist, move the category to the trash
+    // Its transactions keep the link so a restore recategorizes them, and read as uncategorized meanwhile;
+    // the purge sets category_id to NULL
+    const deleted = await this.categoryRepository.delete(categoryId);
+    if (deleted) {
+      await this.auditLogService.record(userId, 'category', 'delete', existingCategory, null);
+    }
+    return deleted;
   }
 
   async validateCategoryOwnership(categoryId: string, userId: string): Promise<boolean> {
@@ -181,6 +208,45 @@ export class CategoryService {
     return this.categoryRepository.getUncategorizedTransactions(userId);
   }
 
+  /**
+   * Suggest categories for a transaction title from the user's own
+   * categorized history in the wallets they can still access. The model is
+   * rebuilt per request, so suggestions follow recategorizations immediately.
+   */
+  async suggestCategories(userId: string, query: CategorySuggestionQuery): Promise<CategorySuggestion[]> {
+    if (query.wallet_id) {
+      const hasAccess = await this.dataIsolationService.validateWalletAccess(query.wallet_id, userId);
+      if (!hasAccess) {
+        throw new Error('WALLET_NOT_FOUND');
+      }
+    }
+
+    // Only suggest categories that could be used in the requested wallet
+    const candidates = (await this.getUserCategories(userId, query.type)).filter(category =>
+      !query.wallet_id || category.wallet_id === null || category.wallet_id === query.wallet_id
+    );
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const accessibleWalletIds = await this.dataIsolationService.getAccessibleWalletIds(userId);
+    const history = await this.transactionRepository.findCategorizedTitles(userId, accessibleWalletIds);
+    const model = buildCategoryModel(
+      history.map(transaction => ({ title: transaction.title, category_id: transaction.category_id! }))
+    );
+
+    const categoriesById = new Map(candidates.map(category => [category.id, category]));
+    return rankCategories(model, query.title, [...categoriesById.keys()]).map(ranked => {
+      const category = categoriesById.get(ranked.category_id)!;
+      return {
+        category_id: category.id,
+        name: category.name,
+        type: category.type,
+        confidence: ranked.confidence
+      };
+    });
+  }
+
   async deleteCategoryWithTransactionHandling(categoryId: string, userId: string): Promise<{ success: boolean; transactionsAffected: number }> {
     // Check if category exists and belongs to user
     const existingCategory = await this.getCategoryById(categoryId, userId);
@@ -191,8 +257,11 @@ export class CategoryService {
     // Count transactions that will be affected
     const transactionCount = await this.categoryRepository.countTransactions(categoryId);
 
-    // Delete the category - database constraint will handle setting transactions to uncategorized
+    // Trash the category - its transactions read as uncategorized until it is restored
     const success = await this.categoryRepository.delete(categoryId);
+    if (success) {
+      await this.auditLogService.record(userId, 'category', 'delete', existingCategory, null);
+    }
 
     return {
       success,
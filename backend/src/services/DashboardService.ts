@@ -3,7 +3,22 @@ import { TransactionRepository } from '../repositories/TransactionRepository';
 import { BudgetRepository } from '../repositories/BudgetRepository';
 import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
 import { CategoryRepository } from '../repositories/CategoryRepository';
-import { Transaction } from '../types';
+import { TransactionSplitRepository } from '../repositories/TransactionSplitRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { ExchangeRateRepository } from '../repositories/ExchangeRateRepository';
+import { RecurringTransactionRepository } from '../repositories/RecurringTransactionRepository';
+import { ReminderSettlementRepository } from '../repositories/ReminderSettlementRepository';
+import { TagRepository } from '../repositories/TagRepository';
+import { ReminderService } from './ReminderService';
+import { RecurringTransactionService } from './RecurringTransactionService';
+import { Budget, Transaction } from '../types';
+import { toCategoryLines, splitTransactionIds } from '../utils/transactionSplits';
+import { DEFAULT_CURRENCY, RateTable, buildRateTable, convertAmount } from '../utils/currency';
+import { parseDateInput, toDateKey } from '../utils/dates';
+import { ForecastEvent, WalletForecast, addDaysToKey, buildWalletForecast } from '../utils/cashFlowForecast';
+
+// Days of history the average discretionary spend is taken from
+const FORECAST_LOOKBACK_DAYS = 90;
 
 export interface DashboardSummary {
   total_balance: number;
@@ -18,6 +33,8 @@ export interface DashboardSummary {
   };
   wallet_count: number;
   transaction_count: number;
+  base_currency: string; // Currency every amount above is converted into
+  missing_rate_currencies: string[]; // Currencies left out of the totals for lack of a rate
 }
 
 export interface TransactionReportFilters {
@@ -26,6 +43,7 @@ export interface TransactionReportFilters {
   type?: 'Income' | 'Expense';
   start_date?: string;
   end_date?: string;
+  tags?: string[]; // Tag names, all of which must be on the transaction
   page: number;
   limit: number;
 }
@@ -37,6 +55,8 @@ export interface TransactionReport {
     total_expense: number;
     net_amount: number;
     transaction_count: number;
+    base_currency: string;
+    missing_rate_currencies: string[];
   };
   pagination: {
     page: number;
@@ -51,6 +71,7 @@ export interface CategoryBreakdownFilters {
   type?: 'Income' | 'Expense';
   start_date?: string;
   end_date?: string;
+  tags?: string[];
 }
 
 export interface CategoryBreakdownItem {
@@ -65,6 +86,31 @@ export interface CategoryBreakdown {
   breakdown: CategoryBreakdownItem[];
   total_amount: number;
   total_transactions: number;
+  base_currency: string;
+  missing_rate_currencies: string[];
+}
+
+export interface TagBreakdownFilters {
+  wallet_id?: string;
+  type?: 'Income' | 'Expense';
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface TagBreakdownItem {
+  tag_name: string | null; // Null for the transactions without any tag
+  total_amount: number;
+  transaction_count: number;
+  percentage: number; // Of the total amount of all matching transactions
+}
+
+// A transaction with several tags is counted under each of them, so the items can add up to more than the total
+export interface TagBreakdown {
+  breakdown: TagBreakdownItem[];
+  total_amount: number;
+  total_transactions: number;
+  base_currency: string;
+  missing_rate_currencies: string[];
 }
 
 export interface TrendsFilters {
@@ -89,6 +135,30 @@ export interface TrendsReport {
     avg_net: number;
     total_periods: number;
   };
+  base_currency: string;
+  missing_rate_currencies: string[];
+}
+
+export interface ForecastFilters {
+  wallet_id?: string;
+  days: number;
+}
+
+export interface CashFlowForecast {
+  start_date: string; // Today; the first projected day is tomorrow
+  end_date: string;
+  days: number;
+  lookback_days: number;
+  wallets: WalletForecast[]; // Each in its own wallet's currency
+  missing_rate_currencies: string[]; // Left out of balances for lack of a rate to their wallet's currency
+}
+
+// What it takes to express transactions from several wallets in one currency
+interface CurrencyContext {
+  baseCurrency: string;
+  rates: RateTable;
+  walletCurrencies: Map<string, string>;
+  missingRates: Set<string>; // Currencies seen without any rate to the base currency
 }
 
 export class DashboardService {
@@ -97,6 +167,14 @@ export class DashboardService {
   private budgetRepository: BudgetRepository;
   private familyWalletMemberRepository: FamilyWalletMemberRepository;
   private categoryRepository: CategoryRepository;
+  private transactionSplitRepository: TransactionSplitRepository;
+  private userRepository: UserRepository;
+  private exchangeRateRepository: ExchangeRateRepository;
+  private recurringTransactionRepository: RecurringTransactionRepository;
+  private reminderSettlementRepository: ReminderSettlementRepository;
+  private tagRepository: TagRepository;
+  private reminderService: ReminderService;
+  private recurringTransactionService: RecurringTransactionService;
 
   constructor() {
     this.walletRepository = new WalletRepository();
@@ -104,29 +182,39 @@ export class DashboardService {
     this.budgetRepository = new BudgetRepository();
     this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
     this.categoryRepository = new CategoryRepository();
+    this.transactionSplitRepository = new TransactionSplitRepository();
+    this.userRepository = new UserRepository();
+    this.exchangeRateRepository = new ExchangeRateRepository();
+    this.recurringTransactionRepository = new RecurringTransactionRepository();
+    this.reminderSettlementRepository = new ReminderSettlementRepository();
+    this.tagRepository = new TagRepository();
+    this.reminderService = new ReminderService();
+    this.recurringTransactionService = new RecurringTransactionService();
   }
 
   async getDashboardSummary(userId: string): Promise<DashboardSummary> {
     // Get all wallets accessible to the user (owned + family wallets)
     const accessibleWalletIds = await this.getAccessibleWalletIds(userId);
+    const currencyContext = await this.getCurrencyContext(userId, accessibleWalletIds);
     
     // Calculate total balance across all wallets
-    const totalBalance = await this.calculateTotalBalance(accessibleWalletIds);
+    const totalBalance = await this.calculateTotalBalance(accessibleWalletIds, currencyContext);
     
     // Get current month's income and expense
     const currentMonth = new Date();
     const startOfMonth = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
     const endOfMonth = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
     
-    const monthlySummary = await this.transactionRepository.getSummaryByDateRange(
+    const monthlySummary = await this.getSummaryInBaseCurrency(
       userId,
       startOfMonth,
       endOfMonth,
-      accessibleWalletIds
+      accessibleWalletIds,
+      currencyContext
     );
 
     // Get budget status information
-    const budgetStatus = await this.calculateBudgetStatus(accessibleWalletIds);
+    const budgetStatus = await this.calculateBudgetStatus(accessibleWalletIds, currencyContext);
     
     // Get wallet and transaction counts
     const walletCount = accessibleWalletIds.length;
@@ -138,7 +226,9 @@ export class DashboardService {
       monthly_expense: monthlySummary.expense,
       budget_status: budgetStatus,
       wallet_count: walletCount,
-      transaction_count: transactionCount
+      transaction_count: transactionCount,
+      base_currency: currencyContext.baseCurrency,
+      missing_rate_currencies: this.getMissingRateCurrencies(currencyContext)
     };
   }
 
@@ -156,7 +246,80 @@ export class DashboardService {
     return allWalletIds;
   }
 
-  private async calculateTotalBalance(walletIds: string[]): Promise<number> {
+  /**
+   * Load the user's base currency, their exchange rates and the currency of
+   * each wallet, for converting amounts with `toBaseCurrency`.
+   */
+  private async getCurrencyContext(userId: string, walletIds: string[]): Promise<CurrencyContext> {
+    const user = await this.userRepository.findById(userId);
+    const wallets = await this.walletRepository.findByIds(walletIds);
+    const rates = await this.exchangeRateRepository.findByUserId(userId);
+
+    return {
+      baseCurrency: user?.base_currency || DEFAULT_CURRENCY,
+      rates: buildRateTable(rates),
+      walletCurrencies: new Map(wallets.map(wallet => [wallet.id, wallet.currency])),
+      missingRates: new Set()
+    };
+  }
+
+  /**
+   * Convert a transaction amount (or one of its split lines) into the base
+   * currency at the rate of the transaction date. Amounts in a currency with
+   * no rate count as zero and the currency is reported as missing.
+   */
+  private toBaseCurrency(context: CurrencyContext, transaction: Transaction, amount: number | string = transaction.amount): number {
+    const currency = transaction.currency || context.walletCurrencies.get(transaction.wallet_id) || DEFAULT_CURRENCY;
+    const converted = convertAmount(context.rates, amount, currency, context.baseCurrency, transaction.transaction_date);
+
+    if (converted === null) {
+      context.missingRates.add(currency);
+      return 0;
+    }
+
+    return converted;
+  }
+
+  private getMissingRateCurrencies(context: CurrencyContext): string[] {
+    return Array.from(context.missingRates).sort();
+  }
+
+  // Income and expense of the user's transactions in a date range, in the base currency
+  private async getSummaryInBaseCurrency(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    walletIds: string[],
+    context: CurrencyContext
+  ): Promise<{ income: number; expense: number }> {
+    const transactions = await this.transactionRepository.findWithFiltersForWallets(
+      { user_id: userId, start_date: toDateKey(startDate), end_date: toDateKey(endDate) },
+      walletIds
+    );
+
+    return this.sumIncomeAndExpense(transactions, context);
+  }
+
+  private sumIncomeAndExpense(transactions: Transaction[], context: CurrencyContext): { income: number; expense: number } {
+    let income = 0;
+    let expense = 0;
+
+    for (const transaction of transactions) {
+      if (transaction.type === 'Income') {
+        income += this.toBaseCurrency(context, transaction);
+      } else if (transaction.type === 'Expense') {
+        expense += this.toBaseCurrency(context, transaction);
+      }
+    }
+
+    return { income: this.roundMoney(income), expense: this.roundMoney(expense) };
+  }
+
+  private roundMoney(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private async calculateTotalBalance(walletIds: string[], context: CurrencyContext): Promise<number> {
     if (walletIds.length === 0) return 0;
 
     let totalBalance = 0;
@@ -164,19 +327,19 @@ export class DashboardService {
     for (const walletId of walletIds) {
       const transactions = await this.transactionRepository.findByWalletId(walletId);
       const walletBalance = transactions.reduce((balance, transaction) => {
-        // Convert string amount to number
-        const amount = typeof transaction.amount === 'string' ? parseFloat(transaction.amount) : transaction.amount;
-        return transaction.type === 'Income' 
+        const amount = this.toBaseCurrency(context, transaction);
+        const isInflow = transaction.type === 'Income' || transaction.transfer_direction === 'Incoming';
+        return isInflow
           ? balance + (amount || 0)
           : balance - (amount || 0);
       }, 0);
       totalBalance += walletBalance;
     }
 
-    return totalBalance;
+    return this.roundMoney(totalBalance);
   }
 
-  private async calculateBudgetStatus(walletIds: string[]): Promise<DashboardSummary['budget_status']> {
+  private async calculateBudgetStatus(walletIds: string[], context: CurrencyContext): Promise<DashboardSummary['budget_status']> {
     if (walletIds.length === 0) {
       return {
         total_budgets: 0,
@@ -194,34 +357,22 @@ export class DashboardService {
     let budgetsOver = 0; // > 100%
 
     for (const walletId of walletIds) {
-      const budget = await this.budgetRepository.findByWalletAndMonth(walletId, currentMonth);
-      if (!budget) continue;
-
-      totalBudgets++;
+      // Wallet-level and category budgets are each counted on their own
+      const budgets = await this.budgetRepository.findAllByWalletAndMonth(walletId, currentMonth);
 
-      // Calculate spent amount for this wallet in current month
-      const startOfMonth = new Date(`${currentMonth}-01`);
-      const endOfMonth = new Date(startOfMonth.getFullYear(), startOfMonth.getMonth() + 1, 0);
-      
-      const transactions = await this.transactionRepository.findByWalletAndDateRange(
-        walletId,
-        startOfMonth,
-        endOfMonth,
-        { type: 'Expense' }
-      );
+      for (const budget of budgets) {
+        totalBudgets++;
 
-      const totalSpent = transactions.reduce((sum, t) => {
-        const amount = typeof t.amount === 'string' ? parseFloat(t.amount) : t.amount;
-        return sum + (amount || 0);
-      }, 0);
-      const percentageUsed = budget.limit > 0 ? (totalSpent / budget.limit) * 100 : 0;
+        const totalSpent = await this.calculateBudgetSpent(budget, context);
+        const percentageUsed = budget.limit > 0 ? (totalSpent / budget.limit) * 100 : 0;
 
-      if (percentageUsed > 100) {
-        budgetsOver++;
-      } else if (percentageUsed >= 70) {
-        budgetsWarning++;
-      } else {
-        budgetsOnTrack++;
+        if (percentageUsed > 100) {
+          budgetsOver++;
+        } else if (percentageUsed >= 70) {
+          budgetsWarning++;
+        } else {
+          budgetsOnTrack++;
+        }
       }
     }
 
@@ -244,6 +395,34 @@ export class DashboardService {
     };
   }
 
+  // Expenses of the budget month in the wallet's currency
+  private async calculateBudgetSpent(budget: Budget, context: CurrencyContext): Promise<number> {
+    const startOfMonth = new Date(`${budget.month}-01`);
+    const endOfMonth = new Date(startOfMonth.getFullYear(), startOfMonth.getMonth() + 1, 0);
+
+    const transactions = await this.transactionRepository.findByWalletAndDateRange(
+      budget.wallet_id,
+      startOfMonth,
+      endOfMonth,
+      { type: 'Expense' }
+    );
+
+    // Category budgets only count expense lines in their category, including split lines
+    const splits = budget.category_id
+      ? await this.transactionSplitRepository.findByTransactionIds(splitTransactionIds(transactions))
+      : [];
+    const lines = toCategoryLines(transactions, splits)
+      .filter(line => !budget.category_id || line.category_id === budget.category_id);
+
+    const walletCurrency = context.walletCurrencies.get(budget.wallet_id) || DEFAULT_CURRENCY;
+    const totalSpent = lines.reduce(
+      (sum, line) => sum + this.toWalletCurrency(context, line.transaction, walletCurrency, line.amount),
+      0
+    );
+
+    return this.roundMoney(totalSpent);
+  }
+
   private async getTransactionCount(userId: string, walletIds: string[]): Promise<number> {
     if (walletIds.length === 0) return 0;
 
@@ -275,16 +454,22 @@ export class DashboardService {
       transactionFilters.category_id = filters.category_id;
     }
 
+    if (filters.tags && filters.tags.length > 0) {
+      transactionFilters.tags = filters.tags;
+    }
+
     if (filters.type) {
       transactionFilters.type = filters.type;
     }
 
-    if (filters.start_date) {
-      transactionFilters.start_date = new Date(filters.start_date);
+    const startDate = parseDateInput(filters.start_date);
+    if (startDate) {
+      transactionFilters.start_date = startDate;
     }
 
-    if (filters.end_date) {
-      transactionFilters.end_date = new Date(filters.end_date);
+    const endDate = parseDateInput(filters.end_date);
+    if (endDate) {
+      transactionFilters.end_date = endDate;
     }
 
     // Get paginated transactions
@@ -301,27 +486,27 @@ export class DashboardService {
       filters.wallet_id ? [filters.wallet_id] : accessibleWalletIds
     );
 
-    const totalIncome = allTransactions
-      .filter(t => t.type === 'Income')
-      .reduce((sum, t) => {
-        const amount = typeof t.amount === 'string' ? parseFloat(t.amount) : t.amount;
-        return sum + (amount || 0);
-      }, 0);
+    const currencyContext = await this.getCurrencyContext(userId, accessibleWalletIds);
+    const { income: totalIncome, expense: totalExpense } = this.sumIncomeAndExpense(allTransactions, currencyContext);
 
-    const totalExpense = allTransactions
-      .filter(t => t.type === 'Expense')
-      .reduce((sum, t) => {
-        const amount = typeof t.amount === 'string' ? parseFloat(t.amount) : t.amount;
-        return sum + (amount || 0);
-      }, 0);
+    // Exports list split transactions line by line, along with their tags
+    const splits = await this.transactionSplitRepository.findByTransactionIds(splitTransactionIds(result.data));
+    const tags = await this.tagRepository.findNamesByTransactionIds(result.data.map(t => t.id));
+    const transactions = result.data.map(transaction => ({
+      ...transaction,
+      ...(transaction.is_split ? { splits: splits.filter(split => split.transaction_id === transaction.id) } : {}),
+      tags: tags.filter(tag => tag.transaction_id === transaction.id).map(tag => tag.name)
+    }));
 
     return {
-      transactions: result.data,
+      transactions,
       summary: {
         total_income: totalIncome,
         total_expense: totalExpense,
-        net_amount: totalIncome - totalExpense,
-        transaction_count: allTransactions.length
+        net_amount: this.roundMoney(totalIncome - totalExpense),
+        transaction_count: allTransactions.length,
+        base_currency: currencyContext.baseCurrency,
+        missing_rate_currencies: this.getMissingRateCurrencies(currencyContext)
       },
       pagination: {
         page: result.page,
@@ -351,30 +536,35 @@ export class DashboardService {
       transactionFilters.type = filters.type;
     }
 
-    if (filters.start_date) {
-      transactionFilters.start_date = new Date(filters.start_date);
+    const startDate = parseDateInput(filters.start_date);
+    if (startDate) {
+      transactionFilters.start_date = startDate;
     }
 
-    if (filters.end_date) {
-      transactionFilters.end_date = new Date(filters.end_date);
+    const endDate = parseDateInput(filters.end_date);
+    if (endDate) {
+      transactionFilters.end_date = endDate;
     }
 
-    // Get all matching transactions
-    const transactions = await this.transactionRepository.findWithFiltersForWallets(
+    if (filters.tags && filters.tags.length > 0) {
+      transactionFilters.tags = filters.tags;
+    }
+
+    // Get all matching transactions, leaving out transfers between wallets
+    const transactions = (await this.transactionRepository.findWithFiltersForWallets(
       transactionFilters,
       filters.wallet_id ? [filters.wallet_id] : accessibleWalletIds
-    );
+    )).filter(t => t.type !== 'Transfer');
 
-    // Group by category
+    // Group by category, counting each line of a split transaction under its own category
+    const splits = await this.transactionSplitRepository.findByTransactionIds(splitTransactionIds(transactions));
+    const currencyContext = await this.getCurrencyContext(userId, accessibleWalletIds);
     const categoryMap = new Map<string | null, { amount: number; count: number }>();
     
-    for (const transaction of transactions) {
-      const categoryId = transaction.category_id;
-      const existing = categoryMap.get(categoryId) || { amount: 0, count: 0 };
-      // Convert string amount to number
-      const amount = typeof transaction.amount === 'string' ? parseFloat(transaction.amount) : transaction.amount;
-      categoryMap.set(categoryId, {
-        amount: existing.amount + (amount || 0),
+    for (const line of toCategoryLines(transactions, splits)) {
+      const existing = categoryMap.get(line.category_id) || { amount: 0, count: 0 };
+      categoryMap.set(line.category_id, {
+        amount: existing.amount + this.toBaseCurrency(currencyContext, line.transaction, line.amount),
         count: existing.count + 1
       });
     }
@@ -385,7 +575,7 @@ export class DashboardService {
       ? await this.categoryRepository.findByIds(categoryIds)
       : [];
 
-    const totalAmount = Array.from(categoryMap.values()).reduce((sum, item) => sum + item.amount, 0);
+    const totalAmount = this.roundMoney(Array.from(categoryMap.values()).reduce((sum, item) => sum + item.amount, 0));
     const totalTransactions = transactions.length;
 
     // Build breakdown
@@ -398,7 +588,7 @@ export class DashboardService {
       breakdown.push({
         category_id: categoryId,
         category_name: category?.name || 'Uncategorized',
-        total_amount: data.amount,
+        total_amount: this.roundMoney(data.amount),
         transaction_count: data.count,
         percentage: percentage
       });
@@ -410,7 +600,82 @@ export class DashboardService {
     return {
       breakdown,
       total_amount: totalAmount,
-      total_transactions: totalTransactions
+      total_transactions: totalTransactions,
+      base_currency: currencyContext.baseCurrency,
+      missing_rate_currencies: this.getMissingRateCurrencies(currencyContext)
+    };
+  }
+
+  async getTagBreakdown(userId: string, filters: TagBreakdownFilters): Promise<TagBreakdown> {
+    const accessibleWalletIds = await this.getAccessibleWalletIds(userId);
+
+    // Build transaction filters
+    const transactionFilters: any = {
+      user_id: userId
+    };
+
+    if (filters.wallet_id) {
+      if (!accessibleWalletIds.includes(filters.wallet_id)) {
+        throw new Error('Access denied to wallet');
+      }
+      transactionFilters.wallet_id = filters.wallet_id;
+    }
+
+    if (filters.type) {
+      transactionFilters.type = filters.type;
+    }
+
+    const startDate = parseDateInput(filters.start_date);
+    if (startDate) {
+      transactionFilters.start_date = startDate;
+    }
+
+    const endDate = parseDateInput(filters.end_date);
+    if (endDate) {
+      transactionFilters.end_date = endDate;
+    }
+
+    // Get all matching transactions, leaving out transfers between wallets
+    const transactions = (await this.transactionRepository.findWithFiltersForWallets(
+      transactionFilters,
+      filters.wallet_id ? [filters.wallet_id] : accessibleWalletIds
+    )).filter(t => t.type !== 'Transfer');
+
+    // Group by tag name, counting the whole amount under every tag of the transaction
+    const tags = await this.tagRepository.findNamesByTransactionIds(transactions.map(t => t.id));
+    const currencyContext = await this.getCurrencyContext(userId, accessibleWalletIds);
+    const tagMap = new Map<string | null, { amount: number; count: number }>();
+    let totalAmount = 0;
+
+    for (const transaction of transactions) {
+      const amount = this.toBaseCurrency(currencyContext, transaction);
+      const tagNames = tags.filter(tag => tag.transaction_id === transaction.id).map(tag => tag.name);
+      totalAmount += amount;
+
+      for (const tagName of tagNames.length > 0 ? [...new Set(tagNames)] : [null]) {
+        const existing = tagMap.get(tagName) || { amount: 0, count: 0 };
+        tagMap.set(tagName, { amount: existing.amount + amount, count: existing.count + 1 });
+      }
+    }
+
+    totalAmount = this.roundMoney(totalAmount);
+
+    const breakdown: TagBreakdownItem[] = Array.from(tagMap.entries()).map(([tagName, data]) => ({
+      tag_name: tagName,
+      total_amount: this.roundMoney(data.amount),
+      transaction_count: data.count,
+      percentage: totalAmount > 0 ? (data.amount / totalAmount) * 100 : 0
+    }));
+
+    // Sort by amount descending
+    breakdown.sort((a, b) => b.total_amount - a.total_amount);
+
+    return {
+      breakdown,
+      total_amount: totalAmount,
+      total_transactions: transactions.length,
+      base_currency: currencyContext.baseCurrency,
+      missing_rate_currencies: this.getMissingRateCurrencies(currencyContext)
     };
   }
 
@@ -422,6 +687,7 @@ export class DashboardService {
     }
 
     const walletIds = filters.wallet_id ? [filters.wallet_id] : accessibleWalletIds;
+    const currencyContext = await this.getCurrencyContext(userId, walletIds);
     const trends: TrendDataPoint[] = [];
     
     const currentDate = new Date();
@@ -451,18 +717,19 @@ export class DashboardService {
       }
 
       // Get transactions for this period
-      const periodSummary = await this.transactionRepository.getSummaryByDateRange(
+      const periodSummary = await this.getSummaryInBaseCurrency(
         userId,
         startDate,
         endDate,
-        walletIds
+        walletIds,
+        currencyContext
       );
 
       trends.push({
         period: periodLabel,
         income: periodSummary.income,
         expense: periodSummary.expense,
-        net: periodSummary.income - periodSummary.expense
+        net: this.roundMoney(periodSummary.income - periodSummary.expense)
       });
     }
 
@@ -479,10 +746,154 @@ export class DashboardService {
         avg_expense: avgExpense,
         avg_net: avgNet,
         total_periods: trends.length
+      },
+      base_currency: currencyContext.baseCurrency,
+      missing_rate_currencies: this.getMissingRateCurrencies(currencyContext)
+    };
+  }
+
+  /**
+   * Project each wallet's balance over the next `days` days from its current
+   * balance, the unsettled reminder occurrences and recurring transactions
+   * still to come, and the average discretionary spend of the last 90 days.
+   * Discretionary spend leaves out transfers and anything posted by a
+   * recurring rule or a reminder, which are already scheduled. Reminders
+   * without a wallet are left out.
+   */
+  async getCashFlowForecast(userId: string, filters: ForecastFilters): Promise<CashFlowForecast> {
+    const accessibleWalletIds = await this.getAccessibleWalletIds(userId);
+
+    if (filters.wallet_id && !accessibleWalletIds.includes(filters.wallet_id)) {
+      throw new Error('Access denied to wallet');
+    }
+
+    const walletIds = filters.wallet_id ? [filters.wallet_id] : accessibleWalletIds;
+    const currencyContext = await this.getCurrencyContext(userId, walletIds);
+    const wallets = await this.walletRepository.findByIds(walletIds);
+
+    const today = new Date();
+    const todayKey = toDateKey(today);
+    const endKey = addDaysToKey(todayKey, filters.days);
+    const lookbackStart = new Date(`${addDaysToKey(todayKey, -FORECAST_LOOKBACK_DAYS)}T00:00:00`);
+
+    const reminders = (await this.reminderService.getUserReminders(userId))
+      .filter(reminder => reminder.is_active && reminder.wallet_id && walletIds.includes(reminder.wallet_id));
+    const settlements = await this.reminderSettlementRepository.findByReminderIds(
+      reminders.map(reminder => reminder.id),
+      toDateKey(lookbackStart)
+    );
+    const settledOccurrences = new Set(settlements.map(s => `${s.reminder_id}:${toDateKey(s.occurrence_date)}`));
+    const reminderTransactionIds = new Set(settlements.map(s => s.transaction_id).filter(Boolean));
+
+    const eventsByWallet = new Map<string, ForecastEvent[]>(walletIds.map(id => [id, []]));
+
+    for (const reminder of reminders) {
+      // Daily reminders are the most frequent, with one occurrence a day
+      const occurrences = await this.reminderService.getAllUpcomingOccurrences(reminder, filters.days + 1);
+      for (const occurrence of occurrences) {
+        const date = toDateKey(occurrence);
+        if (date > endKey || settledOccurrences.has(`${reminder.id}:${date}`)) {
+          continue;
+        }
+
+        eventsByWallet.get(reminder.wallet_id!)!.push({
+          date,
+          source: 'reminder',
+          source_id: reminder.id,
+          title: reminder.title,
+          amount: reminder.type === 'Payment' ? -Number(reminder.amount) : Number(reminder.amount)
+        });
       }
+    }
+
+    const forecastEnd = new Date(`${endKey}T00:00:00`);
+    for (const walletId of walletIds) {
+      const rules = await this.recurringTransactionRepository.findByWalletId(walletId);
+      for (const rule of rules.filter(r => r.is_active)) {
+        // Occurrences due before today are posted on the next run, so only later ones count
+        for (const occurrence of this.recurringTransactionService.getDueOccurrences(rule, forecastEnd)) {
+          const date = toDateKey(occurrence);
+          if (date < todayKey) {
+            continue;
+          }
+
+          eventsByWallet.get(walletId)!.push({
+            date,
+            source: 'recurring',
+            source_id: rule.id,
+            title: rule.title,
+            amount: rule.type === 'Income' ? Number(rule.amount) : -Number(rule.amount)
+          });
+        }
+      }
+    }
+
+    const recentExpenses = await this.transactionRepository.findWithFiltersForWallets(
+      { type: 'Expense', start_date: toDateKey(lookbackStart), end_date: toDateKey(today) },
+      walletIds
+    );
+
+    const forecasts: WalletForecast[] = [];
+    for (const wallet of wallets) {
+      const transactions = await this.transactionRepository.findByWalletId(wallet.id);
+      const startingBalance = transactions.reduce((balance, transaction) => {
+        const amount = this.toWalletCurrency(currencyContext, transaction, wallet.currency);
+        const isInflow = transaction.type === 'Income' || transaction.transfer_direction === 'Incoming';
+        return isInflow ? balance + amount : balance - amount;
+      }, 0);
+
+      const discretionarySpend = recentExpenses
+        .filter(t => t.wallet_id === wallet.id && !t.recurring_transaction_id && !reminderTransactionIds.has(t.id))
+        .reduce((total, t) => total + this.toWalletCurrency(currencyContext, t, wallet.currency), 0);
+
+      const events = eventsByWallet.get(wallet.id)!.sort((a, b) => a.date.localeCompare(b.date));
+      forecasts.push(buildWalletForecast(
+        wallet,
+        startingBalance,
+        discretionarySpend / FORECAST_LOOKBACK_DAYS,
+        events,
+        todayKey,
+        filters.days
+      ));
+    }
+
+    return {
+      start_date: todayKey,
+      end_date: endKey,
+      days: filters.days,
+      lookback_days: FORECAST_LOOKBACK_DAYS,
+      wallets: forecasts,
+      missing_rate_currencies: this.getMissingRateCurrencies(currencyContext)
     };
   }
 
+  // A transaction amount (or one of its split lines) in its wallet's currency, counting as zero without a rate
+  private toWalletCurrency(
+    context: CurrencyContext,
+    transaction: Transaction,
+    walletCurrency: string,
+    amount: number | string = transaction.amount
+  ): number {
+    if (!transaction.currency || transaction.currency === walletCurrency) {
+      return Number(amount) || 0;
+    }
+
+    const converted = convertAmount(
+      context.rates,
+      amount,
+      transaction.currency,
+      walletCurrency,
+      transaction.transaction_date
+    );
+
+    if (converted === null) {
+      context.missingRates.add(transaction.currency);
+      return 0;
+    }
+
+    return converted;
+  }
+
   async getAccessibleCategories(userId: string): Promise<any[]> {
     const accessibleWalletIds = await this.getAccessibleWalletIds(userId);
     
@@ -641,6 +1052,7 @@ export class DashboardService {
   }> {
     const accessibleWalletIds = await this.getAccessibleWalletIds(userId);
     const walletIds = options.wallet_id ? [options.wallet_id] : accessibleWalletIds;
+    const currencyContext = await this.getCurrencyContext(userId, walletIds);
     
     const currentMonth = new Date().toISOString().slice(0, 7);
     const labels: string[] = [];
@@ -650,41 +1062,34 @@ export class DashboardService {
 
     for (const walletId of walletIds) {
       const wallet = await this.walletRepository.findById(walletId);
-      const budget = await this.budgetRepository.findByWalletAndMonth(walletId, currentMonth);
-      
-      if (!budget || !wallet) continue;
+      if (!wallet) continue;
 
-      // Calculate spent amount
-      const startOfMonth = new Date(`${currentMonth}-01`);
-      const endOfMonth = new Date(startOfMonth.getFullYear(), startOfMonth.getMonth() + 1, 0);
-      
-      const transactions = await this.transactionRepository.findByWalletAndDateRange(
-        walletId,
-        startOfMonth,
-        endOfMonth,
-        { type: 'Expense' }
+      // Wallet-level budget first, followed by the wallet's category budgets
+      const budgets = await this.budgetRepository.findAllByWalletAndMonth(walletId, currentMonth);
+      const categories = await this.categoryRepository.findByIds(
+        budgets.map(b => b.category_id).filter((id): id is string => id !== null)
       );
 
-      const totalSpent = transactions.reduce((sum, t) => {
-        const amount = typeof t.amount === 'string' ? parseFloat(t.amount) : t.amount;
-        return sum + (amount || 0);
-      }, 0);
-      const remaining = Math.max(0, budget.limit - totalSpent);
-      const percentageUsed = budget.limit > 0 ? (totalSpent / budget.limit) * 100 : 0;
-
-      labels.push(wallet.name);
-      spentData.push(totalSpent);
-      remainingData.push(remaining);
-
-      // Color based on budget status
-      if (percentageUsed > 100) {
-        colors.push('rgba(239, 68, 68, 0.8)'); // Red
-      } else if (percentageUsed >= 90) {
-        colors.push('rgba(245, 158, 11, 0.8)'); // Orange
-      } else if (percentageUsed >= 70) {
-        colors.push('rgba(251, 191, 36, 0.8)'); // Yellow
-      } else {
-        colors.push('rgba(34, 197, 94, 0.8)'); // Green
+      for (const budget of budgets) {
+        const totalSpent = await this.calculateBudgetSpent(budget, currencyContext);
+        const remaining = Math.max(0, budget.limit - totalSpent);
+        const percentageUsed = budget.limit > 0 ? (totalSpent / budget.limit) * 100 : 0;
+
+        const category = budget.category_id ? categories.find(c => c.id === budget.category_id) : undefined;
+        labels.push(category ? `${wallet.name} - ${category.name}` : wallet.name);
+        spentData.push(totalSpent);
+        remainingData.push(remaining);
+
+        // Color based on budget status
+        if (percentageUsed > 100) {
+          colors.push('rgba(239, 68, 68, 0.8)'); // Red
+        } else if (percentageUsed >= 90) {
+          colors.push('rgba(245, 158, 11, 0.8)'); // Orange
+        } else if (percentageUsed >= 70) {
+          colors.push('rgba(251, 191, 36, 0.8)'); // Yellow
+        } else {
+          colors.push('rgba(34, 197, 94, 0.8)'); // Green
+        }
       }
     }
 
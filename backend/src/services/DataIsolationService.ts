@@ -5,6 +5,7 @@ import { BudgetRepository } from '../repositories/BudgetRepository';
 import { ReminderRepository } from '../repositories/ReminderRepository';
 import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
 import { UserRepository } from '../repositories/UserRepository';
+import { SecurityLogService } from './SecurityLogService';
 
 export class DataIsolationService {
   private walletRepository: WalletRepository;
@@ -14,6 +15,7 @@ export class DataIsolationService {
   private reminderRepository: ReminderRepository;
   private familyWalletMemberRepository: FamilyWalletMemberRepository;
   private userRepository: UserRepository;
+  private securityLogService: SecurityLogService;
 
   constructor() {
     this.walletRepository = new WalletRepository();
@@ -23,6 +25,7 @@ export class DataIsolationService {
     this.reminderRepository = new ReminderRepository();
     this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
     this.userRepository = new UserRepository();
+    this.securityLogService = new SecurityLogService();
   }
 
   // Comprehensive ownership validation methods
@@ -280,11 +283,15 @@ export class DataIsolationService {
     };
 
     console.warn('SECURITY VIOLATION:', JSON.stringify(logEntry, null, 2));
-    
-    // In a production environment, you would want to:
-    // 1. Store this in a dedicated security log table
-    // 2. Send alerts to security team
-    // 3. Potentially trigger automated responses
+
+    await this.securityLogService.record('access_violation', {
+      userId,
+      details: { action, resource_type: resourceType, resource_id: resourceId, ...(details ? { details } : {}) }
+    });
+
+    // In a production environment, you would also want to:
+    // 1. Send alerts to security team
+    // 2. Potentially trigger automated responses
   }
 
   // Validate resource existence and ownership in one call
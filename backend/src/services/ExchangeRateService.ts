@@ -0,0 +1,117 @@
+import { ExchangeRateRepository } from '../repositories/ExchangeRateRepository';
+import {
+  ExchangeRate,
+  CreateExchangeRateRequest,
+  ExchangeRateImportRequest,
+  ExchangeRateImportPreview,
+  ExchangeRateImportResult,
+  ParsedExchangeRateRow
+} from '../types';
+import { buildExchangeRateRow, parseExchangeRateCsv } from '../utils/exchangeRateImport';
+
+// Largest rate file accepted, in data rows
+const MAX_RATE_IMPORT_ROWS = 5000;
+
+export class ExchangeRateService {
+  private exchangeRateRepository: ExchangeRateRepository;
+
+  constructor() {
+    this.exchangeRateRepository = new ExchangeRateRepository();
+  }
+
+  async getUserRates(userId: string): Promise<ExchangeRate[]> {
+    return this.exchangeRateRepository.findByUserId(userId);
+  }
+
+  // Save a rate entered by hand, replacing any rate for the same pair and day
+  async saveRate(userId: string, rateData: CreateExchangeRateRequest): Promise<ExchangeRate> {
+    const row = buildExchangeRateRow(1, rateData.rate_date, rateData.from_currency, rateData.to_currency, rateData.rate);
+    if ('error' in row) {
+      throw new Error('VALIDATION_INVALID_EXCHANGE_RATE');
+    }
+
+    const [saved] = await this.exchangeRateRepository.upsertMany([this.toExchangeRate(userId, row)]);
+    return saved;
+  }
+
+  async previewImport(importData: ExchangeRateImportRequest): Promise<ExchangeRateImportPreview> {
+    const parsed = this.parseImport(importData);
+
+    return {
+      total_rows: parsed.rows.length + parsed.errors.length,
+      rows: parsed.rows,
+      errors: parsed.errors
+    };
+  }
+
+  /**
+   * Import rates from CSV. Like transaction imports this is all-or-nothing:
+   * if any row fails to parse, nothing is written and every failing row is
+   * reported. Rates already stored for the same pair and day are replaced.
+   */
+  async importRates(userId: string, importData: ExchangeRateImportRequest): Promise<ExchangeRateImportResult> {
+    const parsed = this.parseImport(importData);
+    const totalRows = parsed.rows.length + parsed.errors.length;
+
+    if (parsed.errors.length > 0) {
+      return {
+        status: 'failed',
+        total_rows: totalRows,
+        imported_records: 0,
+        errors: parsed.errors
+      };
+    }
+
+    // A pair repeated within the file keeps its last rate
+    const latestRows = new Map<string, ParsedExchangeRateRow>();
+    for (const row of parsed.rows) {
+      latestRows.set(`${row.from_currency}:${row.to_currency}:${row.rate_date}`, row);
+    }
+
+    const saved = await this.exchangeRateRepository.upsertMany(
+      Array.from(latestRows.values()).map(row => this.toExchangeRate(userId, row))
+    );
+
+    return {
+      status: 'completed',
+      total_rows: totalRows,
+      imported_records: saved.length,
+      errors: []
+    };
+  }
+
+  async deleteRate(rateId: string, userId: string): Promise<boolean> {
+    const rate = await this.exchangeRateRepository.findById(rateId);
+    if (!rate || rate.user_id !== userId) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return this.exchangeRateRepository.delete(rateId);
+  }
+
+  private parseImport(importData: ExchangeRateImportRequest) {
+    const parsed = parseExchangeRateCsv(importData.content, importData.has_header !== false);
+
+    const rowCount = parsed.rows.length + parsed.errors.length;
+    if (rowCount === 0) {
+      throw new Error('VALIDATION_EMPTY_IMPORT_FILE');
+    }
+
+    if (rowCount > MAX_RATE_IMPORT_ROWS) {
+      throw new Error('VALIDATION_IMPORT_TOO_LARGE');
+    }
+
+    return parsed;
+  }
+
+  private toExchangeRate(userId: string, row: ParsedExchangeRateRow): Omit<ExchangeRate, 'id' | 'created_at'> {
+    return {
+      user_id: userId,
+      from_currency: row.from_currency,
+      to_currency: row.to_currency,
+      rate: row.rate,
+      rate_date: row.rate_date,
+      updated_at: new Date()
+    };
+  }
+}
\ No newline at end of file
@@ -4,6 +4,8 @@ import { createObjectCsvWriter } from 'csv-writer';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { Transaction, Category, Wallet } from '../types';
+import { CategoryLine, toCategoryLines } from '../utils/transactionSplits';
+import { fromDateKey, toDateKey } from '../utils/dates';
 
 export interface ExportData {
   transactions: Transaction[];
@@ -44,16 +46,20 @@ export class ExportService {
     const categoryMap = new Map(categories.map(c => [c.id, c.name]));
     const walletMap = new Map(wallets.map(w => [w.id, w.name]));
 
-    // Prepare CSV data
-    const csvData = transactions.map(transaction => ({
-      id: transaction.id,
-      title: transaction.title,
-      amount: transaction.amount,
-      type: transaction.type,
-      category: categoryMap.get(transaction.category_id || '') || 'Uncategorized',
-      wallet: walletMap.get(transaction.wallet_id) || 'Unknown',
-      created_at: transaction.created_at.toISOString(),
-      created_by: transaction.created_by
+    // Prepare CSV data, with one row per line of a split transaction
+    const csvData = this.toExportLines(transactions).map(line => ({
+      id: line.transaction.id,
+      title: line.transaction.title,
+      amount: line.amount,
+      type: line.transaction.type,
+      category: categoryMap.get(line.category_id || '') || 'Uncategorized',
+      wallet: walletMap.get(line.transaction.wallet_id) || 'Unknown',
+      transaction_date: toDateKey(line.transaction.transaction_date),
+      split: line.split ? `${line.split.position + 1} of ${line.transaction.splits!.length}` : '',
+      split_memo: line.split?.memo || '',
+      tags: (line.transaction.tags || []).join(', '),
+      created_at: line.transaction.created_at.toISOString(),
+      created_by: line.transaction.created_by
     }));
 
     // Create CSV writer
@@ -66,6 +72,10 @@ export class ExportService {
         { id: 'type', title: 'Type' },
         { id: 'category', title: 'Category' },
         { id: 'wallet', title: 'Wallet' },
+        { id: 'transaction_date', title: 'Date' },
+        { id: 'split', title: 'Split Line' },
+        { id: 'split_memo', title: 'Split Memo' },
+        { id: 'tags', title: 'Tags' },
         { id: 'created_at', title: 'Date Created' },
         { id: 'created_by', title: 'Created By' }
       ]
@@ -124,19 +134,20 @@ export class ExportService {
       yPosition += 15;
     }
 
-    // Prepare table data
-    const tableData = transactions.map(transaction => [
-      transaction.title,
-      `$${transaction.amount.toFixed(2)}`,
-      transaction.type,
-      categoryMap.get(transaction.category_id || '') || 'Uncategorized',
-      walletMap.get(transaction.wallet_id) || 'Unknown',
-      new Date(transaction.created_at).toLocaleDateString()
+    // Prepare table data, with one row per line of a split transaction
+    const tableData = this.toExportLines(transactions).map(line => [
+      line.split ? `${line.transaction.title} - ${line.split.memo || `split ${line.split.position + 1}`}` : line.transaction.title,
+      `$${line.amount.toFixed(2)}`,
+      line.transaction.type,
+      categoryMap.get(line.category_id || '') || 'Uncategorized',
+      walletMap.get(line.transaction.wallet_id) || 'Unknown',
+      (line.transaction.tags || []).join(', '),
+      fromDateKey(line.transaction.transaction_date).toLocaleDateString()
     ]);
 
     // Add transactions table
     autoTable(doc, {
-      head: [['Title', 'Amount', 'Type', 'Category', 'Wallet', 'Date']],
+      head: [['Title', 'Amount', 'Type', 'Category', 'Wallet', 'Tags', 'Date']],
       body: tableData,
       startY: yPosition,
       styles: { fontSize: 8 },
@@ -221,6 +232,10 @@ export class ExportService {
     return filePath;
   }
 
+  private toExportLines(transactions: Transaction[]): CategoryLine[] {
+    return toCategoryLines(transactions, transactions.flatMap(transaction => transaction.splits || []));
+  }
+
   cleanupFile(filePath: string): void {
     try {
       if (fs.existsSync(filePath)) {
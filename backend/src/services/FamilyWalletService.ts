@@ -4,6 +4,7 @@ import { InvitationRepository } from '../repositories/InvitationRepository';
 import { WalletRepository } from '../repositories/WalletRepository';
 import { UserRepository } from '../repositories/UserRepository';
 import { FamilyWalletMember, Invitation, Wallet } from '../types';
+import { DEFAULT_CURRENCY } from '../utils/currency';
 
 export class FamilyWalletService {
   private familyWalletMemberRepository: FamilyWalletMemberRepository;
@@ -41,6 +42,7 @@ export class FamilyWalletService {
       name: name.trim(),
       is_default: isFirstWallet,
       is_family: true,
+      currency: user.base_currency || DEFAULT_CURRENCY,
       created_at: new Date(),
       updated_at: new Date()
     };
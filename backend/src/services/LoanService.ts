@@ -0,0 +1,441 @@
+import { v4 as uuidv4 } from 'uuid';
+import { LoanRepository } from '../repositories/LoanRepository';
+import { LoanPaymentRepository } from '../repositories/LoanPaymentRepository';
+import { ReminderRepository } from '../repositories/ReminderRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
+import { TransactionService } from './TransactionService';
+import {
+  Loan,
+  LoanPayment,
+  LoanPaymentDetail,
+  LoanSummary,
+  LoanSimulation,
+  AmortizationSchedule,
+  CreateLoanRequest,
+  UpdateLoanRequest,
+  CreateLoanPaymentRequest,
+  Reminder,
+  Transaction
+} from '../types';
+import {
+  allocatePayments,
+  buildAmortizationSchedule,
+  calculateMonthlyPayment,
+  getPaymentDate,
+  ScheduleOptions
+} from '../utils/amortization';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { toDateKey } from '../utils/dates';
+
+const MAX_TERM_MONTHS = 600;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export class LoanService {
+  private loanRepository: LoanRepository;
+  private loanPaymentRepository: LoanPaymentRepository;
+  private reminderRepository: ReminderRepository;
+  private walletRepository: WalletRepository;
+  private familyWalletMemberRepository: FamilyWalletMemberRepository;
+  private transactionService: TransactionService;
+
+  constructor() {
+    this.loanRepository = new LoanRepository();
+    this.loanPaymentRepository = new LoanPaymentRepository();
+    this.reminderRepository = new ReminderRepository();
+    this.walletRepository = new WalletRepository();
+    this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+    this.transactionService = new TransactionService();
+  }
+
+  async getUserLoans(userId: string): Promise<LoanSummary[]> {
+    const loans = await this.loanRepository.findByUserId(userId);
+    return Promise.all(loans.map(loan => this.buildSummary(loan)));
+  }
+
+  async getLoanById(loanId: string, userId: string): Promise<Loan | null> {
+    const loan = await this.loanRepository.findById(loanId);
+    if (!loan || loan.user_id !== userId) {
+      return null;
+    }
+
+    return loan;
+  }
+
+  async getLoanSummary(loanId: string, userId: string): Promise<LoanSummary | null> {
+    const loan = await this.getLoanById(loanId, userId);
+    if (!loan) {
+      return null;
+    }
+
+    return this.buildSummary(loan);
+  }
+
+  // The loan's original schedule, optionally with an extra amount paid every month
+  async getSchedule(loanId: string, userId: string, options: ScheduleOptions = {}): Promise<AmortizationSchedule> {
+    const loan = await this.getRequiredLoan(loanId, userId);
+    const monthlyPayment = this.getMonthlyPayment(loan);
+
+    return buildAmortizationSchedule(Number(loan.principal), Number(loan.annual_rate), monthlyPayment, loan.start_date, {
+      extra_monthly: options.extra_monthly
+    });
+  }
+
+  /**
+   * Compare paying off what is left at the scheduled payment against paying
+   * extra every month and/or a lump sum with the next payment.
+   */
+  async simulateExtraPayments(
+    loanId: string,
+    userId: string,
+    extraMonthly: number,
+    lumpSum: number
+  ): Promise<LoanSimulation> {
+    const loan = await this.getRequiredLoan(loanId, userId);
+    const payments = await this.syncPayments(loan);
+    const { remaining_balance } = this.allocate(loan, payments);
+    const monthlyPayment = this.getMonthlyPayment(loan);
+    const firstPeriod = this.getNextPeriod(loan, payments);
+
+    const baseline = buildAmortizationSchedule(remaining_balance, Number(loan.annual_rate), monthlyPayment, loan.start_date, {
+      first_period: firstPeriod
+    });
+    const simulated = buildAmortizationSchedule(remaining_balance, Number(loan.annual_rate), monthlyPayment, loan.start_date, {
+      first_period: firstPeriod,
+      extra_monthly: extraMonthly,
+      lump_sum: lumpSum
+    });
+
+    return {
+      extra_monthly: extraMonthly,
+      lump_sum: lumpSum,
+      baseline,
+      simulated,
+      interest_saved: roundMoney(baseline.total_interest - simulated.total_interest),
+      months_saved: baseline.rows.length - simulated.rows.length
+    };
+  }
+
+  async createLoan(userId: string, loanData: CreateLoanRequest): Promise<LoanSummary> {
+    // Verify wallet access (including family wallet membership)
+    const hasAccess = await this.validateWalletAccess(loanData.wallet_id, userId);
+    if (!hasAccess) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    this.validateTerms(loanData.principal, loanData.annual_rate, loanData.term_months);
+
+    const newLoan: Loan = {
+      id: uuidv4(),
+      user_id: userId,
+      wallet_id: loanData.wallet_id,
+      reminder_id: null,
+      name: loanData.name.trim(),
+      principal: loanData.principal,
+      annual_rate: loanData.annual_rate,
+      term_months: loanData.term_months,
+      start_date: this.parseDate(loanData.start_date),
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    if (loanData.create_reminder) {
+      const reminder = await this.reminderRepository.create(this.buildReminder(newLoan));
+      newLoan.reminder_id = reminder.id;
+    }
+
+    const created = await this.loanRepository.create(newLoan);
+    return this.buildSummary(created);
+  }
+
+  async updateLoan(loanId: string, userId: string, loanData: UpdateLoanRequest): Promise<LoanSummary> {
+    const existingLoan = await this.getRequiredLoan(loanId, userId);
+
+    const updateData: Partial<Loan> = {
+      name: loanData.name?.trim(),
+      principal: loanData.principal,
+      annual_rate: loanData.annual_rate,
+      term_months: loanData.term_months,
+      start_date: loanData.start_date ? this.parseDate(loanData.start_date) : undefined,
+      updated_at: new Date()
+    };
+
+    // Clean up undefined values
+    Object.keys(updateData).forEach(key => {
+      if (updateData[key as keyof Loan] === undefined) {
+        delete updateData[key as keyof Loan];
+      }
+    });
+
+    const updatedTerms = { ...existingLoan, ...updateData };
+    this.validateTerms(Number(updatedTerms.principal), Number(updatedTerms.annual_rate), Number(updatedTerms.term_months));
+
+    const updated = await this.loanRepository.update(loanId, updateData);
+    if (!updated) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    // Keep the payment reminder in step with the new schedule
+    if (updated.reminder_id) {
+      const { amount, due_date, duration_end, title } = this.buildReminder(updated);
+      await this.reminderRepository.update(updated.reminder_id, { amount, due_date, duration_end, title });
+    }
+
+    return this.buildSummary(updated);
+  }
+
+  // Payment transactions are kept; the loan's own payment reminder goes with it, skipping the trash
+  async deleteLoan(loanId: string, userId: string): Promise<boolean> {
+    const existingLoan = await this.getRequiredLoan(loanId, userId);
+
+    const deleted = await this.loanRepository.delete(loanId);
+    if (deleted && existingLoan.reminder_id) {
+      await this.reminderRepository.forceDelete(existingLoan.reminder_id);
+    }
+
+    return deleted;
+  }
+
+  async getPayments(loanId: string, userId: string): Promise<LoanPaymentDetail[]> {
+    const loan = await this.getRequiredLoan(loanId, userId);
+    return this.syncPayments(loan);
+  }
+
+  /**
+   * Record a payment towards a loan, either by linking an existing expense or
+   * by recording a new one in the loan's wallet.
+   */
+  async addPayment(loanId: string, userId: string, paymentData: CreateLoanPaymentRequest): Promise<LoanPaymentDetail[]> {
+    const loan = await this.getRequiredLoan(loanId, userId);
+
+    let transaction: Transaction;
+    if (paymentData.transaction_id) {
+      const existing = await this.transactionService.getTransactionById(paymentData.transaction_id, userId);
+      if (!existing) {
+        throw new Error('RESOURCE_NOT_FOUND');
+      }
+      transaction = existing;
+    } else {
+      transaction = await this.transactionService.createTransaction(userId, {
+        title: `${loan.name} payment`,
+        amount: paymentData.amount!,
+        type: 'Expense',
+        wallet_id: loan.wallet_id,
+        category_id: paymentData.category_id || null,
+        transaction_date: paymentData.payment_date || toDateKey(new Date())
+      });
+    }
+
+    await this.linkTransaction(loan, transaction);
+    return this.syncPayments(loan);
+  }
+
+  async removePayment(loanId: string, paymentId: string, userId: string): Promise<LoanPaymentDetail[]> {
+    const loan = await this.getRequiredLoan(loanId, userId);
+
+    const payment = await this.loanPaymentRepository.findById(paymentId);
+    if (!payment || payment.loan_id !== loan.id) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    await this.loanPaymentRepository.delete(paymentId);
+    return this.syncPayments(loan);
+  }
+
+  /**
+   * Called when an occurrence of a loan's payment reminder is paid. Payments
+   * made from another wallet (if the reminder was moved) are left unlinked.
+   */
+  async recordReminderPayment(reminderId: string, transaction: Transaction): Promise<void> {
+    const loan = await this.loanRepository.findByReminderId(reminderId);
+    if (!loan || loan.wallet_id !== transaction.wallet_id || transaction.currency) {
+      return;
+    }
+
+    await this.linkTransaction(loan, transaction);
+    await this.syncPayments(loan);
+  }
+
+  private async linkTransaction(loan: Loan, transaction: Transaction): Promise<void> {
+    if (transaction.type !== 'Expense') {
+      throw new Error('VALIDATION_INVALID_LOAN_PAYMENT');
+    }
+
+    const [loanCurrency, transactionCurrency] = await Promise.all([
+      this.getWalletCurrency(loan.wallet_id),
+      transaction.currency ? Promise.resolve(transaction.currency) : this.getWalletCurrency(transaction.wallet_id)
+    ]);
+    if (loanCurrency !== transactionCurrency) {
+      throw new Error('VALIDATION_LOAN_CURRENCY_MISMATCH');
+    }
+
+    const existingPayment = await this.loanPaymentRepository.findByTransactionId(transaction.id);
+    if (existingPayment) {
+      throw new Error('LOAN_PAYMENT_ALREADY_LINKED');
+    }
+
+    // Portions are filled in once all of the loan's payments are allocated
+    const payment: LoanPayment = {
+      id: uuidv4(),
+      loan_id: loan.id,
+      transaction_id: transaction.id,
+      principal_amount: 0,
+      interest_amount: 0,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    await this.loanPaymentRepository.create(payment);
+  }
+
+  /**
+   * Load a loan's payments and store their principal and interest portions.
+   * Portions depend on every earlier payment, so they are worked out again
+   * each time in case a payment transaction was edited or deleted.
+   */
+  private async syncPayments(loan: Loan): Promise<LoanPaymentDetail[]> {
+    const payments = await this.loanPaymentRepository.findDetailsByLoanId(loan.id);
+    const { allocations } = this.allocate(loan, payments);
+
+    const changed = payments
+      .map((payment, index) => ({ id: payment.id, ...allocations[index] }))
+      .filter((allocation, index) =>
+        Number(payments[index].principal_amount) !== allocation.principal_amount
+        || Number(payments[index].interest_amount) !== allocation.interest_amount
+      );
+    await this.loanPaymentRepository.updateAllocations(changed);
+
+    return payments.map((payment, index) => ({
+      ...payment,
+      amount: Number(payment.amount),
+      ...allocations[index]
+    }));
+  }
+
+  private allocate(loan: Loan, payments: LoanPaymentDetail[]) {
+    return allocatePayments(
+      Number(loan.principal),
+      Number(loan.annual_rate),
+      payments.map(payment => Number(payment.amount))
+    );
+  }
+
+  private async buildSummary(loan: Loan): Promise<LoanSummary> {
+    const payments = await this.syncPayments(loan);
+    const { allocations, remaining_balance } = this.allocate(loan, payments);
+    const monthlyPayment = this.getMonthlyPayment(loan);
+
+    const projection = buildAmortizationSchedule(remaining_balance, Number(loan.annual_rate), monthlyPayment, loan.start_date, {
+      first_period: this.getNextPeriod(loan, payments)
+    });
+
+    return {
+      loan,
+      currency: await this.getWalletCurrency(loan.wallet_id),
+      monthly_payment: monthlyPayment,
+      payments_made: payments.length,
+      principal_paid: roundMoney(allocations.reduce((total, a) => total + a.principal_amount, 0)),
+      interest_paid: roundMoney(allocations.reduce((total, a) => total + a.interest_amount, 0)),
+      remaining_balance,
+      next_payment_date: projection.rows.length > 0 ? projection.rows[0].payment_date : null,
+      payoff_date: projection.payoff_date,
+      remaining_interest: projection.total_interest
+    };
+  }
+
+  // The first scheduled payment period after the latest payment made
+  private getNextPeriod(loan: Loan, payments: LoanPaymentDetail[]): number {
+    if (payments.length === 0) {
+      return 1;
+    }
+
+    const lastPaymentDate = toDateKey(payments[payments.length - 1].transaction_date);
+    let period = 1;
+    while (getPaymentDate(loan.start_date, period) <= lastPaymentDate) {
+      period++;
+    }
+
+    return period;
+  }
+
+  private getMonthlyPayment(loan: Loan): number {
+    return calculateMonthlyPayment(Number(loan.principal), Number(loan.annual_rate), Number(loan.term_months));
+  }
+
+  // A monthly Payment reminder for the scheduled payment over the whole term
+  private buildReminder(loan: Loan): Reminder {
+    return {
+      id: uuidv4(),
+      user_id: loan.user_id,
+      wallet_id: loan.wallet_id,
+      title: `${loan.name} payment`,
+      amount: this.getMonthlyPayment(loan),
+      type: 'Payment',
+      due_date: getPaymentDate(loan.start_date, 1),
+      recurrence: 'monthly',
+      recurrence_interval: null,
+      duration_end: getPaymentDate(loan.start_date, Number(loan.term_months)),
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+  }
+
+  private validateTerms(principal: number, annualRate: number, termMonths: number): void {
+    if (principal <= 0) {
+      throw new Error('VALIDATION_INVALID_LOAN_PRINCIPAL');
+    }
+
+    if (annualRate < 0 || annualRate >= 100) {
+      throw new Error('VALIDATION_INVALID_LOAN_RATE');
+    }
+
+    if (!Number.isInteger(termMonths) || termMonths < 1 || termMonths > MAX_TERM_MONTHS) {
+      throw new Error('VALIDATION_INVALID_LOAN_TERM');
+    }
+  }
+
+  private async getRequiredLoan(loanId: string, userId: string): Promise<Loan> {
+    const loan = await this.getLoanById(loanId, userId);
+    if (!loan) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return loan;
+  }
+
+  private async getWalletCurrency(walletId: string): Promise<string> {
+    const wallet = await this.walletRepository.findById(walletId);
+    return wallet?.currency || DEFAULT_CURRENCY;
+  }
+
+  private parseDate(value: string): string {
+    const date = new Date(`${value}T00:00:00`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+      throw new Error('VALIDATION_INVALID_DATE');
+    }
+
+    return value;
+  }
+
+  private async validateWalletAccess(walletId: string, userId: string): Promise<boolean> {
+    const wallet = await this.walletRepository.findById(walletId);
+    if (!wallet) {
+      return false;
+    }
+
+    // User owns the wallet
+    if (wallet.user_id === userId) {
+      return true;
+    }
+
+    // Check family wallet membership
+    if (wallet.is_family) {
+      const membership = await this.familyWalletMemberRepository.findMembership(walletId, userId);
+      return membership !== null;
+    }
+
+    return false;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { LoginFailureRepository } from '../repositories/LoginFailureRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { SecurityLogService } from './SecurityLogService';
+import { LoginFailure, LoginFailureScope, User } from '../types';
+
+interface ThrottlePolicy {
+  freeAttempts: number; // Failures allowed before each attempt has to wait
+  lockAfter: number; // Failures that lock the account or IP address
+}
+
+// An IP address can try many accounts, so it gets more room than one account
+const POLICIES: Record<LoginFailureScope, ThrottlePolicy> = {
+  account: { freeAttempts: 3, lockAfter: 10 },
+  ip: { freeAttempts: 10, lockAfter: 50 }
+};
+
+const FAILURE_WINDOW_MS = 15 * 60 * 1000; // Failures are forgotten after this long without another
+const LOCK_DURATION_MS = 15 * 60 * 1000;
+const MAX_DELAY_SECONDS = 30;
+
+/**
+ * Slows down and then stops repeated failed logins. Failures are counted per
+ * account and per IP address; past the free attempts each one doubles the
+ * wait before the next attempt is checked, and enough of them lock the
+ * account or IP address for a while. Attempts on usernames that do not exist
+ * only count toward the IP address.
+ */
+export class LoginThrottleService {
+  private loginFailureRepository: LoginFailureRepository;
+  private userRepository: UserRepository;
+  private securityLogService: SecurityLogService;
+
+  constructor() {
+    this.loginFailureRepository = new LoginFailureRepository();
+    this.userRepository = new UserRepository();
+    this.securityLogService = new SecurityLogService();
+  }
+
+  // Checked before the user is looked up, so a locked address learns nothing
+  async assertIpAllowed(ipAddress?: string | null): Promise<void> {
+    if (!ipAddress) {
+      return;
+    }
+
+    const failure = await this.loginFailureRepository.find('ip', ipAddress);
+    if (failure && (this.isInFuture(failure.locked_until) || this.isInFuture(failure.retry_after))) {
+      throw new Error('AUTH_LOGIN_THROTTLED');
+    }
+  }
+
+  // Checked before the password, so a locked account rejects the right one too
+  async assertAccountAllowed(user: User): Promise<void> {
+    if (this.isInFuture(user.locked_until)) {
+      throw new Error('AUTH_ACCOUNT_LOCKED');
+    }
+
+    const failure = await this.loginFailureRepository.find('account', user.id);
+    if (failure && this.isInFuture(failure.retry_after)) {
+      throw new Error('AUTH_LOGIN_THROTTLED');
+    }
+  }
+
+  // Count a wrong password or code. Throws AUTH_ACCOUNT_LOCKED when it locks the account
+  async recordFailure(ipAddress?: string | null, user?: User): Promise<void> {
+    if (ipAddress) {
+      const failure = await this.loginFailureRepository.increment('ip', ipAddress, this.windowStart());
+      if (failure.failed_count >= POLICIES.ip.lockAfter) {
+        await this.loginFailureRepository.updateEntry('ip', ipAddress, {
+          failed_count: 0,
+          retry_after: null,
+          locked_until: new Date(Date.now() + LOCK_DURATION_MS)
+        });
+        await this.securityLogService.record('ip_locked', {
+          ipAddress,
+          details: { failed_attempts: failure.failed_count }
+        });
+      } else {
+        await this.delayNextAttempt(failure);
+      }
+    }
+
+    if (!user) {
+      return;
+    }
+
+    const failure = await this.loginFailureRepository.increment('account', user.id, this.windowStart());
+    if (failure.failed_count < POLICIES.account.lockAfter) {
+      await this.delayNextAttempt(failure);
+      return;
+    }
+
+    const lockedUntil = new Date(Date.now() + LOCK_DURATION_MS);
+    await this.userRepository.update(user.id, { locked_until: lockedUntil });
+    await this.loginFailureRepository.clear('account', user.id);
+    await this.securityLogService.record('account_locked', {
+      userId: user.id,
+      ipAddress,
+      details: { failed_attempts: failure.failed_count, locked_until: lockedUntil.toISOString() }
+    });
+
+    throw new Error('AUTH_ACCOUNT_LOCKED');
+  }
+
+  // A full login forgets the account's failures; the IP address keeps its count
+  async clearAccountFailures(userId: string): Promise<void> {
+    await this.loginFailureRepository.clear('account', userId);
+  }
+
+  // Lift a lock before it runs out, returning the updated user
+  async unlockAccount(userId: string, unlockedBy: string): Promise<User | null> {
+    const user = await this.userRepository.update(userId, { locked_until: null });
+    await this.loginFailureRepository.clear('account', userId);
+    await this.securityLogService.record('account_unlocked', {
+      userId,
+      details: { unlocked_by: unlockedBy }
+    });
+    return user;
+  }
+
+  async purgeStale(): Promise<number> {
+    return this.loginFailureRepository.deleteStaleBefore(this.windowStart());
+  }
+
+  // Wait 1, 2, 4... seconds after each failure past the free attempts
+  private async delayNextAttempt(failure: LoginFailure): Promise<void> {
+    const extraFailures = failure.failed_count - POLICIES[failure.scope].freeAttempts;
+    if (extraFailures <= 0) {
+      return;
+    }
+
+    const delaySeconds = Math.min(2 ** (extraFailures - 1), MAX_DELAY_SECONDS);
+    await this.loginFailureRepository.updateEntry(failure.scope, failure.key, {
+      retry_after: new Date(Date.now() + delaySeconds * 1000)
+    });
+  }
+
+  private windowStart(): Date {
+    return new Date(Date.now() - FAILURE_WINDOW_MS);
+  }
+
+  private isInFuture(date?: Date | null): boolean {
+    return !!date && new Date(date).getTime() > Date.now();
+  }
+}
\ No newline at end of file
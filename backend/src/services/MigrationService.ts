@@ -8,6 +8,7 @@ import {
   PostMigrationAssociationRequest
 } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { toDateKey } from '../utils/dates';
 
 export class MigrationService {
   private migrationRepository: MigrationRepository;
@@ -214,6 +215,12 @@ export class MigrationService {
       }
     }
 
+    // Keep the legacy record's date as the transaction date
+    const transactionDate = new Date(legacyTransaction.created_at);
+    if (isNaN(transactionDate.getTime())) {
+      throw new Error(`Invalid created_at date: ${legacyTransaction.created_at}`);
+    }
+
     return {
       user_id: userId,
       wallet_id: walletId,
@@ -221,6 +228,7 @@ export class MigrationService {
       title: legacyTransaction.title || 'Migrated Transaction',
       amount: amount,
       type: type,
+      transaction_date: toDateKey(transactionDate),
       created_by: adminUserId || userId,
       is_migrated: true,
       legacy_id: legacyTransaction.id ? String(legacyTransaction.id) : undefined
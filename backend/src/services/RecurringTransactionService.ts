@@ -0,0 +1,343 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RecurringTransactionRepository } from '../repositories/RecurringTransactionRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+import { CategoryRepository } from '../repositories/CategoryRepository';
+import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
+import { AuditLogService } from './AuditLogService';
+import {
+  RecurringTransaction,
+  CreateRecurringTransactionRequest,
+  UpdateRecurringTransactionRequest,
+  Transaction
+} from '../types';
+import { getNextOccurrence } from '../utils/recurrence';
+import { fromDateKey, parseDateInput, toDateKey } from '../utils/dates';
+
+// Upper bound on occurrences posted for a single rule in one run
+const MAX_OCCURRENCES_PER_RUN = 500;
+
+export class RecurringTransactionService {
+  private recurringTransactionRepository: RecurringTransactionRepository;
+  private transactionRepository: TransactionRepository;
+  private walletRepository: WalletRepository;
+  private categoryRepository: CategoryRepository;
+  private familyWalletMemberRepository: FamilyWalletMemberRepository;
+  private auditLogService: AuditLogService;
+
+  constructor() {
+    this.recurringTransactionRepository = new RecurringTransactionRepository();
+    this.transactionRepository = new TransactionRepository();
+    this.walletRepository = new WalletRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+    this.auditLogService = new AuditLogService();
+  }
+
+  async getUserRecurringTransactions(userId: string): Promise<RecurringTransaction[]> {
+    const familyWalletIds = await this.getFamilyWalletIds(userId);
+    return this.recurringTransactionRepository.findUserAccessibleRules(userId, familyWalletIds);
+  }
+
+  async getRecurringTransactionById(ruleId: string, userId: string): Promise<RecurringTransaction | null> {
+    const rule = await this.recurringTransactionRepository.findById(ruleId);
+    if (!rule) {
+      return null;
+    }
+
+    // Owners and members of the rule's wallet can see it
+    if (rule.user_id === userId) {
+      return rule;
+    }
+
+    const hasAccess = await this.hasWalletAccess(userId, rule.wallet_id);
+    return hasAccess ? rule : null;
+  }
+
+  async getGeneratedTransactions(ruleId: string, userId: string): Promise<Transaction[]> {
+    const rule = await this.getRecurringTransactionById(ruleId, userId);
+    if (!rule) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return this.transactionRepository.findByRecurringTransactionId(rule.id);
+  }
+
+  async createRecurringTransaction(
+    userId: string,
+    ruleData: CreateRecurringTransactionRequest
+  ): Promise<RecurringTransaction> {
+    const hasWalletAccess = await this.hasWalletAccess(userId, ruleData.wallet_id);
+    if (!hasWalletAccess) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    if (ruleData.category_id) {
+      const hasCategoryAccess = await this.hasCategoryAccess(ruleData.category_id, userId, ruleData.wallet_id);
+      if (!hasCategoryAccess) {
+        throw new Error('AUTH_RESOURCE_FORBIDDEN');
+      }
+    }
+
+    if (ruleData.amount <= 0) {
+      throw new Error('VALIDATION_INVALID_AMOUNT');
+    }
+
+    const startDate = parseDateInput(ruleData.start_date);
+    if (!startDate) {
+      throw new Error('VALIDATION_INVALID_DATE');
+    }
+
+    const recurrence = ruleData.recurrence || 'once';
+    if (recurrence === 'custom' && (!ruleData.recurrence_interval || ruleData.recurrence_interval <= 0)) {
+      throw new Error('VALIDATION_INVALID_RECURRENCE_INTERVAL');
+    }
+
+    const durationEnd = this.parseDurationEnd(ruleData.duration_end, startDate);
+
+    const newRule: RecurringTransaction = {
+      id: uuidv4(),
+      user_id: userId,
+      wallet_id: ruleData.wallet_id,
+      category_id: ruleData.category_id || null,
+      title: ruleData.title.trim(),
+      amount: ruleData.amount,
+      type: ruleData.type,
+      start_date: startDate,
+      recurrence,
+      recurrence_interval: recurrence === 'custom' ? ruleData.recurrence_interval || null : null,
+      duration_end: durationEnd || null,
+      last_posted_date: null,
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    return this.recurringTransactionRepository.create(newRule);
+  }
+
+  async updateRecurringTransaction(
+    ruleId: string,
+    userId: string,
+    ruleData: UpdateRecurringTransactionRequest
+  ): Promise<RecurringTransaction | null> {
+    const existingRule = await this.getRecurringTransactionById(ruleId, userId);
+    if (!existingRule) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    const walletId = ruleData.wallet_id || existingRule.wallet_id;
+    if (ruleData.wallet_id && ruleData.wallet_id !== existingRule.wallet_id) {
+      const hasWalletAccess = await this.hasWalletAccess(userId, ruleData.wallet_id);
+      if (!hasWalletAccess) {
+        throw new Error('RESOURCE_NOT_FOUND');
+      }
+    }
+
+    if (ruleData.category_id) {
+      const hasCategoryAccess = await this.hasCategoryAccess(ruleData.category_id, userId, walletId);
+      if (!hasCategoryAccess) {
+        throw new Error('AUTH_RESOURCE_FORBIDDEN');
+      }
+    }
+
+    if (ruleData.amount !== undefined && ruleData.amount <= 0) {
+      throw new Error('VALIDATION_INVALID_AMOUNT');
+    }
+
+    let startDate: string | undefined;
+    if (ruleData.start_date) {
+      const parsedDate = parseDateInput(ruleData.start_date);
+      if (!parsedDate) {
+        throw new Error('VALIDATION_INVALID_DATE');
+      }
+      startDate = parsedDate;
+    }
+
+    const recurrence = ruleData.recurrence || existingRule.recurrence;
+    const recurrenceInterval = ruleData.recurrence_interval !== undefined
+      ? ruleData.recurrence_interval
+      : existingRule.recurrence_interval;
+    if (recurrence === 'custom' && (!recurrenceInterval || recurrenceInterval <= 0)) {
+      throw new Error('VALIDATION_INVALID_RECURRENCE_INTERVAL');
+    }
+
+    const durationEnd = this.parseDurationEnd(ruleData.duration_end, startDate || existingRule.start_date);
+
+    const updateData: Partial<RecurringTransaction> = {
+      ...ruleData,
+      title: ruleData.title?.trim(),
+      start_date: startDate,
+      duration_end: durationEnd,
+      updated_at: new Date()
+    };
+
+    // Clean up undefined values
+    Object.keys(updateData).forEach(key => {
+      if (updateData[key as keyof RecurringTransaction] === undefined) {
+        delete updateData[key as keyof RecurringTransaction];
+      }
+    });
+
+    return this.recurringTransactionRepository.update(ruleId, updateData);
+  }
+
+  async deleteRecurringTransaction(ruleId: string, userId: string): Promise<boolean> {
+    const existingRule = await this.getRecurringTransactionById(ruleId, userId);
+    if (!existingRule) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    // Posted transactions are kept; their link to the rule is cleared by the database
+    return this.recurringTransactionRepository.delete(ruleId);
+  }
+
+  /**
+   * Post a transaction for every occurrence of every active rule up to `asOf`.
+   * Safe to run repeatedly: each occurrence is posted at most once, and missed
+   * runs are caught up on the next one.
+   */
+  async postDueTransactions(asOf: Date = new Date()): Promise<number> {
+    const rules = await this.recurringTransactionRepository.findActiveStartedBy(toDateKey(asOf));
+    let postedCount = 0;
+
+    for (const rule of rules) {
+      try {
+        postedCount += await this.postDueOccurrences(rule, asOf);
+      } catch (error) {
+        // Keep going so one broken rule does not block the others
+        console.error(`Failed to post recurring transaction ${rule.id}:`, error);
+      }
+    }
+
+    return postedCount;
+  }
+
+  getDueOccurrences(rule: RecurringTransaction, asOf: Date = new Date()): Date[] {
+    const startDate = fromDateKey(rule.start_date);
+    const anchorDay = startDate.getDate();
+    const occurrences: Date[] = [];
+
+    // Resume after the last posted occurrence, or begin with the first one
+    let nextDate: Date | null = rule.last_posted_date
+      ? getNextOccurrence(fromDateKey(rule.last_posted_date), rule, anchorDay)
+      : startDate;
+
+    while (nextDate && nextDate <= asOf && occurrences.length < MAX_OCCURRENCES_PER_RUN) {
+      if (rule.duration_end && nextDate > fromDateKey(rule.duration_end)) {
+        break;
+      }
+
+      occurrences.push(nextDate);
+      nextDate = getNextOccurrence(nextDate, rule, anchorDay);
+    }
+
+    return occurrences;
+  }
+
+  private async postDueOccurrences(rule: RecurringTransaction, asOf: Date): Promise<number> {
+    const occurrences = this.getDueOccurrences(rule, asOf);
+    let postedCount = 0;
+
+    for (const occurrence of occurrences.map(toDateKey)) {
+      // Posted by the scheduler, so the entry has no actor
+      const transaction = await this.transactionRepository.transaction(async (trx) => {
+        const created = await this.transactionRepository.createForRecurrence({
+          id: uuidv4(),
+          user_id: rule.user_id,
+          wallet_id: rule.wallet_id,
+          category_id: rule.category_id,
+          title: rule.title,
+          amount: rule.amount,
+          type: rule.type,
+          transaction_date: occurrence,
+          recurring_transaction_id: rule.id,
+          recurrence_date: occurrence,
+          created_by: rule.user_id,
+          created_at: new Date(),
+          updated_at: new Date()
+        }, trx);
+
+        if (created) {
+          await this.auditLogService.recordMany(null, 'transaction', 'create', [{ before: null, after: created }], trx);
+        }
+        return created;
+      });
+
+      if (transaction) {
+        postedCount++;
+      }
+    }
+
+    if (occurrences.length > 0) {
+      await this.recurringTransactionRepository.updateLastPostedDate(
+        rule.id,
+        toDateKey(occurrences[occurrences.length - 1])
+      );
+    }
+
+    return postedCount;
+  }
+
+  private parseDurationEnd(durationEndValue: string | null | undefined, startDate: string): string | null | undefined {
+    if (durationEndValue === undefined) {
+      return undefined;
+    }
+
+    if (!durationEndValue) {
+      return null;
+    }
+
+    const durationEnd = parseDateInput(durationEndValue);
+    if (!durationEnd) {
+      throw new Error('VALIDATION_INVALID_DURATION_END');
+    }
+
+    // Duration end should be after the first occurrence; date keys compare in date order
+    if (durationEnd <= startDate) {
+      throw new Error('VALIDATION_DURATION_END_BEFORE_START_DATE');
+    }
+
+    return durationEnd;
+  }
+
+  private async hasWalletAccess(userId: string, walletId: string): Promise<boolean> {
+    const wallet = await this.walletRepository.findById(walletId);
+    if (!wallet) {
+      return false;
+    }
+
+    // User owns the wallet
+    if (wallet.user_id === userId) {
+      return true;
+    }
+
+    // Check family wallet membership
+    if (wallet.is_family) {
+      const membership = await this.familyWalletMemberRepository.findMembership(walletId, userId);
+      return membership !== null;
+    }
+
+    return false;
+  }
+
+  private async hasCategoryAccess(categoryId: string, userId: string, walletId: string): Promise<boolean> {
+    const category = await this.categoryRepository.findById(categoryId);
+    if (!category) {
+      return false;
+    }
+
+    // Personal category (belongs to user)
+    if (category.user_id === userId && category.wallet_id === null) {
+      return true;
+    }
+
+    // Family wallet category (belongs to the rule's wallet)
+    return category.wallet_id === walletId;
+  }
+
+  private async getFamilyWalletIds(userId: string): Promise<string[]> {
+    const memberships = await this.familyWalletMemberRepository.findByUserId(userId);
+    return memberships.map(membership => membership.wallet_id);
+  }
+}
\ No newline at end of file
@@ -2,17 +2,38 @@ import { v4 as uuidv4 } from 'uuid';
 import { ReminderRepository } from '../repositories/ReminderRepository';
 import { WalletRepository } from '../repositories/WalletRepository';
 import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
-import { Reminder, CreateReminderRequest, UpdateReminderRequest } from '../types';
+import { ReminderSettlementRepository } from '../repositories/ReminderSettlementRepository';
+import { CategoryRepository } from '../repositories/CategoryRepository';
+import { LoanService } from './LoanService';
+import { AuditLogService } from './AuditLogService';
+import {
+  Reminder,
+  ReminderSettlement,
+  Transaction,
+  CreateReminderRequest,
+  UpdateReminderRequest,
+  SettleReminderOccurrenceRequest
+} from '../types';
+import { adjustDayForMonth, getNextOccurrence } from '../utils/recurrence';
+import { fromDateKey, parseDateInput, toDateKey } from '../utils/dates';
 
 export class ReminderService {
   private reminderRepository: ReminderRepository;
   private walletRepository: WalletRepository;
   private familyWalletMemberRepository: FamilyWalletMemberRepository;
+  private reminderSettlementRepository: ReminderSettlementRepository;
+  private categoryRepository: CategoryRepository;
+  private loanService: LoanService;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.reminderRepository = new ReminderRepository();
     this.walletRepository = new WalletRepository();
     this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+    this.reminderSettlementRepository = new ReminderSettlementRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.loanService = new LoanService();
+    this.auditLogService = new AuditLogService();
   }
 
   async getUserReminders(userId: string): Promise<Reminder[]> {
@@ -74,8 +95,8 @@ export class ReminderService {
     }
 
     // Validate due date
-    const dueDate = new Date(reminderData.due_date);
-    if (isNaN(dueDate.getTime())) {
+    const dueDate = parseDateInput(reminderData.due_date);
+    if (!dueDate) {
       throw new Error('VALIDATION_INVALID_DATE');
     }
 
@@ -87,10 +108,10 @@ export class ReminderService {
     }
 
     // Validate duration_end if provided
-    let durationEnd: Date | null = null;
+    let durationEnd: string | null = null;
     if (reminderData.duration_end) {
-      durationEnd = new Date(reminderData.duration_end);
-      if (isNaN(durationEnd.getTime())) {
+      durationEnd = parseDateInput(reminderData.duration_end);
+      if (!durationEnd) {
         throw new Error('VALIDATION_INVALID_DURATION_END');
       }
 
@@ -116,7 +137,9 @@ export class ReminderService {
       updated_at: new Date()
     };
 
-    return this.reminderRepository.create(newReminder);
+    const created = await this.reminderRepository.create(newReminder);
+    await this.auditLogService.record(userId, 'reminder', 'create', null, created);
+    return created;
   }
 
   async updateReminder(reminderId: string, userId: string, reminderData: UpdateReminderRequest): Promise<Reminder | null> {
@@ -142,12 +165,13 @@ export class ReminderService {
     }
 
     // Validate due date if provided
-    let dueDate: Date | undefined;
+    let dueDate: string | undefined;
     if (reminderData.due_date) {
-      dueDate = new Date(reminderData.due_date);
-      if (isNaN(dueDate.getTime())) {
+      const parsedDate = parseDateInput(reminderData.due_date);
+      if (!parsedDate) {
         throw new Error('VALIDATION_INVALID_DATE');
       }
+      dueDate = parsedDate;
     }
 
     // Validate recurrence interval for custom recurrence
@@ -158,11 +182,11 @@ export class ReminderService {
     }
 
     // Validate duration_end if provided
-    let durationEnd: Date | null | undefined;
+    let durationEnd: string | null | undefined;
     if (reminderData.duration_end !== undefined) {
       if (reminderData.duration_end) {
-        durationEnd = new Date(reminderData.duration_end);
-        if (isNaN(durationEnd.getTime())) {
+        durationEnd = parseDateInput(reminderData.duration_end);
+        if (!durationEnd) {
           throw new Error('VALIDATION_INVALID_DURATION_END');
         }
 
@@ -190,7 +214,11 @@ export class ReminderService {
       }
     });
 
-    return this.reminderRepository.update(reminderId, updateData);
+    const updated = await this.reminderRepository.update(reminderId, updateData);
+    if (updated) {
+      await this.auditLogService.record(userId, 'reminder', 'update', existingReminder, updated);
+    }
+    return updated;
   }
 
   async deleteReminder(reminderId: string, userId: string): Promise<boolean> {
@@ -200,7 +228,11 @@ export class ReminderService {
       throw new Error('RESOURCE_NOT_FOUND');
     }
 
-    return this.reminderRepository.delete(reminderId);
+    const deleted = await this.reminderRepository.delete(reminderId);
+    if (deleted) {
+      await this.auditLogService.record(userId, 'reminder', 'delete', existingReminder, null);
+    }
+    return deleted;
   }
 
   async deactivateReminder(reminderId: string, userId: string): Promise<Reminder | null> {
@@ -210,7 +242,11 @@ export class ReminderService {
       throw new Error('RESOURCE_NOT_FOUND');
     }
 
-    return this.reminderRepository.deactivateReminder(reminderId);
+    const updated = await this.reminderRepository.deactivateReminder(reminderId);
+    if (updated) {
+      await this.auditLogService.record(userId, 'reminder', 'update', existingReminder, updated);
+    }
+    return updated;
   }
 
   async activateReminder(reminderId: string, userId: string): Promise<Reminder | null> {
@@ -220,7 +256,11 @@ export class ReminderService {
       throw new Error('RESOURCE_NOT_FOUND');
     }
 
-    return this.reminderRepository.activateReminder(reminderId);
+    const updated = await this.reminderRepository.activateReminder(reminderId);
+    if (updated) {
+      await this.auditLogService.record(userId, 'reminder', 'update', existingReminder, updated);
+    }
+    return updated;
   }
 
   async getNextReminderOccurrence(reminder: Reminder): Promise<Date | null> {
@@ -228,49 +268,12 @@ export class ReminderService {
       return null;
     }
 
-    const currentDueDate = new Date(reminder.due_date);
-    let nextDate = new Date(currentDueDate);
-
-    switch (reminder.recurrence) {
-      case 'daily':
-        nextDate.setDate(nextDate.getDate() + 1);
-        break;
-      case 'weekly':
-        nextDate.setDate(nextDate.getDate() + 7);
-        break;
-      case 'monthly':
-        // Handle monthly recurrence with day adjustment for months with fewer days
-        const originalDay = new Date(reminder.due_date).getDate(); // Always use the original due date day
-
-        // Move to next month
-        nextDate.setMonth(nextDate.getMonth() + 1);
-
-        // Adjust the day for the target month (handles 31st -> 30th, 29th, 28th)
-        const adjustedDay = this.adjustDayForMonth(originalDay, nextDate.getFullYear(), nextDate.getMonth());
-        nextDate.setDate(adjustedDay);
-        break;
-      case 'custom':
-        if (reminder.recurrence_interval) {
-          nextDate.setDate(nextDate.getDate() + reminder.recurrence_interval);
-        } else {
-          return null;
-        }
-        break;
-      default:
-        return null;
-    }
-
-    // Check if next occurrence is within duration
-    if (reminder.duration_end && nextDate > reminder.duration_end) {
-      return null;
-    }
-
-    return nextDate;
+    return getNextOccurrence(fromDateKey(reminder.due_date), reminder);
   }
 
   async getAllUpcomingOccurrences(reminder: Reminder, maxOccurrences: number = 10): Promise<Date[]> {
     const occurrences: Date[] = [];
-    const originalDueDate = new Date(reminder.due_date);
+    const originalDueDate = fromDateKey(reminder.due_date);
 
     // For one-time reminders, just return the due date if it's in the future
     if (reminder.recurrence === 'once') {
@@ -298,7 +301,7 @@ export class ReminderService {
         // Calculate next occurrence
         const nextOccurrence = await this.getNextReminderOccurrence({
           ...reminder,
-          due_date: currentDate
+          due_date: toDateKey(currentDate)
         });
 
         if (!nextOccurrence) {
@@ -337,7 +340,7 @@ export class ReminderService {
   }
 
   async isReminderDue(reminder: Reminder, checkDate: Date = new Date()): Promise<boolean> {
-    const dueDate = new Date(reminder.due_date);
+    const dueDate = fromDateKey(reminder.due_date);
 
     // For one-time reminders, check if the due date matches
     if (reminder.recurrence === 'once') {
@@ -345,7 +348,7 @@ export class ReminderService {
     }
 
     // For recurring reminders, we need to check if the checkDate matches any occurrence
-    const originalDueDate = new Date(reminder.due_date);
+    const originalDueDate = fromDateKey(reminder.due_date);
 
     // If the check date is before the original due date, it can't be due
     if (checkDate < originalDueDate) {
@@ -370,7 +373,7 @@ export class ReminderService {
         // For monthly, check if the day matches (with adjustment for shorter months)
         const originalDay = originalDueDate.getDate();
         const checkDay = checkDate.getDate();
-        const adjustedDay = this.adjustDayForMonth(originalDay, checkDate.getFullYear(), checkDate.getMonth());
+        const adjustedDay = adjustDayForMonth(originalDay, checkDate.getFullYear(), checkDate.getMonth());
 
         if (checkDay !== adjustedDay) {
           return false;
@@ -404,27 +407,174 @@ export class ReminderService {
       }
     }
 
-    return dueReminders;
+    // Occurrences that were already paid or skipped are no longer due
+    const checkDay = toDateKey(checkDate);
+    const settlements = await this.reminderSettlementRepository.findByReminderIds(
+      dueReminders.map(reminder => reminder.id),
+      checkDay,
+      checkDay
+    );
+
+    return dueReminders.filter(reminder => !settlements.some(settlement =>
+      settlement.reminder_id === reminder.id && settlement.occurrence_date === checkDay
+    ));
   }
 
-  private isSameDay(date1: Date, date2: Date): boolean {
-    return date1.getFullYear() === date2.getFullYear() &&
-      date1.getMonth() === date2.getMonth() &&
-      date1.getDate() === date2.getDate();
+  async getReminderSettlements(reminderId: string, userId: string): Promise<ReminderSettlement[]> {
+    const reminder = await this.getReminderById(reminderId, userId);
+    if (!reminder) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return this.reminderSettlementRepository.findByReminderId(reminder.id);
+  }
+
+  async getUserSettlements(userId: string, startDate?: string, endDate?: string): Promise<ReminderSettlement[]> {
+    const reminders = await this.getUserReminders(userId);
+    return this.reminderSettlementRepository.findByReminderIds(
+      reminders.map(reminder => reminder.id),
+      startDate,
+      endDate
+    );
+  }
+
+  /**
+   * Mark a single occurrence of a reminder as paid and record the matching
+   * transaction: an Expense for payments, an Income for receivables.
+   */
+  async settleOccurrence(
+    reminderId: string,
+    userId: string,
+    occurrenceDateValue: string,
+    settleData: SettleReminderOccurrenceRequest = {}
+  ): Promise<{ settlement: ReminderSettlement; transaction: Transaction }> {
+    const { reminder, occurrenceDate } = await this.getScheduledReminder(reminderId, userId, occurrenceDateValue);
+
+    // The reminder's wallet wins; a wallet can only be chosen for reminders without one
+    const walletId = reminder.wallet_id || settleData.wallet_id;
+    if (!walletId) {
+      throw new Error('VALIDATION_WALLET_REQUIRED');
+    }
+
+    const hasWalletAccess = await this.hasWalletAccess(userId, walletId);
+    if (!hasWalletAccess) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    if (settleData.category_id) {
+      const hasCategoryAccess = await this.hasCategoryAccess(settleData.category_id, userId, walletId);
+      if (!hasCategoryAccess) {
+        throw new Error('AUTH_RESOURCE_FORBIDDEN');
+      }
+    }
+
+    const amount = settleData.amount !== undefined ? settleData.amount : reminder.amount;
+    if (amount <= 0) {
+      throw new Error('VALIDATION_INVALID_AMOUNT');
+    }
+
+    let transactionDate = occurrenceDate;
+    if (settleData.transaction_date) {
+      const parsedDate = parseDateInput(settleData.transaction_date);
+      if (!parsedDate) {
+        throw new Error('VALIDATION_INVALID_DATE');
+      }
+      transactionDate = parsedDate;
+    }
+
+    const result = await this.reminderSettlementRepository.createPaid(
+      {
+        id: uuidv4(),
+        reminder_id: reminder.id,
+        occurrence_date: occurrenceDate,
+        status: 'paid',
+        transaction_id: null,
+        settled_by: userId,
+        created_at: new Date(),
+        updated_at: new Date()
+      },
+      {
+        id: uuidv4(),
+        user_id: userId,
+        wallet_id: walletId,
+        category_id: settleData.category_id || null,
+        title: reminder.title,
+        amount,
+        type: reminder.type === 'Payment' ? 'Expense' : 'Income',
+        transaction_date: transactionDate,
+        created_by: userId,
+        created_at: new Date(),
+        updated_at: new Date()
+      }
+    );
+
+    if (!result) {
+      throw new Error('REMINDER_OCCURRENCE_ALREADY_SETTLED');
+    }
+
+    await this.auditLogService.record(userId, 'transaction', 'create', null, result.transaction);
+
+    // Paying a loan's reminder records the payment against the loan
+    await this.loanService.recordReminderPayment(reminder.id, result.transaction);
+
+    return result;
+  }
+
+  async skipOccurrence(reminderId: string, userId: string, occurrenceDateValue: string): Promise<ReminderSettlement> {
+    const { reminder, occurrenceDate } = await this.getScheduledReminder(reminderId, userId, occurrenceDateValue);
+
+    const settlement = await this.reminderSettlementRepository.createIfUnsettled({
+      id: uuidv4(),
+      reminder_id: reminder.id,
+      occurrence_date: occurrenceDate,
+      status: 'skipped',
+      transaction_id: null,
+      settled_by: userId,
+      created_at: new Date(),
+      updated_at: new Date()
+    });
+
+    if (!settlement) {
+      throw new Error('REMINDER_OCCURRENCE_ALREADY_SETTLED');
+    }
+
+    return settlement;
   }
 
-  private getLastDayOfMonth(year: number, month: number): number {
-    return new Date(year, month + 1, 0).getDate();
+  // Load a reminder and make sure the given date is one of its occurrences, returning the date as a key
+  private async getScheduledReminder(
+    reminderId: string,
+    userId: string,
+    occurrenceDateValue: string
+  ): Promise<{ reminder: Reminder; occurrenceDate: string }> {
+    const reminder = await this.getReminderById(reminderId, userId);
+    if (!reminder) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    const occurrenceDate = parseDateInput(occurrenceDateValue);
+    if (!occurrenceDate) {
+      throw new Error('VALIDATION_INVALID_DATE');
+    }
+
+    const isOccurrence = await this.isReminderDue(reminder, fromDateKey(occurrenceDate));
+    const isPastDurationEnd = reminder.duration_end !== null && occurrenceDate > reminder.duration_end;
+    if (!isOccurrence || isPastDurationEnd) {
+      throw new Error('VALIDATION_INVALID_OCCURRENCE_DATE');
+    }
+
+    return { reminder, occurrenceDate };
   }
 
-  private adjustDayForMonth(originalDay: number, year: number, month: number): number {
-    const lastDayOfMonth = this.getLastDayOfMonth(year, month);
-    return Math.min(originalDay, lastDayOfMonth);
+  private isSameDay(date1: Date, date2: Date): boolean {
+    return date1.getFullYear() === date2.getFullYear() &&
+      date1.getMonth() === date2.getMonth() &&
+      date1.getDate() === date2.getDate();
   }
 
   async calculateNextDueDate(reminder: Reminder): Promise<Date | null> {
     const now = new Date();
-    const dueDate = new Date(reminder.due_date);
+    const dueDate = fromDateKey(reminder.due_date);
 
     // If it's a one-time reminder and already passed, return null
     if (reminder.recurrence === 'once') {
@@ -448,7 +598,7 @@ export class ReminderService {
 
       const nextOccurrence = await this.getNextReminderOccurrence({
         ...reminder,
-        due_date: nextDate
+        due_date: toDateKey(nextDate)
       });
 
       if (!nextOccurrence) {
@@ -481,6 +631,21 @@ export class ReminderService {
     return false;
   }
 
+  private async hasCategoryAccess(categoryId: string, userId: string, walletId: string): Promise<boolean> {
+    const category = await this.categoryRepository.findById(categoryId);
+    if (!category) {
+      return false;
+    }
+
+    // Personal category (belongs to user)
+    if (category.user_id === userId && category.wallet_id === null) {
+      return true;
+    }
+
+    // Family wallet category (belongs to the transaction's wallet)
+    return category.wallet_id === walletId;
+  }
+
   private async getFamilyWalletIds(userId: string): Promise<string[]> {
     const memberships = await this.familyWalletMemberRepository.findByUserId(userId);
     return memberships.map(membership => membership.wallet_id);
@@ -0,0 +1,200 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SavedSearchRepository } from '../repositories/SavedSearchRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+import { CategoryRepository } from '../repositories/CategoryRepository';
+import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
+import { SavedSearch, CreateSavedSearchRequest, UpdateSavedSearchRequest } from '../types';
+import { parseTagQuery } from '../utils/tags';
+import { toDateKey } from '../utils/dates';
+
+export class SavedSearchService {
+  private savedSearchRepository: SavedSearchRepository;
+  private walletRepository: WalletRepository;
+  private categoryRepository: CategoryRepository;
+  private familyWalletMemberRepository: FamilyWalletMemberRepository;
+
+  constructor() {
+    this.savedSearchRepository = new SavedSearchRepository();
+    this.walletRepository = new WalletRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+  }
+
+  async getUserSearches(userId: string): Promise<SavedSearch[]> {
+    return this.savedSearchRepository.findByUserId(userId);
+  }
+
+  async getSearchById(searchId: string, userId: string): Promise<SavedSearch | null> {
+    const search = await this.savedSearchRepository.findById(searchId);
+    if (!search || search.user_id !== userId) {
+      return null;
+    }
+
+    return search;
+  }
+
+  async createSearch(userId: string, searchData: CreateSavedSearchRequest): Promise<SavedSearch> {
+    const name = searchData.name.trim();
+    const duplicate = await this.savedSearchRepository.findByUserAndName(userId, name);
+    if (duplicate) {
+      throw new Error('SAVED_SEARCH_ALREADY_EXISTS');
+    }
+
+    const criteria = await this.resolveCriteria(userId, searchData);
+
+    const newSearch: SavedSearch = {
+      id: uuidv4(),
+      user_id: userId,
+      name,
+      query: criteria.query,
+      wallet_id: criteria.wallet_id,
+      category_id: criteria.category_id,
+      type: criteria.type,
+      start_date: criteria.start_date,
+      end_date: criteria.end_date,
+      tags: criteria.tags,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    return this.savedSearchRepository.create(newSearch);
+  }
+
+  async updateSearch(searchId: string, userId: string, searchData: UpdateSavedSearchRequest): Promise<SavedSearch> {
+    const existingSearch = await this.getSearchById(searchId, userId);
+    if (!existingSearch) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    const name = searchData.name !== undefined ? searchData.name.trim() : existingSearch.name;
+    if (name !== existingSearch.name) {
+      const duplicate = await this.savedSearchRepository.findByUserAndName(userId, name);
+      if (duplicate) {
+        throw new Error('SAVED_SEARCH_ALREADY_EXISTS');
+      }
+    }
+
+    // Criteria left out of the request keep their saved value
+    const criteria = await this.resolveCriteria(userId, {
+      query: searchData.query !== undefined ? searchData.query : existingSearch.query,
+      wallet_id: searchData.wallet_id !== undefined ? searchData.wallet_id : existingSearch.wallet_id,
+      category_id: searchData.category_id !== undefined ? searchData.category_id : existingSearch.category_id,
+      type: searchData.type !== undefined ? searchData.type : existingSearch.type,
+      start_date: searchData.start_date !== undefined
+        ? searchData.start_date
+        : existingSearch.start_date && toDateKey(existingSearch.start_date),
+      end_date: searchData.end_date !== undefined
+        ? searchData.end_date
+        : existingSearch.end_date && toDateKey(existingSearch.end_date),
+      tags: searchData.tags !== undefined ? searchData.tags : existingSearch.tags
+    });
+
+    const updated = await this.savedSearchRepository.update(searchId, { name, ...criteria });
+    if (!updated) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return updated;
+  }
+
+  async deleteSearch(searchId: string, userId: string): Promise<boolean> {
+    const existingSearch = await this.getSearchById(searchId, userId);
+    if (!existingSearch) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return this.savedSearchRepository.delete(searchId);
+  }
+
+  /**
+   * Check and normalize the criteria of a saved search. Blank values are
+   * stored as null so re-running the search leaves that filter off.
+   */
+  private async resolveCriteria(
+    userId: string,
+    searchData: Omit<CreateSavedSearchRequest, 'name'>
+  ): Promise<Omit<SavedSearch, 'id' | 'user_id' | 'name' | 'created_at' | 'updated_at'>> {
+    if (searchData.wallet_id) {
+      const hasAccess = await this.validateWalletAccess(searchData.wallet_id, userId);
+      if (!hasAccess) {
+        throw new Error('RESOURCE_NOT_FOUND');
+      }
+    }
+
+    if (searchData.category_id) {
+      const hasAccess = await this.validateCategoryAccess(searchData.category_id, userId);
+      if (!hasAccess) {
+        throw new Error('RESOURCE_NOT_FOUND');
+      }
+    }
+
+    const tags = parseTagQuery(searchData.tags || '');
+    if (!tags) {
+      throw new Error('VALIDATION_INVALID_TAGS');
+    }
+
+    const startDate = searchData.start_date ? this.parseDate(searchData.start_date) : null;
+    const endDate = searchData.end_date ? this.parseDate(searchData.end_date) : null;
+    if (startDate && endDate && endDate < startDate) {
+      throw new Error('VALIDATION_INVALID_DATE');
+    }
+
+    return {
+      query: searchData.query?.trim() || null,
+      wallet_id: searchData.wallet_id || null,
+      category_id: searchData.category_id || null,
+      type: searchData.type || null,
+      start_date: startDate,
+      end_date: endDate,
+      tags: tags.length > 0 ? tags.join(',') : null
+    };
+  }
+
+  private parseDate(value: string): string {
+    const date = new Date(`${value}T00:00:00`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+      throw new Error('VALIDATION_INVALID_DATE');
+    }
+
+    return value;
+  }
+
+  private async validateWalletAccess(walletId: string, userId: string): Promise<boolean> {
+    const wallet = await this.walletRepository.findById(walletId);
+    if (!wallet) {
+      return false;
+    }
+
+    // User owns the wallet
+    if (wallet.user_id === userId) {
+      return true;
+    }
+
+    // Check family wallet membership
+    if (wallet.is_family) {
+      const membership = await this.familyWalletMemberRepository.findMembership(walletId, userId);
+      return membership !== null;
+    }
+
+    return false;
+  }
+
+  private async validateCategoryAccess(categoryId: string, userId: string): Promise<boolean> {
+    const category = await this.categoryRepository.findById(categoryId);
+    if (!category) {
+      return false;
+    }
+
+    // Personal category (belongs to user)
+    if (category.user_id === userId && category.wallet_id === null) {
+      return true;
+    }
+
+    // Family wallet category (user has access to the wallet it belongs to)
+    if (category.wallet_id) {
+      return this.validateWalletAccess(category.wallet_id, userId);
+    }
+
+    return false;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SavingsGoalRepository } from '../repositories/SavingsGoalRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
+import {
+  SavingsGoal,
+  SavingsGoalProgress,
+  CreateSavingsGoalRequest,
+  UpdateSavingsGoalRequest,
+  Transaction
+} from '../types';
+import { calculateGoalProgress } from '../utils/savingsGoals';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { toDateKey } from '../utils/dates';
+
+export class SavingsGoalService {
+  private savingsGoalRepository: SavingsGoalRepository;
+  private walletRepository: WalletRepository;
+  private transactionRepository: TransactionRepository;
+  private familyWalletMemberRepository: FamilyWalletMemberRepository;
+
+  constructor() {
+    this.savingsGoalRepository = new SavingsGoalRepository();
+    this.walletRepository = new WalletRepository();
+    this.transactionRepository = new TransactionRepository();
+    this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+  }
+
+  async getUserGoals(userId: string): Promise<SavingsGoalProgress[]> {
+    const goals = await this.savingsGoalRepository.findByUserId(userId);
+    return Promise.all(goals.map(goal => this.buildProgress(goal)));
+  }
+
+  async getGoalById(goalId: string, userId: string): Promise<SavingsGoal | null> {
+    const goal = await this.savingsGoalRepository.findById(goalId);
+    if (!goal || goal.user_id !== userId) {
+      return null;
+    }
+
+    return goal;
+  }
+
+  async getGoalProgress(goalId: string, userId: string): Promise<SavingsGoalProgress | null> {
+    const goal = await this.getGoalById(goalId, userId);
+    if (!goal) {
+      return null;
+    }
+
+    return this.buildProgress(goal);
+  }
+
+  async getGoalContributions(goalId: string, userId: string): Promise<Transaction[]> {
+    const goal = await this.getGoalById(goalId, userId);
+    if (!goal) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return this.transactionRepository.findSavingsGoalContributions(goal.id, goal.wallet_id, goal.start_date);
+  }
+
+  async createGoal(userId: string, goalData: CreateSavingsGoalRequest): Promise<SavingsGoalProgress> {
+    // Verify wallet access (including family wallet membership)
+    const hasAccess = await this.validateWalletAccess(goalData.wallet_id, userId);
+    if (!hasAccess) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    if (goalData.target_amount <= 0) {
+      throw new Error('VALIDATION_INVALID_GOAL_TARGET');
+    }
+
+    const startDate = this.parseDate(goalData.start_date || toDateKey(new Date()));
+    const targetDate = this.parseDate(goalData.target_date);
+    if (targetDate <= startDate) {
+      throw new Error('VALIDATION_INVALID_GOAL_DATES');
+    }
+
+    const newGoal: SavingsGoal = {
+      id: uuidv4(),
+      user_id: userId,
+      wallet_id: goalData.wallet_id,
+      name: goalData.name.trim(),
+      target_amount: goalData.target_amount,
+      start_date: startDate,
+      target_date: targetDate,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    const created = await this.savingsGoalRepository.create(newGoal);
+    return this.buildProgress(created);
+  }
+
+  async updateGoal(goalId: string, userId: string, goalData: UpdateSavingsGoalRequest): Promise<SavingsGoalProgress> {
+    const existingGoal = await this.getGoalById(goalId, userId);
+    if (!existingGoal) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    if (goalData.target_amount !== undefined && goalData.target_amount <= 0) {
+      throw new Error('VALIDATION_INVALID_GOAL_TARGET');
+    }
+
+    const startDate = goalData.start_date ? this.parseDate(goalData.start_date) : undefined;
+    const targetDate = goalData.target_date ? this.parseDate(goalData.target_date) : undefined;
+    const effectiveStart = startDate || existingGoal.start_date;
+    const effectiveTarget = targetDate || existingGoal.target_date;
+    if (effectiveTarget <= effectiveStart) {
+      throw new Error('VALIDATION_INVALID_GOAL_DATES');
+    }
+
+    const updateData: Partial<SavingsGoal> = {
+      name: goalData.name?.trim(),
+      target_amount: goalData.target_amount,
+      start_date: startDate,
+      target_date: targetDate,
+      updated_at: new Date()
+    };
+
+    // Clean up undefined values
+    Object.keys(updateData).forEach(key => {
+      if (updateData[key as keyof SavingsGoal] === undefined) {
+        delete updateData[key as keyof SavingsGoal];
+      }
+    });
+
+    const updated = await this.savingsGoalRepository.update(goalId, updateData);
+    if (!updated) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return this.buildProgress(updated);
+  }
+
+  // Tagged transactions are kept and simply lose their goal
+  async deleteGoal(goalId: string, userId: string): Promise<boolean> {
+    const existingGoal = await this.getGoalById(goalId, userId);
+    if (!existingGoal) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return this.savingsGoalRepository.delete(goalId);
+  }
+
+  private async buildProgress(goal: SavingsGoal): Promise<SavingsGoalProgress> {
+    const wallet = await this.walletRepository.findById(goal.wallet_id);
+    const contributions = await this.transactionRepository.findSavingsGoalContributions(
+      goal.id,
+      goal.wallet_id,
+      goal.start_date
+    );
+
+    return calculateGoalProgress(goal, wallet?.currency || DEFAULT_CURRENCY, contributions);
+  }
+
+  private parseDate(value: string): string {
+    const date = new Date(`${value}T00:00:00`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+      throw new Error('VALIDATION_INVALID_DATE');
+    }
+
+    return value;
+  }
+
+  private async validateWalletAccess(walletId: string, userId: string): Promise<boolean> {
+    const wallet = await this.walletRepository.findById(walletId);
+    if (!wallet) {
+      return false;
+    }
+
+    // User owns the wallet
+    if (wallet.user_id === userId) {
+      return true;
+    }
+
+    // Check family wallet membership
+    if (wallet.is_family) {
+      const membership = await this.familyWalletMemberRepository.findMembership(walletId, userId);
+      return membership !== null;
+    }
+
+    return false;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { SecurityEventRepository } from '../repositories/SecurityEventRepository';
+import { SecurityEventType } from '../types';
+
+export interface SecurityEventContext {
+  userId?: string | null;
+  ipAddress?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export class SecurityLogService {
+  private securityEventRepository: SecurityEventRepository;
+
+  constructor() {
+    this.securityEventRepository = new SecurityEventRepository();
+  }
+
+  /**
+   * Append an event to the security log. Whatever triggered it has already
+   * happened, so a failed write is logged instead of failing the request.
+   */
+  async record(eventType: SecurityEventType, context: SecurityEventContext = {}): Promise<void> {
+    try {
+      await this.securityEventRepository.create({
+        event_type: eventType,
+        user_id: context.userId || null,
+        ip_address: context.ipAddress || null,
+        details: context.details || null
+      });
+    } catch (error) {
+      console.error('Failed to write security log event', error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { UserSessionRepository } from '../repositories/UserSessionRepository';
+import { RefreshTokenRepository } from '../repositories/RefreshTokenRepository';
+import { SessionClient, UserSession, UserSessionResponse } from '../types';
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+/**
+ * A session is one login on one device. Its refresh tokens share its id as
+ * their family id, and the access tokens issued for it carry the id, so
+ * ending a session stops both right away.
+ */
+export class SessionService {
+  private userSessionRepository: UserSessionRepository;
+  private refreshTokenRepository: RefreshTokenRepository;
+
+  constructor() {
+    this.userSessionRepository = new UserSessionRepository();
+    this.refreshTokenRepository = new RefreshTokenRepository();
+  }
+
+  async startSession(userId: string, client: SessionClient, expiresAt: Date): Promise<UserSession> {
+    const now = new Date();
+    return this.userSessionRepository.create({
+      user_id: userId,
+      user_agent: this.normalizeUserAgent(client.user_agent),
+      ip_address: client.ip_address || null,
+      last_seen_at: now,
+      expires_at: expiresAt,
+      revoked_at: null
+    });
+  }
+
+  // Called on every refresh, which happens every few minutes while the app is open
+  async touchSession(id: string, client: SessionClient, expiresAt: Date): Promise<void> {
+    const now = new Date();
+    await this.userSessionRepository.update(id, {
+      last_seen_at: now,
+      expires_at: expiresAt,
+      ...(client.user_agent ? { user_agent: this.normalizeUserAgent(client.user_agent) } : {}),
+      ...(client.ip_address ? { ip_address: client.ip_address } : {})
+    });
+  }
+
+  // Sessions that were purged count as ended
+  async isSessionRevoked(id: string): Promise<boolean> {
+    const session = await this.userSessionRepository.findById(id);
+    return !session || !!session.revoked_at;
+  }
+
+  async listSessions(userId: string, currentSessionId?: string): Promise<UserSessionResponse[]> {
+    const sessions = await this.userSessionRepository.findActiveByUserId(userId);
+    return sessions.map(session => ({
+      id: session.id,
+      user_agent: session.user_agent,
+      ip_address: session.ip_address,
+      created_at: session.created_at,
+      last_seen_at: session.last_seen_at,
+      current: session.id === currentSessionId
+    }));
+  }
+
+  // End one of the user's own sessions
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const session = await this.userSessionRepository.findById(sessionId);
+    if (!session || session.user_id !== userId || session.revoked_at) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    await this.endSession(sessionId);
+  }
+
+  async endSession(sessionId: string): Promise<void> {
+    await this.userSessionRepository.revoke(sessionId);
+    await this.refreshTokenRepository.revokeFamily(sessionId);
+  }
+
+  // End every session of the user, optionally keeping the one making the request
+  async endAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const revokedIds = await this.userSessionRepository.revokeAllForUser(userId, exceptSessionId);
+    await this.refreshTokenRepository.revokeFamilies(revokedIds);
+    return revokedIds.length;
+  }
+
+  // Expired sessions can no longer be refreshed; deleting one deletes its refresh tokens
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    await this.refreshTokenRepository.deleteExpiredBefore(now);
+    return this.userSessionRepository.deleteExpiredBefore(now);
+  }
+
+  private normalizeUserAgent(userAgent?: string | null): string | null {
+    return userAgent ? userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null;
+  }
+}
\ No newline at end of file
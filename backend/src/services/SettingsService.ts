@@ -0,0 +1,47 @@
+import { AppSettingRepository } from '../repositories/AppSettingRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { SecuritySettings } from '../types';
+
+const REQUIRE_ADMIN_TWO_FACTOR = 'require_admin_two_factor';
+
+export class SettingsService {
+  private appSettingRepository: AppSettingRepository;
+  private userRepository: UserRepository;
+
+  constructor() {
+    this.appSettingRepository = new AppSettingRepository();
+    this.userRepository = new UserRepository();
+  }
+
+  async getSecuritySettings(): Promise<SecuritySettings> {
+    const requireAdminTwoFactor = await this.appSettingRepository.getValue<boolean>(REQUIRE_ADMIN_TWO_FACTOR);
+    return {
+      require_admin_two_factor: requireAdminTwoFactor === true
+    };
+  }
+
+  async updateSecuritySettings(update: Partial<SecuritySettings>, adminId: string): Promise<SecuritySettings> {
+    if (update.require_admin_two_factor !== undefined) {
+      // Otherwise the admin would lock themselves out of the admin area
+      if (update.require_admin_two_factor) {
+        const admin = await this.userRepository.findById(adminId);
+        if (!admin?.two_factor_enabled_at) {
+          throw new Error('SETTINGS_TWO_FACTOR_NOT_ENABLED');
+        }
+      }
+
+      await this.appSettingRepository.setValue(REQUIRE_ADMIN_TWO_FACTOR, update.require_admin_two_factor, adminId);
+    }
+
+    return this.getSecuritySettings();
+  }
+
+  async isTwoFactorRequired(role: 'user' | 'admin'): Promise<boolean> {
+    if (role !== 'admin') {
+      return false;
+    }
+
+    const settings = await this.getSecuritySettings();
+    return settings.require_admin_two_factor;
+  }
+}
\ No newline at end of file
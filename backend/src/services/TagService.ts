@@ -0,0 +1,59 @@
+import { TagRepository } from '../repositories/TagRepository';
+import { Tag, TagWithUsage, UpdateTagRequest } from '../types';
+import { normalizeTagName } from '../utils/tags';
+
+export class TagService {
+  private tagRepository: TagRepository;
+
+  constructor() {
+    this.tagRepository = new TagRepository();
+  }
+
+  async getUserTags(userId: string): Promise<TagWithUsage[]> {
+    return this.tagRepository.findByUserId(userId);
+  }
+
+  async getTagById(tagId: string, userId: string): Promise<Tag | null> {
+    const tag = await this.tagRepository.findById(tagId);
+    if (!tag || tag.user_id !== userId) {
+      return null;
+    }
+
+    return tag;
+  }
+
+  // Renaming a tag renames it on every transaction that carries it
+  async renameTag(tagId: string, userId: string, tagData: UpdateTagRequest): Promise<Tag> {
+    const existingTag = await this.getTagById(tagId, userId);
+    if (!existingTag) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    const name = normalizeTagName(tagData.name);
+    if (name === existingTag.name) {
+      return existingTag;
+    }
+
+    const duplicate = await this.tagRepository.findByUserAndName(userId, name);
+    if (duplicate) {
+      throw new Error('TAG_ALREADY_EXISTS');
+    }
+
+    const updated = await this.tagRepository.update(tagId, { name, updated_at: new Date() });
+    if (!updated) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return updated;
+  }
+
+  // The tag is taken off its transactions, which are otherwise left alone
+  async deleteTag(tagId: string, userId: string): Promise<boolean> {
+    const existingTag = await this.getTagById(tagId, userId);
+    if (!existingTag) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return this.tagRepository.delete(tagId);
+  }
+}
\ No newline at end of file
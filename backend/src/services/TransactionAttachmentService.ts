@@ -0,0 +1,122 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TransactionAttachmentRepository } from '../repositories/TransactionAttachmentRepository';
+import { DataIsolationService } from './DataIsolationService';
+import { getFileStorage } from '../storage';
+import { CreateAttachmentRequest, TransactionAttachment } from '../types';
+import {
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  decodeAttachmentContent,
+  detectAttachmentType,
+  sanitizeFileName
+} from '../utils/attachments';
+
+export interface AttachmentFile {
+  attachment: TransactionAttachment;
+  content: Buffer;
+}
+
+export class TransactionAttachmentService {
+  private attachmentRepository: TransactionAttachmentRepository;
+  private dataIsolationService: DataIsolationService;
+
+  constructor() {
+    this.attachmentRepository = new TransactionAttachmentRepository();
+    this.dataIsolationService = new DataIsolationService();
+  }
+
+  async getAttachments(transactionId: string, userId: string): Promise<TransactionAttachment[]> {
+    await this.validateTransactionAccess(transactionId, userId);
+    return this.attachmentRepository.findByTransactionId(transactionId);
+  }
+
+  async addAttachment(transactionId: string, userId: string, attachmentData: CreateAttachmentRequest): Promise<TransactionAttachment> {
+    await this.validateTransactionAccess(transactionId, userId);
+
+    const attachmentCount = await this.attachmentRepository.count({ transaction_id: transactionId });
+    if (attachmentCount >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+      throw new Error('ATTACHMENT_LIMIT_REACHED');
+    }
+
+    const content = decodeAttachmentContent(attachmentData.content);
+    if (!content || content.length === 0) {
+      throw new Error('VALIDATION_INVALID_ATTACHMENT');
+    }
+
+    if (content.length > MAX_ATTACHMENT_SIZE) {
+      throw new Error('ATTACHMENT_TOO_LARGE');
+    }
+
+    // The type is taken from the contents, so a renamed file cannot pass as a receipt
+    const contentType = detectAttachmentType(content);
+    if (!contentType) {
+      throw new Error('ATTACHMENT_TYPE_NOT_ALLOWED');
+    }
+
+    const id = uuidv4();
+    const newAttachment: TransactionAttachment = {
+      id,
+      transaction_id: transactionId,
+      uploaded_by: userId,
+      file_name: sanitizeFileName(attachmentData.file_name) || 'attachment',
+      content_type: contentType,
+      size: content.length,
+      storage_key: `transactions/${transactionId}/${id}`,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    await getFileStorage().save(newAttachment.storage_key, content, contentType);
+    try {
+      return await this.attachmentRepository.create(newAttachment);
+    } catch (error) {
+      await getFileStorage().delete(newAttachment.storage_key);
+      throw error;
+    }
+  }
+
+  async getAttachmentFile(transactionId: string, attachmentId: string, userId: string): Promise<AttachmentFile> {
+    const attachment = await this.getAttachment(transactionId, attachmentId, userId);
+
+    const content = await getFileStorage().read(attachment.storage_key);
+    if (!content) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return { attachment, content };
+  }
+
+  async deleteAttachment(transactionId: string, attachmentId: string, userId: string): Promise<boolean> {
+    const attachment = await this.getAttachment(transactionId, attachmentId, userId);
+
+    const deleted = await this.attachmentRepository.delete(attachment.id);
+    if (deleted) {
+      await getFileStorage().delete(attachment.storage_key);
+    }
+
+    return deleted;
+  }
+
+  // Used once the transactions are gone; their rows are removed by the foreign key
+  async deleteStoredFiles(attachments: TransactionAttachment[]): Promise<void> {
+    await Promise.all(attachments.map(attachment => getFileStorage().delete(attachment.storage_key)));
+  }
+
+  private async getAttachment(transactionId: string, attachmentId: string, userId: string): Promise<TransactionAttachment> {
+    await this.validateTransactionAccess(transactionId, userId);
+
+    const attachment = await this.attachmentRepository.findById(attachmentId);
+    if (!attachment || attachment.transaction_id !== transactionId) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return attachment;
+  }
+
+  private async validateTransactionAccess(transactionId: string, userId: string): Promise<void> {
+    const hasAccess = await this.dataIsolationService.validateTransactionAccess(transactionId, userId);
+    if (!hasAccess) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+  }
+}
\ No newline at end of file
@@ -3,19 +3,75 @@ import { TransactionRepository, TransactionFilters } from '../repositories/Trans
 import { WalletRepository } from '../repositories/WalletRepository';
 import { CategoryRepository } from '../repositories/CategoryRepository';
 import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
-import { Transaction, CreateTransactionRequest, UpdateTransactionRequest, TransactionSummary } from '../types';
+import { CategoryRuleRepository } from '../repositories/CategoryRuleRepository';
+import { TransactionSplitRepository } from '../repositories/TransactionSplitRepository';
+import { SavingsGoalRepository } from '../repositories/SavingsGoalRepository';
+import { TagRepository } from '../repositories/TagRepository';
+import { TransactionAttachmentRepository } from '../repositories/TransactionAttachmentRepository';
+import { DataIsolationService } from './DataIsolationService';
+import { AuditLogService } from './AuditLogService';
+import {
+  Transaction,
+  Wallet,
+  TransactionSplit,
+  TransactionSplitRequest,
+  CreateTransactionRequest,
+  UpdateTransactionRequest,
+  CreateTransferRequest,
+  TransferResult,
+  TransactionSummary,
+  TransactionImportRequest,
+  ParsedImportRow,
+  ParsedImportFile,
+  ImportPreviewRow,
+  ImportPreviewResult,
+  ImportResult,
+  BulkTransactionChanges,
+  BulkTransactionItemResult,
+  BulkTransactionResult
+} from '../types';
+import { parseCsvImport } from '../utils/csvImport';
+import { parseOfxImport } from '../utils/ofxImport';
+import { parseQifImport } from '../utils/qifImport';
+import { findMatchingRule } from '../utils/categoryRules';
+import { splitsMatchTotal, splitTransactionIds } from '../utils/transactionSplits';
+import { normalizeTagNames } from '../utils/tags';
+import { parseDateInput, toDateKey, todayKey } from '../utils/dates';
+
+// Largest file accepted by the import flow, in data rows
+const MAX_IMPORT_ROWS = 5000;
+
+// Most transactions a single bulk request may change
+export const MAX_BULK_TRANSACTIONS = 500;
+
+// Bulk requests name the transactions, or pass the filters of the transaction list
+type BulkTransactionTarget = { ids: string[] } | { filters: Omit<TransactionFilters, 'user_id'> };
 
 export class TransactionService {
   private transactionRepository: TransactionRepository;
   private walletRepository: WalletRepository;
   private categoryRepository: CategoryRepository;
   private familyWalletMemberRepository: FamilyWalletMemberRepository;
+  private categoryRuleRepository: CategoryRuleRepository;
+  private transactionSplitRepository: TransactionSplitRepository;
+  private savingsGoalRepository: SavingsGoalRepository;
+  private tagRepository: TagRepository;
+  private attachmentRepository: TransactionAttachmentRepository;
+  private dataIsolationService: DataIsolationService;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.transactionRepository = new TransactionRepository();
     this.walletRepository = new WalletRepository();
     this.categoryRepository = new CategoryRepository();
     this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+    this.categoryRuleRepository = new CategoryRuleRepository();
+    this.transactionSplitRepository = new TransactionSplitRepository();
+    this.savingsGoalRepository = new SavingsGoalRepository();
+    this.tagRepository = new TagRepository();
+    this.attachmentRepository = new TransactionAttachmentRepository();
+    this.dataIsolationService = new DataIsolationService();
+    this.auditLogService = new AuditLogService();
   }
 
   async getUserTransactions(
@@ -55,7 +111,7 @@ export class TransactionService {
     // Transform the response to match frontend expectations
     const totalPages = Math.ceil(result.total / limit);
     return {
-      transactions: result.data,
+      transactions: await this.attachAttachments(await this.attachTags(await this.attachSplits(result.data))),
       total: result.total,
       page: result.page,
       limit: result.limit,
@@ -76,7 +132,8 @@ export class TransactionService {
       return null;
     }
     
-    return transaction;
+    const [withDetails] = await this.attachAttachments(await this.attachTags(await this.attachSplits([transaction])));
+    return withDetails;
   }
 
   async createTransaction(userId: string, transactionData: CreateTransactionRequest): Promise<Transaction> {
@@ -96,6 +153,7 @@ export class TransactionService {
     if (!hasWalletAccess) {
       throw new Error('AUTH_RESOURCE_FORBIDDEN');
     }
+    const wallet = await this.walletRepository.findById(walletId);
 
     // Validate category access if provided
     if (transactionData.category_id) {
@@ -105,21 +163,120 @@ export class TransactionService {
       }
     }
 
+    // Validate the goal the transaction is tagged with, if any
+    if (transactionData.savings_goal_id) {
+      await this.validateSavingsGoal(transactionData.savings_goal_id, userId, transactionData.currency || wallet!.currency);
+    }
+
+    const tagNames = this.validateTags(transactionData.tags);
+
+    // Validate transaction date if provided, otherwise default to today
+    let transactionDate = todayKey();
+    if (transactionData.transaction_date) {
+      const parsedDate = parseDateInput(transactionData.transaction_date);
+      if (!parsedDate) {
+        throw new Error('VALIDATION_INVALID_DATE');
+      }
+      transactionDate = parsedDate;
+    }
+
+    // Split transactions are categorized by their lines
+    const isSplit = !!transactionData.splits && transactionData.splits.length > 0;
+    if (isSplit) {
+      await this.validateSplits(transactionData.splits!, transactionData.amount, userId, walletId);
+    }
+
+    // Uncategorized transactions get the category of the first matching rule
+    let categoryId = isSplit ? null : transactionData.category_id || null;
+    if (!categoryId && !isSplit) {
+      const rules = await this.categoryRuleRepository.findApplicableRules(userId, [walletId]);
+      const rule = findMatchingRule(rules, { ...transactionData, wallet_id: walletId });
+      categoryId = rule ? rule.category_id : null;
+    }
+
     // Create transaction object
     const newTransaction: Transaction = {
       id: uuidv4(),
       user_id: userId,
       wallet_id: walletId,
-      category_id: transactionData.category_id || null,
+      category_id: categoryId,
       title: transactionData.title.trim(),
+      notes: transactionData.notes?.trim() || null,
       amount: transactionData.amount,
+      currency: this.resolveCurrency(transactionData.currency, wallet!.currency),
       type: transactionData.type,
+      transaction_date: transactionDate,
+      is_split: isSplit,
+      savings_goal_id: transactionData.savings_goal_id || null,
       created_by: userId, // The user creating the transaction
       created_at: new Date(),
       updated_at: new Date()
     };
 
-    return this.transactionRepository.create(newTransaction);
+    let created: Transaction;
+    if (!isSplit) {
+      created = await this.saveTags(await this.transactionRepository.create(newTransaction), userId, tagNames || []);
+    } else {
+      const splits = this.buildSplits(newTransaction.id, transactionData.splits!);
+      const withSplits = await this.transactionRepository.createWithSplits(newTransaction, splits);
+      created = await this.saveTags({ ...withSplits, splits }, userId, tagNames || []);
+    }
+
+    await this.auditLogService.record(userId, 'transaction', 'create', null, created);
+    return created;
+  }
+
+  async createTransfer(userId: string, transferData: CreateTransferRequest): Promise<TransferResult> {
+    if (transferData.from_wallet_id === transferData.to_wallet_id) {
+      throw new Error('VALIDATION_SAME_WALLET_TRANSFER');
+    }
+
+    // Validate access to both wallets
+    const hasFromAccess = await this.validateWalletAccess(transferData.from_wallet_id, userId);
+    const hasToAccess = await this.validateWalletAccess(transferData.to_wallet_id, userId);
+    if (!hasFromAccess || !hasToAccess) {
+      throw new Error('AUTH_RESOURCE_FORBIDDEN');
+    }
+    await this.validateTransferCurrencies(transferData.from_wallet_id, transferData.to_wallet_id);
+
+    // Validate transaction date if provided, otherwise default to today
+    let transactionDate = todayKey();
+    if (transferData.transaction_date) {
+      const parsedDate = parseDateInput(transferData.transaction_date);
+      if (!parsedDate) {
+        throw new Error('VALIDATION_INVALID_DATE');
+      }
+      transactionDate = parsedDate;
+    }
+
+    const transferId = uuidv4();
+    const now = new Date();
+
+    // Both legs share everything except wallet and direction
+    const baseLeg = {
+      user_id: userId,
+      category_id: null,
+      title: transferData.title?.trim() || 'Transfer',
+      notes: transferData.notes?.trim() || null,
+      amount: transferData.amount,
+      type: 'Transfer' as const,
+      transaction_date: transactionDate,
+      transfer_id: transferId,
+      created_by: userId,
+      created_at: now,
+      updated_at: now
+    };
+
+    const [outgoing, incoming] = await this.transactionRepository.createTransfer(
+      { ...baseLeg, id: uuidv4(), wallet_id: transferData.from_wallet_id, transfer_direction: 'Outgoing' },
+      { ...baseLeg, id: uuidv4(), wallet_id: transferData.to_wallet_id, transfer_direction: 'Incoming' }
+    );
+
+    await this.auditLogService.recordMany(userId, 'transaction', 'create', [
+      { before: null, after: outgoing },
+      { before: null, after: incoming }
+    ]);
+    return { transfer_id: transferId, outgoing, incoming };
   }
 
   async updateTransaction(
@@ -133,6 +290,18 @@ export class TransactionService {
       throw new Error('RESOURCE_NOT_FOUND');
     }
 
+    const tagNames = this.validateTags(transactionData.tags);
+
+    // Transfer legs are updated as a pair, but each leg keeps its own tags
+    if (existingTransaction.transfer_id) {
+      const updatedLeg = await this.updateTransferLeg(existingTransaction, userId, transactionData);
+      if (!updatedLeg) {
+        return null;
+      }
+
+      return tagNames ? this.saveTags(updatedLeg, userId, tagNames) : { ...updatedLeg, tags: existingTransaction.tags };
+    }
+
     // Validate wallet access if wallet_id is being changed
     if (transactionData.wallet_id && transactionData.wallet_id !== existingTransaction.wallet_id) {
       const hasWalletAccess = await this.validateWalletAccess(transactionData.wallet_id, userId);
@@ -152,8 +321,71 @@ export class TransactionService {
       }
     }
 
-    const updateData = {
-      ...transactionData,
+    // Work out the split lines the transaction ends up with: new ones, none, or the existing ones
+    const { splits: requestedSplits, tags: _tags, ...fieldData } = transactionData;
+    const splitLines: TransactionSplitRequest[] = requestedSplits !== undefined
+      ? requestedSplits || []
+      : existingTransaction.splits || [];
+    const isSplit = splitLines.length > 0;
+
+    if (isSplit) {
+      if (transactionData.category_id) {
+        throw new Error('VALIDATION_SPLIT_WITH_CATEGORY');
+      }
+
+      // Existing lines only need checking when the amount or wallet they belong to changes
+      const walletChanged = !!transactionData.wallet_id && transactionData.wallet_id !== existingTransaction.wallet_id;
+      if (requestedSplits !== undefined || walletChanged || transactionData.amount !== undefined) {
+        await this.validateSplits(
+          splitLines,
+          transactionData.amount ?? existingTransaction.amount,
+          userId,
+          transactionData.wallet_id || existingTransaction.wallet_id,
+          requestedSplits === undefined && !walletChanged
+        );
+      }
+    }
+
+    // Validate transaction date if provided
+    let transactionDate: string | undefined;
+    if (transactionData.transaction_date) {
+      const parsedDate = parseDateInput(transactionData.transaction_date);
+      if (!parsedDate) {
+        throw new Error('VALIDATION_INVALID_DATE');
+      }
+      transactionDate = parsedDate;
+    }
+
+    // An amount keeps its currency when moved, so it is pinned when the wallets differ
+    const { currency: requestedCurrency, ...otherFields } = fieldData;
+    let currency: string | null | undefined;
+    if (requestedCurrency !== undefined || transactionData.wallet_id) {
+      const currentWallet = await this.walletRepository.findById(existingTransaction.wallet_id);
+      const targetWallet = transactionData.wallet_id
+        ? await this.walletRepository.findById(transactionData.wallet_id)
+        : currentWallet;
+      currency = this.resolveCurrency(
+        requestedCurrency === undefined ? existingTransaction.currency || currentWallet!.currency : requestedCurrency,
+        targetWallet!.currency
+      );
+    }
+
+    // A goal only collects amounts in the currency of its wallet
+    const goalId = transactionData.savings_goal_id !== undefined
+      ? transactionData.savings_goal_id
+      : existingTransaction.savings_goal_id;
+    if (goalId && (goalId !== existingTransaction.savings_goal_id || currency !== undefined)) {
+      const effectiveCurrency = currency !== undefined ? currency : existingTransaction.currency;
+      const targetWallet = await this.walletRepository.findById(transactionData.wallet_id || existingTransaction.wallet_id);
+      await this.validateSavingsGoal(goalId, userId, effectiveCurrency || targetWallet!.currency);
+    }
+
+    const updateData: Partial<Transaction> = {
+      ...otherFields,
+      currency,
+      transaction_date: transactionDate,
+      ...(isSplit ? { category_id: null } : {}),
+      is_split: isSplit,
       updated_at: new Date()
     };
 
@@ -162,7 +394,29 @@ export class TransactionService {
       updateData.title = updateData.title.trim();
     }
 
-    return this.transactionRepository.update(transactionId, updateData);
+    if (transactionData.notes !== undefined) {
+      updateData.notes = transactionData.notes?.trim() || null;
+    }
+
+    // Clean up undefined values
+    Object.keys(updateData).forEach(key => {
+      if (updateData[key as keyof Transaction] === undefined) {
+        delete updateData[key as keyof Transaction];
+      }
+    });
+
+    // Split lines are only rewritten when the request changes them
+    const splits = requestedSplits !== undefined ? this.buildSplits(transactionId, splitLines) : undefined;
+    const updated = await this.transactionRepository.updateWithSplits(transactionId, updateData, splits);
+    if (!updated) {
+      return null;
+    }
+
+    const [withSplits] = await this.attachSplits([updated]);
+    const result = tagNames ? await this.saveTags(withSplits, userId, tagNames) : { ...withSplits, tags: existingTransaction.tags };
+
+    await this.auditLogService.record(userId, 'transaction', 'update', existingTransaction, result);
+    return result;
   }
 
   async deleteTransaction(transactionId: string, userId: string): Promise<boolean> {
@@ -172,7 +426,200 @@ export class TransactionService {
       throw new Error('RESOURCE_NOT_FOUND');
     }
 
-    return this.transactionRepository.delete(transactionId);
+    // Deleting either leg of a transfer moves both to the trash
+    if (existingTransaction.transfer_id) {
+      const counterpart = await this.getTransferCounterpart(existingTransaction, userId);
+      const deleted = await this.transactionRepository.deleteByTransferId(existingTransaction.transfer_id);
+      if (deleted) {
+        await this.auditLogService.recordMany(userId, 'transaction', 'delete', [
+          { before: existingTransaction, after: null },
+          { before: counterpart, after: null }
+        ]);
+      }
+      return deleted;
+    }
+
+    // Attachment files stay until the trash is purged, so the transaction can be restored
+    const deleted = await this.transactionRepository.delete(transactionId);
+    if (deleted) {
+      await this.auditLogService.record(userId, 'transaction', 'delete', existingTransaction, null);
+    }
+    return deleted;
+  }
+
+  /**
+   * Change the category, wallet or type of several transactions. Items that
+   * cannot take the changes are reported as failed, and the rest are saved
+   * together in one database transaction.
+   */
+  async bulkUpdateTransactions(
+    userId: string,
+    target: BulkTransactionTarget,
+    changes: BulkTransactionChanges
+  ): Promise<BulkTransactionResult> {
+    const { ids, transactions } = await this.resolveBulkTarget(userId, target);
+
+    // Every item moves to the same wallet, so without access to it the whole request is refused
+    let targetWallet: Wallet | null = null;
+    if (changes.wallet_id) {
+      const hasWalletAccess = await this.dataIsolationService.validateBulkWalletAccess([changes.wallet_id], userId);
+      targetWallet = hasWalletAccess ? await this.walletRepository.findById(changes.wallet_id) : null;
+      if (!targetWallet) {
+        throw new Error('AUTH_RESOURCE_FORBIDDEN');
+      }
+    }
+
+    // Split lines are only checked again when they move to another wallet
+    const candidates = targetWallet
+      ? new Map((await this.attachSplits([...transactions.values()])).map(t => [t.id, t]))
+      : transactions;
+
+    // The current wallets are needed to pin the currency of moved amounts
+    const wallets = new Map<string, Wallet>();
+    const walletIds = targetWallet ? [...new Set([...candidates.values()].map(t => t.wallet_id))] : [];
+    for (const walletId of walletIds) {
+      const wallet = await this.walletRepository.findById(walletId);
+      if (wallet) {
+        wallets.set(walletId, wallet);
+      }
+    }
+
+    // Bank ids are unique per wallet, so a moved transaction may not bring one the
+    // target wallet already has, or one another moved transaction brings first
+    const movedExternalIds = [...candidates.values()]
+      .filter(t => targetWallet && t.wallet_id !== targetWallet.id && t.external_id)
+      .map(t => t.external_id!);
+    const takenExternalIds = new Set(targetWallet
+      ? (await this.transactionRepository.findByExternalIds(targetWallet.id, movedExternalIds)).map(t => t.external_id!)
+      : []);
+
+    const categoryAccess = new Map<string, boolean>(); // By wallet id
+    const results: BulkTransactionItemResult[] = [];
+    const updates: { id: string; data: Partial<Transaction> }[] = [];
+
+    for (const id of ids) {
+      const transaction = candidates.get(id);
+      if (!transaction) {
+        results.push({ id, status: 'failed', error: 'RESOURCE_NOT_FOUND' });
+        continue;
+      }
+
+      try {
+        // Transfers are edited one at a time, since both legs have to change together
+        if (transaction.transfer_id) {
+          throw new Error('VALIDATION_INVALID_TRANSFER_UPDATE');
+        }
+
+        const walletId = targetWallet ? targetWallet.id : transaction.wallet_id;
+        const data: Partial<Transaction> = {};
+
+        if (changes.type) {
+          data.type = changes.type;
+        }
+
+        if (changes.category_id !== undefined) {
+          if (changes.category_id) {
+            if (transaction.is_split) {
+              throw new Error('VALIDATION_SPLIT_WITH_CATEGORY');
+            }
+
+            if (!categoryAccess.has(walletId)) {
+              categoryAccess.set(walletId, await this.validateCategoryAccess(changes.category_id, userId, walletId));
+            }
+            if (!categoryAccess.get(walletId)) {
+              throw new Error('AUTH_RESOURCE_FORBIDDEN');
+            }
+          }
+          data.category_id = changes.category_id;
+        }
+
+        // An amount keeps its currency when moved, as in a single update
+        if (targetWallet && walletId !== transaction.wallet_id) {
+          if (transaction.external_id && takenExternalIds.has(transaction.external_id)) {
+            throw new Error('VALIDATION_DUPLICATE_EXTERNAL_ID');
+          }
+
+          const currentWallet = wallets.get(transaction.wallet_id);
+          data.wallet_id = walletId;
+          data.currency = this.resolveCurrency(transaction.currency || currentWallet?.currency, targetWallet.currency);
+
+          if (transaction.is_split) {
+            await this.validateSplits(transaction.splits || [], transaction.amount, userId, walletId);
+          }
+          if (transaction.savings_goal_id) {
+            await this.validateSavingsGoal(transaction.savings_goal_id, userId, data.currency || targetWallet.currency);
+          }
+        }
+
+        updates.push({ id, data });
+        results.push({ id, status: 'updated' });
+        if (data.wallet_id && transaction.external_id) {
+          takenExternalIds.add(transaction.external_id);
+        }
+      } catch (error) {
+        results.push({ id, status: 'failed', error: this.getBulkItemError(error) });
+      }
+    }
+
+    await this.transactionRepository.transaction(async (trx) => {
+      const updatedRows = await this.transactionRepository.updateMany(updates, trx);
+      await this.auditLogService.recordMany(userId, 'transaction', 'update', updatedRows.map(after => ({
+        before: candidates.get(after.id) || null,
+        after
+      })), trx);
+    });
+
+    return this.summarizeBulkResults(results);
+  }
+
+  /**
+   * Delete several transactions in one database transaction. Deleting either
+   * leg of a transfer removes both, as in a single delete.
+   */
+  async bulkDeleteTransactions(userId: string, target: BulkTransactionTarget): Promise<BulkTransactionResult> {
+    const { ids, transactions } = await this.resolveBulkTarget(userId, target);
+
+    const transferIds = [...new Set([...transactions.values()]
+      .map(t => t.transfer_id)
+      .filter((transferId): transferId is string => !!transferId))];
+    const transferLegs = await this.transactionRepository.findByTransferIds(transferIds);
+    const accessibleWalletIds = await this.filterAccessibleWallets(transferLegs.map(t => t.wallet_id), userId);
+
+    const results: BulkTransactionItemResult[] = [];
+    const deleteIds = new Set<string>();
+    const rowsById = new Map([...transactions.values(), ...transferLegs].map(t => [t.id, t]));
+
+    for (const id of ids) {
+      const transaction = transactions.get(id);
+      if (!transaction) {
+        results.push({ id, status: 'failed', error: 'RESOURCE_NOT_FOUND' });
+        continue;
+      }
+
+      if (transaction.transfer_id) {
+        // Removing a transfer touches both wallets, so both must be accessible
+        const legs = transferLegs.filter(t => t.transfer_id === transaction.transfer_id);
+        if (!legs.every(leg => accessibleWalletIds.has(leg.wallet_id))) {
+          results.push({ id, status: 'failed', error: 'AUTH_RESOURCE_FORBIDDEN' });
+          continue;
+        }
+        legs.forEach(leg => deleteIds.add(leg.id));
+      } else {
+        deleteIds.add(id);
+      }
+
+      results.push({ id, status: 'deleted' });
+    }
+
+    await this.transactionRepository.transaction(async (trx) => {
+      await this.transactionRepository.deleteMany([...deleteIds], trx);
+      await this.auditLogService.recordMany(userId, 'transaction', 'delete', [...deleteIds].map(id => ({
+        before: rowsById.get(id) || null,
+        after: null
+      })), trx);
+    });
+
+    return this.summarizeBulkResults(results);
   }
 
   async getTransactionSummary(
@@ -208,7 +655,9 @@ export class TransactionService {
       category_id: filters.category_id,
       type: filters.type,
       start_date: filters.start_date,
-      end_date: filters.end_date
+      end_date: filters.end_date,
+      tags: filters.tags,
+      search: filters.search
     };
 
     // Get summary data with filters
@@ -233,6 +682,439 @@ export class TransactionService {
     };
   }
 
+  async previewImport(userId: string, importData: TransactionImportRequest): Promise<ImportPreviewResult> {
+    const parsed = await this.parseImport(userId, importData);
+    const rows = await this.categorizeImportRows(userId, importData, await this.flagDuplicates(importData.wallet_id, parsed.rows));
+
+    return {
+      headers: parsed.headers,
+      total_rows: parsed.rows.length + parsed.errors.length,
+      rows,
+      errors: parsed.errors
+    };
+  }
+
+  /**
+   * Import parsed rows into a wallet. The import is all-or-nothing: if any row
+   * fails to parse, nothing is written and every failing row is reported.
+   */
+  async importTransactions(userId: string, importData: TransactionImportRequest): Promise<ImportResult> {
+    const parsed = await this.parseImport(userId, importData);
+    const totalRows = parsed.rows.length + parsed.errors.length;
+
+    if (parsed.errors.length > 0) {
+      return {
+        status: 'failed',
+        total_rows: totalRows,
+        imported_records: 0,
+        skipped_duplicates: 0,
+        errors: parsed.errors
+      };
+    }
+
+    const rows = await this.categorizeImportRows(userId, importData, await this.flagDuplicates(importData.wallet_id, parsed.rows));
+    const skipDuplicates = importData.skip_duplicates !== false;
+
+    // Rows matched by bank id are always skipped, even when duplicates are kept
+    const rowsToImport = rows.filter(row => !row.already_imported && (!skipDuplicates || !row.duplicate_of));
+
+    const created = await this.transactionRepository.transaction(async (trx) => {
+      const rows = await this.transactionRepository.createMany(rowsToImport.map(row => ({
+        id: uuidv4(),
+        user_id: userId,
+        wallet_id: importData.wallet_id,
+        category_id: row.category_id,
+        title: row.title,
+        amount: row.amount,
+        type: row.type,
+        transaction_date: row.transaction_date,
+        external_id: row.external_id,
+        created_by: userId,
+        created_at: new Date(),
+        updated_at: new Date()
+      })), trx);
+      await this.auditLogService.recordMany(userId, 'transaction', 'create', rows.map(after => ({ before: null, after })), trx);
+      return rows;
+    });
+
+    // Also counts rows dropped on insert because their bank id repeats within the file
+    return {
+      status: 'completed',
+      total_rows: totalRows,
+      imported_records: created.length,
+      skipped_duplicates: rows.length - created.length,
+      errors: []
+    };
+  }
+
+  // Validate the target wallet and category, then parse the uploaded file
+  private async parseImport(
+    userId: string,
+    importData: TransactionImportRequest
+  ): Promise<ParsedImportFile> {
+    const hasWalletAccess = await this.validateWalletAccess(importData.wallet_id, userId);
+    if (!hasWalletAccess) {
+      throw new Error('AUTH_RESOURCE_FORBIDDEN');
+    }
+
+    if (importData.category_id) {
+      const hasCategoryAccess = await this.validateCategoryAccess(importData.category_id, userId, importData.wallet_id);
+      if (!hasCategoryAccess) {
+        throw new Error('AUTH_RESOURCE_FORBIDDEN');
+      }
+    }
+
+    const parsed = this.parseImportFile(importData);
+
+    const rowCount = parsed.rows.length + parsed.errors.length;
+    if (rowCount === 0) {
+      throw new Error('VALIDATION_EMPTY_IMPORT_FILE');
+    }
+
+    if (rowCount > MAX_IMPORT_ROWS) {
+      throw new Error('VALIDATION_IMPORT_TOO_LARGE');
+    }
+
+    return parsed;
+  }
+
+  private parseImportFile(importData: TransactionImportRequest): ParsedImportFile {
+    switch (importData.format || 'csv') {
+      case 'ofx':
+        return parseOfxImport(importData.content);
+      case 'qif':
+        return parseQifImport(importData.content, importData.date_format || 'MM/DD/YYYY');
+      default: {
+        const mapping = importData.mapping!;
+        const hasAmountColumns = mapping.amount !== undefined || mapping.debit !== undefined || mapping.credit !== undefined;
+        if (!hasAmountColumns) {
+          throw new Error('VALIDATION_INVALID_IMPORT_MAPPING');
+        }
+
+        return parseCsvImport(importData.content, mapping, {
+          hasHeader: importData.has_header !== false,
+          dateFormat: importData.date_format || 'YYYY-MM-DD',
+          decimalSeparator: importData.decimal_separator || '.'
+        });
+      }
+    }
+  }
+
+  /**
+   * Flag rows that duplicate a transaction already in the wallet. Rows with a
+   * bank id match the transaction imported with the same id; other rows
+   * likely duplicate one with the same date, type and amount. Each existing
+   * transaction matches at most one row.
+   */
+  private async flagDuplicates(walletId: string, rows: ParsedImportRow[]): Promise<ImportPreviewRow[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const externalIds = rows.map(row => row.external_id).filter((id): id is string => !!id);
+    const byExternalId = new Map(
+      (await this.transactionRepository.findByExternalIds(walletId, externalIds))
+        .map(transaction => [transaction.external_id!, transaction.id])
+    );
+
+    // Date keys sort in date order
+    const dates = rows.map(row => row.transaction_date).sort();
+    const existing = await this.transactionRepository.findWithFilters({
+      wallet_id: walletId,
+      start_date: dates[0],
+      end_date: dates[dates.length - 1]
+    });
+
+    // Transactions that carry a bank id are a different bank transaction from
+    // any row with another id, so they only match rows without one
+    const unmatched = new Map<string, Transaction[]>();
+    for (const transaction of existing) {
+      const key = this.getDuplicateKey(transaction.transaction_date, transaction.type, transaction.amount);
+      unmatched.set(key, [...(unmatched.get(key) || []), transaction]);
+    }
+
+    return rows.map(row => {
+      if (row.external_id && byExternalId.has(row.external_id)) {
+        return { ...row, duplicate_of: byExternalId.get(row.external_id)!, already_imported: true, category_id: null };
+      }
+
+      const candidates = unmatched.get(this.getDuplicateKey(row.transaction_date, row.type, row.amount)) || [];
+      const index = candidates.findIndex(transaction => !row.external_id || !transaction.external_id);
+      return {
+        ...row,
+        duplicate_of: index >= 0 ? candidates.splice(index, 1)[0].id : null,
+        already_imported: false,
+        category_id: null
+      };
+    });
+  }
+
+  // Use the category chosen for the import, or let the wallet's rules pick one per row
+  private async categorizeImportRows(
+    userId: string,
+    importData: TransactionImportRequest,
+    rows: ImportPreviewRow[]
+  ): Promise<ImportPreviewRow[]> {
+    if (importData.category_id) {
+      return rows.map(row => ({ ...row, category_id: importData.category_id! }));
+    }
+
+    const rules = await this.categoryRuleRepository.findApplicableRules(userId, [importData.wallet_id]);
+    return rows.map(row => {
+      const rule = findMatchingRule(rules, { ...row, wallet_id: importData.wallet_id });
+      return { ...row, category_id: rule ? rule.category_id : null };
+    });
+  }
+
+  private getDuplicateKey(date: string, type: string, amount: number | string): string {
+    const numericAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+    return `${toDateKey(date)}|${type}|${numericAmount.toFixed(2)}`;
+  }
+
+  private async updateTransferLeg(
+    leg: Transaction,
+    userId: string,
+    transactionData: UpdateTransactionRequest
+  ): Promise<Transaction | null> {
+    // A transfer cannot change type or be categorised, and counts towards the goals of its wallets by itself
+    if (
+      transactionData.type !== undefined ||
+      transactionData.category_id ||
+      transactionData.splits?.length ||
+      transactionData.currency ||
+      transactionData.savings_goal_id
+    ) {
+      throw new Error('VALIDATION_INVALID_TRANSFER_UPDATE');
+    }
+
+    const counterpart = await this.getTransferCounterpart(leg, userId);
+
+    // Validate the new wallet if this leg is being moved
+    let walletId: string | undefined;
+    if (transactionData.wallet_id && transactionData.wallet_id !== leg.wallet_id) {
+      if (transactionData.wallet_id === counterpart.wallet_id) {
+        throw new Error('VALIDATION_SAME_WALLET_TRANSFER');
+      }
+
+      const hasWalletAccess = await this.validateWalletAccess(transactionData.wallet_id, userId);
+      if (!hasWalletAccess) {
+        throw new Error('AUTH_RESOURCE_FORBIDDEN');
+      }
+      await this.validateTransferCurrencies(transactionData.wallet_id, counterpart.wallet_id);
+      walletId = transactionData.wallet_id;
+    }
+
+    // Validate transaction date if provided
+    let transactionDate: string | undefined;
+    if (transactionData.transaction_date) {
+      const parsedDate = parseDateInput(transactionData.transaction_date);
+      if (!parsedDate) {
+        throw new Error('VALIDATION_INVALID_DATE');
+      }
+      transactionDate = parsedDate;
+    }
+
+    // Title, notes, amount and date are kept identical on both legs
+    const sharedData: Partial<Transaction> = {};
+    if (transactionData.title) sharedData.title = transactionData.title.trim();
+    if (transactionData.notes !== undefined) sharedData.notes = transactionData.notes?.trim() || null;
+    if (transactionData.amount !== undefined) sharedData.amount = transactionData.amount;
+    if (transactionDate) sharedData.transaction_date = transactionDate;
+
+    const updatedLegs = await this.transactionRepository.updateTransfer(
+      leg.transfer_id as string,
+      sharedData,
+      leg.transfer_direction === 'Outgoing' ? { outgoing: walletId } : { incoming: walletId }
+    );
+    await this.auditLogService.recordMany(userId, 'transaction', 'update', updatedLegs.map(after => ({
+      before: after.id === leg.id ? leg : counterpart,
+      after
+    })));
+
+    return updatedLegs.find(t => t.id === leg.id) || null;
+  }
+
+  /**
+   * Split lines must add up to the transaction amount and use categories the
+   * user may use in the wallet. `amountOnly` skips the category checks for
+   * lines that are already stored and stay in the same wallet.
+   */
+  private async validateSplits(
+    splits: TransactionSplitRequest[],
+    amount: number,
+    userId: string,
+    walletId: string,
+    amountOnly: boolean = false
+  ): Promise<void> {
+    if (!splitsMatchTotal(amount, splits)) {
+      throw new Error('VALIDATION_SPLIT_TOTAL_MISMATCH');
+    }
+
+    if (amountOnly) {
+      return;
+    }
+
+    const categoryIds = [...new Set(splits.map(split => split.category_id).filter((id): id is string => !!id))];
+    for (const categoryId of categoryIds) {
+      const hasCategoryAccess = await this.validateCategoryAccess(categoryId, userId, walletId);
+      if (!hasCategoryAccess) {
+        throw new Error('AUTH_RESOURCE_FORBIDDEN');
+      }
+    }
+  }
+
+  private buildSplits(transactionId: string, splits: TransactionSplitRequest[]): TransactionSplit[] {
+    const now = new Date();
+    return splits.map((split, index) => ({
+      id: uuidv4(),
+      transaction_id: transactionId,
+      category_id: split.category_id || null,
+      amount: split.amount,
+      memo: split.memo?.trim() || null,
+      position: index,
+      created_at: now,
+      updated_at: now
+    }));
+  }
+
+  // Load the split lines of any split transactions in the list
+  private async attachSplits(transactions: Transaction[]): Promise<Transaction[]> {
+    const splits = await this.transactionSplitRepository.findByTransactionIds(splitTransactionIds(transactions));
+    if (splits.length === 0) {
+      return transactions;
+    }
+
+    return transactions.map(transaction => transaction.is_split
+      ? { ...transaction, splits: splits.filter(split => split.transaction_id === transaction.id) }
+      : transaction
+    );
+  }
+
+  // Load the tag names of every transaction in the list
+  private async attachTags(transactions: Transaction[]): Promise<Transaction[]> {
+    const tags = await this.tagRepository.findNamesByTransactionIds(transactions.map(t => t.id));
+    return transactions.map(transaction => ({
+      ...transaction,
+      tags: tags.filter(tag => tag.transaction_id === transaction.id).map(tag => tag.name)
+    }));
+  }
+
+  // Load the attachment details of every transaction in the list; the files are fetched separately
+  private async attachAttachments(transactions: Transaction[]): Promise<Transaction[]> {
+    const attachments = await this.attachmentRepository.findByTransactionIds(transactions.map(t => t.id));
+    return transactions.map(transaction => ({
+      ...transaction,
+      attachments: attachments.filter(attachment => attachment.transaction_id === transaction.id)
+    }));
+  }
+
+  // Undefined leaves the tags alone; anything else must be a valid list of names
+  private validateTags(tags: unknown): string[] | undefined {
+    if (tags === undefined) {
+      return undefined;
+    }
+
+    const tagNames = normalizeTagNames(tags);
+    if (!tagNames) {
+      throw new Error('VALIDATION_INVALID_TAGS');
+    }
+
+    return tagNames;
+  }
+
+  // Replace the tags on a transaction, creating the ones the user does not have yet
+  private async saveTags(transaction: Transaction, userId: string, tagNames: string[]): Promise<Transaction> {
+    const tags = await this.tagRepository.findOrCreateByNames(userId, tagNames);
+    await this.tagRepository.setTransactionTags(transaction.id, tags.map(tag => tag.id));
+    return { ...transaction, tags: [...tagNames].sort() };
+  }
+
+  // Load the targeted transactions that are in wallets the user can access, keyed by id
+  private async resolveBulkTarget(
+    userId: string,
+    target: BulkTransactionTarget
+  ): Promise<{ ids: string[]; transactions: Map<string, Transaction> }> {
+    let ids: string[];
+    let candidates: Transaction[];
+
+    if ('ids' in target) {
+      ids = [...new Set(target.ids)];
+      candidates = await this.transactionRepository.findByIds(ids);
+    } else {
+      const accessibleWalletIds = await this.getAccessibleWalletIds(userId);
+      if (target.filters.wallet_id && !accessibleWalletIds.includes(target.filters.wallet_id)) {
+        throw new Error('AUTH_RESOURCE_FORBIDDEN');
+      }
+
+      // The same transactions the list shows for these filters
+      candidates = await this.transactionRepository.findWithFiltersForWallets(
+        { ...target.filters, user_id: userId },
+        accessibleWalletIds
+      );
+      ids = candidates.map(t => t.id);
+    }
+
+    if (ids.length > MAX_BULK_TRANSACTIONS) {
+      throw new Error('VALIDATION_BULK_TOO_LARGE');
+    }
+
+    const accessibleWalletIds = await this.filterAccessibleWallets(candidates.map(t => t.wallet_id), userId);
+    return {
+      ids,
+      transactions: new Map(candidates.filter(t => accessibleWalletIds.has(t.wallet_id)).map(t => [t.id, t]))
+    };
+  }
+
+  // All wallets are checked together, and one by one only when some of them are out of reach
+  private async filterAccessibleWallets(walletIds: string[], userId: string): Promise<Set<string>> {
+    const distinctIds = [...new Set(walletIds)];
+    if (await this.dataIsolationService.validateBulkWalletAccess(distinctIds, userId)) {
+      return new Set(distinctIds);
+    }
+
+    const accessibleIds = new Set<string>();
+    for (const walletId of distinctIds) {
+      if (await this.dataIsolationService.validateBulkWalletAccess([walletId], userId)) {
+        accessibleIds.add(walletId);
+      }
+    }
+    return accessibleIds;
+  }
+
+  // Validation failures become the item's error; anything else fails the whole request
+  private getBulkItemError(error: unknown): string {
+    if (error instanceof Error && /^[A-Z_]+$/.test(error.message)) {
+      return error.message;
+    }
+    throw error;
+  }
+
+  private summarizeBulkResults(results: BulkTransactionItemResult[]): BulkTransactionResult {
+    const failed = results.filter(result => result.status === 'failed').length;
+    return {
+      matched: results.length,
+      succeeded: results.length - failed,
+      failed,
+      results
+    };
+  }
+
+  private async getTransferCounterpart(leg: Transaction, userId: string): Promise<Transaction> {
+    const legs = await this.transactionRepository.findByTransferId(leg.transfer_id as string);
+    const counterpart = legs.find(t => t.id !== leg.id);
+    if (!counterpart) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    // Changing a transfer touches both wallets, so both must be accessible
+    const hasAccess = await this.validateTransactionAccess(counterpart, userId);
+    if (!hasAccess) {
+      throw new Error('AUTH_RESOURCE_FORBIDDEN');
+    }
+
+    return counterpart;
+  }
+
   private async getAccessibleWalletIds(userId: string): Promise<string[]> {
     // Get user's own wallets
     const ownWallets = await this.walletRepository.findByUserId(userId);
@@ -259,6 +1141,33 @@ export class TransactionService {
     return this.validateWalletAccess(transaction.wallet_id, userId);
   }
 
+  // Null stands for the wallet's own currency, so only a different one is stored
+  private resolveCurrency(currency: string | null | undefined, walletCurrency: string): string | null {
+    return currency && currency !== walletCurrency ? currency : null;
+  }
+
+  // Transfers move the same amount between wallets, so both must hold the same currency
+  private async validateTransferCurrencies(fromWalletId: string, toWalletId: string): Promise<void> {
+    const fromWallet = await this.walletRepository.findById(fromWalletId);
+    const toWallet = await this.walletRepository.findById(toWalletId);
+    if (fromWallet && toWallet && fromWallet.currency !== toWallet.currency) {
+      throw new Error('VALIDATION_TRANSFER_CURRENCY_MISMATCH');
+    }
+  }
+
+  // Goals are personal, and only collect amounts in the currency of their wallet
+  private async validateSavingsGoal(goalId: string, userId: string, currency: string): Promise<void> {
+    const goal = await this.savingsGoalRepository.findById(goalId);
+    if (!goal || goal.user_id !== userId) {
+      throw new Error('AUTH_RESOURCE_FORBIDDEN');
+    }
+
+    const goalWallet = await this.walletRepository.findById(goal.wallet_id);
+    if (goalWallet && goalWallet.currency !== currency) {
+      throw new Error('VALIDATION_GOAL_CURRENCY_MISMATCH');
+    }
+  }
+
   private async validateWalletAccess(walletId: string, userId: string): Promise<boolean> {
     const wallet = await this.walletRepository.findById(walletId);
     if (!wallet) {
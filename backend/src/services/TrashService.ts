@@ -0,0 +1,241 @@
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { CategoryRepository } from '../repositories/CategoryRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+import { BudgetRepository } from '../repositories/BudgetRepository';
+import { ReminderRepository } from '../repositories/ReminderRepository';
+import { TransactionAttachmentRepository } from '../repositories/TransactionAttachmentRepository';
+import { TransactionAttachmentService } from './TransactionAttachmentService';
+import { DataIsolationService } from './DataIsolationService';
+import { AuditLogService } from './AuditLogService';
+import { TrashItem, TrashItemType } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashPurgeResult {
+  transactions: number;
+  budgets: number;
+  reminders: number;
+  categories: number;
+  wallets: number;
+}
+
+export class TrashService {
+  private transactionRepository: TransactionRepository;
+  private categoryRepository: CategoryRepository;
+  private walletRepository: WalletRepository;
+  private budgetRepository: BudgetRepository;
+  private reminderRepository: ReminderRepository;
+  private attachmentRepository: TransactionAttachmentRepository;
+  private attachmentService: TransactionAttachmentService;
+  private dataIsolationService: DataIsolationService;
+  private auditLogService: AuditLogService;
+  private retentionDays: number;
+
+  constructor() {
+    this.transactionRepository = new TransactionRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.walletRepository = new WalletRepository();
+    this.budgetRepository = new BudgetRepository();
+    this.reminderRepository = new ReminderRepository();
+    this.attachmentRepository = new TransactionAttachmentRepository();
+    this.attachmentService = new TransactionAttachmentService();
+    this.dataIsolationService = new DataIsolationService();
+    this.auditLogService = new AuditLogService();
+    this.retentionDays = parseInt(process.env.TRASH_RETENTION_DAYS || '30');
+  }
+
+  /**
+   * Everything the user can restore, newest first. Rows that went into the
+   * trash with their wallet are not listed; they come back with the wallet.
+   */
+  async getTrash(userId: string): Promise<TrashItem[]> {
+    const accessibleWalletIds = await this.dataIsolationService.getAccessibleWalletIds(userId);
+    const isListed = (walletId: string | null) => walletId === null || accessibleWalletIds.includes(walletId);
+
+    const [transactions, budgets, categories, reminders, wallets] = await Promise.all([
+      this.transactionRepository.findTrashedInWallets(accessibleWalletIds),
+      this.budgetRepository.findTrashedInWallets(accessibleWalletIds),
+      this.categoryRepository.findTrashedByUserId(userId),
+      this.reminderRepository.findTrashedByUserId(userId),
+      this.walletRepository.findTrashedByUserId(userId)
+    ]);
+
+    // A transfer is listed once, by its outgoing leg
+    const items: TrashItem[] = [
+      ...transactions
+        .filter(t => t.transfer_direction !== 'Incoming')
+        .map(t => this.toTrashItem('transaction', t.id, t.title, t.wallet_id, t.deleted_at)),
+      ...budgets.map(b => this.toTrashItem('budget', b.id, b.month, b.wallet_id, b.deleted_at)),
+      ...categories
+        .filter(c => isListed(c.wallet_id))
+        .map(c => this.toTrashItem('category', c.id, c.name, c.wallet_id, c.deleted_at)),
+      ...reminders
+        .filter(r => isListed(r.wallet_id))
+        .map(r => this.toTrashItem('reminder', r.id, r.title, r.wallet_id, r.deleted_at)),
+      ...wallets.map(w => this.toTrashItem('wallet', w.id, w.name, null, w.deleted_at))
+    ];
+
+    return items.sort((a, b) => b.deleted_at.getTime() - a.deleted_at.getTime());
+  }
+
+  async restoreItem(type: TrashItemType, id: string, userId: string): Promise<TrashItem> {
+    try {
+      switch (type) {
+        case 'transaction':
+          return await this.restoreTransaction(id, userId);
+        case 'budget':
+          return await this.restoreBudget(id, userId);
+        case 'category':
+          return await this.restoreCategory(id, userId);
+        case 'reminder':
+          return await this.restoreReminder(id, userId);
+        case 'wallet':
+          return await this.restoreWallet(id, userId);
+      }
+    } catch (error: any) {
+      // An active row took the trashed one's place, e.g. a budget for the same month
+      if (error?.code === '23505') {
+        throw new Error('TRASH_RESTORE_CONFLICT');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently remove everything that has been in the trash longer than the
+   * retention window. Attachment files are deleted once their rows are gone.
+   */
+  async purgeExpired(now: Date = new Date()): Promise<TrashPurgeResult> {
+    const cutoff = new Date(now.getTime() - this.retentionDays * DAY_MS);
+
+    const transactionIds = await this.transactionRepository.findIdsDeletedBefore(cutoff);
+    const attachments = await this.attachmentRepository.findByTransactionIds(transactionIds);
+    const transactions = await this.transactionRepository.purgeDeletedBefore(cutoff);
+    await this.attachmentService.deleteStoredFiles(attachments);
+
+    // Wallets go last, so their contents are already gone when the foreign keys cascade
+    const budgets = await this.budgetRepository.purgeDeletedBefore(cutoff);
+    const reminders = await this.reminderRepository.purgeDeletedBefore(cutoff);
+    const categories = await this.categoryRepository.purgeDeletedBefore(cutoff);
+    const wallets = await this.walletRepository.purgeDeletedBefore(cutoff);
+
+    return { transactions, budgets, reminders, categories, wallets };
+  }
+
+  private async restoreTransaction(id: string, userId: string): Promise<TrashItem> {
+    const transaction = await this.transactionRepository.findDeletedById(id);
+    if (!transaction) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    await this.validateActiveWallet(transaction.wallet_id, userId);
+
+    // Both legs of a transfer come back together
+    if (transaction.transfer_id) {
+      const legs = await this.transactionRepository.findTrashedTransferLegs(transaction.transfer_id, transaction.deleted_at as Date);
+      for (const leg of legs) {
+        await this.validateActiveWallet(leg.wallet_id, userId);
+      }
+
+      const restoredLegs = await this.transactionRepository.restoreTransfer(transaction.transfer_id, transaction.deleted_at as Date);
+      await this.auditLogService.recordMany(userId, 'transaction', 'restore', restoredLegs.map(after => ({
+        before: legs.find(leg => leg.id === after.id) || null,
+        after
+      })));
+    } else {
+      const restored = await this.transactionRepository.restore(id);
+      await this.auditLogService.record(userId, 'transaction', 'restore', transaction, restored);
+    }
+
+    return this.toTrashItem('transaction', transaction.id, transaction.title, transaction.wallet_id, transaction.deleted_at);
+  }
+
+  private async restoreBudget(id: string, userId: string): Promise<TrashItem> {
+    const budget = await this.budgetRepository.findDeletedById(id);
+    if (!budget) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    await this.validateActiveWallet(budget.wallet_id, userId);
+    if (budget.category_id && !(await this.categoryRepository.exists(budget.category_id))) {
+      throw new Error('TRASH_PARENT_DELETED');
+    }
+
+    const restored = await this.budgetRepository.restore(id);
+    await this.auditLogService.record(userId, 'budget', 'restore', budget, restored);
+    return this.toTrashItem('budget', budget.id, budget.month, budget.wallet_id, budget.deleted_at);
+  }
+
+  private async restoreCategory(id: string, userId: string): Promise<TrashItem> {
+    const category = await this.categoryRepository.findDeletedById(id);
+    if (!category || category.user_id !== userId) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    if (category.wallet_id) {
+      await this.validateActiveWallet(category.wallet_id, userId);
+    }
+
+    const duplicate = await this.categoryRepository.findByNameAndUser(category.name, userId, category.wallet_id);
+    if (duplicate) {
+      throw new Error('TRASH_RESTORE_CONFLICT');
+    }
+
+    const restored = await this.categoryRepository.restore(id);
+    await this.auditLogService.record(userId, 'category', 'restore', category, restored);
+    return this.toTrashItem('category', category.id, category.name, category.wallet_id, category.deleted_at);
+  }
+
+  private async restoreReminder(id: string, userId: string): Promise<TrashItem> {
+    const reminder = await this.reminderRepository.findDeletedById(id);
+    if (!reminder || reminder.user_id !== userId) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    if (reminder.wallet_id) {
+      await this.validateActiveWallet(reminder.wallet_id, userId);
+    }
+
+    const restored = await this.reminderRepository.restore(id);
+    await this.auditLogService.record(userId, 'reminder', 'restore', reminder, restored);
+    return this.toTrashItem('reminder', reminder.id, reminder.title, reminder.wallet_id, reminder.deleted_at);
+  }
+
+  private async restoreWallet(id: string, userId: string): Promise<TrashItem> {
+    const wallet = await this.walletRepository.findDeletedById(id);
+    if (!wallet || wallet.user_id !== userId) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    const restored = await this.walletRepository.restoreWithContents(id);
+    await this.auditLogService.record(userId, 'wallet', 'restore', wallet, restored);
+    return this.toTrashItem('wallet', wallet.id, wallet.name, null, wallet.deleted_at);
+  }
+
+  // Rows can only come back into a wallet that is not in the trash itself
+  private async validateActiveWallet(walletId: string, userId: string): Promise<void> {
+    const hasAccess = await this.dataIsolationService.validateWalletAccess(walletId, userId);
+    if (hasAccess) {
+      return;
+    }
+
+    const trashedWallet = await this.walletRepository.findDeletedById(walletId);
+    if (trashedWallet && trashedWallet.user_id === userId) {
+      throw new Error('TRASH_PARENT_DELETED');
+    }
+
+    throw new Error('RESOURCE_NOT_FOUND');
+  }
+
+  private toTrashItem(type: TrashItemType, id: string, name: string, walletId: string | null, deletedAt?: Date | null): TrashItem {
+    const deleted = new Date(deletedAt as Date);
+    return {
+      type,
+      id,
+      name,
+      wallet_id: walletId,
+      deleted_at: deleted,
+      purge_at: new Date(deleted.getTime() + this.retentionDays * DAY_MS)
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { UserRepository } from '../repositories/UserRepository';
+import { UserRecoveryCodeRepository } from '../repositories/UserRecoveryCodeRepository';
+import { SettingsService } from './SettingsService';
+import { User, TwoFactorSetupResponse, TwoFactorStatus } from '../types';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export class TwoFactorService {
+  private userRepository: UserRepository;
+  private userRecoveryCodeRepository: UserRecoveryCodeRepository;
+  private settingsService: SettingsService;
+
+  constructor() {
+    this.userRepository = new UserRepository();
+    this.userRecoveryCodeRepository = new UserRecoveryCodeRepository();
+    this.settingsService = new SettingsService();
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.getUser(userId);
+
+    return {
+      enabled: !!user.two_factor_enabled_at,
+      enabled_at: user.two_factor_enabled_at || null,
+      recovery_codes_remaining: user.two_factor_enabled_at
+        ? await this.userRecoveryCodeRepository.countUnused(user.id)
+        : 0,
+      required: await this.settingsService.isTwoFactorRequired(user.role)
+    };
+  }
+
+  // Admins can be required to use two-factor authentication before using admin features
+  async isMissingRequiredTwoFactor(userId: string, role: 'user' | 'admin'): Promise<boolean> {
+    if (!await this.settingsService.isTwoFactorRequired(role)) {
+      return false;
+    }
+
+    const user = await this.userRepository.findById(userId);
+    return !user?.two_factor_enabled_at;
+  }
+
+  /**
+   * Start enrolling: create a new secret for the authenticator app. It is not
+   * used at login until a code from the app is confirmed with enable().
+   */
+  async beginSetup(userId: string): Promise<TwoFactorSetupResponse> {
+    const user = await this.getUser(userId);
+    if (user.two_factor_enabled_at) {
+      throw new Error('AUTH_TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const secret = generateTotpSecret();
+    await this.userRepository.update(user.id, {
+      two_factor_secret: secret,
+      two_factor_last_step: null
+    });
+
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(secret, user.email)
+    };
+  }
+
+  // Finish enrolling with a code from the app, and return the first recovery codes
+  async enable(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (user.two_factor_enabled_at) {
+      throw new Error('AUTH_TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    if (!user.two_factor_secret) {
+      throw new Error('AUTH_TWO_FACTOR_NOT_SET_UP');
+    }
+
+    if (!await this.verifyAppCode(user, code)) {
+      throw new Error('AUTH_TWO_FACTOR_CODE_INVALID');
+    }
+
+    await this.userRepository.update(user.id, { two_factor_enabled_at: new Date() });
+    return this.replaceRecoveryCodes(user.id);
+  }
+
+  async disable(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user.two_factor_enabled_at) {
+      throw new Error('AUTH_TWO_FACTOR_NOT_ENABLED');
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password_hash);
+    if (!isPasswordValid) {
+      throw new Error('AUTH_INVALID_CURRENT_PASSWORD');
+    }
+
+    if (await this.settingsService.isTwoFactorRequired(user.role)) {
+      throw new Error('AUTH_TWO_FACTOR_REQUIRED');
+    }
+
+    if (!await this.verifyCode(user, code)) {
+      throw new Error('AUTH_TWO_FACTOR_CODE_INVALID');
+    }
+
+    await this.userRepository.update(user.id, {
+      two_factor_secret: null,
+      two_factor_enabled_at: null,
+      two_factor_last_step: null
+    });
+    await this.userRecoveryCodeRepository.deleteForUser(user.id);
+  }
+
+  // Replace the recovery codes, for when they were lost or are running out
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (!user.two_factor_enabled_at) {
+      throw new Error('AUTH_TWO_FACTOR_NOT_ENABLED');
+    }
+
+    if (!await this.verifyCode(user, code)) {
+      throw new Error('AUTH_TWO_FACTOR_CODE_INVALID');
+    }
+
+    return this.replaceRecoveryCodes(user.id);
+  }
+
+  // Check a code from the authenticator app, or use up one of the recovery codes
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    const trimmed = code.trim();
+    if (/^\d{6}$/.test(trimmed)) {
+      return this.verifyAppCode(user, trimmed);
+    }
+
+    return this.userRecoveryCodeRepository.consume(user.id, this.hashRecoveryCode(trimmed));
+  }
+
+  private async verifyAppCode(user: User, code: string): Promise<boolean> {
+    if (!user.two_factor_secret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.two_factor_secret, code.trim());
+    if (step === null) {
+      return false;
+    }
+
+    return this.userRepository.claimTwoFactorStep(user.id, step);
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = crypto.randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+
+    await this.userRecoveryCodeRepository.replaceForUser(userId, codes.map(code => this.hashRecoveryCode(code)));
+    return codes;
+  }
+
+  // Codes are compared without the dash and case, as people type them back in
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private async getUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new Error('USER_NOT_FOUND');
+    }
+    return user;
+  }
+}
\ No newline at end of file
@@ -1,13 +1,23 @@
 import bcrypt from 'bcrypt';
 import { v4 as uuidv4 } from 'uuid';
 import { UserRepository } from '../repositories/UserRepository';
+import { UserTokenRepository } from '../repositories/UserTokenRepository';
+import { SessionService } from './SessionService';
+import { LoginThrottleService } from './LoginThrottleService';
 import { User, CreateUserRequest, UpdateUserRequest, UserResponse } from '../types';
+import { DEFAULT_CURRENCY } from '../utils/currency';
 
 export class UserService {
   private userRepository: UserRepository;
+  private userTokenRepository: UserTokenRepository;
+  private sessionService: SessionService;
+  private loginThrottleService: LoginThrottleService;
 
   constructor() {
     this.userRepository = new UserRepository();
+    this.userTokenRepository = new UserTokenRepository();
+    this.sessionService = new SessionService();
+    this.loginThrottleService = new LoginThrottleService();
   }
 
   async getAllUsers(): Promise<UserResponse[]> {
@@ -75,12 +85,19 @@ export class UserService {
       }
     }
 
+    // A new address has to be verified again, and links sent to the old one stop working
+    const emailChanged = !!userData.email && userData.email !== existingUser.email;
+
     const updateData = {
       ...userData,
+      ...(emailChanged && { email_verified_at: null }),
       updated_at: new Date()
     };
 
     const updatedUser = await this.userRepository.update(id, updateData);
+    if (emailChanged) {
+      await this.userTokenRepository.invalidateForUser(id, 'email_verification');
+    }
     return updatedUser ? this.toUserResponse(updatedUser) : null;
   }
 
@@ -100,6 +117,30 @@ export class UserService {
       updated_at: new Date()
     });
 
+    // The user has to log in again with the new password everywhere
+    await this.sessionService.endAllSessions(id);
+
+    return updatedUser ? this.toUserResponse(updatedUser) : null;
+  }
+
+  // End every session of the user and return how many there were
+  async forceLogout(id: string): Promise<number> {
+    const existingUser = await this.userRepository.findById(id);
+    if (!existingUser) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    return this.sessionService.endAllSessions(id);
+  }
+
+  // Let a user locked out by failed logins sign in again
+  async unlockUser(id: string, adminId: string): Promise<UserResponse | null> {
+    const existingUser = await this.userRepository.findById(id);
+    if (!existingUser) {
+      throw new Error('RESOURCE_NOT_FOUND');
+    }
+
+    const updatedUser = await this.loginThrottleService.unlockAccount(id, adminId);
     return updatedUser ? this.toUserResponse(updatedUser) : null;
   }
 
@@ -140,6 +181,10 @@ export class UserService {
       email: user.email,
       role: user.role,
       wallet_limit: user.wallet_limit,
+      base_currency: user.base_currency || DEFAULT_CURRENCY,
+      email_verified_at: user.email_verified_at || null,
+      two_factor_enabled_at: user.two_factor_enabled_at || null,
+      locked_until: user.locked_until || null,
       created_at: user.created_at,
       updated_at: user.updated_at
     };
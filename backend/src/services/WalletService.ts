@@ -2,17 +2,24 @@ import { v4 as uuidv4 } from 'uuid';
 import { WalletRepository } from '../repositories/WalletRepository';
 import { UserRepository } from '../repositories/UserRepository';
 import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { AuditLogService } from './AuditLogService';
 import { Wallet, CreateWalletRequest, UpdateWalletRequest } from '../types';
+import { DEFAULT_CURRENCY } from '../utils/currency';
 
 export class WalletService {
   private walletRepository: WalletRepository;
   private userRepository: UserRepository;
   private familyWalletMemberRepository: FamilyWalletMemberRepository;
+  private transactionRepository: TransactionRepository;
+  private auditLogService: AuditLogService;
 
   constructor() {
     this.walletRepository = new WalletRepository();
     this.userRepository = new UserRepository();
     this.familyWalletMemberRepository = new FamilyWalletMemberRepository();
+    this.transactionRepository = new TransactionRepository();
+    this.auditLogService = new AuditLogService();
   }
 
   async getUserWallets(userId: string): Promise<Wallet[]> {
@@ -78,11 +85,14 @@ export class WalletService {
       name: walletData.name.trim(),
       is_default: isFirstWallet, // First wallet is automatically default
       is_family: walletData.is_family || false,
+      currency: walletData.currency || user.base_currency || DEFAULT_CURRENCY,
       created_at: new Date(),
       updated_at: new Date()
     };
 
-    return this.walletRepository.create(newWallet);
+    const created = await this.walletRepository.create(newWallet);
+    await this.auditLogService.record(userId, 'wallet', 'create', null, created);
+    return created;
   }
 
   async updateWallet(walletId: string, userId: string, walletData: UpdateWalletRequest): Promise<Wallet | null> {
@@ -102,7 +112,19 @@ export class WalletService {
       updateData.name = updateData.name.trim();
     }
 
-    return this.walletRepository.update(walletId, updateData);
+    // Existing amounts are recorded in the wallet's currency, so it is fixed once they exist
+    if (updateData.currency && updateData.currency !== existingWallet.currency) {
+      const transactionCount = await this.transactionRepository.count({ wallet_id: walletId });
+      if (transactionCount > 0) {
+        throw new Error('VALIDATION_WALLET_HAS_TRANSACTIONS');
+      }
+    }
+
+    const updated = await this.walletRepository.update(walletId, updateData);
+    if (updated) {
+      await this.auditLogService.record(userId, 'wallet', 'update', existingWallet, updated);
+    }
+    return updated;
   }
 
   async deleteWallet(walletId: string, userId: string): Promise<boolean> {
@@ -128,7 +150,12 @@ export class WalletService {
       }
     }
 
-    return this.walletRepository.delete(walletId);
+    // Everything recorded in the wallet goes into the trash with it
+    const deleted = await this.walletRepository.trashWithContents(walletId);
+    if (deleted) {
+      await this.auditLogService.record(userId, 'wallet', 'delete', existingWallet, null);
+    }
+    return deleted;
   }
 
   async setDefaultWallet(walletId: string, userId: string): Promise<Wallet | null> {
@@ -142,7 +169,11 @@ export class WalletService {
     await this.walletRepository.setDefaultWallet(userId, walletId);
 
     // Return updated wallet
-    return this.walletRepository.findById(walletId);
+    const updated = await this.walletRepository.findById(walletId);
+    if (updated) {
+      await this.auditLogService.record(userId, 'wallet', 'update', wallet, updated);
+    }
+    return updated;
   }
 
   async getDefaultWallet(userId: string): Promise<Wallet | null> {
@@ -0,0 +1,10 @@
+/**
+ * Where attachment contents are kept. Rows in the database only hold the key,
+ * so the storage can be swapped (local disk, object storage) without touching
+ * the services that use it.
+ */
+export interface FileStorage {
+  save(key: string, content: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Buffer | null>; // Null when there is no file under the key
+  delete(key: string): Promise<void>; // Deleting a missing file is not an error
+}
\ No newline at end of file
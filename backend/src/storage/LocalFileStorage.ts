@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FileStorage } from './FileStorage';
+
+// Keeps files on the local disk, for development and tests
+export class LocalFileStorage implements FileStorage {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async save(key: string, content: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolvePath(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  // Keys are generated by us, but never let one point outside the storage directory
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('STORAGE_INVALID_KEY');
+    }
+
+    return filePath;
+  }
+}
\ No newline at end of file
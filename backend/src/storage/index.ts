@@ -0,0 +1,26 @@
+import path from 'path';
+import { FileStorage } from './FileStorage';
+import { LocalFileStorage } from './LocalFileStorage';
+
+export type { FileStorage } from './FileStorage';
+export { LocalFileStorage } from './LocalFileStorage';
+
+let fileStorage: FileStorage | null = null;
+
+// The storage is picked by FILE_STORAGE_DRIVER on first use
+export function getFileStorage(): FileStorage {
+  if (!fileStorage) {
+    const driver = process.env.FILE_STORAGE_DRIVER || 'local';
+
+    switch (driver) {
+      case 'local':
+        fileStorage = new LocalFileStorage(process.env.FILE_STORAGE_PATH || path.join(process.cwd(), 'uploads'));
+        break;
+
+      default:
+        throw new Error(`Unknown file storage driver: ${driver}`);
+    }
+  }
+
+  return fileStorage;
+}
\ No newline at end of file
@@ -0,0 +1,252 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { FamilyWalletMemberRepository } from '../repositories/FamilyWalletMemberRepository';
+import { AuditLogRepository } from '../repositories/AuditLogRepository';
+import { RecurringTransactionService } from '../services/RecurringTransactionService';
+
+describe('Audit Log Integration Tests', () => {
+  let userRepository: UserRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+  let otherUserId: string;
+  let otherAuthToken: string;
+
+  const registerUser = async (prefix: string) => {
+    const timestamp = Date.now();
+    const userData = {
+      username: `${prefix}${timestamp}`,
+      email: `${prefix}${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    return { id: response.body.data.user.id, token: response.body.data.token };
+  };
+
+  const getWalletAuditLog = (walletId: string, token: string = authToken, query: string = '') => {
+    return request(app)
+      .get(`/api/wallets/${walletId}/audit-log${query}`)
+      .set('Authorization', `Bearer ${token}`);
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+  });
+
+  beforeEach(async () => {
+    const user = await registerUser('audittest');
+    testUserId = user.id;
+    authToken = user.token;
+
+    const otherUser = await registerUser('auditother');
+    otherUserId = otherUser.id;
+    otherAuthToken = otherUser.token;
+
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Audit Wallet' });
+
+    testWalletId = walletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (wallets and everything in them are removed with the user)
+    for (const userId of [testUserId, otherUserId]) {
+      if (userId) {
+        try {
+          await userRepository.delete(userId);
+        } catch (error) {
+          // Ignore cleanup errors
+        }
+      }
+    }
+    testUserId = '';
+    otherUserId = '';
+  });
+
+  describe('GET /api/wallets/:id/audit-log', () => {
+    it('should record who created, updated and deleted a transaction', async () => {
+      const createResponse = await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Groceries', amount: 40, type: 'Expense', wallet_id: testWalletId })
+        .expect(201);
+
+      const transactionId = createResponse.body.data.id;
+
+      await request(app)
+        .put(`/api/transactions/${transactionId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ amount: 55 })
+        .expect(200);
+
+      await request(app)
+        .delete(`/api/transactions/${transactionId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const response = await getWalletAuditLog(testWalletId, authToken, '?entity_type=transaction').expect(200);
+
+      const { entries, total } = response.body.data;
+      expect(total).toBe(3);
+      expect(entries.map((entry: any) => entry.action)).toEqual(['delete', 'update', 'create']);
+      entries.forEach((entry: any) => {
+        expect(entry).toMatchObject({ actor_id: testUserId, entity_type: 'transaction', entity_id: transactionId, wallet_id: testWalletId });
+        expect(entry.actor_username).toMatch(/^audittest/);
+      });
+
+      const [deleted, updated, created] = entries;
+      expect(created.before).toBeNull();
+      expect(created.after.title).toBe('Groceries');
+      expect(Number(updated.before.amount)).toBe(40);
+      expect(Number(updated.after.amount)).toBe(55);
+      expect(deleted.before.id).toBe(transactionId);
+      expect(deleted.after).toBeNull();
+    });
+
+    it('should record categories assigned by rules', async () => {
+      const transactionResponse = await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Puregold Cubao', amount: 2100, type: 'Expense', wallet_id: testWalletId })
+        .expect(201);
+      const transactionId = transactionResponse.body.data.id;
+
+      const categoryResponse = await request(app)
+        .post('/api/categories')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Groceries', type: 'Expense' })
+        .expect(201);
+      const categoryId = categoryResponse.body.data.id;
+
+      await request(app)
+        .post('/api/category-rules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Puregold', category_id: categoryId, title_pattern: 'puregold' })
+        .expect(201);
+
+      await request(app)
+        .post('/api/category-rules/apply')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId })
+        .expect(200);
+
+      const response = await getWalletAuditLog(testWalletId, authToken, '?entity_type=transaction').expect(200);
+
+      const [updated] = response.body.data.entries;
+      expect(updated).toMatchObject({ actor_id: testUserId, action: 'update', entity_id: transactionId });
+      expect(updated.before.category_id).toBeNull();
+      expect(updated.after.category_id).toBe(categoryId);
+    });
+
+    it('should record posted recurring transactions without an actor', async () => {
+      // A couple of days back, so exactly one monthly occurrence is due
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - 2);
+
+      const ruleResponse = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          title: 'Rent',
+          amount: 15000,
+          type: 'Expense',
+          wallet_id: testWalletId,
+          start_date: startDate.toISOString().split('T')[0],
+          recurrence: 'monthly'
+        })
+        .expect(201);
+
+      await new RecurringTransactionService().postDueTransactions();
+
+      const response = await getWalletAuditLog(testWalletId, authToken, '?entity_type=transaction').expect(200);
+
+      const { entries, total } = response.body.data;
+      expect(total).toBe(1);
+      expect(entries[0]).toMatchObject({ actor_id: null, action: 'create', before: null });
+      expect(entries[0].after.recurring_transaction_id).toBe(ruleResponse.body.data.id);
+    });
+
+    it('should include changes to the wallet itself', async () => {
+      await request(app)
+        .put(`/api/wallets/${testWalletId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Renamed Wallet' })
+        .expect(200);
+
+      const response = await getWalletAuditLog(testWalletId, authToken, '?entity_type=wallet').expect(200);
+
+      const actions = response.body.data.entries.map((entry: any) => entry.action);
+      expect(actions).toEqual(['update', 'create']);
+      expect(response.body.data.entries[0].before.name).toBe('Audit Wallet');
+      expect(response.body.data.entries[0].after.name).toBe('Renamed Wallet');
+    });
+
+    it('should not let family wallet members who are not owners see the history', async () => {
+      const familyResponse = await request(app)
+        .post('/api/family-wallets')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Family Wallet' })
+        .expect(201);
+
+      const familyWalletId = familyResponse.body.data.id;
+      await new FamilyWalletMemberRepository().addMember(familyWalletId, otherUserId, 'member');
+
+      await getWalletAuditLog(familyWalletId, otherAuthToken).expect(403);
+      await getWalletAuditLog(familyWalletId, authToken).expect(200);
+    });
+
+    it('should reject an unknown entity type', async () => {
+      const response = await getWalletAuditLog(testWalletId, authToken, '?entity_type=user').expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_FAILED');
+    });
+  });
+
+  describe('GET /api/admin/users/:id/audit-log', () => {
+    it('should list the changes a user made for admins only', async () => {
+      await request(app)
+        .post('/api/categories')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Audited Category' })
+        .expect(201);
+
+      await request(app)
+        .get(`/api/admin/users/${testUserId}/audit-log`)
+        .set('Authorization', `Bearer ${otherAuthToken}`)
+        .expect(403);
+
+      // Admin tokens carry the role, so log in again after the promotion
+      await userRepository.update(otherUserId, { role: 'admin' });
+      const otherUser = await userRepository.findById(otherUserId);
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ emailOrUsername: otherUser!.email, password: 'TestPassword123!' })
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/admin/users/${testUserId}/audit-log?entity_type=category`)
+        .set('Authorization', `Bearer ${loginResponse.body.data.token}`)
+        .expect(200);
+
+      expect(response.body.data.total).toBe(1);
+      expect(response.body.data.entries[0]).toMatchObject({ actor_id: testUserId, entity_type: 'category', action: 'create' });
+    });
+  });
+
+  describe('Append-only storage', () => {
+    it('should refuse to edit or remove entries', async () => {
+      const auditLogRepository = new AuditLogRepository();
+
+      await expect(auditLogRepository.update()).rejects.toThrow('AUDIT_LOG_APPEND_ONLY');
+      await expect(auditLogRepository.delete()).rejects.toThrow('AUDIT_LOG_APPEND_ONLY');
+    });
+  });
+});
\ No newline at end of file
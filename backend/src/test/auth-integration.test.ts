@@ -40,6 +40,7 @@ describe('Authentication Integration Tests', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data).toHaveProperty('user');
       expect(response.body.data).toHaveProperty('token');
+      expect(response.body.data).toHaveProperty('refreshToken');
       expect(response.body.data.user.email).toBe(userData.email);
       expect(response.body.data.user.username).toBe(userData.username);
       expect(response.body.data.user).not.toHaveProperty('password_hash');
@@ -131,6 +131,56 @@ describe('Budget and Reminder Integration Tests', () => {
         expect(response.body.success).toBe(false);
         expect(response.body.error.code).toBe('VALIDATION_FAILED');
       });
+
+      it('should create a category budget alongside the wallet budget', async () => {
+        const currentDate = new Date();
+        const currentMonth = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
+
+        const categoryResponse = await request(app)
+          .post('/api/categories')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ name: 'Groceries', type: 'Expense' })
+          .expect(201);
+
+        const walletBudgetResponse = await request(app)
+          .post('/api/budgets')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ wallet_id: testWalletId, month: currentMonth, limit: 1000.00 })
+          .expect(201);
+
+        testBudgetId = walletBudgetResponse.body.data.id;
+
+        const response = await request(app)
+          .post('/api/budgets')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({
+            wallet_id: testWalletId,
+            month: currentMonth,
+            limit: 250.00,
+            category_id: categoryResponse.body.data.id
+          })
+          .expect(201);
+
+        expect(response.body.success).toBe(true);
+        expect(response.body.data.category_id).toBe(categoryResponse.body.data.id);
+        expect(walletBudgetResponse.body.data.category_id).toBeNull();
+
+        // A second budget for the same category and month is rejected
+        const duplicateResponse = await request(app)
+          .post('/api/budgets')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({
+            wallet_id: testWalletId,
+            month: currentMonth,
+            limit: 300.00,
+            category_id: categoryResponse.body.data.id
+          })
+          .expect(422);
+
+        expect(duplicateResponse.body.error.code).toBe('BUDGET_ALREADY_EXISTS');
+
+        await budgetRepository.delete(response.body.data.id);
+      });
     });
 
     describe('GET /api/budgets', () => {
@@ -390,6 +440,71 @@ describe('Budget and Reminder Integration Tests', () => {
         expect(response.body.data.is_active).toBe(false);
       });
     });
+
+    describe('POST /api/reminders/:id/occurrences/:date/settle', () => {
+      let dueDate: string;
+
+      beforeEach(async () => {
+        dueDate = new Date().toISOString().split('T')[0];
+
+        const reminderResponse = await request(app)
+          .post('/api/reminders')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({
+            title: 'Internet Bill',
+            amount: 1500.00,
+            type: 'Payment',
+            due_date: dueDate,
+            wallet_id: testWalletId,
+            recurrence: 'monthly'
+          });
+
+        testReminderId = reminderResponse.body.data.id;
+      });
+
+      it('should record an expense and drop the occurrence from due reminders', async () => {
+        const response = await request(app)
+          .post(`/api/reminders/${testReminderId}/occurrences/${dueDate}/settle`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({})
+          .expect(201);
+
+        expect(response.body.success).toBe(true);
+        expect(response.body.data.settlement.status).toBe('paid');
+        expect(response.body.data.transaction.type).toBe('Expense');
+        expect(response.body.data.transaction.wallet_id).toBe(testWalletId);
+        expect(response.body.data.settlement.transaction_id).toBe(response.body.data.transaction.id);
+
+        const dueResponse = await request(app)
+          .get(`/api/reminders/due?date=${dueDate}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .expect(200);
+
+        expect(dueResponse.body.data.find((r: any) => r.id === testReminderId)).toBeUndefined();
+
+        // Settling the same occurrence twice is rejected
+        const duplicateResponse = await request(app)
+          .post(`/api/reminders/${testReminderId}/occurrences/${dueDate}/settle`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({})
+          .expect(422);
+
+        expect(duplicateResponse.body.error.code).toBe('REMINDER_OCCURRENCE_ALREADY_SETTLED');
+      });
+
+      it('should reject a date that is not an occurrence', async () => {
+        const notOccurrence = new Date();
+        notOccurrence.setDate(notOccurrence.getDate() + 1);
+
+        const response = await request(app)
+          .post(`/api/reminders/${testReminderId}/occurrences/${notOccurrence.toISOString().split('T')[0]}/settle`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({})
+          .expect(400);
+
+        expect(response.body.error.code).toBe('VALIDATION_INVALID_OCCURRENCE_DATE');
+      });
+    });
   });
 
   describe('Integration between Budget and Reminder Systems', () => {
@@ -0,0 +1,116 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Cash Flow Forecast Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+
+  const daysFromToday = (days: number): string => {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    return date.toISOString().slice(0, 10);
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `forecasttest${timestamp}`,
+      email: `forecast${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Checking' });
+
+    testWalletId = walletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data
+    if (testWalletId) {
+      try {
+        await walletRepository.delete(testWalletId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testWalletId = '';
+    }
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('GET /api/dashboard/forecast', () => {
+    it('should flag the day a payment reminder takes the wallet below zero', async () => {
+      await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Salary', amount: 1000, type: 'Income', wallet_id: testWalletId })
+        .expect(201);
+
+      await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Groceries', amount: 90, type: 'Expense', wallet_id: testWalletId })
+        .expect(201);
+
+      const dueDate = daysFromToday(5);
+      await request(app)
+        .post('/api/reminders')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Rent', amount: 1500, type: 'Payment', due_date: dueDate, wallet_id: testWalletId })
+        .expect(201);
+
+      const response = await request(app)
+        .get(`/api/dashboard/forecast?days=10&wallet_id=${testWalletId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const [forecast] = response.body.data.wallets;
+      expect(forecast.starting_balance).toBe(910);
+      expect(forecast.average_daily_spend).toBe(1); // 90 spent over the 90-day lookback
+      expect(forecast.points).toHaveLength(10);
+      expect(forecast.first_negative_date).toBe(dueDate);
+
+      const duePoint = forecast.points.find((point: { date: string }) => point.date === dueDate);
+      expect(duePoint.events[0].title).toBe('Rent');
+      expect(duePoint.balance).toBe(-595);
+    });
+
+    it('should reject an out of range number of days', async () => {
+      const response = await request(app)
+        .get('/api/dashboard/forecast?days=0')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_FAILED');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,245 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Category Rule Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+  let groceriesCategoryId: string;
+
+  const createTransaction = async (title: string, amount: number) => {
+    const response = await request(app)
+      .post('/api/transactions')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title, amount, type: 'Expense', wallet_id: testWalletId })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `ruletest${timestamp}`,
+      email: `rule${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    // Create a test wallet
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Rule Wallet' });
+
+    testWalletId = walletResponse.body.data.id;
+
+    // Create a test category
+    const categoryResponse = await request(app)
+      .post('/api/categories')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Groceries', type: 'Expense' });
+
+    groceriesCategoryId = categoryResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (categories and rules are removed with the user)
+    if (testWalletId) {
+      try {
+        await walletRepository.delete(testWalletId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testWalletId = '';
+    }
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/category-rules', () => {
+    it('should create a global rule that categorizes new transactions', async () => {
+      const ruleResponse = await request(app)
+        .post('/api/category-rules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Supermarkets', category_id: groceriesCategoryId, title_pattern: 'market' })
+        .expect(201);
+
+      expect(ruleResponse.body.data).toMatchObject({
+        wallet_id: null,
+        match_type: 'contains',
+        type: 'Expense',
+        is_active: true
+      });
+
+      const matched = await createTransaction('SM Supermarket', 1250);
+      const unmatched = await createTransaction('Electric bill', 3000);
+
+      expect(matched.category_id).toBe(groceriesCategoryId);
+      expect(unmatched.category_id).toBeNull();
+    });
+
+    it('should match regex rules within an amount range', async () => {
+      await request(app)
+        .post('/api/category-rules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'Small store runs',
+          category_id: groceriesCategoryId,
+          wallet_id: testWalletId,
+          title_pattern: '^(7-eleven|ministop)\\b',
+          match_type: 'regex',
+          max_amount: 500
+        })
+        .expect(201);
+
+      expect((await createTransaction('Ministop Makati', 150)).category_id).toBe(groceriesCategoryId);
+      expect((await createTransaction('Ministop Makati', 900)).category_id).toBeNull();
+      expect((await createTransaction('Paid at 7-Eleven', 150)).category_id).toBeNull();
+    });
+
+    it('should reject an invalid regex', async () => {
+      const response = await request(app)
+        .post('/api/category-rules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Broken', category_id: groceriesCategoryId, title_pattern: '(unclosed', match_type: 'regex' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_INVALID_RULE_PATTERN');
+    });
+
+    it('should reject regex features that need backtracking', async () => {
+      for (const pattern of ['(\\d+)-\\1', '(?=grab)food', '(?<!grab)food', 'a'.repeat(101)]) {
+        const response = await request(app)
+          .post('/api/category-rules')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ name: 'Unsupported', category_id: groceriesCategoryId, title_pattern: pattern, match_type: 'regex' })
+          .expect(400);
+
+        expect(response.body.error.code).toBe('VALIDATION_INVALID_RULE_PATTERN');
+      }
+    });
+
+    // Both take seconds to minutes with a backtracking engine on these titles
+    it('should match patterns that backtrack catastrophically in linear time', async () => {
+      for (const [pattern, matching, failing] of [
+        ['(a|aa)+$', 'a'.repeat(40), `${'a'.repeat(40)}!b`],
+        ['\\w*\\w*\\w*\\w*\\w*\\w*!', `${'a'.repeat(119)}!`, 'a'.repeat(120)]
+      ]) {
+        const ruleResponse = await request(app)
+          .post('/api/category-rules')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ name: 'Slow', category_id: groceriesCategoryId, title_pattern: pattern, match_type: 'regex' })
+          .expect(201);
+
+        const startedAt = Date.now();
+        expect((await createTransaction(matching, 100)).category_id).toBe(groceriesCategoryId);
+        expect((await createTransaction(failing, 100)).category_id).toBeNull();
+        expect(Date.now() - startedAt).toBeLessThan(5000);
+
+        await request(app)
+          .delete(`/api/category-rules/${ruleResponse.body.data.id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .expect(200);
+      }
+    });
+  });
+
+  describe('Importing transactions', () => {
+    it('should categorize imported rows with the matching rule', async () => {
+      await request(app)
+        .post('/api/category-rules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Groceries', category_id: groceriesCategoryId, title_pattern: 'grocery' })
+        .expect(201);
+
+      const response = await request(app)
+        .post('/api/transactions/import/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          wallet_id: testWalletId,
+          content: 'Date,Description,Amount\n2024-03-01,Grocery Store,-1250.75\n2024-03-02,Salary,45000.00',
+          mapping: { date: 0, description: 1, amount: 2 }
+        })
+        .expect(200);
+
+      expect(response.body.data.rows[0].category_id).toBe(groceriesCategoryId);
+      expect(response.body.data.rows[1].category_id).toBeNull();
+    });
+  });
+
+  describe('POST /api/category-rules/apply', () => {
+    it('should preview and then categorize existing uncategorized transactions', async () => {
+      const grocery = await createTransaction('Puregold Cubao', 2100);
+      const other = await createTransaction('Taxi', 250);
+
+      await request(app)
+        .post('/api/category-rules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Puregold', category_id: groceriesCategoryId, title_pattern: 'puregold' })
+        .expect(201);
+
+      const previewResponse = await request(app)
+        .post('/api/category-rules/apply/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId })
+        .expect(200);
+
+      expect(previewResponse.body.data).toEqual([
+        expect.objectContaining({ transaction_id: grocery.id, category_id: groceriesCategoryId })
+      ]);
+
+      // The preview does not change anything
+      const unchangedResponse = await request(app)
+        .get(`/api/transactions/${grocery.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(unchangedResponse.body.data.category_id).toBeNull();
+
+      const applyResponse = await request(app)
+        .post('/api/category-rules/apply')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId })
+        .expect(200);
+
+      expect(applyResponse.body.data.updated_count).toBe(1);
+
+      const groceryResponse = await request(app)
+        .get(`/api/transactions/${grocery.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      const otherResponse = await request(app)
+        .get(`/api/transactions/${other.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(groceryResponse.body.data.category_id).toBe(groceriesCategoryId);
+      expect(otherResponse.body.data.category_id).toBeNull();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,161 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Category Suggestion Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+  let foodCategoryId: string;
+  let transportCategoryId: string;
+
+  const createCategory = async (name: string) => {
+    const response = await request(app)
+      .post('/api/categories')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name, type: 'Expense' })
+      .expect(201);
+
+    return response.body.data.id;
+  };
+
+  const createTransaction = async (title: string, categoryId: string) => {
+    await request(app)
+      .post('/api/transactions')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title, amount: 250, type: 'Expense', wallet_id: testWalletId, category_id: categoryId })
+      .expect(201);
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `suggesttest${timestamp}`,
+      email: `suggest${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    // Create a test wallet
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Suggestion Wallet' });
+
+    testWalletId = walletResponse.body.data.id;
+
+    foodCategoryId = await createCategory('Food');
+    transportCategoryId = await createCategory('Transport');
+
+    await createTransaction('Jollibee Makati', foodCategoryId);
+    await createTransaction('Jollibee Cubao', foodCategoryId);
+    await createTransaction('Grab ride to office', transportCategoryId);
+  });
+
+  afterEach(async () => {
+    // Clean up test data (categories are removed with the user)
+    if (testWalletId) {
+      try {
+        await walletRepository.delete(testWalletId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testWalletId = '';
+    }
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('GET /api/categories/suggestions', () => {
+    it('should rank categories learned from the user\'s history', async () => {
+      const response = await request(app)
+        .get('/api/categories/suggestions')
+        .query({ title: 'JOLLIBEE Ortigas', type: 'Expense', wallet_id: testWalletId })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data[0]).toMatchObject({ category_id: foodCategoryId, name: 'Food', type: 'Expense' });
+      expect(response.body.data[0].confidence).toBeGreaterThan(0.5);
+    });
+
+    it('should not suggest anything for unfamiliar titles', async () => {
+      const response = await request(app)
+        .get('/api/categories/suggestions')
+        .query({ title: 'Meralco bill' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual([]);
+    });
+
+    it('should not learn from other users\' transactions', async () => {
+      const timestamp = Date.now();
+      const otherResponse = await request(app)
+        .post('/api/auth/register')
+        .send({
+          username: `suggestother${timestamp}`,
+          email: `suggestother${timestamp}@example.com`,
+          password: 'TestPassword123!',
+          confirmPassword: 'TestPassword123!'
+        });
+      const otherUserId = otherResponse.body.data.user.id;
+      const otherToken = otherResponse.body.data.token;
+
+      try {
+        await request(app)
+          .post('/api/categories')
+          .set('Authorization', `Bearer ${otherToken}`)
+          .send({ name: 'Food', type: 'Expense' })
+          .expect(201);
+
+        const response = await request(app)
+          .get('/api/categories/suggestions')
+          .query({ title: 'Jollibee' })
+          .set('Authorization', `Bearer ${otherToken}`)
+          .expect(200);
+
+        expect(response.body.data).toEqual([]);
+
+        await request(app)
+          .get('/api/categories/suggestions')
+          .query({ title: 'Jollibee', wallet_id: testWalletId })
+          .set('Authorization', `Bearer ${otherToken}`)
+          .expect(404);
+      } finally {
+        await userRepository.delete(otherUserId);
+      }
+    });
+
+    it('should require a title', async () => {
+      const response = await request(app)
+        .get('/api/categories/suggestions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_FAILED');
+    });
+  });
+});
\ No newline at end of file
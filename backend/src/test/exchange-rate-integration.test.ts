@@ -0,0 +1,235 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Exchange Rate Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let phpWalletId: string;
+  let usdWalletId: string;
+
+  const createTransaction = async (walletId: string, amount: number, transactionDate: string) => {
+    const response = await request(app)
+      .post('/api/transactions')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title: 'Salary', amount, type: 'Income', wallet_id: walletId, transaction_date: transactionDate })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `ratetest${timestamp}`,
+      email: `rate${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+    await userRepository.updateWalletLimit(testUserId, 2);
+
+    // One wallet in the base currency and one in dollars
+    const phpWalletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Peso Wallet' });
+
+    phpWalletId = phpWalletResponse.body.data.id;
+
+    const usdWalletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Dollar Wallet', currency: 'USD' });
+
+    usdWalletId = usdWalletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (rates are removed with the user)
+    for (const walletId of [phpWalletId, usdWalletId]) {
+      if (walletId) {
+        try {
+          await walletRepository.delete(walletId);
+        } catch (error) {
+          // Ignore cleanup errors
+        }
+      }
+    }
+    phpWalletId = '';
+    usdWalletId = '';
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/exchange-rates', () => {
+    it('should replace the rate entered for the same pair and day', async () => {
+      await request(app)
+        .post('/api/exchange-rates')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ from_currency: 'USD', to_currency: 'PHP', rate: 55, rate_date: '2024-01-01' })
+        .expect(201);
+
+      await request(app)
+        .post('/api/exchange-rates')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ from_currency: 'usd', to_currency: 'php', rate: 56, rate_date: '2024-01-01' })
+        .expect(201);
+
+      const response = await request(app)
+        .get('/api/exchange-rates')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(Number(response.body.data[0].rate)).toBe(56);
+    });
+
+    it('should reject a rate between the same currency', async () => {
+      const response = await request(app)
+        .post('/api/exchange-rates')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ from_currency: 'USD', to_currency: 'USD', rate: 1, rate_date: '2024-01-01' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_FAILED');
+    });
+  });
+
+  describe('POST /api/exchange-rates/import', () => {
+    it('should import nothing when a row is invalid', async () => {
+      const content = 'date,from,to,rate\n2024-01-01,USD,PHP,55\n2024-01-02,USD,PHP,abc\n';
+
+      const response = await request(app)
+        .post('/api/exchange-rates/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ content })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('failed');
+      expect(response.body.data.errors).toEqual([expect.objectContaining({ row_number: 3 })]);
+
+      const ratesResponse = await request(app)
+        .get('/api/exchange-rates')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(ratesResponse.body.data).toHaveLength(0);
+    });
+  });
+
+  describe('Wallet currencies', () => {
+    it('should not change the currency of a wallet with transactions', async () => {
+      await createTransaction(usdWalletId, 10, '2024-01-15');
+
+      const response = await request(app)
+        .put(`/api/wallets/${usdWalletId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ currency: 'EUR' })
+        .expect(422);
+
+      expect(response.body.error.code).toBe('VALIDATION_WALLET_HAS_TRANSACTIONS');
+    });
+
+    it('should reject transfers between wallets in different currencies', async () => {
+      const response = await request(app)
+        .post('/api/transactions/transfers')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ from_wallet_id: usdWalletId, to_wallet_id: phpWalletId, amount: 10 })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_TRANSFER_CURRENCY_MISMATCH');
+    });
+  });
+
+  describe('GET /api/dashboard/summary', () => {
+    it('should convert balances at the rate of each transaction date', async () => {
+      await request(app)
+        .post('/api/exchange-rates/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ content: 'date,from,to,rate\n2024-01-01,USD,PHP,50\n2024-02-01,USD,PHP,60\n' })
+        .expect(200);
+
+      await createTransaction(phpWalletId, 1000, '2024-01-20');
+      await createTransaction(usdWalletId, 10, '2024-01-20'); // 500 at January's rate
+      await createTransaction(usdWalletId, 10, '2024-02-20'); // 600 at February's rate
+
+      const response = await request(app)
+        .get('/api/dashboard/summary')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.base_currency).toBe('PHP');
+      expect(response.body.data.total_balance).toBeCloseTo(2100);
+      expect(response.body.data.missing_rate_currencies).toEqual([]);
+    });
+
+    it('should report currencies without a rate', async () => {
+      await createTransaction(usdWalletId, 10, '2024-01-20');
+
+      const response = await request(app)
+        .get('/api/dashboard/summary')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.total_balance).toBe(0);
+      expect(response.body.data.missing_rate_currencies).toEqual(['USD']);
+    });
+  });
+
+  describe('GET /api/budgets/:id/status', () => {
+    it('should count foreign currency expenses at the rate of their date', async () => {
+      await request(app)
+        .post('/api/exchange-rates')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ from_currency: 'USD', to_currency: 'PHP', rate: 50, rate_date: '2024-01-01' })
+        .expect(201);
+
+      const budgetResponse = await request(app)
+        .post('/api/budgets')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: phpWalletId, month: '2024-01', limit: 1000 })
+        .expect(201);
+
+      for (const [amount, currency] of [[100, 'PHP'], [10, 'USD'], [20, 'EUR']] as const) {
+        await request(app)
+          .post('/api/transactions')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ title: 'Dinner', amount, currency, type: 'Expense', wallet_id: phpWalletId, transaction_date: '2024-01-20' })
+          .expect(201);
+      }
+
+      const response = await request(app)
+        .get(`/api/budgets/${budgetResponse.body.data.id}/status`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      // 100 pesos and 10 dollars at 50; the euros have no rate
+      expect(response.body.data.total_spent).toBeCloseTo(600);
+      expect(response.body.data.remaining).toBeCloseTo(400);
+      expect(response.body.data.missing_rate_currencies).toEqual(['EUR']);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,219 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Loan Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+
+  const createLoan = async (data: Record<string, unknown> = {}) => {
+    const response = await request(app)
+      .post('/api/loans')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        wallet_id: testWalletId,
+        name: 'Car Loan',
+        principal: 12000,
+        annual_rate: 6,
+        term_months: 12,
+        start_date: '2024-01-15',
+        ...data
+      })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `loantest${timestamp}`,
+      email: `loan${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Checking' });
+
+    testWalletId = walletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (loans are removed with the user)
+    if (testWalletId) {
+      try {
+        await walletRepository.delete(testWalletId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testWalletId = '';
+    }
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/loans', () => {
+    it('should create a loan with its monthly payment and payoff date', async () => {
+      const summary = await createLoan();
+
+      expect(summary.loan.name).toBe('Car Loan');
+      expect(summary.monthly_payment).toBe(1032.8);
+      expect(summary.remaining_balance).toBe(12000);
+      expect(summary.payments_made).toBe(0);
+      expect(summary.next_payment_date).toBe('2024-02-15');
+      expect(summary.payoff_date).toBe('2025-01-15');
+    });
+
+    it('should reject a term that is not a whole number of months', async () => {
+      const response = await request(app)
+        .post('/api/loans')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          wallet_id: testWalletId,
+          name: 'Bad Loan',
+          principal: 1000,
+          annual_rate: 5,
+          term_months: 0,
+          start_date: '2024-01-15'
+        })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_INVALID_LOAN_TERM');
+    });
+  });
+
+  describe('GET /api/loans/:id/schedule', () => {
+    it('should pay the loan off over its term', async () => {
+      const summary = await createLoan();
+
+      const response = await request(app)
+        .get(`/api/loans/${summary.loan.id}/schedule`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const { rows } = response.body.data;
+      expect(rows).toHaveLength(12);
+      expect(rows[0].interest).toBe(60);
+      expect(rows[0].principal).toBe(972.8);
+      expect(rows[11].balance).toBe(0);
+    });
+  });
+
+  describe('Loan payments', () => {
+    it('should split a payment into interest and principal', async () => {
+      const summary = await createLoan();
+
+      const paymentResponse = await request(app)
+        .post(`/api/loans/${summary.loan.id}/payments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ amount: 1032.8, payment_date: '2024-02-15' })
+        .expect(201);
+
+      expect(paymentResponse.body.data).toHaveLength(1);
+      expect(paymentResponse.body.data[0].interest_amount).toBe(60);
+      expect(paymentResponse.body.data[0].principal_amount).toBe(972.8);
+
+      const loanResponse = await request(app)
+        .get(`/api/loans/${summary.loan.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(loanResponse.body.data.remaining_balance).toBe(11027.2);
+      expect(loanResponse.body.data.next_payment_date).toBe('2024-03-15');
+
+      // The payment is recorded as an expense in the loan's wallet
+      const transactionResponse = await request(app)
+        .get(`/api/transactions/${paymentResponse.body.data[0].transaction_id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(transactionResponse.body.data.type).toBe('Expense');
+      expect(transactionResponse.body.data.wallet_id).toBe(testWalletId);
+    });
+
+    it('should not link the same transaction twice', async () => {
+      const summary = await createLoan();
+
+      const transactionResponse = await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Loan payment', amount: 1032.8, type: 'Expense', wallet_id: testWalletId, transaction_date: '2024-02-15' })
+        .expect(201);
+
+      await request(app)
+        .post(`/api/loans/${summary.loan.id}/payments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ transaction_id: transactionResponse.body.data.id })
+        .expect(201);
+
+      const response = await request(app)
+        .post(`/api/loans/${summary.loan.id}/payments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ transaction_id: transactionResponse.body.data.id })
+        .expect(422);
+
+      expect(response.body.error.code).toBe('LOAN_PAYMENT_ALREADY_LINKED');
+    });
+
+    it('should record a paid reminder occurrence against the loan', async () => {
+      const summary = await createLoan({ create_reminder: true });
+      expect(summary.loan.reminder_id).toBeTruthy();
+
+      await request(app)
+        .post(`/api/reminders/${summary.loan.reminder_id}/occurrences/2024-02-15/settle`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({})
+        .expect(201);
+
+      const paymentsResponse = await request(app)
+        .get(`/api/loans/${summary.loan.id}/payments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(paymentsResponse.body.data).toHaveLength(1);
+      expect(paymentsResponse.body.data[0].amount).toBe(1032.8);
+    });
+  });
+
+  describe('GET /api/loans/:id/simulate', () => {
+    it('should show the interest and months saved by paying extra', async () => {
+      const summary = await createLoan();
+
+      const response = await request(app)
+        .get(`/api/loans/${summary.loan.id}/simulate?extra_monthly=500`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.baseline.rows).toHaveLength(12);
+      expect(response.body.data.months_saved).toBeGreaterThan(0);
+      expect(response.body.data.interest_saved).toBeGreaterThan(0);
+    });
+  });
+});
\ No newline at end of file
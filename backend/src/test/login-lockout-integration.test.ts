@@ -0,0 +1,209 @@
+import request from 'supertest';
+import app from '../index';
+import db from '../database/connection';
+import { UserRepository } from '../repositories/UserRepository';
+
+describe('Login Lockout Integration Tests', () => {
+  let userRepository: UserRepository;
+  let testUserId: string;
+  let testEmail: string;
+  let otherUserId: string;
+  let otherEmail: string;
+
+  const registerUser = async (prefix: string) => {
+    const timestamp = Date.now();
+    const email = `${prefix}${timestamp}@example.com`;
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        username: `${prefix}${timestamp}`,
+        email,
+        password: 'TestPassword123!',
+        confirmPassword: 'TestPassword123!'
+      });
+
+    return { id: response.body.data.user.id as string, email };
+  };
+
+  // Requests come from the loopback address, so the app trusts X-Forwarded-For on them like it would from a proxy
+  const login = (email: string, password: string = 'TestPassword123!', forwardedFor?: string) => {
+    const req = request(app).post('/api/auth/login');
+    if (forwardedFor) {
+      req.set('X-Forwarded-For', forwardedFor);
+    }
+    return req.send({ emailOrUsername: email, password });
+  };
+
+  // Skip the wait between attempts so the tests do not have to sleep through it
+  const skipDelays = () => db('login_failures').update({ retry_after: null });
+
+  const failLogins = async (email: string, count: number) => {
+    const responses = [];
+    for (let attempt = 0; attempt < count; attempt++) {
+      responses.push(await login(email, 'WrongPassword123!'));
+      await skipDelays();
+    }
+    return responses;
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+  });
+
+  beforeEach(async () => {
+    const user = await registerUser('lockout');
+    testUserId = user.id;
+    testEmail = user.email;
+
+    const other = await registerUser('lockoutadmin');
+    otherUserId = other.id;
+    otherEmail = other.email;
+  });
+
+  afterEach(async () => {
+    // Failures from every test share the same IP address
+    await db('login_failures').delete();
+
+    for (const userId of [testUserId, otherUserId]) {
+      if (userId) {
+        try {
+          await userRepository.delete(userId);
+        } catch (error) {
+          // Ignore cleanup errors
+        }
+      }
+    }
+    testUserId = '';
+    otherUserId = '';
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('should make the client wait after a few failed attempts', async () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await login(testEmail, 'WrongPassword123!').expect(401);
+      }
+
+      // Even the right password has to wait
+      const response = await login(testEmail).expect(429);
+      expect(response.body.error.code).toBe('AUTH_LOGIN_THROTTLED');
+
+      await skipDelays();
+      await login(testEmail).expect(200);
+    });
+
+    it('should lock the account after too many failed attempts', async () => {
+      const responses = await failLogins(testEmail, 10);
+
+      expect(responses.slice(0, 9).every(response => response.status === 401)).toBe(true);
+      expect(responses[9].status).toBe(423);
+      expect(responses[9].body.error.code).toBe('AUTH_ACCOUNT_LOCKED');
+
+      const response = await login(testEmail).expect(423);
+      expect(response.body.error.code).toBe('AUTH_ACCOUNT_LOCKED');
+
+      const events = await db('security_events').where({ user_id: testUserId, event_type: 'account_locked' });
+      expect(events).toHaveLength(1);
+    });
+
+    it('should unlock the account once the lock runs out', async () => {
+      await failLogins(testEmail, 10);
+
+      await db('users').where({ id: testUserId }).update({ locked_until: new Date(Date.now() - 1000) });
+
+      await login(testEmail).expect(200);
+    });
+
+    it('should forget failed attempts after a successful login', async () => {
+      await failLogins(testEmail, 9);
+      await login(testEmail).expect(200);
+
+      const response = await login(testEmail, 'WrongPassword123!').expect(401);
+      expect(response.body.error.code).toBe('AUTH_INVALID_CREDENTIALS');
+    });
+
+    it('should not lock other accounts', async () => {
+      await failLogins(testEmail, 10);
+
+      await login(otherEmail).expect(200);
+    });
+
+    it('should throttle an IP address that fails on many accounts', async () => {
+      await login(`missing${Date.now()}@example.com`, 'WrongPassword123!').expect(401);
+      await db('login_failures').where({ scope: 'ip' }).update({ failed_count: 49 });
+
+      await login(`missing${Date.now()}@example.com`, 'WrongPassword123!').expect(401);
+
+      const response = await login(otherEmail).expect(429);
+      expect(response.body.error.code).toBe('AUTH_LOGIN_THROTTLED');
+
+      const events = await db('security_events').where({ event_type: 'ip_locked' });
+      expect(events.length).toBeGreaterThan(0);
+    });
+
+    it('should count each client behind a proxy separately', async () => {
+      const firstClient = '203.0.113.10';
+      const secondClient = '203.0.113.20';
+
+      await login(`missing${Date.now()}@example.com`, 'WrongPassword123!', firstClient).expect(401);
+      await login(`missing${Date.now()}@example.com`, 'WrongPassword123!', secondClient).expect(401);
+
+      const counters = await db('login_failures').where({ scope: 'ip' }).orderBy('key');
+      expect(counters.map(counter => counter.key)).toEqual([firstClient, secondClient]);
+      expect(counters.every(counter => counter.failed_count === 1)).toBe(true);
+
+      await db('login_failures').where({ scope: 'ip', key: firstClient }).update({ failed_count: 49 });
+      await login(`missing${Date.now()}@example.com`, 'WrongPassword123!', firstClient).expect(401);
+
+      const response = await login(otherEmail, 'TestPassword123!', firstClient).expect(429);
+      expect(response.body.error.code).toBe('AUTH_LOGIN_THROTTLED');
+
+      await login(otherEmail, 'TestPassword123!', secondClient).expect(200);
+    });
+  });
+
+  describe('POST /api/admin/users/:id/unlock', () => {
+    it('should let an admin unlock a locked account', async () => {
+      await failLogins(testEmail, 10);
+
+      await userRepository.update(otherUserId, { role: 'admin' });
+      const adminToken = (await login(otherEmail).expect(200)).body.data.token;
+
+      const usersResponse = await request(app)
+        .get(`/api/admin/users/${testUserId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(usersResponse.body.data.locked_until).not.toBeNull();
+
+      const response = await request(app)
+        .post(`/api/admin/users/${testUserId}/unlock`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(response.body.data.locked_until).toBeNull();
+
+      await login(testEmail).expect(200);
+
+      const events = await db('security_events').where({ user_id: testUserId, event_type: 'account_unlocked' });
+      expect(events).toHaveLength(1);
+      expect(events[0].details.unlocked_by).toBe(otherUserId);
+    });
+
+    it('should only be available to admins', async () => {
+      const token = (await login(otherEmail).expect(200)).body.data.token;
+
+      await request(app)
+        .post(`/api/admin/users/${testUserId}/unlock`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
+
+    it('should report unknown users', async () => {
+      await userRepository.update(otherUserId, { role: 'admin' });
+      const adminToken = (await login(otherEmail).expect(200)).body.data.token;
+
+      await request(app)
+        .post('/api/admin/users/00000000-0000-0000-0000-000000000000/unlock')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+  });
+});
\ No newline at end of file
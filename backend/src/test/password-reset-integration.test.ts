@@ -0,0 +1,216 @@
+import request from 'supertest';
+import app from '../index';
+import db from '../database/connection';
+import { UserRepository } from '../repositories/UserRepository';
+import { getMailer, MailMessage } from '../mailer';
+
+describe('Password Reset and Email Verification Integration Tests', () => {
+  let userRepository: UserRepository;
+  let sendSpy: jest.SpyInstance<Promise<void>, [MailMessage]>;
+  let testUserId: string;
+  let testEmail: string;
+  let authToken: string;
+
+  // The token from the link in the last email sent to an address
+  const lastTokenSentTo = (email: string): string => {
+    const message = sendSpy.mock.calls.map(([sent]) => sent).filter(sent => sent.to === email).pop();
+    const match = message?.text.match(/token=([a-f0-9]+)/);
+    if (!match) {
+      throw new Error(`No link was sent to ${email}`);
+    }
+    return match[1];
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+  });
+
+  beforeEach(async () => {
+    sendSpy = jest.spyOn(getMailer(), 'send');
+
+    const timestamp = Date.now();
+    testEmail = `reset${timestamp}@example.com`;
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send({
+        username: `resettest${timestamp}`,
+        email: testEmail,
+        password: 'TestPassword123!',
+        confirmPassword: 'TestPassword123!'
+      });
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+  });
+
+  afterEach(async () => {
+    sendSpy.mockRestore();
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/auth/forgot-password', () => {
+    it('should email a link that resets the password once', async () => {
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: testEmail })
+        .expect(200);
+
+      const token = lastTokenSentTo(testEmail);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, newPassword: 'NewPassword456!', confirmPassword: 'NewPassword456!' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ emailOrUsername: testEmail, password: 'TestPassword123!' })
+        .expect(401);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ emailOrUsername: testEmail, password: 'NewPassword456!' })
+        .expect(200);
+
+      const reuseResponse = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, newPassword: 'OtherPassword789!', confirmPassword: 'OtherPassword789!' })
+        .expect(400);
+
+      expect(reuseResponse.body.error.code).toBe('AUTH_LINK_INVALID');
+    });
+
+    it('should answer the same for unknown addresses without sending anything', async () => {
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: `nobody${Date.now()}@example.com` })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(sendSpy).not.toHaveBeenCalledWith(expect.objectContaining({ subject: 'Reset your Cashly password' }));
+    });
+
+    it('should stop older links from working when a new one is sent', async () => {
+      await request(app).post('/api/auth/forgot-password').send({ email: testEmail }).expect(200);
+      const firstToken = lastTokenSentTo(testEmail);
+
+      await request(app).post('/api/auth/forgot-password').send({ email: testEmail }).expect(200);
+      const secondToken = lastTokenSentTo(testEmail);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: firstToken, newPassword: 'NewPassword456!', confirmPassword: 'NewPassword456!' })
+        .expect(400);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: secondToken, newPassword: 'NewPassword456!', confirmPassword: 'NewPassword456!' })
+        .expect(200);
+    });
+
+    it('should keep the link usable when the new password is too weak', async () => {
+      await request(app).post('/api/auth/forgot-password').send({ email: testEmail }).expect(200);
+      const token = lastTokenSentTo(testEmail);
+
+      const weakResponse = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, newPassword: 'weak', confirmPassword: 'weak' })
+        .expect(400);
+
+      expect(weakResponse.body.error.code).toBe('VALIDATION_PASSWORD_WEAK');
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, newPassword: 'NewPassword456!', confirmPassword: 'NewPassword456!' })
+        .expect(200);
+    });
+
+    it('should reject expired links', async () => {
+      await request(app).post('/api/auth/forgot-password').send({ email: testEmail }).expect(200);
+      const token = lastTokenSentTo(testEmail);
+
+      await db('user_tokens')
+        .where({ user_id: testUserId, purpose: 'password_reset' })
+        .update({ expires_at: new Date(Date.now() - 1000) });
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, newPassword: 'NewPassword456!', confirmPassword: 'NewPassword456!' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/auth/verify-email', () => {
+    it('should send a verification link on registration and verify the email with it', async () => {
+      const meBefore = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(meBefore.body.data.email_verified_at).toBeNull();
+
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: lastTokenSentTo(testEmail) })
+        .expect(200);
+
+      const meAfter = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(meAfter.body.data.email_verified_at).not.toBeNull();
+
+      const resendResponse = await request(app)
+        .post('/api/auth/resend-verification')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(409);
+
+      expect(resendResponse.body.error.code).toBe('AUTH_EMAIL_ALREADY_VERIFIED');
+    });
+
+    it('should reject tokens that were never issued', async () => {
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: 'a'.repeat(64) })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('AUTH_LINK_INVALID');
+    });
+
+    it('should require verifying a new address after the email changes', async () => {
+      const firstToken = lastTokenSentTo(testEmail);
+      const newEmail = `changed${Date.now()}@example.com`;
+
+      await request(app)
+        .put('/api/auth/profile')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ email: newEmail })
+        .expect(200);
+
+      // Links sent to the old address no longer verify the account
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: firstToken })
+        .expect(400);
+
+      await request(app)
+        .post('/api/auth/resend-verification')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: lastTokenSentTo(newEmail) })
+        .expect(200);
+    });
+  });
+});
\ No newline at end of file
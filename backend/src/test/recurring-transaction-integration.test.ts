@@ -0,0 +1,145 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+import { RecurringTransactionService } from '../services/RecurringTransactionService';
+
+describe('Recurring Transaction Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let recurringTransactionService: RecurringTransactionService;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+
+  const daysAgo = (days: number): string => {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return date.toISOString().split('T')[0];
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+    recurringTransactionService = new RecurringTransactionService();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `recurringtest${timestamp}`,
+      email: `recurring${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    // Create a test wallet
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Test Wallet' });
+
+    testWalletId = walletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (rules and transactions cascade with the wallet)
+    if (testWalletId) {
+      try {
+        await walletRepository.delete(testWalletId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testWalletId = '';
+    }
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/recurring-transactions', () => {
+    it('should create a recurring transaction rule successfully', async () => {
+      const ruleData = {
+        title: 'Rent',
+        amount: 1200.00,
+        type: 'Expense',
+        wallet_id: testWalletId,
+        start_date: daysAgo(0),
+        recurrence: 'monthly'
+      };
+
+      const response = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(ruleData)
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.title).toBe('Rent');
+      expect(response.body.data.recurrence).toBe('monthly');
+      expect(response.body.data.last_posted_date).toBeNull();
+    });
+
+    it('should reject custom recurrence without an interval', async () => {
+      const response = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          title: 'Allowance',
+          amount: 50.00,
+          type: 'Expense',
+          wallet_id: testWalletId,
+          start_date: daysAgo(0),
+          recurrence: 'custom'
+        })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_INVALID_RECURRENCE_INTERVAL');
+    });
+  });
+
+  describe('Posting due occurrences', () => {
+    it('should post one transaction per missed occurrence and be idempotent', async () => {
+      const createResponse = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          title: 'Daily coffee',
+          amount: 5.00,
+          type: 'Expense',
+          wallet_id: testWalletId,
+          start_date: daysAgo(2),
+          recurrence: 'daily'
+        })
+        .expect(201);
+
+      const ruleId = createResponse.body.data.id;
+
+      await recurringTransactionService.postDueTransactions();
+      await recurringTransactionService.postDueTransactions();
+
+      const response = await request(app)
+        .get(`/api/recurring-transactions/${ruleId}/transactions`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      // Two days ago, yesterday and today, each posted exactly once
+      expect(response.body.data).toHaveLength(3);
+      expect(response.body.data.every((t: any) => t.recurring_transaction_id === ruleId)).toBe(true);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,165 @@
+import request from 'supertest';
+import app from '../index';
+import db from '../database/connection';
+import { UserRepository } from '../repositories/UserRepository';
+import { getMailer } from '../mailer';
+
+describe('Refresh Token Integration Tests', () => {
+  let userRepository: UserRepository;
+  let testUserId: string;
+  let testEmail: string;
+
+  const login = async () => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ emailOrUsername: testEmail, password: 'TestPassword123!' })
+      .expect(200);
+
+    return response.body.data as { token: string; refreshToken: string };
+  };
+
+  const refresh = (refreshToken: string) => {
+    return request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken });
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+  });
+
+  beforeEach(async () => {
+    const timestamp = Date.now();
+    testEmail = `refresh${timestamp}@example.com`;
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send({
+        username: `refreshtest${timestamp}`,
+        email: testEmail,
+        password: 'TestPassword123!',
+        confirmPassword: 'TestPassword123!'
+      });
+
+    testUserId = registerResponse.body.data.user.id;
+  });
+
+  afterEach(async () => {
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should rotate the refresh token and return a working access token', async () => {
+      const { refreshToken } = await login();
+
+      const response = await refresh(refreshToken).expect(200);
+
+      expect(response.body.data.token).toBeDefined();
+      expect(response.body.data.refreshToken).toBeDefined();
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${response.body.data.token}`)
+        .expect(200);
+    });
+
+    it('should revoke the whole session when a used refresh token is presented again', async () => {
+      const { refreshToken } = await login();
+      const rotated = (await refresh(refreshToken).expect(200)).body.data.refreshToken;
+
+      const reuseResponse = await refresh(refreshToken).expect(401);
+      expect(reuseResponse.body.error.code).toBe('AUTH_TOKEN_REVOKED');
+
+      // The token issued by the legitimate rotation stops working too
+      await refresh(rotated).expect(401);
+    });
+
+    it('should leave other sessions alone when one is revoked for reuse', async () => {
+      const firstSession = await login();
+      const secondSession = await login();
+
+      await refresh(firstSession.refreshToken).expect(200);
+      await refresh(firstSession.refreshToken).expect(401);
+
+      await refresh(secondSession.refreshToken).expect(200);
+    });
+
+    it('should reject access tokens and unknown tokens', async () => {
+      const { token } = await login();
+
+      const response = await refresh(token).expect(401);
+      expect(response.body.error.code).toBe('AUTH_TOKEN_INVALID');
+    });
+
+    it('should reject expired refresh tokens', async () => {
+      const { refreshToken } = await login();
+
+      await db('refresh_tokens')
+        .where({ user_id: testUserId })
+        .update({ expires_at: new Date(Date.now() - 1000) });
+
+      const response = await refresh(refreshToken).expect(401);
+      expect(response.body.error.code).toBe('AUTH_TOKEN_EXPIRED');
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should end only the session of the given refresh token', async () => {
+      const firstSession = await login();
+      const secondSession = await login();
+
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: firstSession.refreshToken })
+        .expect(200);
+
+      await refresh(firstSession.refreshToken).expect(401);
+      await refresh(secondSession.refreshToken).expect(200);
+    });
+  });
+
+  describe('POST /api/auth/logout-all', () => {
+    it('should end every session of the user', async () => {
+      const firstSession = await login();
+      const secondSession = await login();
+
+      await request(app)
+        .post('/api/auth/logout-all')
+        .set('Authorization', `Bearer ${firstSession.token}`)
+        .expect(200);
+
+      await refresh(firstSession.refreshToken).expect(401);
+      await refresh(secondSession.refreshToken).expect(401);
+    });
+
+    it('should end every session when the password is reset by email', async () => {
+      const { refreshToken } = await login();
+      const sendSpy = jest.spyOn(getMailer(), 'send');
+
+      try {
+        await request(app)
+          .post('/api/auth/forgot-password')
+          .send({ email: testEmail })
+          .expect(200);
+
+        const resetToken = sendSpy.mock.calls[0][0].text.match(/token=([a-f0-9]+)/)![1];
+
+        await request(app)
+          .post('/api/auth/reset-password')
+          .send({ token: resetToken, newPassword: 'NewPassword456!', confirmPassword: 'NewPassword456!' })
+          .expect(200);
+      } finally {
+        sendSpy.mockRestore();
+      }
+
+      await refresh(refreshToken).expect(401);
+    });
+  });
+});
\ No newline at end of file
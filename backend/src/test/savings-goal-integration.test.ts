@@ -0,0 +1,225 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Savings Goal Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let spendingWalletId: string;
+  let savingsWalletId: string;
+
+  const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+  const monthsFromToday = (months: number): string => {
+    const date = new Date();
+    date.setMonth(date.getMonth() + months);
+    return toDateString(date);
+  };
+
+  const createGoal = async (data: Record<string, unknown> = {}) => {
+    const response = await request(app)
+      .post('/api/savings-goals')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        wallet_id: savingsWalletId,
+        name: 'Emergency Fund',
+        target_amount: 1200,
+        start_date: monthsFromToday(-6),
+        target_date: monthsFromToday(6),
+        ...data
+      })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `goaltest${timestamp}`,
+      email: `goal${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+    await userRepository.updateWalletLimit(testUserId, 2);
+
+    const spendingWalletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Spending' });
+
+    spendingWalletId = spendingWalletResponse.body.data.id;
+
+    const savingsWalletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Savings' });
+
+    savingsWalletId = savingsWalletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (goals are removed with the user)
+    for (const walletId of [spendingWalletId, savingsWalletId]) {
+      if (walletId) {
+        try {
+          await walletRepository.delete(walletId);
+        } catch (error) {
+          // Ignore cleanup errors
+        }
+      }
+    }
+    spendingWalletId = '';
+    savingsWalletId = '';
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/savings-goals', () => {
+    it('should create a goal with no progress yet', async () => {
+      const progress = await createGoal();
+
+      expect(progress.goal.name).toBe('Emergency Fund');
+      expect(progress.saved_amount).toBe(0);
+      expect(progress.remaining_amount).toBe(1200);
+      expect(progress.projected_completion_date).toBeNull();
+      expect(progress.status).toBe('red');
+    });
+
+    it('should reject a target date before the start date', async () => {
+      const response = await request(app)
+        .post('/api/savings-goals')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          wallet_id: savingsWalletId,
+          name: 'Backwards',
+          target_amount: 100,
+          start_date: '2024-06-01',
+          target_date: '2024-01-01'
+        })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_INVALID_GOAL_DATES');
+    });
+  });
+
+  describe('Contributions', () => {
+    it('should count transfers into the goal wallet and tagged transactions', async () => {
+      const progress = await createGoal();
+
+      await request(app)
+        .post('/api/transactions/transfers')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ from_wallet_id: spendingWalletId, to_wallet_id: savingsWalletId, amount: 500 })
+        .expect(201);
+
+      await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Bonus', amount: 200, type: 'Income', wallet_id: spendingWalletId, savings_goal_id: progress.goal.id })
+        .expect(201);
+
+      const response = await request(app)
+        .get(`/api/savings-goals/${progress.goal.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      // Half the time has passed and 700 of the expected 600 is saved
+      expect(response.body.data.saved_amount).toBe(700);
+      expect(response.body.data.remaining_amount).toBe(500);
+      expect(response.body.data.status).toBe('green');
+      expect(response.body.data.on_track).toBe(true);
+      expect(response.body.data.projected_completion_date).not.toBeNull();
+
+      const contributionsResponse = await request(app)
+        .get(`/api/savings-goals/${progress.goal.id}/contributions`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(contributionsResponse.body.data).toHaveLength(2);
+    });
+
+    it('should not tag a transaction with another user\'s goal', async () => {
+      const progress = await createGoal();
+
+      const otherUserResponse = await request(app)
+        .post('/api/auth/register')
+        .send({
+          username: `goalother${Date.now()}`,
+          email: `goalother${Date.now()}@example.com`,
+          password: 'TestPassword123!',
+          confirmPassword: 'TestPassword123!'
+        });
+
+      const otherToken = otherUserResponse.body.data.token;
+
+      const otherWalletResponse = await request(app)
+        .post('/api/wallets')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ name: 'Other Wallet' });
+
+      await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({
+          title: 'Sneaky',
+          amount: 10,
+          type: 'Income',
+          wallet_id: otherWalletResponse.body.data.id,
+          savings_goal_id: progress.goal.id
+        })
+        .expect(403);
+
+      await walletRepository.delete(otherWalletResponse.body.data.id);
+
+      await userRepository.delete(otherUserResponse.body.data.user.id);
+    });
+  });
+
+  describe('DELETE /api/savings-goals/:id', () => {
+    it('should keep tagged transactions when the goal is deleted', async () => {
+      const progress = await createGoal();
+
+      const transactionResponse = await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Bonus', amount: 200, type: 'Income', wallet_id: spendingWalletId, savings_goal_id: progress.goal.id })
+        .expect(201);
+
+      await request(app)
+        .delete(`/api/savings-goals/${progress.goal.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/transactions/${transactionResponse.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.savings_goal_id).toBeNull();
+    });
+  });
+});
\ No newline at end of file
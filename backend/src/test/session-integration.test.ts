@@ -0,0 +1,226 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+
+describe('Session Integration Tests', () => {
+  let userRepository: UserRepository;
+  let testUserId: string;
+  let testEmail: string;
+  let otherUserId: string;
+  let otherEmail: string;
+
+  const registerUser = async (prefix: string) => {
+    const timestamp = Date.now();
+    const email = `${prefix}${timestamp}@example.com`;
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        username: `${prefix}${timestamp}`,
+        email,
+        password: 'TestPassword123!',
+        confirmPassword: 'TestPassword123!'
+      });
+
+    return { id: response.body.data.user.id as string, email };
+  };
+
+  const login = async (email: string, userAgent: string = 'SessionTest/1.0') => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .set('User-Agent', userAgent)
+      .send({ emailOrUsername: email, password: 'TestPassword123!' })
+      .expect(200);
+
+    return response.body.data as { token: string; refreshToken: string };
+  };
+
+  const listSessions = (token: string) => {
+    return request(app)
+      .get('/api/auth/sessions')
+      .set('Authorization', `Bearer ${token}`);
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+  });
+
+  beforeEach(async () => {
+    const user = await registerUser('sessiontest');
+    testUserId = user.id;
+    testEmail = user.email;
+
+    const otherUser = await registerUser('sessionother');
+    otherUserId = otherUser.id;
+    otherEmail = otherUser.email;
+  });
+
+  afterEach(async () => {
+    for (const userId of [testUserId, otherUserId]) {
+      if (userId) {
+        try {
+          await userRepository.delete(userId);
+        } catch (error) {
+          // Ignore cleanup errors
+        }
+      }
+    }
+    testUserId = '';
+    otherUserId = '';
+  });
+
+  describe('GET /api/auth/sessions', () => {
+    it('should list each login with its device and mark the current one', async () => {
+      const laptop = await login(testEmail, 'Laptop Browser');
+      await login(testEmail, 'Phone Browser');
+
+      const response = await listSessions(laptop.token).expect(200);
+
+      // Registering started a session too
+      expect(response.body.data).toHaveLength(3);
+      const current = response.body.data.filter((session: any) => session.current);
+      expect(current).toHaveLength(1);
+      expect(current[0].user_agent).toBe('Laptop Browser');
+      expect(current[0].ip_address).toBeDefined();
+      expect(current[0].last_seen_at).toBeDefined();
+      expect(response.body.data.map((session: any) => session.user_agent)).toContain('Phone Browser');
+    });
+
+    it('should keep the session when its tokens are refreshed', async () => {
+      const { refreshToken } = await login(testEmail);
+
+      const refreshed = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      const response = await listSessions(refreshed.body.data.token).expect(200);
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data.filter((session: any) => session.current)).toHaveLength(1);
+    });
+
+    it('should require authentication', async () => {
+      await request(app).get('/api/auth/sessions').expect(401);
+    });
+  });
+
+  describe('DELETE /api/auth/sessions/:id', () => {
+    it('should end another session right away', async () => {
+      const laptop = await login(testEmail, 'Laptop Browser');
+      const phone = await login(testEmail, 'Phone Browser');
+
+      const sessions = (await listSessions(laptop.token).expect(200)).body.data;
+      const phoneSession = sessions.find((session: any) => session.user_agent === 'Phone Browser');
+
+      await request(app)
+        .delete(`/api/auth/sessions/${phoneSession.id}`)
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+
+      // Its access token stops working before it expires
+      const meResponse = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${phone.token}`)
+        .expect(401);
+      expect(meResponse.body.error.code).toBe('AUTH_TOKEN_REVOKED');
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: phone.refreshToken })
+        .expect(401);
+
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+    });
+
+    it('should not end sessions of other users', async () => {
+      const mine = await login(testEmail);
+      const theirs = await login(otherEmail);
+
+      const theirSessions = (await listSessions(theirs.token).expect(200)).body.data;
+
+      const response = await request(app)
+        .delete(`/api/auth/sessions/${theirSessions[0].id}`)
+        .set('Authorization', `Bearer ${mine.token}`)
+        .expect(404);
+      expect(response.body.error.code).toBe('RESOURCE_NOT_FOUND');
+
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${theirs.token}`)
+        .expect(200);
+    });
+
+    it('should reject invalid session ids', async () => {
+      const { token } = await login(testEmail);
+
+      await request(app)
+        .delete('/api/auth/sessions/not-a-session')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+    });
+  });
+
+  describe('PUT /api/auth/change-password', () => {
+    it('should end the other sessions but keep the current one', async () => {
+      const laptop = await login(testEmail);
+      const phone = await login(testEmail);
+
+      await request(app)
+        .put('/api/auth/change-password')
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .send({ currentPassword: 'TestPassword123!', newPassword: 'NewPassword456!', confirmPassword: 'NewPassword456!' })
+        .expect(200);
+
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${phone.token}`)
+        .expect(401);
+
+      const response = await listSessions(laptop.token).expect(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].current).toBe(true);
+    });
+  });
+
+  describe('POST /api/admin/users/:id/logout', () => {
+    it('should let admins log a user out everywhere', async () => {
+      const userSession = await login(testEmail);
+
+      await request(app)
+        .post(`/api/admin/users/${testUserId}/logout`)
+        .set('Authorization', `Bearer ${(await login(otherEmail)).token}`)
+        .expect(403);
+
+      await userRepository.update(otherUserId, { role: 'admin' });
+      const admin = await login(otherEmail);
+
+      const response = await request(app)
+        .post(`/api/admin/users/${testUserId}/logout`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+      expect(response.body.data.ended_sessions).toBe(2);
+
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${userSession.token}`)
+        .expect(401);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: userSession.refreshToken })
+        .expect(401);
+    });
+
+    it('should report unknown users', async () => {
+      await userRepository.update(otherUserId, { role: 'admin' });
+      const admin = await login(otherEmail);
+
+      await request(app)
+        .post('/api/admin/users/00000000-0000-0000-0000-000000000000/logout')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(404);
+    });
+  });
+});
\ No newline at end of file
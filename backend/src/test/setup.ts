@@ -2,6 +2,8 @@
 // This file runs before each test suite
 
 import dotenv from 'dotenv';
+import os from 'os';
+import path from 'path';
 
 // Load test environment variables
 dotenv.config({ path: '.env.test' });
@@ -9,6 +11,9 @@ dotenv.config({ path: '.env.test' });
 // Set test environment
 process.env.NODE_ENV = 'test';
 
+// Keep uploaded attachments out of the working tree
+process.env.FILE_STORAGE_PATH = process.env.FILE_STORAGE_PATH || path.join(os.tmpdir(), 'cashly-test-uploads');
+
 // Global test timeout
 jest.setTimeout(30000);
 
@@ -0,0 +1,239 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Tag Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+
+  const createTransaction = async (title: string, amount: number, tags?: string[]) => {
+    const response = await request(app)
+      .post('/api/transactions')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title, amount, type: 'Expense', wallet_id: testWalletId, tags })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `tagtest${timestamp}`,
+      email: `tag${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    // Create a test wallet
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Tag Wallet' });
+
+    testWalletId = walletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (tags are removed with the user, their links with the transactions)
+    if (testWalletId) {
+      try {
+        await walletRepository.delete(testWalletId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testWalletId = '';
+    }
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/transactions', () => {
+    it('should normalize tags and create them on first use', async () => {
+      const transaction = await createTransaction('Boracay hotel', 5000, [' Trip ', 'boracay', 'trip']);
+
+      expect(transaction.tags).toEqual(['boracay', 'trip']);
+
+      const response = await request(app)
+        .get('/api/tags')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual([
+        expect.objectContaining({ name: 'boracay', transaction_count: 1 }),
+        expect.objectContaining({ name: 'trip', transaction_count: 1 })
+      ]);
+    });
+
+    it('should reject tags that are too long', async () => {
+      const response = await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Snacks', amount: 50, type: 'Expense', wallet_id: testWalletId, tags: ['x'.repeat(51)] })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_FAILED');
+    });
+  });
+
+  describe('PUT /api/transactions/:id', () => {
+    it('should replace the tags only when they are given', async () => {
+      const transaction = await createTransaction('Boracay hotel', 5000, ['trip']);
+
+      const titleResponse = await request(app)
+        .put(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Boracay resort' })
+        .expect(200);
+
+      expect(titleResponse.body.data.tags).toEqual(['trip']);
+
+      const response = await request(app)
+        .put(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ tags: [] })
+        .expect(200);
+
+      expect(response.body.data.tags).toEqual([]);
+    });
+  });
+
+  describe('GET /api/transactions', () => {
+    it('should only list transactions carrying every given tag', async () => {
+      await createTransaction('Boracay hotel', 5000, ['trip', 'boracay']);
+      await createTransaction('Baguio bus', 800, ['trip']);
+      await createTransaction('Groceries', 1200);
+
+      const tripResponse = await request(app)
+        .get('/api/transactions')
+        .query({ wallet_id: testWalletId, tags: 'Trip' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(tripResponse.body.data.transactions).toHaveLength(2);
+
+      const response = await request(app)
+        .get('/api/transactions')
+        .query({ wallet_id: testWalletId, tags: 'trip,boracay' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.transactions.map((t: any) => t.title)).toEqual(['Boracay hotel']);
+    });
+  });
+
+  describe('Tag management', () => {
+    it('should not rename a tag onto another existing tag', async () => {
+      await createTransaction('Boracay hotel', 5000, ['trip', 'boracay']);
+
+      const tagsResponse = await request(app)
+        .get('/api/tags')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      const boracayTag = tagsResponse.body.data.find((tag: any) => tag.name === 'boracay');
+
+      const response = await request(app)
+        .put(`/api/tags/${boracayTag.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Trip' })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('TAG_ALREADY_EXISTS');
+    });
+
+    it('should take a deleted tag off its transactions', async () => {
+      const transaction = await createTransaction('Boracay hotel', 5000, ['trip', 'boracay']);
+
+      const tagsResponse = await request(app)
+        .get('/api/tags')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      const tripTag = tagsResponse.body.data.find((tag: any) => tag.name === 'trip');
+
+      await request(app)
+        .delete(`/api/tags/${tripTag.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.tags).toEqual(['boracay']);
+    });
+  });
+
+  describe('Reports', () => {
+    it('should count a transaction under each of its tags in the tag breakdown', async () => {
+      await createTransaction('Boracay hotel', 5000, ['trip', 'boracay']);
+      await createTransaction('Baguio bus', 800, ['trip']);
+      await createTransaction('Groceries', 1200);
+
+      const response = await request(app)
+        .get('/api/dashboard/reports/tag-breakdown')
+        .query({ wallet_id: testWalletId, type: 'Expense' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const breakdown = response.body.data.breakdown;
+      expect(response.body.data.total_amount).toBeCloseTo(7000);
+      expect(breakdown.find((item: any) => item.tag_name === 'trip')).toEqual(
+        expect.objectContaining({ total_amount: 5800, transaction_count: 2 })
+      );
+      expect(breakdown.find((item: any) => item.tag_name === 'boracay').total_amount).toBeCloseTo(5000);
+      expect(breakdown.find((item: any) => item.tag_name === null).total_amount).toBeCloseTo(1200);
+    });
+
+    it('should filter the category breakdown by tag', async () => {
+      await createTransaction('Boracay hotel', 5000, ['trip']);
+      await createTransaction('Groceries', 1200);
+
+      const response = await request(app)
+        .get('/api/dashboard/reports/category-breakdown')
+        .query({ wallet_id: testWalletId, type: 'Expense', tags: 'trip' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.total_amount).toBeCloseTo(5000);
+      expect(response.body.data.total_transactions).toBe(1);
+    });
+
+    it('should include tags in the transaction CSV export', async () => {
+      await createTransaction('Boracay hotel', 5000, ['trip', 'boracay']);
+
+      const response = await request(app)
+        .post('/api/dashboard/export/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ format: 'csv', wallet_id: testWalletId, tags: ['trip'] })
+        .expect(200);
+
+      expect(response.text).toContain('Tags');
+      expect(response.text).toContain('boracay, trip');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,212 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+// Smallest valid PNG: a single transparent pixel
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+describe('Transaction Notes and Attachments Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+
+  const registerUser = async (prefix: string) => {
+    const timestamp = Date.now();
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        username: `${prefix}${timestamp}`,
+        email: `${prefix}${timestamp}@example.com`,
+        password: 'TestPassword123!',
+        confirmPassword: 'TestPassword123!'
+      });
+
+    return { id: response.body.data.user.id, token: response.body.data.token };
+  };
+
+  const createTransaction = async (data: Record<string, unknown> = {}) => {
+    const response = await request(app)
+      .post('/api/transactions')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title: 'Hardware store', amount: 1250, type: 'Expense', wallet_id: testWalletId, ...data })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  const attachReceipt = (transactionId: string, content: string = PNG_BASE64) => request(app)
+    .post(`/api/transactions/${transactionId}/attachments`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({ file_name: 'receipt.png', content });
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    const user = await registerUser('attachtest');
+    testUserId = user.id;
+    authToken = user.token;
+
+    // Create a test wallet
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Attachment Wallet' });
+
+    testWalletId = walletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (attachment rows are removed with their transactions)
+    if (testWalletId) {
+      try {
+        await walletRepository.delete(testWalletId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testWalletId = '';
+    }
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('Notes', () => {
+    it('should save, update and clear notes', async () => {
+      const transaction = await createTransaction({ notes: '  Paint and brushes for the bedroom  ' });
+      expect(transaction.notes).toBe('Paint and brushes for the bedroom');
+
+      const updateResponse = await request(app)
+        .put(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ notes: '' })
+        .expect(200);
+
+      expect(updateResponse.body.data.notes).toBeNull();
+    });
+
+    it('should reject notes that are too long', async () => {
+      const response = await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Snacks', amount: 50, type: 'Expense', wallet_id: testWalletId, notes: 'x'.repeat(1001) })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_FAILED');
+    });
+
+    it('should find transactions by their notes', async () => {
+      await createTransaction({ notes: 'Paint for the bedroom' });
+      await createTransaction({ title: 'Lunch' });
+
+      const response = await request(app)
+        .get('/api/transactions')
+        .query({ q: 'bedroom' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.transactions.map((t: any) => t.title)).toEqual(['Hardware store']);
+    });
+  });
+
+  describe('Attachments', () => {
+    it('should attach, list, download and delete a receipt', async () => {
+      const transaction = await createTransaction();
+
+      const attachResponse = await attachReceipt(transaction.id).expect(201);
+      const attachment = attachResponse.body.data;
+      expect(attachment).toEqual(expect.objectContaining({
+        transaction_id: transaction.id,
+        file_name: 'receipt.png',
+        content_type: 'image/png',
+        size: Buffer.from(PNG_BASE64, 'base64').length
+      }));
+
+      const transactionResponse = await request(app)
+        .get(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(transactionResponse.body.data.attachments).toHaveLength(1);
+
+      const fileResponse = await request(app)
+        .get(`/api/transactions/${transaction.id}/attachments/${attachment.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      expect(fileResponse.headers['content-type']).toBe('image/png');
+      expect(Buffer.compare(fileResponse.body, Buffer.from(PNG_BASE64, 'base64'))).toBe(0);
+
+      await request(app)
+        .delete(`/api/transactions/${transaction.id}/attachments/${attachment.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const listResponse = await request(app)
+        .get(`/api/transactions/${transaction.id}/attachments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(listResponse.body.data).toEqual([]);
+    });
+
+    it('should accept data URLs and detect the type from the contents', async () => {
+      const transaction = await createTransaction();
+
+      const response = await request(app)
+        .post(`/api/transactions/${transaction.id}/attachments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ file_name: 'scan.pdf', content: `data:image/png;base64,${PNG_BASE64}` })
+        .expect(201);
+
+      expect(response.body.data.content_type).toBe('image/png');
+    });
+
+    it('should reject files that are not images or PDFs', async () => {
+      const transaction = await createTransaction();
+
+      const response = await attachReceipt(transaction.id, Buffer.from('<html><script></script></html>').toString('base64'))
+        .expect(415);
+
+      expect(response.body.error.code).toBe('ATTACHMENT_TYPE_NOT_ALLOWED');
+    });
+
+    it('should not let other users see or add attachments', async () => {
+      const transaction = await createTransaction();
+      const attachResponse = await attachReceipt(transaction.id).expect(201);
+
+      const otherUser = await registerUser('attachother');
+      try {
+        await request(app)
+          .get(`/api/transactions/${transaction.id}/attachments/${attachResponse.body.data.id}`)
+          .set('Authorization', `Bearer ${otherUser.token}`)
+          .expect(404);
+
+        await request(app)
+          .post(`/api/transactions/${transaction.id}/attachments`)
+          .set('Authorization', `Bearer ${otherUser.token}`)
+          .send({ file_name: 'receipt.png', content: PNG_BASE64 })
+          .expect(404);
+      } finally {
+        await userRepository.delete(otherUser.id);
+      }
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,324 @@
+import request from 'supertest';
+import app from '../index';
+import db from '../database/connection';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Transaction Bulk Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+  let secondWalletId: string;
+
+  const createTransaction = async (title: string, amount: number, extra: Record<string, unknown> = {}) => {
+    const response = await request(app)
+      .post('/api/transactions')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title, amount, type: 'Expense', wallet_id: testWalletId, ...extra })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  const createCategory = async (name: string) => {
+    const response = await request(app)
+      .post('/api/categories')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name, type: 'Expense' })
+      .expect(201);
+
+    return response.body.data.id;
+  };
+
+  const getTransaction = async (id: string) => {
+    const response = await request(app)
+      .get(`/api/transactions/${id}`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    return response.status === 200 ? response.body.data : null;
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `bulktest${timestamp}`,
+      email: `bulk${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    // Create two test wallets
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Bulk Wallet' });
+
+    testWalletId = walletResponse.body.data.id;
+
+    const secondWalletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Second Bulk Wallet' });
+
+    secondWalletId = secondWalletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (categories are removed with the user)
+    for (const walletId of [testWalletId, secondWalletId]) {
+      if (walletId) {
+        try {
+          await walletRepository.delete(walletId);
+        } catch (error) {
+          // Ignore cleanup errors
+        }
+      }
+    }
+    testWalletId = '';
+    secondWalletId = '';
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/transactions/bulk/update', () => {
+    it('should recategorize the listed transactions', async () => {
+      const categoryId = await createCategory('Groceries');
+      const first = await createTransaction('Market', 500);
+      const second = await createTransaction('Bakery', 120);
+
+      const response = await request(app)
+        .post('/api/transactions/bulk/update')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ ids: [first.id, second.id], changes: { category_id: categoryId } })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ matched: 2, succeeded: 2, failed: 0 });
+      expect((await getTransaction(first.id)).category_id).toBe(categoryId);
+      expect((await getTransaction(second.id)).category_id).toBe(categoryId);
+    });
+
+    it('should change the transactions matching a filter', async () => {
+      const coffee = await createTransaction('Coffee beans', 450);
+      const other = await createTransaction('Rent', 15000);
+
+      const response = await request(app)
+        .post('/api/transactions/bulk/update')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ filter: { wallet_id: testWalletId, q: 'coffee' }, changes: { type: 'Income', wallet_id: secondWalletId } })
+        .expect(200);
+
+      expect(response.body.data.results).toEqual([{ id: coffee.id, status: 'updated' }]);
+      const moved = await getTransaction(coffee.id);
+      expect(moved.type).toBe('Income');
+      expect(moved.wallet_id).toBe(secondWalletId);
+      expect((await getTransaction(other.id)).wallet_id).toBe(testWalletId);
+    });
+
+    it('should report the items that cannot take the changes and save the rest', async () => {
+      const categoryId = await createCategory('Household');
+      const plain = await createTransaction('Detergent', 300);
+      const split = await createTransaction('Puregold receipt', 1000, {
+        splits: [{ amount: 600 }, { amount: 400 }]
+      });
+      const transferResponse = await request(app)
+        .post('/api/transactions/transfers')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ from_wallet_id: testWalletId, to_wallet_id: secondWalletId, amount: 250 })
+        .expect(201);
+      const outgoing = transferResponse.body.data.outgoing;
+
+      const response = await request(app)
+        .post('/api/transactions/bulk/update')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          ids: [plain.id, split.id, outgoing.id, '00000000-0000-0000-0000-000000000000'],
+          changes: { category_id: categoryId }
+        })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ matched: 4, succeeded: 1, failed: 3 });
+      expect(response.body.data.results).toEqual([
+        { id: plain.id, status: 'updated' },
+        { id: split.id, status: 'failed', error: 'VALIDATION_SPLIT_WITH_CATEGORY' },
+        { id: outgoing.id, status: 'failed', error: 'VALIDATION_INVALID_TRANSFER_UPDATE' },
+        { id: '00000000-0000-0000-0000-000000000000', status: 'failed', error: 'RESOURCE_NOT_FOUND' }
+      ]);
+      expect((await getTransaction(plain.id)).category_id).toBe(categoryId);
+    });
+
+    it("should not touch another user's transactions", async () => {
+      const timestamp = Date.now();
+      const otherResponse = await request(app)
+        .post('/api/auth/register')
+        .send({
+          username: `bulkother${timestamp}`,
+          email: `bulkother${timestamp}@example.com`,
+          password: 'TestPassword123!',
+          confirmPassword: 'TestPassword123!'
+        });
+      const otherUserId = otherResponse.body.data.user.id;
+      const otherToken = otherResponse.body.data.token;
+      const transaction = await createTransaction('Private', 100);
+      const otherWalletResponse = await request(app)
+        .post('/api/wallets')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ name: 'Other Wallet' });
+      const otherWalletId = otherWalletResponse.body.data.id;
+
+      try {
+        const response = await request(app)
+          .post('/api/transactions/bulk/update')
+          .set('Authorization', `Bearer ${otherToken}`)
+          .send({ ids: [transaction.id], changes: { type: 'Income' } })
+          .expect(200);
+
+        expect(response.body.data.results).toEqual([
+          { id: transaction.id, status: 'failed', error: 'RESOURCE_NOT_FOUND' }
+        ]);
+        expect((await getTransaction(transaction.id)).type).toBe('Expense');
+
+        // Moving into a wallet of someone else refuses the whole request
+        await request(app)
+          .post('/api/transactions/bulk/update')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ ids: [transaction.id], changes: { wallet_id: otherWalletId } })
+          .expect(403);
+      } finally {
+        await walletRepository.delete(otherWalletId);
+        await userRepository.delete(otherUserId);
+      }
+    });
+
+    it('should not move a bank id into a wallet that already has it', async () => {
+      const thirdWalletResponse = await request(app)
+        .post('/api/wallets')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Third Bulk Wallet' });
+      const thirdWalletId = thirdWalletResponse.body.data.id;
+
+      try {
+        const existing = await createTransaction('Already there', 100, { wallet_id: secondWalletId });
+        const clashing = await createTransaction('Same bank id', 100);
+        const first = await createTransaction('Moved first', 200);
+        const second = await createTransaction('Moved second', 200, { wallet_id: thirdWalletId });
+        const plain = await createTransaction('Typed in', 300);
+
+        // Only statement imports set bank ids
+        await db('transactions').whereIn('id', [existing.id, clashing.id]).update({ external_id: 'FITID-1' });
+        await db('transactions').whereIn('id', [first.id, second.id]).update({ external_id: 'FITID-2' });
+
+        const response = await request(app)
+          .post('/api/transactions/bulk/update')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ ids: [clashing.id, first.id, second.id, plain.id], changes: { wallet_id: secondWalletId } })
+          .expect(200);
+
+        expect(response.body.data).toMatchObject({ matched: 4, succeeded: 2, failed: 2 });
+        expect(response.body.data.results).toEqual([
+          { id: clashing.id, status: 'failed', error: 'VALIDATION_DUPLICATE_EXTERNAL_ID' },
+          { id: first.id, status: 'updated' },
+          { id: second.id, status: 'failed', error: 'VALIDATION_DUPLICATE_EXTERNAL_ID' },
+          { id: plain.id, status: 'updated' }
+        ]);
+        expect((await getTransaction(clashing.id)).wallet_id).toBe(testWalletId);
+        expect((await getTransaction(first.id)).wallet_id).toBe(secondWalletId);
+        expect((await getTransaction(second.id)).wallet_id).toBe(thirdWalletId);
+        expect((await getTransaction(plain.id)).wallet_id).toBe(secondWalletId);
+      } finally {
+        await walletRepository.delete(thirdWalletId);
+      }
+    });
+
+    it('should reject invalid requests', async () => {
+      const transaction = await createTransaction('Lunch', 200);
+
+      for (const body of [
+        { changes: { type: 'Income' } },
+        { ids: [transaction.id], filter: {}, changes: { type: 'Income' } },
+        { ids: [], changes: { type: 'Income' } },
+        { ids: [transaction.id], changes: {} },
+        { ids: [transaction.id], changes: { type: 'Transfer' } },
+        { ids: ['not-an-id'], changes: { type: 'Income' } },
+        { filter: { wallet_id: 'not-an-id' }, changes: { type: 'Income' } },
+        { ids: [transaction.id], changes: { category_id: 'not-an-id' } },
+        { ids: [transaction.id], changes: { wallet_id: 'not-an-id' } },
+        { ids: Array.from({ length: 501 }, (_, i) => `id-${i}`), changes: { type: 'Income' } }
+      ]) {
+        const response = await request(app)
+          .post('/api/transactions/bulk/update')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send(body)
+          .expect(400);
+
+        expect(response.body.error.code).toBe('VALIDATION_FAILED');
+      }
+    });
+  });
+
+  describe('POST /api/transactions/bulk/delete', () => {
+    it('should delete the listed transactions and both legs of a transfer', async () => {
+      const first = await createTransaction('Taxi', 300);
+      const kept = await createTransaction('Dinner', 800);
+      const transferResponse = await request(app)
+        .post('/api/transactions/transfers')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ from_wallet_id: testWalletId, to_wallet_id: secondWalletId, amount: 250 })
+        .expect(201);
+      const { outgoing, incoming } = transferResponse.body.data;
+
+      const response = await request(app)
+        .post('/api/transactions/bulk/delete')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ ids: [first.id, outgoing.id] })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ matched: 2, succeeded: 2, failed: 0 });
+      expect(await getTransaction(first.id)).toBeNull();
+      expect(await getTransaction(outgoing.id)).toBeNull();
+      expect(await getTransaction(incoming.id)).toBeNull();
+      expect(await getTransaction(kept.id)).not.toBeNull();
+    });
+
+    it('should delete the transactions matching a filter', async () => {
+      await createTransaction('Parking', 50, { tags: ['trip'] });
+      await createTransaction('Toll', 75, { tags: ['trip'] });
+      const kept = await createTransaction('Groceries', 2300);
+
+      const response = await request(app)
+        .post('/api/transactions/bulk/delete')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ filter: { tags: 'trip' } })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ matched: 2, succeeded: 2, failed: 0 });
+
+      const listResponse = await request(app)
+        .get('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(listResponse.body.data.transactions.map((t: any) => t.id)).toEqual([kept.id]);
+    });
+  });
+});
\ No newline at end of file
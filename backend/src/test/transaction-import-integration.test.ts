@@ -0,0 +1,287 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Transaction Import Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+
+  const csvContent = [
+    'Date,Description,Debit,Credit',
+    '2024-03-01,Grocery Store,"1,250.75",',
+    '2024-03-02,Salary,,45000.00',
+    '2024-03-03,"Coffee, Downtown",150.00,'
+  ].join('\n');
+
+  const mapping = { date: 0, description: 1, debit: 2, credit: 3 };
+
+  // European bank export: semicolons between cells, decimal commas and thousands points
+  const decimalCommaContent = [
+    'Datum;Omschrijving;Bedrag',
+    '01-03-2024;Albert Heijn;-12,50',
+    '02-03-2024;Salaris;1.234,56'
+  ].join('\n');
+
+  const decimalCommaMapping = { date: 0, description: 1, amount: 2 };
+
+  const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `importtest${timestamp}`,
+      email: `import${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    // Create a test wallet
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Import Wallet' });
+
+    testWalletId = walletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (imported transactions are removed with the wallet)
+    if (testWalletId) {
+      try {
+        await walletRepository.delete(testWalletId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testWalletId = '';
+    }
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/transactions/import/preview', () => {
+    it('should parse debit and credit columns without saving anything', async () => {
+      const response = await request(app)
+        .post('/api/transactions/import/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: csvContent, mapping })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.headers).toEqual(['Date', 'Description', 'Debit', 'Credit']);
+      expect(response.body.data.rows).toHaveLength(3);
+      expect(response.body.data.rows[0]).toMatchObject({ row_number: 2, title: 'Grocery Store', amount: 1250.75, type: 'Expense' });
+      expect(response.body.data.rows[1]).toMatchObject({ title: 'Salary', amount: 45000, type: 'Income' });
+      expect(response.body.data.rows[2].title).toBe('Coffee, Downtown');
+      expect(response.body.data.errors).toHaveLength(0);
+
+      const transactionsResponse = await request(app)
+        .get(`/api/transactions?wallet_id=${testWalletId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(transactionsResponse.body.data.transactions).toHaveLength(0);
+    });
+
+    it('should parse amounts with a decimal comma', async () => {
+      const response = await request(app)
+        .post('/api/transactions/import/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          wallet_id: testWalletId,
+          content: decimalCommaContent,
+          mapping: decimalCommaMapping,
+          date_format: 'DD/MM/YYYY',
+          decimal_separator: ','
+        })
+        .expect(200);
+
+      expect(response.body.data.headers).toEqual(['Datum', 'Omschrijving', 'Bedrag']);
+      expect(response.body.data.rows).toHaveLength(2);
+      expect(response.body.data.rows[0]).toMatchObject({ title: 'Albert Heijn', amount: 12.5, type: 'Expense' });
+      expect(response.body.data.rows[1]).toMatchObject({ title: 'Salaris', amount: 1234.56, type: 'Income' });
+      expect(response.body.data.errors).toHaveLength(0);
+    });
+
+    it('should report decimal comma amounts read with a decimal point instead of misreading them', async () => {
+      const response = await request(app)
+        .post('/api/transactions/import/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: decimalCommaContent, mapping: decimalCommaMapping, date_format: 'DD/MM/YYYY' })
+        .expect(200);
+
+      expect(response.body.data.rows).toHaveLength(0);
+      expect(response.body.data.errors).toEqual([
+        { row_number: 2, error: 'Invalid amount "-12,50" for the decimal separator "."' },
+        { row_number: 3, error: 'Invalid amount "1.234,56" for the decimal separator "."' }
+      ]);
+    });
+
+    it('should reject an unknown decimal separator', async () => {
+      const response = await request(app)
+        .post('/api/transactions/import/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: decimalCommaContent, mapping: decimalCommaMapping, decimal_separator: ' ' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_FAILED');
+    });
+  });
+
+  describe('POST /api/transactions/import', () => {
+    it('should import all rows and skip duplicates on a second import', async () => {
+      const firstResponse = await request(app)
+        .post('/api/transactions/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: csvContent, mapping })
+        .expect(200);
+
+      expect(firstResponse.body.data.status).toBe('completed');
+      expect(firstResponse.body.data.imported_records).toBe(3);
+
+      const previewResponse = await request(app)
+        .post('/api/transactions/import/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: csvContent, mapping })
+        .expect(200);
+
+      expect(previewResponse.body.data.rows.every((row: any) => row.duplicate_of)).toBe(true);
+
+      const secondResponse = await request(app)
+        .post('/api/transactions/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: csvContent, mapping })
+        .expect(200);
+
+      expect(secondResponse.body.data.imported_records).toBe(0);
+      expect(secondResponse.body.data.skipped_duplicates).toBe(3);
+    });
+
+    it('should import nothing when any row is invalid', async () => {
+      const invalidContent = `${csvContent}\nnot-a-date,Broken Row,10.00,`;
+
+      const response = await request(app)
+        .post('/api/transactions/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: invalidContent, mapping })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('failed');
+      expect(response.body.data.imported_records).toBe(0);
+      expect(response.body.data.errors).toEqual([
+        expect.objectContaining({ row_number: 5 })
+      ]);
+
+      const transactionsResponse = await request(app)
+        .get(`/api/transactions?wallet_id=${testWalletId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(transactionsResponse.body.data.transactions).toHaveLength(0);
+    });
+
+    it('should reject a mapping without amount columns', async () => {
+      const response = await request(app)
+        .post('/api/transactions/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: csvContent, mapping: { date: 0, description: 1 } })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_INVALID_IMPORT_MAPPING');
+    });
+  });
+
+  describe('OFX and QIF imports', () => {
+    it('should store bank ids and never re-import an overlapping statement', async () => {
+      const firstResponse = await request(app)
+        .post('/api/transactions/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: readFixture('statement-sgml.ofx'), format: 'ofx' })
+        .expect(200);
+
+      expect(firstResponse.body.data.status).toBe('completed');
+      expect(firstResponse.body.data.imported_records).toBe(3);
+
+      // The XML statement repeats two of the transactions above and adds one
+      const previewResponse = await request(app)
+        .post('/api/transactions/import/preview')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: readFixture('statement-xml.qfx'), format: 'ofx' })
+        .expect(200);
+
+      expect(previewResponse.body.data.rows.map((row: any) => row.already_imported)).toEqual([true, true, false]);
+      expect(previewResponse.body.data.rows[2]).toMatchObject({ title: 'COFFEE DOWNTOWN', external_id: '202403050001' });
+
+      // Bank id matches are skipped even when duplicates are kept
+      const secondResponse = await request(app)
+        .post('/api/transactions/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: readFixture('statement-xml.qfx'), format: 'ofx', skip_duplicates: false })
+        .expect(200);
+
+      expect(secondResponse.body.data.imported_records).toBe(1);
+      expect(secondResponse.body.data.skipped_duplicates).toBe(2);
+
+      const transactionsResponse = await request(app)
+        .get(`/api/transactions?wallet_id=${testWalletId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(transactionsResponse.body.data.transactions).toHaveLength(4);
+    });
+
+    it('should import a QIF file', async () => {
+      const response = await request(app)
+        .post('/api/transactions/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: readFixture('statement.qif'), format: 'qif' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('completed');
+      expect(response.body.data.imported_records).toBe(3);
+
+      const transactionsResponse = await request(app)
+        .get(`/api/transactions?wallet_id=${testWalletId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const titles = transactionsResponse.body.data.transactions.map((transaction: any) => transaction.title);
+      expect(titles).toEqual(expect.arrayContaining(['Grocery Store', 'Salary', 'Coffee Downtown']));
+    });
+
+    it('should reject a file that does not match the format', async () => {
+      const response = await request(app)
+        .post('/api/transactions/import')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, content: csvContent, format: 'ofx' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_INVALID_IMPORT_FILE');
+    });
+  });
+});
@@ -166,6 +166,61 @@ describe('Transaction Management Integration Tests', () => {
       testTransactionId = response.body.data.id;
     });
 
+    it('should create transaction with a back-dated transaction date', async () => {
+      const transactionData = {
+        title: 'Back-dated Transaction',
+        amount: 42.00,
+        type: 'Expense',
+        wallet_id: testWalletId,
+        transaction_date: '2024-01-15'
+      };
+
+      const response = await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(transactionData)
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.transaction_date).toBe('2024-01-15');
+
+      testTransactionId = response.body.data.id;
+
+      // Date filters use the transaction date rather than created_at
+      const filterResponse = await request(app)
+        .get(`/api/transactions?wallet_id=${testWalletId}&start_date=2024-01-01&end_date=2024-01-31`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(filterResponse.body.data.transactions.map((t: any) => t.id)).toContain(testTransactionId);
+
+      // The day comes back as written, whatever the server's time zone
+      const getResponse = await request(app)
+        .get(`/api/transactions/${testTransactionId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(getResponse.body.data.transaction_date).toBe('2024-01-15');
+    });
+
+    it('should reject transaction with an invalid transaction date', async () => {
+      const transactionData = {
+        title: 'Invalid Date Transaction',
+        amount: 10.00,
+        type: 'Expense',
+        transaction_date: 'not-a-date'
+      };
+
+      const response = await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(transactionData)
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('VALIDATION_FAILED');
+    });
+
     it('should reject transaction creation without authentication', async () => {
       const transactionData = {
         title: 'Test Transaction',
@@ -379,6 +434,113 @@ describe('Transaction Management Integration Tests', () => {
     });
   });
 
+  describe('POST /api/transactions/transfers', () => {
+    let secondWalletId: string;
+
+    beforeEach(async () => {
+      const walletResponse = await request(app)
+        .post('/api/wallets')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Savings Wallet' });
+
+      secondWalletId = walletResponse.body.data.id;
+    });
+
+    afterEach(async () => {
+      if (secondWalletId) {
+        try {
+          await walletRepository.delete(secondWalletId);
+        } catch (error) {
+          // Ignore cleanup errors
+        }
+        secondWalletId = '';
+      }
+    });
+
+    it('should create a linked pair of transfer legs excluded from the summary', async () => {
+      const response = await request(app)
+        .post('/api/transactions/transfers')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          from_wallet_id: testWalletId,
+          to_wallet_id: secondWalletId,
+          amount: 250.00
+        })
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      const { transfer_id, outgoing, incoming } = response.body.data;
+      expect(outgoing.transfer_id).toBe(transfer_id);
+      expect(incoming.transfer_id).toBe(transfer_id);
+      expect(outgoing.wallet_id).toBe(testWalletId);
+      expect(outgoing.transfer_direction).toBe('Outgoing');
+      expect(incoming.wallet_id).toBe(secondWalletId);
+      expect(incoming.transfer_direction).toBe('Incoming');
+      expect(outgoing.type).toBe('Transfer');
+
+      const summaryResponse = await request(app)
+        .get('/api/transactions/summary')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(summaryResponse.body.data.totalIncome).toBe(0);
+      expect(summaryResponse.body.data.totalExpense).toBe(0);
+    });
+
+    it('should keep both legs consistent on update and delete', async () => {
+      const response = await request(app)
+        .post('/api/transactions/transfers')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          from_wallet_id: testWalletId,
+          to_wallet_id: secondWalletId,
+          amount: 100.00
+        })
+        .expect(201);
+
+      const { outgoing, incoming } = response.body.data;
+
+      await request(app)
+        .put(`/api/transactions/${outgoing.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ amount: 175.00, title: 'Monthly savings' })
+        .expect(200);
+
+      const incomingResponse = await request(app)
+        .get(`/api/transactions/${incoming.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(parseFloat(incomingResponse.body.data.amount)).toBe(175.00);
+      expect(incomingResponse.body.data.title).toBe('Monthly savings');
+
+      await request(app)
+        .delete(`/api/transactions/${incoming.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      await request(app)
+        .get(`/api/transactions/${outgoing.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+
+    it('should reject a transfer into the same wallet', async () => {
+      const response = await request(app)
+        .post('/api/transactions/transfers')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          from_wallet_id: testWalletId,
+          to_wallet_id: testWalletId,
+          amount: 50.00
+        })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('VALIDATION_SAME_WALLET_TRANSFER');
+    });
+  });
+
   describe('GET /api/transactions/summary', () => {
     beforeEach(async () => {
       // Create test transactions for summary
@@ -0,0 +1,229 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Transaction Search Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+
+  const createTransaction = async (title: string, amount: number, categoryId?: string) => {
+    const response = await request(app)
+      .post('/api/transactions')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title, amount, type: 'Expense', wallet_id: testWalletId, category_id: categoryId })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  const searchTitles = async (q: string): Promise<string[]> => {
+    const response = await request(app)
+      .get('/api/transactions')
+      .query({ q })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    return response.body.data.transactions.map((t: any) => t.title).sort();
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `searchtest${timestamp}`,
+      email: `search${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    // Create a test wallet
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Travel Card' });
+
+    testWalletId = walletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (saved searches are removed with the user)
+    if (testWalletId) {
+      try {
+        await walletRepository.delete(testWalletId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testWalletId = '';
+    }
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('GET /api/transactions?q=', () => {
+    it('should match titles case-insensitively and require every term', async () => {
+      await createTransaction('Coffee beans', 450);
+      await createTransaction('Coffee with Ana', 180);
+      await createTransaction('Groceries', 2300);
+
+      expect(await searchTitles('coffee')).toEqual(['Coffee beans', 'Coffee with Ana']);
+      expect(await searchTitles('COFFEE beans')).toEqual(['Coffee beans']);
+      expect(await searchTitles('"with ana"')).toEqual(['Coffee with Ana']);
+    });
+
+    it('should match category and wallet names', async () => {
+      const categoryResponse = await request(app)
+        .post('/api/categories')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Dining Out', type: 'Expense' })
+        .expect(201);
+
+      await createTransaction('Ramen', 380, categoryResponse.body.data.id);
+      await createTransaction('Bus fare', 15);
+
+      expect(await searchTitles('dining')).toEqual(['Ramen']);
+      expect(await searchTitles('travel')).toEqual(['Bus fare', 'Ramen']);
+    });
+
+    it('should filter by amount expressions', async () => {
+      await createTransaction('Coffee beans', 450);
+      await createTransaction('Coffee with Ana', 180);
+      await createTransaction('Groceries', 2300);
+
+      expect(await searchTitles('>1,000')).toEqual(['Groceries']);
+      expect(await searchTitles('coffee <=180')).toEqual(['Coffee with Ana']);
+      expect(await searchTitles('=450')).toEqual(['Coffee beans']);
+    });
+
+    it('should treat LIKE wildcards as plain text', async () => {
+      await createTransaction('Discount 50%', 100);
+      await createTransaction('Discount 500', 100);
+
+      expect(await searchTitles('50%')).toEqual(['Discount 50%']);
+    });
+
+    it('should apply the search to the summary', async () => {
+      await createTransaction('Coffee beans', 450);
+      await createTransaction('Groceries', 2300);
+
+      const response = await request(app)
+        .get('/api/transactions/summary')
+        .query({ q: 'coffee' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.totalExpense).toBeCloseTo(450);
+      expect(response.body.data.transactionCount).toBe(1);
+    });
+
+    it('should reject queries that are too long', async () => {
+      const response = await request(app)
+        .get('/api/transactions')
+        .query({ q: 'x'.repeat(201) })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_FAILED');
+    });
+  });
+
+  describe('Saved searches', () => {
+    it('should save, list, update and delete a search', async () => {
+      const createResponse = await request(app)
+        .post('/api/saved-searches')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Big trip spending', query: '>1000', wallet_id: testWalletId, type: 'Expense', tags: 'Trip, boracay' })
+        .expect(201);
+
+      const saved = createResponse.body.data;
+      expect(saved).toEqual(expect.objectContaining({
+        name: 'Big trip spending',
+        query: '>1000',
+        wallet_id: testWalletId,
+        category_id: null,
+        type: 'Expense',
+        tags: 'trip,boracay'
+      }));
+
+      const listResponse = await request(app)
+        .get('/api/saved-searches')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(listResponse.body.data).toHaveLength(1);
+
+      const updateResponse = await request(app)
+        .put(`/api/saved-searches/${saved.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ query: 'hotel', tags: null })
+        .expect(200);
+
+      expect(updateResponse.body.data).toEqual(expect.objectContaining({
+        name: 'Big trip spending',
+        query: 'hotel',
+        wallet_id: testWalletId,
+        tags: null
+      }));
+
+      await request(app)
+        .delete(`/api/saved-searches/${saved.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const emptyResponse = await request(app)
+        .get('/api/saved-searches')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(emptyResponse.body.data).toEqual([]);
+    });
+
+    it('should reject a duplicate name', async () => {
+      await request(app)
+        .post('/api/saved-searches')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Coffee', query: 'coffee' })
+        .expect(201);
+
+      const response = await request(app)
+        .post('/api/saved-searches')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Coffee', query: 'cafe' })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('SAVED_SEARCH_ALREADY_EXISTS');
+    });
+
+    it('should not save a search on a wallet the user cannot access', async () => {
+      const response = await request(app)
+        .post('/api/saved-searches')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Elsewhere', wallet_id: '00000000-0000-0000-0000-000000000000' })
+        .expect(404);
+
+      expect(response.body.error.code).toBe('RESOURCE_NOT_FOUND');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,216 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { WalletRepository } from '../repositories/WalletRepository';
+
+describe('Transaction Split Integration Tests', () => {
+  let userRepository: UserRepository;
+  let walletRepository: WalletRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+  let foodCategoryId: string;
+  let householdCategoryId: string;
+
+  const createCategory = async (name: string) => {
+    const response = await request(app)
+      .post('/api/categories')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name, type: 'Expense' })
+      .expect(201);
+
+    return response.body.data.id;
+  };
+
+  const createSplitTransaction = async () => {
+    const response = await request(app)
+      .post('/api/transactions')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        title: 'Puregold receipt',
+        amount: 100,
+        type: 'Expense',
+        wallet_id: testWalletId,
+        splits: [
+          { category_id: foodCategoryId, amount: 60.25, memo: 'Groceries' },
+          { category_id: householdCategoryId, amount: 39.75 }
+        ]
+      })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+    walletRepository = new WalletRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `splittest${timestamp}`,
+      email: `split${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    // Create a test wallet
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Split Wallet' });
+
+    testWalletId = walletResponse.body.data.id;
+
+    foodCategoryId = await createCategory('Food');
+    householdCategoryId = await createCategory('Household');
+  });
+
+  afterEach(async () => {
+    // Clean up test data (categories are removed with the user, splits with their transaction)
+    if (testWalletId) {
+      try {
+        await walletRepository.delete(testWalletId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testWalletId = '';
+    }
+
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('POST /api/transactions', () => {
+    it('should create a transaction split across categories', async () => {
+      const transaction = await createSplitTransaction();
+
+      expect(transaction.is_split).toBe(true);
+      expect(transaction.category_id).toBeNull();
+
+      const response = await request(app)
+        .get(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.splits).toEqual([
+        expect.objectContaining({ category_id: foodCategoryId, memo: 'Groceries', position: 0 }),
+        expect.objectContaining({ category_id: householdCategoryId, memo: null, position: 1 })
+      ]);
+    });
+
+    it('should reject splits that do not add up to the amount', async () => {
+      const response = await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          title: 'Puregold receipt',
+          amount: 100,
+          type: 'Expense',
+          wallet_id: testWalletId,
+          splits: [
+            { category_id: foodCategoryId, amount: 60 },
+            { category_id: householdCategoryId, amount: 30 }
+          ]
+        })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_SPLIT_TOTAL_MISMATCH');
+    });
+  });
+
+  describe('PUT /api/transactions/:id', () => {
+    it('should require the splits to follow an amount change', async () => {
+      const transaction = await createSplitTransaction();
+
+      const mismatchResponse = await request(app)
+        .put(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ amount: 120 })
+        .expect(400);
+
+      expect(mismatchResponse.body.error.code).toBe('VALIDATION_SPLIT_TOTAL_MISMATCH');
+
+      const response = await request(app)
+        .put(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          amount: 120,
+          splits: [
+            { category_id: foodCategoryId, amount: 80 },
+            { category_id: householdCategoryId, amount: 40 }
+          ]
+        })
+        .expect(200);
+
+      expect(response.body.data.splits.map((split: any) => Number(split.amount))).toEqual([80, 40]);
+    });
+
+    it('should remove the split when given a single category', async () => {
+      const transaction = await createSplitTransaction();
+
+      const response = await request(app)
+        .put(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ category_id: foodCategoryId, splits: null })
+        .expect(200);
+
+      expect(response.body.data.is_split).toBe(false);
+      expect(response.body.data.category_id).toBe(foodCategoryId);
+      expect(response.body.data.splits).toBeUndefined();
+    });
+  });
+
+  describe('Reports and budgets', () => {
+    it('should count split lines in the category breakdown', async () => {
+      await createSplitTransaction();
+
+      const response = await request(app)
+        .get('/api/dashboard/reports/category-breakdown')
+        .query({ wallet_id: testWalletId, type: 'Expense' })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const breakdown = response.body.data.breakdown;
+      expect(breakdown).toHaveLength(2);
+      expect(breakdown.find((item: any) => item.category_id === foodCategoryId).total_amount).toBeCloseTo(60.25);
+      expect(breakdown.find((item: any) => item.category_id === householdCategoryId).total_amount).toBeCloseTo(39.75);
+      expect(breakdown.find((item: any) => item.category_id === null)).toBeUndefined();
+    });
+
+    it('should count split lines against category budgets', async () => {
+      await createSplitTransaction();
+
+      const currentDate = new Date();
+      const currentMonth = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
+
+      const budgetResponse = await request(app)
+        .post('/api/budgets')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId, month: currentMonth, limit: 500, category_id: householdCategoryId })
+        .expect(201);
+
+      const statusResponse = await request(app)
+        .get(`/api/budgets/${budgetResponse.body.data.id}/status`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(statusResponse.body.data.total_spent).toBeCloseTo(39.75);
+    });
+  });
+});
\ No newline at end of file
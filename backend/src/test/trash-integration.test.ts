@@ -0,0 +1,294 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { TrashService } from '../services/TrashService';
+
+describe('Trash Integration Tests', () => {
+  let userRepository: UserRepository;
+  let testUserId: string;
+  let authToken: string;
+  let testWalletId: string;
+  let secondWalletId: string;
+
+  const createTransaction = async (title: string, walletId: string = testWalletId) => {
+    const response = await request(app)
+      .post('/api/transactions')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title, amount: 100, type: 'Expense', wallet_id: walletId })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  const getTrash = async () => {
+    const response = await request(app)
+      .get('/api/trash')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    return response.body.data;
+  };
+
+  const restore = (type: string, id: string) => {
+    return request(app)
+      .post(`/api/trash/${type}/${id}/restore`)
+      .set('Authorization', `Bearer ${authToken}`);
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+  });
+
+  beforeEach(async () => {
+    // Create a test user and get auth token
+    const timestamp = Date.now();
+    const userData = {
+      username: `trashtest${timestamp}`,
+      email: `trash${timestamp}@example.com`,
+      password: 'TestPassword123!',
+      confirmPassword: 'TestPassword123!'
+    };
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send(userData);
+
+    testUserId = registerResponse.body.data.user.id;
+    authToken = registerResponse.body.data.token;
+
+    // Create two test wallets
+    const walletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Trash Wallet' });
+
+    testWalletId = walletResponse.body.data.id;
+
+    const secondWalletResponse = await request(app)
+      .post('/api/wallets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Second Trash Wallet' });
+
+    secondWalletId = secondWalletResponse.body.data.id;
+  });
+
+  afterEach(async () => {
+    // Clean up test data (wallets and everything in them are removed with the user)
+    if (testUserId) {
+      try {
+        await userRepository.delete(testUserId);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+      testUserId = '';
+    }
+  });
+
+  describe('Transactions', () => {
+    it('should move a deleted transaction to the trash and restore it', async () => {
+      const transaction = await createTransaction('Coffee');
+
+      await request(app)
+        .delete(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      await request(app)
+        .get(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+
+      const trash = await getTrash();
+      expect(trash).toHaveLength(1);
+      expect(trash[0]).toMatchObject({ type: 'transaction', id: transaction.id, name: 'Coffee', wallet_id: testWalletId });
+      expect(new Date(trash[0].purge_at).getTime()).toBeGreaterThan(new Date(trash[0].deleted_at).getTime());
+
+      await restore('transaction', transaction.id).expect(200);
+
+      await request(app)
+        .get(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(await getTrash()).toEqual([]);
+    });
+
+    it('should restore both legs of a transfer', async () => {
+      const transferResponse = await request(app)
+        .post('/api/transactions/transfers')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ from_wallet_id: testWalletId, to_wallet_id: secondWalletId, amount: 250 })
+        .expect(201);
+      const { outgoing, incoming } = transferResponse.body.data;
+
+      await request(app)
+        .delete(`/api/transactions/${incoming.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      // Listed once, by the outgoing leg
+      const trash = await getTrash();
+      expect(trash.map((item: any) => item.id)).toEqual([outgoing.id]);
+
+      await restore('transaction', incoming.id).expect(200);
+
+      for (const id of [outgoing.id, incoming.id]) {
+        await request(app)
+          .get(`/api/transactions/${id}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .expect(200);
+      }
+    });
+  });
+
+  describe('Wallets', () => {
+    it('should trash a wallet with its contents and bring them back together', async () => {
+      const transaction = await createTransaction('Groceries', secondWalletId);
+
+      await request(app)
+        .delete(`/api/wallets/${secondWalletId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      // Only the wallet is listed; its transaction comes back with it
+      const trash = await getTrash();
+      expect(trash).toHaveLength(1);
+      expect(trash[0]).toMatchObject({ type: 'wallet', id: secondWalletId });
+
+      await request(app)
+        .get(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+
+      await restore('wallet', secondWalletId).expect(200);
+
+      await request(app)
+        .get(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+    });
+
+    it('should refuse to restore a transaction into a wallet in the trash', async () => {
+      const transaction = await createTransaction('Taxi', secondWalletId);
+
+      await request(app)
+        .delete(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      await request(app)
+        .delete(`/api/wallets/${secondWalletId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const response = await restore('transaction', transaction.id).expect(409);
+      expect(response.body.error.code).toBe('TRASH_PARENT_DELETED');
+
+      // The transaction was trashed before its wallet, so it stays in the trash
+      await restore('wallet', secondWalletId).expect(200);
+      await restore('transaction', transaction.id).expect(200);
+    });
+  });
+
+  describe('Categories', () => {
+    it('should not restore a category over one with the same name', async () => {
+      const createCategory = async () => {
+        const response = await request(app)
+          .post('/api/categories')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ name: 'Dining', type: 'Expense' })
+          .expect(201);
+        return response.body.data.id;
+      };
+
+      const categoryId = await createCategory();
+      await request(app)
+        .delete(`/api/categories/${categoryId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      await createCategory();
+
+      const response = await restore('category', categoryId).expect(409);
+      expect(response.body.error.code).toBe('TRASH_RESTORE_CONFLICT');
+    });
+
+    it('should treat transactions in a trashed category as uncategorized', async () => {
+      const createCategory = async (name: string) => {
+        const response = await request(app)
+          .post('/api/categories')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ name, type: 'Expense' })
+          .expect(201);
+        return response.body.data.id;
+      };
+
+      const diningId = await createCategory('Dining');
+      const groceriesId = await createCategory('Groceries');
+      const transactionResponse = await request(app)
+        .post('/api/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Puregold Cubao', amount: 100, type: 'Expense', wallet_id: testWalletId, category_id: diningId })
+        .expect(201);
+      const transaction = transactionResponse.body.data;
+
+      await request(app)
+        .delete(`/api/categories/${diningId}?force=true`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const uncategorizedResponse = await request(app)
+        .get('/api/categories/uncategorized/transactions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(uncategorizedResponse.body.data.map((row: any) => row.id)).toEqual([transaction.id]);
+
+      // Rule runs pick it up as well
+      await request(app)
+        .post('/api/category-rules')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Puregold', category_id: groceriesId, title_pattern: 'puregold' })
+        .expect(201);
+
+      const applyResponse = await request(app)
+        .post('/api/category-rules/apply')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ wallet_id: testWalletId })
+        .expect(200);
+
+      expect(applyResponse.body.data.updated_count).toBe(1);
+
+      const updatedResponse = await request(app)
+        .get(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(updatedResponse.body.data.category_id).toBe(groceriesId);
+    });
+  });
+
+  describe('Purge', () => {
+    it('should permanently remove items past the retention window', async () => {
+      const transaction = await createTransaction('Lunch');
+
+      await request(app)
+        .delete(`/api/transactions/${transaction.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      // Nothing is old enough yet
+      await new TrashService().purgeExpired();
+      expect(await getTrash()).toHaveLength(1);
+
+      const later = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+      const purged = await new TrashService().purgeExpired(later);
+      expect(purged.transactions).toBeGreaterThanOrEqual(1);
+
+      expect(await getTrash()).toEqual([]);
+      await restore('transaction', transaction.id).expect(404);
+    });
+
+    it('should reject an unknown item type', async () => {
+      const response = await restore('goal', testWalletId).expect(400);
+      expect(response.body.error.code).toBe('VALIDATION_FAILED');
+    });
+  });
+});
\ No newline at end of file
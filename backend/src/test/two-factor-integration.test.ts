@@ -0,0 +1,315 @@
+import request from 'supertest';
+import app from '../index';
+import { UserRepository } from '../repositories/UserRepository';
+import { AppSettingRepository } from '../repositories/AppSettingRepository';
+import { generateTotp, totpStep, verifyTotp } from '../utils/totp';
+
+describe('Two-Factor Authentication Integration Tests', () => {
+  let userRepository: UserRepository;
+  let testUserId: string;
+  let testEmail: string;
+  let authToken: string;
+  let otherUserId: string;
+
+  const registerUser = async (prefix: string) => {
+    const timestamp = Date.now();
+    const email = `${prefix}${timestamp}@example.com`;
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        username: `${prefix}${timestamp}`,
+        email,
+        password: 'TestPassword123!',
+        confirmPassword: 'TestPassword123!'
+      });
+
+    return { id: response.body.data.user.id as string, email, token: response.body.data.token as string };
+  };
+
+  const login = (email: string) => {
+    return request(app)
+      .post('/api/auth/login')
+      .send({ emailOrUsername: email, password: 'TestPassword123!' })
+      .expect(200);
+  };
+
+  // Each code works once, so later steps use the next period's code, which is accepted for clock drift
+  const codeFor = (secret: string, offset: number = 0) => generateTotp(secret, totpStep() + offset);
+
+  // Turn two-factor on and return the secret and recovery codes
+  const enableTwoFactor = async (token: string) => {
+    const setupResponse = await request(app)
+      .post('/api/auth/2fa/setup')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    const { secret } = setupResponse.body.data;
+    const enableResponse = await request(app)
+      .post('/api/auth/2fa/enable')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ code: codeFor(secret) })
+      .expect(200);
+
+    return { secret: secret as string, recoveryCodes: enableResponse.body.data.recoveryCodes as string[] };
+  };
+
+  beforeAll(() => {
+    userRepository = new UserRepository();
+  });
+
+  beforeEach(async () => {
+    const user = await registerUser('twofactor');
+    testUserId = user.id;
+    testEmail = user.email;
+    authToken = user.token;
+  });
+
+  afterEach(async () => {
+    for (const userId of [testUserId, otherUserId]) {
+      if (userId) {
+        try {
+          await userRepository.delete(userId);
+        } catch (error) {
+          // Ignore cleanup errors
+        }
+      }
+    }
+    testUserId = '';
+    otherUserId = '';
+  });
+
+  describe('TOTP codes', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      // The ASCII secret "12345678901234567890" in base32
+      const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+      expect(generateTotp(secret, totpStep(59 * 1000))).toBe('287082');
+      expect(generateTotp(secret, totpStep(1111111109 * 1000))).toBe('081804');
+      expect(generateTotp(secret, totpStep(20000000000 * 1000))).toBe('353130');
+    });
+
+    it('should accept codes from the neighbouring periods only', () => {
+      const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+      const now = 1111111109 * 1000;
+      const step = totpStep(now);
+
+      expect(verifyTotp(secret, generateTotp(secret, step - 1), now)).toBe(step - 1);
+      expect(verifyTotp(secret, generateTotp(secret, step + 1), now)).toBe(step + 1);
+      expect(verifyTotp(secret, generateTotp(secret, step + 2), now)).toBeNull();
+      expect(verifyTotp(secret, 'abcdef', now)).toBeNull();
+    });
+  });
+
+  describe('Enrollment', () => {
+    it('should turn two-factor on once a code from the app is confirmed', async () => {
+      const setupResponse = await request(app)
+        .post('/api/auth/2fa/setup')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const { secret, otpauthUrl } = setupResponse.body.data;
+      expect(otpauthUrl).toMatch(/^otpauth:\/\/totp\/Cashly/);
+      expect(otpauthUrl).toContain(`secret=${secret}`);
+
+      const wrongResponse = await request(app)
+        .post('/api/auth/2fa/enable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code: codeFor(secret, 5) })
+        .expect(400);
+      expect(wrongResponse.body.error.code).toBe('AUTH_TWO_FACTOR_CODE_INVALID');
+
+      const enableResponse = await request(app)
+        .post('/api/auth/2fa/enable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code: codeFor(secret) })
+        .expect(200);
+      expect(enableResponse.body.data.recoveryCodes).toHaveLength(10);
+
+      const statusResponse = await request(app)
+        .get('/api/auth/2fa')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(statusResponse.body.data).toMatchObject({ enabled: true, recovery_codes_remaining: 10, required: false });
+
+      // The secret never leaves the server again
+      const meResponse = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(meResponse.body.data.two_factor_enabled_at).not.toBeNull();
+      expect(meResponse.body.data.two_factor_secret).toBeUndefined();
+    });
+
+    it('should not start a new setup while two-factor is on', async () => {
+      await enableTwoFactor(authToken);
+
+      await request(app)
+        .post('/api/auth/2fa/setup')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(409);
+    });
+  });
+
+  describe('POST /api/auth/login/2fa', () => {
+    it('should ask for a code after the password and start the session once it is given', async () => {
+      const { secret } = await enableTwoFactor(authToken);
+
+      const loginResponse = await login(testEmail);
+      expect(loginResponse.body.data.twoFactorRequired).toBe(true);
+      expect(loginResponse.body.data.token).toBeUndefined();
+
+      const { challengeToken } = loginResponse.body.data;
+
+      // The challenge is not an access token
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${challengeToken}`)
+        .expect(401);
+
+      const wrongResponse = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken, code: codeFor(secret, 5) })
+        .expect(401);
+      expect(wrongResponse.body.error.code).toBe('AUTH_TWO_FACTOR_CODE_INVALID');
+
+      const code = codeFor(secret, 1);
+      const response = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken, code })
+        .expect(200);
+      expect(response.body.data.token).toBeDefined();
+      expect(response.body.data.refreshToken).toBeDefined();
+
+      // A code cannot be used twice
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken, code })
+        .expect(401);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enableTwoFactor(authToken);
+      const { challengeToken } = (await login(testEmail)).body.data;
+
+      const response = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken, code: recoveryCodes[0].toUpperCase() })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken, code: recoveryCodes[0] })
+        .expect(401);
+
+      const statusResponse = await request(app)
+        .get('/api/auth/2fa')
+        .set('Authorization', `Bearer ${response.body.data.token}`)
+        .expect(200);
+      expect(statusResponse.body.data.recovery_codes_remaining).toBe(9);
+    });
+
+    it('should reject made-up challenge tokens', async () => {
+      const response = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: authToken, code: '123456' })
+        .expect(401);
+      expect(response.body.error.code).toBe('AUTH_CHALLENGE_INVALID');
+    });
+  });
+
+  describe('Managing two-factor', () => {
+    it('should replace the recovery codes', async () => {
+      const { secret, recoveryCodes } = await enableTwoFactor(authToken);
+
+      const response = await request(app)
+        .post('/api/auth/2fa/recovery-codes')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code: codeFor(secret, 1) })
+        .expect(200);
+      expect(response.body.data.recoveryCodes).toHaveLength(10);
+
+      const { challengeToken } = (await login(testEmail)).body.data;
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken, code: recoveryCodes[0] })
+        .expect(401);
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken, code: response.body.data.recoveryCodes[0] })
+        .expect(200);
+    });
+
+    it('should turn two-factor off with the password and a code', async () => {
+      const { recoveryCodes } = await enableTwoFactor(authToken);
+
+      await request(app)
+        .post('/api/auth/2fa/disable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ password: 'WrongPassword123!', code: recoveryCodes[0] })
+        .expect(400);
+
+      await request(app)
+        .post('/api/auth/2fa/disable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ password: 'TestPassword123!', code: recoveryCodes[0] })
+        .expect(200);
+
+      const loginResponse = await login(testEmail);
+      expect(loginResponse.body.data.token).toBeDefined();
+    });
+  });
+
+  describe('Requiring two-factor for admins', () => {
+    const appSettingRepository = new AppSettingRepository();
+
+    afterEach(async () => {
+      await appSettingRepository.setValue('require_admin_two_factor', false, null);
+    });
+
+    it('should keep admins without two-factor out of the admin area once required', async () => {
+      const otherUser = await registerUser('twofactoradmin');
+      otherUserId = otherUser.id;
+      await userRepository.update(testUserId, { role: 'admin' });
+      await userRepository.update(otherUserId, { role: 'admin' });
+
+      // Admin tokens carry the role, so log in again after the promotion
+      const adminToken = (await login(testEmail)).body.data.token;
+      const otherAdminToken = (await login(otherUser.email)).body.data.token;
+
+      // An admin must turn it on for themselves before requiring it
+      const refusedResponse = await request(app)
+        .put('/api/admin/settings/security')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ require_admin_two_factor: true })
+        .expect(409);
+      expect(refusedResponse.body.error.code).toBe('SETTINGS_TWO_FACTOR_NOT_ENABLED');
+
+      const { recoveryCodes } = await enableTwoFactor(adminToken);
+
+      const response = await request(app)
+        .put('/api/admin/settings/security')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ require_admin_two_factor: true })
+        .expect(200);
+      expect(response.body.data.require_admin_two_factor).toBe(true);
+
+      const blockedResponse = await request(app)
+        .get('/api/admin/users')
+        .set('Authorization', `Bearer ${otherAdminToken}`)
+        .expect(403);
+      expect(blockedResponse.body.error.code).toBe('AUTH_TWO_FACTOR_REQUIRED');
+
+      await request(app)
+        .get('/api/admin/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      // Nor can an admin turn it off while it is required
+      await request(app)
+        .post('/api/auth/2fa/disable')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ password: 'TestPassword123!', code: recoveryCodes[0] })
+        .expect(403);
+    });
+  });
+});
\ No newline at end of file
@@ -6,6 +6,12 @@ export interface User {
   password_hash: string;
   role: 'user' | 'admin';
   wallet_limit: number;
+  base_currency?: string; // ISO 4217 code the dashboard reports in, PHP by default
+  email_verified_at?: Date | null; // Null until the user opens the link sent to their email
+  two_factor_secret?: string | null; // Never sent to clients
+  two_factor_enabled_at?: Date | null;
+  two_factor_last_step?: number | null;
+  locked_until?: Date | null; // Set while the account is locked after failed logins
   created_at: Date;
   updated_at: Date;
 }
@@ -17,8 +23,10 @@ export interface Wallet {
   name: string;
   is_default: boolean;
   is_family: boolean;
+  currency: string; // ISO 4217 code
   created_at: Date;
   updated_at: Date;
+  deleted_at?: Date | null; // Set while it is in the trash
 }
 
 // Category types
@@ -30,6 +38,7 @@ export interface Category {
   type: 'Income' | 'Expense';
   created_at: Date;
   updated_at: Date;
+  deleted_at?: Date | null; // Set while it is in the trash
 }
 
 // Transaction types
@@ -39,23 +48,197 @@ export interface Transaction {
   wallet_id: string;
   category_id: string | null;
   title: string;
+  notes?: string | null;
   amount: number;
-  type: 'Income' | 'Expense';
+  currency?: string | null; // Null when the amount is in the wallet's currency
+  type: 'Income' | 'Expense' | 'Transfer';
+  transaction_date: string; // YYYY-MM-DD
+  transfer_id?: string | null; // Shared by both legs of a transfer
+  transfer_direction?: 'Outgoing' | 'Incoming' | null;
+  recurring_transaction_id?: string | null; // Rule that posted this transaction
+  recurrence_date?: string | null; // YYYY-MM-DD
+  external_id?: string | null; // Bank transaction id (OFX FITID) when imported from a statement
+  is_split?: boolean; // Categorized by its split lines rather than category_id
+  savings_goal_id?: string | null; // Goal this income or expense contributes to or withdraws from
+  splits?: TransactionSplit[]; // Attached when reading split transactions, never stored on the row
+  tags?: string[]; // Tag names, attached when reading transactions
+  attachments?: TransactionAttachment[]; // Attached when reading transactions
   created_by: string;
   created_at: Date;
   updated_at: Date;
   is_migrated?: boolean;
+  deleted_at?: Date | null; // Set while it is in the trash
   legacy_id?: string;
 }
 
+export interface TransactionAttachment {
+  id: string;
+  transaction_id: string;
+  uploaded_by: string;
+  file_name: string;
+  content_type: string;
+  size: number; // Bytes
+  storage_key: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TransactionSplit {
+  id: string;
+  transaction_id: string;
+  category_id: string | null;
+  amount: number;
+  memo: string | null;
+  position: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Tag types
+export interface Tag {
+  id: string;
+  user_id: string;
+  name: string; // Trimmed and lowercased, unique per user
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TransactionTag {
+  transaction_id: string;
+  tag_id: string;
+}
+
+export interface TagWithUsage extends Tag {
+  transaction_count: number;
+}
+
+export interface UpdateTagRequest {
+  name: string;
+}
+
+// Saved search types
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string | null; // Free-text search, see utils/transactionSearch
+  wallet_id: string | null;
+  category_id: string | null;
+  type: 'Income' | 'Expense' | 'Transfer' | null;
+  start_date: string | null; // YYYY-MM-DD
+  end_date: string | null; // YYYY-MM-DD
+  tags: string | null; // Comma-separated tag names
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateSavedSearchRequest {
+  name: string;
+  query?: string | null;
+  wallet_id?: string | null;
+  category_id?: string | null;
+  type?: 'Income' | 'Expense' | 'Transfer' | null;
+  start_date?: string | null; // YYYY-MM-DD
+  end_date?: string | null; // YYYY-MM-DD
+  tags?: string | null;
+}
+
+// Null clears a criterion; omitted fields are left as they are
+export type UpdateSavedSearchRequest = Partial<CreateSavedSearchRequest>;
+
+// Exchange rate types
+export interface ExchangeRate {
+  id: string;
+  user_id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number; // Units of to_currency for one unit of from_currency
+  rate_date: string; // YYYY-MM-DD
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateExchangeRateRequest {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  rate_date: string; // YYYY-MM-DD
+}
+
+export interface ExchangeRateImportRequest {
+  content: string; // CSV with date (YYYY-MM-DD), from, to and rate columns
+  has_header?: boolean; // Defaults to true
+}
+
+export interface ParsedExchangeRateRow {
+  row_number: number;
+  rate_date: string; // YYYY-MM-DD
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+}
+
+export interface ExchangeRateImportPreview {
+  total_rows: number;
+  rows: ParsedExchangeRateRow[];
+  errors: ImportRowError[];
+}
+
+export interface ExchangeRateImportResult {
+  status: 'completed' | 'failed';
+  total_rows: number;
+  imported_records: number; // Rates added or replaced
+  errors: ImportRowError[];
+}
+
 // Budget types
 export interface Budget {
   id: string;
   wallet_id: string;
+  category_id: string | null;
   month: string;
   limit: number;
   created_at: Date;
   updated_at: Date;
+  deleted_at?: Date | null; // Set while it is in the trash
+}
+
+// Savings goal types
+export interface SavingsGoal {
+  id: string;
+  user_id: string;
+  wallet_id: string;
+  name: string;
+  target_amount: number;
+  start_date: string; // YYYY-MM-DD
+  target_date: string; // YYYY-MM-DD
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Loan types
+export interface Loan {
+  id: string;
+  user_id: string;
+  wallet_id: string;
+  reminder_id: string | null;
+  name: string;
+  principal: number;
+  annual_rate: number; // APR as a percentage
+  term_months: number;
+  start_date: string; // YYYY-MM-DD
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LoanPayment {
+  id: string;
+  loan_id: string;
+  transaction_id: string;
+  principal_amount: number;
+  interest_amount: number;
+  created_at: Date;
+  updated_at: Date;
 }
 
 // Reminder types
@@ -66,10 +249,61 @@ export interface Reminder {
   title: string;
   amount: number;
   type: 'Payment' | 'Receivable';
-  due_date: Date;
+  due_date: string; // YYYY-MM-DD
+  recurrence: 'once' | 'daily' | 'weekly' | 'monthly' | 'custom';
+  recurrence_interval: number | null;
+  duration_end: string | null; // YYYY-MM-DD
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at?: Date | null; // Set while it is in the trash
+}
+
+export interface ReminderSettlement {
+  id: string;
+  reminder_id: string;
+  occurrence_date: string; // YYYY-MM-DD
+  status: 'paid' | 'skipped';
+  transaction_id: string | null; // Transaction recorded when the occurrence was paid
+  settled_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Recurring transaction types
+export interface RecurringTransaction {
+  id: string;
+  user_id: string;
+  wallet_id: string;
+  category_id: string | null;
+  title: string;
+  amount: number;
+  type: 'Income' | 'Expense';
+  start_date: string; // YYYY-MM-DD
   recurrence: 'once' | 'daily' | 'weekly' | 'monthly' | 'custom';
   recurrence_interval: number | null;
-  duration_end: Date | null;
+  duration_end: string | null; // YYYY-MM-DD
+  last_posted_date: string | null; // YYYY-MM-DD
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Category rule types
+export type CategoryRuleMatchType = 'contains' | 'regex';
+
+export interface CategoryRule {
+  id: string;
+  user_id: string;
+  wallet_id: string | null; // Null applies the rule to every wallet of its owner
+  category_id: string;
+  name: string;
+  title_pattern: string | null;
+  match_type: CategoryRuleMatchType;
+  min_amount: number | null;
+  max_amount: number | null;
+  type: 'Income' | 'Expense';
+  priority: number;
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
@@ -110,6 +344,7 @@ export interface JWTPayload {
   userId: string;
   email: string;
   role: 'user' | 'admin';
+  sessionId?: string; // The session the token was issued for, checked on every request
   iat?: number;
   exp?: number;
 }
@@ -135,8 +370,136 @@ export interface AuthResponse {
     email: string;
     role: 'user' | 'admin';
     wallet_limit: number;
+    base_currency: string;
+    email_verified_at: Date | null;
+    two_factor_enabled_at: Date | null;
   };
+  token: string; // Short-lived access token
+  refreshToken: string; // Long-lived, single-use token for getting the next access token
+}
+
+// First step of a login with two-factor authentication: the password was right, a code is still needed
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string; // Short-lived, only good for POST /api/auth/login/2fa
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: Date | null;
+  recovery_codes_remaining: number;
+  required: boolean; // Whether the user's role must use two-factor authentication
+}
+
+export interface UserRecoveryCode {
+  id: string;
+  user_id: string;
+  code_hash: string;
+  used_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AppSetting {
+  key: string;
+  value: unknown;
+  updated_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SecuritySettings {
+  require_admin_two_factor: boolean;
+}
+
+// Login throttling types
+export type LoginFailureScope = 'account' | 'ip';
+
+export interface LoginFailure {
+  scope: LoginFailureScope;
+  key: string; // User id for an account, the address for an IP
+  failed_count: number; // Failures since the last lock, forgotten after a quiet window
+  last_failed_at: Date;
+  retry_after: Date | null;
+  locked_until: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type SecurityEventType = 'account_locked' | 'account_unlocked' | 'ip_locked' | 'access_violation';
+
+export interface SecurityEvent {
+  id: string;
+  event_type: SecurityEventType;
+  user_id: string | null;
+  ip_address: string | null;
+  details: Record<string, unknown> | null;
+  created_at: Date;
+}
+
+export interface TokenPair {
   token: string;
+  refreshToken: string;
+}
+
+// Stored refresh token; only a hash of the token itself is kept
+export interface RefreshToken {
+  id: string;
+  user_id: string;
+  family_id: string; // The session the token belongs to
+  token_hash: string;
+  expires_at: Date;
+  revoked_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Where a login came from, recorded on its session
+export interface SessionClient {
+  user_agent?: string | null;
+  ip_address?: string | null;
+}
+
+export interface UserSession {
+  id: string;
+  user_id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  last_seen_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UserSessionResponse {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_seen_at: Date;
+  current: boolean; // Whether this is the session making the request
+}
+
+// Single-use email link types
+export type UserTokenPurpose = 'password_reset' | 'email_verification';
+
+export interface UserToken {
+  id: string;
+  user_id: string;
+  purpose: UserTokenPurpose;
+  token_hash: string; // SHA-256 of the token in the link, which is never stored
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
 }
 
 // User management request types
@@ -153,6 +516,7 @@ export interface UpdateUserRequest {
   email?: string;
   role?: 'user' | 'admin';
   wallet_limit?: number;
+  base_currency?: string;
 }
 
 export interface ResetPasswordRequest {
@@ -163,10 +527,12 @@ export interface ResetPasswordRequest {
 export interface CreateWalletRequest {
   name: string;
   is_family?: boolean;
+  currency?: string; // Defaults to the user's base currency
 }
 
 export interface UpdateWalletRequest {
   name?: string;
+  currency?: string; // Only while the wallet has no transactions
 }
 
 // Category management request types
@@ -181,33 +547,185 @@ export interface UpdateCategoryRequest {
   type?: 'Income' | 'Expense';
 }
 
+export interface CategorySuggestionQuery {
+  title: string;
+  type?: 'Income' | 'Expense';
+  wallet_id?: string;
+}
+
+export interface CategorySuggestion {
+  category_id: string;
+  name: string;
+  type: 'Income' | 'Expense';
+  confidence: number;
+}
+
 // Transaction management request types
 export interface CreateTransactionRequest {
   title: string;
+  notes?: string | null;
   amount: number;
   type: 'Income' | 'Expense';
   wallet_id?: string;
   category_id?: string | null;
+  transaction_date?: string; // ISO date string, defaults to today
+  currency?: string; // Defaults to the wallet's currency
+  splits?: TransactionSplitRequest[]; // Split lines, which must add up to the amount
+  savings_goal_id?: string | null;
+  tags?: string[]; // Tag names, created on first use
 }
 
 export interface UpdateTransactionRequest {
   title?: string;
+  notes?: string | null; // Null or an empty string clears the notes
   amount?: number;
   type?: 'Income' | 'Expense';
   wallet_id?: string;
   category_id?: string | null;
+  transaction_date?: string; // ISO date string
+  currency?: string | null; // Null resets the amount to the wallet's currency
+  splits?: TransactionSplitRequest[] | null; // Replaces the split lines; null or [] removes the split
+  savings_goal_id?: string | null; // Null removes the transaction from its goal
+  tags?: string[]; // Replaces the transaction's tags; [] removes them all
+}
+
+export interface TransactionSplitRequest {
+  category_id?: string | null;
+  amount: number;
+  memo?: string | null;
+}
+
+export interface CreateTransferRequest {
+  from_wallet_id: string;
+  to_wallet_id: string;
+  amount: number;
+  title?: string; // Defaults to "Transfer"
+  notes?: string | null;
+  transaction_date?: string; // ISO date string, defaults to today
+}
+
+export interface CreateAttachmentRequest {
+  file_name: string;
+  content: string; // Base64, optionally as a data URL
+}
+
+export interface TransferResult {
+  transfer_id: string;
+  outgoing: Transaction;
+  incoming: Transaction;
+}
+
+// Transaction import types
+export interface ImportColumnMapping {
+  date: number; // Zero-based column indexes
+  description: number;
+  amount?: number; // Signed amount, negative values are imported as expenses
+  debit?: number; // Money out, imported as expenses
+  credit?: number; // Money in, imported as income
+}
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export type ImportDecimalSeparator = '.' | ','; // The other one is taken as the thousands separator
+
+export type ImportFileFormat = 'csv' | 'ofx' | 'qif'; // QFX files are imported as OFX
+
+export interface TransactionImportRequest {
+  wallet_id: string;
+  content: string; // Raw file contents
+  format?: ImportFileFormat; // Defaults to csv
+  mapping?: ImportColumnMapping; // Required for CSV files only
+  has_header?: boolean; // CSV only, defaults to true
+  date_format?: ImportDateFormat; // CSV defaults to YYYY-MM-DD, QIF to MM/DD/YYYY
+  decimal_separator?: ImportDecimalSeparator; // CSV only, defaults to .
+  category_id?: string | null; // Applied to every imported transaction
+  skip_duplicates?: boolean; // Defaults to true
+}
+
+export interface ImportRowError {
+  row_number: number; // 1-based CSV row counting the header, or the n-th OFX/QIF transaction
+  error: string;
+}
+
+export interface ParsedImportRow {
+  row_number: number;
+  transaction_date: string; // YYYY-MM-DD
+  title: string;
+  amount: number;
+  type: 'Income' | 'Expense';
+  external_id: string | null; // OFX FITID, null for formats without bank ids
+}
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: ParsedImportRow[];
+  errors: ImportRowError[];
+}
+
+export interface ImportPreviewRow extends ParsedImportRow {
+  duplicate_of: string | null; // Existing transaction this row likely duplicates
+  already_imported: boolean; // duplicate_of was imported with the same bank id, so the row is always skipped
+  category_id: string | null; // The import's category, or the one assigned by the first matching rule
+}
+
+export interface ImportPreviewResult {
+  headers: string[];
+  total_rows: number;
+  rows: ImportPreviewRow[];
+  errors: ImportRowError[];
+}
+
+export interface ImportResult {
+  status: 'completed' | 'failed';
+  total_rows: number;
+  imported_records: number;
+  skipped_duplicates: number;
+  errors: ImportRowError[];
 }
 
 export interface TransactionQueryParams {
   wallet_id?: string;
   category_id?: string;
-  type?: 'Income' | 'Expense';
+  type?: 'Income' | 'Expense' | 'Transfer';
   start_date?: string;
   end_date?: string;
+  tags?: string; // Comma-separated tag names, all of which must be on the transaction
+  q?: string; // Free-text search, see utils/transactionSearch
   page?: string;
   limit?: string;
 }
 
+// Bulk requests act on the listed transactions, or on every transaction matching a list filter
+export interface BulkTransactionSelection {
+  ids?: string[];
+  filter?: Omit<TransactionQueryParams, 'page' | 'limit'>;
+}
+
+export interface BulkTransactionChanges {
+  category_id?: string | null;
+  wallet_id?: string;
+  type?: 'Income' | 'Expense';
+}
+
+export interface BulkUpdateTransactionsRequest extends BulkTransactionSelection {
+  changes: BulkTransactionChanges;
+}
+
+export type BulkDeleteTransactionsRequest = BulkTransactionSelection;
+
+export interface BulkTransactionItemResult {
+  id: string;
+  status: 'updated' | 'deleted' | 'failed';
+  error?: string; // Error code of a failed item
+}
+
+export interface BulkTransactionResult {
+  matched: number;
+  succeeded: number;
+  failed: number;
+  results: BulkTransactionItemResult[];
+}
+
 export interface TransactionSummary {
   totalIncome: number;
   totalExpense: number;
@@ -218,6 +736,7 @@ export interface TransactionSummary {
 // Budget management request types
 export interface CreateBudgetRequest {
   wallet_id: string;
+  category_id?: string | null; // Omit for a wallet-level budget
   month: string; // Format: YYYY-MM
   limit: number;
 }
@@ -232,6 +751,110 @@ export interface BudgetStatus {
   remaining: number;
   percentage_used: number;
   status: 'green' | 'yellow' | 'orange' | 'red';
+  missing_rate_currencies: string[]; // Left out of total_spent for lack of a rate to the wallet's currency
+}
+
+// Savings goal request types
+export interface CreateSavingsGoalRequest {
+  wallet_id: string;
+  name: string;
+  target_amount: number;
+  target_date: string; // YYYY-MM-DD
+  start_date?: string; // YYYY-MM-DD, defaults to today
+}
+
+export interface UpdateSavingsGoalRequest {
+  name?: string;
+  target_amount?: number;
+  target_date?: string; // YYYY-MM-DD
+  start_date?: string; // YYYY-MM-DD
+}
+
+export interface SavingsGoalProgress {
+  goal: SavingsGoal;
+  currency: string; // Currency of the goal's wallet
+  saved_amount: number;
+  remaining_amount: number;
+  percentage_saved: number;
+  expected_amount: number; // What should have been saved by today to finish on the target date
+  required_monthly_contribution: number; // Needed from now on to finish on the target date
+  average_monthly_contribution: number;
+  projected_completion_date: string | null; // YYYY-MM-DD at the average pace, null when nothing is being saved
+  on_track: boolean;
+  status: 'green' | 'yellow' | 'orange' | 'red';
+}
+
+// Loan request types
+export interface CreateLoanRequest {
+  wallet_id: string;
+  name: string;
+  principal: number;
+  annual_rate: number;
+  term_months: number;
+  start_date: string; // YYYY-MM-DD
+  create_reminder?: boolean; // Add a monthly Payment reminder for the scheduled payment
+}
+
+export interface UpdateLoanRequest {
+  name?: string;
+  principal?: number;
+  annual_rate?: number;
+  term_months?: number;
+  start_date?: string; // YYYY-MM-DD
+}
+
+// Either links an existing expense or records a new one in the loan's wallet
+export interface CreateLoanPaymentRequest {
+  transaction_id?: string;
+  amount?: number;
+  payment_date?: string; // YYYY-MM-DD, defaults to today
+  category_id?: string | null;
+}
+
+export interface AmortizationRow {
+  period: number;
+  payment_date: string; // YYYY-MM-DD
+  payment: number; // Scheduled payment plus any extra
+  principal: number;
+  interest: number;
+  extra_payment: number;
+  balance: number; // Remaining after this payment
+}
+
+export interface AmortizationSchedule {
+  monthly_payment: number;
+  rows: AmortizationRow[];
+  total_interest: number;
+  total_paid: number;
+  payoff_date: string | null; // Null when the payment never covers the interest
+}
+
+export interface LoanSummary {
+  loan: Loan;
+  currency: string; // Currency of the loan's wallet
+  monthly_payment: number;
+  payments_made: number;
+  principal_paid: number;
+  interest_paid: number;
+  remaining_balance: number;
+  next_payment_date: string | null; // YYYY-MM-DD, null once paid off
+  payoff_date: string | null; // Projected from the remaining balance at the scheduled payment
+  remaining_interest: number;
+}
+
+export interface LoanPaymentDetail extends LoanPayment {
+  title: string;
+  amount: number;
+  transaction_date: string; // YYYY-MM-DD
+}
+
+export interface LoanSimulation {
+  extra_monthly: number;
+  lump_sum: number;
+  baseline: AmortizationSchedule;
+  simulated: AmortizationSchedule;
+  interest_saved: number;
+  months_saved: number;
 }
 
 // Reminder management request types
@@ -258,6 +881,84 @@ export interface UpdateReminderRequest {
   is_active?: boolean;
 }
 
+export interface SettleReminderOccurrenceRequest {
+  amount?: number; // Defaults to the reminder amount
+  wallet_id?: string; // Only used when the reminder has no wallet
+  category_id?: string | null;
+  transaction_date?: string; // ISO date string, defaults to the occurrence date
+}
+
+// Recurring transaction request types
+export interface CreateRecurringTransactionRequest {
+  title: string;
+  amount: number;
+  type: 'Income' | 'Expense';
+  wallet_id: string;
+  category_id?: string | null;
+  start_date: string; // ISO date string of the first occurrence
+  recurrence?: 'once' | 'daily' | 'weekly' | 'monthly' | 'custom';
+  recurrence_interval?: number | null; // Days for custom recurrence
+  duration_end?: string | null; // ISO date string
+}
+
+export interface UpdateRecurringTransactionRequest {
+  title?: string;
+  amount?: number;
+  type?: 'Income' | 'Expense';
+  wallet_id?: string;
+  category_id?: string | null;
+  start_date?: string; // ISO date string
+  recurrence?: 'once' | 'daily' | 'weekly' | 'monthly' | 'custom';
+  recurrence_interval?: number | null;
+  duration_end?: string | null; // ISO date string
+  is_active?: boolean;
+}
+
+export interface CreateCategoryRuleRequest {
+  name: string;
+  category_id: string;
+  wallet_id?: string | null; // Omit for a rule that applies to all wallets
+  title_pattern?: string | null;
+  match_type?: CategoryRuleMatchType; // Defaults to contains
+  min_amount?: number | null;
+  max_amount?: number | null;
+  type?: 'Income' | 'Expense'; // Defaults to the category's type
+  priority?: number;
+}
+
+export interface UpdateCategoryRuleRequest {
+  name?: string;
+  category_id?: string;
+  title_pattern?: string | null;
+  match_type?: CategoryRuleMatchType;
+  min_amount?: number | null;
+  max_amount?: number | null;
+  type?: 'Income' | 'Expense';
+  priority?: number;
+  is_active?: boolean;
+}
+
+export interface ApplyCategoryRulesRequest {
+  wallet_id?: string; // Limit the run to one wallet
+  transaction_ids?: string[]; // Apply only these changes from a preview
+}
+
+export interface CategoryRuleChange {
+  transaction_id: string;
+  wallet_id: string;
+  title: string;
+  amount: number;
+  type: 'Income' | 'Expense';
+  transaction_date: string; // YYYY-MM-DD
+  category_id: string;
+  rule_id: string;
+}
+
+export interface CategoryRuleApplyResult {
+  updated_count: number;
+  changes: CategoryRuleChange[];
+}
+
 export interface ReminderQueryParams {
   wallet_id?: string;
   type?: 'Payment' | 'Receivable';
@@ -275,6 +976,10 @@ export interface UserResponse {
   email: string;
   role: 'user' | 'admin';
   wallet_limit: number;
+  base_currency: string;
+  email_verified_at: Date | null;
+  two_factor_enabled_at: Date | null;
+  locked_until: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -293,6 +998,8 @@ export interface DashboardSummary {
   };
   wallet_count: number;
   transaction_count: number;
+  base_currency: string;
+  missing_rate_currencies: string[];
 }
 
 export interface TransactionReportFilters {
@@ -386,6 +1093,49 @@ export interface ChartOptions {
   type?: 'Income' | 'Expense';
 }
 
+// Trash types
+export type TrashItemType = 'transaction' | 'category' | 'wallet' | 'budget' | 'reminder';
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  name: string; // Title, name or month, whatever the item is known by
+  wallet_id: string | null;
+  deleted_at: Date;
+  purge_at: Date; // When the scheduled purge removes it for good
+}
+
+// Audit log types
+export type AuditEntityType = 'transaction' | 'budget' | 'category' | 'wallet' | 'reminder';
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null; // Null for changes the app made on its own, or once the user who made the change is removed
+  actor_username?: string | null; // Attached when reading the log
+  wallet_id: string | null; // Wallet the entity is in after the change, or was in before a delete
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  before: Record<string, unknown> | null; // Null for a create
+  after: Record<string, unknown> | null; // Null for a delete
+  created_at: Date;
+}
+
+export interface AuditLogQueryParams {
+  entity_type?: string;
+  page?: string;
+  limit?: string;
+}
+
+export interface AuditLogListResponse {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
 // Migration types
 export interface LegacyTransaction {
   id?: string | number; // Legacy ID (will be ignored)
@@ -405,6 +1155,7 @@ export interface MigrationTransaction {
   title: string;
   amount: number;
   type: 'Income' | 'Expense';
+  transaction_date?: string; // YYYY-MM-DD
   created_by: string;
   created_at: Date;
   updated_at: Date;
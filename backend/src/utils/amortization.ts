@@ -0,0 +1,124 @@
+import { AmortizationRow, AmortizationSchedule } from '../types';
+import { adjustDayForMonth } from './recurrence';
+import { toDateKey } from './dates';
+
+// Guards against schedules that would otherwise run for centuries
+const MAX_PERIODS = 1200;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export interface ScheduleOptions {
+  first_period?: number; // Period number of the first row, for projections part way through a loan
+  extra_monthly?: number; // Paid on top of every scheduled payment
+  lump_sum?: number; // Paid once, with the first row
+}
+
+export interface PaymentAllocation {
+  principal_amount: number;
+  interest_amount: number;
+}
+
+export function getMonthlyRate(annualRate: number): number {
+  return Number(annualRate) / 100 / 12;
+}
+
+/**
+ * Level monthly payment that pays the loan off over its term. Rounded up to
+ * the cent so the schedule never runs past the term; the final payment is
+ * slightly smaller instead.
+ */
+export function calculateMonthlyPayment(principal: number, annualRate: number, termMonths: number): number {
+  const rate = getMonthlyRate(annualRate);
+  const payment = rate === 0
+    ? principal / termMonths
+    : (principal * rate) / (1 - Math.pow(1 + rate, -termMonths));
+
+  return Math.ceil(roundMoney(payment * 100)) / 100;
+}
+
+// Scheduled date of a payment period; period 1 falls one month after the start date
+export function getPaymentDate(startDate: Date | string, period: number): string {
+  const [year, month, day] = toDateKey(startDate).split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + period, 1));
+  const targetDay = adjustDayForMonth(day, target.getUTCFullYear(), target.getUTCMonth());
+  target.setUTCDate(targetDay);
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Month-by-month schedule paying `balance` down with `monthlyPayment`, plus
+ * any extra payments, until nothing is left. Each row charges a month of
+ * interest on the balance before principal is paid. If the payments never
+ * cover the interest the schedule stops and has no payoff date.
+ */
+export function buildAmortizationSchedule(
+  balance: number,
+  annualRate: number,
+  monthlyPayment: number,
+  startDate: Date | string,
+  options: ScheduleOptions = {}
+): AmortizationSchedule {
+  const rate = getMonthlyRate(annualRate);
+  const firstPeriod = options.first_period || 1;
+  const rows: AmortizationRow[] = [];
+  let remaining = roundMoney(balance);
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  for (let period = firstPeriod; remaining > 0 && rows.length < MAX_PERIODS; period++) {
+    const interest = roundMoney(remaining * rate);
+    const principal = roundMoney(Math.min(Math.max(monthlyPayment - interest, 0), remaining));
+    const extraDue = (options.extra_monthly || 0) + (period === firstPeriod ? options.lump_sum || 0 : 0);
+    const extraPayment = roundMoney(Math.min(extraDue, remaining - principal));
+
+    if (principal + extraPayment <= 0) {
+      break;
+    }
+
+    remaining = roundMoney(remaining - principal - extraPayment);
+    totalInterest += interest;
+    totalPaid += principal + interest + extraPayment;
+
+    rows.push({
+      period,
+      payment_date: getPaymentDate(startDate, period),
+      payment: roundMoney(principal + interest + extraPayment),
+      principal,
+      interest,
+      extra_payment: extraPayment,
+      balance: remaining
+    });
+  }
+
+  return {
+    monthly_payment: monthlyPayment,
+    rows,
+    total_interest: roundMoney(totalInterest),
+    total_paid: roundMoney(totalPaid),
+    payoff_date: remaining === 0 && rows.length > 0 ? rows[rows.length - 1].payment_date : null
+  };
+}
+
+/**
+ * Split payments, in the order they were made, into interest and principal.
+ * Each payment first covers a month of interest on the balance left by the
+ * payments before it; the rest reduces the balance. Anything paid beyond the
+ * outstanding balance is not counted as principal.
+ */
+export function allocatePayments(
+  principal: number,
+  annualRate: number,
+  amounts: number[]
+): { allocations: PaymentAllocation[]; remaining_balance: number } {
+  const rate = getMonthlyRate(annualRate);
+  let remaining = roundMoney(principal);
+
+  const allocations = amounts.map(amount => {
+    const interest = roundMoney(Math.min(remaining * rate, amount));
+    const principalAmount = roundMoney(Math.min(amount - interest, remaining));
+    remaining = roundMoney(remaining - principalAmount);
+    return { principal_amount: principalAmount, interest_amount: interest };
+  });
+
+  return { allocations, remaining_balance: remaining };
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024; // 5 MB
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+export const MAX_FILE_NAME_LENGTH = 255;
+
+// File signatures of the receipt formats we accept
+const SIGNATURES: { contentType: string; bytes: number[]; offset?: number }[] = [
+  { contentType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { contentType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { contentType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { contentType: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { contentType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }
+];
+
+/**
+ * Work out the type of an uploaded file from its first bytes rather than
+ * trusting its name. Returns null for anything that is not an image or PDF.
+ */
+export function detectAttachmentType(content: Buffer): string | null {
+  const match = SIGNATURES.find(({ bytes, offset = 0 }) =>
+    content.length >= offset + bytes.length && bytes.every((byte, i) => content[offset + i] === byte)
+  );
+
+  // WebP files are RIFF containers, so the RIFF header must be there too
+  if (match?.contentType === 'image/webp' && content.toString('ascii', 0, 4) !== 'RIFF') {
+    return null;
+  }
+
+  return match ? match.contentType : null;
+}
+
+// Decode base64 file contents, accepting a data URL as produced by FileReader
+export function decodeAttachmentContent(content: string): Buffer | null {
+  const base64 = content.replace(/^data:[\w.+-]+\/[\w.+-]+;base64,/, '').replace(/\s/g, '');
+  if (!base64 || !/^[A-Za-z0-9+/]+={0,2}$/.test(base64) || base64.length % 4 === 1) {
+    return null;
+  }
+
+  return Buffer.from(base64, 'base64');
+}
+
+// Keep the name for display only; path separators and control characters are dropped
+export const sanitizeFileName = (name: string): string =>
+  name.replace(/[\\/\x00-\x1f\x7f]/g, '').trim().slice(0, MAX_FILE_NAME_LENGTH);
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { toDateKey } from './dates';
+
+export interface ForecastEvent {
+  date: string; // YYYY-MM-DD
+  source: 'reminder' | 'recurring';
+  source_id: string;
+  title: string;
+  amount: number; // Positive for money coming in, negative for money going out
+}
+
+export interface ForecastPoint {
+  date: string; // YYYY-MM-DD
+  inflow: number; // Scheduled money coming in that day
+  outflow: number; // Scheduled money going out plus the day's discretionary spend
+  balance: number; // Projected balance at the end of the day
+  events: ForecastEvent[];
+}
+
+export interface WalletForecast {
+  wallet_id: string;
+  wallet_name: string;
+  currency: string;
+  starting_balance: number;
+  average_daily_spend: number; // Discretionary spend assumed every day
+  ending_balance: number;
+  lowest_balance: number;
+  first_negative_date: string | null; // First day the balance is projected to drop below zero
+  points: ForecastPoint[];
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export function addDaysToKey(date: Date | string, days: number): string {
+  const value = new Date(`${toDateKey(date)}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+/**
+ * Project a wallet's balance day by day from tomorrow for `days` days. Each
+ * day spends the average discretionary amount and applies the scheduled
+ * events that fall on it; events dated before the first day are overdue and
+ * applied on the first day.
+ */
+export function buildWalletForecast(
+  wallet: { id: string; name: string; currency: string },
+  startingBalance: number,
+  averageDailySpend: number,
+  events: ForecastEvent[],
+  today: Date | string,
+  days: number
+): WalletForecast {
+  const eventsByDate = new Map<string, ForecastEvent[]>();
+  const firstDate = addDaysToKey(today, 1);
+
+  for (const event of events) {
+    const date = event.date < firstDate ? firstDate : event.date;
+    eventsByDate.set(date, [...(eventsByDate.get(date) || []), event]);
+  }
+
+  const points: ForecastPoint[] = [];
+  let balance = roundMoney(startingBalance);
+  let lowestBalance = balance;
+  let firstNegativeDate: string | null = null;
+
+  for (let day = 1; day <= days; day++) {
+    const date = addDaysToKey(today, day);
+    const dayEvents = eventsByDate.get(date) || [];
+    const inflow = roundMoney(dayEvents.filter(e => e.amount > 0).reduce((total, e) => total + e.amount, 0));
+    const scheduledOutflow = dayEvents.filter(e => e.amount < 0).reduce((total, e) => total - e.amount, 0);
+    const outflow = roundMoney(scheduledOutflow + averageDailySpend);
+
+    balance = roundMoney(balance + inflow - outflow);
+    lowestBalance = Math.min(lowestBalance, balance);
+    if (balance < 0 && !firstNegativeDate) {
+      firstNegativeDate = date;
+    }
+
+    points.push({ date, inflow, outflow, balance, events: dayEvents });
+  }
+
+  return {
+    wallet_id: wallet.id,
+    wallet_name: wallet.name,
+    currency: wallet.currency,
+    starting_balance: roundMoney(startingBalance),
+    average_daily_spend: roundMoney(averageDailySpend),
+    ending_balance: balance,
+    lowest_balance: lowestBalance,
+    first_negative_date: firstNegativeDate,
+    points
+  };
+}
\ No newline at end of file
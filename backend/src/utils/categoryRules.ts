@@ -0,0 +1,61 @@
+import { CategoryRule } from '../types';
+import { compileRulePattern } from './rulePattern';
+
+export interface CategorizableTransaction {
+  wallet_id: string;
+  title: string;
+  amount: number | string;
+  type: string;
+}
+
+// Regex patterns are user input and run on every new transaction, so keep them short
+export const MAX_REGEX_PATTERN_LENGTH = 100;
+
+// Title patterns are matched case-insensitively; regexes run in linear time, see rulePattern,
+// and ones it cannot run never match
+function matchesTitle(rule: CategoryRule, title: string): boolean {
+  if (!rule.title_pattern) {
+    return true;
+  }
+
+  if (rule.match_type === 'regex') {
+    const pattern = compileRulePattern(rule.title_pattern);
+    return pattern ? pattern.test(title) : false;
+  }
+
+  return title.toLowerCase().includes(rule.title_pattern.toLowerCase());
+}
+
+export function matchesCategoryRule(rule: CategoryRule, transaction: CategorizableTransaction): boolean {
+  if (!rule.is_active || rule.type !== transaction.type) {
+    return false;
+  }
+
+  if (rule.wallet_id && rule.wallet_id !== transaction.wallet_id) {
+    return false;
+  }
+
+  // Amounts come back from the database as strings
+  const amount = Number(transaction.amount);
+  if (rule.min_amount !== null && amount < Number(rule.min_amount)) {
+    return false;
+  }
+
+  if (rule.max_amount !== null && amount > Number(rule.max_amount)) {
+    return false;
+  }
+
+  return matchesTitle(rule, transaction.title);
+}
+
+/**
+ * Return the first rule that matches the transaction. Rules must already be
+ * sorted with the highest priority first.
+ */
+export function findMatchingRule(rules: CategoryRule[], transaction: CategorizableTransaction): CategoryRule | null {
+  return rules.find(rule => matchesCategoryRule(rule, transaction)) || null;
+}
+
+export function isValidRulePattern(pattern: string): boolean {
+  return pattern.length <= MAX_REGEX_PATTERN_LENGTH && compileRulePattern(pattern) !== null;
+}
\ No newline at end of file
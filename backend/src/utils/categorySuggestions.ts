@@ -0,0 +1,103 @@
+export interface CategorizedTitle {
+  title: string;
+  category_id: string;
+}
+
+export interface CategoryModel {
+  transactionCount: number;
+  categoryCounts: Map<string, number>; // Transactions per category
+  tokenCounts: Map<string, Map<string, number>>; // Token frequencies per category
+  tokenTotals: Map<string, number>; // Tokens seen per category
+  vocabulary: Set<string>;
+}
+
+export interface RankedCategory {
+  category_id: string;
+  confidence: number; // Between 0 and 1, summing to at most 1 across suggestions
+}
+
+/**
+ * Split a title into lowercase word tokens. Accents are folded so "Café" and
+ * "Cafe" match, and bare numbers (reference numbers, dates) are dropped.
+ */
+export function tokenizeTitle(title: string): string[] {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 2 && !/^\d+$/.test(token));
+}
+
+export function buildCategoryModel(history: CategorizedTitle[]): CategoryModel {
+  const model: CategoryModel = {
+    transactionCount: 0,
+    categoryCounts: new Map(),
+    tokenCounts: new Map(),
+    tokenTotals: new Map(),
+    vocabulary: new Set()
+  };
+
+  for (const { title, category_id: categoryId } of history) {
+    model.transactionCount++;
+    model.categoryCounts.set(categoryId, (model.categoryCounts.get(categoryId) || 0) + 1);
+
+    const counts = model.tokenCounts.get(categoryId) || new Map<string, number>();
+    for (const token of tokenizeTitle(title)) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+      model.tokenTotals.set(categoryId, (model.tokenTotals.get(categoryId) || 0) + 1);
+      model.vocabulary.add(token);
+    }
+    model.tokenCounts.set(categoryId, counts);
+  }
+
+  return model;
+}
+
+/**
+ * Rank categories for a title with multinomial naive Bayes and Laplace
+ * smoothing. Only tokens seen in the history count as evidence, so a title
+ * with no known words gets no suggestions rather than a guess from category
+ * sizes alone. Confidence is each category's share of the posterior over all
+ * candidates, but only categories that have seen one of the title's words are
+ * returned.
+ */
+export function rankCategories(
+  model: CategoryModel,
+  title: string,
+  candidateIds: string[],
+  limit: number = 3
+): RankedCategory[] {
+  const tokens = tokenizeTitle(title).filter(token => model.vocabulary.has(token));
+  const candidates = candidateIds.filter(id => model.categoryCounts.has(id));
+  if (tokens.length === 0 || candidates.length === 0) {
+    return [];
+  }
+
+  const vocabularySize = model.vocabulary.size;
+  const scores = candidates.map(categoryId => {
+    const counts = model.tokenCounts.get(categoryId)!;
+    const tokenTotal = model.tokenTotals.get(categoryId) || 0;
+
+    let score = Math.log(model.categoryCounts.get(categoryId)! / model.transactionCount);
+    for (const token of tokens) {
+      score += Math.log(((counts.get(token) || 0) + 1) / (tokenTotal + vocabularySize));
+    }
+
+    return { categoryId, score };
+  });
+
+  // Normalize log scores into probabilities without overflowing
+  const maxScore = Math.max(...scores.map(entry => entry.score));
+  const weights = scores.map(entry => ({ ...entry, weight: Math.exp(entry.score - maxScore) }));
+  const totalWeight = weights.reduce((sum, entry) => sum + entry.weight, 0);
+
+  return weights
+    .filter(entry => tokens.some(token => model.tokenCounts.get(entry.categoryId)!.has(token)))
+    .map(entry => ({
+      category_id: entry.categoryId,
+      confidence: Math.round((entry.weight / totalWeight) * 1000) / 1000
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
\ No newline at end of file
@@ -0,0 +1,277 @@
+import {
+  ImportColumnMapping,
+  ImportDateFormat,
+  ImportDecimalSeparator,
+  ImportRowError,
+  ParsedImportFile,
+  ParsedImportRow
+} from '../types';
+import { toDateKey } from './dates';
+
+export interface CsvImportOptions {
+  hasHeader: boolean;
+  dateFormat: ImportDateFormat;
+  decimalSeparator: ImportDecimalSeparator;
+}
+
+// Delimiters we recognise, in order of preference when counts tie
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+// Pick the delimiter that appears most often outside quotes on the first line
+function detectDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  let best = CANDIDATE_DELIMITERS[0];
+  let bestCount = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of firstLine) {
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (char === delimiter && !inQuotes) {
+        count++;
+      }
+    }
+
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells containing
+ * delimiters, escaped quotes ("") and line breaks, CRLF line endings and a
+ * leading byte order mark. Blank lines are dropped.
+ */
+export function parseCsv(content: string, delimiter: string = detectDelimiter(content)): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  // Last row when the file does not end with a newline
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+// Thousands separators must group by three, so an amount written with the
+// other decimal separator, such as 12,50 read with a decimal point, is
+// rejected instead of being misread
+const AMOUNT_PATTERNS: Record<ImportDecimalSeparator, RegExp> = {
+  '.': /^(\d{1,3}(,\d{3})+|\d*)(\.\d+)?$/,
+  ',': /^(\d{1,3}(\.\d{3})+|\d*)(,\d+)?$/
+};
+
+/**
+ * Parse a bank amount such as "1,234.50", "-45.00", "$12.00" or "(45.00)",
+ * or "1.234,50" with a decimal comma. Returns null for empty cells and NaN
+ * for values that are not numbers.
+ */
+export function parseImportAmount(value: string | undefined, decimalSeparator: ImportDecimalSeparator = '.'): number | null {
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+
+  let text = value.trim();
+  let negative = false;
+
+  // Accounting style negatives: (45.00)
+  if (text.startsWith('(') && text.endsWith(')')) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+
+  // Drop currency symbols, codes and spaces
+  text = text.replace(/[^0-9.,\-]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  if (!/\d/.test(text) || !AMOUNT_PATTERNS[decimalSeparator].test(text)) {
+    return NaN;
+  }
+
+  const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+  const amount = parseFloat(text.split(thousandsSeparator).join('').replace(decimalSeparator, '.'));
+  return negative ? -amount : amount;
+}
+
+// Parse a date cell in the given format as a local calendar date
+export function parseImportDate(value: string | undefined, format: ImportDateFormat): Date | null {
+  const text = (value || '').trim();
+  let match: RegExpMatchArray | null;
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (format === 'YYYY-MM-DD') {
+    match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+    if (!match) return null;
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+    if (!match) return null;
+    year = Number(match[3]);
+    month = Number(format === 'MM/DD/YYYY' ? match[1] : match[2]);
+    day = Number(format === 'MM/DD/YYYY' ? match[2] : match[1]);
+  }
+
+  const date = new Date(year, month - 1, day);
+
+  // Reject dates that rolled over, such as 2024-02-30
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Validate a signed amount and build the row to import, or the error to
+ * report for it. Shared by every import format.
+ */
+export function buildImportRow(
+  rowNumber: number,
+  transactionDate: Date,
+  title: string,
+  amount: number | null,
+  externalId: string | null = null
+): ParsedImportRow | ImportRowError {
+  if (amount === null || isNaN(amount)) {
+    return { row_number: rowNumber, error: 'Amount is missing or not a number' };
+  }
+
+  if (amount === 0) {
+    return { row_number: rowNumber, error: 'Amount must not be zero' };
+  }
+
+  if (Math.abs(amount) > 999999999.99) {
+    return { row_number: rowNumber, error: 'Amount is too large' };
+  }
+
+  return {
+    row_number: rowNumber,
+    transaction_date: toDateKey(transactionDate),
+    title: title.slice(0, 255),
+    amount: Math.round(Math.abs(amount) * 100) / 100,
+    type: amount < 0 ? 'Expense' : 'Income',
+    external_id: externalId
+  };
+}
+
+/**
+ * Turn CSV contents into transactions using a column mapping. Rows that
+ * cannot be parsed are reported in `errors` instead of `rows`.
+ */
+export function parseCsvImport(
+  content: string,
+  mapping: ImportColumnMapping,
+  options: CsvImportOptions
+): ParsedImportFile {
+  const cells = parseCsv(content);
+  const headers = options.hasHeader && cells.length > 0 ? cells[0].map(header => header.trim()) : [];
+  const dataRows = options.hasHeader ? cells.slice(1) : cells;
+  const firstRowNumber = options.hasHeader ? 2 : 1;
+
+  const rows: ParsedImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  dataRows.forEach((row, index) => {
+    const rowNumber = firstRowNumber + index;
+
+    const transactionDate = parseImportDate(row[mapping.date], options.dateFormat);
+    if (!transactionDate) {
+      errors.push({ row_number: rowNumber, error: `Invalid date "${row[mapping.date] || ''}", expected ${options.dateFormat}` });
+      return;
+    }
+
+    const title = (row[mapping.description] || '').trim();
+    if (!title) {
+      errors.push({ row_number: rowNumber, error: 'Description is required' });
+      return;
+    }
+
+    const parseAmount = (column: number | undefined) =>
+      column !== undefined ? parseImportAmount(row[column], options.decimalSeparator) : null;
+
+    // Name the cell, since a wrong decimal separator is the usual cause
+    const invalidColumn = [mapping.amount, mapping.debit, mapping.credit]
+      .find(column => column !== undefined && Number.isNaN(parseAmount(column)));
+    if (invalidColumn !== undefined) {
+      errors.push({
+        row_number: rowNumber,
+        error: `Invalid amount "${row[invalidColumn].trim()}" for the decimal separator "${options.decimalSeparator}"`
+      });
+      return;
+    }
+
+    let amount: number | null;
+    if (mapping.amount !== undefined) {
+      amount = parseAmount(mapping.amount);
+    } else {
+      // Separate debit and credit columns: money out is negative
+      const debit = parseAmount(mapping.debit);
+      const credit = parseAmount(mapping.credit);
+      if (debit !== null && debit !== 0) {
+        amount = -Math.abs(debit);
+      } else if (credit !== null) {
+        amount = Math.abs(credit);
+      } else {
+        amount = debit;
+      }
+    }
+
+    const result = buildImportRow(rowNumber, transactionDate, title, amount);
+    if ('error' in result) {
+      errors.push(result);
+    } else {
+      rows.push(result);
+    }
+  });
+
+  return { headers, rows, errors };
+}
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { ExchangeRate } from '../types';
+import { toDateKey } from './dates';
+
+// Currency of wallets and users created before currencies existed
+export const DEFAULT_CURRENCY = 'PHP';
+
+interface RatePoint {
+  date: string; // YYYY-MM-DD
+  rate: number;
+  inverse: boolean; // Derived from the rate stored for the opposite direction
+}
+
+export type RateTable = Map<string, RatePoint[]>;
+
+// ISO 4217 style code, such as PHP or USD
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+}
+
+export function normalizeCurrency(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+const pairKey = (from: string, to: string): string => `${from}:${to}`;
+
+/**
+ * Index stored rates by currency pair and date. Every rate also answers the
+ * opposite direction with its inverse, unless a rate was entered for that
+ * direction on the same day.
+ */
+export function buildRateTable(rates: ExchangeRate[]): RateTable {
+  const table: RateTable = new Map();
+
+  const addPoint = (from: string, to: string, point: RatePoint) => {
+    const points = table.get(pairKey(from, to)) || [];
+    const sameDay = points.findIndex(existing => existing.date === point.date);
+
+    if (sameDay === -1) {
+      points.push(point);
+    } else if (points[sameDay].inverse && !point.inverse) {
+      points[sameDay] = point;
+    }
+
+    table.set(pairKey(from, to), points);
+  };
+
+  for (const rate of rates) {
+    const value = Number(rate.rate);
+    if (!(value > 0)) continue;
+
+    const date = toDateKey(rate.rate_date);
+    addPoint(rate.from_currency, rate.to_currency, { date, rate: value, inverse: false });
+    addPoint(rate.to_currency, rate.from_currency, { date, rate: 1 / value, inverse: true });
+  }
+
+  for (const points of table.values()) {
+    points.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return table;
+}
+
+/**
+ * The rate that applied on a date: the latest one on or before it, or the
+ * earliest one after it for dates older than every stored rate. Null when no
+ * rate exists for the pair at all.
+ */
+export function findRate(table: RateTable, from: string, to: string, date: Date | string): number | null {
+  if (from === to) {
+    return 1;
+  }
+
+  const points = table.get(pairKey(from, to));
+  if (!points || points.length === 0) {
+    return null;
+  }
+
+  const dateKey = toDateKey(date);
+  let applicable = points[0];
+  for (const point of points) {
+    if (point.date > dateKey) break;
+    applicable = point;
+  }
+
+  return applicable.rate;
+}
+
+// Convert an amount at the rate of the given date, rounded to cents
+export function convertAmount(
+  table: RateTable,
+  amount: number | string,
+  from: string,
+  to: string,
+  date: Date | string
+): number | null {
+  const rate = findRate(table, from, to, date);
+  if (rate === null) {
+    return null;
+  }
+
+  return Math.round((Number(amount) || 0) * rate * 100) / 100;
+}
\ No newline at end of file
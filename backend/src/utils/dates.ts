@@ -0,0 +1,48 @@
+// DATE columns are read and written as YYYY-MM-DD text, see database/connection
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+
+// The YYYY-MM-DD of a date key, ISO string or local Date
+export function toDateKey(date: Date | string): string {
+  if (typeof date === 'string' && DATE_KEY_PATTERN.test(date)) {
+    return date.slice(0, 10);
+  }
+
+  const value = new Date(date);
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+// Local midnight of a date key, for day arithmetic
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function todayKey(): string {
+  return toDateKey(new Date());
+}
+
+/**
+ * Read a date sent by a client as a date key. The day is taken as written,
+ * so "2024-03-01T00:00:00Z" is March 1st wherever the server runs. Returns
+ * null for anything that is not a real calendar date.
+ */
+export function parseDateInput(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = value.trim().match(DATE_KEY_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return match[0];
+}
\ No newline at end of file
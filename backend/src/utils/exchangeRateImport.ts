@@ -0,0 +1,79 @@
+import { ImportRowError, ParsedExchangeRateRow } from '../types';
+import { parseCsv, parseImportDate } from './csvImport';
+import { isCurrencyCode, normalizeCurrency } from './currency';
+import { toDateKey } from './dates';
+
+// Largest rate accepted, to stay within the decimal(18,8) column
+export const MAX_EXCHANGE_RATE = 9999999999;
+
+/**
+ * Validate one rate and build the row to store, or the error to report for
+ * it. Shared by manual entry and CSV upload.
+ */
+export function buildExchangeRateRow(
+  rowNumber: number,
+  rateDate: string | undefined,
+  fromCurrency: string | undefined,
+  toCurrency: string | undefined,
+  rate: string | number | undefined
+): ParsedExchangeRateRow | ImportRowError {
+  const date = parseImportDate(rateDate, 'YYYY-MM-DD');
+  if (!date) {
+    return { row_number: rowNumber, error: `Invalid date "${rateDate || ''}", expected YYYY-MM-DD` };
+  }
+
+  const from = normalizeCurrency(fromCurrency || '');
+  const to = normalizeCurrency(toCurrency || '');
+  if (!isCurrencyCode(from) || !isCurrencyCode(to)) {
+    return { row_number: rowNumber, error: 'Currencies must be 3-letter codes such as USD' };
+  }
+
+  if (from === to) {
+    return { row_number: rowNumber, error: 'A rate needs two different currencies' };
+  }
+
+  const value = typeof rate === 'number' ? rate : parseFloat((rate || '').trim());
+  if (!isFinite(value) || value <= 0) {
+    return { row_number: rowNumber, error: 'Rate must be a positive number' };
+  }
+
+  if (value > MAX_EXCHANGE_RATE) {
+    return { row_number: rowNumber, error: 'Rate is too large' };
+  }
+
+  return {
+    row_number: rowNumber,
+    rate_date: toDateKey(date),
+    from_currency: from,
+    to_currency: to,
+    rate: value
+  };
+}
+
+/**
+ * Read rates from CSV with date, from currency, to currency and rate
+ * columns, in that order. Rows that cannot be parsed are reported in
+ * `errors` instead of `rows`.
+ */
+export function parseExchangeRateCsv(
+  content: string,
+  hasHeader: boolean
+): { rows: ParsedExchangeRateRow[]; errors: ImportRowError[] } {
+  const cells = parseCsv(content);
+  const dataRows = hasHeader ? cells.slice(1) : cells;
+  const firstRowNumber = hasHeader ? 2 : 1;
+
+  const rows: ParsedExchangeRateRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  dataRows.forEach((row, index) => {
+    const result = buildExchangeRateRow(firstRowNumber + index, row[0], row[1], row[2], row[3]);
+    if ('error' in result) {
+      errors.push(result);
+    } else {
+      rows.push(result);
+    }
+  });
+
+  return { rows, errors };
+}
\ No newline at end of file
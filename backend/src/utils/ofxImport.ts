@@ -0,0 +1,91 @@
+import { ImportRowError, ParsedImportFile, ParsedImportRow } from '../types';
+import { buildImportRow, parseImportAmount } from './csvImport';
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'"
+};
+
+/**
+ * Read a leaf element such as <TRNAMT>. SGML files (OFX 1.x) leave leaf
+ * elements unclosed, XML files (OFX 2.x) close them, so the value is
+ * everything up to the next tag or line break in both variants.
+ */
+function readElement(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) {
+    return null;
+  }
+
+  const value = match[1].replace(/&(amp|lt|gt|quot|apos);/gi, entity => XML_ENTITIES[entity.toLowerCase()]).trim();
+  return value || null;
+}
+
+// OFX datetimes look like 20240301, 20240301120000 or 20240301120000.000[-5:EST]
+function parseOfxDate(value: string | null): Date | null {
+  const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Parse an OFX or QFX statement, in either the SGML or the XML variant.
+ * Every <STMTTRN> in the file becomes one row, numbered in file order, and
+ * its FITID is kept as the external id.
+ */
+export function parseOfxImport(content: string): ParsedImportFile {
+  if (!/<OFX>/i.test(content)) {
+    throw new Error('VALIDATION_INVALID_IMPORT_FILE');
+  }
+
+  const rows: ParsedImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  blocks.forEach((block, index) => {
+    const rowNumber = index + 1;
+
+    const postedDate = readElement(block, 'DTPOSTED') || readElement(block, 'DTUSER');
+    const transactionDate = parseOfxDate(postedDate);
+    if (!transactionDate) {
+      errors.push({ row_number: rowNumber, error: `Invalid posting date "${postedDate || ''}"` });
+      return;
+    }
+
+    // NAME also matches the name inside a <PAYEE> aggregate
+    const title = readElement(block, 'NAME') || readElement(block, 'MEMO');
+    if (!title) {
+      errors.push({ row_number: rowNumber, error: 'Description is required' });
+      return;
+    }
+
+    const result = buildImportRow(
+      rowNumber,
+      transactionDate,
+      title,
+      parseImportAmount(readElement(block, 'TRNAMT') || undefined),
+      readElement(block, 'FITID')
+    );
+
+    if ('error' in result) {
+      errors.push(result);
+    } else {
+      rows.push(result);
+    }
+  });
+
+  return { headers: [], rows, errors };
+}
\ No newline at end of file
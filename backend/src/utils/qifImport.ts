@@ -0,0 +1,114 @@
+import { ImportDateFormat, ImportRowError, ParsedImportFile, ParsedImportRow } from '../types';
+import { buildImportRow, parseImportAmount, parseImportDate } from './csvImport';
+
+// Account sections that hold cash transactions; investment and list sections are skipped
+const SUPPORTED_SECTIONS = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+/**
+ * Parse a QIF date such as 03/01/2024, 3/ 1/24, 3/1'24 or 2024-03-01.
+ * Quicken writes years after 1999 with an apostrophe; other two digit years
+ * are read as 1970-2069.
+ */
+export function parseQifDate(value: string | undefined, format: ImportDateFormat): Date | null {
+  const text = (value || '').replace(/\s/g, '');
+
+  if (/^\d{4}-/.test(text)) {
+    return parseImportDate(text, 'YYYY-MM-DD');
+  }
+
+  const match = text.match(/^(\d{1,2})[-/.](\d{1,2})(['/.-])(\d{4}|\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  let year = Number(match[4]);
+  if (match[4].length === 2) {
+    year += match[3] === "'" || year < 70 ? 2000 : 1900;
+  }
+
+  return parseImportDate(`${match[1]}/${match[2]}/${year}`, format === 'DD/MM/YYYY' ? 'DD/MM/YYYY' : 'MM/DD/YYYY');
+}
+
+/**
+ * Parse a QIF export. Records end with a "^" line and each field is one line
+ * starting with its code: D date, T (or U) amount, P payee, M memo. Rows are
+ * numbered by transaction in file order. QIF has no bank transaction ids, so
+ * duplicates are only detected by date, type and amount.
+ */
+export function parseQifImport(content: string, dateFormat: ImportDateFormat): ParsedImportFile {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (!lines.some(line => /^!Type:/i.test(line.trim()))) {
+    throw new Error('VALIDATION_INVALID_IMPORT_FILE');
+  }
+
+  const rows: ParsedImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  let section = '';
+  let fields: Record<string, string> = {};
+  let rowNumber = 0;
+
+  const finishRecord = () => {
+    const hasFields = Object.keys(fields).length > 0;
+    const record = fields;
+    fields = {};
+
+    if (!hasFields || !SUPPORTED_SECTIONS.includes(section)) {
+      return;
+    }
+
+    rowNumber++;
+
+    const transactionDate = parseQifDate(record.D, dateFormat);
+    if (!transactionDate) {
+      errors.push({ row_number: rowNumber, error: `Invalid date "${record.D || ''}", expected ${dateFormat}` });
+      return;
+    }
+
+    const title = record.P || record.M;
+    if (!title) {
+      errors.push({ row_number: rowNumber, error: 'Description is required' });
+      return;
+    }
+
+    const result = buildImportRow(rowNumber, transactionDate, title, parseImportAmount(record.T ?? record.U));
+    if ('error' in result) {
+      errors.push(result);
+    } else {
+      rows.push(result);
+    }
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+
+    if (line.startsWith('!')) {
+      finishRecord();
+      const typeMatch = line.match(/^!Type:(.*)$/i);
+      if (typeMatch) {
+        section = typeMatch[1].trim().toLowerCase();
+      } else if (/^!Account/i.test(line)) {
+        section = 'account';
+      }
+      continue;
+    }
+
+    if (line === '^') {
+      finishRecord();
+      continue;
+    }
+
+    // Keep the first occurrence; split lines (S, E, $) are not imported
+    const code = line[0].toUpperCase();
+    if (fields[code] === undefined) {
+      fields[code] = line.slice(1).trim();
+    }
+  }
+
+  // Last record when the file does not end with "^"
+  finishRecord();
+
+  return { headers: [], rows, errors };
+}
\ No newline at end of file
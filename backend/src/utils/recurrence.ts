@@ -0,0 +1,62 @@
+import { fromDateKey } from './dates';
+
+export type Recurrence = 'once' | 'daily' | 'weekly' | 'monthly' | 'custom';
+
+export interface RecurrenceSchedule {
+  recurrence: Recurrence;
+  recurrence_interval: number | null;
+  duration_end: string | null; // YYYY-MM-DD
+}
+
+// Number of days in the given month (month is 0-based)
+export function getLastDayOfMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+// Clamp a day of month to the target month (handles 31st -> 30th, 29th, 28th)
+export function adjustDayForMonth(originalDay: number, year: number, month: number): number {
+  return Math.min(originalDay, getLastDayOfMonth(year, month));
+}
+
+/**
+ * Calculate the occurrence that follows `current` for a recurrence schedule.
+ * Monthly schedules land on `anchorDay` (defaults to the day of `current`).
+ * Returns null for one-time schedules or once the schedule's duration has ended.
+ */
+export function getNextOccurrence(
+  current: Date,
+  schedule: RecurrenceSchedule,
+  anchorDay: number = current.getDate()
+): Date | null {
+  const nextDate = new Date(current);
+
+  switch (schedule.recurrence) {
+    case 'daily':
+      nextDate.setDate(nextDate.getDate() + 1);
+      break;
+    case 'weekly':
+      nextDate.setDate(nextDate.getDate() + 7);
+      break;
+    case 'monthly':
+      // Move to the first of next month before setting the day to avoid overflow
+      nextDate.setDate(1);
+      nextDate.setMonth(nextDate.getMonth() + 1);
+      nextDate.setDate(adjustDayForMonth(anchorDay, nextDate.getFullYear(), nextDate.getMonth()));
+      break;
+    case 'custom':
+      if (!schedule.recurrence_interval) {
+        return null;
+      }
+      nextDate.setDate(nextDate.getDate() + schedule.recurrence_interval);
+      break;
+    default:
+      return null;
+  }
+
+  // Check if next occurrence is within duration
+  if (schedule.duration_end && nextDate > fromDateKey(schedule.duration_end)) {
+    return null;
+  }
+
+  return nextDate;
+}
\ No newline at end of file
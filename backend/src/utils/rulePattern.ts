@@ -0,0 +1,462 @@
+/**
+ * Regular expressions for category rule titles. Rules are user input and run
+ * on every new transaction, import row and rule run, so they are not handed to
+ * the backtracking RegExp engine: a pattern like (a|aa)+$ or \w*\w*\w*! would
+ * block the event loop for seconds or minutes. Instead the pattern is compiled
+ * to an NFA and simulated state by state, which takes time linear in the title
+ * length whatever the pattern.
+ *
+ * Supported: literals and escapes, ., character classes, \d \w \s and their
+ * negations, groups (capturing, non-capturing and named), alternation,
+ * * + ? {n} {n,} {n,m} (lazy or not, which makes no difference to a match),
+ * and the ^ $ \b \B anchors. Backreferences and lookarounds need backtracking
+ * and are rejected.
+ */
+
+type CharTest = (char: string) => boolean;
+type Assertion = 'start' | 'end' | 'wordBoundary' | 'notWordBoundary';
+
+type PatternNode =
+  | { kind: 'char'; test: CharTest }
+  | { kind: 'sequence'; items: PatternNode[] }
+  | { kind: 'alternation'; options: PatternNode[] }
+  | { kind: 'repeat'; node: PatternNode; min: number; max: number }
+  | { kind: 'assertion'; assertion: Assertion };
+
+type State =
+  | { type: 'char'; test: CharTest; next: number }
+  | { type: 'split'; next: number[] }
+  | { type: 'assertion'; assertion: Assertion; next: number }
+  | { type: 'match' };
+
+export interface RulePattern {
+  test(text: string): boolean;
+}
+
+// Bounded repetition is expanded into copies, so (a{50}){50} would otherwise grow huge
+const MAX_STATES = 2000;
+// Compiled patterns, by pattern, so rules are not compiled again for every transaction
+const MAX_CACHED_PATTERNS = 500;
+const compiledPatterns = new Map<string, RulePattern | null>();
+
+const isDigit: CharTest = char => char >= '0' && char <= '9';
+const isWordChar: CharTest = char => /^[A-Za-z0-9_]$/.test(char);
+const isSpace: CharTest = char => /^\s$/.test(char);
+const not = (test: CharTest): CharTest => char => !test(char);
+
+class PatternSyntaxError extends Error {}
+
+class PatternParser {
+  private index = 0;
+
+  constructor(private readonly pattern: string) {}
+
+  parse(): PatternNode {
+    const node = this.parseAlternation();
+    if (this.index < this.pattern.length) {
+      throw new PatternSyntaxError(`Unexpected "${this.pattern[this.index]}"`);
+    }
+    return node;
+  }
+
+  private parseAlternation(): PatternNode {
+    const options = [this.parseSequence()];
+    while (this.peek() === '|') {
+      this.index++;
+      options.push(this.parseSequence());
+    }
+    return options.length === 1 ? options[0] : { kind: 'alternation', options };
+  }
+
+  private parseSequence(): PatternNode {
+    const items: PatternNode[] = [];
+    while (this.index < this.pattern.length && this.peek() !== '|' && this.peek() !== ')') {
+      const atom = this.parseAtom();
+      items.push(this.parseQuantifier(atom));
+    }
+    return { kind: 'sequence', items };
+  }
+
+  private parseAtom(): PatternNode {
+    const char = this.pattern[this.index++];
+
+    switch (char) {
+      case '(':
+        return this.parseGroup();
+      case '[':
+        return this.parseClass();
+      case '.':
+        return { kind: 'char', test: c => c !== '\n' && c !== '\r' && c !== '\u2028' && c !== '\u2029' };
+      case '^':
+        return { kind: 'assertion', assertion: 'start' };
+      case '$':
+        return { kind: 'assertion', assertion: 'end' };
+      case '\\':
+        return this.parseEscape();
+      case '*':
+      case '+':
+      case '?':
+        throw new PatternSyntaxError('Nothing to repeat');
+      case '{':
+        if (this.readBraceQuantifier(this.index - 1)) {
+          throw new PatternSyntaxError('Nothing to repeat');
+        }
+        return literal('{');
+      default:
+        return literal(char);
+    }
+  }
+
+  private parseGroup(): PatternNode {
+    if (this.peek() === '?') {
+      const kind = this.pattern[this.index + 1];
+      if (kind === ':') {
+        this.index += 2;
+      } else if (kind === '<' && /[A-Za-z_$]/.test(this.pattern[this.index + 2] || '')) {
+        // A named group only names what it captures, which a match does not use
+        const end = this.pattern.indexOf('>', this.index);
+        if (end === -1) {
+          throw new PatternSyntaxError('Unterminated group name');
+        }
+        this.index = end + 1;
+      } else {
+        throw new PatternSyntaxError('Lookarounds are not supported');
+      }
+    }
+
+    const node = this.parseAlternation();
+    if (this.pattern[this.index++] !== ')') {
+      throw new PatternSyntaxError('Unterminated group');
+    }
+    return node;
+  }
+
+  private parseEscape(): PatternNode {
+    const char = this.pattern[this.index++];
+    if (char === undefined) {
+      throw new PatternSyntaxError('Trailing backslash');
+    }
+
+    switch (char) {
+      case 'b':
+        return { kind: 'assertion', assertion: 'wordBoundary' };
+      case 'B':
+        return { kind: 'assertion', assertion: 'notWordBoundary' };
+      case 'k':
+        throw new PatternSyntaxError('Backreferences are not supported');
+    }
+
+    if (char >= '1' && char <= '9') {
+      throw new PatternSyntaxError('Backreferences are not supported');
+    }
+
+    const classTest = this.classEscape(char);
+    return classTest ? { kind: 'char', test: classTest } : literal(this.escapedChar(char));
+  }
+
+  private parseClass(): PatternNode {
+    const negated = this.peek() === '^';
+    if (negated) {
+      this.index++;
+    }
+
+    const tests: CharTest[] = [];
+    while (this.peek() !== ']') {
+      if (this.index >= this.pattern.length) {
+        throw new PatternSyntaxError('Unterminated character class');
+      }
+
+      const start = this.parseClassItem();
+      if (this.peek() === '-' && this.pattern[this.index + 1] !== ']' && this.index + 1 < this.pattern.length) {
+        this.index++;
+        const end = this.parseClassItem();
+        if (typeof start === 'string' && typeof end === 'string') {
+          if (start > end) {
+            throw new PatternSyntaxError('Range out of order');
+          }
+          tests.push(c => c >= start && c <= end);
+          continue;
+        }
+        // A class escape cannot bound a range, so the dash is just a dash
+        tests.push(toTest(start), literalTest('-'), toTest(end));
+        continue;
+      }
+      tests.push(toTest(start));
+    }
+    this.index++;
+
+    // Case is ignored before negating, so [^a] does not match A
+    const inClass = ignoreCase(c => tests.some(test => test(c)));
+    return { kind: 'char', test: negated ? not(inClass) : inClass };
+  }
+
+  // A single character, or the test of a class escape like \d
+  private parseClassItem(): string | CharTest {
+    const char = this.pattern[this.index++];
+    if (char !== '\\') {
+      return char;
+    }
+
+    const escaped = this.pattern[this.index++];
+    if (escaped === undefined) {
+      throw new PatternSyntaxError('Trailing backslash');
+    }
+    if (escaped === 'b') {
+      return '\b';
+    }
+    return this.classEscape(escaped) || this.escapedChar(escaped);
+  }
+
+  private classEscape(char: string): CharTest | null {
+    switch (char) {
+      case 'd': return isDigit;
+      case 'D': return not(isDigit);
+      case 'w': return isWordChar;
+      case 'W': return not(isWordChar);
+      case 's': return isSpace;
+      case 'S': return not(isSpace);
+      default: return null;
+    }
+  }
+
+  // The character an escape like \n, \x41 or \. stands for
+  private escapedChar(char: string): string {
+    switch (char) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'v': return '\v';
+      case 'f': return '\f';
+      case '0': return '\0';
+      case 'x':
+      case 'u': {
+        const length = char === 'x' ? 2 : 4;
+        const hex = this.pattern.slice(this.index, this.index + length);
+        if (!new RegExp(`^[0-9A-Fa-f]{${length}}$`).test(hex)) {
+          return char;
+        }
+        this.index += length;
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      case 'c':
+        throw new PatternSyntaxError('Control escapes are not supported');
+      default:
+        return char;
+    }
+  }
+
+  private parseQuantifier(atom: PatternNode): PatternNode {
+    let min: number;
+    let max: number;
+
+    const char = this.peek();
+    if (char === '*' || char === '+' || char === '?') {
+      this.index++;
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : Infinity;
+    } else if (char === '{' && this.readBraceQuantifier(this.index)) {
+      const bounds = this.readBraceQuantifier(this.index)!;
+      this.index += bounds.length;
+      min = bounds.min;
+      max = bounds.max;
+    } else {
+      return atom;
+    }
+
+    if (atom.kind === 'assertion') {
+      throw new PatternSyntaxError('Nothing to repeat');
+    }
+
+    // Laziness changes which match is found, not whether there is one
+    if (this.peek() === '?') {
+      this.index++;
+    }
+
+    return { kind: 'repeat', node: atom, min, max };
+  }
+
+  private readBraceQuantifier(at: number): { min: number; max: number; length: number } | null {
+    const match = this.pattern.slice(at).match(/^\{(\d+)(,(\d*))?\}/);
+    if (!match) {
+      return null;
+    }
+
+    const min = Number(match[1]);
+    const max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+    if (max < min) {
+      throw new PatternSyntaxError('Numbers out of order in quantifier');
+    }
+    return { min, max, length: match[0].length };
+  }
+
+  private peek(): string | undefined {
+    return this.pattern[this.index];
+  }
+}
+
+// Matching ignores case, as the flag i would
+function literal(char: string): PatternNode {
+  return { kind: 'char', test: literalTest(char) };
+}
+
+function literalTest(char: string): CharTest {
+  const upper = char.toUpperCase();
+  return c => c === char || c.toUpperCase() === upper;
+}
+
+function ignoreCase(test: CharTest): CharTest {
+  return c => test(c) || test(c.toLowerCase()) || test(c.toUpperCase());
+}
+
+function toTest(item: string | CharTest): CharTest {
+  return typeof item === 'string' ? literalTest(item) : item;
+}
+
+class NfaBuilder {
+  readonly states: State[] = [];
+
+  add(state: State): number {
+    if (this.states.length >= MAX_STATES) {
+      throw new PatternSyntaxError('Pattern is too large');
+    }
+    this.states.push(state);
+    return this.states.length - 1;
+  }
+
+  // Compile the node so that it continues with the state `next`, and return its first state
+  compile(node: PatternNode, next: number): number {
+    switch (node.kind) {
+      case 'char':
+        return this.add({ type: 'char', test: node.test, next });
+      case 'assertion':
+        return this.add({ type: 'assertion', assertion: node.assertion, next });
+      case 'sequence':
+        return node.items.reduceRight((start, item) => this.compile(item, start), next);
+      case 'alternation':
+        return this.add({ type: 'split', next: node.options.map(option => this.compile(option, next)) });
+      case 'repeat':
+        return this.compileRepeat(node.node, node.min, node.max, next);
+    }
+  }
+
+  private compileRepeat(node: PatternNode, min: number, max: number, next: number): number {
+    let start: number;
+
+    if (max === Infinity) {
+      const loop = this.add({ type: 'split', next: [] });
+      (this.states[loop] as { next: number[] }).next = [this.compile(node, loop), next];
+      start = loop;
+    } else {
+      // Each optional copy either matches and moves on to the next one, or stops here
+      start = next;
+      for (let copy = min; copy < max; copy++) {
+        start = this.add({ type: 'split', next: [this.compile(node, start), next] });
+      }
+    }
+
+    for (let copy = 0; copy < min; copy++) {
+      start = this.compile(node, start);
+    }
+    return start;
+  }
+}
+
+function holds(assertion: Assertion, text: string, position: number): boolean {
+  switch (assertion) {
+    case 'start':
+      return position === 0;
+    case 'end':
+      return position === text.length;
+    case 'wordBoundary':
+    case 'notWordBoundary': {
+      const before = position > 0 && isWordChar(text[position - 1]);
+      const after = position < text.length && isWordChar(text[position]);
+      return (before !== after) === (assertion === 'wordBoundary');
+    }
+  }
+}
+
+function buildPattern(pattern: string): RulePattern {
+  const builder = new NfaBuilder();
+  const matchState = builder.add({ type: 'match' });
+  const startState = builder.compile(new PatternParser(pattern).parse(), matchState);
+  const states = builder.states;
+
+  return {
+    // Search the whole title, as RegExp.test would, tracking every state the match could be in
+    test(text: string): boolean {
+      const visited = new Array<number>(states.length).fill(-1);
+      let current: number[] = [];
+      let matched = false;
+
+      const addState = (list: number[], index: number, position: number): void => {
+        if (visited[index] === position) {
+          return;
+        }
+        visited[index] = position;
+
+        const state = states[index];
+        switch (state.type) {
+          case 'match':
+            matched = true;
+            break;
+          case 'char':
+            list.push(index);
+            break;
+          case 'split':
+            state.next.forEach(next => addState(list, next, position));
+            break;
+          case 'assertion':
+            if (holds(state.assertion, text, position)) {
+              addState(list, state.next, position);
+            }
+            break;
+        }
+      };
+
+      for (let position = 0; ; position++) {
+        addState(current, startState, position);
+        if (matched) {
+          return true;
+        }
+        if (position === text.length) {
+          return false;
+        }
+
+        const next: number[] = [];
+        for (const index of current) {
+          const state = states[index] as { test: CharTest; next: number };
+          if (state.test(text[position])) {
+            addState(next, state.next, position + 1);
+          }
+        }
+        current = next;
+      }
+    }
+  };
+}
+
+/**
+ * Compile a rule pattern, or return null when it is not a valid regular
+ * expression or uses something the linear-time matcher cannot run.
+ */
+export function compileRulePattern(pattern: string): RulePattern | null {
+  if (compiledPatterns.has(pattern)) {
+    return compiledPatterns.get(pattern)!;
+  }
+
+  let compiled: RulePattern | null;
+  try {
+    // Anything RegExp refuses is refused too, so rules mean what they would in JavaScript
+    new RegExp(pattern, 'i');
+    compiled = buildPattern(pattern);
+  } catch (error) {
+    compiled = null;
+  }
+
+  if (compiledPatterns.size >= MAX_CACHED_PATTERNS) {
+    compiledPatterns.clear();
+  }
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+}
\ No newline at end of file
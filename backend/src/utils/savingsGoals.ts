@@ -0,0 +1,103 @@
+import { SavingsGoal, SavingsGoalProgress, Transaction } from '../types';
+import { toDateKey } from './dates';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const AVERAGE_DAYS_PER_MONTH = 365.25 / 12;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Whole days between two calendar dates, ignoring the time of day
+function daysBetween(from: Date | string, to: Date | string): number {
+  const start = new Date(`${toDateKey(from)}T00:00:00Z`);
+  const end = new Date(`${toDateKey(to)}T00:00:00Z`);
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+function addDays(date: Date | string, days: number): string {
+  const value = new Date(`${toDateKey(date)}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+/**
+ * Signed amount a transaction adds to a goal. Transfer legs of the goal's
+ * wallet move money in or out of it; tagged income and expenses add to or
+ * withdraw from the goal.
+ */
+export function getContributionAmount(transaction: Transaction): number {
+  const amount = Number(transaction.amount);
+
+  if (transaction.type === 'Transfer') {
+    return transaction.transfer_direction === 'Incoming' ? amount : -amount;
+  }
+
+  return transaction.type === 'Income' ? amount : -amount;
+}
+
+/**
+ * Work out how far a goal has come and whether it will be met in time.
+ * The expected amount grows in a straight line from the start date to the
+ * target date; the status compares what was saved against it using the same
+ * green/yellow/orange/red scale as budgets, and a goal past its target date
+ * that is not met is always red.
+ */
+export function calculateGoalProgress(
+  goal: SavingsGoal,
+  currency: string,
+  contributions: Transaction[],
+  today: Date = new Date()
+): SavingsGoalProgress {
+  const targetAmount = Number(goal.target_amount);
+  const savedAmount = roundMoney(contributions.reduce((total, t) => total + getContributionAmount(t), 0));
+  const remainingAmount = roundMoney(Math.max(targetAmount - savedAmount, 0));
+
+  const totalDays = Math.max(daysBetween(goal.start_date, goal.target_date), 1);
+  const elapsedDays = Math.min(Math.max(daysBetween(goal.start_date, today), 0), totalDays);
+  const daysLeft = daysBetween(today, goal.target_date);
+  const expectedAmount = roundMoney(targetAmount * elapsedDays / totalDays);
+
+  // Within the last month, or past the target date, whatever is left is due now
+  const monthsLeft = daysLeft / AVERAGE_DAYS_PER_MONTH;
+  const requiredMonthly = monthsLeft >= 1 ? remainingAmount / monthsLeft : remainingAmount;
+
+  // The pace so far, counting a goal started less than a month ago as one month in
+  const monthsElapsed = Math.max(elapsedDays / AVERAGE_DAYS_PER_MONTH, 1);
+  const averageMonthly = savedAmount > 0 ? savedAmount / monthsElapsed : 0;
+
+  let projectedCompletionDate: string | null = null;
+  if (remainingAmount === 0) {
+    projectedCompletionDate = toDateKey(today);
+  } else if (averageMonthly > 0) {
+    projectedCompletionDate = addDays(today, Math.ceil((remainingAmount / averageMonthly) * AVERAGE_DAYS_PER_MONTH));
+  }
+
+  let status: 'green' | 'yellow' | 'orange' | 'red';
+  const percentageOfExpected = expectedAmount > 0 ? (savedAmount / expectedAmount) * 100 : 100;
+  if (remainingAmount === 0) {
+    status = 'green';
+  } else if (daysLeft < 0) {
+    status = 'red';
+  } else if (percentageOfExpected >= 100) {
+    status = 'green';
+  } else if (percentageOfExpected >= 90) {
+    status = 'yellow';
+  } else if (percentageOfExpected >= 70) {
+    status = 'orange';
+  } else {
+    status = 'red';
+  }
+
+  return {
+    goal,
+    currency,
+    saved_amount: savedAmount,
+    remaining_amount: remainingAmount,
+    percentage_saved: targetAmount > 0 ? roundMoney((savedAmount / targetAmount) * 100) : 0,
+    expected_amount: expectedAmount,
+    required_monthly_contribution: roundMoney(requiredMonthly),
+    average_monthly_contribution: roundMoney(averageMonthly),
+    projected_completion_date: projectedCompletionDate,
+    on_track: status === 'green',
+    status
+  };
+}
\ No newline at end of file
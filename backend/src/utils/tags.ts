@@ -0,0 +1,47 @@
+export const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS_PER_TRANSACTION = 20;
+
+// Tags are free-form but compared case-insensitively, so "Trip" and " trip" are one tag
+export const normalizeTagName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Normalize a list of tag names, dropping blanks and duplicates while keeping
+ * the order they were given in. Returns null when a name is not a string or
+ * is too long, or there are more tags than a transaction may carry.
+ */
+export function normalizeTagNames(names: unknown): string[] | null {
+  if (!Array.isArray(names)) {
+    return null;
+  }
+
+  const normalized: string[] = [];
+  for (const name of names) {
+    if (typeof name !== 'string') {
+      return null;
+    }
+
+    const tag = normalizeTagName(name);
+    if (tag.length > MAX_TAG_LENGTH) {
+      return null;
+    }
+
+    if (tag && !normalized.includes(tag)) {
+      normalized.push(tag);
+    }
+  }
+
+  return normalized.length <= MAX_TAGS_PER_TRANSACTION ? normalized : null;
+}
+
+// Parse a comma-separated `tags` query parameter
+export function parseTagQuery(value: unknown): string[] | null {
+  if (value === undefined || value === '') {
+    return [];
+  }
+
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  return normalizeTagNames(value.split(','));
+}
\ No newline at end of file
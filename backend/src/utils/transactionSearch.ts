@@ -0,0 +1,51 @@
+export const MAX_SEARCH_LENGTH = 200;
+
+export type AmountOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export interface AmountCondition {
+  operator: AmountOperator;
+  amount: number;
+}
+
+export interface TransactionSearch {
+  terms: string[]; // Each must appear in the title, category, wallet or a tag
+  amounts: AmountCondition[]; // Each must hold for the amount
+}
+
+// `>100`, `<=49.99` or `=1,200`, with no space after the operator
+const AMOUNT_EXPRESSION = /^(>=|<=|>|<|=)(\d[\d,]*(?:\.\d{1,2})?)$/;
+
+/**
+ * Break a free-text search into words and amount expressions. Words in
+ * double quotes are kept together as one phrase, so `"apple music"` does not
+ * also match every "apple" purchase.
+ */
+export function parseSearchQuery(query: string): TransactionSearch {
+  const search: TransactionSearch = { terms: [], amounts: [] };
+  const tokens = query.match(/"[^"]*"|\S+/g) || [];
+
+  for (const token of tokens) {
+    const amountMatch = token.match(AMOUNT_EXPRESSION);
+    if (amountMatch) {
+      search.amounts.push({
+        operator: amountMatch[1] as AmountOperator,
+        amount: Number(amountMatch[2].replace(/,/g, ''))
+      });
+      continue;
+    }
+
+    // A lone operator is most likely an amount typed with a space, such as `> 100`
+    const term = token.replace(/^"|"$/g, '').trim().toLowerCase();
+    if (term && !/^[<>=]+$/.test(term) && !search.terms.includes(term)) {
+      search.terms.push(term);
+    }
+  }
+
+  return search;
+}
+
+export const isEmptySearch = (search: TransactionSearch): boolean =>
+  search.terms.length === 0 && search.amounts.length === 0;
+
+// Match a term literally inside ILIKE, where % and _ are wildcards
+export const toLikePattern = (term: string): string => `%${term.replace(/[\\%_]/g, '\\$&')}%`;
\ No newline at end of file
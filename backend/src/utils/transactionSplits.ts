@@ -0,0 +1,51 @@
+import { Transaction, TransactionSplit } from '../types';
+
+export interface CategoryLine {
+  transaction: Transaction;
+  split: TransactionSplit | null; // Null for transactions that are not split
+  category_id: string | null;
+  amount: number;
+}
+
+// Amounts are compared in cents so 0.1 + 0.2 adds up to 0.3
+export const toCents = (amount: number | string): number => Math.round(Number(amount) * 100);
+
+export function splitsMatchTotal(amount: number | string, splits: { amount: number | string }[]): boolean {
+  const splitTotal = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+  return splitTotal === toCents(amount);
+}
+
+/**
+ * Break transactions down into the lines that carry a category: the split
+ * lines of split transactions, and every other transaction as a single line.
+ * Anything that totals by category should go through this, so a split
+ * receipt is counted once per line and never under its (empty) parent.
+ */
+export function toCategoryLines(transactions: Transaction[], splits: TransactionSplit[]): CategoryLine[] {
+  const splitsByTransaction = new Map<string, TransactionSplit[]>();
+  for (const split of splits) {
+    const lines = splitsByTransaction.get(split.transaction_id) || [];
+    lines.push(split);
+    splitsByTransaction.set(split.transaction_id, lines);
+  }
+
+  const lines: CategoryLine[] = [];
+  for (const transaction of transactions) {
+    const transactionSplits = transaction.is_split ? splitsByTransaction.get(transaction.id) : undefined;
+
+    if (transactionSplits && transactionSplits.length > 0) {
+      for (const split of transactionSplits) {
+        lines.push({ transaction, split, category_id: split.category_id, amount: Number(split.amount) || 0 });
+      }
+    } else {
+      lines.push({ transaction, split: null, category_id: transaction.category_id, amount: Number(transaction.amount) || 0 });
+    }
+  }
+
+  return lines;
+}
+
+// Ids of the split transactions among `transactions`, for loading their lines
+export function splitTransactionIds(transactions: Transaction[]): string[] {
+  return transactions.filter(transaction => transaction.is_split).map(transaction => transaction.id);
+}
\ No newline at end of file
@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AuditAction, AuditEntityType, AuditLogEntry, AuditLogListResponse } from '@/types';
+
+interface AuditLogPanelProps {
+  title: string;
+  subtitle: string;
+  loadEntries: (page: number, entityType?: AuditEntityType) => Promise<AuditLogListResponse>;
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  transaction: 'Transaction',
+  budget: 'Budget',
+  category: 'Category',
+  wallet: 'Wallet',
+  reminder: 'Reminder',
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  restore: 'bg-yellow-100 text-yellow-800',
+};
+
+// Bookkeeping columns that change with every edit and say nothing about it
+const IGNORED_FIELDS = ['updated_at', 'created_at'];
+
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ title, subtitle, loadEntries, onClose }) => {
+  const [result, setResult] = useState<AuditLogListResponse | null>(null);
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [page, entityType]);
+
+  const fetchEntries = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setResult(await loadEntries(page, entityType || undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getEntityName = (entry: AuditLogEntry) => {
+    const snapshot = entry.after || entry.before;
+    return snapshot?.title || snapshot?.name || ENTITY_LABELS[entry.entity_type];
+  };
+
+  const getChangedFields = (entry: AuditLogEntry) => {
+    if (entry.action !== 'update' || !entry.before || !entry.after) {
+      return [];
+    }
+
+    const before = entry.before;
+    const after = entry.after;
+    return Object.keys(after).filter(key =>
+      !IGNORED_FIELDS.includes(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+    );
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') {
+      return '—';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className="text-xl font-medium text-gray-900">{title}</h3>
+              <p className="text-sm text-gray-600 mt-1">{subtitle}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="mb-4">
+            <select
+              value={entityType}
+              onChange={(e) => {
+                setEntityType(e.target.value as AuditEntityType | '');
+                setPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All changes</option>
+              {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(type => (
+                <option key={type} value={type}>{ENTITY_LABELS[type]}s</option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-4">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex justify-center items-center h-32">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+
+          {!loading && result && result.entries.length === 0 && (
+            <p className="text-center text-sm text-gray-500 py-8">No changes recorded yet.</p>
+          )}
+
+          {!loading && result && result.entries.length > 0 && (
+            <ul className="divide-y divide-gray-200 max-h-[60vh] overflow-y-auto">
+              {result.entries.map(entry => (
+                <li key={entry.id} className="py-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                      {entry.action.charAt(0).toUpperCase() + entry.action.slice(1)}
+                    </span>
+                    <span className="text-sm font-medium text-gray-900">{getEntityName(entry)}</span>
+                    <span className="text-xs text-gray-500">{ENTITY_LABELS[entry.entity_type]}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {entry.actor_username || 'System or removed user'} &middot; {new Date(entry.created_at).toLocaleString()}
+                  </p>
+                  {getChangedFields(entry).length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {getChangedFields(entry).map(field => (
+                        <li key={field} className="text-xs text-gray-600">
+                          <span className="font-medium">{field}</span>: {formatValue(entry.before?.[field])} &rarr; {formatValue(entry.after?.[field])}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {result && result.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-200">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={loading || page <= 1}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">
+                Page {result.page} of {result.totalPages}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={loading || page >= result.totalPages}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogPanel;
\ No newline at end of file
@@ -1,9 +1,11 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Budget, BudgetStatus, Wallet } from '@/types';
 import { useBudget } from '@/contexts/BudgetContext';
 import { useWallet } from '@/contexts/WalletContext';
+import { useCategory } from '@/contexts/CategoryContext';
 import { BudgetForm } from './BudgetForm';
 
 interface BudgetCardProps {
@@ -19,6 +21,7 @@ export const BudgetCard: React.FC<BudgetCardProps> = ({
 }) => {
   const { fetchBudgetStatus, getBudgetStatusById, deleteBudget } = useBudget();
   const { wallets } = useWallet();
+  const { categories } = useCategory();
   const [budgetStatus, setBudgetStatus] = useState<BudgetStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [showEditForm, setShowEditForm] = useState(false);
@@ -50,6 +53,12 @@ export const BudgetCard: React.FC<BudgetCardProps> = ({
     return wallet ? wallet.name : 'Unknown Wallet';
   };
 
+  const getCategoryName = (): string | null => {
+    if (!budget.category_id) return null;
+    const category = categories.find(c => c.id === budget.category_id);
+    return category ? category.name : 'Unknown Category';
+  };
+
   const getStatusColor = (status: string): string => {
     switch (status) {
       case 'green':
@@ -142,6 +151,9 @@ export const BudgetCard: React.FC<BudgetCardProps> = ({
             {formatMonth(budget.month)}
           </h3>
           <p className="text-sm text-gray-600">{getWalletName()}</p>
+          {budget.category_id && (
+            <p className="text-xs text-gray-500">{getCategoryName()}</p>
+          )}
         </div>
         
         <div className="flex gap-2">
@@ -205,6 +217,12 @@ export const BudgetCard: React.FC<BudgetCardProps> = ({
                 }}
               ></div>
             </div>
+            {budgetStatus.missing_rate_currencies.length > 0 && (
+              <p className="text-xs text-orange-600 mt-1">
+                Leaves out {budgetStatus.missing_rate_currencies.join(', ')}.{' '}
+                <Link href="/wallets/exchange-rates" className="underline">Add rates</Link>
+              </p>
+            )}
           </div>
 
           {/* Remaining Amount */}
@@ -232,7 +250,7 @@ export const BudgetCard: React.FC<BudgetCardProps> = ({
             </h3>
             <p className="text-gray-600 mb-6">
               Are you sure you want to delete this budget for {formatMonth(budget.month)}? 
-              This action cannot be undone.
+              You can restore it from the trash for 30 days.
             </p>
             <div className="flex gap-3">
               <button
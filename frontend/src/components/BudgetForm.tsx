@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { Budget, CreateBudgetRequest, UpdateBudgetRequest, Wallet } from '@/types';
 import { useBudget } from '@/contexts/BudgetContext';
 import { useWallet } from '@/contexts/WalletContext';
+import { useCategory } from '@/contexts/CategoryContext';
 
 interface BudgetFormProps {
   budget?: Budget;
@@ -20,9 +21,11 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
 }) => {
   const { createBudget, updateBudget, loading } = useBudget();
   const { wallets } = useWallet();
+  const { getCategoriesByType } = useCategory();
   
   const [formData, setFormData] = useState({
     wallet_id: walletId || budget?.wallet_id || '',
+    category_id: budget?.category_id || '',
     month: budget?.month || new Date().toISOString().slice(0, 7), // YYYY-MM format
     limit: budget?.limit || 0,
   });
@@ -33,6 +36,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
     if (budget) {
       setFormData({
         wallet_id: budget.wallet_id,
+        category_id: budget.category_id || '',
         month: budget.month,
         limit: budget.limit,
       });
@@ -79,6 +83,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
         // Create new budget
         const createData: CreateBudgetRequest = {
           wallet_id: formData.wallet_id,
+          category_id: formData.category_id || null,
           month: formData.month,
           limit: formData.limit,
         };
@@ -86,6 +91,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
         if (result) {
           setFormData({
             wallet_id: walletId || '',
+            category_id: '',
             month: new Date().toISOString().slice(0, 7),
             limit: 0,
           });
@@ -102,6 +108,8 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
     setFormData(prev => ({
       ...prev,
       [name]: name === 'limit' ? parseFloat(value) || 0 : value,
+      // Category choices depend on the wallet, so reset on wallet change
+      ...(name === 'wallet_id' ? { category_id: '' } : {}),
     }));
 
     // Clear error when user starts typing
@@ -118,6 +126,17 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
     return wallet ? wallet.name : 'Unknown Wallet';
   };
 
+  // Expense categories that are personal or belong to the selected wallet
+  const availableCategories = getCategoriesByType('Expense').filter(
+    category => !category.wallet_id || category.wallet_id === formData.wallet_id
+  );
+
+  const getCategoryName = (categoryId: string | null): string => {
+    if (!categoryId) return 'Entire wallet';
+    const category = getCategoriesByType('Expense').find(c => c.id === categoryId);
+    return category ? category.name : 'Unknown Category';
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-md p-4 sm:p-6">
       <h2 className="text-lg sm:text-xl font-semibold text-gray-900 mb-4 sm:mb-6">
@@ -158,6 +177,34 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
           )}
         </div>
 
+        {/* Category Selection */}
+        <div>
+          <label htmlFor="category_id" className="block text-sm font-medium text-gray-700 mb-1">
+            Category
+          </label>
+          {budget ? (
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-900">
+              {getCategoryName(budget.category_id)}
+            </div>
+          ) : (
+            <select
+              id="category_id"
+              name="category_id"
+              value={formData.category_id}
+              onChange={handleInputChange}
+              disabled={!formData.wallet_id}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base sm:text-sm disabled:bg-gray-50"
+            >
+              <option value="">Entire wallet</option>
+              {availableCategories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
         {/* Month Selection */}
         <div>
           <label htmlFor="month" className="block text-sm font-medium text-gray-700 mb-1">
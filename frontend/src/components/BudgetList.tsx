@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { Budget, Wallet } from '@/types';
 import { useBudget } from '@/contexts/BudgetContext';
 import { useWallet } from '@/contexts/WalletContext';
+import { useCategory } from '@/contexts/CategoryContext';
 import { BudgetCard } from './BudgetCard';
 
 interface BudgetListProps {
@@ -19,6 +20,7 @@ export const BudgetList: React.FC<BudgetListProps> = ({
 }) => {
   const { budgets, fetchUserBudgets, fetchWalletBudgets, loading } = useBudget();
   const { wallets } = useWallet();
+  const { categories } = useCategory();
   const [filteredBudgets, setFilteredBudgets] = useState<Budget[]>([]);
   const [selectedWallet, setSelectedWallet] = useState<string>(walletId || 'all');
 
@@ -50,9 +52,21 @@ export const BudgetList: React.FC<BudgetListProps> = ({
     return wallet ? wallet.name : 'Unknown Wallet';
   };
 
+  const getCategoryName = (categoryId: string | null): string => {
+    const category = categories.find(c => c.id === categoryId);
+    return category ? category.name : '';
+  };
+
   const sortedBudgets = [...filteredBudgets].sort((a, b) => {
     // Sort by month descending (newest first)
-    return b.month.localeCompare(a.month);
+    const byMonth = b.month.localeCompare(a.month);
+    if (byMonth !== 0) return byMonth;
+
+    // Wallet-level budgets before category budgets, then by category name
+    if (!a.category_id || !b.category_id) {
+      return (a.category_id ? 1 : 0) - (b.category_id ? 1 : 0);
+    }
+    return getCategoryName(a.category_id).localeCompare(getCategoryName(b.category_id));
   });
 
   if (loading && budgets.length === 0) {
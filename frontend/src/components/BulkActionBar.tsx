@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useWallet } from '@/contexts/WalletContext';
+import { useCategory } from '@/contexts/CategoryContext';
+import {
+  TransactionService,
+  TransactionFilters,
+  BulkTransactionChanges,
+  BulkTransactionResult,
+} from '@/utils/transactionApi';
+
+// Why an item was left out, for the error codes a bulk change can report per item
+const SKIPPED_REASONS: Record<string, string> = {
+  VALIDATION_INVALID_TRANSFER_UPDATE: 'transfers are edited one at a time',
+  VALIDATION_SPLIT_WITH_CATEGORY: 'split transactions are categorized by their lines',
+  VALIDATION_GOAL_CURRENCY_MISMATCH: 'their savings goal uses another currency',
+  VALIDATION_DUPLICATE_EXTERNAL_ID: 'the wallet already has a transaction with the same bank id',
+  AUTH_RESOURCE_FORBIDDEN: 'the category or wallet is not available to them',
+  RESOURCE_NOT_FOUND: 'they no longer exist',
+};
+
+const UNCATEGORIZED = '__none__';
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  selectAllMatching: boolean;
+  selectedCount: number;
+  filters: Omit<TransactionFilters, 'page' | 'limit'>;
+  onClear: () => void;
+  onComplete: () => void;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedIds,
+  selectAllMatching,
+  selectedCount,
+  filters,
+  onClear,
+  onComplete,
+}) => {
+  const { wallets = [] } = useWallet();
+  const { categories = [] } = useCategory();
+  const [categoryId, setCategoryId] = useState('');
+  const [walletId, setWalletId] = useState('');
+  const [type, setType] = useState('');
+  const [working, setWorking] = useState(false);
+
+  // Cleared fields of the filter form come through as empty strings, which the API rejects
+  const filter = Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== '' && value !== undefined));
+  const selection = selectAllMatching ? { filter } : { ids: selectedIds };
+  const hasChanges = !!(categoryId || walletId || type);
+
+  const reportResult = (result: BulkTransactionResult, action: string) => {
+    if (result.succeeded > 0) {
+      toast.success(`${result.succeeded} transaction${result.succeeded === 1 ? '' : 's'} ${action}`);
+    }
+
+    if (result.failed > 0) {
+      const reasons = [...new Set(result.results
+        .filter(item => item.status === 'failed')
+        .map(item => SKIPPED_REASONS[item.error || ''] || 'they could not be changed'))];
+      toast.error(`${result.failed} skipped: ${reasons.join('; ')}`);
+    }
+  };
+
+  const handleApply = async () => {
+    const changes: BulkTransactionChanges = {};
+    if (categoryId) changes.category_id = categoryId === UNCATEGORIZED ? null : categoryId;
+    if (walletId) changes.wallet_id = walletId;
+    if (type === 'Income' || type === 'Expense') changes.type = type;
+
+    try {
+      setWorking(true);
+      reportResult(await TransactionService.bulkUpdate(selection, changes), 'updated');
+      setCategoryId('');
+      setWalletId('');
+      setType('');
+      onComplete();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update transactions';
+      toast.error(message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete ${selectedCount} transaction${selectedCount === 1 ? '' : 's'}? You can restore them from the trash for 30 days.`)) {
+      return;
+    }
+
+    try {
+      setWorking(true);
+      reportResult(await TransactionService.bulkDelete(selection), 'deleted');
+      onComplete();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete transactions';
+      toast.error(message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const selectClassName = 'block w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="bg-blue-50 border-b border-blue-200 px-4 py-3 sm:px-6">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm font-medium text-blue-900">
+            {selectedCount} selected
+          </span>
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-sm text-blue-700 hover:text-blue-900"
+          >
+            Clear
+          </button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 lg:ml-auto">
+          <select
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            aria-label="Set category"
+            className={selectClassName}
+          >
+            <option value="">Category...</option>
+            <option value={UNCATEGORIZED}>Uncategorized</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={walletId}
+            onChange={(e) => setWalletId(e.target.value)}
+            aria-label="Move to wallet"
+            className={selectClassName}
+          >
+            <option value="">Wallet...</option>
+            {wallets.map(wallet => (
+              <option key={wallet.id} value={wallet.id}>
+                {wallet.name}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            aria-label="Set type"
+            className={selectClassName}
+          >
+            <option value="">Type...</option>
+            <option value="Income">Income</option>
+            <option value="Expense">Expense</option>
+          </select>
+
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={working || !hasChanges}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={working}
+            className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkActionBar;
\ No newline at end of file
@@ -108,8 +108,8 @@ const CategoryCard: React.FC<CategoryCardProps> = ({ category, onEdit }) => {
               <h3 className="text-lg font-medium text-gray-900 mt-2">Delete Category</h3>
               <div className="mt-2 px-7 py-3">
                 <p className="text-sm text-gray-500">
-                  Are you sure you want to delete "{category.name}"? This action cannot be undone.
-                  Transactions using this category will become uncategorized.
+                  Are you sure you want to delete "{category.name}"? You can restore it from the trash for 30 days.
+                  Transactions using this category will show as uncategorized until it is restored.
                 </p>
               </div>
               <div className="items-center px-4 py-3">
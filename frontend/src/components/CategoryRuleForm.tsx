@@ -0,0 +1,309 @@
+'use client';
+
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { CategoryRule } from '@/types';
+import { useCategory } from '@/contexts/CategoryContext';
+import { useWallet } from '@/contexts/WalletContext';
+import { CategoryRuleData } from '@/utils/categoryRuleApi';
+
+interface CategoryRuleFormValues {
+  name: string;
+  type: 'Income' | 'Expense';
+  category_id: string;
+  wallet_id: string;
+  title_pattern: string;
+  match_type: 'contains' | 'regex';
+  min_amount: string;
+  max_amount: string;
+  priority: string;
+}
+
+interface CategoryRuleFormProps {
+  rule?: CategoryRule;
+  onSubmit: (data: CategoryRuleData) => Promise<void>;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+const toAmount = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const CategoryRuleForm: React.FC<CategoryRuleFormProps> = ({
+  rule,
+  onSubmit,
+  onCancel,
+  loading = false,
+}) => {
+  const { categories } = useCategory();
+  const { wallets } = useWallet();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+    setError,
+  } = useForm<CategoryRuleFormValues>({
+    defaultValues: {
+      name: rule?.name || '',
+      type: rule?.type || 'Expense',
+      category_id: rule?.category_id || '',
+      wallet_id: rule?.wallet_id || '',
+      title_pattern: rule?.title_pattern || '',
+      match_type: rule?.match_type || 'contains',
+      min_amount: rule?.min_amount != null ? String(rule.min_amount) : '',
+      max_amount: rule?.max_amount != null ? String(rule.max_amount) : '',
+      priority: String(rule?.priority ?? 0),
+    },
+  });
+
+  const type = watch('type');
+  const walletId = watch('wallet_id');
+  const selectedWallet = wallets.find(wallet => wallet.id === walletId);
+
+  // Rules for all wallets use personal categories; family wallet rules use the wallet's own categories
+  const availableCategories = categories.filter(category => {
+    if (category.type !== type) return false;
+    if (!selectedWallet) return category.wallet_id === null;
+    if (selectedWallet.is_family) return category.wallet_id === selectedWallet.id;
+    return category.wallet_id === null || category.wallet_id === selectedWallet.id;
+  });
+
+  const handleFormSubmit = async (values: CategoryRuleFormValues) => {
+    const minAmount = toAmount(values.min_amount);
+    const maxAmount = toAmount(values.max_amount);
+
+    if (!values.title_pattern.trim() && minAmount === null && maxAmount === null) {
+      setError('title_pattern', {
+        type: 'manual',
+        message: 'Enter a title pattern or an amount range',
+      });
+      return;
+    }
+
+    try {
+      await onSubmit({
+        name: values.name.trim(),
+        type: values.type,
+        category_id: values.category_id,
+        ...(rule ? {} : { wallet_id: values.wallet_id || null }),
+        title_pattern: values.title_pattern.trim() || null,
+        match_type: values.match_type,
+        min_amount: minAmount,
+        max_amount: maxAmount,
+        priority: Number(values.priority) || 0,
+      });
+    } catch (error) {
+      setError('root', {
+        type: 'manual',
+        message: error instanceof Error ? error.message : 'Operation failed',
+      });
+    }
+  };
+
+  const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 p-4">
+      <div className="relative top-4 sm:top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 text-center">
+            {rule ? 'Edit Rule' : 'Create New Rule'}
+          </h3>
+
+          <form onSubmit={handleSubmit(handleFormSubmit)} className="mt-6 space-y-4">
+            <div>
+              <label htmlFor="rule_name" className="block text-sm font-medium text-gray-700">
+                Rule Name
+              </label>
+              <input
+                id="rule_name"
+                {...register('name', {
+                  required: 'Rule name is required',
+                  maxLength: {
+                    value: 255,
+                    message: 'Rule name must be 255 characters or less',
+                  },
+                })}
+                type="text"
+                className={inputClassName}
+                placeholder="e.g. Supermarkets"
+              />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="rule_wallet_id" className="block text-sm font-medium text-gray-700">
+                  Applies To
+                </label>
+                <select
+                  id="rule_wallet_id"
+                  {...register('wallet_id')}
+                  disabled={!!rule}
+                  className={`${inputClassName} disabled:bg-gray-100`}
+                >
+                  <option value="">All my wallets</option>
+                  {wallets.map(wallet => (
+                    <option key={wallet.id} value={wallet.id}>
+                      {wallet.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="rule_type" className="block text-sm font-medium text-gray-700">
+                  Transaction Type
+                </label>
+                <select id="rule_type" {...register('type')} className={inputClassName}>
+                  <option value="Expense">Expense</option>
+                  <option value="Income">Income</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="rule_category_id" className="block text-sm font-medium text-gray-700">
+                Assign Category
+              </label>
+              <select
+                id="rule_category_id"
+                {...register('category_id', { required: 'Category is required' })}
+                className={inputClassName}
+              >
+                <option value="">Select a category</option>
+                {availableCategories.map(category => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+              {errors.category_id && (
+                <p className="mt-1 text-sm text-red-600">{errors.category_id.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="sm:col-span-2">
+                <label htmlFor="rule_title_pattern" className="block text-sm font-medium text-gray-700">
+                  Title Pattern
+                </label>
+                <input
+                  id="rule_title_pattern"
+                  {...register('title_pattern', {
+                    maxLength: {
+                      value: 255,
+                      message: 'Pattern must be 255 characters or less',
+                    },
+                  })}
+                  type="text"
+                  className={inputClassName}
+                  placeholder="e.g. grocery"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="rule_match_type" className="block text-sm font-medium text-gray-700">
+                  Match
+                </label>
+                <select id="rule_match_type" {...register('match_type')} className={inputClassName}>
+                  <option value="contains">Contains</option>
+                  <option value="regex">Regex</option>
+                </select>
+              </div>
+            </div>
+            {errors.title_pattern && (
+              <p className="-mt-2 text-sm text-red-600">{errors.title_pattern.message}</p>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="rule_min_amount" className="block text-sm font-medium text-gray-700">
+                  Min Amount
+                </label>
+                <input
+                  id="rule_min_amount"
+                  {...register('min_amount', {
+                    min: { value: 0, message: 'Must not be negative' },
+                  })}
+                  type="number"
+                  step="0.01"
+                  className={inputClassName}
+                  placeholder="Any"
+                />
+                {errors.min_amount && (
+                  <p className="mt-1 text-sm text-red-600">{errors.min_amount.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="rule_max_amount" className="block text-sm font-medium text-gray-700">
+                  Max Amount
+                </label>
+                <input
+                  id="rule_max_amount"
+                  {...register('max_amount', {
+                    min: { value: 0, message: 'Must not be negative' },
+                  })}
+                  type="number"
+                  step="0.01"
+                  className={inputClassName}
+                  placeholder="Any"
+                />
+                {errors.max_amount && (
+                  <p className="mt-1 text-sm text-red-600">{errors.max_amount.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="rule_priority" className="block text-sm font-medium text-gray-700">
+                  Priority
+                </label>
+                <input
+                  id="rule_priority"
+                  {...register('priority')}
+                  type="number"
+                  step="1"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Rules only fill in transactions without a category. Higher priority rules are tried first.
+            </p>
+
+            {errors.root && (
+              <div className="rounded-md bg-red-50 p-4">
+                <h3 className="text-sm font-medium text-red-800">
+                  {errors.root.message}
+                </h3>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {rule ? 'Update' : 'Create'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryRuleForm;
\ No newline at end of file
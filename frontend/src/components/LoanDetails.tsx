@@ -0,0 +1,290 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AmortizationSchedule, LoanPayment, LoanSimulation, LoanSummary } from '@/types';
+import { LoanService } from '@/utils/loanApi';
+import { formatMoney } from '@/utils/currency';
+import toast from 'react-hot-toast';
+
+interface LoanDetailsProps {
+  summary: LoanSummary;
+  onChange: (summary: LoanSummary) => void;
+  onClose: () => void;
+}
+
+const formatDate = (date: string) => {
+  return new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const LoanDetails: React.FC<LoanDetailsProps> = ({ summary, onChange, onClose }) => {
+  const loanId = summary.loan.id;
+  const [payments, setPayments] = useState<LoanPayment[]>([]);
+  const [schedule, setSchedule] = useState<AmortizationSchedule | null>(null);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [paymentAmount, setPaymentAmount] = useState(String(summary.monthly_payment));
+  const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
+  const [savingPayment, setSavingPayment] = useState(false);
+  const [extraMonthly, setExtraMonthly] = useState('');
+  const [lumpSum, setLumpSum] = useState('');
+  const [simulation, setSimulation] = useState<LoanSimulation | null>(null);
+  const [simulating, setSimulating] = useState(false);
+
+  useEffect(() => {
+    const loadDetails = async () => {
+      try {
+        const [loadedPayments, loadedSchedule] = await Promise.all([
+          LoanService.getPayments(loanId),
+          LoanService.getSchedule(loanId),
+        ]);
+        setPayments(loadedPayments);
+        setSchedule(loadedSchedule);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to load loan details';
+        toast.error(message);
+      }
+    };
+
+    loadDetails();
+  }, [loanId]);
+
+  // Payments change the balance and payoff date shown on the loan
+  const refreshSummary = async (updatedPayments: LoanPayment[]) => {
+    setPayments(updatedPayments);
+    setSimulation(null);
+    onChange(await LoanService.getLoan(loanId));
+  };
+
+  const handleAddPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(paymentAmount);
+    if (!amount || amount <= 0) {
+      toast.error('Payment amount must be greater than 0');
+      return;
+    }
+
+    try {
+      setSavingPayment(true);
+      await refreshSummary(await LoanService.addPayment(loanId, { amount, payment_date: paymentDate }));
+      toast.success('Payment recorded');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to record payment';
+      toast.error(message);
+    } finally {
+      setSavingPayment(false);
+    }
+  };
+
+  const handleRemovePayment = async (paymentId: string) => {
+    try {
+      await refreshSummary(await LoanService.removePayment(loanId, paymentId));
+      toast.success('Payment unlinked; its transaction was kept');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to unlink payment';
+      toast.error(message);
+    }
+  };
+
+  const handleSimulate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSimulating(true);
+      setSimulation(await LoanService.simulate(loanId, Number(extraMonthly) || 0, Number(lumpSum) || 0));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to simulate extra payments';
+      toast.error(message);
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const money = (amount: number) => formatMoney(amount, summary.currency);
+  const inputClassName = 'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 p-4">
+      <div className="relative top-4 sm:top-10 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{summary.loan.name}</h3>
+            <p className="text-sm text-gray-500">
+              {money(Number(summary.loan.principal))} at {Number(summary.loan.annual_rate)}% APR over {summary.loan.term_months} months
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+
+        {/* Payments */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Payments</h4>
+          {payments.length === 0 ? (
+            <p className="text-sm text-gray-500">No payments recorded yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                    <th className="py-2 pr-4 font-medium text-right">Principal</th>
+                    <th className="py-2 pr-4 font-medium text-right">Interest</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {payments.map(payment => (
+                    <tr key={payment.id}>
+                      <td className="py-2 pr-4 text-gray-900">{formatDate(payment.transaction_date)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-900">{money(payment.amount)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-700">{money(payment.principal_amount)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-700">{money(payment.interest_amount)}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => handleRemovePayment(payment.id)}
+                          className="text-xs text-red-600 hover:text-red-800"
+                        >
+                          Unlink
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {summary.remaining_balance > 0 && (
+            <form onSubmit={handleAddPayment} className="mt-3 flex flex-col sm:flex-row gap-2">
+              <input
+                type="number"
+                step="0.01"
+                value={paymentAmount}
+                onChange={e => setPaymentAmount(e.target.value)}
+                className={inputClassName}
+                aria-label="Payment amount"
+              />
+              <input
+                type="date"
+                value={paymentDate}
+                onChange={e => setPaymentDate(e.target.value)}
+                className={inputClassName}
+                aria-label="Payment date"
+              />
+              <button
+                type="submit"
+                disabled={savingPayment}
+                className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+              >
+                Record Payment
+              </button>
+            </form>
+          )}
+        </div>
+
+        {/* What-if */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Pay Extra?</h4>
+          <form onSubmit={handleSimulate} className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={extraMonthly}
+              onChange={e => setExtraMonthly(e.target.value)}
+              className={inputClassName}
+              placeholder="Extra each month"
+            />
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={lumpSum}
+              onChange={e => setLumpSum(e.target.value)}
+              className={inputClassName}
+              placeholder="One-off lump sum"
+            />
+            <button
+              type="submit"
+              disabled={simulating}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 whitespace-nowrap"
+            >
+              Simulate
+            </button>
+          </form>
+
+          {simulation && (
+            <dl className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+              <div>
+                <dt className="text-gray-500">Payoff now</dt>
+                <dd className="font-medium text-gray-900">
+                  {simulation.baseline.payoff_date ? formatDate(simulation.baseline.payoff_date) : 'Never'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Payoff with extra</dt>
+                <dd className="font-medium text-gray-900">
+                  {simulation.simulated.payoff_date ? formatDate(simulation.simulated.payoff_date) : 'Never'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Interest saved</dt>
+                <dd className="font-medium text-green-600">{money(simulation.interest_saved)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Months saved</dt>
+                <dd className="font-medium text-green-600">{simulation.months_saved}</dd>
+              </div>
+            </dl>
+          )}
+        </div>
+
+        {/* Schedule */}
+        {schedule && (
+          <div>
+            <button
+              onClick={() => setShowSchedule(prev => !prev)}
+              className="text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              {showSchedule ? 'Hide' : 'Show'} amortization schedule ({schedule.rows.length} payments, {money(schedule.total_interest)} interest)
+            </button>
+
+            {showSchedule && (
+              <div className="mt-2 max-h-80 overflow-y-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="text-left text-gray-500">
+                      <th className="py-2 pr-4 font-medium">#</th>
+                      <th className="py-2 pr-4 font-medium">Due</th>
+                      <th className="py-2 pr-4 font-medium text-right">Payment</th>
+                      <th className="py-2 pr-4 font-medium text-right">Principal</th>
+                      <th className="py-2 pr-4 font-medium text-right">Interest</th>
+                      <th className="py-2 font-medium text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {schedule.rows.map(row => (
+                      <tr key={row.period}>
+                        <td className="py-1.5 pr-4 text-gray-500">{row.period}</td>
+                        <td className="py-1.5 pr-4 text-gray-900">{formatDate(row.payment_date)}</td>
+                        <td className="py-1.5 pr-4 text-right text-gray-900">{money(row.payment)}</td>
+                        <td className="py-1.5 pr-4 text-right text-gray-700">{money(row.principal)}</td>
+                        <td className="py-1.5 pr-4 text-right text-gray-700">{money(row.interest)}</td>
+                        <td className="py-1.5 text-right text-gray-900">{money(row.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoanDetails;
\ No newline at end of file
@@ -0,0 +1,249 @@
+'use client';
+
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { Loan } from '@/types';
+import { useWallet } from '@/contexts/WalletContext';
+import { CreateLoanData } from '@/utils/loanApi';
+
+interface LoanFormValues {
+  name: string;
+  wallet_id: string;
+  principal: string;
+  annual_rate: string;
+  term_months: string;
+  start_date: string;
+  create_reminder: boolean;
+}
+
+interface LoanFormProps {
+  loan?: Loan;
+  onSubmit: (data: CreateLoanData) => Promise<void>;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+const LoanForm: React.FC<LoanFormProps> = ({
+  loan,
+  onSubmit,
+  onCancel,
+  loading = false,
+}) => {
+  const { wallets } = useWallet();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setError,
+  } = useForm<LoanFormValues>({
+    defaultValues: {
+      name: loan?.name || '',
+      wallet_id: loan?.wallet_id || '',
+      principal: loan ? String(Number(loan.principal)) : '',
+      annual_rate: loan ? String(Number(loan.annual_rate)) : '',
+      term_months: loan ? String(loan.term_months) : '',
+      start_date: loan ? loan.start_date.split('T')[0] : new Date().toISOString().split('T')[0],
+      create_reminder: false,
+    },
+  });
+
+  const handleFormSubmit = async (values: LoanFormValues) => {
+    try {
+      await onSubmit({
+        name: values.name.trim(),
+        wallet_id: values.wallet_id,
+        principal: Number(values.principal),
+        annual_rate: Number(values.annual_rate),
+        term_months: Number(values.term_months),
+        start_date: values.start_date,
+        ...(!loan && { create_reminder: values.create_reminder }),
+      });
+    } catch (error) {
+      setError('root', {
+        type: 'manual',
+        message: error instanceof Error ? error.message : 'Operation failed',
+      });
+    }
+  };
+
+  const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 p-4">
+      <div className="relative top-4 sm:top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 text-center">
+            {loan ? 'Edit Loan' : 'Add New Loan'}
+          </h3>
+
+          <form onSubmit={handleSubmit(handleFormSubmit)} className="mt-6 space-y-4">
+            <div>
+              <label htmlFor="loan_name" className="block text-sm font-medium text-gray-700">
+                Loan Name
+              </label>
+              <input
+                id="loan_name"
+                {...register('name', {
+                  required: 'Loan name is required',
+                  maxLength: {
+                    value: 255,
+                    message: 'Loan name must be 255 characters or less',
+                  },
+                })}
+                type="text"
+                className={inputClassName}
+                placeholder="e.g. Car loan"
+              />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="loan_wallet_id" className="block text-sm font-medium text-gray-700">
+                  Paid From
+                </label>
+                <select
+                  id="loan_wallet_id"
+                  {...register('wallet_id', { required: 'Wallet is required' })}
+                  disabled={!!loan}
+                  className={`${inputClassName} disabled:bg-gray-100`}
+                >
+                  <option value="">Select a wallet</option>
+                  {wallets.map(wallet => (
+                    <option key={wallet.id} value={wallet.id}>
+                      {wallet.name} ({wallet.currency})
+                    </option>
+                  ))}
+                </select>
+                {errors.wallet_id && (
+                  <p className="mt-1 text-sm text-red-600">{errors.wallet_id.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="loan_principal" className="block text-sm font-medium text-gray-700">
+                  Principal
+                </label>
+                <input
+                  id="loan_principal"
+                  {...register('principal', {
+                    required: 'Principal is required',
+                    min: { value: 0.01, message: 'Principal must be greater than 0' },
+                  })}
+                  type="number"
+                  step="0.01"
+                  className={inputClassName}
+                />
+                {errors.principal && (
+                  <p className="mt-1 text-sm text-red-600">{errors.principal.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="loan_annual_rate" className="block text-sm font-medium text-gray-700">
+                  APR (%)
+                </label>
+                <input
+                  id="loan_annual_rate"
+                  {...register('annual_rate', {
+                    required: 'APR is required',
+                    min: { value: 0, message: 'APR cannot be negative' },
+                    max: { value: 99.9999, message: 'APR must be below 100%' },
+                  })}
+                  type="number"
+                  step="0.0001"
+                  className={inputClassName}
+                />
+                {errors.annual_rate && (
+                  <p className="mt-1 text-sm text-red-600">{errors.annual_rate.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="loan_term_months" className="block text-sm font-medium text-gray-700">
+                  Term (months)
+                </label>
+                <input
+                  id="loan_term_months"
+                  {...register('term_months', {
+                    required: 'Term is required',
+                    min: { value: 1, message: 'Term must be at least 1 month' },
+                    max: { value: 600, message: 'Term must be 600 months or less' },
+                    validate: value => Number.isInteger(Number(value)) || 'Term must be a whole number of months',
+                  })}
+                  type="number"
+                  step="1"
+                  className={inputClassName}
+                />
+                {errors.term_months && (
+                  <p className="mt-1 text-sm text-red-600">{errors.term_months.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="loan_start_date" className="block text-sm font-medium text-gray-700">
+                  Start Date
+                </label>
+                <input
+                  id="loan_start_date"
+                  {...register('start_date', { required: 'Start date is required' })}
+                  type="date"
+                  className={inputClassName}
+                />
+                {errors.start_date && (
+                  <p className="mt-1 text-sm text-red-600">{errors.start_date.message}</p>
+                )}
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              The first payment is due one month after the start date.
+            </p>
+
+            {!loan && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  {...register('create_reminder')}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Remind me of each monthly payment
+              </label>
+            )}
+
+            {errors.root && (
+              <div className="rounded-md bg-red-50 p-4">
+                <h3 className="text-sm font-medium text-red-800">
+                  {errors.root.message}
+                </h3>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loan ? 'Update' : 'Create'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LoanForm;
\ No newline at end of file
@@ -2,6 +2,13 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Reminder } from '@/types';
 import { useReminder } from '@/contexts/ReminderContext';
 import { useWallet } from '@/contexts/WalletContext';
+import {
+  ScheduledOccurrence,
+  OccurrenceStatus,
+  generateReminderOccurrences,
+  getOccurrenceStatus
+} from '@/utils/reminderOccurrences';
+import { toDateKey } from '@/utils/dates';
 
 interface ReminderCalendarProps {
   onReminderClick?: (reminder: Reminder) => void;
@@ -11,215 +18,29 @@ interface CalendarDay {
   date: Date;
   isCurrentMonth: boolean;
   isToday: boolean;
-  reminders: ReminderOccurrence[];
-}
-
-interface ReminderOccurrence {
-  reminder: Reminder;
-  isRecurring: boolean;
-  originalDate: Date;
+  reminders: ScheduledOccurrence[];
 }
 
 export const ReminderCalendar: React.FC<ReminderCalendarProps> = ({
   onReminderClick
 }) => {
-  const { reminders, fetchUserReminders, loading } = useReminder();
+  const {
+    reminders,
+    settlements,
+    fetchUserReminders,
+    fetchSettlements,
+    settleOccurrence,
+    skipOccurrence,
+    loading
+  } = useReminder();
   const { wallets } = useWallet();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
 
   useEffect(() => {
     fetchUserReminders();
-  }, [fetchUserReminders]);
-
-  // Helper function to calculate monthly occurrence with day adjustment
-  const calculateMonthlyOccurrence = (originalDate: Date, targetMonth: number, targetYear: number): Date => {
-    const originalDay = originalDate.getDate();
-    
-    // Get the last day of the target month
-    const lastDayOfMonth = new Date(targetYear, targetMonth + 1, 0).getDate();
-    
-    // If original day is greater than the last day of target month, use last day
-    const adjustedDay = Math.min(originalDay, lastDayOfMonth);
-    
-    return new Date(targetYear, targetMonth, adjustedDay);
-  };
-
-  // Generate all occurrences for a reminder within the calendar view
-  const generateReminderOccurrences = (reminder: Reminder, startDate: Date, endDate: Date): ReminderOccurrence[] => {
-    const occurrences: ReminderOccurrence[] = [];
-    const originalDueDate = new Date(reminder.due_date);
-    
-    // If it's a one-time reminder, just check if it falls within the range
-    if (reminder.recurrence === 'once') {
-      if (originalDueDate >= startDate && originalDueDate <= endDate) {
-        occurrences.push({
-          reminder,
-          isRecurring: false,
-          originalDate: originalDueDate
-        });
-      }
-      return occurrences;
-    }
-
-    // For recurring reminders, we need to find all occurrences in the date range
-    switch (reminder.recurrence) {
-      case 'daily':
-        {
-          let currentDate = new Date(originalDueDate);
-          
-          // If original due date is before start date, find the first occurrence within range
-          if (currentDate < startDate) {
-            const daysDiff = Math.ceil((startDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-            currentDate.setDate(currentDate.getDate() + daysDiff);
-          }
-          
-          while (currentDate <= endDate) {
-            if (currentDate >= startDate) {
-              occurrences.push({
-                reminder,
-                isRecurring: true,
-                originalDate: new Date(currentDate)
-              });
-            }
-            currentDate.setDate(currentDate.getDate() + 1);
-            
-            // Check duration end
-            if (reminder.duration_end && currentDate > new Date(reminder.duration_end)) {
-              break;
-            }
-          }
-        }
-        break;
-        
-      case 'weekly':
-        {
-          let currentDate = new Date(originalDueDate);
-          
-          // If original due date is before start date, find the first occurrence within range
-          if (currentDate < startDate) {
-            const daysDiff = Math.ceil((startDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-            const weeksDiff = Math.ceil(daysDiff / 7);
-            currentDate.setDate(currentDate.getDate() + (weeksDiff * 7));
-          }
-          
-          while (currentDate <= endDate) {
-            if (currentDate >= startDate) {
-              occurrences.push({
-                reminder,
-                isRecurring: true,
-                originalDate: new Date(currentDate)
-              });
-            }
-            currentDate.setDate(currentDate.getDate() + 7);
-            
-            // Check duration end
-            if (reminder.duration_end && currentDate > new Date(reminder.duration_end)) {
-              break;
-            }
-          }
-        }
-        break;
-        
-      case 'monthly':
-        {
-          const originalDay = originalDueDate.getDate();
-          
-          // Start from the original due date month/year or find the first month within range
-          let currentYear = originalDueDate.getFullYear();
-          let currentMonth = originalDueDate.getMonth();
-          
-          // If original due date is before start date, find the first month within range
-          if (originalDueDate < startDate) {
-            currentYear = startDate.getFullYear();
-            currentMonth = startDate.getMonth();
-            
-            // Check if we need to go to the next month
-            const monthlyOccurrence = calculateMonthlyOccurrence(originalDueDate, currentMonth, currentYear);
-            if (monthlyOccurrence < startDate) {
-              currentMonth++;
-              if (currentMonth > 11) {
-                currentMonth = 0;
-                currentYear++;
-              }
-            }
-          }
-          
-          // Generate monthly occurrences
-          const maxIterations = 50; // Prevent infinite loops
-          let iterations = 0;
-          
-          while (iterations < maxIterations) {
-            iterations++;
-            
-            const monthlyOccurrence = calculateMonthlyOccurrence(originalDueDate, currentMonth, currentYear);
-            
-            // If this occurrence is past our end date, stop
-            if (monthlyOccurrence > endDate) {
-              break;
-            }
-            
-            // If this occurrence is within our range, add it
-            if (monthlyOccurrence >= startDate && monthlyOccurrence <= endDate) {
-              occurrences.push({
-                reminder,
-                isRecurring: true,
-                originalDate: new Date(monthlyOccurrence)
-              });
-            }
-            
-            // Move to next month
-            currentMonth++;
-            if (currentMonth > 11) {
-              currentMonth = 0;
-              currentYear++;
-            }
-            
-            // Check duration end
-            if (reminder.duration_end) {
-              const nextOccurrence = calculateMonthlyOccurrence(originalDueDate, currentMonth, currentYear);
-              if (nextOccurrence > new Date(reminder.duration_end)) {
-                break;
-              }
-            }
-          }
-        }
-        break;
-        
-      case 'custom':
-        {
-          if (!reminder.recurrence_interval) break;
-          
-          let currentDate = new Date(originalDueDate);
-          
-          // If original due date is before start date, find the first occurrence within range
-          if (currentDate < startDate) {
-            const daysDiff = Math.ceil((startDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-            const intervalsDiff = Math.ceil(daysDiff / reminder.recurrence_interval);
-            currentDate.setDate(currentDate.getDate() + (intervalsDiff * reminder.recurrence_interval));
-          }
-          
-          while (currentDate <= endDate) {
-            if (currentDate >= startDate) {
-              occurrences.push({
-                reminder,
-                isRecurring: true,
-                originalDate: new Date(currentDate)
-              });
-            }
-            currentDate.setDate(currentDate.getDate() + reminder.recurrence_interval);
-            
-            // Check duration end
-            if (reminder.duration_end && currentDate > new Date(reminder.duration_end)) {
-              break;
-            }
-          }
-        }
-        break;
-    }
-    
-    return occurrences;
-  };
+    fetchSettlements();
+  }, [fetchUserReminders, fetchSettlements]);
 
   // Generate calendar days for the current month
   const calendarDays = useMemo(() => {
@@ -244,7 +65,7 @@ export const ReminderCalendar: React.FC<ReminderCalendarProps> = ({
     today.setHours(0, 0, 0, 0);
     
     // Generate all reminder occurrences for the calendar view period
-    const allOccurrences: ReminderOccurrence[] = [];
+    const allOccurrences: ScheduledOccurrence[] = [];
     reminders.forEach(reminder => {
       if (reminder.is_active) {
         const occurrences = generateReminderOccurrences(reminder, startDate, endDate);
@@ -304,7 +125,55 @@ export const ReminderCalendar: React.FC<ReminderCalendarProps> = ({
     }).format(amount);
   };
 
-  const getDayRemindersTotal = (dayReminders: ReminderOccurrence[]) => {
+  const getStatus = (occurrence: ScheduledOccurrence): OccurrenceStatus => {
+    return getOccurrenceStatus(occurrence.reminder.id, occurrence.originalDate, settlements);
+  };
+
+  const isSettled = (occurrence: ScheduledOccurrence): boolean => {
+    const status = getStatus(occurrence);
+    return status === 'paid' || status === 'skipped';
+  };
+
+  const getStatusBadge = (status: OccurrenceStatus) => {
+    switch (status) {
+      case 'paid':
+        return (
+          <span className="text-xs text-green-700 bg-green-100 px-2 py-0.5 rounded-full">
+            ✓ Paid
+          </span>
+        );
+      case 'skipped':
+        return (
+          <span className="text-xs text-gray-700 bg-gray-200 px-2 py-0.5 rounded-full">
+            Skipped
+          </span>
+        );
+      case 'overdue':
+        return (
+          <span className="text-xs text-red-700 bg-red-100 px-2 py-0.5 rounded-full">
+            Overdue
+          </span>
+        );
+      case 'due':
+        return (
+          <span className="text-xs text-orange-700 bg-orange-100 px-2 py-0.5 rounded-full">
+            Due Today
+          </span>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const handleSettle = async (occurrence: ScheduledOccurrence) => {
+    await settleOccurrence(occurrence.reminder.id, toDateKey(occurrence.originalDate));
+  };
+
+  const handleSkip = async (occurrence: ScheduledOccurrence) => {
+    await skipOccurrence(occurrence.reminder.id, toDateKey(occurrence.originalDate));
+  };
+
+  const getDayRemindersTotal = (dayReminders: ScheduledOccurrence[]) => {
     const payments = dayReminders.filter(r => r.reminder.type === 'Payment').reduce((sum, r) => sum + r.reminder.amount, 0);
     const receivables = dayReminders.filter(r => r.reminder.type === 'Receivable').reduce((sum, r) => sum + r.reminder.amount, 0);
     return { payments, receivables };
@@ -387,8 +256,11 @@ export const ReminderCalendar: React.FC<ReminderCalendarProps> = ({
         {/* Calendar Days */}
         <div className="grid grid-cols-7 gap-1 sm:gap-2">
           {calendarDays.map((day, dayIndex) => {
-            const { payments, receivables } = getDayRemindersTotal(day.reminders);
+            // Paid and skipped occurrences no longer count towards the day's totals
+            const { payments, receivables } = getDayRemindersTotal(day.reminders.filter(r => !isSettled(r)));
             const hasReminders = day.reminders.length > 0;
+            const settledCount = day.reminders.filter(isSettled).length;
+            const hasOverdue = day.reminders.some(r => getStatus(r) === 'overdue');
             
             return (
               <div
@@ -424,6 +296,16 @@ export const ReminderCalendar: React.FC<ReminderCalendarProps> = ({
                         <span className="hidden sm:inline">Receive: </span>{formatCurrency(receivables)}
                       </div>
                     )}
+                    {settledCount > 0 && (
+                      <div className="text-[10px] sm:text-xs text-gray-500 truncate">
+                        ✓ {settledCount}<span className="hidden sm:inline"> settled</span>
+                      </div>
+                    )}
+                    {hasOverdue && (
+                      <div className="text-[10px] sm:text-xs text-red-600 font-medium truncate">
+                        <span className="hidden sm:inline">Overdue</span><span className="sm:hidden">!</span>
+                      </div>
+                    )}
                     {day.reminders.length > 2 && (
                       <div className="text-[10px] sm:text-xs text-gray-500">
                         +{day.reminders.length - 2}
@@ -473,7 +355,7 @@ export const ReminderCalendar: React.FC<ReminderCalendarProps> = ({
             endDate.setDate(endDate.getDate() + (6 - endDate.getDay()));
             
             // Generate all reminder occurrences for the calendar view period
-            const allOccurrences: ReminderOccurrence[] = [];
+            const allOccurrences: ScheduledOccurrence[] = [];
             reminders.forEach(reminder => {
               if (reminder.is_active) {
                 const occurrences = generateReminderOccurrences(reminder, startDate, endDate);
@@ -497,7 +379,10 @@ export const ReminderCalendar: React.FC<ReminderCalendarProps> = ({
 
             return (
               <div className="space-y-3">
-                {dayReminders.map((occurrence, occurrenceIndex) => (
+                {dayReminders.map((occurrence, occurrenceIndex) => {
+                  const status = getStatus(occurrence);
+
+                  return (
                   <div
                     key={`${occurrence.reminder.id}-${occurrenceIndex}`}
                     className={`
@@ -520,6 +405,7 @@ export const ReminderCalendar: React.FC<ReminderCalendarProps> = ({
                               ↻ Recurring
                             </span>
                           )}
+                          {getStatusBadge(status)}
                         </div>
                         <p className="text-xs sm:text-sm text-gray-600 mt-1 truncate">
                           {getWalletName(occurrence.reminder.wallet_id)}
@@ -545,8 +431,31 @@ export const ReminderCalendar: React.FC<ReminderCalendarProps> = ({
                         {formatCurrency(occurrence.reminder.amount)}
                       </div>
                     </div>
+                    {status !== 'paid' && status !== 'skipped' && (
+                      <div className="flex gap-2 mt-3">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleSettle(occurrence);
+                          }}
+                          className="px-3 py-1 text-xs sm:text-sm bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+                        >
+                          {occurrence.reminder.type === 'Payment' ? 'Mark Paid' : 'Mark Received'}
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleSkip(occurrence);
+                          }}
+                          className="px-3 py-1 text-xs sm:text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                        >
+                          Skip
+                        </button>
+                      </div>
+                    )}
                   </div>
-                ))}
+                  );
+                })}
               </div>
             );
           })()}
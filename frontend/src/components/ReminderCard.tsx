@@ -1,10 +1,21 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Reminder } from '@/types';
 import { useReminder } from '@/contexts/ReminderContext';
 import { useWallet } from '@/contexts/WalletContext';
 import { ReminderForm } from './ReminderForm';
+import {
+  OccurrenceStatus,
+  findSettlement,
+  getCurrentOccurrence,
+  getOccurrenceStatus,
+  getPastOccurrences
+} from '@/utils/reminderOccurrences';
+import { fromDateKey, toDateKey } from '@/utils/dates';
+
+// Number of past occurrences shown with their paid/skipped/overdue state
+const RECENT_OCCURRENCE_COUNT = 3;
 
 interface ReminderCardProps {
   reminder: Reminder;
@@ -19,10 +30,29 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
   onDelete,
   showUpcoming = false,
 }) => {
-  const { deleteReminder, activateReminder, deactivateReminder } = useReminder();
+  const {
+    settlements,
+    deleteReminder,
+    activateReminder,
+    deactivateReminder,
+    settleOccurrence,
+    skipOccurrence
+  } = useReminder();
   const { wallets } = useWallet();
   const [showEditForm, setShowEditForm] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [settling, setSettling] = useState(false);
+
+  // The oldest unsettled occurrence up to today, otherwise the next one
+  const currentOccurrence = useMemo(
+    () => getCurrentOccurrence(reminder, settlements),
+    [reminder, settlements]
+  );
+
+  const recentOccurrences = useMemo(
+    () => getPastOccurrences(reminder).slice(-RECENT_OCCURRENCE_COUNT).reverse(),
+    [reminder]
+  );
 
   const getWalletName = (): string => {
     if (!reminder.wallet_id) return 'No specific wallet';
@@ -62,7 +92,7 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
     }).format(amount);
   };
 
-  const formatDate = (dateString: string): string => {
+  const formatDate = (dateString: string | Date): string => {
     const date = new Date(dateString);
     const today = new Date();
     const tomorrow = new Date(today);
@@ -86,8 +116,12 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
     }
   };
 
+  const getCurrentDueDate = (): Date => {
+    return currentOccurrence ? currentOccurrence.originalDate : fromDateKey(reminder.due_date);
+  };
+
   const getDaysUntilDue = (): number => {
-    const dueDate = new Date(reminder.due_date);
+    const dueDate = new Date(getCurrentDueDate());
     const today = new Date();
     
     // Reset time for comparison
@@ -99,11 +133,46 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
   };
 
   const isOverdue = (): boolean => {
-    return getDaysUntilDue() < 0;
+    return currentOccurrence !== null && getDaysUntilDue() < 0;
   };
 
   const isDueToday = (): boolean => {
-    return getDaysUntilDue() === 0;
+    return currentOccurrence !== null && getDaysUntilDue() === 0;
+  };
+
+  const getOccurrenceBadge = (status: OccurrenceStatus) => {
+    switch (status) {
+      case 'paid':
+        return (
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+            {reminder.type === 'Payment' ? 'Paid' : 'Received'}
+          </span>
+        );
+      case 'skipped':
+        return (
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+            Skipped
+          </span>
+        );
+      case 'overdue':
+        return (
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+            Overdue
+          </span>
+        );
+      case 'due':
+        return (
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+            Due Today
+          </span>
+        );
+      default:
+        return (
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+            Upcoming
+          </span>
+        );
+    }
   };
 
   const getStatusBadge = () => {
@@ -115,6 +184,20 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
       );
     }
 
+    // Every occurrence has been paid or skipped
+    if (!currentOccurrence) {
+      const settlement = findSettlement(reminder.id, fromDateKey(reminder.due_date), settlements);
+      if (settlement && reminder.recurrence === 'once') {
+        return getOccurrenceBadge(settlement.status);
+      }
+
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+          Completed
+        </span>
+      );
+    }
+
     if (isOverdue()) {
       return (
         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
@@ -168,6 +251,20 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
     }
   };
 
+  const handleSettle = async () => {
+    if (!currentOccurrence) return;
+    setSettling(true);
+    await settleOccurrence(reminder.id, toDateKey(currentOccurrence.originalDate));
+    setSettling(false);
+  };
+
+  const handleSkip = async () => {
+    if (!currentOccurrence) return;
+    setSettling(true);
+    await skipOccurrence(reminder.id, toDateKey(currentOccurrence.originalDate));
+    setSettling(false);
+  };
+
   const handleEditSuccess = () => {
     setShowEditForm(false);
   };
@@ -230,10 +327,10 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
           <span className={`text-sm font-medium ${
             isOverdue() ? 'text-red-600' : isDueToday() ? 'text-orange-600' : 'text-gray-900'
           }`}>
-            {formatDate(reminder.due_date)}
+            {formatDate(getCurrentDueDate())}
           </span>
         </div>
-        {showUpcoming && (
+        {showUpcoming && currentOccurrence && (
           <div className="mt-1">
             <span className="text-xs text-gray-500">
               {isOverdue() 
@@ -262,8 +359,41 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
         )}
       </div>
 
+      {/* Recent Occurrences */}
+      {reminder.recurrence !== 'once' && recentOccurrences.length > 0 && (
+        <div className="mb-4">
+          <span className="text-sm text-gray-600">Recent Occurrences</span>
+          <ul className="mt-2 space-y-1">
+            {recentOccurrences.map(occurrence => (
+              <li key={toDateKey(occurrence.originalDate)} className="flex justify-between items-center">
+                <span className="text-xs text-gray-700">{formatDate(occurrence.originalDate)}</span>
+                {getOccurrenceBadge(getOccurrenceStatus(reminder.id, occurrence.originalDate, settlements))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex gap-2 pt-4 border-t border-gray-200">
+        {reminder.is_active && currentOccurrence && (
+          <>
+            <button
+              onClick={handleSettle}
+              disabled={settling}
+              className="flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {reminder.type === 'Payment' ? 'Mark Paid' : 'Mark Received'}
+            </button>
+            <button
+              onClick={handleSkip}
+              disabled={settling}
+              className="py-2 px-4 rounded-md text-sm font-medium transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+            >
+              Skip
+            </button>
+          </>
+        )}
         <button
           onClick={handleToggleActive}
           className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
@@ -285,7 +415,7 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
             </h3>
             <p className="text-gray-600 mb-6 text-sm">
               Are you sure you want to delete the reminder "{reminder.title}"? 
-              This action cannot be undone.
+              You can restore it from the trash for 30 days.
             </p>
             <div className="flex flex-col sm:flex-row gap-3">
               <button
@@ -5,6 +5,7 @@ import { Reminder } from '@/types';
 import { useReminder } from '@/contexts/ReminderContext';
 import { useWallet } from '@/contexts/WalletContext';
 import { CreateReminderRequest, UpdateReminderRequest } from '@/utils/reminderApi';
+import { fromDateKey } from '@/utils/dates';
 
 interface ReminderFormProps {
   reminder?: Reminder;
@@ -62,7 +63,7 @@ export const ReminderForm: React.FC<ReminderFormProps> = ({
     if (!formData.due_date) {
       newErrors.due_date = 'Due date is required';
     } else {
-      const dueDate = new Date(formData.due_date);
+      const dueDate = fromDateKey(formData.due_date);
       const today = new Date();
       today.setHours(0, 0, 0, 0);
       
@@ -25,6 +25,7 @@ export const ReminderList: React.FC<ReminderListProps> = ({
     fetchUpcomingReminders, 
     fetchOverdueReminders,
     fetchRemindersByType,
+    fetchSettlements,
     loading 
   } = useReminder();
   const { wallets } = useWallet();
@@ -52,6 +53,11 @@ export const ReminderList: React.FC<ReminderListProps> = ({
     }
   }, [filterType, fetchUserReminders, fetchUpcomingReminders, fetchOverdueReminders, fetchRemindersByType]);
 
+  useEffect(() => {
+    // Paid and skipped occurrences drive each card's occurrence state
+    fetchSettlements();
+  }, [fetchSettlements]);
+
   useEffect(() => {
     // Apply filters to reminders
     let baseReminders: Reminder[] = [];
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { SavedSearch } from '@/types';
+import { TransactionFilters } from '@/utils/transactionApi';
+import { SavedSearchService } from '@/utils/savedSearchApi';
+
+interface SavedSearchesProps {
+  currentFilters: Omit<TransactionFilters, 'wallet_id'>;
+  selectedWalletId: string | null;
+  onApply: (search: SavedSearch) => void;
+}
+
+const SavedSearches: React.FC<SavedSearchesProps> = ({ currentFilters, selectedWalletId, onApply }) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadSearches = async () => {
+      try {
+        setSearches(await SavedSearchService.getSearches());
+      } catch (error) {
+        // Saved searches are optional, the filters still work without them
+        setSearches([]);
+      }
+    };
+
+    loadSearches();
+  }, []);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const search = searches.find(s => s.id === id);
+    if (search) {
+      onApply(search);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const search = await SavedSearchService.createSearch({
+        name: name.trim(),
+        query: currentFilters.q || null,
+        wallet_id: selectedWalletId,
+        category_id: currentFilters.category_id || null,
+        type: currentFilters.type || null,
+        start_date: currentFilters.start_date || null,
+        end_date: currentFilters.end_date || null,
+        tags: currentFilters.tags || null,
+      });
+      setSearches(prev => [...prev, search].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedId(search.id);
+      setShowSaveForm(false);
+      setName('');
+      toast.success('Search saved');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save search';
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await SavedSearchService.deleteSearch(selectedId);
+      setSearches(prev => prev.filter(s => s.id !== selectedId));
+      setSelectedId('');
+      toast.success('Saved search deleted');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete saved search';
+      toast.error(message);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mb-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <label htmlFor="saved_search" className="text-sm font-medium text-gray-700">
+          Saved searches
+        </label>
+        <select
+          id="saved_search"
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={searches.length === 0}
+          className="block w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-gray-100"
+        >
+          <option value="">{searches.length === 0 ? 'None saved yet' : 'Choose a search'}</option>
+          {searches.map(search => (
+            <option key={search.id} value={search.id}>
+              {search.name}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex gap-2 sm:ml-auto">
+          {selectedId && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="px-3 py-1.5 text-sm border border-red-300 rounded-md text-red-700 hover:bg-red-50"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowSaveForm(!showSaveForm)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            Save current search
+          </button>
+        </div>
+      </div>
+
+      {showSaveForm && (
+        <form onSubmit={handleSave} className="mt-3 flex flex-col sm:flex-row gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            type="text"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            placeholder="Name this search, e.g. Big trip expenses"
+          />
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearches;
\ No newline at end of file
@@ -0,0 +1,211 @@
+'use client';
+
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { SavingsGoal } from '@/types';
+import { useWallet } from '@/contexts/WalletContext';
+import { CreateSavingsGoalData } from '@/utils/savingsGoalApi';
+
+interface SavingsGoalFormValues {
+  name: string;
+  wallet_id: string;
+  target_amount: string;
+  start_date: string;
+  target_date: string;
+}
+
+interface SavingsGoalFormProps {
+  goal?: SavingsGoal;
+  onSubmit: (data: CreateSavingsGoalData) => Promise<void>;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+const SavingsGoalForm: React.FC<SavingsGoalFormProps> = ({
+  goal,
+  onSubmit,
+  onCancel,
+  loading = false,
+}) => {
+  const { wallets } = useWallet();
+
+  const {
+    register,
+    handleSubmit,
+    getValues,
+    formState: { errors },
+    setError,
+  } = useForm<SavingsGoalFormValues>({
+    defaultValues: {
+      name: goal?.name || '',
+      wallet_id: goal?.wallet_id || '',
+      target_amount: goal ? String(Number(goal.target_amount)) : '',
+      start_date: goal ? goal.start_date.split('T')[0] : new Date().toISOString().split('T')[0],
+      target_date: goal ? goal.target_date.split('T')[0] : '',
+    },
+  });
+
+  const handleFormSubmit = async (values: SavingsGoalFormValues) => {
+    try {
+      await onSubmit({
+        name: values.name.trim(),
+        wallet_id: values.wallet_id,
+        target_amount: Number(values.target_amount),
+        start_date: values.start_date,
+        target_date: values.target_date,
+      });
+    } catch (error) {
+      setError('root', {
+        type: 'manual',
+        message: error instanceof Error ? error.message : 'Operation failed',
+      });
+    }
+  };
+
+  const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 p-4">
+      <div className="relative top-4 sm:top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 text-center">
+            {goal ? 'Edit Goal' : 'Create New Goal'}
+          </h3>
+
+          <form onSubmit={handleSubmit(handleFormSubmit)} className="mt-6 space-y-4">
+            <div>
+              <label htmlFor="goal_name" className="block text-sm font-medium text-gray-700">
+                Goal Name
+              </label>
+              <input
+                id="goal_name"
+                {...register('name', {
+                  required: 'Goal name is required',
+                  maxLength: {
+                    value: 255,
+                    message: 'Goal name must be 255 characters or less',
+                  },
+                })}
+                type="text"
+                className={inputClassName}
+                placeholder="e.g. Emergency fund"
+              />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="goal_wallet_id" className="block text-sm font-medium text-gray-700">
+                  Savings Wallet
+                </label>
+                <select
+                  id="goal_wallet_id"
+                  {...register('wallet_id', { required: 'Wallet is required' })}
+                  disabled={!!goal}
+                  className={`${inputClassName} disabled:bg-gray-100`}
+                >
+                  <option value="">Select a wallet</option>
+                  {wallets.map(wallet => (
+                    <option key={wallet.id} value={wallet.id}>
+                      {wallet.name} ({wallet.currency})
+                    </option>
+                  ))}
+                </select>
+                {errors.wallet_id && (
+                  <p className="mt-1 text-sm text-red-600">{errors.wallet_id.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="goal_target_amount" className="block text-sm font-medium text-gray-700">
+                  Target Amount
+                </label>
+                <input
+                  id="goal_target_amount"
+                  {...register('target_amount', {
+                    required: 'Target amount is required',
+                    min: { value: 0.01, message: 'Target amount must be greater than 0' },
+                  })}
+                  type="number"
+                  step="0.01"
+                  className={inputClassName}
+                />
+                {errors.target_amount && (
+                  <p className="mt-1 text-sm text-red-600">{errors.target_amount.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="goal_start_date" className="block text-sm font-medium text-gray-700">
+                  Start Date
+                </label>
+                <input
+                  id="goal_start_date"
+                  {...register('start_date', { required: 'Start date is required' })}
+                  type="date"
+                  className={inputClassName}
+                />
+                {errors.start_date && (
+                  <p className="mt-1 text-sm text-red-600">{errors.start_date.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="goal_target_date" className="block text-sm font-medium text-gray-700">
+                  Target Date
+                </label>
+                <input
+                  id="goal_target_date"
+                  {...register('target_date', {
+                    required: 'Target date is required',
+                    validate: value => value > getValues('start_date') || 'Target date must be after the start date',
+                  })}
+                  type="date"
+                  className={inputClassName}
+                />
+                {errors.target_date && (
+                  <p className="mt-1 text-sm text-red-600">{errors.target_date.message}</p>
+                )}
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Transfers into and out of the wallet from the start date count towards the goal, as do
+              transactions you tag with it.
+            </p>
+
+            {errors.root && (
+              <div className="rounded-md bg-red-50 p-4">
+                <h3 className="text-sm font-medium text-red-800">
+                  {errors.root.message}
+                </h3>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {goal ? 'Update' : 'Create'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SavingsGoalForm;
\ No newline at end of file
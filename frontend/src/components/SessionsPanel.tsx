@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Monitor, Smartphone } from 'lucide-react';
+import { UserSession } from '@/types';
+import { SessionService } from '@/utils/sessionApi';
+import { useAuth } from '@/contexts/AuthContext';
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// A short "Browser on System" name for a user agent
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+  return browser || system || userAgent;
+};
+
+const isMobile = (userAgent: string | null): boolean => {
+  return !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+};
+
+const SessionsPanel: React.FC = () => {
+  const { logout, logoutEverywhere } = useAuth();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await SessionService.getSessions());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load sessions';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const handleRevoke = async (session: UserSession) => {
+    // Ending this session is the same as logging out
+    if (session.current) {
+      if (window.confirm('Log out of Cashly on this device?')) {
+        logout();
+      }
+      return;
+    }
+
+    try {
+      setRevokingId(session.id);
+      await SessionService.revokeSession(session.id);
+      setSessions(previous => previous.filter(item => item.id !== session.id));
+      toast.success('Session logged out');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to log out the session';
+      toast.error(message);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Active Sessions
+        </h3>
+        <p className="mt-1 mb-4 text-sm text-gray-500">
+          Devices that are logged in to your account. Log out any you do not recognize.
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No active sessions</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {sessions.map(session => {
+              const DeviceIcon = isMobile(session.user_agent) ? Smartphone : Monitor;
+
+              return (
+                <li key={session.id} className="py-4 flex items-center justify-between gap-4">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <DeviceIcon className="w-5 h-5 mt-0.5 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate" title={session.user_agent || undefined}>
+                        {describeDevice(session.user_agent)}
+                        {session.current && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {session.ip_address || 'Unknown IP'} &middot; Signed in {new Date(session.created_at).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Last active {new Date(session.last_seen_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(session)}
+                    disabled={revokingId === session.id}
+                    className="flex-shrink-0 py-1.5 px-3 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {revokingId === session.id ? 'Logging out...' : 'Log out'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="mt-6 pt-6 border-t border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h4 className="text-sm font-medium text-gray-900">Log out everywhere</h4>
+            <p className="text-sm text-gray-500">
+              End every session, including this one, on all of your devices.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => {
+              if (window.confirm('Log out of Cashly on all of your devices?')) {
+                logoutEverywhere();
+              }
+            }}
+            className="inline-flex justify-center py-2 px-4 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+          >
+            Log out everywhere
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionsPanel;
\ No newline at end of file
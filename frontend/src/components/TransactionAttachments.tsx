@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Transaction, TransactionAttachment } from '@/types';
+import { TransactionService } from '@/utils/transactionApi';
+
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/gif,image/webp,application/pdf';
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_ATTACHMENTS = 10;
+
+interface AttachmentThumbnailProps {
+  attachment: TransactionAttachment;
+  onOpen: (attachment: TransactionAttachment) => void;
+  onDelete: (attachment: TransactionAttachment) => void;
+}
+
+// Files need the auth header, so images are fetched and shown from an object URL
+const AttachmentThumbnail: React.FC<AttachmentThumbnailProps> = ({ attachment, onOpen, onDelete }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const isImage = attachment.content_type.startsWith('image/');
+
+  useEffect(() => {
+    if (!isImage) {
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    TransactionService.getAttachmentFile(attachment.transaction_id, attachment.id)
+      .then(blob => {
+        if (!cancelled) {
+          objectUrl = URL.createObjectURL(blob);
+          setPreviewUrl(objectUrl);
+        }
+      })
+      .catch(() => {
+        // The file name is shown instead
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [attachment.id, attachment.transaction_id, isImage]);
+
+  return (
+    <div className="relative group">
+      <button
+        type="button"
+        onClick={() => onOpen(attachment)}
+        title={attachment.file_name}
+        className="w-12 h-12 rounded-md border border-gray-200 bg-gray-50 overflow-hidden flex items-center justify-center hover:border-blue-400"
+      >
+        {previewUrl ? (
+          <img src={previewUrl} alt={attachment.file_name} className="w-full h-full object-cover" />
+        ) : (
+          <span className="text-[10px] font-semibold text-gray-500 uppercase">
+            {isImage ? '...' : 'PDF'}
+          </span>
+        )}
+      </button>
+      <button
+        type="button"
+        onClick={() => onDelete(attachment)}
+        title="Remove attachment"
+        className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-4 h-4 rounded-full bg-gray-700 text-white text-[10px] leading-none items-center justify-center"
+      >
+        &times;
+      </button>
+    </div>
+  );
+};
+
+interface TransactionAttachmentsProps {
+  transaction: Transaction;
+}
+
+const TransactionAttachments: React.FC<TransactionAttachmentsProps> = ({ transaction }) => {
+  const [attachments, setAttachments] = useState<TransactionAttachment[]>(transaction.attachments || []);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setAttachments(transaction.attachments || []);
+  }, [transaction.attachments]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error('Attachments must be 5 MB or smaller');
+      return;
+    }
+
+    try {
+      setUploading(true);
+      const attachment = await TransactionService.uploadAttachment(transaction.id, file);
+      setAttachments(prev => [...prev, attachment]);
+      toast.success('Attachment added');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to upload attachment';
+      toast.error(message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleOpen = async (attachment: TransactionAttachment) => {
+    try {
+      const blob = await TransactionService.getAttachmentFile(transaction.id, attachment.id);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank', 'noopener');
+      // Give the new tab time to load the file before releasing it
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to open attachment';
+      toast.error(message);
+    }
+  };
+
+  const handleDelete = async (attachment: TransactionAttachment) => {
+    if (!window.confirm(`Remove ${attachment.file_name}?`)) {
+      return;
+    }
+
+    try {
+      await TransactionService.deleteAttachment(transaction.id, attachment.id);
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to remove attachment';
+      toast.error(message);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {attachments.map(attachment => (
+        <AttachmentThumbnail
+          key={attachment.id}
+          attachment={attachment}
+          onOpen={handleOpen}
+          onDelete={handleDelete}
+        />
+      ))}
+
+      {attachments.length < MAX_ATTACHMENTS && (
+        <>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            title="Attach a receipt"
+            className="inline-flex items-center text-xs text-gray-500 hover:text-blue-600 disabled:opacity-50"
+          >
+            <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+            </svg>
+            {uploading ? 'Uploading...' : attachments.length === 0 ? 'Attach receipt' : 'Add'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_TYPES}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TransactionAttachments;
\ No newline at end of file
@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { useCategory } from '@/contexts/CategoryContext';
 import { TransactionFilters as Filters } from '@/utils/transactionApi';
@@ -17,23 +17,42 @@ const TransactionFilters: React.FC<TransactionFiltersProps> = ({ onFilter, curre
     defaultValues: currentFilters,
   });
 
+  // Keep the form in step when filters are applied from elsewhere, e.g. a saved search
+  useEffect(() => {
+    reset(currentFilters);
+  }, [currentFilters, reset]);
+
   const onSubmit = (data: Omit<Filters, 'wallet_id'>) => {
     onFilter(data);
   };
 
   const handleReset = () => {
     reset({
+      q: '',
       category_id: '',
       type: undefined,
       start_date: '',
       end_date: '',
+      tags: '',
     });
     onFilter({});
   };
 
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="bg-white p-4 rounded-lg shadow-md mb-6">
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="mb-4">
+        <label htmlFor="q" className="block text-sm font-medium text-gray-700 mb-1">
+          Search
+        </label>
+        <input
+          {...register('q', { maxLength: 200 })}
+          type="search"
+          className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          placeholder='Title, category, wallet or tag, e.g. "coffee beans" >100'
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         <div>
           <label htmlFor="category_id" className="block text-sm font-medium text-gray-700 mb-1">
             Category
@@ -86,6 +105,18 @@ const TransactionFilters: React.FC<TransactionFiltersProps> = ({ onFilter, curre
             className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
           />
         </div>
+
+        <div>
+          <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-1">
+            Tags
+          </label>
+          <input
+            {...register('tags')}
+            type="text"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            placeholder="e.g. trip, boracay"
+          />
+        </div>
       </div>
 
       <div className="mt-4 flex justify-end space-x-3">
@@ -1,20 +1,49 @@
 'use client';
 
-import React, { useEffect } from 'react';
-import { useForm, Controller } from 'react-hook-form';
-import { Transaction } from '@/types';
+import React, { useEffect, useState } from 'react';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import { Transaction, CategorySuggestion, SavingsGoalProgress } from '@/types';
 import { useWallet } from '@/contexts/WalletContext';
 import { useCategory } from '@/contexts/CategoryContext';
 import SearchableSelect from './SearchableSelect';
+import { CategoryService } from '@/utils/categoryApi';
+import { SavingsGoalService } from '@/utils/savingsGoalApi';
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY } from '@/utils/currency';
+import { toDateKey } from '@/utils/dates';
+
+interface SplitLineFormData {
+  category_id: string;
+  amount: number;
+  memo: string;
+}
 
 interface TransactionFormData {
   title: string;
   amount: number;
-  type: 'Income' | 'Expense';
+  type: 'Income' | 'Expense' | 'Transfer';
   category_id: string;
   wallet_id: string;
+  transaction_date: string;
+  currency: string; // Empty for the wallet's own currency
+  savings_goal_id: string; // Empty when the transaction is not part of a goal
+  tags: string; // Comma-separated tag names
+  notes: string;
+  splits: SplitLineFormData[];
 }
 
+const toSplitLines = (transaction?: Transaction): SplitLineFormData[] =>
+  (transaction?.splits || []).map(split => ({
+    category_id: split.category_id || '',
+    amount: Number(split.amount),
+    memo: split.memo || '',
+  }));
+
+const parseTags = (value: string): string[] =>
+  value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+
+// Compare amounts in cents so 0.1 + 0.2 adds up to 0.3
+const toCents = (amount: number): number => Math.round((Number(amount) || 0) * 100);
+
 interface TransactionFormProps {
   transaction?: Transaction;
   onSubmit: (data: TransactionFormData) => Promise<void>;
@@ -30,13 +59,17 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
 }) => {
   const { wallets, defaultWallet } = useWallet();
   const { getCategoriesByType, createCategory } = useCategory();
-  
+  const [suggestions, setSuggestions] = useState<CategorySuggestion[]>([]);
+  const [isSplitting, setIsSplitting] = useState(!!transaction?.is_split);
+  const [goals, setGoals] = useState<SavingsGoalProgress[]>([]);
+
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
     setError,
+    setValue,
     watch,
     control,
   } = useForm<TransactionFormData>({
@@ -46,11 +79,97 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
       type: transaction?.type || 'Expense',
       category_id: transaction?.category_id || '',
       wallet_id: transaction?.wallet_id || defaultWallet?.id || '',
+      transaction_date: transaction?.transaction_date || toDateKey(new Date()),
+      currency: transaction?.currency || '',
+      savings_goal_id: transaction?.savings_goal_id || '',
+      tags: (transaction?.tags || []).join(', '),
+      notes: transaction?.notes || '',
+      splits: toSplitLines(transaction),
     },
   });
+  const { fields: splitFields, append: appendSplit, remove: removeSplit, replace: replaceSplits } = useFieldArray({
+    control,
+    name: 'splits',
+  });
 
-  const watchType = watch('type');
+  // Transfer legs have no type or category to edit
+  const isTransfer = transaction?.type === 'Transfer';
+  const watchType: 'Income' | 'Expense' = watch('type') === 'Income' ? 'Income' : 'Expense';
   const filteredCategories = getCategoriesByType(watchType);
+  const watchTitle = watch('title');
+  const watchWalletId = watch('wallet_id');
+  const watchCategoryId = watch('category_id');
+  const watchAmount = watch('amount');
+  const watchSplits = watch('splits');
+  const walletCurrency = wallets.find(wallet => wallet.id === watchWalletId)?.currency || DEFAULT_CURRENCY;
+  const currencyOptions = (transaction?.currency && !CURRENCY_OPTIONS.includes(transaction.currency)
+    ? [transaction.currency, ...CURRENCY_OPTIONS]
+    : CURRENCY_OPTIONS
+  ).filter(currency => currency !== walletCurrency);
+  // A goal only collects amounts in the currency of its wallet
+  const effectiveCurrency = watch('currency') || walletCurrency;
+  const goalOptions = goals.filter(goal => goal.currency === effectiveCurrency);
+  const splitRemainder = (toCents(watchAmount) - watchSplits.reduce((sum, line) => sum + toCents(line.amount), 0)) / 100;
+
+  // Transfers count towards the goals of their wallets without being tagged
+  useEffect(() => {
+    if (isTransfer) {
+      return;
+    }
+
+    SavingsGoalService.getGoals()
+      .then(setGoals)
+      .catch(() => setGoals([])); // Goals are optional; the transaction can still be saved
+  }, [isTransfer]);
+
+  // Suggest categories from the user's history while they type a title
+  useEffect(() => {
+    const title = watchTitle.trim();
+    if (isTransfer || isSplitting || watchCategoryId || title.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await CategoryService.getSuggestions({
+          title,
+          type: watchType,
+          wallet_id: watchWalletId || undefined,
+        });
+        if (!cancelled) {
+          setSuggestions(results);
+        }
+      } catch (error) {
+        // Suggestions are optional; the category can still be picked by hand
+        if (!cancelled) {
+          setSuggestions([]);
+        }
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isTransfer, isSplitting, watchTitle, watchType, watchWalletId, watchCategoryId]);
+
+  // Start with the current category and amount on the first line
+  const startSplitting = () => {
+    replaceSplits([
+      { category_id: watchCategoryId, amount: Number(watchAmount) || 0, memo: '' },
+      { category_id: '', amount: 0, memo: '' },
+    ]);
+    setValue('category_id', '');
+    setIsSplitting(true);
+  };
+
+  const stopSplitting = () => {
+    setValue('category_id', watchSplits[0]?.category_id || '');
+    replaceSplits([]);
+    setIsSplitting(false);
+  };
 
   const handleCreateNewCategory = async (categoryName: string) => {
     try {
@@ -92,15 +211,64 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
         type: transaction.type,
         category_id: transaction.category_id || '',
         wallet_id: transaction.wallet_id,
+        transaction_date: transaction.transaction_date,
+        currency: transaction.currency || '',
+        savings_goal_id: transaction.savings_goal_id || '',
+        tags: (transaction.tags || []).join(', '),
+        notes: transaction.notes || '',
+        splits: toSplitLines(transaction),
       });
+      setIsSplitting(!!transaction.is_split);
     }
   }, [transaction, reset]);
 
   const handleFormSubmit = async (data: TransactionFormData) => {
+    const { splits, currency, savings_goal_id, tags, ...fieldData } = data;
+
+    // Empty selections keep the defaults; null clears a currency or goal on edit
+    const transactionData = {
+      ...fieldData,
+      currency: currency || (transaction ? null : undefined),
+      savings_goal_id: savings_goal_id || (transaction ? null : undefined),
+      tags: parseTags(tags),
+    };
+
+    if (isSplitting) {
+      if (splits.length < 2) {
+        setError('root', { type: 'manual', message: 'A split needs at least two lines' });
+        return;
+      }
+
+      if (splits.reduce((sum, line) => sum + toCents(line.amount), 0) !== toCents(data.amount)) {
+        setError('root', { type: 'manual', message: 'Split amounts must add up to the transaction amount' });
+        return;
+      }
+    }
+
     try {
-      await onSubmit(data);
+      if (isTransfer) {
+        const { type: _, category_id: __, currency: ___, savings_goal_id: ____, ...transferData } = transactionData;
+        await onSubmit(transferData as unknown as TransactionFormData);
+      } else if (isSplitting) {
+        const { category_id: _, ...splitData } = transactionData;
+        await onSubmit({
+          ...splitData,
+          splits: splits.map(line => ({
+            category_id: line.category_id || null,
+            amount: Number(line.amount),
+            memo: line.memo.trim() || null,
+          })),
+        } as unknown as TransactionFormData);
+      } else {
+        // Giving a split transaction a single category removes its split
+        await onSubmit({
+          ...transactionData,
+          ...(transaction?.is_split ? { splits: null } : {}),
+        } as unknown as TransactionFormData);
+      }
       if (!transaction) {
         reset(); // Reset form only for new transactions
+        setIsSplitting(false);
       }
     } catch (error) {
       setError('root', {
@@ -115,7 +283,7 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
       <div className="relative top-4 sm:top-20 mx-auto border w-full max-w-lg shadow-lg rounded-lg bg-white">
         <div className="p-4 sm:p-5">
           <h3 className="text-lg font-medium text-gray-900 text-center mb-6">
-            {transaction ? 'Edit Transaction' : 'Create New Transaction'}
+            {isTransfer ? 'Edit Transfer' : transaction ? 'Edit Transaction' : 'Create New Transaction'}
           </h3>
           
           <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
@@ -164,21 +332,37 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
             </div>
 
             <div>
-              <label htmlFor="type" className="block text-sm font-medium text-gray-700 mb-1">
-                Type
+              <label htmlFor="transaction_date" className="block text-sm font-medium text-gray-700 mb-1">
+                Date
               </label>
-              <select
-                {...register('type', { required: 'Type is required' })}
+              <input
+                {...register('transaction_date', { required: 'Date is required' })}
+                type="date"
                 className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
-              >
-                <option value="Expense">Expense</option>
-                <option value="Income">Income</option>
-              </select>
-              {errors.type && (
-                <p className="mt-1 text-sm text-red-600">{errors.type.message}</p>
+              />
+              {errors.transaction_date && (
+                <p className="mt-1 text-sm text-red-600">{errors.transaction_date.message}</p>
               )}
             </div>
 
+            {!isTransfer && (
+              <div>
+                <label htmlFor="type" className="block text-sm font-medium text-gray-700 mb-1">
+                  Type
+                </label>
+                <select
+                  {...register('type', { required: 'Type is required' })}
+                  className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                >
+                  <option value="Expense">Expense</option>
+                  <option value="Income">Income</option>
+                </select>
+                {errors.type && (
+                  <p className="mt-1 text-sm text-red-600">{errors.type.message}</p>
+                )}
+              </div>
+            )}
+
             <div>
               <label htmlFor="wallet_id" className="block text-sm font-medium text-gray-700 mb-1">
                 Wallet
@@ -199,27 +383,201 @@ const TransactionForm: React.FC<TransactionFormProps> = ({
               )}
             </div>
 
+            {!isTransfer && (
+              <div>
+                <label htmlFor="currency" className="block text-sm font-medium text-gray-700 mb-1">
+                  Currency
+                </label>
+                <select
+                  {...register('currency')}
+                  className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                >
+                  <option value="">{walletCurrency} (wallet currency)</option>
+                  {currencyOptions.map(currency => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {!isTransfer && (goalOptions.length > 0 || !!watch('savings_goal_id')) && (
+              <div>
+                <label htmlFor="savings_goal_id" className="block text-sm font-medium text-gray-700 mb-1">
+                  Savings Goal (Optional)
+                </label>
+                <select
+                  {...register('savings_goal_id')}
+                  className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                >
+                  <option value="">Not part of a goal</option>
+                  {goalOptions.map(({ goal }) => (
+                    <option key={goal.id} value={goal.id}>{goal.name}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Income adds to the goal and expenses are taken out of it
+                </p>
+              </div>
+            )}
+
+            {!isTransfer && !isSplitting && (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label htmlFor="category_id" className="block text-sm font-medium text-gray-700">
+                    Category (Optional)
+                  </label>
+                  <button
+                    type="button"
+                    onClick={startSplitting}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Split
+                  </button>
+                </div>
+                <Controller
+                  name="category_id"
+                  control={control}
+                  render={({ field }) => (
+                    <SearchableSelect
+                      options={categoryOptions}
+                      value={field.value}
+                      onChange={field.onChange}
+                      placeholder="Search for a category..."
+                      className="mt-1"
+                      allowEmpty={true}
+                      emptyLabel="Uncategorized"
+                      onCreateNew={handleCreateNewCategory}
+                      createNewLabel={`Create new ${watchType.toLowerCase()} category`}
+                    />
+                  )}
+                />
+                {suggestions.length > 0 && (
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-gray-500">Suggested:</span>
+                    {suggestions.map(suggestion => (
+                      <button
+                        key={suggestion.category_id}
+                        type="button"
+                        onClick={() => setValue('category_id', suggestion.category_id, { shouldDirty: true })}
+                        className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700 hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {suggestion.name}
+                        <span className="ml-1 text-blue-400">{Math.round(suggestion.confidence * 100)}%</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!isTransfer && isSplitting && (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="block text-sm font-medium text-gray-700">Split Lines</span>
+                  <button
+                    type="button"
+                    onClick={stopSplitting}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Use one category
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {splitFields.map((field, index) => (
+                    <div key={field.id} className="grid grid-cols-12 gap-2 items-start">
+                      <select
+                        {...register(`splits.${index}.category_id` as const)}
+                        className="col-span-5 px-2 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                      >
+                        <option value="">Uncategorized</option>
+                        {filteredCategories.map(category => (
+                          <option key={category.id} value={category.id}>
+                            {category.name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        {...register(`splits.${index}.amount` as const, {
+                          required: true,
+                          min: 0.01,
+                          valueAsNumber: true,
+                        })}
+                        type="number"
+                        step="0.01"
+                        className={`col-span-3 px-2 py-2 border rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm ${
+                          errors.splits?.[index]?.amount ? 'border-red-500' : 'border-gray-300'
+                        }`}
+                        placeholder="0.00"
+                      />
+                      <input
+                        {...register(`splits.${index}.memo` as const, { maxLength: 255 })}
+                        type="text"
+                        className="col-span-3 px-2 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                        placeholder="Memo"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeSplit(index)}
+                        disabled={splitFields.length <= 2}
+                        className="col-span-1 py-2 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                        aria-label="Remove split line"
+                      >
+                        &times;
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-2 flex items-center justify-between text-sm">
+                  <button
+                    type="button"
+                    onClick={() => appendSplit({ category_id: '', amount: splitRemainder > 0 ? splitRemainder : 0, memo: '' })}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    + Add line
+                  </button>
+                  <span className={splitRemainder === 0 ? 'text-green-600' : 'text-red-600'}>
+                    {splitRemainder === 0 ? 'Fully allocated' : `${splitRemainder > 0 ? 'Unallocated' : 'Over by'}: ${Math.abs(splitRemainder).toFixed(2)}`}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-1">
+                Tags (Optional)
+              </label>
+              <input
+                {...register('tags', {
+                  validate: value => parseTags(value).every(tag => tag.length <= 50) || 'Tags must be 50 characters or less',
+                })}
+                type="text"
+                className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                placeholder="e.g. trip, boracay"
+              />
+              <p className="mt-1 text-xs text-gray-500">Separate tags with commas</p>
+              {errors.tags && (
+                <p className="mt-1 text-sm text-red-600">{errors.tags.message}</p>
+              )}
+            </div>
+
             <div>
-              <label htmlFor="category_id" className="block text-sm font-medium text-gray-700 mb-1">
-                Category (Optional)
+              <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+                Notes (Optional)
               </label>
-              <Controller
-                name="category_id"
-                control={control}
-                render={({ field }) => (
-                  <SearchableSelect
-                    options={categoryOptions}
-                    value={field.value}
-                    onChange={field.onChange}
-                    placeholder="Search for a category..."
-                    className="mt-1"
-                    allowEmpty={true}
-                    emptyLabel="Uncategorized"
-                    onCreateNew={handleCreateNewCategory}
-                    createNewLabel={`Create new ${watchType.toLowerCase()} category`}
-                  />
-                )}
+              <textarea
+                {...register('notes', {
+                  maxLength: {
+                    value: 1000,
+                    message: 'Notes must be 1000 characters or less',
+                  },
+                })}
+                rows={3}
+                className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                placeholder="Anything worth remembering about this transaction"
               />
+              {errors.notes && (
+                <p className="mt-1 text-sm text-red-600">{errors.notes.message}</p>
+              )}
             </div>
 
             {errors.root && (
@@ -0,0 +1,528 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useWallet } from '@/contexts/WalletContext';
+import { useTransaction } from '@/contexts/TransactionContext';
+import { useCategory } from '@/contexts/CategoryContext';
+import {
+  ImportColumnMapping,
+  ImportDateFormat,
+  ImportDecimalSeparator,
+  ImportFileFormat,
+  ImportPreviewResult,
+  ImportRowError,
+  TransactionImportData,
+} from '@/utils/transactionApi';
+import { fromDateKey } from '@/utils/dates';
+
+interface TransactionImportProps {
+  initialWalletId?: string | null;
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+type AmountMode = 'single' | 'split';
+
+const DATE_FORMATS: ImportDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+// QIF dates are always day and month first; ISO dates are detected automatically
+const QIF_DATE_FORMATS: ImportDateFormat[] = ['MM/DD/YYYY', 'DD/MM/YYYY'];
+
+const DECIMAL_SEPARATORS: { value: ImportDecimalSeparator; label: string }[] = [
+  { value: '.', label: 'Point (1,234.56)' },
+  { value: ',', label: 'Comma (1.234,56)' },
+];
+
+// QFX is Quicken's name for OFX
+const getFileFormat = (fileName: string): ImportFileFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  return 'csv';
+};
+
+const readFirstLine = (content: string): string => content.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] || '';
+
+const detectDelimiter = (firstLine: string): string =>
+  [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+// Read the column names from the first line of a CSV file
+const readCsvColumns = (content: string): string[] => {
+  const firstLine = readFirstLine(content);
+  const delimiter = detectDelimiter(firstLine);
+
+  const columns: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (const char of firstLine) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      columns.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  columns.push(cell.trim());
+
+  return columns;
+};
+
+// Guess a column by name so common bank exports need no manual mapping
+const guessColumn = (columns: string[], names: string[]): number | undefined => {
+  const index = columns.findIndex(column => names.some(name => column.toLowerCase().includes(name)));
+  return index >= 0 ? index : undefined;
+};
+
+const TransactionImport: React.FC<TransactionImportProps> = ({
+  initialWalletId,
+  onComplete,
+  onCancel,
+}) => {
+  const { wallets, defaultWallet } = useWallet();
+  const { previewImport, importTransactions, loading } = useTransaction();
+  const { categories } = useCategory();
+
+  const [walletId, setWalletId] = useState(initialWalletId || defaultWallet?.id || '');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [fileFormat, setFileFormat] = useState<ImportFileFormat>('csv');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('YYYY-MM-DD');
+  const [decimalSeparator, setDecimalSeparator] = useState<ImportDecimalSeparator>('.');
+  const [amountMode, setAmountMode] = useState<AmountMode>('single');
+  const [mapping, setMapping] = useState<Partial<ImportColumnMapping>>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [preview, setPreview] = useState<ImportPreviewResult | null>(null);
+  const [importErrors, setImportErrors] = useState<ImportRowError[]>([]);
+  const [previewing, setPreviewing] = useState(false);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const format = getFileFormat(file.name);
+
+    setFileName(file.name);
+    setContent(text);
+    setFileFormat(format);
+    setPreview(null);
+    setImportErrors([]);
+
+    // OFX and QIF files describe their own fields, so there is nothing to map
+    if (format !== 'csv') {
+      setColumns([]);
+      setMapping({});
+      if (format === 'qif' && !QIF_DATE_FORMATS.includes(dateFormat)) {
+        setDateFormat('MM/DD/YYYY');
+      }
+      return;
+    }
+
+    const fileColumns = readCsvColumns(text);
+    setColumns(fileColumns);
+
+    // Files separated by semicolons usually come from banks that write decimal commas
+    setDecimalSeparator(detectDelimiter(readFirstLine(text)) === ';' ? ',' : '.');
+
+    const debit = guessColumn(fileColumns, ['debit', 'withdrawal']);
+    const credit = guessColumn(fileColumns, ['credit', 'deposit']);
+    setAmountMode(debit !== undefined && credit !== undefined ? 'split' : 'single');
+    setMapping({
+      date: guessColumn(fileColumns, ['date']),
+      description: guessColumn(fileColumns, ['description', 'details', 'memo', 'payee', 'narrative']),
+      amount: guessColumn(fileColumns, ['amount']),
+      debit,
+      credit,
+    });
+  };
+
+  const updateMapping = (field: keyof ImportColumnMapping, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+    setPreview(null);
+  };
+
+  const isMappingComplete = (): boolean => {
+    if (fileFormat !== 'csv') return true;
+    if (mapping.date === undefined || mapping.description === undefined) return false;
+    return amountMode === 'single'
+      ? mapping.amount !== undefined
+      : mapping.debit !== undefined || mapping.credit !== undefined;
+  };
+
+  const buildImportData = (): TransactionImportData => {
+    if (fileFormat !== 'csv') {
+      return {
+        wallet_id: walletId,
+        content,
+        format: fileFormat,
+        skip_duplicates: skipDuplicates,
+        ...(fileFormat === 'qif' ? { date_format: dateFormat } : {}),
+      };
+    }
+
+    return {
+      wallet_id: walletId,
+      content,
+      format: 'csv',
+      has_header: hasHeader,
+      date_format: dateFormat,
+      decimal_separator: decimalSeparator,
+      skip_duplicates: skipDuplicates,
+      mapping: {
+        date: mapping.date as number,
+        description: mapping.description as number,
+        ...(amountMode === 'single'
+          ? { amount: mapping.amount }
+          : { debit: mapping.debit, credit: mapping.credit }),
+      },
+    };
+  };
+
+  const handlePreview = async () => {
+    try {
+      setPreviewing(true);
+      setImportErrors([]);
+      setPreview(await previewImport(buildImportData()));
+    } catch (error) {
+      // Error toast is shown by the context
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await importTransactions(buildImportData());
+      if (result.status === 'completed') {
+        onComplete();
+      } else {
+        setImportErrors(result.errors);
+      }
+    } catch (error) {
+      // Error toast is shown by the context
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP',
+    }).format(amount);
+  };
+
+  const getColumnLabel = (index: number): string => {
+    return hasHeader && columns[index] ? columns[index] : `Column ${index + 1}`;
+  };
+
+  const renderColumnSelect = (field: keyof ImportColumnMapping, label: string, required: boolean) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <select
+        value={mapping[field] ?? ''}
+        onChange={(e) => updateMapping(field, e.target.value)}
+        className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+      >
+        <option value="">{required ? 'Select a column' : 'Not used'}</option>
+        {columns.map((_, index) => (
+          <option key={index} value={index}>
+            {getColumnLabel(index)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const errors = importErrors.length > 0 ? importErrors : preview?.errors || [];
+  const duplicateCount = preview ? preview.rows.filter(row => row.duplicate_of && !row.already_imported).length : 0;
+  const alreadyImportedCount = preview ? preview.rows.filter(row => row.already_imported).length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 p-4">
+      <div className="relative top-4 sm:top-20 mx-auto border w-full max-w-3xl shadow-lg rounded-lg bg-white">
+        <div className="p-4 sm:p-5">
+          <h3 className="text-lg font-medium text-gray-900 text-center mb-6">
+            Import Transactions
+          </h3>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="import_wallet_id" className="block text-sm font-medium text-gray-700 mb-1">
+                  Wallet
+                </label>
+                <select
+                  id="import_wallet_id"
+                  value={walletId}
+                  onChange={(e) => {
+                    setWalletId(e.target.value);
+                    setPreview(null);
+                  }}
+                  className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                >
+                  <option value="">Select a wallet</option>
+                  {wallets.map((wallet) => (
+                    <option key={wallet.id} value={wallet.id}>
+                      {wallet.name} {wallet.is_default ? '(Default)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="import_file" className="block text-sm font-medium text-gray-700 mb-1">
+                  Statement File (CSV, OFX, QFX or QIF)
+                </label>
+                <input
+                  id="import_file"
+                  type="file"
+                  accept=".csv,.ofx,.qfx,.qif,text/csv"
+                  onChange={handleFileChange}
+                  className="w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                />
+                {fileName && <p className="mt-1 text-xs text-gray-500 truncate">{fileName}</p>}
+              </div>
+            </div>
+
+            {fileFormat === 'qif' && content && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="import_qif_date_format" className="block text-sm font-medium text-gray-700 mb-1">
+                    Date Format
+                  </label>
+                  <select
+                    id="import_qif_date_format"
+                    value={dateFormat}
+                    onChange={(e) => {
+                      setDateFormat(e.target.value as ImportDateFormat);
+                      setPreview(null);
+                    }}
+                    className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                  >
+                    {QIF_DATE_FORMATS.map(format => (
+                      <option key={format} value={format}>{format}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {fileFormat === 'csv' && columns.length > 0 && (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="import_date_format" className="block text-sm font-medium text-gray-700 mb-1">
+                      Date Format
+                    </label>
+                    <select
+                      id="import_date_format"
+                      value={dateFormat}
+                      onChange={(e) => {
+                        setDateFormat(e.target.value as ImportDateFormat);
+                        setPreview(null);
+                      }}
+                      className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                    >
+                      {DATE_FORMATS.map(format => (
+                        <option key={format} value={format}>{format}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label htmlFor="import_decimal_separator" className="block text-sm font-medium text-gray-700 mb-1">
+                      Decimal Separator
+                    </label>
+                    <select
+                      id="import_decimal_separator"
+                      value={decimalSeparator}
+                      onChange={(e) => {
+                        setDecimalSeparator(e.target.value as ImportDecimalSeparator);
+                        setPreview(null);
+                      }}
+                      className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                    >
+                      {DECIMAL_SEPARATORS.map(separator => (
+                        <option key={separator.value} value={separator.value}>{separator.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="flex flex-col justify-end gap-2">
+                    <label className="inline-flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={hasHeader}
+                        onChange={(e) => {
+                          setHasHeader(e.target.checked);
+                          setPreview(null);
+                        }}
+                        className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      First row contains column names
+                    </label>
+                    <div className="flex gap-4 text-sm text-gray-700">
+                      <label className="inline-flex items-center">
+                        <input
+                          type="radio"
+                          checked={amountMode === 'single'}
+                          onChange={() => {
+                            setAmountMode('single');
+                            setPreview(null);
+                          }}
+                          className="mr-2 text-blue-600 focus:ring-blue-500"
+                        />
+                        Signed amount
+                      </label>
+                      <label className="inline-flex items-center">
+                        <input
+                          type="radio"
+                          checked={amountMode === 'split'}
+                          onChange={() => {
+                            setAmountMode('split');
+                            setPreview(null);
+                          }}
+                          className="mr-2 text-blue-600 focus:ring-blue-500"
+                        />
+                        Debit / Credit
+                      </label>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {renderColumnSelect('date', 'Date Column', true)}
+                  {renderColumnSelect('description', 'Description Column', true)}
+                  {amountMode === 'single' ? (
+                    renderColumnSelect('amount', 'Amount Column (negative = expense)', true)
+                  ) : (
+                    <>
+                      {renderColumnSelect('debit', 'Debit Column (money out)', false)}
+                      {renderColumnSelect('credit', 'Credit Column (money in)', false)}
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+
+            {/* Preview */}
+            {preview && (
+              <div>
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <p className="text-sm text-gray-700">
+                    {preview.rows.length} of {preview.total_rows} rows ready
+                    {alreadyImportedCount > 0 && `, ${alreadyImportedCount} already imported`}
+                    {duplicateCount > 0 && `, ${duplicateCount} likely duplicates`}
+                  </p>
+                  {duplicateCount > 0 && (
+                    <label className="inline-flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={skipDuplicates}
+                        onChange={(e) => setSkipDuplicates(e.target.checked)}
+                        className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Skip likely duplicates
+                    </label>
+                  )}
+                </div>
+                <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Date</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Description</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-500">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {preview.rows.map(row => (
+                        <tr key={row.row_number} className={row.duplicate_of ? 'bg-yellow-50' : ''}>
+                          <td className="px-3 py-2 text-gray-500">{row.row_number}</td>
+                          <td className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                            {fromDateKey(row.transaction_date).toLocaleDateString()}
+                          </td>
+                          <td className="px-3 py-2 text-gray-900">
+                            <span className="break-words">{row.title}</span>
+                            {row.category_id && (
+                              <span className="ml-2 text-xs text-blue-800 bg-blue-50 px-2 py-0.5 rounded-full">
+                                {categories.find(category => category.id === row.category_id)?.name || 'Categorized'}
+                              </span>
+                            )}
+                            {row.duplicate_of && (
+                              <span className="ml-2 text-xs text-yellow-800 bg-yellow-100 px-2 py-0.5 rounded-full">
+                                {row.already_imported ? 'Already imported' : 'Likely duplicate'}
+                              </span>
+                            )}
+                          </td>
+                          <td className={`px-3 py-2 text-right whitespace-nowrap font-medium ${
+                            row.type === 'Income' ? 'text-green-600' : 'text-red-600'
+                          }`}>
+                            {row.type === 'Income' ? '+' : '-'}{formatCurrency(row.amount)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {/* Row errors */}
+            {errors.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-sm font-medium text-red-800 mb-1">
+                  Fix these rows before importing. Nothing is imported while any row has an error.
+                </p>
+                <ul className="max-h-32 overflow-y-auto text-sm text-red-700 space-y-0.5">
+                  {errors.map(error => (
+                    <li key={error.row_number}>Row {error.row_number}: {error.error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="flex-1 px-4 py-3 sm:py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 order-2 sm:order-1"
+              >
+                Cancel
+              </button>
+              {preview && preview.errors.length === 0 ? (
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={loading || preview.rows.length === 0}
+                  className="flex-1 px-4 py-3 sm:py-2 border border-transparent rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 order-1 sm:order-2"
+                >
+                  {loading ? 'Importing...' : 'Import Transactions'}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  disabled={previewing || !walletId || !content || !isMappingComplete()}
+                  className="flex-1 px-4 py-3 sm:py-2 border border-transparent rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 order-1 sm:order-2"
+                >
+                  {previewing ? 'Reading file...' : 'Preview'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionImport;
\ No newline at end of file
@@ -1,20 +1,58 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Transaction } from '@/types';
 import { useTransaction } from '@/contexts/TransactionContext';
 import { useWallet } from '@/contexts/WalletContext';
 import { useCategory } from '@/contexts/CategoryContext';
+import { formatMoney } from '@/utils/currency';
+import { fromDateKey } from '@/utils/dates';
+import { TransactionFilters } from '@/utils/transactionApi';
+import TransactionAttachments from './TransactionAttachments';
+import BulkActionBar from './BulkActionBar';
 
 interface TransactionListProps {
   onEdit: (transaction: Transaction) => void;
+  filters?: Omit<TransactionFilters, 'page' | 'limit'>;
+  onBulkComplete?: () => void;
 }
 
-const TransactionList: React.FC<TransactionListProps> = ({ onEdit }) => {
-  const { transactions = [], deleteTransaction, loading } = useTransaction();
+const TransactionList: React.FC<TransactionListProps> = ({ onEdit, filters = {}, onBulkComplete }) => {
+  const { transactions = [], total, deleteTransaction, loading } = useTransaction();
   const { wallets = [] } = useWallet();
   const { categories = [] } = useCategory();
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Set when the selection covers every transaction matching the filters, not just this page
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+
+  // A new page or filter starts with nothing selected
+  useEffect(() => {
+    setSelectedIds([]);
+    setSelectAllMatching(false);
+  }, [transactions]);
+
+  const allOnPageSelected = transactions.length > 0 && transactions.every(t => selectedIds.includes(t.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectAllMatching(false);
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  const togglePageSelected = () => {
+    setSelectAllMatching(false);
+    setSelectedIds(allOnPageSelected ? [] : transactions.map(t => t.id));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds([]);
+    setSelectAllMatching(false);
+  };
+
+  const handleBulkComplete = () => {
+    clearSelection();
+    onBulkComplete?.();
+  };
 
   const getWalletName = (walletId: string) => {
     const wallet = wallets.find(w => w.id === walletId);
@@ -36,17 +74,41 @@ const TransactionList: React.FC<TransactionListProps> = ({ onEdit }) => {
     }
   };
 
-  const formatAmount = (amount: number, type: 'Income' | 'Expense') => {
-    const formatted = new Intl.NumberFormat('en-PH', {
-      style: 'currency',
-      currency: 'PHP',
-    }).format(amount);
+  const getCategoryLabel = (transaction: Transaction) => {
+    if (transaction.type === 'Transfer') {
+      return transaction.transfer_direction === 'Incoming' ? 'Transfer in' : 'Transfer out';
+    }
+    if (transaction.is_split && transaction.splits) {
+      return `Split: ${transaction.splits.map(split => getCategoryName(split.category_id)).join(', ')}`;
+    }
+    return getCategoryName(transaction.category_id);
+  };
 
-    return type === 'Income' ? `+${formatted}` : `-${formatted}`;
+  // Incoming transfer legs add to the wallet just like income
+  const isInflow = (transaction: Transaction) => {
+    return transaction.type === 'Income' || transaction.transfer_direction === 'Incoming';
   };
 
-  const getAmountColor = (type: 'Income' | 'Expense') => {
-    return type === 'Income' ? 'text-green-600' : 'text-red-600';
+  const formatAmount = (transaction: Transaction) => {
+    const walletCurrency = wallets.find(w => w.id === transaction.wallet_id)?.currency;
+    const formatted = formatMoney(transaction.amount, transaction.currency || walletCurrency);
+
+    return isInflow(transaction) ? `+${formatted}` : `-${formatted}`;
+  };
+
+  const getAmountColor = (transaction: Transaction) => {
+    if (transaction.type === 'Transfer') return 'text-blue-600';
+    return transaction.type === 'Income' ? 'text-green-600' : 'text-red-600';
+  };
+
+  const getIconBackground = (type: Transaction['type']) => {
+    if (type === 'Transfer') return 'bg-blue-100';
+    return type === 'Income' ? 'bg-green-100' : 'bg-red-100';
+  };
+
+  const getTypeBadgeColor = (type: Transaction['type']) => {
+    if (type === 'Transfer') return 'bg-blue-100 text-blue-800';
+    return type === 'Income' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800';
   };
 
   if (loading && (!transactions || transactions.length === 0)) {
@@ -71,8 +133,40 @@ const TransactionList: React.FC<TransactionListProps> = ({ onEdit }) => {
     );
   }
 
+  const checkboxClassName = 'h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500';
+
   return (
     <div className="bg-white shadow overflow-hidden sm:rounded-md">
+      {selectedIds.length > 0 && (
+        <BulkActionBar
+          selectedIds={selectedIds}
+          selectAllMatching={selectAllMatching}
+          selectedCount={selectAllMatching ? total : selectedIds.length}
+          filters={filters}
+          onClear={clearSelection}
+          onComplete={handleBulkComplete}
+        />
+      )}
+      <div className="px-4 py-2 sm:px-6 border-b border-gray-200 flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={allOnPageSelected}
+            onChange={togglePageSelected}
+            className={checkboxClassName}
+          />
+          Select all on this page
+        </label>
+        {allOnPageSelected && total > transactions.length && (
+          <button
+            type="button"
+            onClick={() => setSelectAllMatching(!selectAllMatching)}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            {selectAllMatching ? 'Select only this page' : `Select all ${total} matching transactions`}
+          </button>
+        )}
+      </div>
       <ul className="divide-y divide-gray-200">
         {transactions.map((transaction) => (
           <li key={transaction.id}>
@@ -81,12 +175,22 @@ const TransactionList: React.FC<TransactionListProps> = ({ onEdit }) => {
               <div className="sm:hidden">
                 <div className="flex items-start justify-between mb-3">
                   <div className="flex items-center">
-                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${transaction.type === 'Income' ? 'bg-green-100' : 'bg-red-100'
-                      }`}>
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(transaction.id)}
+                      onChange={() => toggleSelected(transaction.id)}
+                      aria-label={`Select ${transaction.title}`}
+                      className={`${checkboxClassName} mr-3`}
+                    />
+                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${getIconBackground(transaction.type)}`}>
                       {transaction.type === 'Income' ? (
                         <svg className="w-5 h-5 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
                         </svg>
+                      ) : transaction.type === 'Transfer' ? (
+                        <svg className="w-5 h-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                        </svg>
                       ) : (
                         <svg className="w-5 h-5 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
@@ -95,22 +199,35 @@ const TransactionList: React.FC<TransactionListProps> = ({ onEdit }) => {
                     </div>
                     <div className="ml-3">
                       <p className="text-sm font-medium text-gray-900">{transaction.title}</p>
-                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${transaction.type === 'Income' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                        }`}>
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getTypeBadgeColor(transaction.type)}`}>
                         {transaction.type}
                       </span>
+                      {transaction.recurring_transaction_id && (
+                        <span className="ml-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                          Recurring
+                        </span>
+                      )}
                     </div>
                   </div>
-                  <p className={`text-lg font-semibold ${getAmountColor(transaction.type)}`}>
-                    {formatAmount(transaction.amount, transaction.type)}
+                  <p className={`text-lg font-semibold ${getAmountColor(transaction)}`}>
+                    {formatAmount(transaction)}
                   </p>
                 </div>
                 
                 <div className="mb-3">
                   <div className="flex flex-wrap gap-2 text-xs text-gray-500">
-                    <span className="bg-gray-100 px-2 py-1 rounded">{getCategoryName(transaction.category_id)}</span>
+                    <span className="bg-gray-100 px-2 py-1 rounded">{getCategoryLabel(transaction)}</span>
                     <span className="bg-gray-100 px-2 py-1 rounded">{getWalletName(transaction.wallet_id)}</span>
-                    <span className="bg-gray-100 px-2 py-1 rounded">{new Date(transaction.created_at).toLocaleDateString()}</span>
+                    <span className="bg-gray-100 px-2 py-1 rounded">{fromDateKey(transaction.transaction_date).toLocaleDateString()}</span>
+                    {transaction.tags?.map(tag => (
+                      <span key={tag} className="bg-blue-50 text-blue-700 px-2 py-1 rounded">#{tag}</span>
+                    ))}
+                  </div>
+                  {transaction.notes && (
+                    <p className="mt-2 text-sm text-gray-600 whitespace-pre-line">{transaction.notes}</p>
+                  )}
+                  <div className="mt-2">
+                    <TransactionAttachments transaction={transaction} />
                   </div>
                 </div>
 
@@ -140,13 +257,23 @@ const TransactionList: React.FC<TransactionListProps> = ({ onEdit }) => {
               {/* Desktop Layout */}
               <div className="hidden sm:flex sm:items-center sm:justify-between">
                 <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(transaction.id)}
+                    onChange={() => toggleSelected(transaction.id)}
+                    aria-label={`Select ${transaction.title}`}
+                    className={`${checkboxClassName} mr-4`}
+                  />
                   <div className="flex-shrink-0">
-                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${transaction.type === 'Income' ? 'bg-green-100' : 'bg-red-100'
-                      }`}>
+                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${getIconBackground(transaction.type)}`}>
                       {transaction.type === 'Income' ? (
                         <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
                         </svg>
+                      ) : transaction.type === 'Transfer' ? (
+                        <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                        </svg>
                       ) : (
                         <svg className="w-6 h-6 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
@@ -157,25 +284,38 @@ const TransactionList: React.FC<TransactionListProps> = ({ onEdit }) => {
                   <div className="ml-4">
                     <div className="flex items-center">
                       <p className="text-sm font-medium text-gray-900">{transaction.title}</p>
-                      <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${transaction.type === 'Income' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                        }`}>
+                      <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getTypeBadgeColor(transaction.type)}`}>
                         {transaction.type}
                       </span>
+                      {transaction.recurring_transaction_id && (
+                        <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                          Recurring
+                        </span>
+                      )}
                     </div>
                     <div className="mt-1 flex items-center text-sm text-gray-500">
-                      <span>{getCategoryName(transaction.category_id)}</span>
+                      <span>{getCategoryLabel(transaction)}</span>
                       <span className="mx-2">•</span>
                       <span>{getWalletName(transaction.wallet_id)}</span>
                       <span className="mx-2">•</span>
-                      <span>{new Date(transaction.created_at).toLocaleDateString()}</span>
+                      <span>{fromDateKey(transaction.transaction_date).toLocaleDateString()}</span>
+                      {transaction.tags?.map(tag => (
+                        <span key={tag} className="ml-2 px-2 py-0.5 rounded-full text-xs bg-blue-50 text-blue-700">#{tag}</span>
+                      ))}
+                    </div>
+                    {transaction.notes && (
+                      <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{transaction.notes}</p>
+                    )}
+                    <div className="mt-2">
+                      <TransactionAttachments transaction={transaction} />
                     </div>
                   </div>
                 </div>
 
                 <div className="flex items-center">
                   <div className="text-right mr-4">
-                    <p className={`text-sm font-medium ${getAmountColor(transaction.type)}`}>
-                      {formatAmount(transaction.amount, transaction.type)}
+                    <p className={`text-sm font-medium ${getAmountColor(transaction)}`}>
+                      {formatAmount(transaction)}
                     </p>
                   </div>
 
@@ -220,7 +360,7 @@ const TransactionList: React.FC<TransactionListProps> = ({ onEdit }) => {
               <h3 className="text-lg font-medium text-gray-900 mt-2">Delete Transaction</h3>
               <div className="mt-2 px-7 py-3">
                 <p className="text-sm text-gray-500">
-                  Are you sure you want to delete this transaction? This action cannot be undone.
+                  Are you sure you want to delete this transaction? You can restore it from the trash for 30 days.
                 </p>
               </div>
               <div className="flex flex-col sm:flex-row gap-3 px-4 py-3">
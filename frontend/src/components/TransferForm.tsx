@@ -0,0 +1,202 @@
+'use client';
+
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { useWallet } from '@/contexts/WalletContext';
+
+interface TransferFormData {
+  from_wallet_id: string;
+  to_wallet_id: string;
+  amount: number;
+  title: string;
+  transaction_date: string;
+}
+
+interface TransferFormProps {
+  onSubmit: (data: TransferFormData) => Promise<void>;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+const TransferForm: React.FC<TransferFormProps> = ({
+  onSubmit,
+  onCancel,
+  loading = false,
+}) => {
+  const { wallets, defaultWallet } = useWallet();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setError,
+    watch,
+  } = useForm<TransferFormData>({
+    defaultValues: {
+      from_wallet_id: defaultWallet?.id || '',
+      to_wallet_id: '',
+      amount: 0,
+      title: '',
+      transaction_date: new Date().toISOString().split('T')[0],
+    },
+  });
+
+  const fromWalletId = watch('from_wallet_id');
+
+  const handleFormSubmit = async (data: TransferFormData) => {
+    try {
+      await onSubmit({
+        ...data,
+        title: data.title.trim(),
+      });
+    } catch (error) {
+      setError('root', {
+        type: 'manual',
+        message: error instanceof Error ? error.message : 'Operation failed',
+      });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 p-4">
+      <div className="relative top-4 sm:top-20 mx-auto border w-full max-w-lg shadow-lg rounded-lg bg-white">
+        <div className="p-4 sm:p-5">
+          <h3 className="text-lg font-medium text-gray-900 text-center mb-6">
+            Transfer Between Wallets
+          </h3>
+
+          <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+            <div>
+              <label htmlFor="from_wallet_id" className="block text-sm font-medium text-gray-700 mb-1">
+                From Wallet
+              </label>
+              <select
+                {...register('from_wallet_id', { required: 'Source wallet is required' })}
+                className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+              >
+                <option value="">Select a wallet</option>
+                {wallets.map((wallet) => (
+                  <option key={wallet.id} value={wallet.id}>
+                    {wallet.name} {wallet.is_default ? '(Default)' : ''}
+                  </option>
+                ))}
+              </select>
+              {errors.from_wallet_id && (
+                <p className="mt-1 text-sm text-red-600">{errors.from_wallet_id.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="to_wallet_id" className="block text-sm font-medium text-gray-700 mb-1">
+                To Wallet
+              </label>
+              <select
+                {...register('to_wallet_id', {
+                  required: 'Destination wallet is required',
+                  validate: (value) => value !== fromWalletId || 'Choose a different wallet to transfer to',
+                })}
+                className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+              >
+                <option value="">Select a wallet</option>
+                {wallets
+                  .filter((wallet) => wallet.id !== fromWalletId)
+                  .map((wallet) => (
+                    <option key={wallet.id} value={wallet.id}>
+                      {wallet.name} {wallet.is_default ? '(Default)' : ''}
+                    </option>
+                  ))}
+              </select>
+              {errors.to_wallet_id && (
+                <p className="mt-1 text-sm text-red-600">{errors.to_wallet_id.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="amount" className="block text-sm font-medium text-gray-700 mb-1">
+                Amount
+              </label>
+              <input
+                {...register('amount', {
+                  required: 'Amount is required',
+                  min: {
+                    value: 0.01,
+                    message: 'Amount must be greater than 0',
+                  },
+                  valueAsNumber: true,
+                })}
+                type="number"
+                step="0.01"
+                className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                placeholder="0.00"
+              />
+              {errors.amount && (
+                <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="transaction_date" className="block text-sm font-medium text-gray-700 mb-1">
+                Date
+              </label>
+              <input
+                {...register('transaction_date', { required: 'Date is required' })}
+                type="date"
+                className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+              />
+              {errors.transaction_date && (
+                <p className="mt-1 text-sm text-red-600">{errors.transaction_date.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-1">
+                Note (Optional)
+              </label>
+              <input
+                {...register('title', {
+                  maxLength: {
+                    value: 255,
+                    message: 'Note must be 255 characters or less',
+                  },
+                })}
+                type="text"
+                className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                placeholder="Transfer"
+              />
+              {errors.title && (
+                <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
+              )}
+            </div>
+
+            {errors.root && (
+              <div className="rounded-md bg-red-50 p-4">
+                <h3 className="text-sm font-medium text-red-800">
+                  {errors.root.message}
+                </h3>
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-6 py-3 sm:px-4 sm:py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 w-full sm:w-auto order-2 sm:order-1"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-6 py-3 sm:px-4 sm:py-2 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto order-1 sm:order-2"
+              >
+                {loading ? '...' : 'Transfer'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransferForm;
\ No newline at end of file
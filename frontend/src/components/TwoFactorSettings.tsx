@@ -0,0 +1,322 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ShieldCheck, ShieldAlert, Copy, Download } from 'lucide-react';
+import { TwoFactorSetup, TwoFactorStatus } from '@/types';
+import { TwoFactorService } from '@/utils/twoFactorApi';
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+const primaryButtonClassName = 'inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed';
+const secondaryButtonClassName = 'inline-flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Show the secret in groups of four so it is easier to type into an app
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') || secret;
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+const RecoveryCodes: React.FC<RecoveryCodesProps> = ({ codes, onDone }) => {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch (error) {
+      toast.error('Failed to copy the recovery codes');
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`Cashly recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cashly-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md bg-yellow-50 p-4 text-sm text-yellow-800">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator app. They will not be shown again.
+      </div>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+        {codes.map(code => (
+          <li key={code} className="rounded bg-gray-100 px-3 py-1.5 text-center">{code}</li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-2 justify-end">
+        <button type="button" onClick={handleCopy} className={secondaryButtonClassName}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </button>
+        <button type="button" onClick={handleDownload} className={secondaryButtonClassName}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </button>
+        <button type="button" onClick={onDone} className={primaryButtonClassName}>
+          I have saved these codes
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [action, setAction] = useState<'regenerate' | 'disable' | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await TwoFactorService.getStatus());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load two-factor settings';
+      toast.error(message);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Run a request with the form disabled, showing its error if it fails
+  const submit = async (request: () => Promise<void>, fallbackError: string) => {
+    try {
+      setSubmitting(true);
+      await request();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : fallbackError);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = () => submit(async () => {
+    setSetup(await TwoFactorService.setup());
+    setCode('');
+  }, 'Failed to start two-factor setup');
+
+  const handleEnable = (event: React.FormEvent) => {
+    event.preventDefault();
+    return submit(async () => {
+      setRecoveryCodes(await TwoFactorService.enable(code.trim()));
+      setSetup(null);
+      setCode('');
+      toast.success('Two-factor authentication is on');
+      await loadStatus();
+    }, 'Failed to turn on two-factor authentication');
+  };
+
+  const handleRegenerate = (event: React.FormEvent) => {
+    event.preventDefault();
+    return submit(async () => {
+      setRecoveryCodes(await TwoFactorService.regenerateRecoveryCodes(code.trim()));
+      setAction(null);
+      setCode('');
+      await loadStatus();
+    }, 'Failed to create new recovery codes');
+  };
+
+  const handleDisable = (event: React.FormEvent) => {
+    event.preventDefault();
+    return submit(async () => {
+      await TwoFactorService.disable(password, code.trim());
+      setAction(null);
+      setCode('');
+      setPassword('');
+      toast.success('Two-factor authentication is off');
+      await loadStatus();
+    }, 'Failed to turn off two-factor authentication');
+  };
+
+  const cancelAction = () => {
+    setAction(null);
+    setCode('');
+    setPassword('');
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Two-Factor Authentication
+        </h3>
+        <p className="mt-1 mb-4 text-sm text-gray-500">
+          Ask for a code from an authenticator app, such as Google Authenticator or 1Password, when you sign in.
+        </p>
+
+        {!status ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : setup ? (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <ol className="list-decimal list-inside space-y-3 text-sm text-gray-700">
+              <li>
+                Add Cashly to your authenticator app.{' '}
+                <a href={setup.otpauthUrl} className="font-medium text-blue-600 hover:text-blue-800">
+                  Open in app
+                </a>
+                {' '}on this device, or enter this key by hand:
+                <div className="mt-2 rounded bg-gray-100 px-3 py-2 font-mono text-sm text-gray-900 break-all select-all">
+                  {formatSecret(setup.secret)}
+                </div>
+              </li>
+              <li>
+                Enter the 6-digit code the app shows.
+                <input
+                  value={code}
+                  onChange={event => setCode(event.target.value)}
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  className={`${inputClassName} max-w-[10rem] tracking-widest`}
+                  placeholder="123456"
+                />
+              </li>
+            </ol>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setSetup(null)} className={secondaryButtonClassName}>
+                Cancel
+              </button>
+              <button type="submit" disabled={submitting || code.trim().length !== 6} className={primaryButtonClassName}>
+                {submitting ? 'Checking...' : 'Turn on'}
+              </button>
+            </div>
+          </form>
+        ) : status.enabled ? (
+          <div className="space-y-6">
+            <div className="flex items-start gap-3">
+              <ShieldCheck className="w-6 h-6 text-green-600 flex-shrink-0" />
+              <div className="text-sm">
+                <p className="font-medium text-gray-900">
+                  On since {status.enabled_at ? new Date(status.enabled_at).toLocaleDateString() : 'enrollment'}
+                </p>
+                <p className={status.recovery_codes_remaining <= 2 ? 'text-red-600' : 'text-gray-500'}>
+                  {status.recovery_codes_remaining} recovery code(s) left
+                </p>
+              </div>
+            </div>
+
+            {action === null && (
+              <div className="flex flex-wrap gap-2">
+                <button type="button" onClick={() => setAction('regenerate')} className={secondaryButtonClassName}>
+                  New recovery codes
+                </button>
+                {!status.required && (
+                  <button
+                    type="button"
+                    onClick={() => setAction('disable')}
+                    className="inline-flex justify-center py-2 px-4 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+                  >
+                    Turn off
+                  </button>
+                )}
+              </div>
+            )}
+
+            {status.required && (
+              <p className="text-sm text-gray-500">
+                Two-factor authentication is required for your role, so it cannot be turned off.
+              </p>
+            )}
+
+            {action === 'regenerate' && (
+              <form onSubmit={handleRegenerate} className="space-y-4 border-t border-gray-200 pt-4">
+                <p className="text-sm text-gray-700">
+                  Your current recovery codes will stop working. Enter a code from your app to continue.
+                </p>
+                <input
+                  value={code}
+                  onChange={event => setCode(event.target.value)}
+                  type="text"
+                  autoComplete="one-time-code"
+                  className={`${inputClassName} max-w-xs`}
+                  placeholder="Code from your app"
+                />
+                <div className="flex justify-end gap-2">
+                  <button type="button" onClick={cancelAction} className={secondaryButtonClassName}>
+                    Cancel
+                  </button>
+                  <button type="submit" disabled={submitting || !code.trim()} className={primaryButtonClassName}>
+                    {submitting ? 'Creating...' : 'Create new codes'}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {action === 'disable' && (
+              <form onSubmit={handleDisable} className="space-y-4 border-t border-gray-200 pt-4">
+                <p className="text-sm text-gray-700">
+                  Confirm with your password and a code from your app or a recovery code.
+                </p>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Password</label>
+                  <input
+                    value={password}
+                    onChange={event => setPassword(event.target.value)}
+                    type="password"
+                    autoComplete="current-password"
+                    className={`${inputClassName} max-w-xs`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Code</label>
+                  <input
+                    value={code}
+                    onChange={event => setCode(event.target.value)}
+                    type="text"
+                    autoComplete="one-time-code"
+                    className={`${inputClassName} max-w-xs`}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button type="button" onClick={cancelAction} className={secondaryButtonClassName}>
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={submitting || !password || !code.trim()}
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? 'Turning off...' : 'Turn off two-factor'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-start gap-3">
+              <ShieldAlert className={`w-6 h-6 flex-shrink-0 ${status.required ? 'text-red-600' : 'text-gray-400'}`} />
+              <p className="text-sm text-gray-700">
+                {status.required
+                  ? 'Two-factor authentication is required for your role. Turn it on to keep using admin features.'
+                  : 'Two-factor authentication is off.'}
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <button type="button" onClick={handleStartSetup} disabled={submitting} className={primaryButtonClassName}>
+                {submitting ? 'Starting...' : 'Set up two-factor authentication'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
\ No newline at end of file
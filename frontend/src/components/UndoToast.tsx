@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+import toast from 'react-hot-toast';
+import { TrashItemType } from '@/types';
+import { TrashService } from '@/utils/trashApi';
+
+// Deleted items go to the trash, so the success toast offers to bring them straight back
+export const showUndoToast = (message: string, type: TrashItemType, id: string, onRestored: () => void) => {
+  const handleUndo = async (toastId: string) => {
+    toast.dismiss(toastId);
+    try {
+      await TrashService.restoreItem(type, id);
+      onRestored();
+      toast.success('Restored');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to restore';
+      toast.error(errorMessage);
+    }
+  };
+
+  toast.success(t => (
+    <span className="flex items-center gap-3">
+      {message}
+      <button
+        type="button"
+        onClick={() => handleUndo(t.id)}
+        className="text-sm font-medium text-blue-600 hover:text-blue-800"
+      >
+        Undo
+      </button>
+    </span>
+  ), { duration: 6000 });
+};
\ No newline at end of file
@@ -5,6 +5,8 @@ import { Wallet } from '@/types';
 import { useWallet } from '@/contexts/WalletContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { BudgetStatus } from './BudgetStatus';
+import AuditLogPanel from './AuditLogPanel';
+import { AuditLogService } from '@/utils/auditLogApi';
 
 interface WalletCardProps {
   wallet: Wallet;
@@ -15,6 +17,7 @@ const WalletCard: React.FC<WalletCardProps> = ({ wallet, onEdit }) => {
   const { deleteWallet, setDefaultWallet, loading } = useWallet();
   const { user } = useAuth();
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const handleDelete = async () => {
     try {
@@ -36,6 +39,7 @@ const WalletCard: React.FC<WalletCardProps> = ({ wallet, onEdit }) => {
   };
 
   const canDelete = !wallet.is_default; // Can't delete default wallet
+  const canViewHistory = wallet.user_id === user?.id; // Only owners see who changed what
 
   return (
     <div className={`bg-white rounded-lg shadow-md p-6 border-2 ${
@@ -55,6 +59,9 @@ const WalletCard: React.FC<WalletCardProps> = ({ wallet, onEdit }) => {
                 Family
               </span>
             )}
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+              {wallet.currency}
+            </span>
           </div>
           <p className="text-sm text-gray-500">
             Created {new Date(wallet.created_at).toLocaleDateString()}
@@ -72,6 +79,18 @@ const WalletCard: React.FC<WalletCardProps> = ({ wallet, onEdit }) => {
             </button>
           )}
           
+          {canViewHistory && (
+            <button
+              onClick={() => setShowHistory(true)}
+              className="text-gray-400 hover:text-gray-600"
+              title="History"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </button>
+          )}
+
           <button
             onClick={() => onEdit(wallet)}
             disabled={loading}
@@ -115,6 +134,16 @@ const WalletCard: React.FC<WalletCardProps> = ({ wallet, onEdit }) => {
         />
       </div>
 
+      {/* History Panel */}
+      {showHistory && (
+        <AuditLogPanel
+          title="Wallet History"
+          subtitle={`Changes made in "${wallet.name}"`}
+          loadEntries={(page, entityType) => AuditLogService.getWalletAuditLog(wallet.id, page, 20, entityType)}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -128,7 +157,7 @@ const WalletCard: React.FC<WalletCardProps> = ({ wallet, onEdit }) => {
               <h3 className="text-lg font-medium text-gray-900 mt-2">Delete Wallet</h3>
               <div className="mt-2 px-7 py-3">
                 <p className="text-sm text-gray-500">
-                  Are you sure you want to delete "{wallet.name}"? This action cannot be undone.
+                  Are you sure you want to delete "{wallet.name}" and everything in it? You can restore it from the trash for 30 days.
                 </p>
               </div>
               <div className="items-center px-4 py-3">
@@ -3,9 +3,12 @@
 import React, { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { Wallet } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY } from '@/utils/currency';
 
 interface WalletFormData {
   name: string;
+  currency: string;
 }
 
 interface WalletFormProps {
@@ -21,6 +24,8 @@ const WalletForm: React.FC<WalletFormProps> = ({
   onCancel,
   loading = false,
 }) => {
+  const { user } = useAuth();
+  const defaultCurrency = user?.base_currency || DEFAULT_CURRENCY;
   const {
     register,
     handleSubmit,
@@ -30,15 +35,21 @@ const WalletForm: React.FC<WalletFormProps> = ({
   } = useForm<WalletFormData>({
     defaultValues: {
       name: wallet?.name || '',
+      currency: wallet?.currency || defaultCurrency,
     },
   });
 
   useEffect(() => {
     if (wallet) {
-      reset({ name: wallet.name });
+      reset({ name: wallet.name, currency: wallet.currency });
     }
   }, [wallet, reset]);
 
+  // Keep the wallet's own currency selectable even when it is not a listed one
+  const currencyOptions = wallet && !CURRENCY_OPTIONS.includes(wallet.currency)
+    ? [wallet.currency, ...CURRENCY_OPTIONS]
+    : CURRENCY_OPTIONS;
+
   const handleFormSubmit = async (data: WalletFormData) => {
     try {
       await onSubmit(data);
@@ -87,6 +98,25 @@ const WalletForm: React.FC<WalletFormProps> = ({
               )}
             </div>
 
+            <div>
+              <label htmlFor="currency" className="block text-sm font-medium text-gray-700 mb-1">
+                Currency
+              </label>
+              <select
+                {...register('currency', { required: 'Currency is required' })}
+                className="w-full px-3 py-3 sm:py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+              >
+                {currencyOptions.map(currency => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+              {wallet && (
+                <p className="mt-1 text-xs text-gray-500">
+                  The currency can only be changed while the wallet has no transactions.
+                </p>
+              )}
+            </div>
+
             {errors.root && (
               <div className="rounded-md bg-red-50 p-4">
                 <div className="flex">
@@ -48,7 +48,7 @@ const BudgetProgressChart: React.FC<BudgetProgressChartProps> = ({
       },
       title: {
         display: true,
-        text: 'Budget Progress by Wallet',
+        text: 'Budget Progress',
       },
     },
     scales: {
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { dashboardApi, CashFlowForecast } from '@/utils/dashboardApi';
+import { formatMoney } from '@/utils/currency';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const LINE_COLORS = [
+  'rgba(54, 162, 235, 1)',
+  'rgba(75, 192, 192, 1)',
+  'rgba(153, 102, 255, 1)',
+  'rgba(255, 159, 64, 1)',
+  'rgba(201, 203, 207, 1)',
+];
+
+interface CashFlowForecastChartProps {
+  walletId?: string;
+  days?: number;
+  height?: number;
+}
+
+const formatDate = (date: string) => {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+const CashFlowForecastChart: React.FC<CashFlowForecastChartProps> = ({
+  walletId,
+  days = 30,
+  height = 300
+}) => {
+  const [forecast, setForecast] = useState<CashFlowForecast | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadForecast = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setForecast(await dashboardApi.getForecast({ wallet_id: walletId, days }));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load forecast');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadForecast();
+  }, [walletId, days]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center" style={{ height }}>
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center text-red-600" style={{ height }}>
+        <p>Error loading chart: {error}</p>
+      </div>
+    );
+  }
+
+  if (!forecast || forecast.wallets.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-gray-500" style={{ height }}>
+        <p>No data available</p>
+      </div>
+    );
+  }
+
+  // Wallets can hold different currencies, so each line is labelled with its own
+  const data = {
+    labels: forecast.wallets[0].points.map(point => formatDate(point.date)),
+    datasets: forecast.wallets.map((wallet, index) => ({
+      label: `${wallet.wallet_name} (${wallet.currency})`,
+      data: wallet.points.map(point => point.balance),
+      borderColor: LINE_COLORS[index % LINE_COLORS.length],
+      backgroundColor: LINE_COLORS[index % LINE_COLORS.length],
+      pointRadius: 0,
+    })),
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      title: {
+        display: true,
+        text: `Projected Balances, Next ${forecast.days} Days`,
+      },
+    },
+    scales: {
+      y: {
+        ticks: {
+          callback: function(value: any) {
+            return new Intl.NumberFormat('en-PH', {
+              minimumFractionDigits: 0,
+              maximumFractionDigits: 0
+            }).format(value);
+          }
+        }
+      }
+    },
+    elements: {
+      line: {
+        tension: 0.1
+      }
+    }
+  };
+
+  const walletsGoingNegative = forecast.wallets.filter(wallet => wallet.first_negative_date);
+
+  return (
+    <div>
+      <div style={{ height }}>
+        <Line data={data} options={options} />
+      </div>
+
+      {walletsGoingNegative.length > 0 && (
+        <ul className="mt-4 space-y-1">
+          {walletsGoingNegative.map(wallet => (
+            <li key={wallet.wallet_id} className="text-sm text-red-600">
+              {wallet.wallet_name} is projected to go below zero on {formatDate(wallet.first_negative_date!)}
+              {' '}(lowest {formatMoney(wallet.lowest_balance, wallet.currency)})
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="mt-2 text-xs text-gray-500">
+        Includes upcoming reminders, recurring transactions and your average daily spending over the last {forecast.lookback_days} days.
+      </p>
+    </div>
+  );
+};
+
+export default CashFlowForecastChart;
\ No newline at end of file
@@ -10,15 +10,18 @@ interface ReportFiltersProps {
     type?: 'Income' | 'Expense' | '';
     start_date?: string;
     end_date?: string;
+    tags?: string;
   }) => void;
   showCategoryFilter?: boolean;
   showTypeFilter?: boolean;
+  showTagFilter?: boolean;
 }
 
 const ReportFilters: React.FC<ReportFiltersProps> = ({
   onFilterChange,
   showCategoryFilter = true,
-  showTypeFilter = true
+  showTypeFilter = true,
+  showTagFilter = false
 }) => {
   const [wallets, setWallets] = useState<Wallet[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -27,7 +30,8 @@ const ReportFilters: React.FC<ReportFiltersProps> = ({
     category_id: '',
     type: '' as 'Income' | 'Expense' | '',
     start_date: '',
-    end_date: ''
+    end_date: '',
+    tags: ''
   });
 
   useEffect(() => {
@@ -58,7 +62,10 @@ const ReportFilters: React.FC<ReportFiltersProps> = ({
   const handleFilterChange = (key: string, value: string) => {
     const newFilters = { ...filters, [key]: value };
     setFilters(newFilters);
-    
+    applyFilters(newFilters);
+  };
+
+  const applyFilters = (newFilters: typeof filters) => {
     // Clean up empty values before passing to parent
     const cleanFilters: any = {};
     Object.entries(newFilters).forEach(([k, v]) => {
@@ -76,7 +83,8 @@ const ReportFilters: React.FC<ReportFiltersProps> = ({
       category_id: '',
       type: '' as 'Income' | 'Expense' | '',
       start_date: '',
-      end_date: ''
+      end_date: '',
+      tags: ''
     };
     setFilters(resetFilters);
     onFilterChange({});
@@ -170,6 +178,24 @@ const ReportFilters: React.FC<ReportFiltersProps> = ({
           />
         </div>
 
+        {/* Tag Filter, applied once the user is done typing */}
+        {showTagFilter && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Tags
+            </label>
+            <input
+              type="text"
+              value={filters.tags}
+              onChange={(e) => setFilters({ ...filters, tags: e.target.value })}
+              onBlur={() => applyFilters(filters)}
+              onKeyDown={(e) => e.key === 'Enter' && applyFilters(filters)}
+              placeholder="e.g. trip, boracay"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+          </div>
+        )}
+
         {/* Reset Button */}
         <div className="flex items-end">
           <button
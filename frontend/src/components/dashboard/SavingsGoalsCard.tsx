@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { SavingsGoalProgress } from '@/types';
+import { SavingsGoalService } from '@/utils/savingsGoalApi';
+import { formatMoney } from '@/utils/currency';
+
+// Goals that need attention first, then the closest target date
+const STATUS_ORDER = { red: 0, orange: 1, yellow: 2, green: 3 };
+
+export const getGoalStatusColor = (status: string): string => {
+  switch (status) {
+    case 'green':
+      return 'bg-green-500';
+    case 'yellow':
+      return 'bg-yellow-500';
+    case 'orange':
+      return 'bg-orange-500';
+    case 'red':
+      return 'bg-red-500';
+    default:
+      return 'bg-gray-500';
+  }
+};
+
+export const getGoalStatusText = (progress: SavingsGoalProgress): string => {
+  if (progress.remaining_amount === 0) {
+    return 'Reached';
+  }
+
+  switch (progress.status) {
+    case 'green':
+      return 'On Track';
+    case 'yellow':
+      return 'Slightly Behind';
+    case 'orange':
+      return 'Behind';
+    case 'red':
+      return 'Far Behind';
+    default:
+      return 'Unknown';
+  }
+};
+
+const SavingsGoalsCard: React.FC = () => {
+  const [goals, setGoals] = useState<SavingsGoalProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadGoals = async () => {
+      try {
+        setGoals(await SavingsGoalService.getGoals());
+      } catch (error) {
+        // The card is hidden rather than blocking the dashboard
+        setGoals([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadGoals();
+  }, []);
+
+  const shownGoals = [...goals]
+    .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]
+      || new Date(a.goal.target_date).getTime() - new Date(b.goal.target_date).getTime())
+    .slice(0, 4);
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-4 sm:p-6 mb-8 animate-pulse space-y-3">
+        <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+        <div className="h-2 bg-gray-200 rounded"></div>
+        <div className="h-2 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 sm:p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Savings Goals</h3>
+        <Link href="/goals" className="text-sm text-blue-600 hover:text-blue-800">
+          {goals.length > 0 ? 'View all' : 'Add a goal'}
+        </Link>
+      </div>
+
+      {shownGoals.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Set a target and a date, and see how much to put aside each month.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+          {shownGoals.map(progress => (
+            <div key={progress.goal.id} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900 truncate">{progress.goal.name}</span>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <div className={`w-2 h-2 rounded-full ${getGoalStatusColor(progress.status)}`}></div>
+                  <span className="text-xs font-medium text-gray-700">{getGoalStatusText(progress)}</span>
+                </div>
+              </div>
+
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full transition-all duration-300 ${getGoalStatusColor(progress.status)}`}
+                  style={{ width: `${Math.min(Math.max(progress.percentage_saved, 0), 100)}%` }}
+                ></div>
+              </div>
+
+              <div className="flex justify-between text-xs text-gray-600">
+                <span>
+                  {formatMoney(progress.saved_amount, progress.currency)} of {formatMoney(Number(progress.goal.target_amount), progress.currency)}
+                </span>
+                {progress.remaining_amount > 0 && (
+                  <span>{formatMoney(progress.required_monthly_contribution, progress.currency)}/month needed</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavingsGoalsCard;
\ No newline at end of file
@@ -1,17 +1,14 @@
 import React from 'react';
+import Link from 'next/link';
 import { DashboardSummary } from '@/utils/dashboardApi';
+import { formatMoney } from '@/utils/currency';
 
 interface SummaryCardsProps {
   summary: DashboardSummary;
 }
 
 const SummaryCards: React.FC<SummaryCardsProps> = ({ summary }) => {
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-PH', {
-      style: 'currency',
-      currency: 'PHP'
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, summary.base_currency);
 
   const getBudgetStatusColor = (status: string) => {
     switch (status) {
@@ -60,6 +57,12 @@ const SummaryCards: React.FC<SummaryCardsProps> = ({ summary }) => {
             <p className="text-lg sm:text-2xl font-semibold text-gray-900 truncate">
               {formatCurrency(summary.total_balance)}
             </p>
+            {summary.missing_rate_currencies.length > 0 && (
+              <p className="text-xs text-orange-600 mt-1">
+                Leaves out {summary.missing_rate_currencies.join(', ')}.{' '}
+                <Link href="/wallets/exchange-rates" className="underline">Add rates</Link>
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,81 @@
+import React from 'react';
+import { TagBreakdown } from '@/utils/dashboardApi';
+import { formatMoney } from '@/utils/currency';
+
+interface TagBreakdownTableProps {
+  breakdown: TagBreakdown;
+}
+
+const TagBreakdownTable: React.FC<TagBreakdownTableProps> = ({ breakdown }) => {
+  const formatPercentage = (percentage: number) => {
+    if (isNaN(percentage) || !isFinite(percentage)) {
+      return '0.0%';
+    }
+    return `${percentage.toFixed(1)}%`;
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+      {/* Header */}
+      <div className="px-4 sm:px-6 py-4 sm:py-5 border-b border-gray-200">
+        <h3 className="text-lg sm:text-xl font-semibold text-gray-900 mb-3">Tag Breakdown</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+          <div className="bg-blue-50 rounded-lg p-3">
+            <div className="text-xs sm:text-sm text-blue-600 font-medium mb-1">Total Amount</div>
+            <div className="text-lg sm:text-xl font-bold text-blue-900">
+              {formatMoney(breakdown.total_amount, breakdown.base_currency)}
+            </div>
+          </div>
+          <div className="bg-purple-50 rounded-lg p-3">
+            <div className="text-xs sm:text-sm text-purple-600 font-medium mb-1">Total Transactions</div>
+            <div className="text-lg sm:text-xl font-bold text-purple-900">
+              {breakdown.total_transactions}
+            </div>
+          </div>
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          A transaction with several tags is counted under each of them.
+        </p>
+      </div>
+
+      {breakdown.breakdown.length === 0 ? (
+        <div className="px-4 sm:px-6 py-8 sm:py-12 text-center">
+          <p className="text-gray-500 text-sm sm:text-base">No tag data available</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {breakdown.breakdown.map(item => (
+            <div key={item.tag_name || 'untagged'} className="p-4 sm:p-6 hover:bg-gray-50 transition-colors duration-150">
+              <div className="flex items-start justify-between mb-3">
+                <div className="min-w-0 flex-1 mr-4">
+                  <h4 className={`text-base sm:text-lg font-semibold truncate ${item.tag_name ? 'text-gray-900' : 'text-gray-500'}`}>
+                    {item.tag_name ? `#${item.tag_name}` : 'Untagged'}
+                  </h4>
+                  <p className="text-sm text-gray-500">
+                    {item.transaction_count} transaction{item.transaction_count === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <div className="text-xl sm:text-2xl font-bold text-gray-900">
+                    {formatMoney(item.total_amount, breakdown.base_currency)}
+                  </div>
+                  <div className="text-sm text-gray-500 mt-1">
+                    {formatPercentage(item.percentage)} of total
+                  </div>
+                </div>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-3">
+                <div
+                  className={`h-3 rounded-full transition-all duration-500 ease-out ${item.tag_name ? 'bg-blue-500' : 'bg-gray-400'}`}
+                  style={{ width: `${Math.min(isNaN(item.percentage) ? 0 : item.percentage, 100)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagBreakdownTable;
\ No newline at end of file
@@ -30,6 +30,7 @@ const TransactionReportTable: React.FC<TransactionReportTableProps> = ({
   };
 
   const getTypeColor = (type: string) => {
+    if (type === 'Transfer') return 'text-blue-600';
     return type === 'Income' ? 'text-green-600' : 'text-red-600';
   };
 
@@ -118,7 +119,7 @@ const TransactionReportTable: React.FC<TransactionReportTableProps> = ({
               report.transactions.map((transaction: any) => (
                 <tr key={transaction.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {formatDate(transaction.created_at)}
+                    {formatDate(transaction.transaction_date)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {transaction.title}
@@ -158,7 +159,7 @@ const TransactionReportTable: React.FC<TransactionReportTableProps> = ({
                     {transaction.title}
                   </p>
                   <p className="text-xs text-gray-500 mt-1">
-                    {formatDate(transaction.created_at)}
+                    {formatDate(transaction.transaction_date)}
                   </p>
                 </div>
                 <span className={`ml-2 text-base font-medium ${getTypeColor(transaction.type)} whitespace-nowrap`}>
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { User, AuthContextType, RegisterForm } from '@/types';
+import { User, AuthContextType, RegisterForm, TwoFactorChallenge } from '@/types';
 import { AuthService } from '@/utils/auth';
 import { useRouter } from 'next/router';
 import toast from 'react-hot-toast';
@@ -40,13 +40,47 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
-  const login = async (email: string, password: string): Promise<void> => {
+  // Access tokens are short-lived, so keep renewing them while the user is signed in
+  useEffect(() => {
+    if (!user) return;
+
+    const keepSessionFresh = async () => {
+      if (!(await AuthService.ensureFreshToken()) && !AuthService.getToken()) {
+        setUser(null);
+        toast.error('Your session has ended. Please log in again.');
+        router.push('/auth/login');
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        keepSessionFresh();
+      }
+    };
+
+    const interval = setInterval(keepSessionFresh, 30 * 1000);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [user]);
+
+  const login = async (email: string, password: string): Promise<TwoFactorChallenge | null> => {
     try {
       setLoading(true);
-      const { user: loggedInUser } = await AuthService.login(email, password);
-      setUser(loggedInUser);
+      const result = await AuthService.login(email, password);
+
+      // The login page asks for the code and finishes with completeTwoFactorLogin
+      if ('twoFactorRequired' in result) {
+        return result;
+      }
+
+      setUser(result.user);
       toast.success('Login successful!');
       router.push('/transactions');
+      return null;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Login failed';
       toast.error(message);
@@ -56,6 +90,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const completeTwoFactorLogin = async (challengeToken: string, code: string): Promise<void> => {
+    try {
+      setLoading(true);
+      const { user: loggedInUser } = await AuthService.completeTwoFactorLogin(challengeToken, code);
+      setUser(loggedInUser);
+      toast.success('Login successful!');
+      router.push('/transactions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const register = async (data: RegisterForm): Promise<void> => {
     try {
       setLoading(true);
@@ -79,11 +125,25 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     router.push('/');
   };
 
+  const logoutEverywhere = async (): Promise<void> => {
+    try {
+      await AuthService.logoutEverywhere();
+      setUser(null);
+      toast.success('Logged out of all sessions');
+      router.push('/');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to log out of all sessions';
+      toast.error(message);
+    }
+  };
+
   const value: AuthContextType = {
     user,
     login,
+    completeTwoFactorLogin,
     register,
     logout,
+    logoutEverywhere,
     loading,
   };
 
@@ -4,6 +4,7 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Category } from '@/types';
 import { CategoryService, CreateCategoryData, UpdateCategoryData } from '@/utils/categoryApi';
 import { useAuth } from './AuthContext';
+import { showUndoToast } from '@/components/UndoToast';
 import toast from 'react-hot-toast';
 
 interface CategoryContextType {
@@ -95,7 +96,7 @@ export const CategoryProvider: React.FC<CategoryProviderProps> = ({ children })
       setLoading(true);
       await CategoryService.deleteCategory(id);
       setCategories(prev => prev.filter(category => category.id !== id));
-      toast.success('Category deleted successfully');
+      showUndoToast('Category moved to the trash', 'category', id, refreshCategories);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to delete category';
       toast.error(message);
@@ -6,6 +6,7 @@ import {
   DashboardSummary, 
   TransactionReport, 
   CategoryBreakdown, 
+  TagBreakdown,
   TrendsReport,
   ChartData,
   TransactionReportFilters,
@@ -17,6 +18,7 @@ interface DashboardContextType {
   summary: DashboardSummary | null;
   transactionReport: TransactionReport | null;
   categoryBreakdown: CategoryBreakdown | null;
+  tagBreakdown: TagBreakdown | null;
   trendsReport: TrendsReport | null;
   chartData: { [key: string]: ChartData };
   loading: boolean;
@@ -30,6 +32,13 @@ interface DashboardContextType {
     type?: 'Income' | 'Expense';
     start_date?: string;
     end_date?: string;
+    tags?: string;
+  }) => Promise<void>;
+  fetchTagBreakdown: (filters?: {
+    wallet_id?: string;
+    type?: 'Income' | 'Expense';
+    start_date?: string;
+    end_date?: string;
   }) => Promise<void>;
   fetchTrends: (filters?: {
     wallet_id?: string;
@@ -68,6 +77,7 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const [summary, setSummary] = useState<DashboardSummary | null>(null);
   const [transactionReport, setTransactionReport] = useState<TransactionReport | null>(null);
   const [categoryBreakdown, setCategoryBreakdown] = useState<CategoryBreakdown | null>(null);
+  const [tagBreakdown, setTagBreakdown] = useState<TagBreakdown | null>(null);
   const [trendsReport, setTrendsReport] = useState<TrendsReport | null>(null);
   const [chartData, setChartData] = useState<{ [key: string]: ChartData }>({});
   const [loading, setLoading] = useState(false);
@@ -108,6 +118,7 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     type?: 'Income' | 'Expense';
     start_date?: string;
     end_date?: string;
+    tags?: string;
   } = {}) => {
     try {
       setLoading(true);
@@ -121,6 +132,24 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   }, []);
 
+  const fetchTagBreakdown = useCallback(async (filters: {
+    wallet_id?: string;
+    type?: 'Income' | 'Expense';
+    start_date?: string;
+    end_date?: string;
+  } = {}) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await dashboardApi.getTagBreakdown(filters);
+      setTagBreakdown(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch tag breakdown');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   const fetchTrends = useCallback(async (filters: {
     wallet_id?: string;
     period?: 'monthly' | 'weekly';
@@ -248,6 +277,7 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     summary,
     transactionReport,
     categoryBreakdown,
+    tagBreakdown,
     trendsReport,
     chartData,
     loading,
@@ -255,6 +285,7 @@ export const DashboardProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     fetchSummary,
     fetchTransactionReport,
     fetchCategoryBreakdown,
+    fetchTagBreakdown,
     fetchTrends,
     fetchChartData,
     exportTransactions,
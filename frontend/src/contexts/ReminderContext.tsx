@@ -1,14 +1,22 @@
 'use client';
 
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { Reminder } from '@/types';
-import { reminderApi, CreateReminderRequest, UpdateReminderRequest, ReminderSchedule } from '@/utils/reminderApi';
+import { Reminder, ReminderSettlement } from '@/types';
+import {
+  reminderApi,
+  CreateReminderRequest,
+  UpdateReminderRequest,
+  ReminderSchedule,
+  SettleOccurrenceRequest,
+  SettleOccurrenceResult
+} from '@/utils/reminderApi';
 import toast from 'react-hot-toast';
 
 interface ReminderContextType {
   reminders: Reminder[];
   upcomingReminders: Reminder[];
   overdueReminders: Reminder[];
+  settlements: ReminderSettlement[];
   loading: boolean;
   error: string | null;
   
@@ -24,6 +32,11 @@ interface ReminderContextType {
   deleteReminder: (reminderId: string) => Promise<boolean>;
   activateReminder: (reminderId: string) => Promise<Reminder | null>;
   deactivateReminder: (reminderId: string) => Promise<Reminder | null>;
+
+  // Occurrence operations
+  fetchSettlements: () => Promise<void>;
+  settleOccurrence: (reminderId: string, date: string, data?: SettleOccurrenceRequest) => Promise<SettleOccurrenceResult | null>;
+  skipOccurrence: (reminderId: string, date: string) => Promise<ReminderSettlement | null>;
   
   // Utility functions
   clearError: () => void;
@@ -49,6 +62,7 @@ export const ReminderProvider: React.FC<ReminderProviderProps> = ({ children })
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [upcomingReminders, setUpcomingReminders] = useState<Reminder[]>([]);
   const [overdueReminders, setOverdueReminders] = useState<Reminder[]>([]);
+  const [settlements, setSettlements] = useState<ReminderSettlement[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -247,6 +261,56 @@ export const ReminderProvider: React.FC<ReminderProviderProps> = ({ children })
     }
   }, []);
 
+  const fetchSettlements = useCallback(async () => {
+    try {
+      setError(null);
+      const userSettlements = await reminderApi.getSettlements();
+      setSettlements(userSettlements);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch reminder occurrences';
+      setError(errorMessage);
+      toast.error(errorMessage);
+    }
+  }, []);
+
+  const settleOccurrence = useCallback(async (
+    reminderId: string,
+    date: string,
+    data: SettleOccurrenceRequest = {}
+  ): Promise<SettleOccurrenceResult | null> => {
+    try {
+      setError(null);
+      const result = await reminderApi.settleOccurrence(reminderId, date, data);
+
+      setSettlements(prev => [...prev, result.settlement]);
+
+      toast.success('Occurrence marked as paid');
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to mark occurrence as paid';
+      setError(errorMessage);
+      toast.error(errorMessage);
+      return null;
+    }
+  }, []);
+
+  const skipOccurrence = useCallback(async (reminderId: string, date: string): Promise<ReminderSettlement | null> => {
+    try {
+      setError(null);
+      const settlement = await reminderApi.skipOccurrence(reminderId, date);
+
+      setSettlements(prev => [...prev, settlement]);
+
+      toast.success('Occurrence skipped');
+      return settlement;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to skip occurrence';
+      setError(errorMessage);
+      toast.error(errorMessage);
+      return null;
+    }
+  }, []);
+
   const getReminderById = useCallback((reminderId: string): Reminder | undefined => {
     return reminders.find(reminder => reminder.id === reminderId);
   }, [reminders]);
@@ -256,13 +320,15 @@ export const ReminderProvider: React.FC<ReminderProviderProps> = ({ children })
       fetchUserReminders(),
       fetchUpcomingReminders(),
       fetchOverdueReminders(),
+      fetchSettlements(),
     ]);
-  }, [fetchUserReminders, fetchUpcomingReminders, fetchOverdueReminders]);
+  }, [fetchUserReminders, fetchUpcomingReminders, fetchOverdueReminders, fetchSettlements]);
 
   const value: ReminderContextType = {
     reminders,
     upcomingReminders,
     overdueReminders,
+    settlements,
     loading,
     error,
     fetchUserReminders,
@@ -276,6 +342,9 @@ export const ReminderProvider: React.FC<ReminderProviderProps> = ({ children })
     deleteReminder,
     activateReminder,
     deactivateReminder,
+    fetchSettlements,
+    settleOccurrence,
+    skipOccurrence,
     clearError,
     getReminderById,
     refreshReminders,
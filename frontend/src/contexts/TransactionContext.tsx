@@ -5,10 +5,15 @@ import { Transaction } from '@/types';
 import { 
   TransactionService, 
   CreateTransactionData, 
+  CreateTransferData,
   UpdateTransactionData, 
   TransactionFilters,
-  TransactionListResponse 
+  TransactionListResponse,
+  TransactionImportData,
+  ImportPreviewResult,
+  ImportResult
 } from '@/utils/transactionApi';
+import { showUndoToast } from '@/components/UndoToast';
 import { useAuth } from './AuthContext';
 import { requestManager } from '@/utils/requestManager';
 import toast from 'react-hot-toast';
@@ -29,6 +34,9 @@ interface TransactionContextType {
   fetchSummary: (filters?: Omit<TransactionFilters, 'page' | 'limit'>) => Promise<void>;
   fetchTransactionsAndSummary: (filters?: TransactionFilters) => Promise<void>;
   createTransaction: (data: CreateTransactionData) => Promise<void>;
+  createTransfer: (data: CreateTransferData) => Promise<void>;
+  previewImport: (data: TransactionImportData) => Promise<ImportPreviewResult>;
+  importTransactions: (data: TransactionImportData) => Promise<ImportResult>;
   updateTransaction: (id: string, data: UpdateTransactionData) => Promise<void>;
   deleteTransaction: (id: string) => Promise<void>;
 }
@@ -206,6 +214,49 @@ export const TransactionProvider: React.FC<TransactionProviderProps> = ({ childr
     }
   };
 
+  const createTransfer = async (data: CreateTransferData): Promise<void> => {
+    try {
+      setLoading(true);
+      await TransactionService.createTransfer(data);
+      toast.success('Transfer created successfully');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create transfer';
+      toast.error(message);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const previewImport = async (data: TransactionImportData): Promise<ImportPreviewResult> => {
+    try {
+      return await TransactionService.previewImport(data);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to preview import';
+      toast.error(message);
+      throw error;
+    }
+  };
+
+  const importTransactions = async (data: TransactionImportData): Promise<ImportResult> => {
+    try {
+      setLoading(true);
+      const result = await TransactionService.importTransactions(data);
+      if (result.status === 'completed') {
+        toast.success(`Imported ${result.imported_records} transactions`);
+      } else {
+        toast.error('Import failed. No transactions were imported.');
+      }
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import transactions';
+      toast.error(message);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const updateTransaction = async (id: string, data: UpdateTransactionData): Promise<void> => {
     try {
       setLoading(true);
@@ -227,9 +278,21 @@ export const TransactionProvider: React.FC<TransactionProviderProps> = ({ childr
     try {
       setLoading(true);
       await TransactionService.deleteTransaction(id);
-      setTransactions(prev => (prev || []).filter(transaction => transaction.id !== id));
-      setTotal(prev => prev - 1);
-      toast.success('Transaction deleted successfully');
+      // Deleting a transfer leg removes its paired leg as well
+      const transferId = transactions.find(transaction => transaction.id === id)?.transfer_id;
+      const isRemoved = (transaction: Transaction) =>
+        transaction.id === id || (!!transferId && transaction.transfer_id === transferId);
+      const removed = (transactions || []).filter(isRemoved);
+      const removedCount = removed.length || 1;
+      setTransactions(prev => (prev || []).filter(transaction => !isRemoved(transaction)));
+      setTotal(prev => prev - removedCount);
+      showUndoToast('Transaction moved to the trash', 'transaction', id, () => {
+        // Put the restored rows back where they were in the date-ordered list
+        setTransactions(prev => [...(prev || []), ...removed].sort(
+          (a, b) => new Date(b.transaction_date).getTime() - new Date(a.transaction_date).getTime()
+        ));
+        setTotal(prev => prev + removedCount);
+      });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to delete transaction';
       toast.error(message);
@@ -250,6 +313,9 @@ export const TransactionProvider: React.FC<TransactionProviderProps> = ({ childr
     fetchSummary,
     fetchTransactionsAndSummary,
     createTransaction,
+    createTransfer,
+    previewImport,
+    importTransactions,
     updateTransaction,
     deleteTransaction,
   };
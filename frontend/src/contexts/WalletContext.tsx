@@ -4,14 +4,15 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Wallet } from '@/types';
 import { WalletService } from '@/utils/walletApi';
 import { useAuth } from './AuthContext';
+import { showUndoToast } from '@/components/UndoToast';
 import toast from 'react-hot-toast';
 
 interface WalletContextType {
   wallets: Wallet[];
   defaultWallet: Wallet | null;
   loading: boolean;
-  createWallet: (name: string) => Promise<void>;
-  updateWallet: (id: string, name: string) => Promise<void>;
+  createWallet: (name: string, currency?: string) => Promise<void>;
+  updateWallet: (id: string, name: string, currency?: string) => Promise<void>;
   deleteWallet: (id: string) => Promise<void>;
   setDefaultWallet: (id: string) => Promise<void>;
   refreshWallets: () => Promise<void>;
@@ -61,10 +62,10 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     }
   }, [user]);
 
-  const createWallet = async (name: string): Promise<void> => {
+  const createWallet = async (name: string, currency?: string): Promise<void> => {
     try {
       setLoading(true);
-      const newWallet = await WalletService.createWallet({ name });
+      const newWallet = await WalletService.createWallet({ name, currency });
       setWallets(prev => [...prev, newWallet]);
       toast.success('Wallet created successfully');
     } catch (error) {
@@ -76,10 +77,10 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     }
   };
 
-  const updateWallet = async (id: string, name: string): Promise<void> => {
+  const updateWallet = async (id: string, name: string, currency?: string): Promise<void> => {
     try {
       setLoading(true);
-      const updatedWallet = await WalletService.updateWallet(id, { name });
+      const updatedWallet = await WalletService.updateWallet(id, { name, currency });
       setWallets(prev => prev.map(wallet => 
         wallet.id === id ? updatedWallet : wallet
       ));
@@ -98,7 +99,7 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
       setLoading(true);
       await WalletService.deleteWallet(id);
       setWallets(prev => prev.filter(wallet => wallet.id !== id));
-      toast.success('Wallet deleted successfully');
+      showUndoToast('Wallet moved to the trash', 'wallet', id, refreshWallets);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to delete wallet';
       toast.error(message);
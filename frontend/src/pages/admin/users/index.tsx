@@ -4,10 +4,18 @@ import ProtectedRoute from '@/components/ProtectedRoute';
 import Layout from '@/components/Layout';
 import { useAuth } from '@/contexts/AuthContext';
 import { UserService, AdminCreateUserData, AdminUpdateUserData } from '@/utils/userApi';
-import { UserResponse } from '@/types';
+import { SecuritySettings, UserResponse } from '@/types';
 import toast from 'react-hot-toast';
+import AuditLogPanel from '@/components/AuditLogPanel';
+import { AuditLogService } from '@/utils/auditLogApi';
+import { SettingsService } from '@/utils/settingsApi';
 import { useRouter } from 'next/router';
 
+// Accounts lock for a while after too many failed logins
+const isLocked = (userItem: UserResponse) => {
+  return !!userItem.locked_until && new Date(userItem.locked_until) > new Date();
+};
+
 const AdminUsersPage: React.FC = () => {
   const { user } = useAuth();
   const router = useRouter();
@@ -16,6 +24,8 @@ const AdminUsersPage: React.FC = () => {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingUser, setEditingUser] = useState<UserResponse | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [historyUser, setHistoryUser] = useState<UserResponse | null>(null);
+  const [securitySettings, setSecuritySettings] = useState<SecuritySettings | null>(null);
 
   // Redirect non-admin users
   useEffect(() => {
@@ -28,6 +38,7 @@ const AdminUsersPage: React.FC = () => {
   useEffect(() => {
     if (user?.role === 'admin') {
       fetchUsers();
+      fetchSecuritySettings();
     }
   }, [user]);
 
@@ -44,6 +55,24 @@ const AdminUsersPage: React.FC = () => {
     }
   };
 
+  const fetchSecuritySettings = async () => {
+    try {
+      setSecuritySettings(await SettingsService.getSecuritySettings());
+    } catch (error) {
+      // fetchUsers already reports why the admin area is unavailable
+    }
+  };
+
+  const handleToggleAdminTwoFactor = async (required: boolean) => {
+    try {
+      setSecuritySettings(await SettingsService.updateSecuritySettings({ require_admin_two_factor: required }));
+      toast.success(required ? 'Admins now need two-factor authentication' : 'Two-factor authentication is optional for admins');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update security settings';
+      toast.error(message);
+    }
+  };
+
   const handleCreateUser = async (data: AdminCreateUserData) => {
     try {
       const newUser = await UserService.createUser(data);
@@ -80,6 +109,29 @@ const AdminUsersPage: React.FC = () => {
     }
   };
 
+  const handleForceLogout = async (userItem: UserResponse) => {
+    if (!window.confirm(`Log ${userItem.username} out of every device?`)) return;
+
+    try {
+      const endedSessions = await UserService.forceLogout(userItem.id);
+      toast.success(`Ended ${endedSessions} session(s) of ${userItem.username}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to log the user out';
+      toast.error(message);
+    }
+  };
+
+  const handleUnlock = async (userItem: UserResponse) => {
+    try {
+      const updatedUser = await UserService.unlockUser(userItem.id);
+      setUsers(prev => prev.map(u => u.id === userItem.id ? updatedUser : u));
+      toast.success(`${userItem.username} can sign in again`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to unlock the user';
+      toast.error(message);
+    }
+  };
+
   const handleResetPassword = async (id: string) => {
     const newPassword = prompt('Enter new password for user:');
     if (!newPassword) return;
@@ -143,6 +195,26 @@ const AdminUsersPage: React.FC = () => {
             </button>
           </div>
 
+          {/* Security Settings */}
+          {securitySettings && (
+            <div className="bg-white shadow sm:rounded-md p-4 sm:p-6 mb-6">
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={securitySettings.require_admin_two_factor}
+                  onChange={(e) => handleToggleAdminTwoFactor(e.target.checked)}
+                  className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">Require two-factor authentication for admins</span>
+                  <span className="block text-sm text-gray-500">
+                    Admins without it cannot use admin features until they turn it on in their profile.
+                  </span>
+                </span>
+              </label>
+            </div>
+          )}
+
           {/* Users List */}
           <div className="bg-white shadow overflow-hidden sm:rounded-md">
             <div className="divide-y divide-gray-200">
@@ -173,6 +245,14 @@ const AdminUsersPage: React.FC = () => {
                           }`}>
                             {userItem.role}
                           </span>
+                          {isLocked(userItem) && (
+                            <span
+                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium w-fit bg-yellow-100 text-yellow-800"
+                              title={`Locked until ${new Date(userItem.locked_until!).toLocaleString()}`}
+                            >
+                              locked
+                            </span>
+                          )}
                         </div>
                         
                         <div className="mt-1 space-y-1 sm:space-y-0">
@@ -198,6 +278,16 @@ const AdminUsersPage: React.FC = () => {
                         </svg>
                       </button>
 
+                      <button
+                        onClick={() => setHistoryUser(userItem)}
+                        className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+                        title="Change History"
+                      >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                      </button>
+
                       <button
                         onClick={() => handleResetPassword(userItem.id)}
                         className="p-2 text-gray-400 hover:text-yellow-600 hover:bg-yellow-50 rounded-md transition-colors"
@@ -208,6 +298,30 @@ const AdminUsersPage: React.FC = () => {
                         </svg>
                       </button>
 
+                      {isLocked(userItem) && (
+                        <button
+                          onClick={() => handleUnlock(userItem)}
+                          className="p-2 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-md transition-colors"
+                          title="Unlock Account"
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z" />
+                          </svg>
+                        </button>
+                      )}
+
+                      {userItem.id !== user?.id && (
+                        <button
+                          onClick={() => handleForceLogout(userItem)}
+                          className="p-2 text-gray-400 hover:text-orange-600 hover:bg-orange-50 rounded-md transition-colors"
+                          title="Log Out Everywhere"
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+                          </svg>
+                        </button>
+                      )}
+
                       {userItem.id !== user?.id && (
                         <button
                           onClick={() => setDeleteConfirm(userItem.id)}
@@ -254,6 +368,16 @@ const AdminUsersPage: React.FC = () => {
           />
         )}
 
+        {/* Change History Modal */}
+        {historyUser && (
+          <AuditLogPanel
+            title="Change History"
+            subtitle={`Everything ${historyUser.username} created, changed or deleted`}
+            loadEntries={(page, entityType) => AuditLogService.getUserAuditLog(historyUser.id, page, 20, entityType)}
+            onClose={() => setHistoryUser(null)}
+          />
+        )}
+
         {/* Delete Confirmation Modal */}
         {deleteConfirm && (
           <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 p-4">
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import Link from 'next/link';
+import Head from 'next/head';
+import { Wallet, MailCheck } from 'lucide-react';
+import { AuthService } from '@/utils/auth';
+
+interface ForgotPasswordForm {
+  email: string;
+}
+
+const ForgotPasswordPage: React.FC = () => {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    setError,
+  } = useForm<ForgotPasswordForm>();
+
+  const onSubmit = async (data: ForgotPasswordForm) => {
+    try {
+      await AuthService.forgotPassword(data.email);
+      setSentTo(data.email);
+    } catch (error) {
+      setError('root', {
+        type: 'manual',
+        message: error instanceof Error ? error.message : 'Failed to send the reset link',
+      });
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Forgot Password - Cashly</title>
+        <meta name="description" content="Reset the password of your Cashly account" />
+      </Head>
+
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 space-y-8">
+          <div className="text-center">
+            <Wallet className="w-10 h-10 text-blue-600 mx-auto mb-4" />
+            <h2 className="text-3xl font-bold tracking-tight text-gray-900">
+              Forgot your password?
+            </h2>
+            <p className="mt-2 text-sm text-gray-500">
+              Enter your email and we will send you a link to choose a new one.
+            </p>
+          </div>
+
+          {sentTo ? (
+            <div className="rounded-lg bg-green-50 p-4 text-sm text-green-800 flex gap-3">
+              <MailCheck className="w-5 h-5 flex-shrink-0" />
+              <p>
+                If an account uses <span className="font-medium">{sentTo}</span>, a reset link is on its way.
+                The link works once and expires in an hour.
+              </p>
+            </div>
+          ) : (
+            <form className="space-y-5" onSubmit={handleSubmit(onSubmit)}>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Email address
+                </label>
+                <input
+                  {...register('email', {
+                    required: 'Email is required',
+                    pattern: {
+                      value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                      message: 'Invalid email address',
+                    },
+                  })}
+                  type="email"
+                  className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm
+                  focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition"
+                  placeholder="you@email.com"
+                />
+                {errors.email && (
+                  <p className="mt-1 text-xs text-red-600">
+                    {errors.email.message}
+                  </p>
+                )}
+              </div>
+
+              {errors.root && (
+                <div className="rounded-lg bg-red-50 p-3 text-xs text-red-700">
+                  {errors.root.message}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full rounded-lg bg-blue-600 py-2.5 text-sm font-semibold text-white hover:bg-blue-700 transition
+                focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
+                disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Sending...' : 'Send reset link'}
+              </button>
+            </form>
+          )}
+
+          <p className="text-center text-sm text-gray-500">
+            <Link href="/auth/login" className="font-medium text-blue-600 hover:text-blue-500">
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ForgotPasswordPage;
\ No newline at end of file
@@ -3,13 +3,17 @@ import { useForm } from 'react-hook-form';
 import { useAuth } from '@/contexts/AuthContext';
 import Link from 'next/link';
 import Head from 'next/head';
-import { LoginForm } from '@/types';
-import { Eye, EyeOff, CheckCircle, Wallet } from 'lucide-react';
+import { LoginForm, TwoFactorChallenge } from '@/types';
+import { Eye, EyeOff, CheckCircle, Wallet, ShieldCheck } from 'lucide-react';
 
+interface TwoFactorForm {
+  code: string;
+}
 
 const LoginPage: React.FC = () => {
-  const { login, loading } = useAuth();
+  const { login, completeTwoFactorLogin, loading } = useAuth();
   const [showPassword, setShowPassword] = useState(false);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
 
   const {
     register,
@@ -18,9 +22,20 @@ const LoginPage: React.FC = () => {
     setError,
   } = useForm<LoginForm>();
 
+  const {
+    register: registerCode,
+    handleSubmit: handleSubmitCode,
+    formState: { errors: codeErrors, isSubmitting: isSubmittingCode },
+    setError: setCodeError,
+    reset: resetCode,
+  } = useForm<TwoFactorForm>();
+
   const onSubmit = async (data: LoginForm) => {
     try {
-      await login(data.email, data.password);
+      const twoFactorChallenge = await login(data.email, data.password);
+      if (twoFactorChallenge) {
+        setChallenge(twoFactorChallenge);
+      }
     } catch (error) {
       setError('root', {
         type: 'manual',
@@ -29,6 +44,24 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  const onSubmitCode = async (data: TwoFactorForm) => {
+    if (!challenge) return;
+
+    try {
+      await completeTwoFactorLogin(challenge.challengeToken, data.code.trim());
+    } catch (error) {
+      setCodeError('root', {
+        type: 'manual',
+        message: error instanceof Error ? error.message : 'Verification failed',
+      });
+    }
+  };
+
+  const backToPassword = () => {
+    setChallenge(null);
+    resetCode();
+  };
+
   return (
     <>
       <Head>
@@ -93,105 +126,172 @@ const LoginPage: React.FC = () => {
               </p>
             </div>
 
-            <form className="space-y-5" onSubmit={handleSubmit(onSubmit)}>
-              {/* Email */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700">
-                  Email address
-                </label>
-                <input
-                  {...register('email', {
-                    required: 'Email is required',
-                    pattern: {
-                      value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                      message: 'Invalid email address',
-                    },
-                  })}
-                  type="email"
-                  className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm
-                  focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition"
-                  placeholder="you@email.com"
-                />
-                {errors.email && (
-                  <p className="mt-1 text-xs text-red-600">
-                    {errors.email.message}
+            {challenge ? (
+              <form className="space-y-5" onSubmit={handleSubmitCode(onSubmitCode)}>
+                <div className="rounded-lg bg-blue-50 p-4 text-sm text-blue-800 flex gap-3">
+                  <ShieldCheck className="w-5 h-5 flex-shrink-0" />
+                  <p>
+                    Enter the 6-digit code from your authenticator app, or one of your recovery codes.
                   </p>
-                )}
-              </div>
+                </div>
 
-              {/* Password */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700">
-                  Password
-                </label>
-                <div className="relative mt-1">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Verification code
+                  </label>
                   <input
-                    {...register('password', {
-                      required: 'Password is required',
+                    {...registerCode('code', {
+                      required: 'Code is required',
                     })}
-                    type={showPassword ? 'text' : 'password'}
-                    className="block w-full rounded-lg border border-gray-300 px-3 py-2.5 pr-10 text-sm
+                    type="text"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm tracking-widest
                     focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition"
-                    placeholder="••••••••"
+                    placeholder="123456"
                   />
+                  {codeErrors.code && (
+                    <p className="mt-1 text-xs text-red-600">
+                      {codeErrors.code.message}
+                    </p>
+                  )}
+                </div>
+
+                {codeErrors.root && (
+                  <div className="rounded-lg bg-red-50 p-3 text-xs text-red-700">
+                    {codeErrors.root.message}
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={isSubmittingCode}
+                  className="w-full rounded-lg bg-blue-600 py-2.5 text-sm font-semibold text-white hover:bg-blue-700 transition
+                  focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
+                  disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmittingCode ? 'Verifying...' : 'Verify'}
+                </button>
+
+                <p className="text-center text-sm text-gray-500">
                   <button
                     type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute inset-y-0 right-0 flex items-center pr-3
-                    text-gray-400 hover:text-gray-600 focus:outline-none"
+                    onClick={backToPassword}
+                    className="font-medium text-blue-600 hover:text-blue-500"
                   >
-                    {showPassword ? (
-                      <EyeOff className="w-5 h-5" />
-                    ) : (
-                      <Eye className="w-5 h-5" />
-                    )}
+                    Back to sign in
                   </button>
+                </p>
+              </form>
+            ) : (
+              <form className="space-y-5" onSubmit={handleSubmit(onSubmit)}>
+                {/* Email */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Email address
+                  </label>
+                  <input
+                    {...register('email', {
+                      required: 'Email is required',
+                      pattern: {
+                        value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                        message: 'Invalid email address',
+                      },
+                    })}
+                    type="email"
+                    className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm
+                    focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition"
+                    placeholder="you@email.com"
+                  />
+                  {errors.email && (
+                    <p className="mt-1 text-xs text-red-600">
+                      {errors.email.message}
+                    </p>
+                  )}
                 </div>
-                {errors.password && (
-                  <p className="mt-1 text-xs text-red-600">
-                    {errors.password.message}
-                  </p>
-                )}
-              </div>
 
-              {errors.root && (
-                <div className="rounded-lg bg-red-50 p-3 text-xs text-red-700">
-                  {errors.root.message}
-                </div>
-              )}
-
-              <button
-                type="submit"
-                disabled={loading}
-                className="w-full flex items-center justify-center gap-2 rounded-lg bg-blue-600 py-2.5
-                text-sm font-semibold text-white hover:bg-blue-700 transition
-                focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
-                disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {loading && (
-                  <svg
-                    className="h-4 w-4 animate-spin"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                  >
-                    <circle
-                      className="opacity-25"
-                      cx="12"
-                      cy="12"
-                      r="10"
-                      stroke="currentColor"
-                      strokeWidth="4"
-                    />
-                    <path
-                      className="opacity-75"
-                      fill="currentColor"
-                      d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"
+                {/* Password */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Password
+                  </label>
+                  <div className="relative mt-1">
+                    <input
+                      {...register('password', {
+                        required: 'Password is required',
+                      })}
+                      type={showPassword ? 'text' : 'password'}
+                      className="block w-full rounded-lg border border-gray-300 px-3 py-2.5 pr-10 text-sm
+                      focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition"
+                      placeholder="••••••••"
                     />
-                  </svg>
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute inset-y-0 right-0 flex items-center pr-3
+                      text-gray-400 hover:text-gray-600 focus:outline-none"
+                    >
+                      {showPassword ? (
+                        <EyeOff className="w-5 h-5" />
+                      ) : (
+                        <Eye className="w-5 h-5" />
+                      )}
+                    </button>
+                  </div>
+                  {errors.password && (
+                    <p className="mt-1 text-xs text-red-600">
+                      {errors.password.message}
+                    </p>
+                  )}
+                  <div className="mt-2 text-right">
+                    <Link
+                      href="/auth/forgot-password"
+                      className="text-xs font-medium text-blue-600 hover:text-blue-500"
+                    >
+                      Forgot your password?
+                    </Link>
+                  </div>
+                </div>
+
+                {errors.root && (
+                  <div className="rounded-lg bg-red-50 p-3 text-xs text-red-700">
+                    {errors.root.message}
+                  </div>
                 )}
-                Sign in
-              </button>
-            </form>
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full flex items-center justify-center gap-2 rounded-lg bg-blue-600 py-2.5
+                  text-sm font-semibold text-white hover:bg-blue-700 transition
+                  focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
+                  disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading && (
+                    <svg
+                      className="h-4 w-4 animate-spin"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                    >
+                      <circle
+                        className="opacity-25"
+                        cx="12"
+                        cy="12"
+                        r="10"
+                        stroke="currentColor"
+                        strokeWidth="4"
+                      />
+                      <path
+                        className="opacity-75"
+                        fill="currentColor"
+                        d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"
+                      />
+                    </svg>
+                  )}
+                  Sign in
+                </button>
+              </form>
+            )}
           </div>
         </div>
       </div>
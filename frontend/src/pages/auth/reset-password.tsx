@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import Head from 'next/head';
+import { Wallet, Eye, EyeOff } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AuthService, validatePassword } from '@/utils/auth';
+import PasswordStrengthIndicator from '@/components/PasswordStrengthIndicator';
+
+interface ResetPasswordForm {
+  newPassword: string;
+  confirmPassword: string;
+}
+
+const ResetPasswordPage: React.FC = () => {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const [showPassword, setShowPassword] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+    setError,
+  } = useForm<ResetPasswordForm>();
+
+  const watchPassword = watch('newPassword', '');
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    const passwordValidation = validatePassword(data.newPassword);
+    if (!passwordValidation.isValid) {
+      setError('newPassword', {
+        type: 'manual',
+        message: passwordValidation.errors[0],
+      });
+      return;
+    }
+
+    try {
+      await AuthService.resetPassword(token, data.newPassword, data.confirmPassword);
+      toast.success('Password reset. You can sign in with your new password.');
+      router.push('/auth/login');
+    } catch (error) {
+      setError('root', {
+        type: 'manual',
+        message: error instanceof Error ? error.message : 'Failed to reset password',
+      });
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Reset Password - Cashly</title>
+        <meta name="description" content="Choose a new password for your Cashly account" />
+      </Head>
+
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 space-y-8">
+          <div className="text-center">
+            <Wallet className="w-10 h-10 text-blue-600 mx-auto mb-4" />
+            <h2 className="text-3xl font-bold tracking-tight text-gray-900">
+              Choose a new password
+            </h2>
+          </div>
+
+          {router.isReady && !token ? (
+            <div className="rounded-lg bg-red-50 p-4 text-sm text-red-700">
+              This reset link is incomplete. Open the link from the email again, or{' '}
+              <Link href="/auth/forgot-password" className="font-medium underline">
+                ask for a new one
+              </Link>.
+            </div>
+          ) : (
+            <form className="space-y-5" onSubmit={handleSubmit(onSubmit)}>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  New password
+                </label>
+                <div className="relative mt-1">
+                  <input
+                    {...register('newPassword', {
+                      required: 'Password is required',
+                    })}
+                    type={showPassword ? 'text' : 'password'}
+                    className="block w-full rounded-lg border border-gray-300 px-3 py-2.5 pr-10 text-sm
+                    focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition"
+                    placeholder="••••••••"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute inset-y-0 right-0 flex items-center pr-3
+                    text-gray-400 hover:text-gray-600 focus:outline-none"
+                  >
+                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
+                </div>
+                <PasswordStrengthIndicator password={watchPassword} />
+                {errors.newPassword && (
+                  <p className="mt-1 text-xs text-red-600">
+                    {errors.newPassword.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Confirm new password
+                </label>
+                <input
+                  {...register('confirmPassword', {
+                    required: 'Please confirm your password',
+                    validate: value => value === watchPassword || 'Passwords do not match',
+                  })}
+                  type={showPassword ? 'text' : 'password'}
+                  className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm
+                  focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition"
+                  placeholder="••••••••"
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-xs text-red-600">
+                    {errors.confirmPassword.message}
+                  </p>
+                )}
+              </div>
+
+              {errors.root && (
+                <div className="rounded-lg bg-red-50 p-3 text-xs text-red-700">
+                  {errors.root.message}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting || !token}
+                className="w-full rounded-lg bg-blue-600 py-2.5 text-sm font-semibold text-white hover:bg-blue-700 transition
+                focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
+                disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Saving...' : 'Reset password'}
+              </button>
+            </form>
+          )}
+
+          <p className="text-center text-sm text-gray-500">
+            <Link href="/auth/login" className="font-medium text-blue-600 hover:text-blue-500">
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ResetPasswordPage;
\ No newline at end of file
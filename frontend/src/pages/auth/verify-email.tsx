@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import Head from 'next/head';
+import { Wallet, CheckCircle, XCircle } from 'lucide-react';
+import { AuthService } from '@/utils/auth';
+
+type VerificationState = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmailPage: React.FC = () => {
+  const router = useRouter();
+  const [state, setState] = useState<VerificationState>('verifying');
+  const [errorMessage, setErrorMessage] = useState('');
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (!router.isReady || attempted.current) {
+      return;
+    }
+    // The link works once, so never send it twice (React runs effects twice in development)
+    attempted.current = true;
+
+    const token = typeof router.query.token === 'string' ? router.query.token : '';
+    if (!token) {
+      setErrorMessage('This verification link is incomplete.');
+      setState('failed');
+      return;
+    }
+
+    AuthService.verifyEmail(token)
+      .then(() => setState('verified'))
+      .catch(error => {
+        setErrorMessage(error instanceof Error ? error.message : 'Failed to verify email');
+        setState('failed');
+      });
+  }, [router.isReady, router.query.token]);
+
+  return (
+    <>
+      <Head>
+        <title>Verify Email - Cashly</title>
+        <meta name="description" content="Verify the email address of your Cashly account" />
+      </Head>
+
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 space-y-6 text-center">
+          <Wallet className="w-10 h-10 text-blue-600 mx-auto" />
+
+          {state === 'verifying' && (
+            <>
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="text-sm text-gray-500">Verifying your email...</p>
+            </>
+          )}
+
+          {state === 'verified' && (
+            <>
+              <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+              <h2 className="text-2xl font-bold text-gray-900">Email verified</h2>
+              <p className="text-sm text-gray-500">Thanks for confirming your email address.</p>
+            </>
+          )}
+
+          {state === 'failed' && (
+            <>
+              <XCircle className="w-12 h-12 text-red-600 mx-auto" />
+              <h2 className="text-2xl font-bold text-gray-900">We could not verify your email</h2>
+              <p className="text-sm text-gray-500">
+                {errorMessage} You can send a new link from your profile.
+              </p>
+            </>
+          )}
+
+          {state !== 'verifying' && (
+            <Link href="/dashboard" className="inline-block text-sm font-medium text-blue-600 hover:text-blue-500">
+              Go to Cashly
+            </Link>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default VerifyEmailPage;
\ No newline at end of file
@@ -0,0 +1,355 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Layout from '@/components/Layout';
+import CategoryRuleForm from '@/components/CategoryRuleForm';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCategory } from '@/contexts/CategoryContext';
+import { useWallet } from '@/contexts/WalletContext';
+import { CategoryRule } from '@/types';
+import { CategoryRuleService, CategoryRuleData, CategoryRuleChange } from '@/utils/categoryRuleApi';
+import { fromDateKey } from '@/utils/dates';
+import toast from 'react-hot-toast';
+
+const CategoryRulesPage: React.FC = () => {
+  const { user } = useAuth();
+  const { categories } = useCategory();
+  const { wallets } = useWallet();
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [previewChanges, setPreviewChanges] = useState<CategoryRuleChange[] | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchRules();
+    }
+  }, [user]);
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      setRules(await CategoryRuleService.getRules());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load rules';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Errors are rethrown so the form can show them
+  const handleSubmitRule = async (data: CategoryRuleData) => {
+    try {
+      setSaving(true);
+      if (editingRule) {
+        const updatedRule = await CategoryRuleService.updateRule(editingRule.id, data);
+        setRules(prev => prev.map(rule => rule.id === updatedRule.id ? updatedRule : rule));
+        toast.success('Rule updated successfully');
+      } else {
+        const newRule = await CategoryRuleService.createRule(data);
+        setRules(prev => [...prev, newRule]);
+        toast.success('Rule created successfully');
+      }
+      setShowForm(false);
+      setEditingRule(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: CategoryRule) => {
+    try {
+      const updatedRule = await CategoryRuleService.updateRule(rule.id, { is_active: !rule.is_active });
+      setRules(prev => prev.map(r => r.id === updatedRule.id ? updatedRule : r));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update rule';
+      toast.error(message);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      await CategoryRuleService.deleteRule(id);
+      setRules(prev => prev.filter(rule => rule.id !== id));
+      setDeleteConfirm(null);
+      toast.success('Rule deleted successfully');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete rule';
+      toast.error(message);
+    }
+  };
+
+  const handlePreviewApply = async () => {
+    try {
+      setApplying(true);
+      setPreviewChanges(await CategoryRuleService.previewApply());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to preview rules';
+      toast.error(message);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!previewChanges) return;
+
+    try {
+      setApplying(true);
+      // Only apply what the user saw in the preview
+      const result = await CategoryRuleService.applyRules({
+        transaction_ids: previewChanges.map(change => change.transaction_id),
+      });
+      toast.success(`Categorized ${result.updated_count} transaction${result.updated_count === 1 ? '' : 's'}`);
+      setPreviewChanges(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to apply rules';
+      toast.error(message);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const getCategoryName = (categoryId: string) => {
+    return categories.find(category => category.id === categoryId)?.name || 'Unknown category';
+  };
+
+  const getScopeLabel = (rule: CategoryRule) => {
+    if (!rule.wallet_id) return 'All wallets';
+    return wallets.find(wallet => wallet.id === rule.wallet_id)?.name || 'Wallet';
+  };
+
+  const getRuleName = (ruleId: string) => {
+    return rules.find(rule => rule.id === ruleId)?.name || '';
+  };
+
+  const describeConditions = (rule: CategoryRule) => {
+    const conditions: string[] = [];
+    if (rule.title_pattern) {
+      conditions.push(rule.match_type === 'regex'
+        ? `title matches /${rule.title_pattern}/`
+        : `title contains "${rule.title_pattern}"`);
+    }
+    if (rule.min_amount != null) conditions.push(`amount ≥ ${Number(rule.min_amount).toFixed(2)}`);
+    if (rule.max_amount != null) conditions.push(`amount ≤ ${Number(rule.max_amount).toFixed(2)}`);
+    return `${rule.type} where ${conditions.join(' and ')}`;
+  };
+
+  const formatCurrency = (amount: number | string) => {
+    return new Intl.NumberFormat('en-PH', {
+      style: 'currency',
+      currency: 'PHP',
+    }).format(Number(amount));
+  };
+
+  return (
+    <ProtectedRoute>
+      <Head>
+        <title>Category Rules - Cashly</title>
+        <meta name="description" content="Categorize transactions automatically" />
+      </Head>
+
+      <Layout currentPage="Categories">
+        <div className="px-4 py-6 sm:px-0">
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+            <div>
+              <Link href="/categories" className="text-sm text-blue-600 hover:text-blue-800">
+                &larr; Categories
+              </Link>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Category Rules</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Categorize new and imported transactions automatically
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={handlePreviewApply}
+                disabled={applying || rules.length === 0}
+                className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                Run on Uncategorized
+              </button>
+              <button
+                onClick={() => setShowForm(true)}
+                className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Create Rule
+              </button>
+            </div>
+          </div>
+
+          {/* Loading State */}
+          {loading && (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!loading && rules.length === 0 && (
+            <div className="text-center py-12">
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No rules</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Create a rule to categorize matching transactions for you.
+              </p>
+            </div>
+          )}
+
+          {/* Rules List */}
+          {!loading && rules.length > 0 && (
+            <div className="bg-white shadow rounded-lg divide-y divide-gray-200">
+              {rules.map(rule => (
+                <div key={rule.id} className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className={`font-medium ${rule.is_active ? 'text-gray-900' : 'text-gray-400'}`}>{rule.name}</p>
+                      <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">{getScopeLabel(rule)}</span>
+                      {rule.priority !== 0 && (
+                        <span className="text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full">Priority {rule.priority}</span>
+                      )}
+                      {!rule.is_active && (
+                        <span className="text-xs bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">Paused</span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-sm text-gray-600 break-words">
+                      {describeConditions(rule)} &rarr; <span className="font-medium">{getCategoryName(rule.category_id)}</span>
+                    </p>
+                  </div>
+
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleToggleRule(rule)}
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                    >
+                      {rule.is_active ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => setEditingRule(rule)}
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                    >
+                      Edit
+                    </button>
+                    {deleteConfirm === rule.id ? (
+                      <>
+                        <button
+                          onClick={() => handleDeleteRule(rule.id)}
+                          className="px-3 py-1.5 text-sm rounded-md text-white bg-red-600 hover:bg-red-700"
+                        >
+                          Confirm
+                        </button>
+                        <button
+                          onClick={() => setDeleteConfirm(null)}
+                          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => setDeleteConfirm(rule.id)}
+                        className="px-3 py-1.5 text-sm border border-red-300 rounded-md text-red-700 hover:bg-red-50"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Create/Edit Form Modal */}
+        {(showForm || editingRule) && (
+          <CategoryRuleForm
+            rule={editingRule || undefined}
+            onSubmit={handleSubmitRule}
+            onCancel={() => {
+              setShowForm(false);
+              setEditingRule(null);
+            }}
+            loading={saving}
+          />
+        )}
+
+        {/* Apply Preview Modal */}
+        {previewChanges && (
+          <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 p-4">
+            <div className="relative top-4 sm:top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-lg bg-white">
+              <h3 className="text-lg font-medium text-gray-900 text-center mb-4">
+                Run Rules on Uncategorized Transactions
+              </h3>
+
+              {previewChanges.length === 0 ? (
+                <p className="text-sm text-gray-600 text-center py-6">
+                  No uncategorized transactions match your rules.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-700 mb-2">
+                    {previewChanges.length} transaction{previewChanges.length === 1 ? '' : 's'} will be categorized:
+                  </p>
+                  <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left font-medium text-gray-500">Date</th>
+                          <th className="px-3 py-2 text-left font-medium text-gray-500">Title</th>
+                          <th className="px-3 py-2 text-right font-medium text-gray-500">Amount</th>
+                          <th className="px-3 py-2 text-left font-medium text-gray-500">Category</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {previewChanges.map(change => (
+                          <tr key={change.transaction_id}>
+                            <td className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                              {fromDateKey(change.transaction_date).toLocaleDateString()}
+                            </td>
+                            <td className="px-3 py-2 text-gray-900 break-words">{change.title}</td>
+                            <td className="px-3 py-2 text-right whitespace-nowrap">{formatCurrency(change.amount)}</td>
+                            <td className="px-3 py-2 text-gray-900">
+                              {getCategoryName(change.category_id)}
+                              <span className="block text-xs text-gray-500">{getRuleName(change.rule_id)}</span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+
+              <div className="flex justify-end gap-3 pt-4">
+                <button
+                  onClick={() => setPreviewChanges(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  {previewChanges.length === 0 ? 'Close' : 'Cancel'}
+                </button>
+                {previewChanges.length > 0 && (
+                  <button
+                    onClick={handleApply}
+                    disabled={applying}
+                    className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {applying ? 'Applying...' : 'Apply'}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </Layout>
+    </ProtectedRoute>
+  );
+};
+
+export default CategoryRulesPage;
\ No newline at end of file
@@ -4,12 +4,15 @@ import ProtectedRoute from '@/components/ProtectedRoute';
 import Layout from '@/components/Layout';
 import { DashboardProvider, useDashboard } from '@/contexts/DashboardContext';
 import SummaryCards from '@/components/dashboard/SummaryCards';
+import SavingsGoalsCard from '@/components/dashboard/SavingsGoalsCard';
 import ReportFilters from '@/components/dashboard/ReportFilters';
 import TransactionReportTable from '@/components/dashboard/TransactionReportTable';
 import CategoryBreakdownTable from '@/components/dashboard/CategoryBreakdownTable';
+import TagBreakdownTable from '@/components/dashboard/TagBreakdownTable';
 import ExportButtons from '@/components/dashboard/ExportButtons';
 import UpcomingReminders from '@/components/dashboard/UpcomingReminders';
 import SpendingTrendsChart from '@/components/charts/SpendingTrendsChart';
+import CashFlowForecastChart from '@/components/charts/CashFlowForecastChart';
 import CategoryPieChart from '@/components/charts/CategoryPieChart';
 import IncomeExpenseBarChart from '@/components/charts/IncomeExpenseBarChart';
 import BudgetProgressChart from '@/components/charts/BudgetProgressChart';
@@ -19,17 +22,19 @@ const DashboardContent: React.FC = () => {
     summary,
     transactionReport,
     categoryBreakdown,
+    tagBreakdown,
     trendsReport,
     loading,
     error,
     fetchSummary,
     fetchTransactionReport,
     fetchCategoryBreakdown,
+    fetchTagBreakdown,
     fetchTrends,
     clearError
   } = useDashboard();
 
-  const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'categories' | 'trends'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'categories' | 'tags' | 'trends'>('overview');
   const [reportFilters, setReportFilters] = useState<any>({});
 
   useEffect(() => {
@@ -47,6 +52,8 @@ const DashboardContent: React.FC = () => {
       fetchTransactionReport({ ...filters, page: 1, limit: 10 });
     } else if (activeTab === 'categories') {
       fetchCategoryBreakdown(filters);
+    } else if (activeTab === 'tags') {
+      fetchTagBreakdown(filters);
     } else if (activeTab === 'trends') {
       fetchTrends(filters);
     }
@@ -56,7 +63,7 @@ const DashboardContent: React.FC = () => {
     fetchTransactionReport({ ...reportFilters, page, limit: 10 });
   };
 
-  const handleTabChange = (tab: 'overview' | 'transactions' | 'categories' | 'trends') => {
+  const handleTabChange = (tab: 'overview' | 'transactions' | 'categories' | 'tags' | 'trends') => {
     setActiveTab(tab);
     
     // Load data for the selected tab if not already loaded
@@ -64,6 +71,8 @@ const DashboardContent: React.FC = () => {
       fetchTransactionReport({ page: 1, limit: 10 });
     } else if (tab === 'categories' && !categoryBreakdown) {
       fetchCategoryBreakdown();
+    } else if (tab === 'tags' && !tagBreakdown) {
+      fetchTagBreakdown();
     } else if (tab === 'trends' && !trendsReport) {
       fetchTrends();
     }
@@ -108,6 +117,9 @@ const DashboardContent: React.FC = () => {
           {/* Summary Cards */}
           {summary && <SummaryCards summary={summary} />}
 
+          {/* Savings Goals */}
+          <SavingsGoalsCard />
+
           {/* Tab Navigation */}
           <div className="mb-6">
             <nav className="flex space-x-4 sm:space-x-8 overflow-x-auto">
@@ -115,6 +127,7 @@ const DashboardContent: React.FC = () => {
                 { key: 'overview', label: 'Overview' },
                 { key: 'transactions', label: 'Transactions' },
                 { key: 'categories', label: 'Categories' },
+                { key: 'tags', label: 'Tags' },
                 { key: 'trends', label: 'Trends' }
               ].map((tab) => (
                 <button
@@ -144,6 +157,10 @@ const DashboardContent: React.FC = () => {
                   <h3 className="text-lg font-medium text-gray-900 mb-4">Spending Trends</h3>
                   <SpendingTrendsChart />
                 </div>
+                <div className="bg-white rounded-lg shadow p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Cash Flow Forecast</h3>
+                  <CashFlowForecastChart />
+                </div>
                 <div className="bg-white rounded-lg shadow p-6">
                   <h3 className="text-lg font-medium text-gray-900 mb-4">Expense Categories</h3>
                   <CategoryPieChart type="Expense" />
@@ -175,6 +192,7 @@ const DashboardContent: React.FC = () => {
                 onFilterChange={handleFilterChange}
                 showCategoryFilter={true}
                 showTypeFilter={true}
+                showTagFilter={true}
               />
               
               {loading && !transactionReport ? (
@@ -205,6 +223,7 @@ const DashboardContent: React.FC = () => {
                 onFilterChange={handleFilterChange}
                 showCategoryFilter={false}
                 showTypeFilter={true}
+                showTagFilter={true}
               />
               
               {loading && !categoryBreakdown ? (
@@ -229,6 +248,26 @@ const DashboardContent: React.FC = () => {
             </div>
           )}
 
+          {activeTab === 'tags' && (
+            <div className="space-y-6">
+              <h2 className="text-xl font-semibold text-gray-900">Tag Breakdown</h2>
+
+              <ReportFilters
+                onFilterChange={handleFilterChange}
+                showCategoryFilter={false}
+                showTypeFilter={true}
+              />
+
+              {loading && !tagBreakdown ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : tagBreakdown ? (
+                <TagBreakdownTable breakdown={tagBreakdown} />
+              ) : null}
+            </div>
+          )}
+
           {activeTab === 'trends' && (
             <div className="space-y-6">
               <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
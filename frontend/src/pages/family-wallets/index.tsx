@@ -8,6 +8,8 @@ import { Wallet } from '@/types';
 import FamilyWalletForm from '@/components/FamilyWalletForm';
 import FamilyWalletMembers from '@/components/FamilyWalletMembers';
 import InvitationCard from '@/components/InvitationCard';
+import AuditLogPanel from '@/components/AuditLogPanel';
+import { AuditLogService } from '@/utils/auditLogApi';
 
 const FamilyWalletsPage: React.FC = () => {
   const { user } = useAuth();
@@ -24,6 +26,7 @@ const FamilyWalletsPage: React.FC = () => {
   
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [selectedWallet, setSelectedWallet] = useState<Wallet | null>(null);
+  const [historyWallet, setHistoryWallet] = useState<Wallet | null>(null);
 
   const handleCreateWallet = async (data: { name: string }) => {
     try {
@@ -228,6 +231,17 @@ const FamilyWalletsPage: React.FC = () => {
                               </svg>
                               Manage Members
                             </button>
+                            {wallet.user_id === user?.id && (
+                              <button
+                                onClick={() => setHistoryWallet(wallet)}
+                                className="flex-1 inline-flex justify-center items-center px-3 py-3 sm:py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                              >
+                                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                                History
+                              </button>
+                            )}
                             <button
                               onClick={() => window.location.href = `/transactions?wallet=${wallet.id}`}
                               className="flex-1 inline-flex justify-center items-center px-3 py-3 sm:py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -263,6 +277,16 @@ const FamilyWalletsPage: React.FC = () => {
             onClose={() => setSelectedWallet(null)}
           />
         )}
+
+        {/* Family Wallet History Modal */}
+        {historyWallet && (
+          <AuditLogPanel
+            title="Family Wallet History"
+            subtitle={`Who changed what in "${historyWallet.name}"`}
+            loadEntries={(page, entityType) => AuditLogService.getWalletAuditLog(historyWallet.id, page, 20, entityType)}
+            onClose={() => setHistoryWallet(null)}
+          />
+        )}
       </Layout>
     </ProtectedRoute>
   );
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Layout from '@/components/Layout';
+import SavingsGoalForm from '@/components/SavingsGoalForm';
+import { getGoalStatusColor, getGoalStatusText } from '@/components/dashboard/SavingsGoalsCard';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWallet } from '@/contexts/WalletContext';
+import { SavingsGoalProgress } from '@/types';
+import { SavingsGoalService, CreateSavingsGoalData } from '@/utils/savingsGoalApi';
+import { formatMoney } from '@/utils/currency';
+import toast from 'react-hot-toast';
+
+const SavingsGoalsPage: React.FC = () => {
+  const { user } = useAuth();
+  const { wallets } = useWallet();
+  const [goals, setGoals] = useState<SavingsGoalProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<SavingsGoalProgress | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchGoals();
+    }
+  }, [user]);
+
+  const fetchGoals = async () => {
+    try {
+      setLoading(true);
+      setGoals(await SavingsGoalService.getGoals());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load savings goals';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Errors are rethrown so the form can show them
+  const handleSubmitGoal = async (data: CreateSavingsGoalData) => {
+    try {
+      setSaving(true);
+      if (editingGoal) {
+        const { wallet_id: _, ...updateData } = data;
+        const updatedGoal = await SavingsGoalService.updateGoal(editingGoal.goal.id, updateData);
+        setGoals(prev => prev.map(progress => progress.goal.id === updatedGoal.goal.id ? updatedGoal : progress));
+        toast.success('Goal updated successfully');
+      } else {
+        const newGoal = await SavingsGoalService.createGoal(data);
+        setGoals(prev => [...prev, newGoal]);
+        toast.success('Goal created successfully');
+      }
+      setShowForm(false);
+      setEditingGoal(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteGoal = async (id: string) => {
+    try {
+      await SavingsGoalService.deleteGoal(id);
+      setGoals(prev => prev.filter(progress => progress.goal.id !== id));
+      setDeleteConfirm(null);
+      toast.success('Goal deleted successfully');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete goal';
+      toast.error(message);
+    }
+  };
+
+  const getWalletName = (walletId: string) => {
+    return wallets.find(wallet => wallet.id === walletId)?.name || 'Wallet';
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  return (
+    <ProtectedRoute>
+      <Head>
+        <title>Savings Goals - Cashly</title>
+        <meta name="description" content="Track progress towards your savings goals" />
+      </Head>
+
+      <Layout currentPage="Goals">
+        <div className="px-4 py-6 sm:px-0">
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Savings Goals</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                See how much to put aside each month to reach your targets on time
+              </p>
+            </div>
+
+            <button
+              onClick={() => setShowForm(true)}
+              className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Create Goal
+            </button>
+          </div>
+
+          {/* Loading State */}
+          {loading && (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!loading && goals.length === 0 && (
+            <div className="text-center py-12">
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No savings goals</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Create a goal to track what you put aside for it.
+              </p>
+            </div>
+          )}
+
+          {/* Goals List */}
+          {!loading && goals.length > 0 && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {goals.map(progress => (
+                <div key={progress.goal.id} className="bg-white shadow rounded-lg p-4 sm:p-6 space-y-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{progress.goal.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {getWalletName(progress.goal.wallet_id)} &middot; by {formatDate(progress.goal.target_date)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <div className={`w-3 h-3 rounded-full ${getGoalStatusColor(progress.status)}`}></div>
+                      <span className="text-sm font-medium text-gray-700">{getGoalStatusText(progress)}</span>
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-600">
+                        {formatMoney(progress.saved_amount, progress.currency)} of {formatMoney(Number(progress.goal.target_amount), progress.currency)}
+                      </span>
+                      <span className="text-gray-600">{progress.percentage_saved.toFixed(1)}%</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-3">
+                      <div
+                        className={`h-3 rounded-full transition-all duration-300 ${getGoalStatusColor(progress.status)}`}
+                        style={{ width: `${Math.min(Math.max(progress.percentage_saved, 0), 100)}%` }}
+                      ></div>
+                    </div>
+                  </div>
+
+                  <dl className="grid grid-cols-2 gap-3 text-sm">
+                    <div>
+                      <dt className="text-gray-500">Needed per month</dt>
+                      <dd className="font-medium text-gray-900">
+                        {formatMoney(progress.required_monthly_contribution, progress.currency)}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Saving per month</dt>
+                      <dd className="font-medium text-gray-900">
+                        {formatMoney(progress.average_monthly_contribution, progress.currency)}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Expected by now</dt>
+                      <dd className="font-medium text-gray-900">
+                        {formatMoney(progress.expected_amount, progress.currency)}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Projected completion</dt>
+                      <dd className={`font-medium ${progress.on_track ? 'text-gray-900' : 'text-red-600'}`}>
+                        {progress.projected_completion_date ? formatDate(progress.projected_completion_date) : 'Not saving yet'}
+                      </dd>
+                    </div>
+                  </dl>
+
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setEditingGoal(progress)}
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                    >
+                      Edit
+                    </button>
+                    {deleteConfirm === progress.goal.id ? (
+                      <>
+                        <button
+                          onClick={() => handleDeleteGoal(progress.goal.id)}
+                          className="px-3 py-1.5 text-sm rounded-md text-white bg-red-600 hover:bg-red-700"
+                        >
+                          Confirm
+                        </button>
+                        <button
+                          onClick={() => setDeleteConfirm(null)}
+                          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => setDeleteConfirm(progress.goal.id)}
+                        className="px-3 py-1.5 text-sm border border-red-300 rounded-md text-red-700 hover:bg-red-50"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Create/Edit Form Modal */}
+        {(showForm || editingGoal) && (
+          <SavingsGoalForm
+            goal={editingGoal?.goal}
+            onSubmit={handleSubmitGoal}
+            onCancel={() => {
+              setShowForm(false);
+              setEditingGoal(null);
+            }}
+            loading={saving}
+          />
+        )}
+      </Layout>
+    </ProtectedRoute>
+  );
+};
+
+export default SavingsGoalsPage;
\ No newline at end of file
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Layout from '@/components/Layout';
+import LoanForm from '@/components/LoanForm';
+import LoanDetails from '@/components/LoanDetails';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWallet } from '@/contexts/WalletContext';
+import { LoanSummary } from '@/types';
+import { LoanService, CreateLoanData } from '@/utils/loanApi';
+import { formatMoney } from '@/utils/currency';
+import toast from 'react-hot-toast';
+
+const LoansPage: React.FC = () => {
+  const { user } = useAuth();
+  const { wallets } = useWallet();
+  const [loans, setLoans] = useState<LoanSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingLoan, setEditingLoan] = useState<LoanSummary | null>(null);
+  const [viewingLoan, setViewingLoan] = useState<LoanSummary | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchLoans();
+    }
+  }, [user]);
+
+  const fetchLoans = async () => {
+    try {
+      setLoading(true);
+      setLoans(await LoanService.getLoans());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load loans';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replaceLoan = (summary: LoanSummary) => {
+    setLoans(prev => prev.map(existing => existing.loan.id === summary.loan.id ? summary : existing));
+  };
+
+  // Errors are rethrown so the form can show them
+  const handleSubmitLoan = async (data: CreateLoanData) => {
+    try {
+      setSaving(true);
+      if (editingLoan) {
+        const { wallet_id: _, create_reminder: __, ...updateData } = data;
+        replaceLoan(await LoanService.updateLoan(editingLoan.loan.id, updateData));
+        toast.success('Loan updated successfully');
+      } else {
+        const newLoan = await LoanService.createLoan(data);
+        setLoans(prev => [...prev, newLoan]);
+        toast.success('Loan added successfully');
+      }
+      setShowForm(false);
+      setEditingLoan(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteLoan = async (id: string) => {
+    try {
+      await LoanService.deleteLoan(id);
+      setLoans(prev => prev.filter(summary => summary.loan.id !== id));
+      setDeleteConfirm(null);
+      toast.success('Loan deleted successfully');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete loan';
+      toast.error(message);
+    }
+  };
+
+  const getWalletName = (walletId: string) => {
+    return wallets.find(wallet => wallet.id === walletId)?.name || 'Wallet';
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  return (
+    <ProtectedRoute>
+      <Head>
+        <title>Loans - Cashly</title>
+        <meta name="description" content="Track loan balances, payments and payoff dates" />
+      </Head>
+
+      <Layout currentPage="Loans">
+        <div className="px-4 py-6 sm:px-0">
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Loans</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                See what you still owe, when it will be paid off and what paying extra would save
+              </p>
+            </div>
+
+            <button
+              onClick={() => setShowForm(true)}
+              className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Add Loan
+            </button>
+          </div>
+
+          {/* Loading State */}
+          {loading && (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!loading && loans.length === 0 && (
+            <div className="text-center py-12">
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No loans</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Add a loan to follow its balance and payoff date.
+              </p>
+            </div>
+          )}
+
+          {/* Loans List */}
+          {!loading && loans.length > 0 && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {loans.map(summary => {
+                const principal = Number(summary.loan.principal);
+                const paidPercentage = principal > 0 ? (summary.principal_paid / principal) * 100 : 0;
+
+                return (
+                  <div key={summary.loan.id} className="bg-white shadow rounded-lg p-4 sm:p-6 space-y-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{summary.loan.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {getWalletName(summary.loan.wallet_id)} &middot; {Number(summary.loan.annual_rate)}% APR &middot; {summary.loan.term_months} months
+                      </p>
+                    </div>
+
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-600">
+                          {formatMoney(summary.principal_paid, summary.currency)} of {formatMoney(principal, summary.currency)} repaid
+                        </span>
+                        <span className="text-gray-600">{paidPercentage.toFixed(1)}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-3">
+                        <div
+                          className="h-3 rounded-full transition-all duration-300 bg-blue-600"
+                          style={{ width: `${Math.min(paidPercentage, 100)}%` }}
+                        ></div>
+                      </div>
+                    </div>
+
+                    <dl className="grid grid-cols-2 gap-3 text-sm">
+                      <div>
+                        <dt className="text-gray-500">Remaining balance</dt>
+                        <dd className="font-medium text-gray-900">
+                          {formatMoney(summary.remaining_balance, summary.currency)}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Monthly payment</dt>
+                        <dd className="font-medium text-gray-900">
+                          {formatMoney(summary.monthly_payment, summary.currency)}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Next payment</dt>
+                        <dd className="font-medium text-gray-900">
+                          {summary.next_payment_date ? formatDate(summary.next_payment_date) : 'Paid off'}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Payoff date</dt>
+                        <dd className={`font-medium ${summary.payoff_date || summary.remaining_balance === 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                          {summary.payoff_date
+                            ? formatDate(summary.payoff_date)
+                            : summary.remaining_balance === 0 ? 'Paid off' : 'Payments do not cover interest'}
+                        </dd>
+                      </div>
+                    </dl>
+
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setViewingLoan(summary)}
+                        className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                      >
+                        Payments &amp; Schedule
+                      </button>
+                      <button
+                        onClick={() => setEditingLoan(summary)}
+                        className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                      >
+                        Edit
+                      </button>
+                      {deleteConfirm === summary.loan.id ? (
+                        <>
+                          <button
+                            onClick={() => handleDeleteLoan(summary.loan.id)}
+                            className="px-3 py-1.5 text-sm rounded-md text-white bg-red-600 hover:bg-red-700"
+                          >
+                            Confirm
+                          </button>
+                          <button
+                            onClick={() => setDeleteConfirm(null)}
+                            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => setDeleteConfirm(summary.loan.id)}
+                          className="px-3 py-1.5 text-sm border border-red-300 rounded-md text-red-700 hover:bg-red-50"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Create/Edit Form Modal */}
+        {(showForm || editingLoan) && (
+          <LoanForm
+            loan={editingLoan?.loan}
+            onSubmit={handleSubmitLoan}
+            onCancel={() => {
+              setShowForm(false);
+              setEditingLoan(null);
+            }}
+            loading={saving}
+          />
+        )}
+
+        {/* Payments and Schedule Modal */}
+        {viewingLoan && (
+          <LoanDetails
+            summary={viewingLoan}
+            onChange={summary => {
+              replaceLoan(summary);
+              setViewingLoan(summary);
+            }}
+            onClose={() => setViewingLoan(null)}
+          />
+        )}
+      </Layout>
+    </ProtectedRoute>
+  );
+};
+
+export default LoansPage;
\ No newline at end of file
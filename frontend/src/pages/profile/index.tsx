@@ -5,11 +5,14 @@ import ProtectedRoute from '@/components/ProtectedRoute';
 import Layout from '@/components/Layout';
 import { useAuth } from '@/contexts/AuthContext';
 import { UserService, UpdateProfileData, ChangePasswordData } from '@/utils/userApi';
+import { AuthService } from '@/utils/auth';
+import SessionsPanel from '@/components/SessionsPanel';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
 import toast from 'react-hot-toast';
 
 const ProfilePage: React.FC = () => {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<'profile' | 'password'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'two-factor' | 'sessions'>('profile');
   const [loading, setLoading] = useState(false);
 
   // Profile form
@@ -50,6 +53,19 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleResendVerification = async () => {
+    try {
+      setLoading(true);
+      await AuthService.resendVerification();
+      toast.success(`Verification link sent to ${user?.email}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to send the verification email';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleChangePassword = async (data: ChangePasswordData) => {
     try {
       setLoading(true);
@@ -105,6 +121,26 @@ const ProfilePage: React.FC = () => {
                 >
                   Change Password
                 </button>
+                <button
+                  onClick={() => setActiveTab('two-factor')}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === 'two-factor'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  Two-Factor
+                </button>
+                <button
+                  onClick={() => setActiveTab('sessions')}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === 'sessions'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  Sessions
+                </button>
               </nav>
             </div>
 
@@ -163,6 +199,19 @@ const ProfilePage: React.FC = () => {
                       {profileErrors.email && (
                         <p className="mt-1 text-sm text-red-600">{profileErrors.email.message}</p>
                       )}
+                      {user && !user.email_verified_at && (
+                        <p className="mt-1 text-sm text-yellow-700">
+                          Your email is not verified yet.{' '}
+                          <button
+                            type="button"
+                            onClick={handleResendVerification}
+                            disabled={loading}
+                            className="font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          >
+                            Send a new verification link
+                          </button>
+                        </p>
+                      )}
                     </div>
 
                     <div className="flex justify-end">
@@ -256,9 +305,18 @@ const ProfilePage: React.FC = () => {
                       </button>
                     </div>
                   </form>
+                  <p className="mt-4 text-sm text-gray-500">
+                    Changing your password logs out your other devices.
+                  </p>
                 </div>
               </div>
             )}
+
+            {/* Two-Factor Tab */}
+            {activeTab === 'two-factor' && <TwoFactorSettings />}
+
+            {/* Sessions Tab */}
+            {activeTab === 'sessions' && <SessionsPanel />}
           </div>
         </div>
       </Layout>
@@ -5,12 +5,15 @@ import Layout from '@/components/Layout';
 import { useTransaction } from '@/contexts/TransactionContext';
 import { useWallet } from '@/contexts/WalletContext';
 import { useCategory } from '@/contexts/CategoryContext';
-import { Transaction } from '@/types';
+import { SavedSearch, Transaction } from '@/types';
 import { TransactionFilters } from '@/utils/transactionApi';
 import TransactionForm from '@/components/TransactionForm';
+import TransferForm from '@/components/TransferForm';
+import TransactionImport from '@/components/TransactionImport';
 import TransactionList from '@/components/TransactionList';
 import TransactionFiltersComponent from '@/components/TransactionFilters';
 import WalletSelector from '@/components/WalletSelector';
+import SavedSearches from '@/components/SavedSearches';
 
 const TransactionsPage: React.FC = () => {
   const {
@@ -22,6 +25,7 @@ const TransactionsPage: React.FC = () => {
     fetchTransactions,
     fetchTransactionsAndSummary,
     createTransaction,
+    createTransfer,
     updateTransaction,
   } = useTransaction();
 
@@ -29,6 +33,8 @@ const TransactionsPage: React.FC = () => {
   const { refreshCategories } = useCategory();
 
   const [showForm, setShowForm] = useState(false);
+  const [showTransferForm, setShowTransferForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [selectedWalletId, setSelectedWalletId] = useState<string | null>(null);
   const [showSummaryDetails, setShowSummaryDetails] = useState(false);
@@ -72,6 +78,24 @@ const TransactionsPage: React.FC = () => {
     fetchTransactionsAndSummary(filters);
   };
 
+  const handleCreateTransfer = async (data: any) => {
+    await createTransfer({
+      ...data,
+      title: data.title || undefined,
+    });
+    setShowTransferForm(false);
+    // Refresh data
+    const filters = buildFilters(currentFilters);
+    fetchTransactionsAndSummary(filters);
+  };
+
+  const handleImportComplete = () => {
+    setShowImport(false);
+    // Refresh data
+    const filters = buildFilters(currentFilters);
+    fetchTransactionsAndSummary(filters);
+  };
+
   const handleUpdateTransaction = async (data: any) => {
     if (editingTransaction) {
       await updateTransaction(editingTransaction.id, data);
@@ -82,6 +106,13 @@ const TransactionsPage: React.FC = () => {
     }
   };
 
+  // Bulk changes can move amounts between wallets, so balances are reloaded too
+  const handleBulkComplete = () => {
+    const filters = buildFilters(currentFilters);
+    fetchTransactionsAndSummary(filters);
+    refreshWallets();
+  };
+
   const handleEditTransaction = (transaction: Transaction) => {
     setEditingTransaction(transaction);
   };
@@ -103,6 +134,26 @@ const TransactionsPage: React.FC = () => {
     fetchTransactionsAndSummary(fullFilters);
   };
 
+  // A saved search brings its own wallet, so it replaces the wallet selection too
+  const handleApplySavedSearch = (search: SavedSearch) => {
+    const newFilters = {
+      q: search.query || undefined,
+      category_id: search.category_id || undefined,
+      type: search.type || undefined,
+      start_date: search.start_date ? search.start_date.split('T')[0] : undefined,
+      end_date: search.end_date ? search.end_date.split('T')[0] : undefined,
+      tags: search.tags || undefined,
+      page: 1,
+      limit: 10,
+    };
+    setSelectedWalletId(search.wallet_id);
+    setCurrentFilters(newFilters);
+    fetchTransactionsAndSummary({
+      ...newFilters,
+      wallet_id: search.wallet_id || undefined,
+    });
+  };
+
   const handleWalletChange = (walletId: string | null) => {
     setSelectedWalletId(walletId);
     // Fetch data with new wallet selection - use the new walletId directly
@@ -131,6 +182,9 @@ const TransactionsPage: React.FC = () => {
     }).format(amount);
   };
 
+  // Bulk actions on all matching transactions use the list filters without paging
+  const { page: _, limit: __, ...listFilters } = buildFilters(currentFilters);
+
   return (
     <ProtectedRoute>
       <Head>
@@ -149,16 +203,42 @@ const TransactionsPage: React.FC = () => {
               </p>
             </div>
 
-            <button
-              onClick={() => setShowForm(true)}
-              disabled={loading}
-              className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 w-full sm:w-auto"
-            >
-              <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-              </svg>
-              Add Transaction
-            </button>
+            <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+              <button
+                onClick={() => setShowImport(true)}
+                disabled={loading}
+                className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 w-full sm:w-auto"
+              >
+                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+                Import
+              </button>
+
+              {wallets.length > 1 && (
+                <button
+                  onClick={() => setShowTransferForm(true)}
+                  disabled={loading}
+                  className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 w-full sm:w-auto"
+                >
+                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                  </svg>
+                  Transfer
+                </button>
+              )}
+
+              <button
+                onClick={() => setShowForm(true)}
+                disabled={loading}
+                className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 w-full sm:w-auto"
+              >
+                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                </svg>
+                Add Transaction
+              </button>
+            </div>
           </div>
 
           {/* Summary Cards */}
@@ -260,11 +340,22 @@ const TransactionsPage: React.FC = () => {
             onWalletChange={handleWalletChange}
           />
 
+          {/* Saved Searches */}
+          <SavedSearches
+            currentFilters={currentFilters}
+            selectedWalletId={selectedWalletId}
+            onApply={handleApplySavedSearch}
+          />
+
           {/* Filters */}
           <TransactionFiltersComponent onFilter={handleFilter} currentFilters={currentFilters} />
 
           {/* Transaction List */}
-          <TransactionList onEdit={handleEditTransaction} />
+          <TransactionList
+            onEdit={handleEditTransaction}
+            filters={listFilters}
+            onBulkComplete={handleBulkComplete}
+          />
 
           {/* Pagination */}
           {totalPages > 1 && (
@@ -337,6 +428,24 @@ const TransactionsPage: React.FC = () => {
             loading={loading}
           />
         )}
+
+        {/* Transfer Form Modal */}
+        {showTransferForm && (
+          <TransferForm
+            onSubmit={handleCreateTransfer}
+            onCancel={() => setShowTransferForm(false)}
+            loading={loading}
+          />
+        )}
+
+        {/* Import Modal */}
+        {showImport && (
+          <TransactionImport
+            initialWalletId={selectedWalletId}
+            onComplete={handleImportComplete}
+            onCancel={() => setShowImport(false)}
+          />
+        )}
       </Layout>
     </ProtectedRoute>
   );
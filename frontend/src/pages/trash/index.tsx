@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Layout from '@/components/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWallet } from '@/contexts/WalletContext';
+import { useCategory } from '@/contexts/CategoryContext';
+import { TrashItem, TrashItemType } from '@/types';
+import { TrashService } from '@/utils/trashApi';
+import toast from 'react-hot-toast';
+
+const TYPE_LABELS: Record<TrashItemType, string> = {
+  transaction: 'Transaction',
+  category: 'Category',
+  wallet: 'Wallet',
+  budget: 'Budget',
+  reminder: 'Reminder',
+};
+
+const TrashPage: React.FC = () => {
+  const { user } = useAuth();
+  const { wallets, refreshWallets } = useWallet();
+  const { refreshCategories } = useCategory();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchTrash();
+    }
+  }, [user]);
+
+  const fetchTrash = async () => {
+    try {
+      setLoading(true);
+      setItems(await TrashService.getTrash());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load the trash';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      setRestoringId(item.id);
+      await TrashService.restoreItem(item.type, item.id);
+      toast.success(`${TYPE_LABELS[item.type]} restored`);
+
+      // Wallets and categories are shown all over the app, so reload them
+      if (item.type === 'wallet') {
+        await refreshWallets();
+      } else if (item.type === 'category') {
+        await refreshCategories();
+      }
+      await fetchTrash();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to restore';
+      toast.error(message);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const getWalletName = (walletId: string | null) => {
+    return walletId ? wallets.find(wallet => wallet.id === walletId)?.name : undefined;
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  return (
+    <ProtectedRoute>
+      <Head>
+        <title>Trash - Cashly</title>
+        <meta name="description" content="Restore deleted transactions, categories and wallets" />
+      </Head>
+
+      <Layout currentPage="Trash">
+        <div className="px-4 py-6 sm:px-0">
+          {/* Header */}
+          <div className="mb-6">
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Trash</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Deleted items stay here for 30 days before they are removed for good
+            </p>
+          </div>
+
+          {/* Loading State */}
+          {loading && (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!loading && items.length === 0 && (
+            <div className="text-center py-12">
+              <h3 className="mt-2 text-sm font-medium text-gray-900">The trash is empty</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Deleted transactions, categories, wallets, budgets and reminders show up here.
+              </p>
+            </div>
+          )}
+
+          {/* Trash List */}
+          {!loading && items.length > 0 && (
+            <div className="bg-white shadow rounded-lg divide-y divide-gray-200">
+              {items.map(item => (
+                <div key={`${item.type}-${item.id}`} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 sm:px-6">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{item.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {TYPE_LABELS[item.type]}
+                      {getWalletName(item.wallet_id) && <> &middot; {getWalletName(item.wallet_id)}</>}
+                      {' '}&middot; deleted {formatDate(item.deleted_at)} &middot; removed on {formatDate(item.purge_at)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(item)}
+                    disabled={restoringId === item.id}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex-shrink-0"
+                  >
+                    {restoringId === item.id ? 'Restoring...' : 'Restore'}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </Layout>
+    </ProtectedRoute>
+  );
+};
+
+export default TrashPage;
\ No newline at end of file
@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Layout from '@/components/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { ExchangeRate } from '@/types';
+import { ExchangeRateService, ExchangeRateData, ExchangeRateImportPreview } from '@/utils/exchangeRateApi';
+import { UserService } from '@/utils/userApi';
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY } from '@/utils/currency';
+import { fromDateKey } from '@/utils/dates';
+import toast from 'react-hot-toast';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const ExchangeRatesPage: React.FC = () => {
+  const { user } = useAuth();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseCurrency, setBaseCurrency] = useState(user?.base_currency || DEFAULT_CURRENCY);
+  const [savingBase, setSavingBase] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [fileContent, setFileContent] = useState('');
+  const [preview, setPreview] = useState<ExchangeRateImportPreview | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    reset,
+  } = useForm<ExchangeRateData>({
+    defaultValues: {
+      from_currency: 'USD',
+      to_currency: user?.base_currency || DEFAULT_CURRENCY,
+      rate_date: new Date().toISOString().split('T')[0],
+    },
+  });
+
+  useEffect(() => {
+    if (user) {
+      setBaseCurrency(user.base_currency || DEFAULT_CURRENCY);
+      fetchRates();
+    }
+  }, [user]);
+
+  const fetchRates = async () => {
+    try {
+      setLoading(true);
+      setRates(await ExchangeRateService.getRates());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load exchange rates';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveBaseCurrency = async () => {
+    try {
+      setSavingBase(true);
+      await UserService.updateProfile({ base_currency: baseCurrency });
+      toast.success(`Dashboard totals are now shown in ${baseCurrency}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update base currency';
+      toast.error(message);
+    } finally {
+      setSavingBase(false);
+    }
+  };
+
+  const handleSaveRate = async (data: ExchangeRateData) => {
+    try {
+      await ExchangeRateService.saveRate({ ...data, rate: Number(data.rate) });
+      toast.success('Exchange rate saved');
+      reset({ ...data, rate: undefined });
+      await fetchRates();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save exchange rate';
+      toast.error(message);
+    }
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    try {
+      await ExchangeRateService.deleteRate(id);
+      setRates(prev => prev.filter(rate => rate.id !== id));
+      setDeleteConfirm(null);
+      toast.success('Exchange rate deleted');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete exchange rate';
+      toast.error(message);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setFileContent(text);
+
+    try {
+      setPreview(await ExchangeRateService.previewImport({ content: text }));
+    } catch (error) {
+      setPreview(null);
+      const message = error instanceof Error ? error.message : 'Failed to read the file';
+      toast.error(message);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setImporting(true);
+      const result = await ExchangeRateService.importRates({ content: fileContent });
+      if (result.status === 'failed') {
+        toast.error('Fix the rows with errors and upload the file again');
+        return;
+      }
+
+      toast.success(`Imported ${result.imported_records} rate${result.imported_records === 1 ? '' : 's'}`);
+      setPreview(null);
+      setFileName('');
+      setFileContent('');
+      await fetchRates();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import rates';
+      toast.error(message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Head>
+        <title>Exchange Rates - Cashly</title>
+        <meta name="description" content="Manage exchange rates between your wallet currencies" />
+      </Head>
+
+      <Layout currentPage="Wallets">
+        <div className="px-4 py-6 sm:px-0">
+          {/* Header */}
+          <div className="mb-6">
+            <Link href="/wallets" className="text-sm text-blue-600 hover:text-blue-800">
+              &larr; Wallets
+            </Link>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Exchange Rates</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Dashboard totals convert each transaction at the rate that applied on its date
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+            {/* Base Currency */}
+            <div className="bg-white shadow rounded-lg p-4 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-1">Base Currency</h2>
+              <p className="text-sm text-gray-500 mb-4">The currency your dashboard and reports are shown in.</p>
+              <div className="flex gap-3">
+                <select
+                  value={baseCurrency}
+                  onChange={(event) => setBaseCurrency(event.target.value)}
+                  className={inputClassName}
+                >
+                  {CURRENCY_OPTIONS.map(currency => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleSaveBaseCurrency}
+                  disabled={savingBase}
+                  className="px-4 py-2 border border-transparent rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+
+            {/* Manual Entry */}
+            <div className="bg-white shadow rounded-lg p-4 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Add a Rate</h2>
+              <form onSubmit={handleSubmit(handleSaveRate)} className="space-y-3">
+                <input
+                  {...register('rate_date', { required: 'Date is required' })}
+                  type="date"
+                  className={inputClassName}
+                />
+                <div className="grid grid-cols-2 gap-3">
+                  <select {...register('from_currency')} className={inputClassName}>
+                    {CURRENCY_OPTIONS.map(currency => (
+                      <option key={currency} value={currency}>1 {currency}</option>
+                    ))}
+                  </select>
+                  <select {...register('to_currency')} className={inputClassName}>
+                    {CURRENCY_OPTIONS.map(currency => (
+                      <option key={currency} value={currency}>in {currency}</option>
+                    ))}
+                  </select>
+                </div>
+                <input
+                  {...register('rate', {
+                    required: 'Rate is required',
+                    min: { value: 0.00000001, message: 'Rate must be positive' },
+                  })}
+                  type="number"
+                  step="any"
+                  placeholder="Rate"
+                  className={inputClassName}
+                />
+                {(errors.rate || errors.rate_date) && (
+                  <p className="text-sm text-red-600">{errors.rate?.message || errors.rate_date?.message}</p>
+                )}
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full px-4 py-2 border border-transparent rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save Rate
+                </button>
+              </form>
+            </div>
+
+            {/* CSV Upload */}
+            <div className="bg-white shadow rounded-lg p-4 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-1">Upload CSV</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Columns: date (YYYY-MM-DD), from, to, rate. Rates for a pair and day already saved are replaced.
+              </p>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                className="w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+              />
+              {fileName && <p className="mt-1 text-xs text-gray-500 truncate">{fileName}</p>}
+
+              {preview && (
+                <div className="mt-4 space-y-2">
+                  <p className="text-sm text-gray-700">
+                    {preview.rows.length} of {preview.total_rows} rows ready to import
+                  </p>
+                  {preview.errors.length > 0 && (
+                    <ul className="max-h-32 overflow-y-auto text-xs text-red-600 space-y-1">
+                      {preview.errors.map(error => (
+                        <li key={error.row_number}>Row {error.row_number}: {error.error}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <button
+                    onClick={handleImport}
+                    disabled={importing || preview.errors.length > 0 || preview.rows.length === 0}
+                    className="w-full px-4 py-2 border border-transparent rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {importing ? 'Importing...' : 'Import'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Loading State */}
+          {loading && (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {!loading && rates.length === 0 && (
+            <div className="text-center py-12">
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No exchange rates</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Add rates to include wallets in other currencies in your dashboard totals.
+              </p>
+            </div>
+          )}
+
+          {/* Rates List */}
+          {!loading && rates.length > 0 && (
+            <div className="bg-white shadow rounded-lg overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Pair</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Rate</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rates.map(rate => (
+                    <tr key={rate.id}>
+                      <td className="px-4 py-2 text-gray-900 whitespace-nowrap">
+                        {fromDateKey(rate.rate_date).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-2 text-gray-900">1 {rate.from_currency} = {rate.to_currency}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{Number(rate.rate)}</td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        {deleteConfirm === rate.id ? (
+                          <>
+                            <button
+                              onClick={() => handleDeleteRate(rate.id)}
+                              className="px-3 py-1 text-sm rounded-md text-white bg-red-600 hover:bg-red-700 mr-2"
+                            >
+                              Confirm
+                            </button>
+                            <button
+                              onClick={() => setDeleteConfirm(null)}
+                              className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => setDeleteConfirm(rate.id)}
+                            className="px-3 py-1 text-sm border border-red-300 rounded-md text-red-700 hover:bg-red-50"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </Layout>
+    </ProtectedRoute>
+  );
+};
+
+export default ExchangeRatesPage;
\ No newline at end of file
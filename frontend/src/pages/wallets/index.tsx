@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import Head from 'next/head';
+import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Layout from '@/components/Layout';
 import { useWallet } from '@/contexts/WalletContext';
@@ -14,14 +15,19 @@ const WalletsPage: React.FC = () => {
   const [showForm, setShowForm] = useState(false);
   const [editingWallet, setEditingWallet] = useState<Wallet | null>(null);
 
-  const handleCreateWallet = async (data: { name: string }) => {
-    await createWallet(data.name);
+  const handleCreateWallet = async (data: { name: string; currency: string }) => {
+    await createWallet(data.name, data.currency);
     setShowForm(false);
   };
 
-  const handleUpdateWallet = async (data: { name: string }) => {
+  const handleUpdateWallet = async (data: { name: string; currency: string }) => {
     if (editingWallet) {
-      await updateWallet(editingWallet.id, data.name);
+      // Only send the currency when it changes, since wallets with transactions cannot change it
+      await updateWallet(
+        editingWallet.id,
+        data.name,
+        data.currency !== editingWallet.currency ? data.currency : undefined
+      );
       setEditingWallet(null);
     }
   };
@@ -55,18 +61,26 @@ const WalletsPage: React.FC = () => {
                 </p>
               </div>
               
-              {canCreateWallet && (
-                <button
-                  onClick={() => setShowForm(true)}
-                  disabled={loading}
-                  className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 w-full sm:w-auto"
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Link
+                  href="/wallets/exchange-rates"
+                  className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 w-full sm:w-auto"
                 >
-                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                  </svg>
-                  Create Wallet
-                </button>
-              )}
+                  Exchange Rates
+                </Link>
+                {canCreateWallet && (
+                  <button
+                    onClick={() => setShowForm(true)}
+                    disabled={loading}
+                    className="inline-flex items-center justify-center px-6 py-3 sm:px-4 sm:py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 w-full sm:w-auto"
+                  >
+                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                    </svg>
+                    Create Wallet
+                  </button>
+                )}
+              </div>
             </div>
 
             {/* Wallet Limit Warning */}
@@ -5,6 +5,10 @@ export interface User {
   email: string;
   role: 'user' | 'admin';
   wallet_limit: number;
+  base_currency?: string;
+  email_verified_at?: string | null; // Null until the emailed verification link is opened
+  two_factor_enabled_at?: string | null;
+  locked_until?: string | null; // Set while the account is locked after failed logins
   created_at: string;
   updated_at: string;
 }
@@ -15,10 +19,36 @@ export interface UserResponse {
   email: string;
   role: 'user' | 'admin';
   wallet_limit: number;
+  base_currency?: string;
+  two_factor_enabled_at?: string | null;
+  locked_until?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Two-factor authentication types
+// Returned by login instead of tokens when the account needs a second step
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  recovery_codes_remaining: number;
+  required: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface SecuritySettings {
+  require_admin_two_factor: boolean;
+}
+
 // Wallet types
 export interface Wallet {
   id: string;
@@ -26,6 +56,7 @@ export interface Wallet {
   name: string;
   is_default: boolean;
   is_family: boolean;
+  currency: string;
   created_at: string;
   updated_at: string;
 }
@@ -41,6 +72,30 @@ export interface Category {
   updated_at: string;
 }
 
+export interface CategorySuggestion {
+  category_id: string;
+  name: string;
+  type: 'Income' | 'Expense';
+  confidence: number;
+}
+
+export interface CategoryRule {
+  id: string;
+  user_id: string;
+  wallet_id: string | null; // Null applies the rule to all of the owner's wallets
+  category_id: string;
+  name: string;
+  title_pattern: string | null;
+  match_type: 'contains' | 'regex';
+  min_amount: number | string | null; // Decimal columns arrive as strings
+  max_amount: number | string | null;
+  type: 'Income' | 'Expense';
+  priority: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 // Transaction types
 export interface Transaction {
   id: string;
@@ -48,17 +103,77 @@ export interface Transaction {
   wallet_id: string;
   category_id: string | null;
   title: string;
+  notes?: string | null;
   amount: number;
-  type: 'Income' | 'Expense';
+  currency?: string | null; // Null when the amount is in the wallet's currency
+  type: 'Income' | 'Expense' | 'Transfer';
+  transaction_date: string;
+  transfer_id?: string | null;
+  transfer_direction?: 'Outgoing' | 'Incoming' | null;
+  recurring_transaction_id?: string | null;
+  is_split?: boolean;
+  splits?: TransactionSplit[];
+  savings_goal_id?: string | null;
+  tags?: string[];
+  attachments?: TransactionAttachment[];
   created_by: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface TransactionAttachment {
+  id: string;
+  transaction_id: string;
+  uploaded_by: string;
+  file_name: string;
+  content_type: string;
+  size: number; // Bytes
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TransactionSplit {
+  id: string;
+  transaction_id: string;
+  category_id: string | null;
+  amount: number;
+  memo: string | null;
+  position: number;
+}
+
+// Saved search types
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string | null;
+  wallet_id: string | null;
+  category_id: string | null;
+  type: 'Income' | 'Expense' | 'Transfer' | null;
+  start_date: string | null;
+  end_date: string | null;
+  tags: string | null; // Comma-separated tag names
+  created_at: string;
+  updated_at: string;
+}
+
+// Exchange rate types
+export interface ExchangeRate {
+  id: string;
+  user_id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number | string; // Units of to_currency for one unit of from_currency
+  rate_date: string;
+  created_at: string;
+  updated_at: string;
+}
+
 // Budget types
 export interface Budget {
   id: string;
   wallet_id: string;
+  category_id: string | null;
   month: string;
   limit: number;
   created_at: string;
@@ -71,10 +186,107 @@ export interface BudgetStatus {
   remaining: number;
   percentage_used: number;
   status: 'green' | 'yellow' | 'orange' | 'red';
+  missing_rate_currencies: string[]; // Left out of total_spent for lack of an exchange rate
+}
+
+// Savings goal types
+export interface SavingsGoal {
+  id: string;
+  user_id: string;
+  wallet_id: string;
+  name: string;
+  target_amount: number | string; // Decimal columns arrive as strings
+  start_date: string;
+  target_date: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavingsGoalProgress {
+  goal: SavingsGoal;
+  currency: string;
+  saved_amount: number;
+  remaining_amount: number;
+  percentage_saved: number;
+  expected_amount: number;
+  required_monthly_contribution: number;
+  average_monthly_contribution: number;
+  projected_completion_date: string | null;
+  on_track: boolean;
+  status: 'green' | 'yellow' | 'orange' | 'red';
+}
+
+// Loan types
+export interface Loan {
+  id: string;
+  user_id: string;
+  wallet_id: string;
+  reminder_id: string | null;
+  name: string;
+  principal: number | string; // Decimal columns arrive as strings
+  annual_rate: number | string;
+  term_months: number;
+  start_date: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LoanSummary {
+  loan: Loan;
+  currency: string;
+  monthly_payment: number;
+  payments_made: number;
+  principal_paid: number;
+  interest_paid: number;
+  remaining_balance: number;
+  next_payment_date: string | null;
+  payoff_date: string | null;
+  remaining_interest: number;
+}
+
+export interface LoanPayment {
+  id: string;
+  loan_id: string;
+  transaction_id: string;
+  title: string;
+  amount: number;
+  transaction_date: string;
+  principal_amount: number;
+  interest_amount: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AmortizationRow {
+  period: number;
+  payment_date: string;
+  payment: number;
+  principal: number;
+  interest: number;
+  extra_payment: number;
+  balance: number;
+}
+
+export interface AmortizationSchedule {
+  monthly_payment: number;
+  rows: AmortizationRow[];
+  total_interest: number;
+  total_paid: number;
+  payoff_date: string | null;
+}
+
+export interface LoanSimulation {
+  extra_monthly: number;
+  lump_sum: number;
+  baseline: AmortizationSchedule;
+  simulated: AmortizationSchedule;
+  interest_saved: number;
+  months_saved: number;
 }
 
 export interface CreateBudgetRequest {
   wallet_id: string;
+  category_id?: string | null;
   month: string;
   limit: number;
 }
@@ -100,6 +312,17 @@ export interface Reminder {
   updated_at: string;
 }
 
+export interface ReminderSettlement {
+  id: string;
+  reminder_id: string;
+  occurrence_date: string;
+  status: 'paid' | 'skipped';
+  transaction_id: string | null;
+  settled_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
 // Family Wallet types
 export interface FamilyWalletMember {
   id: string;
@@ -119,6 +342,53 @@ export interface Invitation {
   expires_at: string;
 }
 
+// Trash types
+export type TrashItemType = 'transaction' | 'category' | 'wallet' | 'budget' | 'reminder';
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  name: string;
+  wallet_id: string | null;
+  deleted_at: string;
+  purge_at: string; // When it is removed for good
+}
+
+// Audit log types
+export type AuditEntityType = 'transaction' | 'budget' | 'category' | 'wallet' | 'reminder';
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null; // Null once the user who made the change is removed
+  actor_username?: string | null;
+  wallet_id: string | null;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  created_at: string;
+}
+
+export interface AuditLogListResponse {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// A login on one device
+export interface UserSession {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -146,8 +416,10 @@ export interface RegisterForm {
 // Auth context types
 export interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>; // A challenge when a code is still needed
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
   register: (data: RegisterForm) => Promise<void>;
   logout: () => void;
+  logoutEverywhere: () => Promise<void>;
   loading: boolean;
 }
\ No newline at end of file
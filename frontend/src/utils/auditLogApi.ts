@@ -0,0 +1,73 @@
+import { ApiResponse, AuditEntityType, AuditLogListResponse } from '@/types';
+import { AuthService } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export class AuditLogService {
+  private static async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    const token = AuthService.getToken();
+
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    });
+
+    let result: ApiResponse<T>;
+
+    try {
+      result = await response.json();
+    } catch (jsonError) {
+      // If JSON parsing fails, create a generic error response
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+      }
+      throw new Error('Invalid response format');
+    }
+
+    if (!response.ok) {
+      const errorMessage = result?.error?.message || `Request failed with status ${response.status}: ${response.statusText}`;
+      throw new Error(errorMessage);
+    }
+
+    return result;
+  }
+
+  private static buildQuery(page: number, limit: number, entityType?: AuditEntityType): string {
+    const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+    if (entityType) {
+      params.append('entity_type', entityType);
+    }
+    return params.toString();
+  }
+
+  static async getWalletAuditLog(walletId: string, page = 1, limit = 20, entityType?: AuditEntityType): Promise<AuditLogListResponse> {
+    const response = await this.makeRequest<AuditLogListResponse>(
+      `/wallets/${walletId}/audit-log?${this.buildQuery(page, limit, entityType)}`
+    );
+
+    if (!response.data) {
+      throw new Error('Failed to load history');
+    }
+
+    return response.data;
+  }
+
+  static async getUserAuditLog(userId: string, page = 1, limit = 20, entityType?: AuditEntityType): Promise<AuditLogListResponse> {
+    const response = await this.makeRequest<AuditLogListResponse>(
+      `/admin/users/${userId}/audit-log?${this.buildQuery(page, limit, entityType)}`
+    );
+
+    if (!response.data) {
+      throw new Error('Failed to load history');
+    }
+
+    return response.data;
+  }
+}
\ No newline at end of file
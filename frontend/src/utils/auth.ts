@@ -1,12 +1,15 @@
-import { ApiResponse, User } from '@/types';
+import { ApiResponse, TwoFactorChallenge, User } from '@/types';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
 export interface AuthTokens {
   token: string;
-  refreshToken?: string;
+  refreshToken: string;
 }
 
+// Refresh the access token when it has less than this left
+const REFRESH_MARGIN_MS = 60 * 1000;
+
 export class AuthService {
   private static TOKEN_KEY = 'cashly_token';
   private static REFRESH_TOKEN_KEY = 'cashly_refresh_token';
@@ -51,7 +54,91 @@ export class AuthService {
     return !!this.getToken();
   }
 
-  static async login(email: string, password: string): Promise<{ user: User; token: string }> {
+  private static setTokens(tokens: AuthTokens): void {
+    this.setToken(tokens.token);
+    this.setRefreshToken(tokens.refreshToken);
+  }
+
+  // Milliseconds until the access token expires, read from its payload
+  private static getTokenLifetime(token: string): number {
+    try {
+      const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+      return payload.exp * 1000 - Date.now();
+    } catch {
+      return 0;
+    }
+  }
+
+  private static refreshPromise: Promise<boolean> | null = null;
+
+  /**
+   * Make sure the access token is not about to expire, trading the refresh
+   * token for new ones if it is. Returns false when the session has ended.
+   */
+  static async ensureFreshToken(): Promise<boolean> {
+    const token = this.getToken();
+    if (!token) return false;
+    if (this.getTokenLifetime(token) > REFRESH_MARGIN_MS) return true;
+
+    // Refresh tokens work once, so only one refresh may run at a time. The
+    // lock is shared between tabs, and whoever gets it second sees the
+    // tokens the first one stored.
+    if (!this.refreshPromise) {
+      const refresh = async (): Promise<boolean> => {
+        const latestToken = this.getToken();
+        if (latestToken && this.getTokenLifetime(latestToken) > REFRESH_MARGIN_MS) {
+          return true;
+        }
+        return this.refreshTokens();
+      };
+
+      const refreshWithLock = async (): Promise<boolean> => {
+        if (typeof navigator !== 'undefined' && navigator.locks) {
+          return await navigator.locks.request('cashly_token_refresh', refresh);
+        }
+        return refresh();
+      };
+
+      this.refreshPromise = refreshWithLock().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return await this.refreshPromise;
+  }
+
+  private static async refreshTokens(): Promise<boolean> {
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      this.clearTokens();
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      const result: ApiResponse<AuthTokens> = await response.json();
+
+      if (!result.success || !result.data) {
+        this.clearTokens();
+        return false;
+      }
+
+      this.setTokens(result.data);
+      return true;
+    } catch (error) {
+      // Keep the tokens on network errors so the next attempt can use them
+      return false;
+    }
+  }
+
+  static async login(email: string, password: string): Promise<{ user: User; token: string } | TwoFactorChallenge> {
     const response = await fetch(`${API_BASE_URL}/api/auth/login`, {
       method: 'POST',
       headers: {
@@ -60,13 +147,37 @@ export class AuthService {
       body: JSON.stringify({ emailOrUsername: email, password }),
     });
 
-    const result: ApiResponse<{ user: User; token: string }> = await response.json();
+    const result: ApiResponse<({ user: User } & AuthTokens) | TwoFactorChallenge> = await response.json();
 
     if (!result.success || !result.data) {
       throw new Error(result.error?.message || 'Login failed');
     }
 
-    this.setToken(result.data.token);
+    // No tokens yet; the caller asks for a two-factor code
+    if ('twoFactorRequired' in result.data) {
+      return result.data;
+    }
+
+    this.setTokens(result.data);
+    return result.data;
+  }
+
+  static async completeTwoFactorLogin(challengeToken: string, code: string): Promise<{ user: User; token: string }> {
+    const response = await fetch(`${API_BASE_URL}/api/auth/login/2fa`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ challengeToken, code }),
+    });
+
+    const result: ApiResponse<{ user: User } & AuthTokens> = await response.json();
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || 'Verification failed');
+    }
+
+    this.setTokens(result.data);
     return result.data;
   }
 
@@ -84,19 +195,19 @@ export class AuthService {
       body: JSON.stringify(data),
     });
 
-    const result: ApiResponse<{ user: User; token: string }> = await response.json();
+    const result: ApiResponse<{ user: User } & AuthTokens> = await response.json();
 
     if (!result.success || !result.data) {
       throw new Error(result.error?.message || 'Registration failed');
     }
 
-    this.setToken(result.data.token);
+    this.setTokens(result.data);
     return result.data;
   }
 
   static async getCurrentUser(): Promise<User | null> {
+    if (!(await this.ensureFreshToken())) return null;
     const token = this.getToken();
-    if (!token) return null;
 
     try {
       const response = await fetch(`${API_BASE_URL}/api/auth/me`, {
@@ -119,8 +230,64 @@ export class AuthService {
     }
   }
 
-  static logout(): void {
+  // Forget the tokens right away, then tell the server to end the session
+  static async logout(): Promise<void> {
+    const refreshToken = this.getRefreshToken();
     this.clearTokens();
+
+    if (refreshToken) {
+      try {
+        await fetch(`${API_BASE_URL}/api/auth/logout`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ refreshToken }),
+        });
+      } catch (error) {
+        // The session expires on its own if the server cannot be reached
+      }
+    }
+  }
+
+  static async logoutEverywhere(): Promise<void> {
+    await this.postAuthAction('/api/auth/logout-all', {}, 'Failed to log out of all sessions');
+    this.clearTokens();
+  }
+
+  static async forgotPassword(email: string): Promise<void> {
+    await this.postAuthAction('/api/auth/forgot-password', { email }, 'Failed to send the reset link');
+  }
+
+  static async resetPassword(token: string, newPassword: string, confirmPassword: string): Promise<void> {
+    await this.postAuthAction('/api/auth/reset-password', { token, newPassword, confirmPassword }, 'Failed to reset password');
+  }
+
+  static async verifyEmail(token: string): Promise<void> {
+    await this.postAuthAction('/api/auth/verify-email', { token }, 'Failed to verify email');
+  }
+
+  static async resendVerification(): Promise<void> {
+    await this.postAuthAction('/api/auth/resend-verification', {}, 'Failed to send the verification email');
+  }
+
+  // The emailed-link endpoints only report success or an error message
+  private static async postAuthAction(endpoint: string, body: object, fallbackError: string): Promise<void> {
+    const token = this.getToken();
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result: ApiResponse = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error?.message || fallbackError);
+    }
   }
 }
 
@@ -1,4 +1,4 @@
-import { ApiResponse, Category } from '@/types';
+import { ApiResponse, Category, CategorySuggestion } from '@/types';
 import { AuthService } from './auth';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
@@ -14,6 +14,12 @@ export interface UpdateCategoryData {
   type: 'Income' | 'Expense';
 }
 
+export interface CategorySuggestionParams {
+  title: string;
+  type?: 'Income' | 'Expense';
+  wallet_id?: string;
+}
+
 export class CategoryService {
   private static async makeRequest<T>(
     endpoint: string,
@@ -86,4 +92,14 @@ export class CategoryService {
       method: 'DELETE',
     });
   }
+
+  // Ranked categories for a title, learned from the user's categorized transactions
+  static async getSuggestions(params: CategorySuggestionParams): Promise<CategorySuggestion[]> {
+    const queryParams = new URLSearchParams({ title: params.title });
+    if (params.type) queryParams.append('type', params.type);
+    if (params.wallet_id) queryParams.append('wallet_id', params.wallet_id);
+
+    const response = await this.makeRequest<CategorySuggestion[]>(`/categories/suggestions?${queryParams.toString()}`);
+    return response.data || [];
+  }
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { ApiResponse, CategoryRule } from '@/types';
+import { AuthService } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export interface CategoryRuleData {
+  name: string;
+  category_id: string;
+  wallet_id?: string | null; // Only used on create; omit for a rule that applies to all wallets
+  title_pattern?: string | null;
+  match_type?: 'contains' | 'regex';
+  min_amount?: number | null;
+  max_amount?: number | null;
+  type?: 'Income' | 'Expense';
+  priority?: number;
+  is_active?: boolean;
+}
+
+export interface ApplyCategoryRulesData {
+  wallet_id?: string;
+  transaction_ids?: string[];
+}
+
+export interface CategoryRuleChange {
+  transaction_id: string;
+  wallet_id: string;
+  title: string;
+  amount: number | string;
+  type: 'Income' | 'Expense';
+  transaction_date: string;
+  category_id: string;
+  rule_id: string;
+}
+
+export interface CategoryRuleApplyResult {
+  updated_count: number;
+  changes: CategoryRuleChange[];
+}
+
+export class CategoryRuleService {
+  private static async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    const token = AuthService.getToken();
+
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    });
+
+    let result: ApiResponse<T>;
+
+    try {
+      result = await response.json();
+    } catch (jsonError) {
+      // If JSON parsing fails, create a generic error response
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+      }
+      throw new Error('Invalid response format');
+    }
+
+    if (!response.ok) {
+      const errorMessage = result?.error?.message || `Request failed with status ${response.status}: ${response.statusText}`;
+      throw new Error(errorMessage);
+    }
+
+    return result;
+  }
+
+  static async getRules(): Promise<CategoryRule[]> {
+    const response = await this.makeRequest<CategoryRule[]>('/category-rules');
+    return response.data || [];
+  }
+
+  static async createRule(data: CategoryRuleData): Promise<CategoryRule> {
+    const response = await this.makeRequest<CategoryRule>('/category-rules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to create rule');
+    }
+
+    return response.data;
+  }
+
+  static async updateRule(id: string, data: Partial<CategoryRuleData>): Promise<CategoryRule> {
+    const response = await this.makeRequest<CategoryRule>(`/category-rules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to update rule');
+    }
+
+    return response.data;
+  }
+
+  static async deleteRule(id: string): Promise<void> {
+    await this.makeRequest(`/category-rules/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  static async previewApply(data: ApplyCategoryRulesData = {}): Promise<CategoryRuleChange[]> {
+    const response = await this.makeRequest<CategoryRuleChange[]>('/category-rules/apply/preview', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return response.data || [];
+  }
+
+  static async applyRules(data: ApplyCategoryRulesData = {}): Promise<CategoryRuleApplyResult> {
+    const response = await this.makeRequest<CategoryRuleApplyResult>('/category-rules/apply', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to apply rules');
+    }
+
+    return response.data;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,14 @@
+// Currency of wallets and users created before currencies existed
+export const DEFAULT_CURRENCY = 'PHP';
+
+// Offered in currency pickers; the API accepts any 3-letter code
+export const CURRENCY_OPTIONS = [
+  'PHP', 'USD', 'EUR', 'GBP', 'JPY', 'SGD', 'HKD', 'AUD', 'CAD', 'CNY', 'KRW', 'AED', 'SAR'
+];
+
+export const formatMoney = (amount: number | string, currency: string = DEFAULT_CURRENCY): string => {
+  return new Intl.NumberFormat('en-PH', {
+    style: 'currency',
+    currency,
+  }).format(Number(amount) || 0);
+};
\ No newline at end of file
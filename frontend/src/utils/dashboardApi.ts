@@ -17,6 +17,8 @@ export interface DashboardSummary {
   };
   wallet_count: number;
   transaction_count: number;
+  base_currency: string; // Currency the amounts above are converted into
+  missing_rate_currencies: string[]; // Left out of the totals for lack of an exchange rate
 }
 
 // Report Types
@@ -26,6 +28,7 @@ export interface TransactionReportFilters {
   type?: 'Income' | 'Expense';
   start_date?: string;
   end_date?: string;
+  tags?: string; // Comma-separated; transactions must carry every tag
   page?: number;
   limit?: number;
 }
@@ -37,6 +40,8 @@ export interface TransactionReport {
     total_expense: number;
     net_amount: number;
     transaction_count: number;
+    base_currency: string;
+    missing_rate_currencies: string[];
   };
   pagination: {
     page: number;
@@ -59,6 +64,24 @@ export interface CategoryBreakdown {
   breakdown: CategoryBreakdownItem[];
   total_amount: number;
   total_transactions: number;
+  base_currency: string;
+  missing_rate_currencies: string[];
+}
+
+export interface TagBreakdownItem {
+  tag_name: string | null; // Null for untagged transactions
+  total_amount: number;
+  transaction_count: number;
+  percentage: number;
+}
+
+// A transaction with several tags counts under each, so items can add up to more than the total
+export interface TagBreakdown {
+  breakdown: TagBreakdownItem[];
+  total_amount: number;
+  total_transactions: number;
+  base_currency: string;
+  missing_rate_currencies: string[];
 }
 
 export interface TrendDataPoint {
@@ -77,6 +100,46 @@ export interface TrendsReport {
     avg_net: number;
     total_periods: number;
   };
+  base_currency: string;
+  missing_rate_currencies: string[];
+}
+
+// Forecast Types
+export interface ForecastEvent {
+  date: string;
+  source: 'reminder' | 'recurring';
+  source_id: string;
+  title: string;
+  amount: number; // Negative for money going out
+}
+
+export interface ForecastPoint {
+  date: string;
+  inflow: number;
+  outflow: number;
+  balance: number;
+  events: ForecastEvent[];
+}
+
+export interface WalletForecast {
+  wallet_id: string;
+  wallet_name: string;
+  currency: string;
+  starting_balance: number;
+  average_daily_spend: number;
+  ending_balance: number;
+  lowest_balance: number;
+  first_negative_date: string | null;
+  points: ForecastPoint[];
+}
+
+export interface CashFlowForecast {
+  start_date: string;
+  end_date: string;
+  days: number;
+  lookback_days: number;
+  wallets: WalletForecast[]; // Each in its own wallet's currency
+  missing_rate_currencies: string[];
 }
 
 // Chart Data Types
@@ -98,6 +161,7 @@ export interface ExportRequest {
   type?: 'Income' | 'Expense';
   start_date?: string;
   end_date?: string;
+  tags?: string;
   filename?: string;
 }
 
@@ -155,6 +219,7 @@ export const dashboardApi = {
     type?: 'Income' | 'Expense';
     start_date?: string;
     end_date?: string;
+    tags?: string;
   } = {}): Promise<CategoryBreakdown> {
     const token = AuthService.getToken();
     const queryParams = new URLSearchParams();
@@ -181,6 +246,38 @@ export const dashboardApi = {
     return result.data!;
   },
 
+  // Get tag breakdown
+  async getTagBreakdown(filters: {
+    wallet_id?: string;
+    type?: 'Income' | 'Expense';
+    start_date?: string;
+    end_date?: string;
+  } = {}): Promise<TagBreakdown> {
+    const token = AuthService.getToken();
+    const queryParams = new URLSearchParams();
+
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        queryParams.append(key, value.toString());
+      }
+    });
+
+    const response = await fetch(`${API_BASE_URL}/api/dashboard/reports/tag-breakdown?${queryParams}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const result: ApiResponse<TagBreakdown> = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Failed to fetch tag breakdown');
+    }
+
+    return result.data!;
+  },
+
   // Get trends report
   async getTrends(filters: {
     wallet_id?: string;
@@ -212,6 +309,36 @@ export const dashboardApi = {
     return result.data!;
   },
 
+  // Get projected wallet balances
+  async getForecast(filters: {
+    wallet_id?: string;
+    days?: number;
+  } = {}): Promise<CashFlowForecast> {
+    const token = AuthService.getToken();
+    const queryParams = new URLSearchParams();
+
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        queryParams.append(key, value.toString());
+      }
+    });
+
+    const response = await fetch(`${API_BASE_URL}/api/dashboard/forecast?${queryParams}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const result: ApiResponse<CashFlowForecast> = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Failed to fetch forecast');
+    }
+
+    return result.data!;
+  },
+
   // Get chart data
   async getChartData(chartType: string, options: {
     wallet_id?: string;
@@ -0,0 +1,15 @@
+// The API sends DATE columns as YYYY-MM-DD text
+
+// Local calendar date as YYYY-MM-DD
+export const toDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Local midnight of a YYYY-MM-DD date. new Date(key) would read it as UTC and show the day before west of Greenwich
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { ApiResponse, ExchangeRate } from '@/types';
+import { AuthService } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export interface ExchangeRateData {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  rate_date: string; // YYYY-MM-DD
+}
+
+export interface ExchangeRateImportData {
+  content: string; // CSV with date, from, to and rate columns
+  has_header?: boolean;
+}
+
+export interface ExchangeRateImportRowError {
+  row_number: number;
+  error: string;
+}
+
+export interface ExchangeRateImportPreview {
+  total_rows: number;
+  rows: Array<ExchangeRateData & { row_number: number }>;
+  errors: ExchangeRateImportRowError[];
+}
+
+export interface ExchangeRateImportResult {
+  status: 'completed' | 'failed';
+  total_rows: number;
+  imported_records: number;
+  errors: ExchangeRateImportRowError[];
+}
+
+export class ExchangeRateService {
+  private static async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    const token = AuthService.getToken();
+
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    });
+
+    let result: ApiResponse<T>;
+
+    try {
+      result = await response.json();
+    } catch (jsonError) {
+      // If JSON parsing fails, create a generic error response
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+      }
+      throw new Error('Invalid response format');
+    }
+
+    if (!response.ok) {
+      const errorMessage = result?.error?.message || `Request failed with status ${response.status}: ${response.statusText}`;
+      throw new Error(errorMessage);
+    }
+
+    return result;
+  }
+
+  static async getRates(): Promise<ExchangeRate[]> {
+    const response = await this.makeRequest<ExchangeRate[]>('/exchange-rates');
+    return response.data || [];
+  }
+
+  static async saveRate(data: ExchangeRateData): Promise<ExchangeRate> {
+    const response = await this.makeRequest<ExchangeRate>('/exchange-rates', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to save rate');
+    }
+
+    return response.data;
+  }
+
+  static async deleteRate(id: string): Promise<void> {
+    await this.makeRequest(`/exchange-rates/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  static async previewImport(data: ExchangeRateImportData): Promise<ExchangeRateImportPreview> {
+    const response = await this.makeRequest<ExchangeRateImportPreview>('/exchange-rates/import/preview', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to read the file');
+    }
+
+    return response.data;
+  }
+
+  static async importRates(data: ExchangeRateImportData): Promise<ExchangeRateImportResult> {
+    const response = await this.makeRequest<ExchangeRateImportResult>('/exchange-rates/import', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to import rates');
+    }
+
+    return response.data;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { ApiResponse, AmortizationSchedule, LoanPayment, LoanSimulation, LoanSummary } from '@/types';
+import { AuthService } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export interface CreateLoanData {
+  wallet_id: string;
+  name: string;
+  principal: number;
+  annual_rate: number;
+  term_months: number;
+  start_date: string; // YYYY-MM-DD
+  create_reminder?: boolean;
+}
+
+export interface UpdateLoanData {
+  name?: string;
+  principal?: number;
+  annual_rate?: number;
+  term_months?: number;
+  start_date?: string;
+}
+
+export interface CreateLoanPaymentData {
+  transaction_id?: string;
+  amount?: number;
+  payment_date?: string; // YYYY-MM-DD, defaults to today
+  category_id?: string | null;
+}
+
+export class LoanService {
+  private static async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    const token = AuthService.getToken();
+
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    });
+
+    let result: ApiResponse<T>;
+
+    try {
+      result = await response.json();
+    } catch (jsonError) {
+      // If JSON parsing fails, create a generic error response
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+      }
+      throw new Error('Invalid response format');
+    }
+
+    if (!response.ok) {
+      const errorMessage = result?.error?.message || `Request failed with status ${response.status}: ${response.statusText}`;
+      throw new Error(errorMessage);
+    }
+
+    return result;
+  }
+
+  static async getLoans(): Promise<LoanSummary[]> {
+    const response = await this.makeRequest<LoanSummary[]>('/loans');
+    return response.data || [];
+  }
+
+  static async getLoan(id: string): Promise<LoanSummary> {
+    const response = await this.makeRequest<LoanSummary>(`/loans/${id}`);
+
+    if (!response.data) {
+      throw new Error('Loan not found');
+    }
+
+    return response.data;
+  }
+
+  static async getSchedule(id: string, extraMonthly: number = 0): Promise<AmortizationSchedule> {
+    const query = extraMonthly > 0 ? `?extra_monthly=${extraMonthly}` : '';
+    const response = await this.makeRequest<AmortizationSchedule>(`/loans/${id}/schedule${query}`);
+
+    if (!response.data) {
+      throw new Error('Failed to load the schedule');
+    }
+
+    return response.data;
+  }
+
+  static async simulate(id: string, extraMonthly: number, lumpSum: number): Promise<LoanSimulation> {
+    const params = new URLSearchParams({
+      extra_monthly: String(extraMonthly),
+      lump_sum: String(lumpSum),
+    });
+    const response = await this.makeRequest<LoanSimulation>(`/loans/${id}/simulate?${params.toString()}`);
+
+    if (!response.data) {
+      throw new Error('Failed to simulate extra payments');
+    }
+
+    return response.data;
+  }
+
+  static async createLoan(data: CreateLoanData): Promise<LoanSummary> {
+    const response = await this.makeRequest<LoanSummary>('/loans', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to create loan');
+    }
+
+    return response.data;
+  }
+
+  static async updateLoan(id: string, data: UpdateLoanData): Promise<LoanSummary> {
+    const response = await this.makeRequest<LoanSummary>(`/loans/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to update loan');
+    }
+
+    return response.data;
+  }
+
+  static async deleteLoan(id: string): Promise<void> {
+    await this.makeRequest(`/loans/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  static async getPayments(id: string): Promise<LoanPayment[]> {
+    const response = await this.makeRequest<LoanPayment[]>(`/loans/${id}/payments`);
+    return response.data || [];
+  }
+
+  static async addPayment(id: string, data: CreateLoanPaymentData): Promise<LoanPayment[]> {
+    const response = await this.makeRequest<LoanPayment[]>(`/loans/${id}/payments`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return response.data || [];
+  }
+
+  static async removePayment(id: string, paymentId: string): Promise<LoanPayment[]> {
+    const response = await this.makeRequest<LoanPayment[]>(`/loans/${id}/payments/${paymentId}`, {
+      method: 'DELETE',
+    });
+    return response.data || [];
+  }
+}
\ No newline at end of file
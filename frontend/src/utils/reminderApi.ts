@@ -1,4 +1,4 @@
-import { Reminder, ApiResponse } from '@/types';
+import { Reminder, ReminderSettlement, Transaction, ApiResponse } from '@/types';
 import { AuthService } from './auth';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
@@ -46,9 +46,22 @@ export interface UpdateReminderRequest {
   is_active?: boolean;
 }
 
+export interface SettleOccurrenceRequest {
+  amount?: number;
+  wallet_id?: string;
+  category_id?: string | null;
+  transaction_date?: string;
+}
+
+export interface SettleOccurrenceResult {
+  settlement: ReminderSettlement;
+  transaction: Transaction;
+}
+
 export interface ReminderOccurrence {
   reminder: Reminder;
   occurrences: string[];
+  settlements: ReminderSettlement[];
 }
 
 export interface ReminderSchedule {
@@ -189,6 +202,41 @@ export const reminderApi = {
     return handleResponse<ReminderSchedule[]>(response);
   },
 
+  // Get paid and skipped occurrences
+  getSettlements: async (startDate?: string, endDate?: string): Promise<ReminderSettlement[]> => {
+    const params = new URLSearchParams();
+    if (startDate) params.append('start_date', startDate);
+    if (endDate) params.append('end_date', endDate);
+
+    const response = await fetch(`${API_BASE_URL}/api/reminders/settlements?${params.toString()}`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<ReminderSettlement[]>(response);
+  },
+
+  // Mark an occurrence as paid and record its transaction
+  settleOccurrence: async (reminderId: string, date: string, data: SettleOccurrenceRequest = {}): Promise<SettleOccurrenceResult> => {
+    const response = await fetch(`${API_BASE_URL}/api/reminders/${reminderId}/occurrences/${date}/settle`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+
+    return handleResponse<SettleOccurrenceResult>(response);
+  },
+
+  // Skip an occurrence without recording a transaction
+  skipOccurrence: async (reminderId: string, date: string): Promise<ReminderSettlement> => {
+    const response = await fetch(`${API_BASE_URL}/api/reminders/${reminderId}/occurrences/${date}/skip`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    return handleResponse<ReminderSettlement>(response);
+  },
+
   // Get due reminders
   getDueReminders: async (date?: string): Promise<Reminder[]> => {
     const url = date 
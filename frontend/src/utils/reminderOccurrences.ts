@@ -0,0 +1,280 @@
+import { Reminder, ReminderSettlement } from '@/types';
+import { fromDateKey, toDateKey } from './dates';
+
+export interface ScheduledOccurrence {
+  reminder: Reminder;
+  isRecurring: boolean;
+  originalDate: Date;
+}
+
+export type OccurrenceStatus = 'paid' | 'skipped' | 'overdue' | 'due' | 'upcoming';
+
+// Helper function to calculate monthly occurrence with day adjustment
+export const calculateMonthlyOccurrence = (originalDate: Date, targetMonth: number, targetYear: number): Date => {
+  const originalDay = originalDate.getDate();
+  
+  // Get the last day of the target month
+  const lastDayOfMonth = new Date(targetYear, targetMonth + 1, 0).getDate();
+  
+  // If original day is greater than the last day of target month, use last day
+  const adjustedDay = Math.min(originalDay, lastDayOfMonth);
+  
+  return new Date(targetYear, targetMonth, adjustedDay);
+};
+
+// Generate all occurrences for a reminder within the calendar view
+export const generateReminderOccurrences = (reminder: Reminder, startDate: Date, endDate: Date): ScheduledOccurrence[] => {
+  const occurrences: ScheduledOccurrence[] = [];
+  const originalDueDate = fromDateKey(reminder.due_date);
+  
+  // If it's a one-time reminder, just check if it falls within the range
+  if (reminder.recurrence === 'once') {
+    if (originalDueDate >= startDate && originalDueDate <= endDate) {
+      occurrences.push({
+        reminder,
+        isRecurring: false,
+        originalDate: originalDueDate
+      });
+    }
+    return occurrences;
+  }
+
+  // For recurring reminders, we need to find all occurrences in the date range
+  switch (reminder.recurrence) {
+    case 'daily':
+      {
+        let currentDate = new Date(originalDueDate);
+        
+        // If original due date is before start date, find the first occurrence within range
+        if (currentDate < startDate) {
+          const daysDiff = Math.ceil((startDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
+          currentDate.setDate(currentDate.getDate() + daysDiff);
+        }
+        
+        while (currentDate <= endDate) {
+          if (currentDate >= startDate) {
+            occurrences.push({
+              reminder,
+              isRecurring: true,
+              originalDate: new Date(currentDate)
+            });
+          }
+          currentDate.setDate(currentDate.getDate() + 1);
+          
+          // Check duration end
+          if (reminder.duration_end && currentDate > fromDateKey(reminder.duration_end)) {
+            break;
+          }
+        }
+      }
+      break;
+      
+    case 'weekly':
+      {
+        let currentDate = new Date(originalDueDate);
+        
+        // If original due date is before start date, find the first occurrence within range
+        if (currentDate < startDate) {
+          const daysDiff = Math.ceil((startDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
+          const weeksDiff = Math.ceil(daysDiff / 7);
+          currentDate.setDate(currentDate.getDate() + (weeksDiff * 7));
+        }
+        
+        while (currentDate <= endDate) {
+          if (currentDate >= startDate) {
+            occurrences.push({
+              reminder,
+              isRecurring: true,
+              originalDate: new Date(currentDate)
+            });
+          }
+          currentDate.setDate(currentDate.getDate() + 7);
+          
+          // Check duration end
+          if (reminder.duration_end && currentDate > fromDateKey(reminder.duration_end)) {
+            break;
+          }
+        }
+      }
+      break;
+      
+    case 'monthly':
+      {
+        const originalDay = originalDueDate.getDate();
+        
+        // Start from the original due date month/year or find the first month within range
+        let currentYear = originalDueDate.getFullYear();
+        let currentMonth = originalDueDate.getMonth();
+        
+        // If original due date is before start date, find the first month within range
+        if (originalDueDate < startDate) {
+          currentYear = startDate.getFullYear();
+          currentMonth = startDate.getMonth();
+          
+          // Check if we need to go to the next month
+          const monthlyOccurrence = calculateMonthlyOccurrence(originalDueDate, currentMonth, currentYear);
+          if (monthlyOccurrence < startDate) {
+            currentMonth++;
+            if (currentMonth > 11) {
+              currentMonth = 0;
+              currentYear++;
+            }
+          }
+        }
+        
+        // Generate monthly occurrences
+        const maxIterations = 50; // Prevent infinite loops
+        let iterations = 0;
+        
+        while (iterations < maxIterations) {
+          iterations++;
+          
+          const monthlyOccurrence = calculateMonthlyOccurrence(originalDueDate, currentMonth, currentYear);
+          
+          // If this occurrence is past our end date, stop
+          if (monthlyOccurrence > endDate) {
+            break;
+          }
+          
+          // If this occurrence is within our range, add it
+          if (monthlyOccurrence >= startDate && monthlyOccurrence <= endDate) {
+            occurrences.push({
+              reminder,
+              isRecurring: true,
+              originalDate: new Date(monthlyOccurrence)
+            });
+          }
+          
+          // Move to next month
+          currentMonth++;
+          if (currentMonth > 11) {
+            currentMonth = 0;
+            currentYear++;
+          }
+          
+          // Check duration end
+          if (reminder.duration_end) {
+            const nextOccurrence = calculateMonthlyOccurrence(originalDueDate, currentMonth, currentYear);
+            if (nextOccurrence > fromDateKey(reminder.duration_end)) {
+              break;
+            }
+          }
+        }
+      }
+      break;
+      
+    case 'custom':
+      {
+        if (!reminder.recurrence_interval) break;
+        
+        let currentDate = new Date(originalDueDate);
+        
+        // If original due date is before start date, find the first occurrence within range
+        if (currentDate < startDate) {
+          const daysDiff = Math.ceil((startDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
+          const intervalsDiff = Math.ceil(daysDiff / reminder.recurrence_interval);
+          currentDate.setDate(currentDate.getDate() + (intervalsDiff * reminder.recurrence_interval));
+        }
+        
+        while (currentDate <= endDate) {
+          if (currentDate >= startDate) {
+            occurrences.push({
+              reminder,
+              isRecurring: true,
+              originalDate: new Date(currentDate)
+            });
+          }
+          currentDate.setDate(currentDate.getDate() + reminder.recurrence_interval);
+          
+          // Check duration end
+          if (reminder.duration_end && currentDate > fromDateKey(reminder.duration_end)) {
+            break;
+          }
+        }
+      }
+      break;
+  }
+  
+  return occurrences;
+};
+
+export const findSettlement = (
+  reminderId: string,
+  date: Date,
+  settlements: ReminderSettlement[]
+): ReminderSettlement | undefined => {
+  const dateKey = toDateKey(date);
+  return settlements.find(settlement =>
+    settlement.reminder_id === reminderId && settlement.occurrence_date === dateKey
+  );
+};
+
+export const getOccurrenceStatus = (
+  reminderId: string,
+  date: Date,
+  settlements: ReminderSettlement[]
+): OccurrenceStatus => {
+  const settlement = findSettlement(reminderId, date, settlements);
+  if (settlement) {
+    return settlement.status;
+  }
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const occurrenceDate = new Date(date);
+  occurrenceDate.setHours(0, 0, 0, 0);
+
+  if (occurrenceDate.getTime() < today.getTime()) {
+    return 'overdue';
+  }
+  return occurrenceDate.getTime() === today.getTime() ? 'due' : 'upcoming';
+};
+
+// How far back to look for unsettled occurrences of a recurring reminder
+const OCCURRENCE_LOOKBACK_DAYS = 365;
+
+/**
+ * Occurrences of a reminder up to and including today, oldest first,
+ * limited to the lookback window for long-running recurring reminders.
+ */
+export const getPastOccurrences = (reminder: Reminder): ScheduledOccurrence[] => {
+  const today = new Date();
+  today.setHours(23, 59, 59, 999);
+
+  const lookbackStart = new Date();
+  lookbackStart.setHours(0, 0, 0, 0);
+  lookbackStart.setDate(lookbackStart.getDate() - OCCURRENCE_LOOKBACK_DAYS);
+
+  const dueDate = fromDateKey(reminder.due_date);
+  const startDate = dueDate > lookbackStart ? dueDate : lookbackStart;
+
+  return generateReminderOccurrences(reminder, startDate, today);
+};
+
+/**
+ * The occurrence that needs attention: the oldest unsettled one up to today,
+ * otherwise the next one after today. Returns null once a reminder has no
+ * further occurrences to settle.
+ */
+export const getCurrentOccurrence = (
+  reminder: Reminder,
+  settlements: ReminderSettlement[]
+): ScheduledOccurrence | null => {
+  const unsettled = getPastOccurrences(reminder).find(occurrence =>
+    !findSettlement(reminder.id, occurrence.originalDate, settlements)
+  );
+  if (unsettled) {
+    return unsettled;
+  }
+
+  const tomorrow = new Date();
+  tomorrow.setHours(0, 0, 0, 0);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  // Look far enough ahead to reach the next occurrence of any schedule
+  const horizon = new Date(tomorrow);
+  horizon.setDate(horizon.getDate() + Math.max(62, reminder.recurrence_interval || 0));
+
+  const [next] = generateReminderOccurrences(reminder, tomorrow, horizon);
+  return next || null;
+};
\ No newline at end of file
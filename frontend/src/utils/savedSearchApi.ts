@@ -0,0 +1,89 @@
+import { ApiResponse, SavedSearch } from '@/types';
+import { AuthService } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export interface SavedSearchData {
+  name: string;
+  query?: string | null;
+  wallet_id?: string | null;
+  category_id?: string | null;
+  type?: 'Income' | 'Expense' | 'Transfer' | null;
+  start_date?: string | null; // YYYY-MM-DD
+  end_date?: string | null; // YYYY-MM-DD
+  tags?: string | null; // Comma-separated
+}
+
+export class SavedSearchService {
+  private static async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    const token = AuthService.getToken();
+
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    });
+
+    let result: ApiResponse<T>;
+
+    try {
+      result = await response.json();
+    } catch (jsonError) {
+      // If JSON parsing fails, create a generic error response
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+      }
+      throw new Error('Invalid response format');
+    }
+
+    if (!response.ok) {
+      const errorMessage = result?.error?.message || `Request failed with status ${response.status}: ${response.statusText}`;
+      throw new Error(errorMessage);
+    }
+
+    return result;
+  }
+
+  static async getSearches(): Promise<SavedSearch[]> {
+    const response = await this.makeRequest<SavedSearch[]>('/saved-searches');
+    return response.data || [];
+  }
+
+  static async createSearch(data: SavedSearchData): Promise<SavedSearch> {
+    const response = await this.makeRequest<SavedSearch>('/saved-searches', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to save search');
+    }
+
+    return response.data;
+  }
+
+  static async updateSearch(id: string, data: Partial<SavedSearchData>): Promise<SavedSearch> {
+    const response = await this.makeRequest<SavedSearch>(`/saved-searches/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to update saved search');
+    }
+
+    return response.data;
+  }
+
+  static async deleteSearch(id: string): Promise<void> {
+    await this.makeRequest(`/saved-searches/${id}`, {
+      method: 'DELETE',
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { ApiResponse, SavingsGoalProgress, Transaction } from '@/types';
+import { AuthService } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export interface CreateSavingsGoalData {
+  wallet_id: string;
+  name: string;
+  target_amount: number;
+  target_date: string; // YYYY-MM-DD
+  start_date?: string; // YYYY-MM-DD, defaults to today
+}
+
+export interface UpdateSavingsGoalData {
+  name?: string;
+  target_amount?: number;
+  target_date?: string;
+  start_date?: string;
+}
+
+export class SavingsGoalService {
+  private static async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    const token = AuthService.getToken();
+
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    });
+
+    let result: ApiResponse<T>;
+
+    try {
+      result = await response.json();
+    } catch (jsonError) {
+      // If JSON parsing fails, create a generic error response
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+      }
+      throw new Error('Invalid response format');
+    }
+
+    if (!response.ok) {
+      const errorMessage = result?.error?.message || `Request failed with status ${response.status}: ${response.statusText}`;
+      throw new Error(errorMessage);
+    }
+
+    return result;
+  }
+
+  static async getGoals(): Promise<SavingsGoalProgress[]> {
+    const response = await this.makeRequest<SavingsGoalProgress[]>('/savings-goals');
+    return response.data || [];
+  }
+
+  static async getGoal(id: string): Promise<SavingsGoalProgress> {
+    const response = await this.makeRequest<SavingsGoalProgress>(`/savings-goals/${id}`);
+
+    if (!response.data) {
+      throw new Error('Savings goal not found');
+    }
+
+    return response.data;
+  }
+
+  static async getContributions(id: string): Promise<Transaction[]> {
+    const response = await this.makeRequest<Transaction[]>(`/savings-goals/${id}/contributions`);
+    return response.data || [];
+  }
+
+  static async createGoal(data: CreateSavingsGoalData): Promise<SavingsGoalProgress> {
+    const response = await this.makeRequest<SavingsGoalProgress>('/savings-goals', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to create savings goal');
+    }
+
+    return response.data;
+  }
+
+  static async updateGoal(id: string, data: UpdateSavingsGoalData): Promise<SavingsGoalProgress> {
+    const response = await this.makeRequest<SavingsGoalProgress>(`/savings-goals/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to update savings goal');
+    }
+
+    return response.data;
+  }
+
+  static async deleteGoal(id: string): Promise<void> {
+    await this.makeRequest(`/savings-goals/${id}`, {
+      method: 'DELETE',
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { ApiResponse, SecuritySettings } from '@/types';
+import { AuthService } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export class SettingsService {
+  private static async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    const token = AuthService.getToken();
+
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    });
+
+    let result: ApiResponse<T>;
+
+    try {
+      result = await response.json();
+    } catch (jsonError) {
+      // If JSON parsing fails, create a generic error response
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+      }
+      throw new Error('Invalid response format');
+    }
+
+    if (!response.ok) {
+      const errorMessage = result?.error?.message || `Request failed with status ${response.status}: ${response.statusText}`;
+      throw new Error(errorMessage);
+    }
+
+    return result;
+  }
+
+  static async getSecuritySettings(): Promise<SecuritySettings> {
+    const response = await this.makeRequest<SecuritySettings>('/admin/settings/security');
+
+    if (!response.data) {
+      throw new Error('Failed to load security settings');
+    }
+
+    return response.data;
+  }
+
+  static async updateSecuritySettings(settings: Partial<SecuritySettings>): Promise<SecuritySettings> {
+    const response = await this.makeRequest<SecuritySettings>('/admin/settings/security', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to update security settings');
+    }
+
+    return response.data;
+  }
+}
\ No newline at end of file
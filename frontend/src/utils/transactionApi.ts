@@ -1,34 +1,152 @@
-import { ApiResponse, Transaction } from '@/types';
+import { ApiResponse, Transaction, TransactionAttachment } from '@/types';
 import { AuthService } from './auth';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
+export interface TransactionSplitData {
+  category_id: string | null;
+  amount: number;
+  memo?: string | null;
+}
+
 export interface CreateTransactionData {
   title: string;
+  notes?: string | null;
   amount: number;
   type: 'Income' | 'Expense';
   category_id?: string;
   wallet_id?: string;
+  transaction_date?: string;
+  currency?: string; // Defaults to the wallet's currency
+  splits?: TransactionSplitData[]; // Must add up to the amount
+  savings_goal_id?: string;
+  tags?: string[]; // Created on first use
 }
 
 export interface UpdateTransactionData {
   title: string;
+  notes?: string | null; // Empty or null clears the notes
   amount: number;
-  type: 'Income' | 'Expense';
+  type?: 'Income' | 'Expense'; // Omitted when editing a transfer leg
   category_id?: string;
   wallet_id: string;
+  transaction_date?: string;
+  currency?: string | null; // Null puts the amount back in the wallet's currency
+  splits?: TransactionSplitData[] | null; // Null removes the split
+  savings_goal_id?: string | null; // Null takes the transaction out of its goal
+  tags?: string[]; // Replaces the transaction's tags
+}
+
+export interface CreateTransferData {
+  from_wallet_id: string;
+  to_wallet_id: string;
+  amount: number;
+  title?: string;
+  notes?: string | null;
+  transaction_date?: string;
+}
+
+export interface TransferResult {
+  transfer_id: string;
+  outgoing: Transaction;
+  incoming: Transaction;
+}
+
+export interface ImportColumnMapping {
+  date: number;
+  description: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+}
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export type ImportDecimalSeparator = '.' | ',';
+
+export type ImportFileFormat = 'csv' | 'ofx' | 'qif';
+
+export interface TransactionImportData {
+  wallet_id: string;
+  content: string;
+  format?: ImportFileFormat;
+  mapping?: ImportColumnMapping;
+  has_header?: boolean;
+  date_format?: ImportDateFormat;
+  decimal_separator?: ImportDecimalSeparator;
+  category_id?: string | null;
+  skip_duplicates?: boolean;
+}
+
+export interface ImportRowError {
+  row_number: number;
+  error: string;
+}
+
+export interface ImportPreviewRow {
+  row_number: number;
+  transaction_date: string;
+  title: string;
+  amount: number;
+  type: 'Income' | 'Expense';
+  external_id: string | null;
+  duplicate_of: string | null;
+  already_imported: boolean;
+  category_id: string | null;
+}
+
+export interface ImportPreviewResult {
+  headers: string[];
+  total_rows: number;
+  rows: ImportPreviewRow[];
+  errors: ImportRowError[];
+}
+
+export interface ImportResult {
+  status: 'completed' | 'failed';
+  total_rows: number;
+  imported_records: number;
+  skipped_duplicates: number;
+  errors: ImportRowError[];
 }
 
 export interface TransactionFilters {
   wallet_id?: string;
   category_id?: string;
-  type?: 'Income' | 'Expense';
+  type?: 'Income' | 'Expense' | 'Transfer';
   start_date?: string;
   end_date?: string;
+  tags?: string; // Comma-separated; transactions must carry every tag
+  q?: string; // Free-text search, e.g. `coffee >100`
   page?: number;
   limit?: number;
 }
 
+// Bulk actions apply to the selected ids, or to everything matching the list filters
+export interface BulkTransactionSelection {
+  ids?: string[];
+  filter?: Omit<TransactionFilters, 'page' | 'limit'>;
+}
+
+export interface BulkTransactionChanges {
+  category_id?: string | null;
+  wallet_id?: string;
+  type?: 'Income' | 'Expense';
+}
+
+export interface BulkTransactionItemResult {
+  id: string;
+  status: 'updated' | 'deleted' | 'failed';
+  error?: string;
+}
+
+export interface BulkTransactionResult {
+  matched: number;
+  succeeded: number;
+  failed: number;
+  results: BulkTransactionItemResult[];
+}
+
 export interface TransactionListResponse {
   transactions: Transaction[];
   total: number;
@@ -108,6 +226,45 @@ export class TransactionService {
     return response.data;
   }
 
+  static async createTransfer(data: CreateTransferData): Promise<TransferResult> {
+    const response = await this.makeRequest<TransferResult>('/transactions/transfers', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    
+    if (!response.data) {
+      throw new Error('Failed to create transfer');
+    }
+    
+    return response.data;
+  }
+
+  static async previewImport(data: TransactionImportData): Promise<ImportPreviewResult> {
+    const response = await this.makeRequest<ImportPreviewResult>('/transactions/import/preview', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to preview import');
+    }
+
+    return response.data;
+  }
+
+  static async importTransactions(data: TransactionImportData): Promise<ImportResult> {
+    const response = await this.makeRequest<ImportResult>('/transactions/import', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to import transactions');
+    }
+
+    return response.data;
+  }
+
   static async updateTransaction(id: string, data: UpdateTransactionData): Promise<Transaction> {
     const response = await this.makeRequest<Transaction>(`/transactions/${id}`, {
       method: 'PUT',
@@ -127,6 +284,32 @@ export class TransactionService {
     });
   }
 
+  static async bulkUpdate(selection: BulkTransactionSelection, changes: BulkTransactionChanges): Promise<BulkTransactionResult> {
+    const response = await this.makeRequest<BulkTransactionResult>('/transactions/bulk/update', {
+      method: 'POST',
+      body: JSON.stringify({ ...selection, changes }),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to update transactions');
+    }
+
+    return response.data;
+  }
+
+  static async bulkDelete(selection: BulkTransactionSelection): Promise<BulkTransactionResult> {
+    const response = await this.makeRequest<BulkTransactionResult>('/transactions/bulk/delete', {
+      method: 'POST',
+      body: JSON.stringify(selection),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to delete transactions');
+    }
+
+    return response.data;
+  }
+
   static async getTransactionSummary(filters: Omit<TransactionFilters, 'page' | 'limit'> = {}): Promise<{
     totalIncome: number;
     totalExpense: number;
@@ -158,4 +341,47 @@ export class TransactionService {
       transactionCount: 0,
     };
   }
+
+  static async uploadAttachment(transactionId: string, file: File): Promise<TransactionAttachment> {
+    // Sent as a data URL; the server works out the file type from the contents
+    const content = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsDataURL(file);
+    });
+
+    const response = await this.makeRequest<TransactionAttachment>(`/transactions/${transactionId}/attachments`, {
+      method: 'POST',
+      body: JSON.stringify({ file_name: file.name, content }),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to upload attachment');
+    }
+
+    return response.data;
+  }
+
+  static async getAttachmentFile(transactionId: string, attachmentId: string): Promise<Blob> {
+    const token = AuthService.getToken();
+    const response = await fetch(`${API_BASE_URL}/api/transactions/${transactionId}/attachments/${attachmentId}`, {
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+    });
+
+    if (!response.ok) {
+      const errorResult = await response.json().catch(() => null);
+      throw new Error(errorResult?.error?.message || 'Failed to load attachment');
+    }
+
+    return response.blob();
+  }
+
+  static async deleteAttachment(transactionId: string, attachmentId: string): Promise<void> {
+    await this.makeRequest(`/transactions/${transactionId}/attachments/${attachmentId}`, {
+      method: 'DELETE',
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { ApiResponse, TrashItem, TrashItemType } from '@/types';
+import { AuthService } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export class TrashService {
+  private static async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    const token = AuthService.getToken();
+
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    });
+
+    let result: ApiResponse<T>;
+
+    try {
+      result = await response.json();
+    } catch (jsonError) {
+      // If JSON parsing fails, create a generic error response
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+      }
+      throw new Error('Invalid response format');
+    }
+
+    if (!response.ok) {
+      const errorMessage = result?.error?.message || `Request failed with status ${response.status}: ${response.statusText}`;
+      throw new Error(errorMessage);
+    }
+
+    return result;
+  }
+
+  static async getTrash(): Promise<TrashItem[]> {
+    const response = await this.makeRequest<TrashItem[]>('/trash');
+    return response.data || [];
+  }
+
+  static async restoreItem(type: TrashItemType, id: string): Promise<TrashItem> {
+    const response = await this.makeRequest<TrashItem>(`/trash/${type}/${id}/restore`, {
+      method: 'POST',
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to restore item');
+    }
+
+    return response.data;
+  }
+}
\ No newline at end of file
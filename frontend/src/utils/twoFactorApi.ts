@@ -0,0 +1,97 @@
+import { ApiResponse, TwoFactorSetup, TwoFactorStatus } from '@/types';
+import { AuthService } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export class TwoFactorService {
+  private static async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    const token = AuthService.getToken();
+
+    const response = await fetch(`${API_BASE_URL}/api${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+    });
+
+    let result: ApiResponse<T>;
+
+    try {
+      result = await response.json();
+    } catch (jsonError) {
+      // If JSON parsing fails, create a generic error response
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+      }
+      throw new Error('Invalid response format');
+    }
+
+    if (!response.ok) {
+      const errorMessage = result?.error?.message || `Request failed with status ${response.status}: ${response.statusText}`;
+      throw new Error(errorMessage);
+    }
+
+    return result;
+  }
+
+  static async getStatus(): Promise<TwoFactorStatus> {
+    const response = await this.makeRequest<TwoFactorStatus>('/auth/2fa');
+
+    if (!response.data) {
+      throw new Error('Failed to load two-factor settings');
+    }
+
+    return response.data;
+  }
+
+  static async setup(): Promise<TwoFactorSetup> {
+    const response = await this.makeRequest<TwoFactorSetup>('/auth/2fa/setup', {
+      method: 'POST',
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to start two-factor setup');
+    }
+
+    return response.data;
+  }
+
+  // Returns the recovery codes, which are only shown once
+  static async enable(code: string): Promise<string[]> {
+    const response = await this.makeRequest<{ recoveryCodes: string[] }>('/auth/2fa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to turn on two-factor authentication');
+    }
+
+    return response.data.recoveryCodes;
+  }
+
+  static async disable(password: string, code: string): Promise<void> {
+    await this.makeRequest('/auth/2fa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ password, code }),
+    });
+  }
+
+  static async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await this.makeRequest<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to create new recovery codes');
+    }
+
+    return response.data.recoveryCodes;
+  }
+}
\ No newline at end of file
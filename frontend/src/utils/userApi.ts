@@ -6,6 +6,7 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 export interface UpdateProfileData {
   username?: string;
   email?: string;
+  base_currency?: string;
 }
 
 export interface ChangePasswordData {
@@ -141,6 +142,32 @@ export class UserService {
     return response.data;
   }
 
+  // End every session of a user (admin only)
+  static async forceLogout(id: string): Promise<number> {
+    const response = await this.makeRequest<{ ended_sessions: number }>(`/admin/users/${id}/logout`, {
+      method: 'POST',
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to log the user out');
+    }
+
+    return response.data.ended_sessions;
+  }
+
+  // Lift a lockout from failed logins (admin only)
+  static async unlockUser(id: string): Promise<UserResponse> {
+    const response = await this.makeRequest<UserResponse>(`/admin/users/${id}/unlock`, {
+      method: 'POST',
+    });
+
+    if (!response.data) {
+      throw new Error('Failed to unlock the user');
+    }
+
+    return response.data;
+  }
+
   static async deleteUser(id: string): Promise<void> {
     await this.makeRequest(`/admin/users/${id}`, {
       method: 'DELETE',
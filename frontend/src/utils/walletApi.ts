@@ -5,10 +5,12 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
 export interface CreateWalletData {
   name: string;
+  currency?: string; // Defaults to the user's base currency
 }
 
 export interface UpdateWalletData {
   name: string;
+  currency?: string; // Only accepted while the wallet has no transactions
 }
 
 export class WalletService {